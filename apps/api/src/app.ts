@@ -10,8 +10,16 @@ import { jwtPlugin, type JwtPluginOptions } from "./plugins/jwt.js";
 import { healthRoutes } from "./routes/health.js";
 import { authRoutes } from "./routes/auth.js";
 import { googleAuthRoutes } from "./routes/google-auth.js";
+import { twoFactorRoutes } from "./routes/two-factor.js";
+import { accessTokenRoutes } from "./routes/access-tokens.js";
+import { organizationRoutes } from "./routes/organizations.js";
 import { instanceRoutes } from "./routes/instances.js";
 import { billingRoutes } from "./routes/billing.js";
+import { providerRoutes } from "./routes/providers.js";
+import { adminRoutes } from "./routes/admin.js";
+import { aiKeyRoutes } from "./routes/ai-keys.js";
+import { modelRoutes } from "./routes/models.js";
+import { channelRoutes } from "./routes/channels.js";
 
 export interface CreateAppOptions {
   /** Fastify server options */
@@ -70,6 +78,8 @@ export async function createApp(options: CreateAppOptions = {}): Promise<Fastify
             type: "http",
             scheme: "bearer",
             bearerFormat: "JWT",
+            description:
+              "A session access token, or a personal access token (fcp_...) for the routes its scopes allow",
           },
         },
       },
@@ -100,6 +110,8 @@ export async function createApp(options: CreateAppOptions = {}): Promise<Fastify
   // Register routes
   await app.register(healthRoutes);
   await app.register(authRoutes);
+  await app.register(twoFactorRoutes);
+  await app.register(accessTokenRoutes);
   if (
     process.env.GOOGLE_CLIENT_ID !== undefined &&
     process.env.GOOGLE_CLIENT_ID !== "" &&
@@ -108,8 +120,14 @@ export async function createApp(options: CreateAppOptions = {}): Promise<Fastify
   ) {
     await app.register(googleAuthRoutes);
   }
+  await app.register(organizationRoutes);
   await app.register(instanceRoutes);
+  await app.register(channelRoutes);
+  await app.register(providerRoutes);
+  await app.register(aiKeyRoutes);
+  await app.register(modelRoutes);
   await app.register(billingRoutes);
+  await app.register(adminRoutes);
 
   return app;
 }
@@ -1,6 +1,12 @@
 import "dotenv/config";
 import { createApp } from "./app.js";
 import { syncAllInstanceStatuses } from "./routes/instances.js";
+import { startJobWorker } from "./services/jobs.js";
+import { instanceJobHandlers } from "./services/instance-jobs.js";
+import { reconcileProviders } from "./services/reconciler.js";
+import { purgeDeletedAccounts } from "./services/account-deletion.js";
+import { advanceRollouts } from "./services/rollouts.js";
+import { purgeExpiredSessions } from "./services/sessions.js";
 
 /**
  * Start the FasterClaw API server
@@ -28,6 +34,12 @@ async function start(): Promise<void> {
 Environment: ${process.env.NODE_ENV ?? "development"}
 `);
 
+    // Process queued instance jobs (resumes work left over from a previous run)
+    const jobWorker = startJobWorker({
+      handlers: instanceJobHandlers,
+      log: app.log,
+    });
+
     // Start background status sync every 60 seconds
     const SYNC_INTERVAL_MS = 60_000;
     const syncInterval = setInterval(() => {
@@ -36,9 +48,40 @@ Environment: ${process.env.NODE_ENV ?? "development"}
       });
     }, SYNC_INTERVAL_MS);
 
+    // Look for orphaned and missing provider resources every 15 minutes by default
+    const RECONCILE_INTERVAL_MS = parseInt(process.env.RECONCILE_INTERVAL_MS ?? "900000", 10);
+    const reconcileInterval = setInterval(() => {
+      reconcileProviders({ dryRun: false, log: app.log }).catch((err: unknown) => {
+        app.log.error(err, "Background reconcile failed");
+      });
+    }, RECONCILE_INTERVAL_MS);
+
+    // Purge accounts whose deletion grace period is over and lapsed sessions, hourly
+    const PURGE_INTERVAL_MS = 60 * 60_000;
+    const purgeInterval = setInterval(() => {
+      purgeDeletedAccounts(app.log).catch((err: unknown) => {
+        app.log.error(err, "Background account purge failed");
+      });
+      purgeExpiredSessions(app.log).catch((err: unknown) => {
+        app.log.error(err, "Background session purge failed");
+      });
+    }, PURGE_INTERVAL_MS);
+
+    // Move image rollouts along: start batches, check health, roll back
+    const ROLLOUT_INTERVAL_MS = 30_000;
+    const rolloutInterval = setInterval(() => {
+      advanceRollouts(app.log).catch((err: unknown) => {
+        app.log.error(err, "Background rollout failed");
+      });
+    }, ROLLOUT_INTERVAL_MS);
+
     // Graceful shutdown
     const shutdown = async () => {
       clearInterval(syncInterval);
+      clearInterval(reconcileInterval);
+      clearInterval(purgeInterval);
+      clearInterval(rolloutInterval);
+      await jobWorker.stop();
       await app.close();
       process.exit(0);
     };
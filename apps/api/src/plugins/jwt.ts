@@ -1,6 +1,11 @@
 import fp from "fastify-plugin";
 import fastifyJwt from "@fastify/jwt";
 import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import type { OrganizationRole } from "@fasterclaw/shared";
+import { isAccessToken, verifyAccessToken } from "../services/access-tokens.js";
+import { checkOrganizationRole, getDefaultMembership } from "../services/organizations.js";
+import { isSessionActive } from "../services/sessions.js";
+import { isTwoFactorSetupPending } from "../services/two-factor.js";
 
 export interface JwtPluginOptions {
   secret?: string;
@@ -17,22 +22,109 @@ export const jwtPlugin = fp(async (fastify: FastifyInstance, opts: JwtPluginOpti
     secret,
   });
 
+  // Personal access tokens only reach routes that declare a scope they carry
+  async function authenticateAccessToken(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    token: string
+  ): Promise<void> {
+    const identity = await verifyAccessToken(token);
+    if (identity === null) {
+      void reply.code(401).send({ error: "Invalid or expired access token" });
+      return;
+    }
+
+    const { scope } = request.routeOptions.config;
+    if (scope === undefined) {
+      void reply.code(403).send({ error: "This route cannot be used with an access token" });
+      return;
+    }
+    if (!identity.scopes.includes(scope)) {
+      void reply.code(403).send({ error: `Access token is missing the ${scope} scope` });
+      return;
+    }
+
+    if (await isTwoFactorSetupPending(identity.id)) {
+      void reply.code(403).send({ error: "Your organization requires two-factor authentication" });
+      return;
+    }
+
+    request.user = {
+      id: identity.id,
+      email: identity.email,
+      name: identity.name,
+      tokenId: identity.tokenId,
+      scopes: identity.scopes,
+    };
+  }
+
   fastify.decorate("authenticate", async (request: FastifyRequest, reply: FastifyReply) => {
+    const bearer = request.headers.authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    if (bearer !== undefined && isAccessToken(bearer)) {
+      await authenticateAccessToken(request, reply, bearer);
+      return;
+    }
+
+    let payload: { sub: string; email: string; name: string | null; sid?: string };
     try {
       await request.jwtVerify();
-      // Map JWT payload to user object
-      const payload = request.user as unknown as {
-        sub: string;
-        email: string;
-        name: string | null;
-      };
-      request.user = {
-        id: payload.sub,
-        email: payload.email,
-        name: payload.name,
-      };
+      payload = request.user as unknown as typeof payload;
     } catch {
       void reply.code(401).send({ error: "Unauthorized" });
+      return;
+    }
+
+    // Access tokens outlive a revoked session by up to their TTL unless checked here
+    if (payload.sid === undefined || !(await isSessionActive(payload.sid, payload.sub))) {
+      void reply.code(401).send({ error: "Session has been revoked" });
+      return;
+    }
+
+    // Organizations that require two-factor leave members only the /auth routes until they set it up
+    if (!request.url.startsWith("/auth/") && (await isTwoFactorSetupPending(payload.sub))) {
+      void reply.code(403).send({ error: "Your organization requires two-factor authentication" });
+      return;
+    }
+
+    // Map JWT payload to user object
+    request.user = {
+      id: payload.sub,
+      email: payload.email,
+      name: payload.name,
+      sessionId: payload.sid,
+    };
+  });
+
+  // Picks the organization from the X-Organization-Id header, else the user's oldest,
+  // and checks the role the route declares in config.role; run after authenticate
+  fastify.decorate("authorize", async (request: FastifyRequest, reply: FastifyReply) => {
+    const header = request.headers["x-organization-id"];
+    const required = request.routeOptions.config.role ?? "viewer";
+    const organizationId =
+      typeof header === "string" && header !== ""
+        ? header
+        : (await getDefaultMembership(request.user)).organizationId;
+    const result = await checkOrganizationRole(organizationId, request.user.id, required);
+    if ("error" in result) {
+      void reply.code(result.code).send({ error: result.error });
+      return;
+    }
+
+    request.organization = {
+      id: result.membership.organizationId,
+      name: result.membership.organization.name,
+      role: result.membership.role as OrganizationRole,
+    };
+  });
+
+  // Admins are listed by email in ADMIN_EMAILS (comma-separated); run after authenticate
+  fastify.decorate("requireAdmin", async (request: FastifyRequest, reply: FastifyReply) => {
+    const adminEmails = (process.env.ADMIN_EMAILS ?? "")
+      .split(",")
+      .map((email) => email.trim().toLowerCase())
+      .filter((email) => email !== "");
+    if (!adminEmails.includes(request.user.email.toLowerCase())) {
+      await reply.code(403).send({ error: "Admin access required" });
     }
   });
 });
@@ -0,0 +1,252 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import Fastify, { type FastifyInstance } from "fastify";
+import { serializerCompiler, validatorCompiler } from "fastify-type-provider-zod";
+
+vi.mock("../services/sessions.js", () => ({
+  isSessionActive: vi.fn(async () => true),
+}));
+
+vi.mock("../services/access-tokens.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../services/access-tokens.js")>()),
+  verifyAccessToken: vi.fn(),
+}));
+
+vi.mock("@fasterclaw/db", () => ({
+  maskToken: (token: string) => `${token.slice(0, 10)}...${token.slice(-4)}`,
+  prisma: {
+    personalAccessToken: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    user: { findUnique: vi.fn() },
+    membership: { count: vi.fn(async () => 0) },
+  },
+}));
+
+import { prisma } from "@fasterclaw/db";
+import { verifyAccessToken } from "../services/access-tokens.js";
+import { jwtPlugin } from "../plugins/jwt.js";
+import { accessTokenRoutes } from "./access-tokens.js";
+
+describe("Access Token Routes", () => {
+  let app: FastifyInstance;
+  let authToken: string;
+  const mockUserId = "cjld2cyuq0000t3rmniod1foy";
+  const tokenId = "cjld2cyuq0001t3rmniod1foy";
+  const pat = "fcp_abcdefghijklmnopqrstuvwxyz0123456789ABCDEFG";
+
+  const stored = {
+    id: tokenId,
+    userId: mockUserId,
+    name: "Deploy script",
+    tokenHash: "hash",
+    maskedToken: "fcp_abcdef...DEFG",
+    scopes: ["instances:read"],
+    expiresAt: new Date("2025-01-01T00:00:00.000Z"),
+    lastUsedAt: null,
+    createdAt: new Date("2024-01-01T00:00:00.000Z"),
+  };
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    app.setValidatorCompiler(validatorCompiler);
+    app.setSerializerCompiler(serializerCompiler);
+    await app.register(jwtPlugin, { secret: "test-jwt-secret-for-testing-only" });
+    await app.register(accessTokenRoutes);
+
+    // Stands in for the instance routes
+    app.get(
+      "/scoped",
+      { config: { scope: "instances:read" }, preHandler: [app.authenticate] },
+      async (request) => request.user
+    );
+    await app.ready();
+
+    authToken = app.jwt.sign({
+      sub: mockUserId,
+      email: "test@example.com",
+      name: "Test User",
+      sid: "session-1",
+    });
+    vi.mocked(verifyAccessToken).mockResolvedValue({
+      id: mockUserId,
+      email: "test@example.com",
+      name: "Test User",
+      tokenId,
+      scopes: ["instances:read"],
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+    vi.clearAllMocks();
+  });
+
+  describe("GET /auth/tokens", () => {
+    it("should list tokens without the token itself", async () => {
+      vi.mocked(prisma.personalAccessToken.findMany).mockResolvedValue([stored] as any);
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/auth/tokens",
+        headers: { authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual([
+        {
+          id: tokenId,
+          name: "Deploy script",
+          maskedToken: "fcp_abcdef...DEFG",
+          scopes: ["instances:read"],
+          expiresAt: "2025-01-01T00:00:00.000Z",
+          lastUsedAt: null,
+          createdAt: "2024-01-01T00:00:00.000Z",
+        },
+      ]);
+    });
+  });
+
+  describe("POST /auth/tokens", () => {
+    it("should return the new token once", async () => {
+      vi.mocked(prisma.personalAccessToken.create).mockImplementation((async ({ data }: any) => ({
+        ...stored,
+        ...data,
+      })) as any);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/tokens",
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { name: "CI", scopes: ["instances:write"], expiresInDays: null },
+      });
+
+      expect(response.statusCode).toBe(201);
+      const body = JSON.parse(response.body);
+      expect(body.token).toMatch(/^fcp_/);
+      expect(body.maskedToken).toBe(`${body.token.slice(0, 10)}...${body.token.slice(-4)}`);
+      expect(body.scopes).toEqual(["instances:write"]);
+      expect(body.expiresAt).toBeNull();
+    });
+
+    it("should reject unknown scopes", async () => {
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/tokens",
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { name: "CI", scopes: ["admin"], expiresInDays: 30 },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(prisma.personalAccessToken.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("DELETE /auth/tokens/:id", () => {
+    it("should revoke the token", async () => {
+      vi.mocked(prisma.personalAccessToken.deleteMany).mockResolvedValue({ count: 1 });
+
+      const response = await app.inject({
+        method: "DELETE",
+        url: `/auth/tokens/${tokenId}`,
+        headers: { authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(prisma.personalAccessToken.deleteMany).toHaveBeenCalledWith({
+        where: { id: tokenId, userId: mockUserId },
+      });
+    });
+
+    it("should return 404 for someone else's token", async () => {
+      vi.mocked(prisma.personalAccessToken.deleteMany).mockResolvedValue({ count: 0 });
+
+      const response = await app.inject({
+        method: "DELETE",
+        url: `/auth/tokens/${tokenId}`,
+        headers: { authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe("authenticating with an access token", () => {
+    it("should let a token call routes for its scopes", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/scoped",
+        headers: { authorization: `Bearer ${pat}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual({
+        id: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+        tokenId,
+        scopes: ["instances:read"],
+      });
+      expect(verifyAccessToken).toHaveBeenCalledWith(pat);
+    });
+
+    it("should return 403 without the route's scope", async () => {
+      vi.mocked(verifyAccessToken).mockResolvedValue({
+        id: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+        tokenId,
+        scopes: ["billing:read"],
+      });
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/scoped",
+        headers: { authorization: `Bearer ${pat}` },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(JSON.parse(response.body).error).toBe(
+        "Access token is missing the instances:read scope"
+      );
+    });
+
+    it("should keep routes without a scope for sessions", async () => {
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/tokens",
+        headers: { authorization: `Bearer ${pat}` },
+        payload: { name: "CI", scopes: ["instances:write"], expiresInDays: null },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(prisma.personalAccessToken.create).not.toHaveBeenCalled();
+    });
+
+    it("should return 401 for unknown or expired tokens", async () => {
+      vi.mocked(verifyAccessToken).mockResolvedValue(null);
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/scoped",
+        headers: { authorization: `Bearer ${pat}` },
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it("should refuse tokens of users who still have to set up two-factor", async () => {
+      vi.mocked(prisma.membership.count).mockResolvedValueOnce(1);
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ twoFactorEnabledAt: null } as any);
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/scoped",
+        headers: { authorization: `Bearer ${pat}` },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import type { FastifyInstance } from "fastify";
+import type { ZodTypeProvider } from "fastify-type-provider-zod";
+import type { PersonalAccessToken } from "@fasterclaw/db";
+import {
+  createAccessToken,
+  listAccessTokens,
+  revokeAccessToken,
+} from "../services/access-tokens.js";
+import {
+  AccessTokenListSchema,
+  CreatedAccessTokenSchema,
+  CreateAccessTokenRequestSchema,
+  AccessTokenIdParamSchema,
+  ApiErrorSchema,
+  ApiMessageSchema,
+  type AccessTokenScope,
+} from "@fasterclaw/shared";
+
+/**
+ * Format a token for API response; the token itself is only returned on creation.
+ */
+function formatAccessTokenResponse(accessToken: PersonalAccessToken) {
+  return {
+    id: accessToken.id,
+    name: accessToken.name,
+    maskedToken: accessToken.maskedToken,
+    scopes: accessToken.scopes as AccessTokenScope[],
+    expiresAt: accessToken.expiresAt?.toISOString() ?? null,
+    lastUsedAt: accessToken.lastUsedAt?.toISOString() ?? null,
+    createdAt: accessToken.createdAt.toISOString(),
+  };
+}
+
+export function accessTokenRoutes(fastify: FastifyInstance): void {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  // GET /auth/tokens - List personal access tokens
+  app.get(
+    "/auth/tokens",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "List your personal access tokens",
+        response: {
+          200: AccessTokenListSchema,
+          401: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request) => {
+      const accessTokens = await listAccessTokens(request.user.id);
+
+      return accessTokens.map(formatAccessTokenResponse);
+    }
+  );
+
+  // POST /auth/tokens - Create a personal access token
+  app.post(
+    "/auth/tokens",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "Create a personal access token; the token is only returned this once",
+        body: CreateAccessTokenRequestSchema,
+        response: {
+          201: CreatedAccessTokenSchema,
+          400: ApiErrorSchema,
+          401: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      const { token, accessToken } = await createAccessToken(request.user.id, request.body);
+
+      return reply.code(201).send({ ...formatAccessTokenResponse(accessToken), token });
+    }
+  );
+
+  // DELETE /auth/tokens/:id - Revoke a personal access token
+  app.delete(
+    "/auth/tokens/:id",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "Revoke a personal access token",
+        params: AccessTokenIdParamSchema,
+        response: {
+          200: ApiMessageSchema,
+          401: ApiErrorSchema,
+          404: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      const revoked = await revokeAccessToken(request.params.id, request.user.id);
+
+      if (!revoked) {
+        return reply.code(404).send({ error: "Access token not found" });
+      }
+
+      return reply.send({ message: "Access token revoked" });
+    }
+  );
+}
@@ -0,0 +1,359 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import Fastify, { type FastifyInstance } from "fastify";
+import { serializerCompiler, validatorCompiler } from "fastify-type-provider-zod";
+
+vi.mock("../services/reconciler.js", () => ({
+  reconcileProviders: vi.fn(),
+}));
+
+vi.mock("../services/image-versions.js", () => ({
+  approveImageVersion: vi.fn(),
+  findImageVersion: vi.fn(),
+  listImageVersions: vi.fn(),
+  setDefaultImageVersion: vi.fn(),
+}));
+
+vi.mock("../services/rollouts.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../services/rollouts.js")>()),
+  createRollout: vi.fn(),
+  findActiveRollout: vi.fn(),
+  haltRollout: vi.fn(),
+  rollBackRollout: vi.fn(),
+}));
+
+vi.mock("../services/sessions.js", () => ({
+  isSessionActive: vi.fn(async () => true),
+}));
+
+vi.mock("@fasterclaw/db", () => ({
+  prisma: {
+    instance: { count: vi.fn() },
+    imageVersion: { delete: vi.fn() },
+    rollout: { findUnique: vi.fn(), findMany: vi.fn() },
+    membership: { count: vi.fn(async () => 0) },
+  },
+}));
+
+import { prisma } from "@fasterclaw/db";
+import { reconcileProviders } from "../services/reconciler.js";
+import {
+  approveImageVersion,
+  findImageVersion,
+  listImageVersions,
+} from "../services/image-versions.js";
+import { createRollout, findActiveRollout, rollBackRollout } from "../services/rollouts.js";
+import { isSessionActive } from "../services/sessions.js";
+import { jwtPlugin } from "../plugins/jwt.js";
+import { adminRoutes } from "./admin.js";
+
+describe("Admin Routes", () => {
+  let app: FastifyInstance;
+  const originalAdmins = process.env.ADMIN_EMAILS;
+
+  const report = {
+    dryRun: true,
+    generatedAt: "2024-01-15T10:30:00.000Z",
+    providers: [{ provider: "fly", resources: 2, instances: 1, error: null }],
+    orphans: [
+      {
+        provider: "fly",
+        resourceId: "e784079b449483",
+        name: "openclaw-old-bot-1700000000000",
+        status: "STOPPED" as const,
+        createdAt: "2023-11-14T22:13:20.000Z",
+        action: "report" as const,
+        applied: false,
+        error: null,
+      },
+    ],
+    missing: [],
+  };
+
+  function tokenFor(email: string): string {
+    return app.jwt.sign({
+      sub: "cjld2cyuq0000t3rmniod1foy",
+      email,
+      name: "Test User",
+      sid: "session-1",
+    });
+  }
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    process.env.ADMIN_EMAILS = "ops@example.com, Admin@Example.com";
+
+    app = Fastify({ logger: false });
+    app.setValidatorCompiler(validatorCompiler);
+    app.setSerializerCompiler(serializerCompiler);
+    await app.register(jwtPlugin, { secret: "test-jwt-secret-for-testing-only" });
+    await app.register(adminRoutes);
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    if (originalAdmins === undefined) {
+      delete process.env.ADMIN_EMAILS;
+    } else {
+      process.env.ADMIN_EMAILS = originalAdmins;
+    }
+    await app.close();
+  });
+
+  describe("GET /admin/reconcile", () => {
+    it("should return a dry-run report to admins", async () => {
+      vi.mocked(reconcileProviders).mockResolvedValue(report);
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/admin/reconcile",
+        headers: { authorization: `Bearer ${tokenFor("admin@example.com")}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual(report);
+      expect(reconcileProviders).toHaveBeenCalledWith(expect.objectContaining({ dryRun: true }));
+    });
+
+    it("should return 403 for users who are not admins", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/admin/reconcile",
+        headers: { authorization: `Bearer ${tokenFor("test@example.com")}` },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(JSON.parse(response.body)).toEqual({ error: "Admin access required" });
+      expect(reconcileProviders).not.toHaveBeenCalled();
+    });
+
+    it("should return 401 when the token's session was revoked", async () => {
+      vi.mocked(isSessionActive).mockResolvedValueOnce(false);
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/admin/reconcile",
+        headers: { authorization: `Bearer ${tokenFor("admin@example.com")}` },
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(JSON.parse(response.body)).toEqual({ error: "Session has been revoked" });
+      expect(isSessionActive).toHaveBeenCalledWith("session-1", "cjld2cyuq0000t3rmniod1foy");
+      expect(reconcileProviders).not.toHaveBeenCalled();
+    });
+
+    it("should return 403 when no admins are configured", async () => {
+      delete process.env.ADMIN_EMAILS;
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/admin/reconcile",
+        headers: { authorization: `Bearer ${tokenFor("admin@example.com")}` },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it("should return 401 without auth token", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/admin/reconcile",
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
+  describe("image versions", () => {
+    const approved = {
+      id: "cjld2cyuq0002t3rmniod1foz",
+      version: "2026.2.1",
+      notes: "Gateway fixes",
+      isDefault: true,
+      createdBy: "ops@example.com",
+      createdAt: new Date("2026-02-01T00:00:00.000Z"),
+    };
+
+    it("should list approved versions with their instance counts", async () => {
+      vi.mocked(listImageVersions).mockResolvedValue([{ ...approved, instances: 3 }]);
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/admin/image-versions",
+        headers: { authorization: `Bearer ${tokenFor("ops@example.com")}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual([
+        {
+          version: "2026.2.1",
+          notes: "Gateway fixes",
+          isDefault: true,
+          instances: 3,
+          createdBy: "ops@example.com",
+          createdAt: "2026-02-01T00:00:00.000Z",
+        },
+      ]);
+    });
+
+    it("should approve a version on behalf of the admin", async () => {
+      vi.mocked(findImageVersion).mockResolvedValue(null);
+      vi.mocked(approveImageVersion).mockResolvedValue(approved);
+      vi.mocked(prisma.instance.count).mockResolvedValue(0);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/admin/image-versions",
+        headers: { authorization: `Bearer ${tokenFor("ops@example.com")}` },
+        payload: { version: "2026.2.1", notes: "Gateway fixes", isDefault: true },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(approveImageVersion).toHaveBeenCalledWith({
+        version: "2026.2.1",
+        notes: "Gateway fixes",
+        isDefault: true,
+        createdBy: "ops@example.com",
+      });
+    });
+
+    it("should return 409 for a version that is already approved", async () => {
+      vi.mocked(findImageVersion).mockResolvedValue(approved);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/admin/image-versions",
+        headers: { authorization: `Bearer ${tokenFor("ops@example.com")}` },
+        payload: { version: "2026.2.1" },
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(approveImageVersion).not.toHaveBeenCalled();
+    });
+
+    it("should not withdraw the default version", async () => {
+      vi.mocked(findImageVersion).mockResolvedValue(approved);
+
+      const response = await app.inject({
+        method: "DELETE",
+        url: "/admin/image-versions/2026.2.1",
+        headers: { authorization: `Bearer ${tokenFor("ops@example.com")}` },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(prisma.imageVersion.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("rollouts", () => {
+    const rollout = {
+      id: "cjld2cyuq0003t3rmniod1foz",
+      targetVersion: "2026.3.0",
+      batchSize: 2,
+      maxFailures: 0,
+      status: "RUNNING",
+      currentBatch: 0,
+      haltReason: null,
+      createdBy: "ops@example.com",
+      instances: [
+        {
+          id: "entry-1",
+          rolloutId: "cjld2cyuq0003t3rmniod1foz",
+          instanceId: "cjld2cyuq0001t3rmniod1foz",
+          batch: 0,
+          previousVersion: "2026.2.1",
+          status: "PENDING",
+          error: null,
+          startedAt: null,
+          updatedAt: new Date("2026-03-01T00:00:00.000Z"),
+        },
+      ],
+      completedAt: null,
+      createdAt: new Date("2026-03-01T00:00:00.000Z"),
+      updatedAt: new Date("2026-03-01T00:00:00.000Z"),
+    };
+
+    it("should start a rollout of an approved version", async () => {
+      vi.mocked(findImageVersion).mockResolvedValue({ version: "2026.3.0" } as any);
+      vi.mocked(findActiveRollout).mockResolvedValue(null);
+      vi.mocked(createRollout).mockResolvedValue(rollout);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/admin/rollouts",
+        headers: { authorization: `Bearer ${tokenFor("ops@example.com")}` },
+        payload: { version: "2026.3.0", batchSize: 2 },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(JSON.parse(response.body)).toMatchObject({
+        id: rollout.id,
+        status: "RUNNING",
+        batches: 1,
+        instances: [{ instanceId: "cjld2cyuq0001t3rmniod1foz", status: "PENDING" }],
+      });
+      expect(createRollout).toHaveBeenCalledWith(
+        { version: "2026.3.0", batchSize: 2, maxFailures: 0 },
+        "ops@example.com"
+      );
+    });
+
+    it("should return 400 for a version that is not approved", async () => {
+      vi.mocked(findImageVersion).mockResolvedValue(null);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/admin/rollouts",
+        headers: { authorization: `Bearer ${tokenFor("ops@example.com")}` },
+        payload: { version: "2026.3.0" },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe("Version 2026.3.0 is not approved");
+      expect(createRollout).not.toHaveBeenCalled();
+    });
+
+    it("should return 409 while another rollout is in progress", async () => {
+      vi.mocked(findImageVersion).mockResolvedValue({ version: "2026.3.0" } as any);
+      vi.mocked(findActiveRollout).mockResolvedValue(rollout);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/admin/rollouts",
+        headers: { authorization: `Bearer ${tokenFor("ops@example.com")}` },
+        payload: { version: "2026.3.0" },
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(createRollout).not.toHaveBeenCalled();
+    });
+
+    it("should roll back a rollout on request", async () => {
+      vi.mocked(prisma.rollout.findUnique).mockResolvedValue(rollout as any);
+      vi.mocked(findActiveRollout).mockResolvedValue(rollout);
+
+      const response = await app.inject({
+        method: "POST",
+        url: `/admin/rollouts/${rollout.id}/rollback`,
+        headers: { authorization: `Bearer ${tokenFor("ops@example.com")}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(rollBackRollout).toHaveBeenCalledWith(
+        rollout.id,
+        "Rollback requested by ops@example.com"
+      );
+    });
+
+    it("should return 403 for users who are not admins", async () => {
+      const response = await app.inject({
+        method: "POST",
+        url: "/admin/rollouts",
+        headers: { authorization: `Bearer ${tokenFor("test@example.com")}` },
+        payload: { version: "2026.3.0" },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(createRollout).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,402 @@
+import type { FastifyInstance } from "fastify";
+import type { ZodTypeProvider } from "fastify-type-provider-zod";
+import { prisma, type ImageVersion, type RolloutInstance } from "@fasterclaw/db";
+import { reconcileProviders } from "../services/reconciler.js";
+import {
+  approveImageVersion,
+  findImageVersion,
+  listImageVersions,
+  setDefaultImageVersion,
+} from "../services/image-versions.js";
+import {
+  createRollout,
+  findActiveRollout,
+  getBatchCount,
+  haltRollout,
+  rollBackRollout,
+  type RolloutWithInstances,
+} from "../services/rollouts.js";
+import {
+  ReconcileReportSchema,
+  ImageVersionSchema,
+  ImageVersionListSchema,
+  CreateImageVersionRequestSchema,
+  ImageVersionParamSchema,
+  RolloutSchema,
+  RolloutListSchema,
+  CreateRolloutRequestSchema,
+  RolloutIdParamSchema,
+  ApiErrorSchema,
+  ApiSuccessSchema,
+  type RolloutInstanceStatus,
+  type RolloutStatus,
+} from "@fasterclaw/shared";
+
+/**
+ * Format an approved image version for API response.
+ */
+function formatImageVersionResponse(version: ImageVersion & { instances: number }) {
+  return {
+    version: version.version,
+    notes: version.notes,
+    isDefault: version.isDefault,
+    instances: version.instances,
+    createdBy: version.createdBy,
+    createdAt: version.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Format a rollout and its instances for API response.
+ */
+function formatRolloutResponse(rollout: RolloutWithInstances) {
+  return {
+    id: rollout.id,
+    targetVersion: rollout.targetVersion,
+    batchSize: rollout.batchSize,
+    maxFailures: rollout.maxFailures,
+    status: rollout.status as RolloutStatus,
+    currentBatch: rollout.currentBatch,
+    batches: getBatchCount(rollout.instances),
+    haltReason: rollout.haltReason,
+    createdBy: rollout.createdBy,
+    instances: rollout.instances.map((entry: RolloutInstance) => ({
+      instanceId: entry.instanceId,
+      batch: entry.batch,
+      previousVersion: entry.previousVersion,
+      status: entry.status as RolloutInstanceStatus,
+      error: entry.error,
+      updatedAt: entry.updatedAt.toISOString(),
+    })),
+    completedAt: rollout.completedAt?.toISOString() ?? null,
+    createdAt: rollout.createdAt.toISOString(),
+    updatedAt: rollout.updatedAt.toISOString(),
+  };
+}
+
+async function findRollout(id: string): Promise<RolloutWithInstances | null> {
+  return prisma.rollout.findUnique({
+    where: { id },
+    include: { instances: { orderBy: [{ batch: "asc" }, { id: "asc" }] } },
+  });
+}
+
+export function adminRoutes(fastify: FastifyInstance): void {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  // GET /admin/reconcile - Dry-run report of drift between providers and instance rows
+  app.get(
+    "/admin/reconcile",
+    {
+      schema: {
+        tags: ["Admin"],
+        summary: "Report orphaned and missing provider resources without changing anything",
+        response: {
+          200: ReconcileReportSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate, app.requireAdmin],
+    },
+    async (request) => reconcileProviders({ dryRun: true, log: request.log })
+  );
+
+  // GET /admin/image-versions - Approved OpenClaw versions
+  app.get(
+    "/admin/image-versions",
+    {
+      schema: {
+        tags: ["Admin"],
+        summary: "List the OpenClaw versions approved for instances",
+        response: {
+          200: ImageVersionListSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate, app.requireAdmin],
+    },
+    async () => (await listImageVersions()).map(formatImageVersionResponse)
+  );
+
+  // POST /admin/image-versions - Approve an OpenClaw version
+  app.post(
+    "/admin/image-versions",
+    {
+      schema: {
+        tags: ["Admin"],
+        summary: "Approve an OpenClaw version, optionally making it the default for new instances",
+        body: CreateImageVersionRequestSchema,
+        response: {
+          201: ImageVersionSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+          409: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate, app.requireAdmin],
+    },
+    async (request, reply) => {
+      const { version } = request.body;
+      if ((await findImageVersion(version)) !== null) {
+        return reply.code(409).send({ error: `Version ${version} is already approved` });
+      }
+
+      const approved = await approveImageVersion({
+        ...request.body,
+        createdBy: request.user.email,
+      });
+      const instances = await prisma.instance.count({
+        where: { imageVersion: version, status: { not: "DELETED" } },
+      });
+      return reply.code(201).send(formatImageVersionResponse({ ...approved, instances }));
+    }
+  );
+
+  // POST /admin/image-versions/:version/default - Give new instances this version
+  app.post(
+    "/admin/image-versions/:version/default",
+    {
+      schema: {
+        tags: ["Admin"],
+        summary: "Make an approved OpenClaw version the default for new instances",
+        params: ImageVersionParamSchema,
+        response: {
+          200: ImageVersionSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+          404: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate, app.requireAdmin],
+    },
+    async (request, reply) => {
+      const { version } = request.params;
+      if ((await findImageVersion(version)) === null) {
+        return reply.code(404).send({ error: `Version ${version} is not approved` });
+      }
+
+      const updated = await setDefaultImageVersion(version);
+      const instances = await prisma.instance.count({
+        where: { imageVersion: version, status: { not: "DELETED" } },
+      });
+      return formatImageVersionResponse({ ...updated, instances });
+    }
+  );
+
+  // DELETE /admin/image-versions/:version - Withdraw an approval
+  app.delete(
+    "/admin/image-versions/:version",
+    {
+      schema: {
+        tags: ["Admin"],
+        summary: "Withdraw an OpenClaw version",
+        description:
+          "New instances can no longer pin the version. Instances running it keep it until a rollout moves them.",
+        params: ImageVersionParamSchema,
+        response: {
+          200: ApiSuccessSchema,
+          400: ApiErrorSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+          404: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate, app.requireAdmin],
+    },
+    async (request, reply) => {
+      const { version } = request.params;
+      const existing = await findImageVersion(version);
+      if (existing === null) {
+        return reply.code(404).send({ error: `Version ${version} is not approved` });
+      }
+      if (existing.isDefault) {
+        return reply
+          .code(400)
+          .send({ error: "Make another version the default before withdrawing this one" });
+      }
+
+      await prisma.imageVersion.delete({ where: { version } });
+      return { success: true };
+    }
+  );
+
+  // GET /admin/rollouts - Rollouts, newest first
+  app.get(
+    "/admin/rollouts",
+    {
+      schema: {
+        tags: ["Admin"],
+        summary: "List rollouts of OpenClaw versions",
+        response: {
+          200: RolloutListSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate, app.requireAdmin],
+    },
+    async () => {
+      const rollouts = await prisma.rollout.findMany({
+        include: { instances: { orderBy: [{ batch: "asc" }, { id: "asc" }] } },
+        orderBy: { createdAt: "desc" },
+        take: 50,
+      });
+      return rollouts.map(formatRolloutResponse);
+    }
+  );
+
+  // POST /admin/rollouts - Upgrade running instances to a version in batches
+  app.post(
+    "/admin/rollouts",
+    {
+      schema: {
+        tags: ["Admin"],
+        summary: "Roll out an OpenClaw version to running instances",
+        description:
+          "Redeploys running instances on the version a batch at a time, starting the next batch once the current one is healthy. If more than maxFailures upgrades fail, the rollout halts and rolls the upgraded instances back.",
+        body: CreateRolloutRequestSchema,
+        response: {
+          201: RolloutSchema,
+          400: ApiErrorSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+          409: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate, app.requireAdmin],
+    },
+    async (request, reply) => {
+      const { version } = request.body;
+      if ((await findImageVersion(version)) === null) {
+        return reply.code(400).send({ error: `Version ${version} is not approved` });
+      }
+
+      const active = await findActiveRollout();
+      if (active !== null) {
+        return reply.code(409).send({
+          error: `Rollout ${active.id} to ${active.targetVersion} has not finished yet`,
+        });
+      }
+
+      const rollout = await createRollout(request.body, request.user.email);
+      if (rollout === null) {
+        return reply.code(400).send({ error: `No running instances to upgrade to ${version}` });
+      }
+      request.log.info(`Rollout ${rollout.id} to ${version} started by ${request.user.email}`);
+      return reply.code(201).send(formatRolloutResponse(rollout));
+    }
+  );
+
+  // GET /admin/rollouts/:id - Rollout progress
+  app.get(
+    "/admin/rollouts/:id",
+    {
+      schema: {
+        tags: ["Admin"],
+        summary: "Get a rollout and the state of each of its instances",
+        params: RolloutIdParamSchema,
+        response: {
+          200: RolloutSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+          404: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate, app.requireAdmin],
+    },
+    async (request, reply) => {
+      const rollout = await findRollout(request.params.id);
+      if (rollout === null) {
+        return reply.code(404).send({ error: "Rollout not found" });
+      }
+      return formatRolloutResponse(rollout);
+    }
+  );
+
+  // POST /admin/rollouts/:id/halt - Stop before the next batch
+  app.post(
+    "/admin/rollouts/:id/halt",
+    {
+      schema: {
+        tags: ["Admin"],
+        summary: "Halt a rollout, leaving upgraded instances on the new version",
+        params: RolloutIdParamSchema,
+        response: {
+          200: RolloutSchema,
+          400: ApiErrorSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+          404: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate, app.requireAdmin],
+    },
+    async (request, reply) => {
+      const rollout = await findRollout(request.params.id);
+      if (rollout === null) {
+        return reply.code(404).send({ error: "Rollout not found" });
+      }
+      if (rollout.status !== "RUNNING") {
+        return reply.code(400).send({ error: "Only a running rollout can be halted" });
+      }
+
+      await haltRollout(rollout.id, `Halted by ${request.user.email}`);
+      return formatRolloutResponse((await findRollout(rollout.id)) ?? rollout);
+    }
+  );
+
+  // POST /admin/rollouts/:id/rollback - Put upgraded instances back on their version
+  app.post(
+    "/admin/rollouts/:id/rollback",
+    {
+      schema: {
+        tags: ["Admin"],
+        summary: "Roll back the instances a rollout upgraded",
+        params: RolloutIdParamSchema,
+        response: {
+          200: RolloutSchema,
+          400: ApiErrorSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+          404: ApiErrorSchema,
+          409: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate, app.requireAdmin],
+    },
+    async (request, reply) => {
+      const rollout = await findRollout(request.params.id);
+      if (rollout === null) {
+        return reply.code(404).send({ error: "Rollout not found" });
+      }
+      if (rollout.status === "ROLLING_BACK" || rollout.status === "ROLLED_BACK") {
+        return reply.code(400).send({ error: "Rollout is already rolled back" });
+      }
+
+      // Instances may have moved on since a finished rollout
+      const active = await findActiveRollout();
+      if (active !== null && active.id !== rollout.id) {
+        return reply.code(409).send({
+          error: `Rollout ${active.id} to ${active.targetVersion} has not finished yet`,
+        });
+      }
+
+      await rollBackRollout(rollout.id, `Rollback requested by ${request.user.email}`);
+      return formatRolloutResponse((await findRollout(rollout.id)) ?? rollout);
+    }
+  );
+}
+
+export default adminRoutes;
@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import Fastify, { type FastifyInstance } from "fastify";
+import { serializerCompiler, validatorCompiler } from "fastify-type-provider-zod";
+import { aiKeyRoutes } from "./ai-keys.js";
+
+vi.mock("@fasterclaw/db", () => ({
+  prisma: {
+    aiProviderKey: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+      delete: vi.fn(),
+    },
+    instance: {
+      findMany: vi.fn(),
+    },
+  },
+  maskToken: vi.fn((token: string | null) => (token ? `${token.slice(0, 4)}...` : null)),
+}));
+
+vi.mock("../services/ai-keys.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../services/ai-keys.js")>()),
+  validateAiKey: vi.fn(),
+}));
+
+import { prisma } from "@fasterclaw/db";
+import { validateAiKey } from "../services/ai-keys.js";
+
+describe("AI Key Routes", () => {
+  let app: FastifyInstance;
+  let authToken: string;
+  const mockUserId = "cjld2cyuq0000t3rmniod1foy";
+
+  const mockKey = {
+    id: "key-1",
+    userId: mockUserId,
+    provider: "openai",
+    apiKey: "sk-proj-abcdef123456",
+    createdAt: new Date("2024-01-01T00:00:00Z"),
+    updatedAt: new Date("2024-01-02T00:00:00Z"),
+  };
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    app.setValidatorCompiler(validatorCompiler);
+    app.setSerializerCompiler(serializerCompiler);
+
+    await app.register(import("@fastify/jwt"), {
+      secret: "test-jwt-secret-for-testing-only",
+    });
+
+    app.decorate("authenticate", async (request, reply) => {
+      try {
+        await request.jwtVerify();
+        const payload = request.user as unknown as {
+          sub: string;
+          email: string;
+          name: string | null;
+        };
+        request.user = {
+          id: payload.sub,
+          email: payload.email,
+          name: payload.name,
+        };
+      } catch {
+        void reply.code(401).send({ error: "Unauthorized" });
+      }
+    });
+
+    await app.register(aiKeyRoutes);
+    await app.ready();
+
+    authToken = app.jwt.sign({
+      sub: mockUserId,
+      email: "test@example.com",
+      name: "Test User",
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+    vi.clearAllMocks();
+  });
+
+  describe("GET /ai-keys", () => {
+    it("should list saved keys masked", async () => {
+      vi.mocked(prisma.aiProviderKey.findMany).mockResolvedValue([mockKey] as any);
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/ai-keys",
+        headers: { authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual([
+        {
+          provider: "openai",
+          maskedKey: "sk-p...",
+          createdAt: "2024-01-01T00:00:00.000Z",
+          updatedAt: "2024-01-02T00:00:00.000Z",
+        },
+      ]);
+      expect(response.body).not.toContain(mockKey.apiKey);
+      expect(prisma.aiProviderKey.findMany).toHaveBeenCalledWith({
+        where: { userId: mockUserId },
+        orderBy: { provider: "asc" },
+      });
+    });
+
+    it("should return 401 without auth token", async () => {
+      const response = await app.inject({ method: "GET", url: "/ai-keys" });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
+  describe("PUT /ai-keys/:provider", () => {
+    it("should validate and save the key", async () => {
+      vi.mocked(validateAiKey).mockResolvedValue({ valid: true });
+      vi.mocked(prisma.aiProviderKey.upsert).mockResolvedValue(mockKey as any);
+
+      const response = await app.inject({
+        method: "PUT",
+        url: "/ai-keys/openai",
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { apiKey: "  sk-proj-abcdef123456  " },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toMatchObject({ provider: "openai", maskedKey: "sk-p..." });
+      expect(validateAiKey).toHaveBeenCalledWith("openai", "sk-proj-abcdef123456");
+      expect(prisma.aiProviderKey.upsert).toHaveBeenCalledWith({
+        where: { userId_provider: { userId: mockUserId, provider: "openai" } },
+        create: { userId: mockUserId, provider: "openai", apiKey: "sk-proj-abcdef123456" },
+        update: { apiKey: "sk-proj-abcdef123456" },
+      });
+    });
+
+    it("should return 400 when the provider rejects the key", async () => {
+      vi.mocked(validateAiKey).mockResolvedValue({
+        valid: false,
+        error: "OpenAI rejected this API key",
+      });
+
+      const response = await app.inject({
+        method: "PUT",
+        url: "/ai-keys/openai",
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { apiKey: "sk-wrong" },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe("OpenAI rejected this API key");
+      expect(prisma.aiProviderKey.upsert).not.toHaveBeenCalled();
+    });
+
+    it("should return 502 when the provider cannot be reached", async () => {
+      vi.mocked(validateAiKey).mockRejectedValue(new Error("fetch failed"));
+
+      const response = await app.inject({
+        method: "PUT",
+        url: "/ai-keys/anthropic",
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { apiKey: "sk-ant-test" },
+      });
+
+      expect(response.statusCode).toBe(502);
+      expect(JSON.parse(response.body).error).toContain("Could not reach Anthropic");
+      expect(prisma.aiProviderKey.upsert).not.toHaveBeenCalled();
+    });
+
+    it("should return 400 for an unknown provider", async () => {
+      const response = await app.inject({
+        method: "PUT",
+        url: "/ai-keys/mistral",
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { apiKey: "key" },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(validateAiKey).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("DELETE /ai-keys/:provider", () => {
+    it("should delete a key no instance uses", async () => {
+      vi.mocked(prisma.aiProviderKey.findUnique).mockResolvedValue({ id: "key-1" } as any);
+      vi.mocked(prisma.instance.findMany).mockResolvedValue([
+        { aiModel: "claude-sonnet-4-0" },
+      ] as any);
+
+      const response = await app.inject({
+        method: "DELETE",
+        url: "/ai-keys/openai",
+        headers: { authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(prisma.aiProviderKey.delete).toHaveBeenCalledWith({ where: { id: "key-1" } });
+    });
+
+    it("should return 409 while instances use the key", async () => {
+      vi.mocked(prisma.aiProviderKey.findUnique).mockResolvedValue({ id: "key-1" } as any);
+      vi.mocked(prisma.instance.findMany).mockResolvedValue([{ aiModel: "gpt-4o-mini" }] as any);
+
+      const response = await app.inject({
+        method: "DELETE",
+        url: "/ai-keys/openai",
+        headers: { authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(JSON.parse(response.body).error).toContain("used by 1 instance(s)");
+      expect(prisma.instance.findMany).toHaveBeenCalledWith({
+        where: { userId: mockUserId, aiKeySource: "own", status: { not: "DELETED" } },
+        select: { aiModel: true },
+      });
+      expect(prisma.aiProviderKey.delete).not.toHaveBeenCalled();
+    });
+
+    it("should return 404 when no key is saved", async () => {
+      vi.mocked(prisma.aiProviderKey.findUnique).mockResolvedValue(null);
+
+      const response = await app.inject({
+        method: "DELETE",
+        url: "/ai-keys/google",
+        headers: { authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+});
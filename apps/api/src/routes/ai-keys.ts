@@ -0,0 +1,160 @@
+import type { FastifyInstance } from "fastify";
+import type { ZodTypeProvider } from "fastify-type-provider-zod";
+import { prisma, maskToken } from "@fasterclaw/db";
+import { getAIProviderName, validateAiKey } from "../services/ai-keys.js";
+import { getModel } from "../services/models.js";
+import {
+  AiKeySchema,
+  AiKeyListSchema,
+  AiKeyProviderParamSchema,
+  SaveAiKeyRequestSchema,
+  ApiErrorSchema,
+  ApiSuccessSchema,
+  type AiKeyProvider,
+} from "@fasterclaw/shared";
+
+/**
+ * Format a saved key for API response; the key itself is only ever shown masked.
+ */
+function formatAiKeyResponse(key: {
+  provider: string;
+  apiKey: string;
+  createdAt: Date;
+  updatedAt: Date;
+}) {
+  return {
+    provider: key.provider as AiKeyProvider,
+    maskedKey: maskToken(key.apiKey) ?? "***",
+    createdAt: key.createdAt.toISOString(),
+    updatedAt: key.updatedAt.toISOString(),
+  };
+}
+
+export function aiKeyRoutes(fastify: FastifyInstance): void {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  // GET /ai-keys - List the user's own AI provider keys (masked)
+  app.get(
+    "/ai-keys",
+    {
+      schema: {
+        tags: ["AI Keys"],
+        summary: "List your saved AI provider keys",
+        response: {
+          200: AiKeyListSchema,
+          401: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request) => {
+      const keys = await prisma.aiProviderKey.findMany({
+        where: { userId: request.user.id },
+        orderBy: { provider: "asc" },
+      });
+
+      return keys.map(formatAiKeyResponse);
+    }
+  );
+
+  // PUT /ai-keys/:provider - Validate and save a key for a provider
+  app.put(
+    "/ai-keys/:provider",
+    {
+      schema: {
+        tags: ["AI Keys"],
+        summary: "Validate and save your own key for an AI provider",
+        params: AiKeyProviderParamSchema,
+        body: SaveAiKeyRequestSchema,
+        response: {
+          200: AiKeySchema,
+          400: ApiErrorSchema,
+          401: ApiErrorSchema,
+          502: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      const userId = request.user.id;
+      const { provider } = request.params;
+      const { apiKey } = request.body;
+
+      let validation;
+      try {
+        validation = await validateAiKey(provider, apiKey);
+      } catch (error) {
+        app.log.error(error, `Failed to validate ${provider} API key`);
+        return reply.code(502).send({
+          error: `Could not reach ${getAIProviderName(provider)} to validate the key. Please try again.`,
+        });
+      }
+
+      if (!validation.valid) {
+        return reply.code(400).send({ error: validation.error ?? "Invalid API key" });
+      }
+
+      // Encrypted by the @fasterclaw/db encryption extension
+      const saved = await prisma.aiProviderKey.upsert({
+        where: { userId_provider: { userId, provider } },
+        create: { userId, provider, apiKey },
+        update: { apiKey },
+      });
+
+      return reply.send(formatAiKeyResponse(saved));
+    }
+  );
+
+  // DELETE /ai-keys/:provider - Remove a saved key
+  app.delete(
+    "/ai-keys/:provider",
+    {
+      schema: {
+        tags: ["AI Keys"],
+        summary: "Remove your saved key for an AI provider",
+        params: AiKeyProviderParamSchema,
+        response: {
+          200: ApiSuccessSchema,
+          401: ApiErrorSchema,
+          404: ApiErrorSchema,
+          409: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      const userId = request.user.id;
+      const { provider } = request.params;
+
+      const saved = await prisma.aiProviderKey.findUnique({
+        where: { userId_provider: { userId, provider } },
+        select: { id: true },
+      });
+
+      if (saved === null) {
+        return reply.code(404).send({ error: "No key saved for this provider" });
+      }
+
+      // Instances on their owner's key would fail their next provisioning
+      const instances = await prisma.instance.findMany({
+        where: { userId, aiKeySource: "own", status: { not: "DELETED" } },
+        select: { aiModel: true },
+      });
+      const inUse = instances.filter((instance) => getModel(instance.aiModel)?.vendor === provider);
+      if (inUse.length > 0) {
+        return reply.code(409).send({
+          error: `This key is used by ${String(inUse.length)} instance(s). Switch them to the platform key or delete them first.`,
+        });
+      }
+
+      await prisma.aiProviderKey.delete({ where: { id: saved.id } });
+
+      return reply.send({ success: true });
+    }
+  );
+}
+
+export default aiKeyRoutes;
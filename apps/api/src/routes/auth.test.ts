@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import Fastify, { type FastifyInstance } from "fastify";
 import { serializerCompiler, validatorCompiler } from "fastify-type-provider-zod";
 import bcrypt from "bcryptjs";
+import { createHash } from "crypto";
 import { authRoutes } from "./auth.js";
 
 // Mock dependencies
@@ -11,31 +12,65 @@ vi.mock("@fasterclaw/db", () => ({
       findUnique: vi.fn(),
       create: vi.fn(),
       update: vi.fn(),
+      updateMany: vi.fn(),
       delete: vi.fn(),
     },
     instance: {
       deleteMany: vi.fn(),
     },
+    session: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    personalAccessToken: {
+      deleteMany: vi.fn(),
+    },
   },
 }));
 
-vi.mock("../services/stripe.js", () => ({
-  stripe: {
-    subscriptions: {
-      cancel: vi.fn(),
-    },
-  },
+vi.mock("../services/account-deletion.js", () => ({
+  findOrganizationNeedingOwner: vi.fn(async () => null),
+  requestAccountDeletion: vi.fn(),
+  restoreAccount: vi.fn(),
+}));
+
+vi.mock("../services/organizations.js", () => ({
+  getDefaultMembership: vi.fn(),
+}));
+
+vi.mock("../services/account-emails.js", () => ({
+  sendPasswordResetEmail: vi.fn(async () => undefined),
+  sendVerificationEmail: vi.fn(async () => undefined),
+}));
+
+vi.mock("../services/two-factor.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../services/two-factor.js")>()),
+  checkTwoFactorCode: vi.fn(),
 }));
 
 import { prisma } from "@fasterclaw/db";
-import { stripe } from "../services/stripe.js";
+import {
+  findOrganizationNeedingOwner,
+  requestAccountDeletion,
+  restoreAccount,
+} from "../services/account-deletion.js";
+import { sendPasswordResetEmail, sendVerificationEmail } from "../services/account-emails.js";
+import { createAccountToken } from "../services/account-tokens.js";
+import { checkTwoFactorCode } from "../services/two-factor.js";
 
 describe("Auth Routes", () => {
   let app: FastifyInstance;
   // Use a valid CUID format for testing
   const mockUserId = "cjld2cyuq0000t3rmniod1foy";
+  const mockSessionId = "cjld2cyuq0001t3rmniod1foy";
 
   beforeEach(async () => {
+    vi.mocked(prisma.session.create).mockResolvedValue({ id: mockSessionId } as any);
+    vi.mocked(prisma.session.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.personalAccessToken.deleteMany).mockResolvedValue({ count: 0 });
+
     app = Fastify({ logger: false });
     app.setValidatorCompiler(validatorCompiler);
     app.setSerializerCompiler(serializerCompiler);
@@ -53,11 +88,13 @@ describe("Auth Routes", () => {
           sub: string;
           email: string;
           name: string | null;
+          sid?: string;
         };
         request.user = {
           id: payload.sub,
           email: payload.email,
           name: payload.name,
+          sessionId: payload.sid,
         };
       } catch {
         void reply.code(401).send({ error: "Unauthorized" });
@@ -79,6 +116,7 @@ describe("Auth Routes", () => {
         id: mockUserId,
         name: "Test User",
         email: "test@example.com",
+        emailVerifiedAt: null,
         createdAt: new Date("2024-01-01T00:00:00Z"),
         updatedAt: new Date("2024-01-01T00:00:00Z"),
       };
@@ -99,17 +137,44 @@ describe("Auth Routes", () => {
       expect(response.statusCode).toBe(201);
       const body = JSON.parse(response.body);
       expect(body).toHaveProperty("accessToken");
+      expect(body.refreshToken).toMatch(new RegExp(`^${mockSessionId}\\.`));
+      expect(body.expiresIn).toBe(15 * 60);
       expect(body).toHaveProperty("user");
       expect(body.user.email).toBe("test@example.com");
       expect(body.user.name).toBe("Test User");
       expect(body.user.id).toBe(mockUserId);
       expect(body.user.createdAt).toBe("2024-01-01T00:00:00.000Z");
       expect(body.user.updatedAt).toBe("2024-01-01T00:00:00.000Z");
+      expect(body.user.emailVerified).toBe(false);
 
       expect(prisma.user.findUnique).toHaveBeenCalledWith({
         where: { email: "test@example.com" },
       });
       expect(prisma.user.create).toHaveBeenCalled();
+      expect(sendVerificationEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ id: mockUserId, email: "test@example.com" })
+      );
+    });
+
+    it("should register even when the verification email cannot be sent", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(null);
+      vi.mocked(prisma.user.create).mockResolvedValue({
+        id: mockUserId,
+        name: "Test User",
+        email: "test@example.com",
+        emailVerifiedAt: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      } as any);
+      vi.mocked(sendVerificationEmail).mockRejectedValueOnce(new Error("SMTP is down"));
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/register",
+        payload: { name: "Test User", email: "test@example.com", password: "password123" },
+      });
+
+      expect(response.statusCode).toBe(201);
     });
 
     it("should return 409 when user already exists", async () => {
@@ -182,6 +247,7 @@ describe("Auth Routes", () => {
         email: "test@example.com",
         passwordHash: hashedPassword,
         stripeCustomerId: null,
+        twoFactorEnabledAt: null,
         createdAt: new Date("2024-01-01T00:00:00Z"),
         updatedAt: new Date("2024-01-01T00:00:00Z"),
       };
@@ -191,6 +257,10 @@ describe("Auth Routes", () => {
       const response = await app.inject({
         method: "POST",
         url: "/auth/login",
+        headers: {
+          "user-agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) Chrome/126.0.0.0",
+          "x-forwarded-for": "203.0.113.7, 10.0.0.1",
+        },
         payload: {
           email: "test@example.com",
           password: "password123",
@@ -200,9 +270,18 @@ describe("Auth Routes", () => {
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
       expect(body).toHaveProperty("accessToken");
+      expect(body).toHaveProperty("refreshToken");
       expect(body).toHaveProperty("user");
       expect(body.user.email).toBe("test@example.com");
       expect(body.user).not.toHaveProperty("passwordHash");
+      expect(app.jwt.decode<{ sid: string }>(body.accessToken)?.sid).toBe(mockSessionId);
+      expect(prisma.session.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: mockUserId,
+          userAgent: "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) Chrome/126.0.0.0",
+          ipAddress: "203.0.113.7",
+        }),
+      });
     });
 
     it("should return 401 with invalid credentials", async () => {
@@ -278,6 +357,318 @@ describe("Auth Routes", () => {
     });
   });
 
+  describe("two-factor login", () => {
+    const originalSecret = process.env.API_JWT_SECRET;
+    const account = {
+      id: mockUserId,
+      email: "test@example.com",
+      passwordHash: "hash",
+      emailVerifiedAt: null,
+    };
+
+    beforeEach(() => {
+      process.env.API_JWT_SECRET = "test-jwt-secret-for-testing-only";
+    });
+
+    afterEach(() => {
+      if (originalSecret === undefined) {
+        delete process.env.API_JWT_SECRET;
+      } else {
+        process.env.API_JWT_SECRET = originalSecret;
+      }
+    });
+
+    it("should return a challenge instead of tokens when two-factor is on", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        ...account,
+        name: "Test User",
+        passwordHash: await bcrypt.hash("password123", 12),
+        twoFactorEnabledAt: new Date(),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      } as any);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/login",
+        payload: { email: "test@example.com", password: "password123" },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.twoFactorRequired).toBe(true);
+      expect(body.challengeToken).toEqual(expect.any(String));
+      expect(body.expiresIn).toBe(5 * 60);
+      expect(body).not.toHaveProperty("accessToken");
+      expect(prisma.session.create).not.toHaveBeenCalled();
+    });
+
+    it("should start a session once the code is valid", async () => {
+      vi.mocked(prisma.user.findUnique)
+        .mockResolvedValueOnce(account as any)
+        .mockResolvedValueOnce({
+          id: mockUserId,
+          name: "Test User",
+          email: "test@example.com",
+          emailVerifiedAt: null,
+          createdAt: new Date("2024-01-01T00:00:00Z"),
+          updatedAt: new Date("2024-01-01T00:00:00Z"),
+        } as any);
+      vi.mocked(checkTwoFactorCode).mockResolvedValue("valid");
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/login/two-factor",
+        payload: {
+          challengeToken: createAccountToken("two-factor-login", account),
+          code: "123456",
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.refreshToken).toMatch(new RegExp(`^${mockSessionId}\\.`));
+      expect(body.user.email).toBe("test@example.com");
+      expect(checkTwoFactorCode).toHaveBeenCalledWith(mockUserId, "123456");
+    });
+
+    it("should reject a wrong code", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(account as any);
+      vi.mocked(checkTwoFactorCode).mockResolvedValue("invalid");
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/login/two-factor",
+        payload: {
+          challengeToken: createAccountToken("two-factor-login", account),
+          code: "000000",
+        },
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(JSON.parse(response.body).error).toBe("Invalid code");
+      expect(prisma.session.create).not.toHaveBeenCalled();
+    });
+
+    it("should return 429 while two-factor sign-in is locked", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(account as any);
+      vi.mocked(checkTwoFactorCode).mockResolvedValue("locked");
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/login/two-factor",
+        payload: {
+          challengeToken: createAccountToken("two-factor-login", account),
+          code: "123456",
+        },
+      });
+
+      expect(response.statusCode).toBe(429);
+    });
+
+    it("should reject tokens that are not two-factor challenges", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(account as any);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/login/two-factor",
+        payload: {
+          challengeToken: createAccountToken("reset-password", account),
+          code: "123456",
+        },
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(checkTwoFactorCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /auth/refresh", () => {
+    const secret = "refresh-secret";
+
+    function mockStoredSession(overrides: Record<string, unknown> = {}) {
+      vi.mocked(prisma.session.findUnique).mockResolvedValue({
+        id: mockSessionId,
+        userId: mockUserId,
+        refreshTokenHash: createHash("sha256").update(secret).digest("hex"),
+        revokedAt: null,
+        expiresAt: new Date(Date.now() + 60_000),
+        user: { id: mockUserId, email: "test@example.com", name: "Test User" },
+        ...overrides,
+      } as any);
+    }
+
+    it("should rotate the refresh token", async () => {
+      mockStoredSession();
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/refresh",
+        payload: { refreshToken: `${mockSessionId}.${secret}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.refreshToken).not.toBe(`${mockSessionId}.${secret}`);
+      expect(app.jwt.decode<{ sid: string }>(body.accessToken)?.sid).toBe(mockSessionId);
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: mockSessionId,
+          refreshTokenHash: createHash("sha256").update(secret).digest("hex"),
+          revokedAt: null,
+        },
+        data: expect.objectContaining({ refreshTokenHash: expect.any(String) }),
+      });
+    });
+
+    it("should revoke the session when an old refresh token is reused", async () => {
+      mockStoredSession({ refreshTokenHash: createHash("sha256").update("newer").digest("hex") });
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/refresh",
+        payload: { refreshToken: `${mockSessionId}.${secret}` },
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(JSON.parse(response.body).error).toBe("Invalid or expired refresh token");
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: mockSessionId, userId: undefined, revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+
+    it("should return 401 for a revoked session", async () => {
+      mockStoredSession({ revokedAt: new Date() });
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/refresh",
+        payload: { refreshToken: `${mockSessionId}.${secret}` },
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(prisma.session.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("sessions", () => {
+    function sessionToken(): string {
+      return app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+        sid: mockSessionId,
+      });
+    }
+
+    it("should list signed-in devices and mark the current one", async () => {
+      vi.mocked(prisma.session.findMany).mockResolvedValue([
+        {
+          id: mockSessionId,
+          userId: mockUserId,
+          refreshTokenHash: "hash",
+          userAgent: "Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) Safari/604.1",
+          ipAddress: "203.0.113.7",
+          lastUsedAt: new Date("2024-01-02T00:00:00.000Z"),
+          expiresAt: new Date("2024-02-01T00:00:00.000Z"),
+          revokedAt: null,
+          createdAt: new Date("2024-01-01T00:00:00.000Z"),
+        },
+        {
+          id: "cjld2cyuq0002t3rmniod1foy",
+          userId: mockUserId,
+          refreshTokenHash: "hash",
+          userAgent: null,
+          ipAddress: null,
+          lastUsedAt: new Date("2024-01-01T00:00:00.000Z"),
+          expiresAt: new Date("2024-01-31T00:00:00.000Z"),
+          revokedAt: null,
+          createdAt: new Date("2024-01-01T00:00:00.000Z"),
+        },
+      ]);
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/auth/sessions",
+        headers: { authorization: `Bearer ${sessionToken()}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body).toHaveLength(2);
+      expect(body[0]).toEqual({
+        id: mockSessionId,
+        device: "Safari on iPhone",
+        userAgent: "Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) Safari/604.1",
+        ipAddress: "203.0.113.7",
+        current: true,
+        lastUsedAt: "2024-01-02T00:00:00.000Z",
+        expiresAt: "2024-02-01T00:00:00.000Z",
+        createdAt: "2024-01-01T00:00:00.000Z",
+      });
+      expect(body[1]).toMatchObject({ device: "Unknown device", current: false });
+    });
+
+    it("should revoke one of the user's sessions", async () => {
+      const response = await app.inject({
+        method: "DELETE",
+        url: "/auth/sessions/cjld2cyuq0002t3rmniod1foy",
+        headers: { authorization: `Bearer ${sessionToken()}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: "cjld2cyuq0002t3rmniod1foy", userId: mockUserId, revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+
+    it("should return 404 for sessions of other users", async () => {
+      vi.mocked(prisma.session.updateMany).mockResolvedValue({ count: 0 });
+
+      const response = await app.inject({
+        method: "DELETE",
+        url: "/auth/sessions/cjld2cyuq0002t3rmniod1foy",
+        headers: { authorization: `Bearer ${sessionToken()}` },
+      });
+
+      expect(response.statusCode).toBe(404);
+      expect(JSON.parse(response.body).error).toBe("Session not found");
+    });
+
+    it("should sign out all devices", async () => {
+      vi.mocked(prisma.session.updateMany).mockResolvedValue({ count: 3 });
+
+      const response = await app.inject({
+        method: "DELETE",
+        url: "/auth/sessions",
+        headers: { authorization: `Bearer ${sessionToken()}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).message).toBe("Signed out of 3 session(s)");
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: undefined, userId: mockUserId, revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+
+    it("should end the current session on logout", async () => {
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/logout",
+        headers: { authorization: `Bearer ${sessionToken()}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: mockSessionId, userId: mockUserId, revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+  });
+
   describe("GET /auth/me", () => {
     it("should return current user when authenticated", async () => {
       const mockUser = {
@@ -402,6 +793,7 @@ describe("Auth Routes", () => {
           id: true,
           name: true,
           email: true,
+          emailVerifiedAt: true,
           createdAt: true,
           updatedAt: true,
         },
@@ -452,6 +844,7 @@ describe("Auth Routes", () => {
         sub: mockUserId,
         email: "test@example.com",
         name: "Test User",
+        sid: mockSessionId,
       });
 
       const response = await app.inject({
@@ -474,6 +867,15 @@ describe("Auth Routes", () => {
         where: { id: mockUserId },
         data: { passwordHash: expect.any(String) },
       });
+      // Other devices are signed out, this one stays signed in
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: { equals: undefined, not: mockSessionId },
+          userId: mockUserId,
+          revokedAt: null,
+        },
+        data: { revokedAt: expect.any(Date) },
+      });
     });
 
     it("should return 401 when current password is incorrect", async () => {
@@ -568,170 +970,102 @@ describe("Auth Routes", () => {
   });
 
   describe("DELETE /auth/account", () => {
-    it("should delete user account successfully", async () => {
+    const requestedAt = new Date("2024-01-01T00:00:00.000Z");
+    const scheduledFor = new Date("2024-01-31T00:00:00.000Z");
+
+    function signToken(sub = mockUserId) {
+      return app.jwt.sign({ sub, email: "test@example.com", name: "Test User" });
+    }
+
+    it("should schedule the account for deletion", async () => {
       const mockUser = {
         id: mockUserId,
-        name: "Test User",
-        email: "test@example.com",
-        passwordHash: null,
-        stripeCustomerId: "cus_123",
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        subscription: null,
+        deletionScheduledFor: null,
       };
 
       vi.mocked(prisma.user.findUnique).mockResolvedValue(mockUser as any);
-      vi.mocked(prisma.instance.deleteMany).mockResolvedValue({ count: 2 });
-      vi.mocked(prisma.user.delete).mockResolvedValue({
-        id: mockUserId,
-        name: "Test User",
-        email: "test@example.com",
-        passwordHash: null,
-        stripeCustomerId: null,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      } as any);
-
-      const token = app.jwt.sign({
-        sub: mockUserId,
-        email: "test@example.com",
-        name: "Test User",
+      vi.mocked(requestAccountDeletion).mockResolvedValue({
+        deletionRequestedAt: requestedAt,
+        deletionScheduledFor: scheduledFor,
       });
 
       const response = await app.inject({
         method: "DELETE",
         url: "/auth/account",
         headers: {
-          authorization: `Bearer ${token}`,
+          authorization: `Bearer ${signToken()}`,
         },
       });
 
       expect(response.statusCode).toBe(200);
-      const body = JSON.parse(response.body);
-      expect(body.message).toBe("Account deleted successfully");
-
-      expect(prisma.instance.deleteMany).toHaveBeenCalledWith({
-        where: { userId: mockUserId },
-      });
-      expect(prisma.user.delete).toHaveBeenCalledWith({
-        where: { id: mockUserId },
+      expect(JSON.parse(response.body)).toEqual({
+        deletionRequestedAt: "2024-01-01T00:00:00.000Z",
+        deletionScheduledFor: "2024-01-31T00:00:00.000Z",
       });
+      expect(requestAccountDeletion).toHaveBeenCalledWith(mockUser, expect.anything());
+      expect(prisma.user.delete).not.toHaveBeenCalled();
+      expect(prisma.instance.deleteMany).not.toHaveBeenCalled();
     });
 
-    it("should cancel Stripe subscription before deleting account", async () => {
-      const mockUser = {
-        id: mockUserId,
-        name: "Test User",
-        email: "test@example.com",
-        passwordHash: null,
-        stripeCustomerId: "cus_123",
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        subscription: {
-          stripeSubscriptionId: "sub_123",
-        },
-      };
-
-      vi.mocked(prisma.user.findUnique).mockResolvedValue(mockUser as any);
-      vi.mocked(stripe.subscriptions.cancel).mockResolvedValue({} as any);
-      vi.mocked(prisma.instance.deleteMany).mockResolvedValue({ count: 0 });
-      vi.mocked(prisma.user.delete).mockResolvedValue({
+    it("should return 409 when deletion is already scheduled", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
         id: mockUserId,
-        name: "Test User",
-        email: "test@example.com",
-        passwordHash: null,
-        stripeCustomerId: null,
-        createdAt: new Date(),
-        updatedAt: new Date(),
+        deletionScheduledFor: scheduledFor,
       } as any);
 
-      const token = app.jwt.sign({
-        sub: mockUserId,
-        email: "test@example.com",
-        name: "Test User",
-      });
-
       const response = await app.inject({
         method: "DELETE",
         url: "/auth/account",
         headers: {
-          authorization: `Bearer ${token}`,
+          authorization: `Bearer ${signToken()}`,
         },
       });
 
-      expect(response.statusCode).toBe(200);
-      expect(stripe.subscriptions.cancel).toHaveBeenCalledWith("sub_123");
-      expect(prisma.user.delete).toHaveBeenCalled();
+      expect(response.statusCode).toBe(409);
+      expect(JSON.parse(response.body).error).toBe("Account is already scheduled for deletion");
+      expect(requestAccountDeletion).not.toHaveBeenCalled();
     });
 
-    it("should still delete account even if Stripe cancellation fails", async () => {
-      const mockUser = {
+    it("should return 409 while the user is the last owner of a shared organization", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
         id: mockUserId,
-        name: "Test User",
-        email: "test@example.com",
-        passwordHash: null,
-        stripeCustomerId: "cus_123",
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        subscription: {
-          stripeSubscriptionId: "sub_123",
-        },
-      };
-
-      vi.mocked(prisma.user.findUnique).mockResolvedValue(mockUser as any);
-      vi.mocked(stripe.subscriptions.cancel).mockRejectedValue(new Error("Stripe error"));
-      vi.mocked(prisma.instance.deleteMany).mockResolvedValue({ count: 0 });
-      vi.mocked(prisma.user.delete).mockResolvedValue({
-        id: mockUserId,
-        name: "Test User",
-        email: "test@example.com",
-        passwordHash: null,
-        stripeCustomerId: null,
-        createdAt: new Date(),
-        updatedAt: new Date(),
+        deletionScheduledFor: null,
       } as any);
-
-      const token = app.jwt.sign({
-        sub: mockUserId,
-        email: "test@example.com",
-        name: "Test User",
+      vi.mocked(findOrganizationNeedingOwner).mockResolvedValueOnce({
+        id: "cjld2cyuq0002t3rmniod1foy",
+        name: "Acme",
       });
 
       const response = await app.inject({
         method: "DELETE",
         url: "/auth/account",
         headers: {
-          authorization: `Bearer ${token}`,
+          authorization: `Bearer ${signToken()}`,
         },
       });
 
-      expect(response.statusCode).toBe(200);
-      const body = JSON.parse(response.body);
-      expect(body.message).toBe("Account deleted successfully");
-      expect(prisma.user.delete).toHaveBeenCalled();
+      expect(response.statusCode).toBe(409);
+      expect(JSON.parse(response.body).error).toBe(
+        "Make another member an owner of Acme before deleting your account"
+      );
+      expect(requestAccountDeletion).not.toHaveBeenCalled();
     });
 
     it("should return 401 when user not found", async () => {
       vi.mocked(prisma.user.findUnique).mockResolvedValue(null);
 
-      const token = app.jwt.sign({
-        sub: "nonexistent-user",
-        email: "test@example.com",
-        name: "Test User",
-      });
-
       const response = await app.inject({
         method: "DELETE",
         url: "/auth/account",
         headers: {
-          authorization: `Bearer ${token}`,
+          authorization: `Bearer ${signToken("nonexistent-user")}`,
         },
       });
 
       expect(response.statusCode).toBe(401);
       const body = JSON.parse(response.body);
       expect(body.error).toBe("User not found");
-      expect(prisma.user.delete).not.toHaveBeenCalled();
+      expect(requestAccountDeletion).not.toHaveBeenCalled();
     });
 
     it("should return 401 when not authenticated", async () => {
@@ -745,4 +1079,218 @@ describe("Auth Routes", () => {
       expect(body.error).toBe("Unauthorized");
     });
   });
+
+  describe("password reset and email verification", () => {
+    const originalSecret = process.env.API_JWT_SECRET;
+    const account = {
+      id: mockUserId,
+      email: "test@example.com",
+      passwordHash: "old-hash",
+      emailVerifiedAt: null,
+    };
+
+    beforeEach(() => {
+      process.env.API_JWT_SECRET = "test-jwt-secret-for-testing-only";
+      vi.mocked(prisma.user.updateMany).mockResolvedValue({ count: 1 });
+    });
+
+    afterEach(() => {
+      if (originalSecret === undefined) {
+        delete process.env.API_JWT_SECRET;
+      } else {
+        process.env.API_JWT_SECRET = originalSecret;
+      }
+    });
+
+    it("should email a reset link to existing users", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(account as any);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/forgot-password",
+        payload: { email: "test@example.com" },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(sendPasswordResetEmail).toHaveBeenCalledWith(account);
+    });
+
+    it("should answer the same for unknown emails", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(null);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/forgot-password",
+        payload: { email: "nobody@example.com" },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).message).toBe(
+        "If an account exists for that email, a reset link is on its way"
+      );
+      expect(sendPasswordResetEmail).not.toHaveBeenCalled();
+    });
+
+    it("should set the new password, sign out every device and revoke access tokens", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(account as any);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/reset-password",
+        payload: {
+          token: createAccountToken("reset-password", account),
+          newPassword: "newpassword123",
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: mockUserId, passwordHash: "old-hash" },
+        data: { passwordHash: expect.any(String), emailVerifiedAt: expect.any(Date) },
+      });
+      expect(prisma.session.updateMany).toHaveBeenCalledWith({
+        where: { id: undefined, userId: mockUserId, revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(prisma.personalAccessToken.deleteMany).toHaveBeenCalledWith({
+        where: { userId: mockUserId },
+      });
+    });
+
+    it("should reject a reset link once the password changed", async () => {
+      const token = createAccountToken("reset-password", account);
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        ...account,
+        passwordHash: "new-hash",
+      } as any);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/reset-password",
+        payload: { token, newPassword: "newpassword123" },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe("Invalid or expired token");
+      expect(prisma.user.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should not accept a verification token as a reset token", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(account as any);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/reset-password",
+        payload: {
+          token: createAccountToken("verify-email", account),
+          newPassword: "newpassword123",
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it("should verify the email address", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue(account as any);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/verify-email",
+        payload: { token: createAccountToken("verify-email", account) },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: mockUserId, email: "test@example.com", emailVerifiedAt: null },
+        data: { emailVerifiedAt: expect.any(Date) },
+      });
+    });
+
+    it("should not resend verification to verified users", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        ...account,
+        emailVerifiedAt: new Date(),
+      } as any);
+      const token = app.jwt.sign({ sub: mockUserId, email: "test@example.com", name: null });
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/verify-email/resend",
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe("Email is already verified");
+      expect(sendVerificationEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("GET /auth/account/deletion", () => {
+    it("should return the scheduled deletion", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        deletionRequestedAt: new Date("2024-01-01T00:00:00.000Z"),
+        deletionScheduledFor: new Date("2024-01-31T00:00:00.000Z"),
+      } as any);
+      const token = app.jwt.sign({ sub: mockUserId, email: "test@example.com", name: null });
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/auth/account/deletion",
+        headers: {
+          authorization: `Bearer ${token}`,
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual({
+        deletionRequestedAt: "2024-01-01T00:00:00.000Z",
+        deletionScheduledFor: "2024-01-31T00:00:00.000Z",
+      });
+    });
+  });
+
+  describe("POST /auth/account/restore", () => {
+    it("should restore an account scheduled for deletion", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        deletionScheduledFor: new Date("2024-01-31T00:00:00.000Z"),
+      } as any);
+      vi.mocked(restoreAccount).mockResolvedValue({
+        deletionRequestedAt: null,
+        deletionScheduledFor: null,
+      });
+      const token = app.jwt.sign({ sub: mockUserId, email: "test@example.com", name: null });
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/account/restore",
+        headers: {
+          authorization: `Bearer ${token}`,
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual({
+        deletionRequestedAt: null,
+        deletionScheduledFor: null,
+      });
+      expect(restoreAccount).toHaveBeenCalledWith(mockUserId);
+    });
+
+    it("should return 400 when the account is not scheduled for deletion", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ deletionScheduledFor: null } as any);
+      const token = app.jwt.sign({ sub: mockUserId, email: "test@example.com", name: null });
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/account/restore",
+        headers: {
+          authorization: `Bearer ${token}`,
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe("Account is not scheduled for deletion");
+      expect(restoreAccount).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -2,33 +2,61 @@ import type { FastifyInstance } from "fastify";
 import type { ZodTypeProvider } from "fastify-type-provider-zod";
 import bcrypt from "bcryptjs";
 import { prisma } from "@fasterclaw/db";
-import { stripe } from "../services/stripe.js";
+import {
+  findOrganizationNeedingOwner,
+  requestAccountDeletion,
+  restoreAccount,
+} from "../services/account-deletion.js";
+import { verifyAccountToken } from "../services/account-tokens.js";
+import { revokeAllAccessTokens } from "../services/access-tokens.js";
+import { sendPasswordResetEmail, sendVerificationEmail } from "../services/account-emails.js";
+import { getDefaultMembership } from "../services/organizations.js";
+import { checkTwoFactorCode, createTwoFactorChallenge } from "../services/two-factor.js";
+import {
+  describeDevice,
+  getSessionDevice,
+  listSessions,
+  refreshSession,
+  revokeSessions,
+  startSession,
+} from "../services/sessions.js";
 import {
   RegisterRequestSchema,
   LoginRequestSchema,
+  TwoFactorLoginRequestSchema,
   UserSchema,
   TokenResponseSchema,
+  LoginResponseSchema,
+  SessionTokensSchema,
+  RefreshTokenRequestSchema,
+  SessionListSchema,
+  SessionIdParamSchema,
   UpdateProfileRequestSchema,
   UpdatePasswordRequestSchema,
+  ForgotPasswordRequestSchema,
+  ResetPasswordRequestSchema,
+  VerifyEmailRequestSchema,
   ApiErrorSchema,
   ApiMessageSchema,
+  AccountDeletionStatusSchema,
 } from "@fasterclaw/shared";
 
+/**
+ * Format a user's deletion dates for the API response.
+ */
+function formatDeletionStatus(user: {
+  deletionRequestedAt: Date | null;
+  deletionScheduledFor: Date | null;
+}) {
+  return {
+    deletionRequestedAt: user.deletionRequestedAt?.toISOString() ?? null,
+    deletionScheduledFor: user.deletionScheduledFor?.toISOString() ?? null,
+  };
+}
+
 export function authRoutes(fastify: FastifyInstance): void {
   const app = fastify.withTypeProvider<ZodTypeProvider>();
 
-  // Helper to generate JWT token
-  function generateToken(user: { id: string; email: string; name: string | null }) {
-    return app.jwt.sign(
-      {
-        sub: user.id,
-        email: user.email,
-        name: user.name,
-      },
-      { expiresIn: "7d" }
-    );
-  }
-
   // POST /auth/register - Register a new user
   app.post(
     "/auth/register",
@@ -67,17 +95,28 @@ export function authRoutes(fastify: FastifyInstance): void {
           id: true,
           name: true,
           email: true,
+          emailVerifiedAt: true,
           createdAt: true,
           updatedAt: true,
         },
       });
 
-      const accessToken = generateToken(user);
+      const tokens = await startSession(app.jwt, user, getSessionDevice(request));
+
+      // Signing up works without it; the link can be sent again later
+      await sendVerificationEmail({ ...user, passwordHash: hashedPassword }).catch(
+        (err: unknown) => {
+          request.log.error(err, "Failed to send verification email");
+        }
+      );
+
+      const { emailVerifiedAt, ...rest } = user;
 
       return reply.code(201).send({
-        accessToken,
+        ...tokens,
         user: {
-          ...user,
+          ...rest,
+          emailVerified: emailVerifiedAt !== null,
           createdAt: user.createdAt.toISOString(),
           updatedAt: user.updatedAt.toISOString(),
         },
@@ -92,9 +131,11 @@ export function authRoutes(fastify: FastifyInstance): void {
       schema: {
         tags: ["Auth"],
         summary: "Login with email and password",
+        description:
+          "Returns a challenge instead of tokens when the account has two-factor authentication on",
         body: LoginRequestSchema,
         response: {
-          200: TokenResponseSchema,
+          200: LoginResponseSchema,
           401: ApiErrorSchema,
         },
       },
@@ -108,7 +149,9 @@ export function authRoutes(fastify: FastifyInstance): void {
           id: true,
           name: true,
           email: true,
+          emailVerifiedAt: true,
           passwordHash: true,
+          twoFactorEnabledAt: true,
           createdAt: true,
           updatedAt: true,
         },
@@ -123,14 +166,25 @@ export function authRoutes(fastify: FastifyInstance): void {
         return reply.code(401).send({ error: "Invalid credentials" });
       }
 
-      const accessToken = generateToken(user);
+      // The session starts once a code is sent to POST /auth/login/two-factor
+      if (user.twoFactorEnabledAt !== null) {
+        return reply.send(createTwoFactorChallenge(user));
+      }
+
+      const tokens = await startSession(app.jwt, user, getSessionDevice(request));
 
-      const { passwordHash: _, ...userWithoutPassword } = user;
+      const {
+        passwordHash: _,
+        twoFactorEnabledAt: __,
+        emailVerifiedAt,
+        ...userWithoutPassword
+      } = user;
 
       return reply.send({
-        accessToken,
+        ...tokens,
         user: {
           ...userWithoutPassword,
+          emailVerified: emailVerifiedAt !== null,
           createdAt: userWithoutPassword.createdAt.toISOString(),
           updatedAt: userWithoutPassword.updatedAt.toISOString(),
         },
@@ -138,6 +192,203 @@ export function authRoutes(fastify: FastifyInstance): void {
     }
   );
 
+  // POST /auth/login/two-factor - Finish signing in with a two-factor code
+  app.post(
+    "/auth/login/two-factor",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "Complete a login with a code from the authenticator app or a recovery code",
+        body: TwoFactorLoginRequestSchema,
+        response: {
+          200: TokenResponseSchema,
+          401: ApiErrorSchema,
+          429: ApiErrorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { challengeToken, code } = request.body;
+
+      const challenged = await verifyAccountToken("two-factor-login", challengeToken);
+      if (challenged === null) {
+        return reply.code(401).send({ error: "Invalid or expired challenge, sign in again" });
+      }
+
+      const check = await checkTwoFactorCode(challenged.id, code);
+      if (check === "locked") {
+        return reply.code(429).send({ error: "Too many wrong codes, try again later" });
+      }
+      if (check === "invalid") {
+        return reply.code(401).send({ error: "Invalid code" });
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: challenged.id },
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          emailVerifiedAt: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      });
+
+      if (user === null) {
+        return reply.code(401).send({ error: "User not found" });
+      }
+
+      const tokens = await startSession(app.jwt, user, getSessionDevice(request));
+
+      const { emailVerifiedAt, ...rest } = user;
+
+      return reply.send({
+        ...tokens,
+        user: {
+          ...rest,
+          emailVerified: emailVerifiedAt !== null,
+          createdAt: user.createdAt.toISOString(),
+          updatedAt: user.updatedAt.toISOString(),
+        },
+      });
+    }
+  );
+
+  // POST /auth/refresh - Exchange a refresh token for new tokens
+  app.post(
+    "/auth/refresh",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "Refresh the access token of a session",
+        body: RefreshTokenRequestSchema,
+        response: {
+          200: SessionTokensSchema,
+          401: ApiErrorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const tokens = await refreshSession(
+        app.jwt,
+        request.body.refreshToken,
+        getSessionDevice(request)
+      );
+
+      if (tokens === null) {
+        return reply.code(401).send({ error: "Invalid or expired refresh token" });
+      }
+
+      return reply.send(tokens);
+    }
+  );
+
+  // POST /auth/logout - End the current session
+  app.post(
+    "/auth/logout",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "Sign out of the current session",
+        response: {
+          200: ApiMessageSchema,
+          401: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      await revokeSessions({ id: request.user.sessionId, userId: request.user.id });
+
+      return reply.send({ message: "Signed out" });
+    }
+  );
+
+  // GET /auth/sessions - List signed-in devices
+  app.get(
+    "/auth/sessions",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "List the devices signed in to the account",
+        response: {
+          200: SessionListSchema,
+          401: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      const sessions = await listSessions(request.user.id);
+
+      return reply.send(
+        sessions.map((session) => ({
+          id: session.id,
+          device: describeDevice(session.userAgent),
+          userAgent: session.userAgent,
+          ipAddress: session.ipAddress,
+          current: session.id === request.user.sessionId,
+          lastUsedAt: session.lastUsedAt.toISOString(),
+          expiresAt: session.expiresAt.toISOString(),
+          createdAt: session.createdAt.toISOString(),
+        }))
+      );
+    }
+  );
+
+  // DELETE /auth/sessions/:id - Sign out a device
+  app.delete(
+    "/auth/sessions/:id",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "Revoke a session",
+        params: SessionIdParamSchema,
+        response: {
+          200: ApiMessageSchema,
+          401: ApiErrorSchema,
+          404: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      const revoked = await revokeSessions({ id: request.params.id, userId: request.user.id });
+
+      if (revoked === 0) {
+        return reply.code(404).send({ error: "Session not found" });
+      }
+
+      return reply.send({ message: "Session revoked" });
+    }
+  );
+
+  // DELETE /auth/sessions - Sign out all devices
+  app.delete(
+    "/auth/sessions",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "Revoke every session of the account, including the current one",
+        response: {
+          200: ApiMessageSchema,
+          401: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      const revoked = await revokeSessions({ userId: request.user.id });
+
+      return reply.send({ message: `Signed out of ${String(revoked)} session(s)` });
+    }
+  );
+
   // GET /auth/me - Get current user from token
   app.get(
     "/auth/me",
@@ -162,6 +413,7 @@ export function authRoutes(fastify: FastifyInstance): void {
           id: true,
           name: true,
           email: true,
+          emailVerifiedAt: true,
           createdAt: true,
           updatedAt: true,
         },
@@ -171,8 +423,11 @@ export function authRoutes(fastify: FastifyInstance): void {
         return reply.code(401).send({ error: "User not found" });
       }
 
+      const { emailVerifiedAt, ...rest } = user;
+
       return reply.send({
-        ...user,
+        ...rest,
+        emailVerified: emailVerifiedAt !== null,
         createdAt: user.createdAt.toISOString(),
         updatedAt: user.updatedAt.toISOString(),
       });
@@ -206,13 +461,17 @@ export function authRoutes(fastify: FastifyInstance): void {
           id: true,
           name: true,
           email: true,
+          emailVerifiedAt: true,
           createdAt: true,
           updatedAt: true,
         },
       });
 
+      const { emailVerifiedAt, ...rest } = user;
+
       return reply.send({
-        ...user,
+        ...rest,
+        emailVerified: emailVerifiedAt !== null,
         createdAt: user.createdAt.toISOString(),
         updatedAt: user.updatedAt.toISOString(),
       });
@@ -260,21 +519,193 @@ export function authRoutes(fastify: FastifyInstance): void {
         where: { id: userId },
         data: { passwordHash: hashedPassword },
       });
+      // Anyone signed in with the old password is signed out
+      await revokeSessions({ userId, exceptId: request.user.sessionId });
 
       return reply.send({ message: "Password updated successfully" });
     }
   );
 
-  // DELETE /auth/account - Delete user account
+  // POST /auth/forgot-password - Email a password reset link
+  app.post(
+    "/auth/forgot-password",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "Send a password reset link",
+        body: ForgotPasswordRequestSchema,
+        response: {
+          200: ApiMessageSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const user = await prisma.user.findUnique({
+        where: { email: request.body.email },
+        select: { id: true, email: true, passwordHash: true, emailVerifiedAt: true },
+      });
+
+      if (user !== null) {
+        await sendPasswordResetEmail(user).catch((err: unknown) => {
+          request.log.error(err, "Failed to send password reset email");
+        });
+      }
+
+      // Same answer either way, so the form does not reveal who has an account
+      return reply.send({
+        message: "If an account exists for that email, a reset link is on its way",
+      });
+    }
+  );
+
+  // POST /auth/reset-password - Choose a new password with a reset link
+  app.post(
+    "/auth/reset-password",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "Reset the password with a token from a reset email",
+        body: ResetPasswordRequestSchema,
+        response: {
+          200: ApiMessageSchema,
+          400: ApiErrorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { token, newPassword } = request.body;
+
+      const user = await verifyAccountToken("reset-password", token);
+      if (user === null) {
+        return reply.code(400).send({ error: "Invalid or expired token" });
+      }
+
+      // Changing the hash is what uses the token up; only one of two concurrent resets wins
+      const { count } = await prisma.user.updateMany({
+        where: { id: user.id, passwordHash: user.passwordHash },
+        data: {
+          passwordHash: await bcrypt.hash(newPassword, 12),
+          // Following the link proved the address
+          emailVerifiedAt: user.emailVerifiedAt ?? new Date(),
+        },
+      });
+      if (count === 0) {
+        return reply.code(400).send({ error: "Invalid or expired token" });
+      }
+
+      // Whoever had the account may have left scripts behind too
+      await revokeSessions({ userId: user.id });
+      await revokeAllAccessTokens(user.id);
+
+      return reply.send({ message: "Password has been reset" });
+    }
+  );
+
+  // POST /auth/verify-email - Confirm the address with a verification link
+  app.post(
+    "/auth/verify-email",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "Verify the email address with a token from a verification email",
+        body: VerifyEmailRequestSchema,
+        response: {
+          200: ApiMessageSchema,
+          400: ApiErrorSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const user = await verifyAccountToken("verify-email", request.body.token);
+      if (user === null) {
+        return reply.code(400).send({ error: "Invalid or expired token" });
+      }
+
+      await prisma.user.updateMany({
+        where: { id: user.id, email: user.email, emailVerifiedAt: null },
+        data: { emailVerifiedAt: new Date() },
+      });
+
+      return reply.send({ message: "Email verified" });
+    }
+  );
+
+  // POST /auth/verify-email/resend - Send the verification link again
+  app.post(
+    "/auth/verify-email/resend",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "Send the verification email again",
+        response: {
+          200: ApiMessageSchema,
+          400: ApiErrorSchema,
+          401: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      const user = await prisma.user.findUnique({
+        where: { id: request.user.id },
+        select: { id: true, email: true, passwordHash: true, emailVerifiedAt: true },
+      });
+
+      if (user === null) {
+        return reply.code(401).send({ error: "User not found" });
+      }
+
+      if (user.emailVerifiedAt !== null) {
+        return reply.code(400).send({ error: "Email is already verified" });
+      }
+
+      await sendVerificationEmail(user);
+
+      return reply.send({ message: "Verification email sent" });
+    }
+  );
+
+  // GET /auth/account/deletion - Whether the account is scheduled for deletion
+  app.get(
+    "/auth/account/deletion",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "Get the deletion status of the current account",
+        response: {
+          200: AccountDeletionStatusSchema,
+          401: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      const user = await prisma.user.findUnique({
+        where: { id: request.user.id },
+        select: { deletionRequestedAt: true, deletionScheduledFor: true },
+      });
+
+      if (user === null) {
+        return reply.code(401).send({ error: "User not found" });
+      }
+
+      return reply.send(formatDeletionStatus(user));
+    }
+  );
+
+  // DELETE /auth/account - Schedule the account for deletion
   app.delete(
     "/auth/account",
     {
       schema: {
         tags: ["Auth"],
-        summary: "Delete user account and all associated data",
+        summary: "Delete user account and all associated data after a grace period",
         response: {
-          200: ApiMessageSchema,
+          200: AccountDeletionStatusSchema,
           401: ApiErrorSchema,
+          409: ApiErrorSchema,
         },
         security: [{ bearerAuth: [] }],
       },
@@ -285,41 +716,70 @@ export function authRoutes(fastify: FastifyInstance): void {
 
       const user = await prisma.user.findUnique({
         where: { id: userId },
-        select: {
-          id: true,
-          stripeCustomerId: true,
-          subscription: {
-            select: {
-              stripeSubscriptionId: true,
-            },
-          },
-        },
+        select: { id: true, deletionScheduledFor: true },
       });
 
       if (user === null) {
         return reply.code(401).send({ error: "User not found" });
       }
 
-      // Cancel Stripe subscription if exists
-      if (user.subscription?.stripeSubscriptionId !== undefined) {
-        try {
-          await stripe.subscriptions.cancel(user.subscription.stripeSubscriptionId);
-        } catch (error: unknown) {
-          console.error("Failed to cancel Stripe subscription:", error);
-        }
+      if (user.deletionScheduledFor !== null) {
+        return reply.code(409).send({ error: "Account is already scheduled for deletion" });
       }
 
-      // Delete all user instances (Fly.io cleanup would happen here in production)
-      await prisma.instance.deleteMany({
-        where: { userId },
-      });
+      const orphaned = await findOrganizationNeedingOwner(userId);
+      if (orphaned !== null) {
+        return reply.code(409).send({
+          error: `Make another member an owner of ${orphaned.name} before deleting your account`,
+        });
+      }
+
+      // Moves instances from before organizations to the personal one, so they go with it
+      await getDefaultMembership(request.user);
+
+      // Cancels Stripe, queues provider teardown of the instances in organizations
+      // only the user belongs to and schedules the purge
+      const status = await requestAccountDeletion(user, request.log);
 
-      // Delete the user (this will cascade delete related records)
-      await prisma.user.delete({
+      return reply.send(formatDeletionStatus(status));
+    }
+  );
+
+  // POST /auth/account/restore - Cancel a scheduled deletion
+  app.post(
+    "/auth/account/restore",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "Restore an account that is scheduled for deletion",
+        response: {
+          200: AccountDeletionStatusSchema,
+          400: ApiErrorSchema,
+          401: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      const userId = request.user.id;
+
+      const user = await prisma.user.findUnique({
         where: { id: userId },
+        select: { deletionScheduledFor: true },
       });
 
-      return reply.send({ message: "Account deleted successfully" });
+      if (user === null) {
+        return reply.code(401).send({ error: "User not found" });
+      }
+
+      if (user.deletionScheduledFor === null) {
+        return reply.code(400).send({ error: "Account is not scheduled for deletion" });
+      }
+
+      const status = await restoreAccount(userId);
+
+      return reply.send(formatDeletionStatus(status));
     }
   );
 }
@@ -1,7 +1,10 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import Fastify, { type FastifyInstance } from "fastify";
+import fastifyRawBody from "fastify-raw-body";
 import { serializerCompiler, validatorCompiler } from "fastify-type-provider-zod";
+import type { OrganizationRole } from "@fasterclaw/shared";
 import { billingRoutes } from "./billing.js";
+import { hasRole } from "../services/organizations.js";
 
 // Mock dependencies
 vi.mock("@fasterclaw/db", () => ({
@@ -9,6 +12,9 @@ vi.mock("@fasterclaw/db", () => ({
     user: {
       findUnique: vi.fn(),
     },
+    organization: {
+      findUnique: vi.fn(),
+    },
     subscription: {
       findFirst: vi.fn(),
       upsert: vi.fn(),
@@ -37,9 +43,11 @@ vi.mock("../services/stripe.js", () => ({
     },
   },
   getOrCreateStripeCustomer: vi.fn(),
+  createBillingPortalSession: vi.fn(),
   verifyWebhookSignature: vi.fn(),
   getPlanFromPriceId: vi.fn(),
   getPriceIdForPlan: vi.fn(),
+  isByoKeyPriceId: vi.fn(() => false),
   PLANS: {
     starter: {
       name: "Starter",
@@ -69,6 +77,7 @@ import { prisma } from "@fasterclaw/db";
 import {
   stripe,
   getOrCreateStripeCustomer,
+  createBillingPortalSession,
   verifyWebhookSignature,
   getPriceIdForPlan,
   getPlanFromPriceId,
@@ -79,6 +88,8 @@ describe("Billing Routes", () => {
   // Use valid CUID formats for testing
   const mockUserId = "cjld2cyuq0000t3rmniod1foy";
   const mockSubscriptionId = "cjld2cyuq0002t3rmniod1fog";
+  const mockOrganizationId = "cjld2cyuq0003t3rmniod1foh";
+  let role: OrganizationRole;
 
   beforeEach(async () => {
     vi.clearAllMocks();
@@ -101,6 +112,25 @@ describe("Billing Routes", () => {
       request.user = { id: mockUserId, email: "test@example.com", name: "Test User" };
     });
 
+    // Mock authorize decorator
+    role = "owner";
+    app.decorate("authorize", async (request, reply) => {
+      const required = request.routeOptions.config.role ?? "viewer";
+      if (!hasRole(role, required)) {
+        void reply.code(403).send({ error: `This requires the ${required} role or higher` });
+        return;
+      }
+      request.organization = { id: mockOrganizationId, name: "Acme", role };
+    });
+
+    // The webhook verifies the signature of the raw body, as in app.ts
+    await app.register(fastifyRawBody, {
+      field: "rawBody",
+      global: false,
+      encoding: false,
+      runFirst: true,
+    });
+
     await app.register(billingRoutes);
     await app.ready();
   });
@@ -130,6 +160,56 @@ describe("Billing Routes", () => {
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
       expect(body.url).toBe("https://checkout.stripe.com/session_123");
+      expect(getOrCreateStripeCustomer).toHaveBeenCalledWith(
+        mockOrganizationId,
+        "test@example.com",
+        "Acme"
+      );
+      expect(stripe.checkout.sessions.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          metadata: expect.objectContaining({ organizationId: mockOrganizationId }),
+        })
+      );
+    });
+
+    it("should return 403 for members who are not owners", async () => {
+      role = "admin";
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/billing/checkout",
+        payload: { plan: "starter" },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(stripe.checkout.sessions.create).not.toHaveBeenCalled();
+    });
+
+    it("should check out the bring-your-own-key price", async () => {
+      vi.mocked(getPriceIdForPlan).mockReturnValue("price_starter_byo_test");
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        email: "test@example.com",
+        name: "Test User",
+      } as any);
+      vi.mocked(getOrCreateStripeCustomer).mockResolvedValue("cus_123");
+      vi.mocked(stripe.checkout.sessions.create).mockResolvedValue({
+        url: "https://checkout.stripe.com/session_123",
+      } as any);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/billing/checkout",
+        payload: { plan: "starter", byoKey: true },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(getPriceIdForPlan).toHaveBeenCalledWith("starter", true);
+      expect(stripe.checkout.sessions.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          line_items: [{ price: "price_starter_byo_test", quantity: 1 }],
+          metadata: expect.objectContaining({ byoKey: "true" }),
+        })
+      );
     });
 
     it("should return 400 if no price ID configured for plan", async () => {
@@ -186,12 +266,12 @@ describe("Billing Routes", () => {
 
   describe("POST /billing/portal", () => {
     it("should create a portal session successfully", async () => {
-      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+      vi.mocked(prisma.organization.findUnique).mockResolvedValue({
         stripeCustomerId: "cus_123",
       } as any);
-      vi.mocked(stripe.billingPortal.sessions.create).mockResolvedValue({
-        url: "https://billing.stripe.com/portal_123",
-      } as any);
+      vi.mocked(createBillingPortalSession).mockResolvedValue(
+        "https://billing.stripe.com/portal_123"
+      );
 
       const response = await app.inject({
         method: "POST",
@@ -201,10 +281,18 @@ describe("Billing Routes", () => {
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
       expect(body.url).toBe("https://billing.stripe.com/portal_123");
+      expect(prisma.organization.findUnique).toHaveBeenCalledWith({
+        where: { id: mockOrganizationId },
+        select: { stripeCustomerId: true },
+      });
+      expect(createBillingPortalSession).toHaveBeenCalledWith(
+        "cus_123",
+        expect.stringContaining("/dashboard/billing")
+      );
     });
 
     it("should return 400 if no Stripe customer found", async () => {
-      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+      vi.mocked(prisma.organization.findUnique).mockResolvedValue({
         stripeCustomerId: null,
       } as any);
 
@@ -215,11 +303,11 @@ describe("Billing Routes", () => {
 
       expect(response.statusCode).toBe(400);
       const body = JSON.parse(response.body);
-      expect(body.error).toBe("No Stripe customer found");
+      expect(body.error).toBe("No billing account found. Please subscribe first.");
     });
 
-    it("should return 400 if user not found", async () => {
-      vi.mocked(prisma.user.findUnique).mockResolvedValue(null);
+    it("should return 400 if organization not found", async () => {
+      vi.mocked(prisma.organization.findUnique).mockResolvedValue(null);
 
       const response = await app.inject({
         method: "POST",
@@ -228,13 +316,13 @@ describe("Billing Routes", () => {
 
       expect(response.statusCode).toBe(400);
       const body = JSON.parse(response.body);
-      expect(body.error).toBe("No Stripe customer found");
+      expect(body.error).toBe("No billing account found. Please subscribe first.");
     });
   });
 
   describe("GET /billing/invoices", () => {
     it("should return invoices successfully", async () => {
-      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+      vi.mocked(prisma.organization.findUnique).mockResolvedValue({
         stripeCustomerId: "cus_123",
       } as any);
       vi.mocked(stripe.invoices.list).mockResolvedValue({
@@ -267,7 +355,7 @@ describe("Billing Routes", () => {
     });
 
     it("should return empty array if no Stripe customer", async () => {
-      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+      vi.mocked(prisma.organization.findUnique).mockResolvedValue({
         stripeCustomerId: null,
       } as any);
 
@@ -282,7 +370,7 @@ describe("Billing Routes", () => {
     });
 
     it("should handle invoices without paid_at timestamp", async () => {
-      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+      vi.mocked(prisma.organization.findUnique).mockResolvedValue({
         stripeCustomerId: "cus_123",
       } as any);
       vi.mocked(stripe.invoices.list).mockResolvedValue({
@@ -316,12 +404,14 @@ describe("Billing Routes", () => {
     it("should return subscription with plans", async () => {
       const mockSubscription = {
         id: mockSubscriptionId,
-        userId: mockUserId,
+        organizationId: mockOrganizationId,
         stripeCustomerId: "cus_123",
         stripeSubscriptionId: "sub_stripe_123",
         status: "ACTIVE",
         plan: "starter",
         stripePriceId: "price_starter_test",
+        instanceLimit: 2,
+        byoKey: false,
         currentPeriodStart: new Date("2024-01-01"),
         currentPeriodEnd: new Date("2024-02-01"),
         cancelAtPeriodEnd: false,
@@ -364,12 +454,14 @@ describe("Billing Routes", () => {
     it("should use stored plan if no stripePriceId", async () => {
       const mockSubscription = {
         id: mockSubscriptionId,
-        userId: mockUserId,
+        organizationId: mockOrganizationId,
         stripeCustomerId: "cus_123",
         stripeSubscriptionId: "sub_stripe_123",
         status: "ACTIVE",
         plan: "pro",
         stripePriceId: null,
+        instanceLimit: 10,
+        byoKey: false,
         currentPeriodStart: new Date("2024-01-01"),
         currentPeriodEnd: new Date("2024-02-01"),
         cancelAtPeriodEnd: false,
@@ -395,7 +487,7 @@ describe("Billing Routes", () => {
         type: "checkout.session.completed",
         data: {
           object: {
-            metadata: { userId: mockUserId, plan: "starter" },
+            metadata: { organizationId: mockOrganizationId, plan: "starter" },
             mode: "subscription",
             subscription: "sub_123",
           },
@@ -595,7 +687,7 @@ describe("Billing Routes", () => {
       expect(body.received).toBe(true);
     });
 
-    it("should skip checkout.session.completed without userId", async () => {
+    it("should skip checkout.session.completed without organizationId", async () => {
       const mockEvent = {
         type: "checkout.session.completed",
         data: {
@@ -9,6 +9,7 @@ import {
   PLANS,
   getPlanFromPriceId,
   getPriceIdForPlan,
+  isByoKeyPriceId,
   type PlanType,
 } from "../services/stripe.js";
 import {
@@ -36,37 +37,41 @@ export function billingRoutes(fastify: FastifyInstance): void {
           200: CheckoutResponseSchema,
           400: ApiErrorSchema,
           401: ApiErrorSchema,
+          403: ApiErrorSchema,
           500: ApiErrorSchema,
         },
         security: [{ bearerAuth: [] }],
       },
-      preHandler: [app.authenticate],
+      config: { role: "owner" },
+      preHandler: [app.authenticate, app.authorize],
     },
     async (request, reply) => {
       const userId = request.user.id;
-      const { plan } = request.body;
+      const organization = request.organization;
+      const { plan, byoKey } = request.body;
 
-      const priceId = getPriceIdForPlan(plan);
+      const priceId = getPriceIdForPlan(plan, byoKey);
       if (priceId === "") {
+        const envVar = `STRIPE_PRICE_ID_${plan.toUpperCase()}${byoKey ? "_BYO_KEY" : ""}`;
         return reply.code(400).send({
-          error: `No price ID configured for plan: ${plan}. Please set STRIPE_PRICE_ID_${plan.toUpperCase()} environment variable.`,
+          error: `No price ID configured for plan: ${plan}. Please set ${envVar} environment variable.`,
         });
       }
 
       const user = await prisma.user.findUnique({
         where: { id: userId },
-        select: { email: true, name: true },
+        select: { email: true },
       });
 
       if (user === null) {
         return reply.code(401).send({ error: "User not found" });
       }
 
-      // Get or create Stripe customer
+      // The organization is the customer; receipts go to the owner who subscribes
       const customerId = await getOrCreateStripeCustomer(
-        userId,
+        organization.id,
         user.email,
-        user.name ?? undefined
+        organization.name
       );
 
       const baseUrl = process.env.FRONTEND_URL ?? "http://localhost:3000";
@@ -84,8 +89,9 @@ export function billingRoutes(fastify: FastifyInstance): void {
         success_url: `${baseUrl}/dashboard/billing?success=true`,
         cancel_url: `${baseUrl}/pricing?canceled=true`,
         metadata: {
-          userId,
+          organizationId: organization.id,
           plan,
+          byoKey: String(byoKey),
         },
       });
 
@@ -108,30 +114,30 @@ export function billingRoutes(fastify: FastifyInstance): void {
           200: PortalResponseSchema,
           400: ApiErrorSchema,
           401: ApiErrorSchema,
+          403: ApiErrorSchema,
         },
         security: [{ bearerAuth: [] }],
       },
-      preHandler: [app.authenticate],
+      config: { role: "owner" },
+      preHandler: [app.authenticate, app.authorize],
     },
     async (request, reply) => {
-      const userId = request.user.id;
-
-      const user = await prisma.user.findUnique({
-        where: { id: userId },
+      const organization = await prisma.organization.findUnique({
+        where: { id: request.organization.id },
         select: { stripeCustomerId: true },
       });
 
       if (
-        user?.stripeCustomerId === null ||
-        user?.stripeCustomerId === undefined ||
-        user.stripeCustomerId === ""
+        organization?.stripeCustomerId === null ||
+        organization?.stripeCustomerId === undefined ||
+        organization.stripeCustomerId === ""
       ) {
         return reply.code(400).send({ error: "No billing account found. Please subscribe first." });
       }
 
       const baseUrl = process.env.FRONTEND_URL ?? "http://localhost:3000";
       const url = await createBillingPortalSession(
-        user.stripeCustomerId,
+        organization.stripeCustomerId,
         `${baseUrl}/dashboard/billing`
       );
 
@@ -149,25 +155,25 @@ export function billingRoutes(fastify: FastifyInstance): void {
         response: {
           200: InvoiceListSchema,
           401: ApiErrorSchema,
+          403: ApiErrorSchema,
         },
         security: [{ bearerAuth: [] }],
       },
-      preHandler: [app.authenticate],
+      config: { scope: "billing:read", role: "admin" },
+      preHandler: [app.authenticate, app.authorize],
     },
     async (request, _reply) => {
-      const userId = request.user.id;
-
-      const user = await prisma.user.findUnique({
-        where: { id: userId },
+      const organization = await prisma.organization.findUnique({
+        where: { id: request.organization.id },
         select: { stripeCustomerId: true },
       });
 
-      if (user?.stripeCustomerId === null || user?.stripeCustomerId === undefined) {
+      if (organization?.stripeCustomerId === null || organization?.stripeCustomerId === undefined) {
         return [];
       }
 
       const invoices = await stripe.invoices.list({
-        customer: user.stripeCustomerId,
+        customer: organization.stripeCustomerId,
         limit: 10,
       });
 
@@ -196,17 +202,19 @@ export function billingRoutes(fastify: FastifyInstance): void {
         response: {
           200: SubscriptionResponseSchema,
           401: ApiErrorSchema,
+          403: ApiErrorSchema,
         },
         security: [{ bearerAuth: [] }],
       },
-      preHandler: [app.authenticate],
+      config: { scope: "billing:read", role: "viewer" },
+      preHandler: [app.authenticate, app.authorize],
     },
     async (request, _reply) => {
-      const userId = request.user.id;
+      const organizationId = request.organization.id;
 
       const subscription = await prisma.subscription.findFirst({
         where: {
-          userId,
+          organizationId,
           status: "ACTIVE",
         },
         orderBy: {
@@ -230,7 +238,7 @@ export function billingRoutes(fastify: FastifyInstance): void {
       return {
         subscription: {
           id: subscription.id,
-          userId: subscription.userId,
+          organizationId,
           stripeCustomerId: subscription.stripeCustomerId,
           stripeSubscriptionId: subscription.stripeSubscriptionId,
           status: subscription.status,
@@ -239,6 +247,7 @@ export function billingRoutes(fastify: FastifyInstance): void {
           currentPeriodStart: subscription.currentPeriodStart?.toISOString() ?? null,
           currentPeriodEnd: subscription.currentPeriodEnd.toISOString(),
           cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+          byoKey: subscription.byoKey,
           createdAt: subscription.createdAt.toISOString(),
           updatedAt: subscription.updatedAt.toISOString(),
         },
@@ -306,11 +315,11 @@ export function billingRoutes(fastify: FastifyInstance): void {
           // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-assignment
           const session = event.data.object as any;
           // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-assignment
-          const userId = session.metadata?.userId;
+          const organizationId = session.metadata?.organizationId;
           // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
           const plan = session.metadata?.plan as PlanType | undefined;
 
-          if (userId === undefined || userId === null || userId === "") {
+          if (organizationId === undefined || organizationId === null || organizationId === "") {
             break;
           }
 
@@ -324,6 +333,7 @@ export function billingRoutes(fastify: FastifyInstance): void {
             const priceId = subscription.items.data[0]?.price?.id;
             const resolvedPlan = plan ?? (priceId ? getPlanFromPriceId(priceId) : null);
             const instanceLimit = resolvedPlan ? PLANS[resolvedPlan].instanceLimit : 1;
+            const byoKey = priceId ? isByoKeyPriceId(priceId) : false;
 
             await prisma.subscription.upsert({
               where: { stripeSubscriptionId: subscriptionId },
@@ -333,18 +343,20 @@ export function billingRoutes(fastify: FastifyInstance): void {
                 stripePriceId: priceId,
                 plan: resolvedPlan,
                 instanceLimit,
+                byoKey,
                 currentPeriodStart: new Date(subscription.current_period_start * 1000),
                 currentPeriodEnd: new Date(subscription.current_period_end * 1000),
                 cancelAtPeriodEnd: subscription.cancel_at_period_end,
               },
               create: {
                 // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-                userId,
+                organizationId,
                 stripeCustomerId: subscription.customer as string,
                 stripeSubscriptionId: subscriptionId,
                 stripePriceId: priceId,
                 plan: resolvedPlan,
                 instanceLimit,
+                byoKey,
                 // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-assignment
                 status: subscription.status.toUpperCase() as any,
                 currentPeriodStart: new Date(subscription.current_period_start * 1000),
@@ -361,11 +373,18 @@ export function billingRoutes(fastify: FastifyInstance): void {
           const subscription = event.data.object as any;
           // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-assignment
           const subscriptionId = subscription.id;
+          // The price changes when switching to or from the bring-your-own-key price
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
+          const priceId = subscription.items?.data?.[0]?.price?.id as string | undefined;
 
           await prisma.subscription.updateMany({
             // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
             where: { stripeSubscriptionId: subscriptionId },
             data: {
+              ...(priceId !== undefined && {
+                stripePriceId: priceId,
+                byoKey: isByoKeyPriceId(priceId),
+              }),
               // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-assignment
               status: subscription.status.toUpperCase(),
               // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
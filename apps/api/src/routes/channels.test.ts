@@ -0,0 +1,324 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import Fastify, { type FastifyInstance } from "fastify";
+import { serializerCompiler, validatorCompiler } from "fastify-type-provider-zod";
+import type { OrganizationRole } from "@fasterclaw/shared";
+import { channelRoutes } from "./channels.js";
+import { hasRole } from "../services/organizations.js";
+
+vi.mock("@fasterclaw/db", () => ({
+  prisma: {
+    instance: {
+      findFirst: vi.fn(),
+      update: vi.fn(),
+    },
+    instanceChannel: {
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      delete: vi.fn(),
+    },
+  },
+  maskToken: vi.fn((token: string | null) => (token ? `${token.slice(0, 4)}...` : null)),
+}));
+
+import { prisma } from "@fasterclaw/db";
+
+describe("Channel Routes", () => {
+  let app: FastifyInstance;
+  let authToken: string;
+  const userId = "cjld2cyuq0000t3rmniod1foy";
+  const instanceId = "cjld2cyuq0001t3rmniod1foz";
+  const channelId = "cjld2cyuq0002t3rmniod1fox";
+  const organizationId = "cjld2cyuq0003t3rmniod1fow";
+  let role: OrganizationRole;
+
+  const stoppedInstance = {
+    id: instanceId,
+    userId,
+    organizationId,
+    status: "STOPPED",
+    telegramBotToken: null,
+  };
+
+  const savedChannel = {
+    id: channelId,
+    instanceId,
+    type: "discord",
+    botToken: "MTA.discord-token",
+    appToken: null,
+    createdAt: new Date("2024-01-01T00:00:00Z"),
+    updatedAt: new Date("2024-01-01T00:00:00Z"),
+  };
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    app.setValidatorCompiler(validatorCompiler);
+    app.setSerializerCompiler(serializerCompiler);
+
+    await app.register(import("@fastify/jwt"), {
+      secret: "test-jwt-secret-for-testing-only",
+    });
+
+    app.decorate("authenticate", async (request, reply) => {
+      try {
+        await request.jwtVerify();
+        const payload = request.user as unknown as {
+          sub: string;
+          email: string;
+          name: string | null;
+        };
+        request.user = {
+          id: payload.sub,
+          email: payload.email,
+          name: payload.name,
+        };
+      } catch {
+        void reply.code(401).send({ error: "Unauthorized" });
+      }
+    });
+
+    role = "owner";
+    app.decorate("authorize", async (request, reply) => {
+      const required = request.routeOptions.config.role ?? "viewer";
+      if (!hasRole(role, required)) {
+        void reply.code(403).send({ error: `This requires the ${required} role or higher` });
+        return;
+      }
+      request.organization = { id: organizationId, name: "Acme", role };
+    });
+
+    await app.register(channelRoutes);
+    await app.ready();
+
+    authToken = app.jwt.sign({
+      sub: userId,
+      email: "test@example.com",
+      name: "Test User",
+    });
+
+    vi.mocked(prisma.instance.findFirst).mockResolvedValue(stoppedInstance as any);
+  });
+
+  afterEach(async () => {
+    await app.close();
+    vi.clearAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  describe("POST /channels/validate", () => {
+    it("should report the bot a token belongs to", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockResolvedValue(new Response(JSON.stringify({ username: "helper" })))
+      );
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/channels/validate",
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { type: "discord", botToken: "MTA.abc" },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual({ valid: true, botName: "helper" });
+    });
+
+    it("should report a platform that cannot be reached", async () => {
+      vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("ECONNREFUSED")));
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/channels/validate",
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { type: "telegram", botToken: "123456:ABC" },
+      });
+
+      expect(JSON.parse(response.body)).toEqual({
+        valid: false,
+        error: "Failed to connect to Telegram",
+      });
+    });
+  });
+
+  describe("GET /instances/:id/channels", () => {
+    it("should list channels with masked tokens", async () => {
+      vi.mocked(prisma.instanceChannel.findMany).mockResolvedValue([savedChannel] as any);
+
+      const response = await app.inject({
+        method: "GET",
+        url: `/instances/${instanceId}/channels`,
+        headers: { authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual([
+        {
+          id: channelId,
+          type: "discord",
+          maskedToken: "MTA....",
+          createdAt: "2024-01-01T00:00:00.000Z",
+          updatedAt: "2024-01-01T00:00:00.000Z",
+        },
+      ]);
+      expect(prisma.instance.findFirst).toHaveBeenCalledWith({
+        where: { id: instanceId, organizationId, status: { not: "DELETED" } },
+      });
+    });
+
+    it("should move a legacy Telegram token into a channel", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue({
+        ...stoppedInstance,
+        telegramBotToken: "123456:ABC",
+      } as any);
+      vi.mocked(prisma.instanceChannel.findMany).mockResolvedValue([]);
+
+      await app.inject({
+        method: "GET",
+        url: `/instances/${instanceId}/channels`,
+        headers: { authorization: `Bearer ${authToken}` },
+      });
+
+      expect(prisma.instanceChannel.upsert).toHaveBeenCalledWith({
+        where: { instanceId_type: { instanceId, type: "telegram" } },
+        create: { instanceId, type: "telegram", botToken: "123456:ABC", appToken: null },
+        update: {},
+      });
+      expect(prisma.instance.update).toHaveBeenCalledWith({
+        where: { id: instanceId },
+        data: { telegramBotToken: null },
+      });
+    });
+
+    it("should return 404 when instance not found", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(null);
+
+      const response = await app.inject({
+        method: "GET",
+        url: `/instances/${instanceId}/channels`,
+        headers: { authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe("PUT /instances/:id/channels", () => {
+    it("should validate and save a channel", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockResolvedValue(new Response(JSON.stringify({ username: "helper" })))
+      );
+      vi.mocked(prisma.instanceChannel.upsert).mockResolvedValue(savedChannel as any);
+
+      const response = await app.inject({
+        method: "PUT",
+        url: `/instances/${instanceId}/channels`,
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { type: "discord", botToken: "MTA.discord-token" },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).type).toBe("discord");
+      expect(prisma.instanceChannel.upsert).toHaveBeenCalledWith({
+        where: { instanceId_type: { instanceId, type: "discord" } },
+        create: { instanceId, type: "discord", botToken: "MTA.discord-token", appToken: null },
+        update: { botToken: "MTA.discord-token", appToken: null },
+      });
+    });
+
+    it("should not save a token the platform rejects", async () => {
+      vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("{}", { status: 401 })));
+
+      const response = await app.inject({
+        method: "PUT",
+        url: `/instances/${instanceId}/channels`,
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { type: "discord", botToken: "bad" },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe("Discord rejected this token");
+      expect(prisma.instanceChannel.upsert).not.toHaveBeenCalled();
+    });
+
+    it("should return 403 for operators", async () => {
+      role = "operator";
+
+      const response = await app.inject({
+        method: "PUT",
+        url: `/instances/${instanceId}/channels`,
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { type: "discord", botToken: "MTA.abc" },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(prisma.instanceChannel.upsert).not.toHaveBeenCalled();
+    });
+
+    it("should return 400 while the instance is running", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue({
+        ...stoppedInstance,
+        status: "RUNNING",
+      } as any);
+
+      const response = await app.inject({
+        method: "PUT",
+        url: `/instances/${instanceId}/channels`,
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { type: "discord", botToken: "MTA.abc" },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe(
+        "Instance must be stopped before changing its channels"
+      );
+    });
+  });
+
+  describe("DELETE /instances/:id/channels/:type", () => {
+    it("should remove a channel", async () => {
+      vi.mocked(prisma.instanceChannel.findMany).mockResolvedValue([
+        { id: "channel-1", type: "telegram" },
+        { id: channelId, type: "discord" },
+      ] as any);
+
+      const response = await app.inject({
+        method: "DELETE",
+        url: `/instances/${instanceId}/channels/discord`,
+        headers: { authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(prisma.instanceChannel.delete).toHaveBeenCalledWith({ where: { id: channelId } });
+    });
+
+    it("should keep the last channel", async () => {
+      vi.mocked(prisma.instanceChannel.findMany).mockResolvedValue([
+        { id: channelId, type: "discord" },
+      ] as any);
+
+      const response = await app.inject({
+        method: "DELETE",
+        url: `/instances/${instanceId}/channels/discord`,
+        headers: { authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(prisma.instanceChannel.delete).not.toHaveBeenCalled();
+    });
+
+    it("should return 404 for a channel the instance does not have", async () => {
+      vi.mocked(prisma.instanceChannel.findMany).mockResolvedValue([
+        { id: channelId, type: "discord" },
+      ] as any);
+
+      const response = await app.inject({
+        method: "DELETE",
+        url: `/instances/${instanceId}/channels/slack`,
+        headers: { authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(404);
+      expect(JSON.parse(response.body).error).toBe("Instance has no Slack channel");
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import type { FastifyInstance } from "fastify";
+import type { ZodTypeProvider } from "fastify-type-provider-zod";
+import { z } from "zod";
+import { prisma, maskToken, type Instance } from "@fasterclaw/db";
+import {
+  adoptLegacyTelegramToken,
+  getChannelName,
+  toChannelRecord,
+  toChannelType,
+  validateChannel,
+} from "../services/channels.js";
+import {
+  ChannelInputSchema,
+  InstanceChannelSchema,
+  InstanceChannelListSchema,
+  InstanceChannelParamSchema,
+  ValidateChannelResponseSchema,
+  ApiErrorSchema,
+  ApiSuccessSchema,
+  type ChannelType,
+} from "@fasterclaw/shared";
+
+/**
+ * Format a channel for API response; its tokens are only ever shown masked.
+ */
+function formatChannelResponse(channel: {
+  id: string;
+  type: string;
+  botToken: string;
+  createdAt: Date;
+  updatedAt: Date;
+}) {
+  return {
+    id: channel.id,
+    type: channel.type as ChannelType,
+    maskedToken: maskToken(channel.botToken) ?? "***",
+    createdAt: channel.createdAt.toISOString(),
+    updatedAt: channel.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Channels are read when an instance is provisioned, so they can only change
+ * while it is not running.
+ */
+function canChangeChannels(instance: Instance): boolean {
+  return instance.status === "STOPPED" || instance.status === "FAILED";
+}
+
+export function channelRoutes(fastify: FastifyInstance): void {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  /**
+   * Load one of the organization's instances, with any legacy Telegram token
+   * moved to a channel, or null if there is none.
+   */
+  async function findInstance(organizationId: string, id: string): Promise<Instance | null> {
+    const instance = await prisma.instance.findFirst({
+      where: { id, organizationId, status: { not: "DELETED" } },
+    });
+    if (instance !== null) {
+      await adoptLegacyTelegramToken(instance);
+    }
+    return instance;
+  }
+
+  // POST /channels/validate - Check channel credentials against the platform
+  app.post(
+    "/channels/validate",
+    {
+      schema: {
+        tags: ["Channels"],
+        summary: "Validate the credentials of a channel",
+        body: ChannelInputSchema,
+        response: {
+          200: ValidateChannelResponseSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      config: { scope: "instances:write", role: "admin" },
+      preHandler: [app.authenticate, app.authorize],
+    },
+    async (request, reply) => {
+      const channel = request.body;
+
+      try {
+        return await reply.send(await validateChannel(channel));
+      } catch (error) {
+        app.log.error(error, `Failed to validate ${channel.type} credentials`);
+        return reply.send({
+          valid: false,
+          error: `Failed to connect to ${getChannelName(channel.type)}`,
+        });
+      }
+    }
+  );
+
+  // GET /instances/:id/channels - List an instance's channels (tokens masked)
+  app.get(
+    "/instances/:id/channels",
+    {
+      schema: {
+        tags: ["Channels"],
+        summary: "List the channels of an instance",
+        params: z.object({
+          id: z.string(),
+        }),
+        response: {
+          200: InstanceChannelListSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+          404: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      config: { scope: "instances:read", role: "viewer" },
+      preHandler: [app.authenticate, app.authorize],
+    },
+    async (request, reply) => {
+      const instance = await findInstance(request.organization.id, request.params.id);
+      if (instance === null) {
+        return reply.code(404).send({ error: "Instance not found" });
+      }
+
+      const channels = await prisma.instanceChannel.findMany({
+        where: { instanceId: instance.id },
+        orderBy: { createdAt: "asc" },
+      });
+
+      return reply.send(
+        channels
+          .filter((channel) => toChannelType(channel.type) !== null)
+          .map(formatChannelResponse)
+      );
+    }
+  );
+
+  // PUT /instances/:id/channels - Validate and attach a channel, replacing one of the same type
+  app.put(
+    "/instances/:id/channels",
+    {
+      schema: {
+        tags: ["Channels"],
+        summary: "Attach a channel to an instance (must be stopped)",
+        params: z.object({
+          id: z.string(),
+        }),
+        body: ChannelInputSchema,
+        response: {
+          200: InstanceChannelSchema,
+          400: ApiErrorSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+          404: ApiErrorSchema,
+          502: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      config: { scope: "instances:write", role: "admin" },
+      preHandler: [app.authenticate, app.authorize],
+    },
+    async (request, reply) => {
+      const channel = request.body;
+
+      const instance = await findInstance(request.organization.id, request.params.id);
+      if (instance === null) {
+        return reply.code(404).send({ error: "Instance not found" });
+      }
+
+      if (!canChangeChannels(instance)) {
+        return reply
+          .code(400)
+          .send({ error: "Instance must be stopped before changing its channels" });
+      }
+
+      let validation;
+      try {
+        validation = await validateChannel(channel);
+      } catch (error) {
+        app.log.error(error, `Failed to validate ${channel.type} credentials`);
+        return reply.code(502).send({
+          error: `Could not reach ${getChannelName(channel.type)} to validate the token. Please try again.`,
+        });
+      }
+
+      if (!validation.valid) {
+        return reply.code(400).send({ error: validation.error ?? "Invalid token" });
+      }
+
+      // Encrypted by the @fasterclaw/db encryption extension
+      const { type, ...credentials } = toChannelRecord(channel);
+      const saved = await prisma.instanceChannel.upsert({
+        where: { instanceId_type: { instanceId: instance.id, type } },
+        create: { instanceId: instance.id, type, ...credentials },
+        update: credentials,
+      });
+
+      return reply.send(formatChannelResponse(saved));
+    }
+  );
+
+  // DELETE /instances/:id/channels/:type - Detach a channel
+  app.delete(
+    "/instances/:id/channels/:type",
+    {
+      schema: {
+        tags: ["Channels"],
+        summary: "Remove a channel from an instance (must be stopped)",
+        params: InstanceChannelParamSchema,
+        response: {
+          200: ApiSuccessSchema,
+          400: ApiErrorSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+          404: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      config: { scope: "instances:write", role: "admin" },
+      preHandler: [app.authenticate, app.authorize],
+    },
+    async (request, reply) => {
+      const { type } = request.params;
+
+      const instance = await findInstance(request.organization.id, request.params.id);
+      if (instance === null) {
+        return reply.code(404).send({ error: "Instance not found" });
+      }
+
+      if (!canChangeChannels(instance)) {
+        return reply
+          .code(400)
+          .send({ error: "Instance must be stopped before changing its channels" });
+      }
+
+      const channels = await prisma.instanceChannel.findMany({
+        where: { instanceId: instance.id },
+        select: { id: true, type: true },
+      });
+      const channel = channels.find((candidate) => candidate.type === type);
+
+      if (channel === undefined) {
+        return reply.code(404).send({ error: `Instance has no ${getChannelName(type)} channel` });
+      }
+
+      if (channels.length === 1) {
+        return reply
+          .code(400)
+          .send({ error: "An instance needs at least one channel. Attach another one first." });
+      }
+
+      await prisma.instanceChannel.delete({ where: { id: channel.id } });
+
+      return reply.send({ success: true });
+    }
+  );
+}
+
+export default channelRoutes;
@@ -1,6 +1,8 @@
 import type { FastifyInstance } from "fastify";
 import oauthPlugin from "@fastify/oauth2";
 import { prisma } from "@fasterclaw/db";
+import { getSessionDevice, startSession } from "../services/sessions.js";
+import { createTwoFactorChallenge } from "../services/two-factor.js";
 
 export async function googleAuthRoutes(fastify: FastifyInstance): Promise<void> {
   const googleClientId = process.env.GOOGLE_CLIENT_ID;
@@ -30,18 +32,6 @@ export async function googleAuthRoutes(fastify: FastifyInstance): Promise<void>
     callbackUri,
   });
 
-  // Helper to generate JWT token
-  function generateToken(user: { id: string; email: string; name: string | null }) {
-    return fastify.jwt.sign(
-      {
-        sub: user.id,
-        email: user.email,
-        name: user.name,
-      },
-      { expiresIn: "7d" }
-    );
-  }
-
   // Google OAuth callback
   fastify.get("/auth/google/callback", async function (request, reply) {
     try {
@@ -76,29 +66,56 @@ export async function googleAuthRoutes(fastify: FastifyInstance): Promise<void>
           id: true,
           email: true,
           name: true,
+          passwordHash: true,
+          emailVerifiedAt: true,
+          twoFactorEnabledAt: true,
         },
       });
 
+      // Google has verified the address
+      if (user !== null) {
+        await prisma.user.updateMany({
+          where: { id: user.id, emailVerifiedAt: null },
+          data: { emailVerifiedAt: new Date() },
+        });
+      }
+
       // Create new user if not found (no password for OAuth users)
       user ??= await prisma.user.create({
         data: {
           email: googleUser.email,
           name: googleUser.name,
           passwordHash: "", // OAuth users don't have passwords
+          emailVerifiedAt: new Date(),
         },
         select: {
           id: true,
           email: true,
           name: true,
+          passwordHash: true,
+          emailVerifiedAt: true,
+          twoFactorEnabledAt: true,
         },
       });
 
-      // Generate JWT token
-      const accessToken = generateToken(user);
-
-      // Redirect to frontend with token
       const frontendUrl = process.env.FRONTEND_URL ?? "http://localhost:3000";
-      return await reply.redirect(`${frontendUrl}/auth/callback?token=${accessToken}`);
+
+      // Google stands in for the password; the code is still asked for on the sign-in page
+      if (user.twoFactorEnabledAt !== null) {
+        const { challengeToken } = createTwoFactorChallenge(user);
+        const params = new URLSearchParams({ challengeToken });
+        return await reply.redirect(`${frontendUrl}/sign-in?${params.toString()}`);
+      }
+
+      const { accessToken, refreshToken } = await startSession(
+        fastify.jwt,
+        user,
+        getSessionDevice(request)
+      );
+
+      // Redirect to frontend with the session's tokens
+      const params = new URLSearchParams({ token: accessToken, refreshToken });
+      return await reply.redirect(`${frontendUrl}/auth/callback?${params.toString()}`);
     } catch (error: unknown) {
       fastify.log.error(error);
       const frontendUrl = process.env.FRONTEND_URL ?? "http://localhost:3000";
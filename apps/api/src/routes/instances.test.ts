@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import type { AddressInfo } from "net";
 import Fastify, { type FastifyInstance } from "fastify";
 import { serializerCompiler, validatorCompiler } from "fastify-type-provider-zod";
 import { instanceRoutes } from "./instances.js";
@@ -13,33 +14,32 @@ vi.mock("@fasterclaw/db", () => ({
       update: vi.fn(),
       count: vi.fn(),
     },
+    instanceJob: {
+      findMany: vi.fn(),
+    },
+    instanceEvent: {
+      findMany: vi.fn(),
+      count: vi.fn(),
+    },
     subscription: {
       findFirst: vi.fn(),
     },
+    aiProviderKey: {
+      findUnique: vi.fn(),
+    },
+    instanceChannel: {
+      findMany: vi.fn(),
+      createMany: vi.fn(),
+      upsert: vi.fn(),
+    },
+    $transaction: vi.fn(),
   },
   maskToken: vi.fn((token: string | null) => (token ? `${token.slice(0, 4)}...` : null)),
+  Prisma: { DbNull: "DbNull" },
 }));
 
-vi.mock("../services/fly.js", () => ({
-  createApp: vi.fn(),
-  createMachine: vi.fn(),
-  startMachine: vi.fn(),
-  stopMachine: vi.fn(),
-  deleteMachine: vi.fn(),
-  deleteApp: vi.fn(),
-  FlyApiError: class FlyApiError extends Error {
-    constructor(
-      public status: number,
-      public statusText: string,
-      public detail: string,
-      public operation: string
-    ) {
-      super(`Fly.io ${operation} failed (${status}): ${detail}`);
-    }
-  },
-}));
-
-vi.mock("../services/providers/index.js", () => ({
+vi.mock("../services/providers/index.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../services/providers/index.js")>()),
   getProvider: vi.fn(() => ({
     name: "fly",
     createInstance: vi.fn(),
@@ -48,25 +48,41 @@ vi.mock("../services/providers/index.js", () => ({
     deleteInstance: vi.fn(),
     getInstanceStatus: vi.fn(),
   })),
+  getProviderByType: vi.fn(),
   getProviderType: vi.fn(() => "fly"),
 }));
 
+vi.mock("../services/jobs.js", () => ({
+  enqueueJob: vi.fn(),
+  cancelPendingJobs: vi.fn(),
+}));
+
+vi.mock("../services/image-versions.js", () => ({
+  getDefaultImageVersion: vi.fn(async () => "2026.2.1"),
+  findImageVersion: vi.fn(async () => null),
+}));
+
 // Helper to create mock instance with all required fields
 function createMockInstance(
   overrides: Partial<{
     id: string;
     userId: string;
+    organizationId: string | null;
     name: string;
     provider: string;
-    flyAppName: string | null;
-    flyMachineId: string | null;
-    dockerContainerId: string | null;
-    dockerPort: number | null;
+    providerResourceId: string | null;
+    providerMeta: Record<string, unknown> | null;
     region: string;
     status: string;
     ipAddress: string | null;
     telegramBotToken: string | null;
+    telegramDmPolicy: string;
+    telegramAllowFrom: string[];
+    telegramGroupPolicy: string;
     aiModel: string;
+    aiKeySource: string;
+    imageVersion: string;
+    volumeSizeGb: number | null;
     createdAt: Date;
     updatedAt: Date;
   }> = {}
@@ -74,17 +90,22 @@ function createMockInstance(
   return {
     id: "cjld2cyuq0001t3rmniod1foz",
     userId: "cjld2cyuq0000t3rmniod1foy",
+    organizationId: "cjld2cyuq0002t3rmniod1fob",
     name: "My Instance",
     provider: "fly",
-    flyAppName: "openclaw-app",
-    flyMachineId: "machine-123",
-    dockerContainerId: null,
-    dockerPort: null,
+    providerResourceId: "machine-123",
+    providerMeta: { appName: "openclaw-app" },
     region: "ewr",
     status: "RUNNING",
     ipAddress: "10.0.0.1",
     telegramBotToken: null,
+    telegramDmPolicy: "pairing",
+    telegramAllowFrom: [],
+    telegramGroupPolicy: "allowlist",
     aiModel: "gpt-4",
+    aiKeySource: "platform",
+    imageVersion: "2026.2.1",
+    volumeSizeGb: 5,
     createdAt: new Date("2024-01-01T00:00:00Z"),
     updatedAt: new Date("2024-01-01T00:00:00Z"),
     ...overrides,
@@ -92,19 +113,26 @@ function createMockInstance(
 }
 
 import { prisma } from "@fasterclaw/db";
-import { createApp, createMachine } from "../services/fly.js";
-import { getProvider } from "../services/providers/index.js";
+import { findImageVersion } from "../services/image-versions.js";
+import { getProvider, getProviderByType } from "../services/providers/index.js";
+import { cancelPendingJobs } from "../services/jobs.js";
+import { publishInstanceUpdate } from "../services/pubsub.js";
+import { hasRole } from "../services/organizations.js";
+import type { OrganizationRole } from "@fasterclaw/shared";
 
 describe("Instance Routes", () => {
   let app: FastifyInstance;
   const mockUserId = "cjld2cyuq0000t3rmniod1foy";
   const mockInstanceId = "cjld2cyuq0001t3rmniod1foz";
+  const mockOrganizationId = "cjld2cyuq0002t3rmniod1fob";
+  let role: OrganizationRole;
 
   // Mock active subscription
   const mockSubscription = {
     id: "sub-123",
-    userId: mockUserId,
+    organizationId: mockOrganizationId,
     status: "ACTIVE",
+    plan: "pro",
     instanceLimit: 5,
   };
 
@@ -135,33 +163,43 @@ describe("Instance Routes", () => {
       }
     });
 
+    // Acts on one organization with the role the test sets
+    role = "owner";
+    app.decorate("authorize", async (request, reply) => {
+      const required = request.routeOptions.config.role ?? "viewer";
+      if (!hasRole(role, required)) {
+        void reply.code(403).send({ error: `This requires the ${required} role or higher` });
+        return;
+      }
+      request.organization = { id: mockOrganizationId, name: "Acme", role };
+    });
+
     await app.register(instanceRoutes);
     await app.ready();
 
     // Default subscription mock - active subscription
     vi.mocked(prisma.subscription.findFirst).mockResolvedValue(mockSubscription as any);
     vi.mocked(prisma.instance.count).mockResolvedValue(0);
+    vi.mocked(prisma.instanceChannel.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.$transaction).mockImplementation((fn: any) => fn(prisma));
   });
 
   afterEach(async () => {
     await app.close();
     vi.clearAllMocks();
+    vi.useRealTimers();
   });
 
   describe("POST /instances", () => {
     it("should create a new instance successfully", async () => {
       const mockInstance = createMockInstance({
         status: "CREATING",
-        flyMachineId: null,
+        providerResourceId: null,
+        providerMeta: null,
         ipAddress: null,
       });
 
       vi.mocked(prisma.instance.create).mockResolvedValue(mockInstance as any);
-      vi.mocked(createApp).mockResolvedValue(undefined as any);
-      vi.mocked(createMachine).mockResolvedValue({
-        id: "machine-123",
-        private_ip: "10.0.0.1",
-      } as any);
 
       const token = app.jwt.sign({
         sub: mockUserId,
@@ -184,10 +222,16 @@ describe("Instance Routes", () => {
       const body = JSON.parse(response.body);
       expect(body.name).toBe("My Instance");
       expect(body.status).toBe("CREATING");
+      expect(body.imageVersion).toBe("2026.2.1");
+      expect(prisma.instance.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ imageVersion: "2026.2.1", volumeSizeGb: 5 }),
+      });
     });
 
-    it("should return 403 when no active subscription", async () => {
-      vi.mocked(prisma.subscription.findFirst).mockResolvedValue(null);
+    it("should attach the requested channels", async () => {
+      vi.mocked(prisma.instance.create).mockResolvedValue(
+        createMockInstance({ status: "CREATING", providerResourceId: null }) as any
+      );
 
       const token = app.jwt.sign({
         sub: mockUserId,
@@ -201,37 +245,77 @@ describe("Instance Routes", () => {
         headers: { authorization: `Bearer ${token}` },
         payload: {
           name: "My Instance",
-          telegramBotToken: "123456:ABC",
-          region: "ewr",
+          channels: [
+            { type: "discord", botToken: "MTA.discord" },
+            { type: "slack", botToken: "xoxb-1", appToken: "xapp-1" },
+          ],
         },
       });
 
-      expect(response.statusCode).toBe(403);
+      expect(response.statusCode).toBe(201);
+      expect(prisma.instance.create).toHaveBeenCalledWith({
+        data: expect.not.objectContaining({ telegramBotToken: expect.anything() }),
+      });
+      expect(prisma.instanceChannel.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            instanceId: mockInstanceId,
+            type: "discord",
+            botToken: "MTA.discord",
+            appToken: null,
+          },
+          { instanceId: mockInstanceId, type: "slack", botToken: "xoxb-1", appToken: "xapp-1" },
+        ],
+      });
     });
 
-    it("should return 401 when not authenticated", async () => {
+    it("should return 400 without any channel", async () => {
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
       const response = await app.inject({
         method: "POST",
         url: "/instances",
-        payload: { name: "My Instance", telegramBotToken: "123:ABC", region: "ewr" },
+        headers: { authorization: `Bearer ${token}` },
+        payload: { name: "My Instance" },
       });
 
-      expect(response.statusCode).toBe(401);
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe(
+        "Add at least one channel (Telegram, Discord or Slack)"
+      );
     });
-  });
 
-  describe("GET /instances", () => {
-    it("should list all user instances", async () => {
-      const mockInstances = [
-        createMockInstance({ id: "cjld2cyuq0002t3rmniod1fox", name: "Instance 1" }),
-        createMockInstance({
-          id: "cjld2cyuq0003t3rmniod1foy",
-          name: "Instance 2",
-          status: "STOPPED",
-        }),
-      ];
+    it("should return 400 for two channels of the same type", async () => {
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
 
-      vi.mocked(prisma.instance.findMany).mockResolvedValue(mockInstances as any);
+      const response = await app.inject({
+        method: "POST",
+        url: "/instances",
+        headers: { authorization: `Bearer ${token}` },
+        payload: {
+          name: "My Instance",
+          telegramBotToken: "123456:ABC",
+          channels: [{ type: "telegram", botToken: "654321:XYZ" }],
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe(
+        "An instance can have only one Telegram channel"
+      );
+      expect(prisma.instance.create).not.toHaveBeenCalled();
+    });
+
+    it("should return 403 when no active subscription", async () => {
+      vi.mocked(prisma.subscription.findFirst).mockResolvedValue(null);
 
       const token = app.jwt.sign({
         sub: mockUserId,
@@ -240,30 +324,43 @@ describe("Instance Routes", () => {
       });
 
       const response = await app.inject({
-        method: "GET",
+        method: "POST",
         url: "/instances",
         headers: { authorization: `Bearer ${token}` },
+        payload: {
+          name: "My Instance",
+          telegramBotToken: "123456:ABC",
+          region: "ewr",
+        },
       });
 
-      expect(response.statusCode).toBe(200);
-      const body = JSON.parse(response.body);
-      expect(body).toHaveLength(2);
+      expect(response.statusCode).toBe(403);
     });
 
-    it("should return 401 when not authenticated", async () => {
+    it("should return 400 for a model that is not in the catalog", async () => {
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
       const response = await app.inject({
-        method: "GET",
+        method: "POST",
         url: "/instances",
+        headers: { authorization: `Bearer ${token}` },
+        payload: { name: "My Instance", telegramBotToken: "123456:ABC", aiModel: "gpt-2" },
       });
 
-      expect(response.statusCode).toBe(401);
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toContain('Unknown AI model "gpt-2"');
+      expect(prisma.instance.create).not.toHaveBeenCalled();
     });
-  });
 
-  describe("GET /instances/:id", () => {
-    it("should return instance by ID", async () => {
-      const mockInstance = createMockInstance();
-      vi.mocked(prisma.instance.findFirst).mockResolvedValue(mockInstance as any);
+    it("should return 403 for a model the plan does not include", async () => {
+      vi.mocked(prisma.subscription.findFirst).mockResolvedValue({
+        ...mockSubscription,
+        plan: "starter",
+      } as any);
 
       const token = app.jwt.sign({
         sub: mockUserId,
@@ -272,18 +369,30 @@ describe("Instance Routes", () => {
       });
 
       const response = await app.inject({
-        method: "GET",
-        url: `/instances/${mockInstanceId}`,
+        method: "POST",
+        url: "/instances",
         headers: { authorization: `Bearer ${token}` },
+        payload: {
+          name: "My Instance",
+          telegramBotToken: "123456:ABC",
+          aiModel: "claude-opus-4-0",
+        },
       });
 
-      expect(response.statusCode).toBe(200);
-      const body = JSON.parse(response.body);
-      expect(body.id).toBe(mockInstanceId);
+      expect(response.statusCode).toBe(403);
+      expect(JSON.parse(response.body)).toMatchObject({
+        error: "Model claude-opus-4-0 is not included in the starter plan. Upgrade to use it.",
+        entitlement: "models",
+        plan: "starter",
+      });
+      expect(prisma.instance.create).not.toHaveBeenCalled();
     });
 
-    it("should return 404 when instance not found", async () => {
-      vi.mocked(prisma.instance.findFirst).mockResolvedValue(null);
+    it("should return 403 for a region the plan does not include", async () => {
+      vi.mocked(prisma.subscription.findFirst).mockResolvedValue({
+        ...mockSubscription,
+        plan: "starter",
+      } as any);
 
       const token = app.jwt.sign({
         sub: mockUserId,
@@ -292,30 +401,43 @@ describe("Instance Routes", () => {
       });
 
       const response = await app.inject({
-        method: "GET",
-        url: "/instances/nonexistent",
+        method: "POST",
+        url: "/instances",
         headers: { authorization: `Bearer ${token}` },
+        payload: { name: "My Instance", telegramBotToken: "123456:ABC", region: "syd" },
       });
 
-      expect(response.statusCode).toBe(404);
+      expect(response.statusCode).toBe(403);
+      expect(JSON.parse(response.body)).toEqual({
+        error: "Region syd is not included in the starter plan. Upgrade to use it.",
+        entitlement: "regions",
+        plan: "starter",
+        allowed: ["iad", "lax", "lhr"],
+      });
+      expect(prisma.instance.create).not.toHaveBeenCalled();
     });
-  });
 
-  describe("POST /instances/:id/start", () => {
-    it("should start a stopped instance successfully", async () => {
-      const stoppedInstance = createMockInstance({ status: "STOPPED" });
-      const runningInstance = createMockInstance({ status: "RUNNING" });
+    it("should return 400 for an OpenClaw version that is not approved", async () => {
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
 
-      vi.mocked(prisma.instance.findFirst).mockResolvedValue(stoppedInstance as any);
-      vi.mocked(prisma.instance.update).mockResolvedValue(runningInstance as any);
-      vi.mocked(getProvider).mockReturnValue({
-        name: "fly",
-        createInstance: vi.fn(),
-        startInstance: vi.fn().mockResolvedValue(undefined),
-        stopInstance: vi.fn(),
-        deleteInstance: vi.fn(),
-        getInstanceStatus: vi.fn(),
-      } as any);
+      const response = await app.inject({
+        method: "POST",
+        url: "/instances",
+        headers: { authorization: `Bearer ${token}` },
+        payload: { name: "My Instance", telegramBotToken: "123456:ABC", imageVersion: "nightly" },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe("OpenClaw version nightly is not available");
+      expect(prisma.instance.create).not.toHaveBeenCalled();
+    });
+
+    it("should return 403 for pinning a version on a plan without custom images", async () => {
+      vi.mocked(findImageVersion).mockResolvedValueOnce({ version: "2026.1.0" } as any);
 
       const token = app.jwt.sign({
         sub: mockUserId,
@@ -325,18 +447,18 @@ describe("Instance Routes", () => {
 
       const response = await app.inject({
         method: "POST",
-        url: `/instances/${mockInstanceId}/start`,
+        url: "/instances",
         headers: { authorization: `Bearer ${token}` },
+        payload: { name: "My Instance", telegramBotToken: "123456:ABC", imageVersion: "2026.1.0" },
       });
 
-      expect(response.statusCode).toBe(200);
-      const body = JSON.parse(response.body);
-      expect(body.status).toBe("RUNNING");
+      expect(response.statusCode).toBe(403);
+      expect(JSON.parse(response.body)).toMatchObject({ entitlement: "customImages", plan: "pro" });
+      expect(prisma.instance.create).not.toHaveBeenCalled();
     });
 
-    it("should return 400 when instance is not stopped", async () => {
-      const runningInstance = createMockInstance({ status: "RUNNING" });
-      vi.mocked(prisma.instance.findFirst).mockResolvedValue(runningInstance as any);
+    it("should return 403 when the instance limit is reached", async () => {
+      vi.mocked(prisma.instance.count).mockResolvedValue(5);
 
       const token = app.jwt.sign({
         sub: mockUserId,
@@ -346,20 +468,28 @@ describe("Instance Routes", () => {
 
       const response = await app.inject({
         method: "POST",
-        url: `/instances/${mockInstanceId}/start`,
+        url: "/instances",
         headers: { authorization: `Bearer ${token}` },
+        payload: { name: "My Instance", telegramBotToken: "123456:ABC", region: "iad" },
       });
 
-      expect(response.statusCode).toBe(400);
+      expect(response.statusCode).toBe(403);
+      expect(JSON.parse(response.body)).toMatchObject({
+        entitlement: "maxInstances",
+        plan: "pro",
+        limit: 5,
+      });
     });
 
-    it("should return 400 when machine ID is missing", async () => {
-      const instanceNoMachine = createMockInstance({
-        status: "STOPPED",
-        flyMachineId: null,
-        flyAppName: null,
-      });
-      vi.mocked(prisma.instance.findFirst).mockResolvedValue(instanceNoMachine as any);
+    it("should create an instance on the user's own AI key", async () => {
+      vi.mocked(prisma.aiProviderKey.findUnique).mockResolvedValue({ apiKey: "sk-own" } as any);
+      vi.mocked(prisma.instance.create).mockResolvedValue(
+        createMockInstance({
+          status: "CREATING",
+          aiModel: "gpt-4o-mini",
+          aiKeySource: "own",
+        }) as any
+      );
 
       const token = app.jwt.sign({
         sub: mockUserId,
@@ -369,29 +499,29 @@ describe("Instance Routes", () => {
 
       const response = await app.inject({
         method: "POST",
-        url: `/instances/${mockInstanceId}/start`,
+        url: "/instances",
         headers: { authorization: `Bearer ${token}` },
+        payload: {
+          name: "My Instance",
+          telegramBotToken: "123456:ABC",
+          aiModel: "gpt-4o-mini",
+          aiKeySource: "own",
+        },
       });
 
-      expect(response.statusCode).toBe(400);
+      expect(response.statusCode).toBe(201);
+      expect(JSON.parse(response.body).aiKeySource).toBe("own");
+      expect(prisma.aiProviderKey.findUnique).toHaveBeenCalledWith({
+        where: { userId_provider: { userId: mockUserId, provider: "openai" } },
+        select: { apiKey: true },
+      });
+      expect(prisma.instance.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ aiKeySource: "own" }) })
+      );
     });
-  });
-
-  describe("POST /instances/:id/stop", () => {
-    it("should stop a running instance successfully", async () => {
-      const runningInstance = createMockInstance({ status: "RUNNING" });
-      const stoppedInstance = createMockInstance({ status: "STOPPED" });
 
-      vi.mocked(prisma.instance.findFirst).mockResolvedValue(runningInstance as any);
-      vi.mocked(prisma.instance.update).mockResolvedValue(stoppedInstance as any);
-      vi.mocked(getProvider).mockReturnValue({
-        name: "fly",
-        createInstance: vi.fn(),
-        startInstance: vi.fn(),
-        stopInstance: vi.fn().mockResolvedValue(undefined),
-        deleteInstance: vi.fn(),
-        getInstanceStatus: vi.fn(),
-      } as any);
+    it("should return 400 when using an own key that is not saved", async () => {
+      vi.mocked(prisma.aiProviderKey.findUnique).mockResolvedValue(null);
 
       const token = app.jwt.sign({
         sub: mockUserId,
@@ -401,18 +531,26 @@ describe("Instance Routes", () => {
 
       const response = await app.inject({
         method: "POST",
-        url: `/instances/${mockInstanceId}/stop`,
+        url: "/instances",
         headers: { authorization: `Bearer ${token}` },
+        payload: {
+          name: "My Instance",
+          telegramBotToken: "123456:ABC",
+          aiModel: "claude-sonnet-4-0",
+          aiKeySource: "own",
+        },
       });
 
-      expect(response.statusCode).toBe(200);
-      const body = JSON.parse(response.body);
-      expect(body.status).toBe("STOPPED");
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toContain("Save your Anthropic API key");
+      expect(prisma.instance.create).not.toHaveBeenCalled();
     });
 
-    it("should return 400 when instance is not running", async () => {
-      const stoppedInstance = createMockInstance({ status: "STOPPED" });
-      vi.mocked(prisma.instance.findFirst).mockResolvedValue(stoppedInstance as any);
+    it("should return 403 for the platform key on a bring-your-own-key plan", async () => {
+      vi.mocked(prisma.subscription.findFirst).mockResolvedValue({
+        ...mockSubscription,
+        byoKey: true,
+      } as any);
 
       const token = app.jwt.sign({
         sub: mockUserId,
@@ -422,31 +560,39 @@ describe("Instance Routes", () => {
 
       const response = await app.inject({
         method: "POST",
-        url: `/instances/${mockInstanceId}/stop`,
+        url: "/instances",
         headers: { authorization: `Bearer ${token}` },
+        payload: { name: "My Instance", telegramBotToken: "123456:ABC" },
       });
 
-      expect(response.statusCode).toBe(400);
+      expect(response.statusCode).toBe(403);
+      expect(JSON.parse(response.body).error).toContain("billed for your own AI keys");
+      expect(prisma.instance.create).not.toHaveBeenCalled();
+    });
+
+    it("should return 401 when not authenticated", async () => {
+      const response = await app.inject({
+        method: "POST",
+        url: "/instances",
+        payload: { name: "My Instance", telegramBotToken: "123:ABC", region: "ewr" },
+      });
+
+      expect(response.statusCode).toBe(401);
     });
   });
 
-  describe("DELETE /instances/:id", () => {
-    it("should delete an instance successfully", async () => {
-      const mockInstance = createMockInstance({ status: "STOPPED" });
+  describe("GET /instances", () => {
+    it("should list all user instances", async () => {
+      const mockInstances = [
+        createMockInstance({ id: "cjld2cyuq0002t3rmniod1fox", name: "Instance 1" }),
+        createMockInstance({
+          id: "cjld2cyuq0003t3rmniod1foy",
+          name: "Instance 2",
+          status: "STOPPED",
+        }),
+      ];
 
-      vi.mocked(prisma.instance.findFirst).mockResolvedValue(mockInstance as any);
-      vi.mocked(prisma.instance.update).mockResolvedValue({
-        ...mockInstance,
-        status: "DELETED",
-      } as any);
-      vi.mocked(getProvider).mockReturnValue({
-        name: "fly",
-        createInstance: vi.fn(),
-        startInstance: vi.fn(),
-        stopInstance: vi.fn(),
-        deleteInstance: vi.fn().mockResolvedValue(undefined),
-        getInstanceStatus: vi.fn(),
-      } as any);
+      vi.mocked(prisma.instance.findMany).mockResolvedValue(mockInstances as any);
 
       const token = app.jwt.sign({
         sub: mockUserId,
@@ -455,14 +601,1307 @@ describe("Instance Routes", () => {
       });
 
       const response = await app.inject({
-        method: "DELETE",
-        url: `/instances/${mockInstanceId}`,
+        method: "GET",
+        url: "/instances",
         headers: { authorization: `Bearer ${token}` },
       });
 
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
-      expect(body.success).toBe(true);
+      expect(body).toHaveLength(2);
+    });
+
+    it("should return 401 when not authenticated", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/instances",
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
+  describe("GET /instances/stream", () => {
+    it("should push updates for the organization's instances only", async () => {
+      await app.listen({ port: 0, host: "127.0.0.1" });
+      const { port } = app.server.address() as AddressInfo;
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const controller = new AbortController();
+      const response = await fetch(`http://127.0.0.1:${String(port)}/instances/stream`, {
+        headers: { authorization: `Bearer ${token}` },
+        signal: controller.signal,
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toBe("text/event-stream");
+
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+      // Initial comment confirms the subscription is in place
+      expect(decoder.decode((await reader.read()).value)).toContain(": connected");
+
+      publishInstanceUpdate(
+        createMockInstance({ organizationId: "cjld2cyuq0009t3rmniod1foa", name: "Not Mine" }) as any
+      );
+      publishInstanceUpdate(
+        createMockInstance({ status: "PROVISIONING", telegramBotToken: "123456:ABC-secret" }) as any
+      );
+
+      const chunk = decoder.decode((await reader.read()).value);
+      expect(chunk).toContain("event: instance");
+      expect(chunk).toContain('"status":"PROVISIONING"');
+      expect(chunk).not.toContain("Not Mine");
+      expect(chunk).not.toContain("ABC-secret");
+
+      controller.abort();
+    });
+
+    it("should return 401 when not authenticated", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/instances/stream",
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
+  describe("GET /instances/:id", () => {
+    it("should return instance by ID", async () => {
+      const mockInstance = createMockInstance();
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(mockInstance as any);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "GET",
+        url: `/instances/${mockInstanceId}`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.id).toBe(mockInstanceId);
+      expect(prisma.instance.findFirst).toHaveBeenCalledWith({
+        where: { id: mockInstanceId, organizationId: mockOrganizationId },
+      });
+    });
+
+    it("should leave out the legacy Telegram token", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(
+        createMockInstance({ telegramBotToken: "123456:ABC-secret" }) as any
+      );
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "GET",
+        url: `/instances/${mockInstanceId}`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).not.toHaveProperty("telegramBotToken");
+    });
+
+    it("should let viewers read instances created by other members", async () => {
+      role = "viewer";
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(
+        createMockInstance({ userId: "cjld2cyuq0009t3rmniod1foa" }) as any
+      );
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "GET",
+        url: `/instances/${mockInstanceId}`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).organizationId).toBe(mockOrganizationId);
+    });
+
+    it("should return 404 when instance not found", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(null);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/instances/nonexistent",
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe("PATCH /instances/:id", () => {
+    it("should merge a Telegram access update into the stored policy", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(
+        createMockInstance({ status: "STOPPED", telegramAllowFrom: ["123456789"] }) as any
+      );
+      vi.mocked(prisma.instance.update).mockResolvedValue(
+        createMockInstance({
+          status: "STOPPED",
+          telegramDmPolicy: "allowlist",
+          telegramAllowFrom: ["123456789"],
+        }) as any
+      );
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "PATCH",
+        url: `/instances/${mockInstanceId}`,
+        headers: { authorization: `Bearer ${token}` },
+        payload: { telegramAccess: { dmPolicy: "allowlist" } },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(prisma.instance.update).toHaveBeenCalledWith({
+        where: { id: mockInstanceId },
+        data: {
+          telegramDmPolicy: "allowlist",
+          telegramAllowFrom: ["123456789"],
+          telegramGroupPolicy: "allowlist",
+        },
+      });
+      expect(JSON.parse(response.body).telegramAccess).toEqual({
+        dmPolicy: "allowlist",
+        allowFrom: ["123456789"],
+        groupPolicy: "allowlist",
+      });
+    });
+
+    it("should return 400 for an allowlist without users", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(
+        createMockInstance({ status: "STOPPED" }) as any
+      );
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "PATCH",
+        url: `/instances/${mockInstanceId}`,
+        headers: { authorization: `Bearer ${token}` },
+        payload: { telegramAccess: { dmPolicy: "allowlist" } },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe(
+        "Add at least one Telegram user to the allowlist"
+      );
+      expect(prisma.instance.update).not.toHaveBeenCalled();
+    });
+
+    it("should rename a running instance without restarting it", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(createMockInstance() as any);
+      vi.mocked(prisma.instance.update).mockResolvedValue(
+        createMockInstance({ name: "Renamed" }) as any
+      );
+      vi.mocked(getProviderByType).mockReturnValue({ name: "fly" } as any);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "PATCH",
+        url: `/instances/${mockInstanceId}`,
+        headers: { authorization: `Bearer ${token}` },
+        payload: { name: "Renamed" },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).status).toBe("RUNNING");
+      expect(prisma.instance.update).toHaveBeenCalledWith({
+        where: { id: mockInstanceId },
+        data: { name: "Renamed" },
+      });
+    });
+
+    it("should queue a config reload for an access change on a running instance", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(createMockInstance() as any);
+      vi.mocked(prisma.instance.update).mockResolvedValue(createMockInstance() as any);
+      vi.mocked(getProviderByType).mockReturnValue({ name: "docker", applyConfig: vi.fn() } as any);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "PATCH",
+        url: `/instances/${mockInstanceId}`,
+        headers: { authorization: `Bearer ${token}` },
+        payload: { telegramAccess: { groupPolicy: "open" } },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(prisma.instance.update).toHaveBeenCalledWith({
+        where: { id: mockInstanceId },
+        data: {
+          telegramDmPolicy: "pairing",
+          telegramAllowFrom: [],
+          telegramGroupPolicy: "open",
+          jobs: { create: { type: "RECONFIGURE" } },
+        },
+      });
+    });
+
+    it("should restart a running instance for a new bot token", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(createMockInstance() as any);
+      vi.mocked(prisma.instance.update).mockResolvedValue({
+        ...createMockInstance({ status: "STOPPING" }),
+        events: [],
+      } as any);
+      vi.mocked(getProviderByType).mockReturnValue({ name: "fly" } as any);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "PATCH",
+        url: `/instances/${mockInstanceId}`,
+        headers: { authorization: `Bearer ${token}` },
+        payload: { telegramBotToken: "123456:ABC-new" },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).status).toBe("STOPPING");
+      expect(prisma.instanceChannel.upsert).toHaveBeenCalled();
+      expect(prisma.instance.update).toHaveBeenCalledWith({
+        where: { id: mockInstanceId, status: "RUNNING" },
+        data: {
+          status: "STOPPING",
+          jobs: { create: { type: "RESTART" } },
+          events: {
+            create: expect.objectContaining({
+              type: "STATUS_CHANGE",
+              fromStatus: "RUNNING",
+              toStatus: "STOPPING",
+              message: "Restarting to apply telegramBotToken",
+            }),
+          },
+        },
+        include: { events: { orderBy: { createdAt: "desc" }, take: 1 } },
+      });
+    });
+
+    it("should return 400 for a region change", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(
+        createMockInstance({ status: "STOPPED" }) as any
+      );
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "PATCH",
+        url: `/instances/${mockInstanceId}`,
+        headers: { authorization: `Bearer ${token}` },
+        payload: { name: "Renamed", region: "lhr" },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe("Cannot change region of an existing instance");
+      expect(prisma.instance.update).not.toHaveBeenCalled();
+    });
+
+    it("should return 400 while the instance is starting", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(
+        createMockInstance({ status: "STARTING" }) as any
+      );
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "PATCH",
+        url: `/instances/${mockInstanceId}`,
+        headers: { authorization: `Bearer ${token}` },
+        payload: { name: "Renamed" },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(prisma.instance.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("GET /instances/:id/jobs", () => {
+    it("should list jobs for the instance", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue({ id: mockInstanceId } as any);
+      vi.mocked(prisma.instanceJob.findMany).mockResolvedValue([
+        {
+          id: "cjld2cyuq0004t3rmniod1fow",
+          instanceId: mockInstanceId,
+          type: "CREATE",
+          status: "FAILED",
+          attempts: 3,
+          maxAttempts: 3,
+          lastError: "Fly.io rate limit exceeded. Please try again in a moment.",
+          runAt: new Date("2024-01-01T00:00:00Z"),
+          lockedAt: null,
+          lockedBy: null,
+          completedAt: new Date("2024-01-01T00:05:00Z"),
+          createdAt: new Date("2024-01-01T00:00:00Z"),
+          updatedAt: new Date("2024-01-01T00:05:00Z"),
+        },
+      ] as any);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "GET",
+        url: `/instances/${mockInstanceId}/jobs`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body).toHaveLength(1);
+      expect(body[0].status).toBe("FAILED");
+      expect(body[0].completedAt).toBe("2024-01-01T00:05:00.000Z");
+      expect(body[0]).not.toHaveProperty("lockedBy");
+    });
+
+    it("should return 404 when instance not found", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(null);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "GET",
+        url: `/instances/${mockInstanceId}/jobs`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(404);
+      expect(prisma.instanceJob.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("GET /instances/:id/events", () => {
+    it("should return a page of events with pagination meta", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue({ id: mockInstanceId } as any);
+      vi.mocked(prisma.instanceEvent.findMany).mockResolvedValue([
+        {
+          id: "cjld2cyuq0005t3rmniod1fov",
+          instanceId: mockInstanceId,
+          type: "STATUS_CHANGE",
+          actor: "SYSTEM",
+          actorId: null,
+          fromStatus: "PROVISIONING",
+          toStatus: "FAILED",
+          message: 'Missing API key for provider "openai"',
+          createdAt: new Date("2024-01-01T00:05:00Z"),
+        },
+      ] as any);
+      vi.mocked(prisma.instanceEvent.count).mockResolvedValue(21);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "GET",
+        url: `/instances/${mockInstanceId}/events?page=2&limit=20`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.events).toHaveLength(1);
+      expect(body.events[0].toStatus).toBe("FAILED");
+      expect(body.pagination).toEqual({ page: 2, limit: 20, total: 21, totalPages: 2 });
+      expect(prisma.instanceEvent.findMany).toHaveBeenCalledWith({
+        where: { instanceId: mockInstanceId },
+        orderBy: { createdAt: "desc" },
+        skip: 20,
+        take: 20,
+      });
+    });
+
+    it("should reject a limit above the maximum", async () => {
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "GET",
+        url: `/instances/${mockInstanceId}/events?limit=500`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it("should return 404 when instance not found", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(null);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "GET",
+        url: `/instances/${mockInstanceId}/events`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe("GET /instances/:id/logs", () => {
+    const logEntry = {
+      timestamp: new Date("2024-01-01T00:00:00Z"),
+      level: "error" as const,
+      message: "Telegram polling failed: 401 Unauthorized",
+    };
+
+    it("should return the most recent log lines", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2024-01-02T00:00:00Z"));
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(createMockInstance() as any);
+      const getLogs = vi.fn(async function* () {
+        yield logEntry;
+      });
+      vi.mocked(getProviderByType).mockReturnValue({
+        capabilities: { logs: true },
+        getLogs,
+      } as any);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "GET",
+        url: `/instances/${mockInstanceId}/logs?tail=50&since=2023-12-31T00:00:00.000Z`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual({
+        logs: [
+          {
+            timestamp: "2024-01-01T00:00:00.000Z",
+            level: "error",
+            message: "Telegram polling failed: 401 Unauthorized",
+          },
+        ],
+      });
+      expect(getLogs).toHaveBeenCalledWith(
+        { resourceId: "machine-123", meta: { appName: "openclaw-app" } },
+        { since: new Date("2023-12-31T00:00:00.000Z"), tail: 50 }
+      );
+    });
+
+    it("should not read logs older than the plan's retention", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2024-01-02T00:00:00Z"));
+      vi.mocked(prisma.subscription.findFirst).mockResolvedValue({
+        plan: "starter",
+        instanceLimit: 2,
+      } as any);
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(createMockInstance() as any);
+      const getLogs = vi.fn(async function* () {
+        yield logEntry;
+      });
+      vi.mocked(getProviderByType).mockReturnValue({
+        capabilities: { logs: true },
+        getLogs,
+      } as any);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "GET",
+        url: `/instances/${mockInstanceId}/logs?since=2023-12-01T00:00:00.000Z`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(getLogs).toHaveBeenCalledWith(expect.anything(), {
+        since: new Date("2024-01-01T00:00:00.000Z"),
+        tail: 100,
+      });
+    });
+
+    it("should return 400 when the instance has not been deployed", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(
+        createMockInstance({
+          status: "CREATING",
+          providerResourceId: null,
+          providerMeta: null,
+        }) as any
+      );
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "GET",
+        url: `/instances/${mockInstanceId}/logs`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe("Instance has not been deployed yet");
+    });
+
+    it("should return 400 when the provider does not support logs", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(createMockInstance() as any);
+      vi.mocked(getProviderByType).mockReturnValue({
+        displayName: "Fly.io",
+        capabilities: { logs: false },
+      } as any);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "GET",
+        url: `/instances/${mockInstanceId}/logs`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe("Fly.io instances do not support logs");
+    });
+
+    it("should return 400 when the provider fails", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(createMockInstance() as any);
+      vi.mocked(getProviderByType).mockReturnValue({
+        capabilities: { logs: true },
+        // eslint-disable-next-line require-yield
+        getLogs: async function* () {
+          throw new Error("Fly.io getAppLogs failed (404): app not found");
+        },
+      } as any);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "GET",
+        url: `/instances/${mockInstanceId}/logs`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toContain("app not found");
+    });
+
+    it("should stream new lines with follow=true until the stream closes", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(createMockInstance() as any);
+      let providerSignal: AbortSignal | undefined;
+      vi.mocked(getProviderByType).mockReturnValue({
+        capabilities: { logs: true },
+        getLogs: async function* (_data: unknown, options: { signal?: AbortSignal }) {
+          providerSignal = options.signal;
+          yield logEntry;
+          await new Promise((resolve) => options.signal?.addEventListener("abort", resolve));
+        },
+      } as any);
+
+      await app.listen({ port: 0, host: "127.0.0.1" });
+      const { port } = app.server.address() as AddressInfo;
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await fetch(
+        `http://127.0.0.1:${String(port)}/instances/${mockInstanceId}/logs?follow=true`,
+        { headers: { authorization: `Bearer ${token}` } }
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toBe("text/event-stream");
+
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+      let received = "";
+      while (!received.includes("event: log")) {
+        received += decoder.decode((await reader.read()).value);
+      }
+      expect(received).toContain("Telegram polling failed");
+
+      // Closing the stream stops reading from the provider
+      await app.close();
+      expect(providerSignal?.aborted).toBe(true);
+    });
+
+    it("should return 404 when instance not found", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(null);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "GET",
+        url: `/instances/${mockInstanceId}/logs`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe("GET /instances/:id/volume", () => {
+    it("should return the volume's size and usage", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(createMockInstance() as any);
+      const getVolumeUsage = vi.fn().mockResolvedValue(1048576);
+      vi.mocked(getProviderByType).mockReturnValue({
+        capabilities: { volumes: true },
+        getVolumeUsage,
+      } as any);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "GET",
+        url: `/instances/${mockInstanceId}/volume`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual({
+        sizeGb: 5,
+        usedBytes: 1048576,
+        mountPath: "/data",
+      });
+      expect(getVolumeUsage).toHaveBeenCalledWith({
+        resourceId: "machine-123",
+        meta: { appName: "openclaw-app" },
+      });
+    });
+
+    it("should still return the size when usage cannot be read", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(createMockInstance() as any);
+      vi.mocked(getProviderByType).mockReturnValue({
+        capabilities: { volumes: true },
+        getVolumeUsage: vi.fn().mockRejectedValue(new Error("Fly.io getVolume failed (503)")),
+      } as any);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "GET",
+        url: `/instances/${mockInstanceId}/volume`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toMatchObject({ sizeGb: 5, usedBytes: null });
+    });
+
+    it("should return 404 for instances created before volumes", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(
+        createMockInstance({ volumeSizeGb: null }) as any
+      );
+      vi.mocked(getProviderByType).mockReturnValue({ capabilities: { volumes: true } } as any);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "GET",
+        url: `/instances/${mockInstanceId}/volume`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(404);
+      expect(JSON.parse(response.body).error).toBe("Instance has no volume");
+    });
+  });
+
+  describe("POST /instances/:id/start", () => {
+    it("should queue a start job for a stopped instance", async () => {
+      const stoppedInstance = createMockInstance({ status: "STOPPED" });
+      const startingInstance = createMockInstance({ status: "STARTING" });
+
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(stoppedInstance as any);
+      vi.mocked(prisma.instance.update).mockResolvedValue({
+        ...startingInstance,
+        events: [],
+      } as any);
+      vi.mocked(getProvider).mockReturnValue({
+        name: "fly",
+        createInstance: vi.fn(),
+        startInstance: vi.fn().mockResolvedValue(undefined),
+        stopInstance: vi.fn(),
+        deleteInstance: vi.fn(),
+        getInstanceStatus: vi.fn(),
+      } as any);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "POST",
+        url: `/instances/${mockInstanceId}/start`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.status).toBe("STARTING");
+      expect(prisma.instance.update).toHaveBeenCalledWith({
+        where: { id: mockInstanceId, status: "STOPPED" },
+        data: {
+          status: "STARTING",
+          jobs: { create: { type: "START" } },
+          events: {
+            create: expect.objectContaining({
+              type: "STATUS_CHANGE",
+              actor: "USER",
+              actorId: mockUserId,
+              fromStatus: "STOPPED",
+              toStatus: "STARTING",
+            }),
+          },
+        },
+        include: { events: { orderBy: { createdAt: "desc" }, take: 1 } },
+      });
+    });
+
+    it("should return 400 when instance is not stopped", async () => {
+      const runningInstance = createMockInstance({ status: "RUNNING" });
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(runningInstance as any);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "POST",
+        url: `/instances/${mockInstanceId}/start`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it("should return 400 when machine ID is missing", async () => {
+      const instanceNoMachine = createMockInstance({
+        status: "STOPPED",
+        providerResourceId: null,
+        providerMeta: null,
+      });
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(instanceNoMachine as any);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "POST",
+        url: `/instances/${mockInstanceId}/start`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe("POST /instances/:id/stop", () => {
+    it("should return 403 for viewers", async () => {
+      role = "viewer";
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "POST",
+        url: `/instances/${mockInstanceId}/stop`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(JSON.parse(response.body).error).toBe("This requires the operator role or higher");
+      expect(prisma.instance.findFirst).not.toHaveBeenCalled();
+    });
+
+    it("should queue a stop job for a running instance", async () => {
+      const runningInstance = createMockInstance({ status: "RUNNING" });
+      const stoppingInstance = createMockInstance({ status: "STOPPING" });
+
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(runningInstance as any);
+      vi.mocked(prisma.instance.update).mockResolvedValue({
+        ...stoppingInstance,
+        events: [],
+      } as any);
+      vi.mocked(getProvider).mockReturnValue({
+        name: "fly",
+        createInstance: vi.fn(),
+        startInstance: vi.fn(),
+        stopInstance: vi.fn().mockResolvedValue(undefined),
+        deleteInstance: vi.fn(),
+        getInstanceStatus: vi.fn(),
+      } as any);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "POST",
+        url: `/instances/${mockInstanceId}/stop`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.status).toBe("STOPPING");
+      expect(prisma.instance.update).toHaveBeenCalledWith({
+        where: { id: mockInstanceId, status: "RUNNING" },
+        data: {
+          status: "STOPPING",
+          jobs: { create: { type: "STOP" } },
+          events: {
+            create: expect.objectContaining({
+              type: "STATUS_CHANGE",
+              actor: "USER",
+              actorId: mockUserId,
+              fromStatus: "RUNNING",
+              toStatus: "STOPPING",
+            }),
+          },
+        },
+        include: { events: { orderBy: { createdAt: "desc" }, take: 1 } },
+      });
+    });
+
+    it("should return 400 when instance is not running", async () => {
+      const stoppedInstance = createMockInstance({ status: "STOPPED" });
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(stoppedInstance as any);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "POST",
+        url: `/instances/${mockInstanceId}/stop`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe("POST /instances/:id/restart", () => {
+    it("should queue an in-place restart where the provider supports it", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(createMockInstance() as any);
+      vi.mocked(prisma.instance.update).mockResolvedValue({
+        ...createMockInstance({ status: "STARTING" }),
+        events: [],
+      } as any);
+      vi.mocked(getProviderByType).mockReturnValue({
+        name: "fly",
+        restartInstance: vi.fn(),
+      } as any);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "POST",
+        url: `/instances/${mockInstanceId}/restart`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).status).toBe("STARTING");
+      expect(prisma.instance.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: mockInstanceId, status: "RUNNING" },
+          data: expect.objectContaining({
+            status: "STARTING",
+            jobs: { create: { type: "RESTART" } },
+          }),
+        })
+      );
+    });
+
+    it("should stop and start instances on other providers", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(createMockInstance() as any);
+      vi.mocked(prisma.instance.update).mockResolvedValue({
+        ...createMockInstance({ status: "STOPPING" }),
+        events: [],
+      } as any);
+      vi.mocked(getProviderByType).mockReturnValue({ name: "kubernetes" } as any);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "POST",
+        url: `/instances/${mockInstanceId}/restart`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(prisma.instance.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: "STOPPING",
+            jobs: { create: { type: "RESTART" } },
+          }),
+        })
+      );
+    });
+
+    it("should return 400 when instance is not running", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(
+        createMockInstance({ status: "STOPPED" }) as any
+      );
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "POST",
+        url: `/instances/${mockInstanceId}/restart`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(prisma.instance.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /instances/:id/redeploy", () => {
+    it("should queue a redeploy for a stopped instance", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(
+        createMockInstance({ status: "STOPPED" }) as any
+      );
+      vi.mocked(prisma.instance.update).mockResolvedValue({
+        ...createMockInstance({ status: "PROVISIONING" }),
+        events: [],
+      } as any);
+      vi.mocked(getProviderByType).mockReturnValue({
+        name: "fly",
+        displayName: "Fly.io",
+        capabilities: { redeploy: true },
+      } as any);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "POST",
+        url: `/instances/${mockInstanceId}/redeploy`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).status).toBe("PROVISIONING");
+      expect(prisma.instance.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: mockInstanceId, status: "STOPPED" },
+          data: expect.objectContaining({
+            status: "PROVISIONING",
+            jobs: { create: { type: "REDEPLOY" } },
+          }),
+        })
+      );
+    });
+
+    it("should return 400 when the provider cannot redeploy", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(createMockInstance() as any);
+      vi.mocked(getProviderByType).mockReturnValue({
+        name: "kubernetes",
+        displayName: "Kubernetes",
+        capabilities: { redeploy: false },
+      } as any);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "POST",
+        url: `/instances/${mockInstanceId}/redeploy`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe(
+        "Kubernetes does not support redeploying instances"
+      );
+      expect(prisma.instance.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /instances/:id/retry", () => {
+    it("should return 403 when the plan no longer covers the instance", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(
+        createMockInstance({
+          status: "FAILED",
+          telegramBotToken: "123456:ABC",
+          aiModel: "claude-opus-4-0",
+          region: "iad",
+        }) as any
+      );
+      vi.mocked(prisma.subscription.findFirst).mockResolvedValue({
+        ...mockSubscription,
+        plan: "starter",
+      } as any);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "POST",
+        url: `/instances/${mockInstanceId}/retry`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(JSON.parse(response.body).entitlement).toBe("models");
+      expect(prisma.instance.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("DELETE /instances/:id", () => {
+    it("should return 403 for operators", async () => {
+      role = "operator";
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "DELETE",
+        url: `/instances/${mockInstanceId}`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(prisma.instance.update).not.toHaveBeenCalled();
+    });
+
+    it("should mark the instance deleting and queue a delete job", async () => {
+      const mockInstance = createMockInstance({ status: "STOPPED" });
+
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(mockInstance as any);
+      vi.mocked(prisma.instance.update).mockResolvedValue({
+        ...mockInstance,
+        status: "DELETING",
+        events: [],
+      } as any);
+      vi.mocked(getProvider).mockReturnValue({
+        name: "fly",
+        createInstance: vi.fn(),
+        startInstance: vi.fn(),
+        stopInstance: vi.fn(),
+        deleteInstance: vi.fn().mockResolvedValue(undefined),
+        getInstanceStatus: vi.fn(),
+      } as any);
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "DELETE",
+        url: `/instances/${mockInstanceId}`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.success).toBe(true);
+      expect(cancelPendingJobs).toHaveBeenCalledWith(mockInstanceId);
+      expect(prisma.instance.update).toHaveBeenCalledWith({
+        where: { id: mockInstanceId, status: "STOPPED" },
+        data: {
+          status: "DELETING",
+          jobs: { create: { type: "DELETE" } },
+          events: {
+            create: expect.objectContaining({
+              type: "STATUS_CHANGE",
+              actor: "USER",
+              actorId: mockUserId,
+              fromStatus: "STOPPED",
+              toStatus: "DELETING",
+            }),
+          },
+        },
+        include: { events: { orderBy: { createdAt: "desc" }, take: 1 } },
+      });
+    });
+
+    it("should return 400 when instance is already being deleted", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(
+        createMockInstance({ status: "DELETING" }) as any
+      );
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "DELETE",
+        url: `/instances/${mockInstanceId}`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe("Instance is already being deleted");
+      expect(cancelPendingJobs).not.toHaveBeenCalled();
+      expect(prisma.instance.update).not.toHaveBeenCalled();
+    });
+
+    it("should return 400 when instance is already deleted", async () => {
+      vi.mocked(prisma.instance.findFirst).mockResolvedValue(
+        createMockInstance({ status: "DELETED" }) as any
+      );
+
+      const token = app.jwt.sign({
+        sub: mockUserId,
+        email: "test@example.com",
+        name: "Test User",
+      });
+
+      const response = await app.inject({
+        method: "DELETE",
+        url: `/instances/${mockInstanceId}`,
+        headers: { authorization: `Bearer ${token}` },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(prisma.instance.update).not.toHaveBeenCalled();
     });
 
     it("should return 404 when instance not found", async () => {
@@ -1,114 +1,269 @@
-import type { FastifyInstance } from "fastify";
+import type { ServerResponse } from "http";
+import type { FastifyInstance, FastifyReply } from "fastify";
 import type { ZodTypeProvider } from "fastify-type-provider-zod";
 import { z } from "zod";
-import { prisma, maskToken } from "@fasterclaw/db";
+import { prisma, Prisma, type InstanceStatus } from "@fasterclaw/db";
 import {
-  getProvider,
   getProviderByType,
   getProviderType,
-  type ProviderType,
+  toProviderData,
+  type LogEntry,
 } from "../services/providers/index.js";
-import { FlyApiError } from "../services/fly.js";
+import { OPENCLAW_DATA_PATH } from "../services/providers/openclaw-config.js";
+import { getErrorMessage } from "../services/errors.js";
+import { getAIProviderName, getUserApiKey, toAiKeySource } from "../services/ai-keys.js";
+import { checkModel, getModel, getModelVendor } from "../services/models.js";
+import {
+  checkEntitlements,
+  getLogRetentionStart,
+  resolveEntitlements,
+} from "../services/entitlements.js";
+import {
+  checkTelegramAccess,
+  findDuplicateChannel,
+  getChannelName,
+  loadInstanceChannels,
+  toChannelRecord,
+  toTelegramAccess,
+} from "../services/channels.js";
+import { getUpdateAction, planUpdate } from "../services/instance-updates.js";
+import { findImageVersion, getDefaultImageVersion } from "../services/image-versions.js";
+import { getRestartStatus } from "../services/instance-jobs.js";
+import { publishInstanceUpdate, subscribeToOrganization } from "../services/pubsub.js";
+import { cancelPendingJobs } from "../services/jobs.js";
+import {
+  canTransition,
+  transitionInstance,
+  InvalidTransitionError,
+} from "../services/lifecycle.js";
+import {
+  buildEvent,
+  userActor,
+  SYNC_ACTOR,
+  type InstanceEventType,
+  type InstanceEventActorType,
+} from "../services/events.js";
 import {
   CreateInstanceRequestSchema,
   UpdateInstanceRequestSchema,
   InstanceSchema,
   InstanceListSchema,
+  InstanceJobListSchema,
+  InstanceEventListResponseSchema,
+  InstanceLogsQuerySchema,
+  InstanceLogListResponseSchema,
+  InstanceVolumeSchema,
+  PaginationParamsSchema,
   ApiErrorSchema,
   ApiSuccessSchema,
+  ForbiddenErrorSchema,
+  type AiKeySource,
 } from "@fasterclaw/shared";
 
 /**
- * Extract a user-friendly error message from a caught error.
- */
-function getErrorMessage(error: unknown, fallback: string): string {
-  if (error instanceof FlyApiError) {
-    if (error.status === 404) {
-      return "Machine not found on Fly.io";
-    }
-    if (error.status === 422) {
-      return `Invalid configuration: ${error.detail}`;
-    }
-    if (error.status === 429) {
-      return "Rate limited by Fly.io, please try again later";
-    }
-    return `Fly.io error: ${error.detail}`;
-  }
-  if (error instanceof Error) {
-    return error.message;
-  }
-  return fallback;
-}
-
-// Helper to determine AI provider from model name
-function getAIProvider(model: string): "openai" | "anthropic" | "google" {
-  if (model.startsWith("gpt-") || model.startsWith("o1-")) {
-    return "openai";
-  }
-  if (model.startsWith("claude-")) {
-    return "anthropic";
-  }
-  if (model.startsWith("gemini-")) {
-    return "google";
-  }
-  return "anthropic"; // default to anthropic for OpenClaw
-}
-
-// Helper to get the correct API key for the provider
-function getAPIKeyForProvider(provider: "openai" | "anthropic" | "google"): string {
-  const keys: Record<typeof provider, string | undefined> = {
-    openai: process.env.OPENAI_KEY,
-    anthropic: process.env.ANTHROPIC_API_KEY,
-    google: process.env.GEMINI_API_KEY,
-  };
-
-  const envVarNames: Record<typeof provider, string> = {
-    openai: "OPENAI_KEY",
-    anthropic: "ANTHROPIC_API_KEY",
-    google: "GEMINI_API_KEY",
-  };
-
-  const key = keys[provider];
-  if (key === undefined || key === "") {
-    throw new Error(
-      `Missing API key for provider "${provider}". Set ${envVarNames[provider]} environment variable.`
-    );
-  }
-  return key;
-}
-
-/**
- * Format an instance for API response with masked sensitive data.
- * Masks the telegramBotToken to prevent exposure in API responses.
+ * Format an instance for API response.
+ * The legacy telegramBotToken column is left out; tokens live on the
+ * instance's channels, which only ever expose them masked.
  */
 function formatInstanceResponse(instance: {
   id: string;
   userId: string;
+  organizationId: string | null;
   name: string;
   provider: string;
-  flyAppName: string | null;
-  flyMachineId: string | null;
-  dockerContainerId: string | null;
-  dockerPort: number | null;
-  status: string;
+  providerResourceId: string | null;
+  providerMeta: Prisma.JsonValue;
+  status: InstanceStatus;
   region: string;
   aiModel: string;
+  aiKeySource: string;
+  imageVersion: string;
+  volumeSizeGb: number | null;
   telegramBotToken: string | null;
+  telegramDmPolicy: string;
+  telegramAllowFrom: string[];
+  telegramGroupPolicy: string;
   ipAddress: string | null;
   createdAt: Date;
   updatedAt: Date;
 }) {
+  const {
+    telegramBotToken: _legacyToken,
+    telegramDmPolicy,
+    telegramAllowFrom,
+    telegramGroupPolicy,
+    ...fields
+  } = instance;
   return {
-    ...instance,
-    telegramBotToken: maskToken(instance.telegramBotToken),
+    ...fields,
+    providerMeta: toProviderData(instance).meta,
+    aiKeySource: toAiKeySource(instance.aiKeySource),
+    telegramAccess: toTelegramAccess({ telegramDmPolicy, telegramAllowFrom, telegramGroupPolicy }),
     createdAt: instance.createdAt.toISOString(),
     updatedAt: instance.updatedAt.toISOString(),
   };
 }
 
+/**
+ * Format a provisioning job for API response.
+ */
+function formatJobResponse(job: {
+  id: string;
+  instanceId: string;
+  type: string;
+  status: string;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  runAt: Date;
+  completedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}) {
+  return {
+    id: job.id,
+    instanceId: job.instanceId,
+    type: job.type,
+    status: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    lastError: job.lastError,
+    runAt: job.runAt.toISOString(),
+    completedAt: job.completedAt?.toISOString() ?? null,
+    createdAt: job.createdAt.toISOString(),
+    updatedAt: job.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Format an instance event for API response.
+ */
+function formatEventResponse(event: {
+  id: string;
+  instanceId: string;
+  type: string;
+  actor: string;
+  actorId: string | null;
+  fromStatus: InstanceStatus | null;
+  toStatus: InstanceStatus | null;
+  message: string | null;
+  createdAt: Date;
+}) {
+  return {
+    id: event.id,
+    instanceId: event.instanceId,
+    type: event.type as InstanceEventType,
+    actor: event.actor as InstanceEventActorType,
+    actorId: event.actorId,
+    fromStatus: event.fromStatus,
+    toStatus: event.toStatus,
+    message: event.message,
+    createdAt: event.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Format a provider log line for API response.
+ */
+function formatLogResponse(entry: LogEntry) {
+  return {
+    timestamp: entry.timestamp.toISOString(),
+    level: entry.level,
+    message: entry.message,
+  };
+}
+
+/** Comment line sent periodically so proxies don't time out idle streams. */
+const STREAM_HEARTBEAT_MS = 25_000;
+
 export function instanceRoutes(fastify: FastifyInstance): void {
   const app = fastify.withTypeProvider<ZodTypeProvider>();
 
+  // Open SSE responses, ended on shutdown so app.close() doesn't wait on them
+  const openStreams = new Set<ServerResponse>();
+  app.addHook("preClose", (done) => {
+    for (const stream of openStreams) {
+      stream.end();
+    }
+    done();
+  });
+
+  /**
+   * Take over the reply and turn it into a Server-Sent Events stream.
+   * The returned signal aborts once the client disconnects or the server shuts down.
+   */
+  function openEventStream(reply: FastifyReply): {
+    send: (event: string, data: unknown) => void;
+    signal: AbortSignal;
+  } {
+    const stream = reply.raw;
+    const closed = new AbortController();
+
+    // Keep headers already set on the reply (e.g. CORS)
+    reply.hijack();
+    for (const [name, value] of Object.entries(reply.getHeaders())) {
+      if (value !== undefined) {
+        stream.setHeader(name, value);
+      }
+    }
+    stream.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    stream.write(": connected\n\n");
+
+    const heartbeat = setInterval(() => {
+      stream.write(": ping\n\n");
+    }, STREAM_HEARTBEAT_MS);
+
+    openStreams.add(stream);
+    stream.on("close", () => {
+      clearInterval(heartbeat);
+      openStreams.delete(stream);
+      closed.abort();
+    });
+
+    return {
+      send: (event, data) => {
+        if (!stream.writableEnded) {
+          stream.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        }
+      },
+      signal: closed.signal,
+    };
+  }
+
+  /**
+   * Check that an instance may use the chosen key source: plans billed at the
+   * bring-your-own-key price must use the user's key, and a user's key must be saved.
+   * Instances run on the keys of the member who created them.
+   */
+  async function checkAiKeySource(
+    userId: string,
+    aiModel: string,
+    aiKeySource: AiKeySource,
+    subscription: { byoKey: boolean } | null
+  ): Promise<{ code: 400 | 403; error: string } | null> {
+    if (subscription?.byoKey === true && aiKeySource !== "own") {
+      return {
+        code: 403,
+        error: "Your plan is billed for your own AI keys. Use your own key for this instance.",
+      };
+    }
+    if (aiKeySource === "own") {
+      const provider = getModelVendor(aiModel);
+      if ((await getUserApiKey(userId, provider)) === null) {
+        return {
+          code: 400,
+          error: `Save your ${getAIProviderName(provider)} API key before using it for an instance`,
+        };
+      }
+    }
+    return null;
+  }
+
   // POST /instances/validate-telegram-token - Validate a Telegram bot token
   app.post(
     "/instances/validate-telegram-token",
@@ -129,7 +284,8 @@ export function instanceRoutes(fastify: FastifyInstance): void {
         },
         security: [{ bearerAuth: [] }],
       },
-      preHandler: [app.authenticate],
+      config: { scope: "instances:write", role: "admin" },
+      preHandler: [app.authenticate, app.authorize],
     },
     async (request, reply) => {
       const { token } = request.body;
@@ -177,19 +333,40 @@ export function instanceRoutes(fastify: FastifyInstance): void {
           201: InstanceSchema,
           400: ApiErrorSchema,
           401: ApiErrorSchema,
-          403: ApiErrorSchema,
+          403: ForbiddenErrorSchema,
         },
         security: [{ bearerAuth: [] }],
       },
-      preHandler: [app.authenticate],
+      config: { scope: "instances:write", role: "admin" },
+      preHandler: [app.authenticate, app.authorize],
     },
     async (request, reply) => {
       const userId = request.user.id;
-      const { name, telegramBotToken, region, aiModel } = request.body;
+      const organizationId = request.organization.id;
+      const { name, telegramBotToken, region, aiModel, aiKeySource } = request.body;
+      const channels = [
+        ...(request.body.channels ?? []),
+        ...(telegramBotToken !== undefined
+          ? [{ type: "telegram" as const, botToken: telegramBotToken }]
+          : []),
+      ];
+
+      if (channels.length === 0) {
+        return reply
+          .code(400)
+          .send({ error: "Add at least one channel (Telegram, Discord or Slack)" });
+      }
+
+      const duplicate = findDuplicateChannel(channels);
+      if (duplicate !== null) {
+        return reply
+          .code(400)
+          .send({ error: `An instance can have only one ${getChannelName(duplicate)} channel` });
+      }
 
       // Check subscription status (Priority 1: Subscription Gating)
       const subscription = await prisma.subscription.findFirst({
-        where: { userId },
+        where: { organizationId },
       });
 
       if (subscription?.status !== "ACTIVE") {
@@ -198,88 +375,83 @@ export function instanceRoutes(fastify: FastifyInstance): void {
         });
       }
 
-      // Check instance limit
+      const modelError = checkModel(aiModel);
+      if (modelError !== null) {
+        return reply.code(400).send({ error: modelError });
+      }
+
+      // Pinning a version other than the default needs an approved one
+      const defaultImageVersion = await getDefaultImageVersion();
+      const imageVersion = request.body.imageVersion ?? defaultImageVersion;
+      if (imageVersion !== defaultImageVersion && (await findImageVersion(imageVersion)) === null) {
+        return reply.code(400).send({ error: `OpenClaw version ${imageVersion} is not available` });
+      }
+
+      // Check the plan covers the instance count, model, region and version
       const instanceCount = await prisma.instance.count({
         where: {
-          userId,
+          organizationId,
           status: { notIn: ["DELETED", "FAILED"] },
         },
       });
 
-      if (subscription.instanceLimit !== -1 && instanceCount >= subscription.instanceLimit) {
-        return reply.code(403).send({
-          error: `Instance limit reached (${String(subscription.instanceLimit)}). Please upgrade your plan or delete existing instances.`,
-        });
+      const resolved = resolveEntitlements(subscription);
+      const entitlementError = checkEntitlements(resolved, {
+        aiModel,
+        region,
+        aiKeySource,
+        customImage: imageVersion !== defaultImageVersion,
+        activeInstances: instanceCount,
+      });
+      if (entitlementError !== null) {
+        return reply.code(403).send(entitlementError);
+      }
+
+      const keyError = await checkAiKeySource(userId, aiModel, aiKeySource, subscription);
+      if (keyError !== null) {
+        return reply.code(keyError.code).send({ error: keyError.error });
       }
 
       const providerType = getProviderType();
-      const provider = getProvider();
 
       try {
-        // Create instance record first
-        const instance = await prisma.instance.create({
-          data: {
-            userId,
-            name,
-            telegramBotToken,
-            provider: providerType,
-            region,
-            aiModel,
-            status: "CREATING",
-          },
-        });
-
-        // Create instance in background
-        void (async () => {
-          try {
-            // Determine AI provider and get API key
-            const aiProvider = getAIProvider(aiModel);
-            const apiKey = getAPIKeyForProvider(aiProvider);
-
-            // Transition to PROVISIONING
-            await prisma.instance.update({
-              where: { id: instance.id },
-              data: { status: "PROVISIONING" },
-            });
-
-            // Create instance using the selected provider
-            const result = await provider.createInstance({
-              name,
+        // Create the instance record together with its channels and CREATE job so
+        // provisioning is picked up by the job worker even if the API restarts right
+        // after. Channels are written on their own so their tokens get encrypted.
+        const instance = await prisma.$transaction(async (tx) => {
+          const created = await tx.instance.create({
+            data: {
               userId,
-              telegramBotToken,
-              aiProvider,
-              aiApiKey: apiKey,
-              aiModel,
+              organizationId,
+              name,
+              provider: providerType,
               region,
-            });
-
-            // Update instance with provider-specific data
-            const updateData: Record<string, unknown> = {
-              ipAddress: result.ipAddress,
-              status: "RUNNING",
-            };
-
-            if (providerType === "fly") {
-              updateData.flyMachineId = result.providerId;
-              updateData.flyAppName = result.providerAppId;
-            } else {
-              updateData.dockerContainerId = result.providerId;
-              updateData.dockerPort = result.port;
-            }
-
-            await prisma.instance.update({
-              where: { id: instance.id },
-              data: updateData,
-            });
-          } catch (error: unknown) {
-            const msg = getErrorMessage(error, "Unknown provisioning error");
-            app.log.error(error, `Failed to provision instance ${instance.id}: ${msg}`);
-            await prisma.instance.update({
-              where: { id: instance.id },
-              data: { status: "FAILED" },
-            });
-          }
-        })();
+              aiModel,
+              aiKeySource,
+              imageVersion,
+              volumeSizeGb: resolved.entitlements.volumeSizeGb,
+              status: "CREATING",
+              jobs: {
+                create: { type: "CREATE" },
+              },
+              events: {
+                create: buildEvent(
+                  { type: "STATUS_CHANGE", toStatus: "CREATING", message: "Instance created" },
+                  userActor(userId)
+                ),
+              },
+            },
+          });
+          await tx.instanceChannel.createMany({
+            data: channels.map((channel) => ({
+              instanceId: created.id,
+              ...toChannelRecord(channel),
+            })),
+          });
+          return created;
+        });
+
+        publishInstanceUpdate(instance);
 
         return await reply.code(201).send(formatInstanceResponse(instance));
       } catch (error) {
@@ -289,27 +461,29 @@ export function instanceRoutes(fastify: FastifyInstance): void {
     }
   );
 
-  // GET /instances - List user's instances
+  // GET /instances - List the organization's instances
   app.get(
     "/instances",
     {
       schema: {
         tags: ["Instances"],
-        summary: "List all instances for the authenticated user",
+        summary: "List all instances of the organization",
         response: {
           200: InstanceListSchema,
           401: ApiErrorSchema,
+          403: ApiErrorSchema,
         },
         security: [{ bearerAuth: [] }],
       },
-      preHandler: [app.authenticate],
+      config: { scope: "instances:read", role: "viewer" },
+      preHandler: [app.authenticate, app.authorize],
     },
     async (request, reply) => {
-      const userId = request.user.id;
+      const organizationId = request.organization.id;
 
       const instances = await prisma.instance.findMany({
         where: {
-          userId,
+          organizationId,
           status: { not: "DELETED" },
         },
         orderBy: { createdAt: "desc" },
@@ -319,6 +493,35 @@ export function instanceRoutes(fastify: FastifyInstance): void {
     }
   );
 
+  // GET /instances/stream - Live instance updates (Server-Sent Events)
+  app.get(
+    "/instances/stream",
+    {
+      schema: {
+        tags: ["Instances"],
+        summary: "Stream status and event updates for the organization's instances",
+        description:
+          "Server-Sent Events stream. Sends `instance` events with the updated Instance and `event` events with new InstanceEvent entries.",
+        security: [{ bearerAuth: [] }],
+      },
+      config: { scope: "instances:read", role: "viewer" },
+      preHandler: [app.authenticate, app.authorize],
+    },
+    (request, reply) => {
+      const organizationId = request.organization.id;
+      const stream = openEventStream(reply);
+
+      const unsubscribe = subscribeToOrganization(organizationId, (message) => {
+        const payload =
+          message.type === "instance"
+            ? formatInstanceResponse(message.instance)
+            : formatEventResponse(message.event);
+        stream.send(message.type, payload);
+      });
+      stream.signal.addEventListener("abort", unsubscribe);
+    }
+  );
+
   // GET /instances/:id - Get instance by ID
   app.get(
     "/instances/:id",
@@ -332,20 +535,22 @@ export function instanceRoutes(fastify: FastifyInstance): void {
         response: {
           200: InstanceSchema,
           401: ApiErrorSchema,
+          403: ApiErrorSchema,
           404: ApiErrorSchema,
         },
         security: [{ bearerAuth: [] }],
       },
-      preHandler: [app.authenticate],
+      config: { scope: "instances:read", role: "viewer" },
+      preHandler: [app.authenticate, app.authorize],
     },
     async (request, reply) => {
-      const userId = request.user.id;
+      const organizationId = request.organization.id;
       const { id } = request.params;
 
       const instance = await prisma.instance.findFirst({
         where: {
           id,
-          userId,
+          organizationId,
         },
       });
 
@@ -357,13 +562,280 @@ export function instanceRoutes(fastify: FastifyInstance): void {
     }
   );
 
-  // PATCH /instances/:id - Update an instance (must be stopped)
+  // GET /instances/:id/jobs - List provisioning jobs for an instance
+  app.get(
+    "/instances/:id/jobs",
+    {
+      schema: {
+        tags: ["Instances"],
+        summary: "List recent provisioning jobs for an instance",
+        params: z.object({
+          id: z.string(),
+        }),
+        response: {
+          200: InstanceJobListSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+          404: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      config: { scope: "instances:read", role: "viewer" },
+      preHandler: [app.authenticate, app.authorize],
+    },
+    async (request, reply) => {
+      const organizationId = request.organization.id;
+      const { id } = request.params;
+
+      const instance = await prisma.instance.findFirst({
+        where: { id, organizationId },
+        select: { id: true },
+      });
+
+      if (instance === null) {
+        return reply.code(404).send({ error: "Instance not found" });
+      }
+
+      const jobs = await prisma.instanceJob.findMany({
+        where: { instanceId: instance.id },
+        orderBy: { createdAt: "desc" },
+        take: 20,
+      });
+
+      return reply.send(jobs.map(formatJobResponse));
+    }
+  );
+
+  // GET /instances/:id/events - Instance timeline, newest first
+  app.get(
+    "/instances/:id/events",
+    {
+      schema: {
+        tags: ["Instances"],
+        summary: "List the event history of an instance",
+        params: z.object({
+          id: z.string(),
+        }),
+        querystring: PaginationParamsSchema,
+        response: {
+          200: InstanceEventListResponseSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+          404: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      config: { scope: "instances:read", role: "viewer" },
+      preHandler: [app.authenticate, app.authorize],
+    },
+    async (request, reply) => {
+      const organizationId = request.organization.id;
+      const { id } = request.params;
+      const { page, limit } = request.query;
+
+      const instance = await prisma.instance.findFirst({
+        where: { id, organizationId },
+        select: { id: true },
+      });
+
+      if (instance === null) {
+        return reply.code(404).send({ error: "Instance not found" });
+      }
+
+      const [events, total] = await Promise.all([
+        prisma.instanceEvent.findMany({
+          where: { instanceId: instance.id },
+          orderBy: { createdAt: "desc" },
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.instanceEvent.count({
+          where: { instanceId: instance.id },
+        }),
+      ]);
+
+      return reply.send({
+        events: events.map(formatEventResponse),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    }
+  );
+
+  // GET /instances/:id/logs - Recent logs, or a live tail with ?follow=true
+  app.get(
+    "/instances/:id/logs",
+    {
+      schema: {
+        tags: ["Instances"],
+        summary: "Get logs from an instance",
+        description:
+          "Returns the most recent log lines. With `follow=true` the response is a Server-Sent Events stream of `log` events; an `error` event is sent if reading logs from the provider fails.",
+        params: z.object({
+          id: z.string(),
+        }),
+        querystring: InstanceLogsQuerySchema,
+        response: {
+          200: InstanceLogListResponseSchema,
+          400: ApiErrorSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+          404: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      config: { scope: "instances:read", role: "viewer" },
+      preHandler: [app.authenticate, app.authorize],
+    },
+    async (request, reply) => {
+      const organizationId = request.organization.id;
+      const { id } = request.params;
+      const { since, tail, follow } = request.query;
+
+      const instance = await prisma.instance.findFirst({
+        where: { id, organizationId },
+      });
+
+      if (instance === null) {
+        return reply.code(404).send({ error: "Instance not found" });
+      }
+
+      if (instance.providerResourceId === null) {
+        return reply.code(400).send({ error: "Instance has not been deployed yet" });
+      }
+
+      const provider = getProviderByType(instance.provider);
+      const getLogs = provider.capabilities.logs ? provider.getLogs?.bind(provider) : undefined;
+      if (getLogs === undefined) {
+        return reply
+          .code(400)
+          .send({ error: `${provider.displayName} instances do not support logs` });
+      }
+      const data = toProviderData(instance);
+
+      // Logs older than the plan's retention are not served
+      const subscription = await prisma.subscription.findFirst({
+        where: { organizationId },
+        select: { plan: true, instanceLimit: true },
+      });
+      const retentionStart = getLogRetentionStart(resolveEntitlements(subscription).entitlements);
+      const requestedSince = since !== undefined ? new Date(since) : undefined;
+      const options = {
+        since:
+          requestedSince !== undefined && requestedSince > retentionStart
+            ? requestedSince
+            : retentionStart,
+        tail,
+      };
+
+      if (!follow) {
+        try {
+          const logs = [];
+          for await (const entry of getLogs(data, options)) {
+            logs.push(formatLogResponse(entry));
+          }
+          return await reply.send({ logs });
+        } catch (error) {
+          app.log.error(error, `Failed to read logs for instance ${id}`);
+          return reply
+            .code(400)
+            .send({ error: getErrorMessage(error, "Failed to read instance logs") });
+        }
+      }
+
+      const stream = openEventStream(reply);
+      try {
+        for await (const entry of getLogs(data, {
+          ...options,
+          follow: true,
+          signal: stream.signal,
+        })) {
+          stream.send("log", formatLogResponse(entry));
+        }
+      } catch (error) {
+        if (!stream.signal.aborted) {
+          app.log.error(error, `Failed to stream logs for instance ${id}`);
+          stream.send("error", { error: getErrorMessage(error, "Failed to read instance logs") });
+        }
+      }
+      reply.raw.end();
+      return reply;
+    }
+  );
+
+  // GET /instances/:id/volume - Size and usage of the instance's persistent volume
+  app.get(
+    "/instances/:id/volume",
+    {
+      schema: {
+        tags: ["Instances"],
+        summary: "Get an instance's volume",
+        description:
+          "Size and usage of the volume holding the instance's memory and workspace. `usedBytes` is null when the provider cannot report it, e.g. a stopped Docker container.",
+        params: z.object({
+          id: z.string(),
+        }),
+        response: {
+          200: InstanceVolumeSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+          404: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      config: { scope: "instances:read", role: "viewer" },
+      preHandler: [app.authenticate, app.authorize],
+    },
+    async (request, reply) => {
+      const organizationId = request.organization.id;
+      const { id } = request.params;
+
+      const instance = await prisma.instance.findFirst({
+        where: { id, organizationId },
+      });
+
+      if (instance === null) {
+        return reply.code(404).send({ error: "Instance not found" });
+      }
+
+      const provider = getProviderByType(instance.provider);
+      if (instance.volumeSizeGb === null || !provider.capabilities.volumes) {
+        return reply.code(404).send({ error: "Instance has no volume" });
+      }
+
+      let usedBytes: number | null = null;
+      if (instance.providerResourceId !== null && provider.getVolumeUsage !== undefined) {
+        try {
+          usedBytes = await provider.getVolumeUsage(toProviderData(instance));
+        } catch (error) {
+          // Size is still worth showing
+          app.log.warn(error, `Failed to read volume usage for instance ${id}`);
+        }
+      }
+
+      return reply.send({
+        sizeGb: instance.volumeSizeGb,
+        usedBytes,
+        mountPath: OPENCLAW_DATA_PATH,
+      });
+    }
+  );
+
+  // PATCH /instances/:id - Update an instance, restarting it if a change requires it
   app.patch(
     "/instances/:id",
     {
       schema: {
         tags: ["Instances"],
-        summary: "Update an instance (must be stopped)",
+        summary: "Update an instance",
+        description:
+          "Names and Telegram access policies apply immediately. Changing the model, API key " +
+          "source or Telegram bot token of a running instance restarts it; follow its status. " +
+          "The region cannot be changed.",
         params: z.object({
           id: z.string(),
         }),
@@ -372,21 +844,24 @@ export function instanceRoutes(fastify: FastifyInstance): void {
           200: InstanceSchema,
           400: ApiErrorSchema,
           401: ApiErrorSchema,
+          403: ForbiddenErrorSchema,
           404: ApiErrorSchema,
         },
         security: [{ bearerAuth: [] }],
       },
-      preHandler: [app.authenticate],
+      config: { scope: "instances:write", role: "admin" },
+      preHandler: [app.authenticate, app.authorize],
     },
     async (request, reply) => {
       const userId = request.user.id;
+      const organizationId = request.organization.id;
       const { id } = request.params;
       const updates = request.body;
 
       const instance = await prisma.instance.findFirst({
         where: {
           id,
-          userId,
+          organizationId,
         },
       });
 
@@ -394,17 +869,120 @@ export function instanceRoutes(fastify: FastifyInstance): void {
         return reply.code(404).send({ error: "Instance not found" });
       }
 
-      // Only allow updates when instance is stopped
-      if (instance.status !== "STOPPED") {
+      const plan = planUpdate(instance, updates);
+      if (plan.immutable.length > 0) {
+        return reply.code(400).send({
+          error: `Cannot change ${plan.immutable.join(", ")} of an existing instance`,
+        });
+      }
+
+      // Stopped instances take every change on their next start; running ones
+      // apply it now, restarting if needed
+      if (instance.status !== "STOPPED" && instance.status !== "RUNNING") {
         return reply.code(400).send({
-          error: "Instance must be stopped before updating configuration",
+          error: "Instance must be running or stopped to update its configuration",
+        });
+      }
+      const action =
+        instance.status === "RUNNING"
+          ? getUpdateAction(plan, getProviderByType(instance.provider))
+          : "save";
+
+      if (updates.aiKeySource !== undefined || updates.aiModel !== undefined) {
+        const subscription = await prisma.subscription.findFirst({
+          where: { organizationId },
+        });
+        const aiModel = updates.aiModel ?? instance.aiModel;
+
+        // A retired model the instance already runs may stay; switching to one may not
+        const modelChanged = aiModel !== instance.aiModel || getModel(aiModel) === null;
+        if (modelChanged) {
+          const modelError = checkModel(aiModel);
+          if (modelError !== null) {
+            return reply.code(400).send({ error: modelError });
+          }
+        }
+
+        const entitlementError = checkEntitlements(resolveEntitlements(subscription), {
+          aiModel: modelChanged ? aiModel : undefined,
+          aiKeySource: updates.aiKeySource,
         });
+        if (entitlementError !== null) {
+          return reply.code(403).send(entitlementError);
+        }
+
+        const keyError = await checkAiKeySource(
+          instance.userId,
+          aiModel,
+          updates.aiKeySource ?? toAiKeySource(instance.aiKeySource),
+          subscription
+        );
+        if (keyError !== null) {
+          return reply.code(keyError.code).send({ error: keyError.error });
+        }
+      }
+
+      const { telegramBotToken, telegramAccess, region: _region, ...instanceUpdates } = updates;
+
+      // Fields left out of a Telegram access update keep their current value
+      let accessUpdates = {};
+      if (telegramAccess !== undefined) {
+        const access = { ...toTelegramAccess(instance), ...telegramAccess };
+        const accessError = checkTelegramAccess(access);
+        if (accessError !== null) {
+          return reply.code(400).send({ error: accessError });
+        }
+        accessUpdates = {
+          telegramDmPolicy: access.dmPolicy,
+          telegramAllowFrom: access.allowFrom,
+          telegramGroupPolicy: access.groupPolicy,
+        };
+      }
+
+      // The Telegram token lives on the instance's Telegram channel
+      if (telegramBotToken !== undefined) {
+        await prisma.instanceChannel.upsert({
+          where: { instanceId_type: { instanceId: id, type: "telegram" } },
+          create: {
+            instanceId: id,
+            ...toChannelRecord({ type: "telegram", botToken: telegramBotToken }),
+          },
+          update: { botToken: telegramBotToken },
+        });
+      }
+
+      if (action === "restart") {
+        // The RESTART job brings the instance back to RUNNING on the new settings
+        try {
+          const restartStatus = getRestartStatus(getProviderByType(instance.provider));
+          const restartingInstance = await transitionInstance(instance, restartStatus, {
+            by: userActor(userId),
+            data: {
+              ...instanceUpdates,
+              ...accessUpdates,
+              jobs: { create: { type: "RESTART" } },
+            },
+            reason: `Restarting to apply ${plan.restart.concat(plan.live).join(", ")}`,
+          });
+          return await reply.send(formatInstanceResponse(restartingInstance));
+        } catch (error) {
+          if (error instanceof InvalidTransitionError) {
+            return reply.code(400).send({ error: error.message });
+          }
+          throw error;
+        }
       }
 
       const updatedInstance = await prisma.instance.update({
         where: { id },
-        data: updates,
+        data: {
+          ...instanceUpdates,
+          ...accessUpdates,
+          // The RECONFIGURE job hands the running instance its new config document
+          ...(action === "reload" && { jobs: { create: { type: "RECONFIGURE" } } }),
+        },
       });
+      publishInstanceUpdate(updatedInstance);
 
       return reply.send(formatInstanceResponse(updatedInstance));
     }
@@ -424,20 +1002,23 @@ export function instanceRoutes(fastify: FastifyInstance): void {
           200: InstanceSchema,
           400: ApiErrorSchema,
           401: ApiErrorSchema,
+          403: ApiErrorSchema,
           404: ApiErrorSchema,
         },
         security: [{ bearerAuth: [] }],
       },
-      preHandler: [app.authenticate],
+      config: { scope: "instances:write", role: "operator" },
+      preHandler: [app.authenticate, app.authorize],
     },
     async (request, reply) => {
       const userId = request.user.id;
+      const organizationId = request.organization.id;
       const { id } = request.params;
 
       const instance = await prisma.instance.findFirst({
         where: {
           id,
-          userId,
+          organizationId,
         },
       });
 
@@ -445,41 +1026,33 @@ export function instanceRoutes(fastify: FastifyInstance): void {
         return reply.code(404).send({ error: "Instance not found" });
       }
 
-      if (instance.status !== "STOPPED") {
+      // A running instance may also move to STARTING, but that is a restart
+      if (instance.status === "RUNNING" || !canTransition(instance.status, "STARTING")) {
         return reply.code(400).send({ error: "Instance is not stopped" });
       }
 
-      // Get provider based on instance's stored provider type
-      const provider = getProviderByType(instance.provider as ProviderType);
-
       // Check for required provider data
-      if (instance.provider === "fly") {
-        if (instance.flyMachineId === null || instance.flyAppName === null) {
-          return reply.code(400).send({ error: "No machine ID or app name found" });
-        }
-      } else if (instance.provider === "docker") {
-        if (instance.dockerContainerId === null) {
-          return reply.code(400).send({ error: "No Docker container ID found" });
-        }
+      if (instance.providerResourceId === null) {
+        return reply.code(400).send({ error: "Instance has not been deployed yet" });
       }
 
+      // Mark as starting and queue the provider call for the job worker
       try {
-        await provider.startInstance({
-          flyMachineId: instance.flyMachineId,
-          flyAppName: instance.flyAppName,
-          dockerContainerId: instance.dockerContainerId,
-          dockerPort: instance.dockerPort,
-        });
-
-        const updatedInstance = await prisma.instance.update({
-          where: { id: instance.id },
-          data: { status: "RUNNING" },
+        const updatedInstance = await transitionInstance(instance, "STARTING", {
+          by: userActor(userId),
+          data: {
+            jobs: {
+              create: { type: "START" },
+            },
+          },
         });
 
         return await reply.send(formatInstanceResponse(updatedInstance));
       } catch (error) {
-        app.log.error(error);
-        return reply.code(400).send({ error: getErrorMessage(error, "Failed to start instance") });
+        if (error instanceof InvalidTransitionError) {
+          return reply.code(400).send({ error: error.message });
+        }
+        throw error;
       }
     }
   );
@@ -498,20 +1071,23 @@ export function instanceRoutes(fastify: FastifyInstance): void {
           200: InstanceSchema,
           400: ApiErrorSchema,
           401: ApiErrorSchema,
+          403: ApiErrorSchema,
           404: ApiErrorSchema,
         },
         security: [{ bearerAuth: [] }],
       },
-      preHandler: [app.authenticate],
+      config: { scope: "instances:write", role: "operator" },
+      preHandler: [app.authenticate, app.authorize],
     },
     async (request, reply) => {
       const userId = request.user.id;
+      const organizationId = request.organization.id;
       const { id } = request.params;
 
       const instance = await prisma.instance.findFirst({
         where: {
           id,
-          userId,
+          organizationId,
         },
       });
 
@@ -519,41 +1095,182 @@ export function instanceRoutes(fastify: FastifyInstance): void {
         return reply.code(404).send({ error: "Instance not found" });
       }
 
-      if (instance.status !== "RUNNING") {
+      if (!canTransition(instance.status, "STOPPING")) {
         return reply.code(400).send({ error: "Instance is not running" });
       }
 
-      // Get provider based on instance's stored provider type
-      const provider = getProviderByType(instance.provider as ProviderType);
-
       // Check for required provider data
-      if (instance.provider === "fly") {
-        if (instance.flyMachineId === null || instance.flyAppName === null) {
-          return reply.code(400).send({ error: "No machine ID or app name found" });
-        }
-      } else if (instance.provider === "docker") {
-        if (instance.dockerContainerId === null) {
-          return reply.code(400).send({ error: "No Docker container ID found" });
-        }
+      if (instance.providerResourceId === null) {
+        return reply.code(400).send({ error: "Instance has not been deployed yet" });
       }
 
+      // Mark as stopping and queue the provider call for the job worker
       try {
-        await provider.stopInstance({
-          flyMachineId: instance.flyMachineId,
-          flyAppName: instance.flyAppName,
-          dockerContainerId: instance.dockerContainerId,
-          dockerPort: instance.dockerPort,
+        const updatedInstance = await transitionInstance(instance, "STOPPING", {
+          by: userActor(userId),
+          data: {
+            jobs: {
+              create: { type: "STOP" },
+            },
+          },
         });
 
-        const updatedInstance = await prisma.instance.update({
-          where: { id: instance.id },
-          data: { status: "STOPPED" },
+        return await reply.send(formatInstanceResponse(updatedInstance));
+      } catch (error) {
+        if (error instanceof InvalidTransitionError) {
+          return reply.code(400).send({ error: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+
+  // POST /instances/:id/restart - Restart a running instance
+  app.post(
+    "/instances/:id/restart",
+    {
+      schema: {
+        tags: ["Instances"],
+        summary: "Restart a running instance",
+        description:
+          "Restarts the instance in place where the provider supports it, otherwise stops and " +
+          "starts it. Settings saved since it last started apply.",
+        params: z.object({
+          id: z.string(),
+        }),
+        response: {
+          200: InstanceSchema,
+          400: ApiErrorSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+          404: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      config: { scope: "instances:write", role: "operator" },
+      preHandler: [app.authenticate, app.authorize],
+    },
+    async (request, reply) => {
+      const userId = request.user.id;
+      const organizationId = request.organization.id;
+      const { id } = request.params;
+
+      const instance = await prisma.instance.findFirst({
+        where: {
+          id,
+          organizationId,
+        },
+      });
+
+      if (instance === null) {
+        return reply.code(404).send({ error: "Instance not found" });
+      }
+
+      if (instance.status !== "RUNNING") {
+        return reply.code(400).send({ error: "Instance is not running" });
+      }
+
+      // Mark as restarting and queue the provider calls for the job worker
+      try {
+        const updatedInstance = await transitionInstance(
+          instance,
+          getRestartStatus(getProviderByType(instance.provider)),
+          {
+            by: userActor(userId),
+            data: {
+              jobs: {
+                create: { type: "RESTART" },
+              },
+            },
+            reason: "Restart requested",
+          }
+        );
+
+        return await reply.send(formatInstanceResponse(updatedInstance));
+      } catch (error) {
+        if (error instanceof InvalidTransitionError) {
+          return reply.code(400).send({ error: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+
+  // POST /instances/:id/redeploy - Recreate an instance's machine or container
+  app.post(
+    "/instances/:id/redeploy",
+    {
+      schema: {
+        tags: ["Instances"],
+        summary: "Redeploy an instance",
+        description:
+          "Recreates the instance's machine or container from the current image and settings. " +
+          "The instance keeps its ID, name and credentials and is running afterwards.",
+        params: z.object({
+          id: z.string(),
+        }),
+        response: {
+          200: InstanceSchema,
+          400: ApiErrorSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+          404: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      config: { scope: "instances:write", role: "operator" },
+      preHandler: [app.authenticate, app.authorize],
+    },
+    async (request, reply) => {
+      const userId = request.user.id;
+      const organizationId = request.organization.id;
+      const { id } = request.params;
+
+      const instance = await prisma.instance.findFirst({
+        where: {
+          id,
+          organizationId,
+        },
+      });
+
+      if (instance === null) {
+        return reply.code(404).send({ error: "Instance not found" });
+      }
+
+      if (instance.status !== "RUNNING" && instance.status !== "STOPPED") {
+        return reply.code(400).send({ error: "Instance must be running or stopped to redeploy" });
+      }
+
+      // Check for required provider data
+      if (instance.providerResourceId === null) {
+        return reply.code(400).send({ error: "Instance has not been deployed yet" });
+      }
+
+      const provider = getProviderByType(instance.provider);
+      if (!provider.capabilities.redeploy) {
+        return reply
+          .code(400)
+          .send({ error: `${provider.displayName} does not support redeploying instances` });
+      }
+
+      // Mark as provisioning and queue the provider call for the job worker
+      try {
+        const updatedInstance = await transitionInstance(instance, "PROVISIONING", {
+          by: userActor(userId),
+          data: {
+            jobs: {
+              create: { type: "REDEPLOY" },
+            },
+          },
+          reason: "Redeploy requested",
         });
 
         return await reply.send(formatInstanceResponse(updatedInstance));
       } catch (error) {
-        app.log.error(error);
-        return reply.code(400).send({ error: getErrorMessage(error, "Failed to stop instance") });
+        if (error instanceof InvalidTransitionError) {
+          return reply.code(400).send({ error: error.message });
+        }
+        throw error;
       }
     }
   );
@@ -572,20 +1289,23 @@ export function instanceRoutes(fastify: FastifyInstance): void {
           200: InstanceSchema,
           400: ApiErrorSchema,
           401: ApiErrorSchema,
+          403: ForbiddenErrorSchema,
           404: ApiErrorSchema,
         },
         security: [{ bearerAuth: [] }],
       },
-      preHandler: [app.authenticate],
+      config: { scope: "instances:write", role: "operator" },
+      preHandler: [app.authenticate, app.authorize],
     },
     async (request, reply) => {
       const userId = request.user.id;
+      const organizationId = request.organization.id;
       const { id } = request.params;
 
       const instance = await prisma.instance.findFirst({
         where: {
           id,
-          userId,
+          organizationId,
         },
       });
 
@@ -593,83 +1313,72 @@ export function instanceRoutes(fastify: FastifyInstance): void {
         return reply.code(404).send({ error: "Instance not found" });
       }
 
-      if (instance.status !== "FAILED") {
+      if (!canTransition(instance.status, "CREATING")) {
         return reply.code(400).send({ error: "Only failed instances can be retried" });
       }
 
-      if (!instance.telegramBotToken) {
-        return reply.code(400).send({ error: "Instance is missing Telegram bot token" });
+      const channels = await loadInstanceChannels(instance);
+      if (channels.length === 0) {
+        return reply.code(400).send({ error: "Instance has no channels" });
       }
 
-      // Use current provider from env (allows switching providers on retry)
-      const providerType = getProviderType();
-      const provider = getProvider();
+      // The plan may have changed since the instance was created
+      const subscription = await prisma.subscription.findFirst({
+        where: { organizationId },
+      });
 
-      // Reset instance status and update provider
-      const updatedInstance = await prisma.instance.update({
-        where: { id: instance.id },
-        data: {
-          status: "CREATING",
-          provider: providerType,
-          // Clear old provider-specific data
-          flyMachineId: null,
-          flyAppName: null,
-          dockerContainerId: null,
-          dockerPort: null,
-          ipAddress: null,
+      if (subscription?.status !== "ACTIVE") {
+        return reply.code(403).send({
+          error: "Active subscription required. Please subscribe to create instances.",
+        });
+      }
+
+      const instanceCount = await prisma.instance.count({
+        where: {
+          organizationId,
+          status: { notIn: ["DELETED", "FAILED"] },
         },
       });
 
-      // Re-provision in background
-      void (async () => {
-        try {
-          const aiModel = instance.aiModel;
-          const aiProvider = getAIProvider(aiModel);
-          const apiKey = getAPIKeyForProvider(aiProvider);
-
-          await prisma.instance.update({
-            where: { id: instance.id },
-            data: { status: "PROVISIONING" },
-          });
+      const entitlementError = checkEntitlements(resolveEntitlements(subscription), {
+        aiModel: instance.aiModel,
+        region: instance.region,
+        aiKeySource: toAiKeySource(instance.aiKeySource),
+        activeInstances: instanceCount,
+      });
+      if (entitlementError !== null) {
+        return reply.code(403).send(entitlementError);
+      }
 
-          const result = await provider.createInstance({
-            name: instance.name,
-            userId,
-            telegramBotToken: instance.telegramBotToken!, // Validated above before async IIFE
-            aiProvider,
-            aiApiKey: apiKey,
-            aiModel,
-            region: instance.region,
-          });
+      // Use current provider from env (allows switching providers on retry)
+      const providerType = getProviderType();
+      const sameProvider = providerType === instance.provider;
 
-          const updateData: Record<string, unknown> = {
-            ipAddress: result.ipAddress,
-            status: "RUNNING",
-          };
-
-          if (providerType === "fly") {
-            updateData.flyMachineId = result.providerId;
-            updateData.flyAppName = result.providerAppId;
-          } else {
-            updateData.dockerContainerId = result.providerId;
-            updateData.dockerPort = result.port;
-          }
+      // Reset instance status, update provider and queue re-provisioning
+      try {
+        const updatedInstance = await transitionInstance(instance, "CREATING", {
+          by: userActor(userId),
+          reason: "Retry requested",
+          data: {
+            provider: providerType,
+            // Clear old provider-specific data. The meta stays on the same
+            // provider, so the retry can reuse the instance's volume
+            providerResourceId: null,
+            providerMeta: sameProvider ? (instance.providerMeta ?? Prisma.DbNull) : Prisma.DbNull,
+            ipAddress: null,
+            jobs: {
+              create: { type: "RETRY" },
+            },
+          },
+        });
 
-          await prisma.instance.update({
-            where: { id: instance.id },
-            data: updateData,
-          });
-        } catch (error: unknown) {
-          const msg = getErrorMessage(error, "Unknown provisioning error");
-          app.log.error(error, `Failed to retry instance ${instance.id}: ${msg}`);
-          await prisma.instance.update({
-            where: { id: instance.id },
-            data: { status: "FAILED" },
-          });
+        return await reply.send(formatInstanceResponse(updatedInstance));
+      } catch (error) {
+        if (error instanceof InvalidTransitionError) {
+          return reply.code(400).send({ error: error.message });
         }
-      })();
-
-      return await reply.send(formatInstanceResponse(updatedInstance));
+        throw error;
+      }
     }
   );
 
@@ -687,18 +1396,20 @@ export function instanceRoutes(fastify: FastifyInstance): void {
           200: InstanceSchema,
           400: ApiErrorSchema,
           401: ApiErrorSchema,
+          403: ApiErrorSchema,
           404: ApiErrorSchema,
         },
         security: [{ bearerAuth: [] }],
       },
-      preHandler: [app.authenticate],
+      config: { scope: "instances:write", role: "operator" },
+      preHandler: [app.authenticate, app.authorize],
     },
     async (request, reply) => {
-      const userId = request.user.id;
+      const organizationId = request.organization.id;
       const { id } = request.params;
 
       const instance = await prisma.instance.findFirst({
-        where: { id, userId },
+        where: { id, organizationId },
       });
 
       if (instance === null) {
@@ -706,28 +1417,21 @@ export function instanceRoutes(fastify: FastifyInstance): void {
       }
 
       // Check if we have provider data to sync
-      const hasFlyData = instance.flyAppName !== null && instance.flyMachineId !== null;
-      const hasDockerData = instance.dockerContainerId !== null;
-
-      if (!hasFlyData && !hasDockerData) {
+      if (instance.providerResourceId === null) {
         return reply.send(formatInstanceResponse(instance));
       }
 
       // Get provider based on instance's stored provider type
-      const provider = getProviderByType(instance.provider as ProviderType);
+      const provider = getProviderByType(instance.provider);
 
       try {
-        const newStatus = await provider.getInstanceStatus({
-          flyMachineId: instance.flyMachineId,
-          flyAppName: instance.flyAppName,
-          dockerContainerId: instance.dockerContainerId,
-          dockerPort: instance.dockerPort,
-        });
+        const newStatus = await provider.getInstanceStatus(toProviderData(instance));
 
-        const updatedInstance = await prisma.instance.update({
-          where: { id: instance.id },
-          data: { status: newStatus },
-        });
+        if (newStatus === instance.status) {
+          return await reply.send(formatInstanceResponse(instance));
+        }
+
+        const updatedInstance = await transitionInstance(instance, newStatus, { by: SYNC_ACTOR });
 
         return await reply.send(formatInstanceResponse(updatedInstance));
       } catch (error) {
@@ -753,20 +1457,22 @@ export function instanceRoutes(fastify: FastifyInstance): void {
           200: ApiSuccessSchema,
           400: ApiErrorSchema,
           401: ApiErrorSchema,
+          403: ApiErrorSchema,
           404: ApiErrorSchema,
         },
         security: [{ bearerAuth: [] }],
       },
-      preHandler: [app.authenticate],
+      config: { scope: "instances:write", role: "admin" },
+      preHandler: [app.authenticate, app.authorize],
     },
     async (request, reply) => {
-      const userId = request.user.id;
+      const organizationId = request.organization.id;
       const { id } = request.params;
 
       const instance = await prisma.instance.findFirst({
         where: {
           id,
-          userId,
+          organizationId,
         },
       });
 
@@ -774,28 +1480,35 @@ export function instanceRoutes(fastify: FastifyInstance): void {
         return reply.code(404).send({ error: "Instance not found" });
       }
 
-      // Get provider based on instance's stored provider type
-      const provider = getProviderByType(instance.provider as ProviderType);
-
-      try {
-        // Delete instance from provider
-        await provider.deleteInstance({
-          flyMachineId: instance.flyMachineId,
-          flyAppName: instance.flyAppName,
-          dockerContainerId: instance.dockerContainerId,
-          dockerPort: instance.dockerPort,
+      if (!canTransition(instance.status, "DELETING")) {
+        return reply.code(400).send({
+          error:
+            instance.status === "DELETING"
+              ? "Instance is already being deleted"
+              : "Instance is already deleted",
         });
+      }
+
+      // Anything still queued for this instance is moot once it is deleted
+      await cancelPendingJobs(instance.id);
 
-        // Mark instance as deleted
-        await prisma.instance.update({
-          where: { id: instance.id },
-          data: { status: "DELETED" },
+      // Mark as deleting and queue the provider call for the job worker
+      try {
+        await transitionInstance(instance, "DELETING", {
+          by: userActor(request.user.id),
+          data: {
+            jobs: {
+              create: { type: "DELETE" },
+            },
+          },
         });
 
         return await reply.send({ success: true });
       } catch (error) {
-        app.log.error(error);
-        return reply.code(400).send({ error: getErrorMessage(error, "Failed to delete instance") });
+        if (error instanceof InvalidTransitionError) {
+          return reply.code(400).send({ error: error.message });
+        }
+        throw error;
       }
     }
   );
@@ -804,47 +1517,37 @@ export function instanceRoutes(fastify: FastifyInstance): void {
 /**
  * Background job: sync all non-terminal instance statuses from their providers.
  * Call this on an interval (e.g. every 60s) after the server starts.
+ * Instances with queued or running jobs are left alone; the job moves them.
  */
 export async function syncAllInstanceStatuses(log?: {
   info: (...args: unknown[]) => void;
   error: (...args: unknown[]) => void;
 }): Promise<void> {
-  const activeStatuses = ["CREATING", "PROVISIONING", "RUNNING", "STARTING", "STOPPING"];
+  const activeStatuses: InstanceStatus[] = [
+    "CREATING",
+    "PROVISIONING",
+    "RUNNING",
+    "STARTING",
+    "STOPPING",
+  ];
 
   const instances = await prisma.instance.findMany({
     where: {
       status: { in: activeStatuses },
-      OR: [
-        { flyAppName: { not: null }, flyMachineId: { not: null } },
-        { dockerContainerId: { not: null } },
-      ],
+      providerResourceId: { not: null },
+      jobs: { none: { status: { in: ["PENDING", "RUNNING"] } } },
     },
   });
 
   for (const instance of instances) {
-    const hasFlyData = instance.flyAppName !== null && instance.flyMachineId !== null;
-    const hasDockerData = instance.dockerContainerId !== null;
-
-    if (!hasFlyData && !hasDockerData) {
-      continue;
-    }
-
     // Get provider based on instance's stored provider type
-    const provider = getProviderByType(instance.provider as ProviderType);
+    const provider = getProviderByType(instance.provider);
 
     try {
-      const newStatus = await provider.getInstanceStatus({
-        flyMachineId: instance.flyMachineId,
-        flyAppName: instance.flyAppName,
-        dockerContainerId: instance.dockerContainerId,
-        dockerPort: instance.dockerPort,
-      });
+      const newStatus = await provider.getInstanceStatus(toProviderData(instance));
 
       if (newStatus !== instance.status) {
-        await prisma.instance.update({
-          where: { id: instance.id },
-          data: { status: newStatus },
-        });
+        await transitionInstance(instance, newStatus, { by: SYNC_ACTOR });
         log?.info(`Synced instance ${instance.id}: ${instance.status} -> ${newStatus}`);
       }
     } catch (error) {
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import Fastify, { type FastifyInstance } from "fastify";
+import { serializerCompiler, validatorCompiler } from "fastify-type-provider-zod";
+import { modelRoutes } from "./models.js";
+
+vi.mock("@fasterclaw/db", () => ({
+  prisma: {
+    subscription: {
+      findFirst: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from "@fasterclaw/db";
+
+describe("Model Routes", () => {
+  let app: FastifyInstance;
+  let authToken: string;
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    app.setValidatorCompiler(validatorCompiler);
+    app.setSerializerCompiler(serializerCompiler);
+
+    await app.register(import("@fastify/jwt"), {
+      secret: "test-jwt-secret-for-testing-only",
+    });
+
+    app.decorate("authenticate", async (request, reply) => {
+      try {
+        await request.jwtVerify();
+        const payload = request.user as unknown as {
+          sub: string;
+          email: string;
+          name: string | null;
+        };
+        request.user = {
+          id: payload.sub,
+          email: payload.email,
+          name: payload.name,
+        };
+      } catch {
+        void reply.code(401).send({ error: "Unauthorized" });
+      }
+    });
+
+    await app.register(modelRoutes);
+    await app.ready();
+
+    authToken = app.jwt.sign({
+      sub: "cjld2cyuq0000t3rmniod1foy",
+      email: "test@example.com",
+      name: "Test User",
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+    vi.clearAllMocks();
+  });
+
+  describe("GET /models", () => {
+    it("should list the catalog for the user's plan", async () => {
+      vi.mocked(prisma.subscription.findFirst).mockResolvedValue({
+        plan: "pro",
+        instanceLimit: 10,
+      } as any);
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/models",
+        headers: { authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.find((model: { id: string }) => model.id === "claude-opus-4-0")).toEqual({
+        id: "claude-opus-4-0",
+        vendor: "anthropic",
+        displayName: "Claude Opus 4",
+        contextWindow: 200000,
+        plans: ["pro", "enterprise"],
+        deprecatedAt: null,
+        available: true,
+      });
+    });
+
+    it("should only offer models every plan has without a subscription", async () => {
+      vi.mocked(prisma.subscription.findFirst).mockResolvedValue(null);
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/models",
+        headers: { authorization: `Bearer ${authToken}` },
+      });
+
+      const body = JSON.parse(response.body);
+      const opus = body.find((model: { id: string }) => model.id === "claude-opus-4-0");
+      expect(opus.available).toBe(false);
+    });
+
+    it("should return 401 without auth token", async () => {
+      const response = await app.inject({ method: "GET", url: "/models" });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+});
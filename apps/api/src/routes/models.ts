@@ -0,0 +1,38 @@
+import type { FastifyInstance } from "fastify";
+import type { ZodTypeProvider } from "fastify-type-provider-zod";
+import { prisma } from "@fasterclaw/db";
+import { listModels } from "../services/models.js";
+import { resolveEntitlements } from "../services/entitlements.js";
+import { AiModelListSchema, ApiErrorSchema } from "@fasterclaw/shared";
+
+export function modelRoutes(fastify: FastifyInstance): void {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  // GET /models - The AI model catalog, marked with what the user's plan can use
+  app.get(
+    "/models",
+    {
+      schema: {
+        tags: ["Models"],
+        summary: "List AI models instances can run",
+        response: {
+          200: AiModelListSchema,
+          401: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      config: { scope: "instances:read" },
+      preHandler: [app.authenticate],
+    },
+    async (request) => {
+      const subscription = await prisma.subscription.findFirst({
+        where: { userId: request.user.id },
+        select: { plan: true, instanceLimit: true },
+      });
+
+      return listModels(resolveEntitlements(subscription).entitlements);
+    }
+  );
+}
+
+export default modelRoutes;
@@ -0,0 +1,458 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import Fastify, { type FastifyInstance } from "fastify";
+import { serializerCompiler, validatorCompiler } from "fastify-type-provider-zod";
+import { organizationRoutes } from "./organizations.js";
+
+vi.mock("@fasterclaw/db", () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    user: { update: vi.fn(), findUnique: vi.fn() },
+    organization: { update: vi.fn() },
+    membership: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+      upsert: vi.fn(),
+    },
+    instance: { updateMany: vi.fn() },
+    subscription: { updateMany: vi.fn() },
+    invitation: {
+      create: vi.fn(),
+      findFirst: vi.fn(),
+      deleteMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("../services/account-emails.js", () => ({
+  sendInvitationEmail: vi.fn(),
+}));
+
+import { prisma } from "@fasterclaw/db";
+import { sendInvitationEmail } from "../services/account-emails.js";
+
+describe("Organization Routes", () => {
+  let app: FastifyInstance;
+  let authToken: string;
+  const userId = "cjld2cyuq0000t3rmniod1foy";
+  const otherUserId = "cjld2cyuq0001t3rmniod1foz";
+  const organizationId = "cjld2cyuq0002t3rmniod1fox";
+  const invitationId = "cjld2cyuq0003t3rmniod1fow";
+
+  const organization = {
+    id: organizationId,
+    name: "Acme",
+    stripeCustomerId: null,
+    requireTwoFactor: false,
+    createdAt: new Date("2024-01-01T00:00:00.000Z"),
+    updatedAt: new Date("2024-01-01T00:00:00.000Z"),
+  };
+
+  function membershipOf(memberId: string, role: string) {
+    return {
+      id: `membership-${memberId}`,
+      organizationId,
+      userId: memberId,
+      role,
+      createdAt: new Date("2024-01-01T00:00:00.000Z"),
+      organization,
+    };
+  }
+
+  // Roles by user id; users without one are not members
+  let roles: Record<string, string>;
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    app.setValidatorCompiler(validatorCompiler);
+    app.setSerializerCompiler(serializerCompiler);
+
+    await app.register(import("@fastify/jwt"), {
+      secret: "test-jwt-secret-for-testing-only",
+    });
+
+    app.decorate("authenticate", async (request, reply) => {
+      try {
+        await request.jwtVerify();
+        const payload = request.user as unknown as {
+          sub: string;
+          email: string;
+          name: string | null;
+        };
+        request.user = {
+          id: payload.sub,
+          email: payload.email,
+          name: payload.name,
+        };
+      } catch {
+        void reply.code(401).send({ error: "Unauthorized" });
+      }
+    });
+
+    await app.register(organizationRoutes);
+    await app.ready();
+
+    authToken = app.jwt.sign({
+      sub: userId,
+      email: "jane@example.com",
+      name: "Jane",
+    });
+
+    roles = { [userId]: "owner", [otherUserId]: "viewer" };
+    vi.mocked(prisma.$transaction).mockImplementation((async (arg: unknown) =>
+      typeof arg === "function" ? arg(prisma) : Promise.all(arg as unknown[])) as any);
+    vi.mocked(prisma.membership.findUnique).mockImplementation((async ({ where }: any) => {
+      const role = roles[where.organizationId_userId.userId];
+      return role === undefined ? null : membershipOf(where.organizationId_userId.userId, role);
+    }) as any);
+    // Users already have their personal organization unless a test says otherwise
+    vi.mocked(prisma.membership.findFirst).mockResolvedValue(membershipOf(userId, "owner") as any);
+    vi.mocked(prisma.membership.count).mockImplementation(
+      (async () => Object.values(roles).filter((role) => role === "owner").length) as any
+    );
+  });
+
+  afterEach(async () => {
+    await app.close();
+    vi.clearAllMocks();
+  });
+
+  describe("GET /organizations", () => {
+    it("should list organizations with the user's role", async () => {
+      vi.mocked(prisma.membership.findFirst).mockResolvedValue(
+        membershipOf(userId, "owner") as any
+      );
+      vi.mocked(prisma.membership.findMany).mockResolvedValue([
+        membershipOf(userId, "owner"),
+      ] as any);
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/organizations",
+        headers: { authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual([
+        {
+          id: organizationId,
+          name: "Acme",
+          role: "owner",
+          requireTwoFactor: false,
+          createdAt: "2024-01-01T00:00:00.000Z",
+        },
+      ]);
+    });
+  });
+
+  describe("POST /organizations", () => {
+    it("should move a legacy user's instances into their personal organization first", async () => {
+      vi.mocked(prisma.membership.findFirst).mockResolvedValue(null);
+      vi.mocked(prisma.user.update).mockResolvedValue({ stripeCustomerId: null } as any);
+      vi.mocked(prisma.membership.create)
+        .mockResolvedValueOnce(membershipOf(userId, "owner") as any)
+        .mockResolvedValueOnce({
+          ...membershipOf(userId, "owner"),
+          organization: { ...organization, name: "Side Project" },
+        } as any);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/organizations",
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { name: "Side Project" },
+      });
+
+      expect(response.statusCode).toBe(201);
+      expect(prisma.instance.updateMany).toHaveBeenCalledWith({
+        where: { userId, organizationId: null },
+        data: { organizationId },
+      });
+      expect(prisma.membership.create).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("PATCH /organizations/:id", () => {
+    it("should not require two-factor before the owner has it on", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ twoFactorEnabledAt: null } as any);
+
+      const response = await app.inject({
+        method: "PATCH",
+        url: `/organizations/${organizationId}`,
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { requireTwoFactor: true },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(prisma.organization.update).not.toHaveBeenCalled();
+    });
+
+    it("should return 403 for admins", async () => {
+      roles[userId] = "admin";
+
+      const response = await app.inject({
+        method: "PATCH",
+        url: `/organizations/${organizationId}`,
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { name: "Acme Inc" },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it("should return 404 to non-members", async () => {
+      roles = {};
+
+      const response = await app.inject({
+        method: "PATCH",
+        url: `/organizations/${organizationId}`,
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { name: "Acme Inc" },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe("PATCH /organizations/:id/members/:userId", () => {
+    it("should change a member's role", async () => {
+      vi.mocked(prisma.membership.update).mockResolvedValue({
+        role: "operator",
+        createdAt: new Date("2024-01-01T00:00:00.000Z"),
+        user: { id: otherUserId, email: "sam@example.com", name: null, twoFactorEnabledAt: null },
+      } as any);
+
+      const response = await app.inject({
+        method: "PATCH",
+        url: `/organizations/${organizationId}/members/${otherUserId}`,
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { role: "operator" },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).role).toBe("operator");
+      expect(prisma.membership.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: `membership-${otherUserId}` } })
+      );
+    });
+
+    it("should not let admins make owners", async () => {
+      roles[userId] = "admin";
+
+      const response = await app.inject({
+        method: "PATCH",
+        url: `/organizations/${organizationId}/members/${otherUserId}`,
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { role: "owner" },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(JSON.parse(response.body).error).toBe(
+        "Only owners can grant or change the owner role"
+      );
+    });
+
+    it("should keep the last owner", async () => {
+      const response = await app.inject({
+        method: "PATCH",
+        url: `/organizations/${organizationId}/members/${userId}`,
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { role: "admin" },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe("An organization needs at least one owner");
+      expect(prisma.membership.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("DELETE /organizations/:id/members/:userId", () => {
+    it("should let viewers leave", async () => {
+      roles[userId] = "viewer";
+      roles[otherUserId] = "owner";
+
+      const response = await app.inject({
+        method: "DELETE",
+        url: `/organizations/${organizationId}/members/${userId}`,
+        headers: { authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).message).toBe("You left the organization");
+      expect(prisma.membership.delete).toHaveBeenCalledWith({
+        where: { id: `membership-${userId}` },
+      });
+    });
+
+    it("should not let viewers remove others", async () => {
+      roles[userId] = "viewer";
+
+      const response = await app.inject({
+        method: "DELETE",
+        url: `/organizations/${organizationId}/members/${otherUserId}`,
+        headers: { authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(prisma.membership.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /organizations/:id/invitations", () => {
+    it("should email an invitation", async () => {
+      vi.mocked(prisma.membership.findFirst).mockResolvedValue(null);
+      vi.mocked(prisma.invitation.create).mockImplementation((async ({ data }: any) => ({
+        id: invitationId,
+        createdAt: new Date("2024-01-01T00:00:00.000Z"),
+        acceptedAt: null,
+        ...data,
+      })) as any);
+
+      const response = await app.inject({
+        method: "POST",
+        url: `/organizations/${organizationId}/invitations`,
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { email: "Sam@Example.com", role: "operator" },
+      });
+
+      expect(response.statusCode).toBe(201);
+      const body = JSON.parse(response.body);
+      expect(body).toMatchObject({ email: "sam@example.com", role: "operator", invitedBy: "Jane" });
+      expect(body).not.toHaveProperty("token");
+      expect(sendInvitationEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          email: "sam@example.com",
+          organizationName: "Acme",
+          invitedBy: "Jane",
+        })
+      );
+    });
+
+    it("should return 409 for existing members", async () => {
+      vi.mocked(prisma.membership.findFirst).mockResolvedValue({ id: "membership-1" } as any);
+
+      const response = await app.inject({
+        method: "POST",
+        url: `/organizations/${organizationId}/invitations`,
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { email: "sam@example.com", role: "viewer" },
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(sendInvitationEmail).not.toHaveBeenCalled();
+    });
+
+    it("should return 403 for operators", async () => {
+      roles[userId] = "operator";
+
+      const response = await app.inject({
+        method: "POST",
+        url: `/organizations/${organizationId}/invitations`,
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { email: "sam@example.com", role: "viewer" },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+
+  describe("POST /invitations/accept", () => {
+    const invitation = {
+      id: invitationId,
+      organizationId,
+      email: "jane@example.com",
+      role: "operator",
+      tokenHash: "hash",
+      invitedById: otherUserId,
+      expiresAt: new Date(Date.now() + 60_000),
+      acceptedAt: null,
+      createdAt: new Date(),
+    };
+
+    it("should join the organization", async () => {
+      vi.mocked(prisma.invitation.findFirst).mockResolvedValue(invitation as any);
+      vi.mocked(prisma.invitation.updateMany).mockResolvedValue({ count: 1 });
+      vi.mocked(prisma.membership.upsert).mockResolvedValue(
+        membershipOf(userId, "operator") as any
+      );
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/invitations/accept",
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { token: "invitation-token" },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toMatchObject({ id: organizationId, role: "operator" });
+    });
+
+    it("should move a legacy user's instances and subscription before joining", async () => {
+      vi.mocked(prisma.membership.findFirst).mockResolvedValue(null);
+      vi.mocked(prisma.user.update).mockResolvedValue({ stripeCustomerId: "cus_123" } as any);
+      vi.mocked(prisma.membership.create).mockResolvedValue({
+        ...membershipOf(userId, "owner"),
+        organizationId: "personal-organization",
+      } as any);
+      vi.mocked(prisma.invitation.findFirst).mockResolvedValue(invitation as any);
+      vi.mocked(prisma.invitation.updateMany).mockResolvedValue({ count: 1 });
+      vi.mocked(prisma.membership.upsert).mockResolvedValue(
+        membershipOf(userId, "operator") as any
+      );
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/invitations/accept",
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { token: "invitation-token" },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toMatchObject({ id: organizationId, role: "operator" });
+      expect(prisma.instance.updateMany).toHaveBeenCalledWith({
+        where: { userId, organizationId: null },
+        data: { organizationId: "personal-organization" },
+      });
+      expect(prisma.subscription.updateMany).toHaveBeenCalledWith({
+        where: { userId, organizationId: null },
+        data: { organizationId: "personal-organization", userId: null },
+      });
+    });
+
+    it("should return 400 for unknown or expired tokens", async () => {
+      vi.mocked(prisma.invitation.findFirst).mockResolvedValue(null);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/invitations/accept",
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { token: "invitation-token" },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe("Invalid or expired invitation");
+    });
+
+    it("should return 403 when signed in with another address", async () => {
+      vi.mocked(prisma.invitation.findFirst).mockResolvedValue({
+        ...invitation,
+        email: "sam@example.com",
+      } as any);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/invitations/accept",
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { token: "invitation-token" },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(prisma.invitation.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
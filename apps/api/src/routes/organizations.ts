@@ -0,0 +1,487 @@
+import type { FastifyInstance } from "fastify";
+import type { ZodTypeProvider } from "fastify-type-provider-zod";
+import { prisma } from "@fasterclaw/db";
+import {
+  acceptInvitation,
+  checkOrganizationRole,
+  countOwners,
+  createInvitation,
+  createOrganization,
+  findMembership,
+  findPendingInvitation,
+  getDefaultMembership,
+  listInvitations,
+  listMembers,
+  listMemberships,
+  revokeInvitation,
+  type MembershipWithOrganization,
+} from "../services/organizations.js";
+import { sendInvitationEmail } from "../services/account-emails.js";
+import {
+  OrganizationSchema,
+  OrganizationListSchema,
+  OrganizationIdParamSchema,
+  OrganizationMemberSchema,
+  OrganizationMemberListSchema,
+  OrganizationMemberParamSchema,
+  OrganizationInvitationSchema,
+  OrganizationInvitationListSchema,
+  OrganizationInvitationParamSchema,
+  CreateOrganizationRequestSchema,
+  UpdateOrganizationRequestSchema,
+  UpdateMemberRequestSchema,
+  CreateInvitationRequestSchema,
+  AcceptInvitationRequestSchema,
+  ApiErrorSchema,
+  ApiMessageSchema,
+  type OrganizationRole,
+} from "@fasterclaw/shared";
+
+const LAST_OWNER = "An organization needs at least one owner";
+const OWNERS_ONLY = "Only owners can grant or change the owner role";
+
+/**
+ * Format an organization for API response, with the caller's role in it.
+ */
+function formatOrganizationResponse(membership: MembershipWithOrganization) {
+  return {
+    id: membership.organization.id,
+    name: membership.organization.name,
+    role: membership.role as OrganizationRole,
+    requireTwoFactor: membership.organization.requireTwoFactor,
+    createdAt: membership.organization.createdAt.toISOString(),
+  };
+}
+
+function formatMemberResponse(member: {
+  role: string;
+  createdAt: Date;
+  user: { id: string; email: string; name: string | null; twoFactorEnabledAt: Date | null };
+}) {
+  return {
+    userId: member.user.id,
+    email: member.user.email,
+    name: member.user.name,
+    role: member.role as OrganizationRole,
+    twoFactorEnabled: member.user.twoFactorEnabledAt !== null,
+    joinedAt: member.createdAt.toISOString(),
+  };
+}
+
+function formatInvitationResponse(invitation: {
+  id: string;
+  email: string;
+  role: string;
+  expiresAt: Date;
+  createdAt: Date;
+  invitedBy: { email: string; name: string | null } | null;
+}) {
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    role: invitation.role as OrganizationRole,
+    invitedBy: invitation.invitedBy?.name ?? invitation.invitedBy?.email ?? null,
+    expiresAt: invitation.expiresAt.toISOString(),
+    createdAt: invitation.createdAt.toISOString(),
+  };
+}
+
+export function organizationRoutes(fastify: FastifyInstance): void {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  // GET /organizations - List the organizations the user belongs to
+  app.get(
+    "/organizations",
+    {
+      schema: {
+        tags: ["Organizations"],
+        summary: "List the organizations you belong to, with your role in each",
+        response: {
+          200: OrganizationListSchema,
+          401: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request) => {
+      // Sets up the personal organization of users who have none yet
+      await getDefaultMembership(request.user);
+      const memberships = await listMemberships(request.user.id);
+
+      return memberships.map(formatOrganizationResponse);
+    }
+  );
+
+  // POST /organizations - Create an organization
+  app.post(
+    "/organizations",
+    {
+      schema: {
+        tags: ["Organizations"],
+        summary: "Create an organization; you become its owner",
+        body: CreateOrganizationRequestSchema,
+        response: {
+          201: OrganizationSchema,
+          400: ApiErrorSchema,
+          401: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      // Users from before organizations get their personal one first, so their
+      // instances and subscription are not left outside every organization
+      await getDefaultMembership(request.user);
+      const membership = await createOrganization(request.user.id, request.body.name);
+
+      return reply.code(201).send(formatOrganizationResponse(membership));
+    }
+  );
+
+  // PATCH /organizations/:id - Rename an organization or require two-factor
+  app.patch(
+    "/organizations/:id",
+    {
+      schema: {
+        tags: ["Organizations"],
+        summary: "Update an organization",
+        params: OrganizationIdParamSchema,
+        body: UpdateOrganizationRequestSchema,
+        response: {
+          200: OrganizationSchema,
+          400: ApiErrorSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+          404: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      const check = await checkOrganizationRole(request.params.id, request.user.id, "owner");
+      if ("error" in check) {
+        return reply.code(check.code).send({ error: check.error });
+      }
+
+      // Otherwise the owner would lock themselves out along with everyone else
+      if (request.body.requireTwoFactor === true) {
+        const user = await prisma.user.findUnique({
+          where: { id: request.user.id },
+          select: { twoFactorEnabledAt: true },
+        });
+        if (user?.twoFactorEnabledAt == null) {
+          return reply.code(400).send({
+            error: "Turn on two-factor authentication for your own account first",
+          });
+        }
+      }
+
+      const organization = await prisma.organization.update({
+        where: { id: request.params.id },
+        data: request.body,
+      });
+
+      return reply.send(formatOrganizationResponse({ ...check.membership, organization }));
+    }
+  );
+
+  // GET /organizations/:id/members - List members
+  app.get(
+    "/organizations/:id/members",
+    {
+      schema: {
+        tags: ["Organizations"],
+        summary: "List the members of an organization",
+        params: OrganizationIdParamSchema,
+        response: {
+          200: OrganizationMemberListSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+          404: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      const check = await checkOrganizationRole(request.params.id, request.user.id, "viewer");
+      if ("error" in check) {
+        return reply.code(check.code).send({ error: check.error });
+      }
+
+      const members = await listMembers(request.params.id);
+
+      return reply.send(members.map(formatMemberResponse));
+    }
+  );
+
+  // PATCH /organizations/:id/members/:userId - Change a member's role
+  app.patch(
+    "/organizations/:id/members/:userId",
+    {
+      schema: {
+        tags: ["Organizations"],
+        summary: "Change the role of a member",
+        params: OrganizationMemberParamSchema,
+        body: UpdateMemberRequestSchema,
+        response: {
+          200: OrganizationMemberSchema,
+          400: ApiErrorSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+          404: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      const { id, userId } = request.params;
+      const { role } = request.body;
+
+      const check = await checkOrganizationRole(id, request.user.id, "admin");
+      if ("error" in check) {
+        return reply.code(check.code).send({ error: check.error });
+      }
+
+      const member = await findMembership(id, userId);
+      if (member === null) {
+        return reply.code(404).send({ error: "Member not found" });
+      }
+
+      if ((member.role === "owner" || role === "owner") && check.membership.role !== "owner") {
+        return reply.code(403).send({ error: OWNERS_ONLY });
+      }
+      if (member.role === "owner" && role !== "owner" && (await countOwners(id)) <= 1) {
+        return reply.code(400).send({ error: LAST_OWNER });
+      }
+
+      const updated = await prisma.membership.update({
+        where: { id: member.id },
+        data: { role },
+        include: {
+          user: { select: { id: true, email: true, name: true, twoFactorEnabledAt: true } },
+        },
+      });
+
+      return reply.send(formatMemberResponse(updated));
+    }
+  );
+
+  // DELETE /organizations/:id/members/:userId - Remove a member, or leave
+  app.delete(
+    "/organizations/:id/members/:userId",
+    {
+      schema: {
+        tags: ["Organizations"],
+        summary: "Remove a member; any member may remove themselves",
+        params: OrganizationMemberParamSchema,
+        response: {
+          200: ApiMessageSchema,
+          400: ApiErrorSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+          404: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      const { id, userId } = request.params;
+      const leaving = userId === request.user.id;
+
+      const check = await checkOrganizationRole(id, request.user.id, leaving ? "viewer" : "admin");
+      if ("error" in check) {
+        return reply.code(check.code).send({ error: check.error });
+      }
+
+      const member = leaving ? check.membership : await findMembership(id, userId);
+      if (member === null) {
+        return reply.code(404).send({ error: "Member not found" });
+      }
+
+      if (member.role === "owner" && check.membership.role !== "owner") {
+        return reply.code(403).send({ error: "Only owners can remove an owner" });
+      }
+      if (member.role === "owner" && (await countOwners(id)) <= 1) {
+        return reply.code(400).send({ error: LAST_OWNER });
+      }
+
+      // Instances the member created stay with the organization
+      await prisma.membership.delete({ where: { id: member.id } });
+
+      return reply.send({ message: leaving ? "You left the organization" : "Member removed" });
+    }
+  );
+
+  // GET /organizations/:id/invitations - List pending invitations
+  app.get(
+    "/organizations/:id/invitations",
+    {
+      schema: {
+        tags: ["Organizations"],
+        summary: "List the pending invitations of an organization",
+        params: OrganizationIdParamSchema,
+        response: {
+          200: OrganizationInvitationListSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+          404: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      const check = await checkOrganizationRole(request.params.id, request.user.id, "admin");
+      if ("error" in check) {
+        return reply.code(check.code).send({ error: check.error });
+      }
+
+      const invitations = await listInvitations(request.params.id);
+
+      return reply.send(invitations.map(formatInvitationResponse));
+    }
+  );
+
+  // POST /organizations/:id/invitations - Invite someone by email
+  app.post(
+    "/organizations/:id/invitations",
+    {
+      schema: {
+        tags: ["Organizations"],
+        summary: "Email an invitation to join an organization",
+        params: OrganizationIdParamSchema,
+        body: CreateInvitationRequestSchema,
+        response: {
+          201: OrganizationInvitationSchema,
+          400: ApiErrorSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+          404: ApiErrorSchema,
+          409: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+
+      const check = await checkOrganizationRole(id, request.user.id, "admin");
+      if ("error" in check) {
+        return reply.code(check.code).send({ error: check.error });
+      }
+
+      if (request.body.role === "owner" && check.membership.role !== "owner") {
+        return reply.code(403).send({ error: OWNERS_ONLY });
+      }
+
+      const existing = await prisma.membership.findFirst({
+        where: {
+          organizationId: id,
+          user: { email: { equals: request.body.email, mode: "insensitive" } },
+        },
+        select: { id: true },
+      });
+      if (existing !== null) {
+        return reply.code(409).send({ error: `${request.body.email} is already a member` });
+      }
+
+      const { token, invitation } = await createInvitation(id, request.user.id, request.body);
+      const invitedBy = request.user.name ?? request.user.email;
+      await sendInvitationEmail({
+        email: invitation.email,
+        token,
+        organizationName: check.membership.organization.name,
+        invitedBy,
+      });
+
+      return reply.code(201).send(
+        formatInvitationResponse({
+          ...invitation,
+          invitedBy: { email: request.user.email, name: request.user.name },
+        })
+      );
+    }
+  );
+
+  // DELETE /organizations/:id/invitations/:invitationId - Withdraw an invitation
+  app.delete(
+    "/organizations/:id/invitations/:invitationId",
+    {
+      schema: {
+        tags: ["Organizations"],
+        summary: "Withdraw a pending invitation",
+        params: OrganizationInvitationParamSchema,
+        response: {
+          200: ApiMessageSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+          404: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      const { id, invitationId } = request.params;
+
+      const check = await checkOrganizationRole(id, request.user.id, "admin");
+      if ("error" in check) {
+        return reply.code(check.code).send({ error: check.error });
+      }
+
+      if (!(await revokeInvitation(invitationId, id))) {
+        return reply.code(404).send({ error: "Invitation not found" });
+      }
+
+      return reply.send({ message: "Invitation withdrawn" });
+    }
+  );
+
+  // POST /invitations/accept - Join an organization with the token from an invitation email
+  app.post(
+    "/invitations/accept",
+    {
+      schema: {
+        tags: ["Organizations"],
+        summary: "Accept an invitation; you must be signed in with the invited email address",
+        body: AcceptInvitationRequestSchema,
+        response: {
+          200: OrganizationSchema,
+          400: ApiErrorSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      const invitation = await findPendingInvitation(request.body.token);
+      if (invitation === null) {
+        return reply.code(400).send({ error: "Invalid or expired invitation" });
+      }
+
+      if (invitation.email !== request.user.email.toLowerCase()) {
+        return reply.code(403).send({
+          error: `This invitation is for ${invitation.email}. Sign in with that address to accept it.`,
+        });
+      }
+
+      // As for POST /organizations
+      await getDefaultMembership(request.user);
+      const membership = await acceptInvitation(invitation, request.user.id);
+      if (membership === null) {
+        return reply.code(400).send({ error: "Invalid or expired invitation" });
+      }
+
+      return reply.send(formatOrganizationResponse(membership));
+    }
+  );
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Fastify, { type FastifyInstance } from "fastify";
+import { serializerCompiler, validatorCompiler } from "fastify-type-provider-zod";
+import { providerRoutes } from "./providers.js";
+
+describe("Provider Routes", () => {
+  let app: FastifyInstance;
+  let authToken: string;
+  const originalProvider = process.env.INSTANCE_PROVIDER;
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    app.setValidatorCompiler(validatorCompiler);
+    app.setSerializerCompiler(serializerCompiler);
+
+    await app.register(import("@fastify/jwt"), {
+      secret: "test-jwt-secret-for-testing-only",
+    });
+
+    app.decorate("authenticate", async (request, reply) => {
+      try {
+        await request.jwtVerify();
+      } catch {
+        void reply.code(401).send({ error: "Unauthorized" });
+      }
+    });
+
+    await app.register(providerRoutes);
+    await app.ready();
+
+    authToken = app.jwt.sign({
+      sub: "cjld2cyuq0000t3rmniod1foy",
+      email: "test@example.com",
+      name: "Test User",
+    });
+  });
+
+  afterEach(async () => {
+    if (originalProvider === undefined) {
+      delete process.env.INSTANCE_PROVIDER;
+    } else {
+      process.env.INSTANCE_PROVIDER = originalProvider;
+    }
+    await app.close();
+  });
+
+  describe("GET /providers", () => {
+    it("should list registered providers with their capabilities", async () => {
+      delete process.env.INSTANCE_PROVIDER;
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/providers",
+        headers: { authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.map((provider: { name: string }) => provider.name)).toEqual([
+        "fly",
+        "docker",
+        "kubernetes",
+        "fake",
+      ]);
+      expect(body[0]).toMatchObject({
+        displayName: "Fly.io",
+        capabilities: { logs: true, regions: true },
+        isDefault: true,
+      });
+      expect(body[0].regions).toContain("iad");
+      expect(body[1]).toMatchObject({ regions: [], isDefault: false });
+    });
+
+    it("should mark the provider chosen by INSTANCE_PROVIDER as default", async () => {
+      process.env.INSTANCE_PROVIDER = "kubernetes";
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/providers",
+        headers: { authorization: `Bearer ${authToken}` },
+      });
+
+      const body = JSON.parse(response.body);
+      const defaults = body.filter((provider: { isDefault: boolean }) => provider.isDefault);
+      expect(defaults).toEqual([expect.objectContaining({ name: "kubernetes" })]);
+    });
+
+    it("should return 401 without auth token", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/providers",
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+});
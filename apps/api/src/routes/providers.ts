@@ -0,0 +1,38 @@
+import type { FastifyInstance } from "fastify";
+import type { ZodTypeProvider } from "fastify-type-provider-zod";
+import { getProviderType, listProviders } from "../services/providers/index.js";
+import { ProviderListSchema, ApiErrorSchema } from "@fasterclaw/shared";
+
+export function providerRoutes(fastify: FastifyInstance): void {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  // GET /providers - List instance providers and the features they support
+  app.get(
+    "/providers",
+    {
+      schema: {
+        tags: ["Providers"],
+        summary: "List instance providers and their capabilities",
+        response: {
+          200: ProviderListSchema,
+          401: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      config: { scope: "instances:read" },
+      preHandler: [app.authenticate],
+    },
+    () => {
+      const defaultProvider = getProviderType();
+      return listProviders().map((provider) => ({
+        name: provider.name,
+        displayName: provider.displayName,
+        capabilities: provider.capabilities,
+        regions: provider.capabilities.regions ? [...(provider.regions ?? [])] : [],
+        isDefault: provider.name === defaultProvider,
+      }));
+    }
+  );
+}
+
+export default providerRoutes;
@@ -0,0 +1,292 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import Fastify, { type FastifyInstance } from "fastify";
+import { serializerCompiler, validatorCompiler } from "fastify-type-provider-zod";
+import { twoFactorRoutes } from "./two-factor.js";
+
+vi.mock("@fasterclaw/db", () => ({
+  prisma: {
+    user: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    membership: {
+      count: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("../services/two-factor.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../services/two-factor.js")>()),
+  checkTwoFactorCode: vi.fn(),
+}));
+
+import { prisma } from "@fasterclaw/db";
+import { checkTwoFactorCode } from "../services/two-factor.js";
+import { generateTotp, getTimeStep } from "../services/totp.js";
+
+describe("Two-Factor Routes", () => {
+  let app: FastifyInstance;
+  let authToken: string;
+  const mockUserId = "cjld2cyuq0000t3rmniod1foy";
+  const secret = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+  beforeEach(async () => {
+    app = Fastify({ logger: false });
+    app.setValidatorCompiler(validatorCompiler);
+    app.setSerializerCompiler(serializerCompiler);
+
+    await app.register(import("@fastify/jwt"), {
+      secret: "test-jwt-secret-for-testing-only",
+    });
+
+    app.decorate("authenticate", async (request, reply) => {
+      try {
+        await request.jwtVerify();
+        const payload = request.user as unknown as {
+          sub: string;
+          email: string;
+          name: string | null;
+        };
+        request.user = {
+          id: payload.sub,
+          email: payload.email,
+          name: payload.name,
+        };
+      } catch {
+        void reply.code(401).send({ error: "Unauthorized" });
+      }
+    });
+
+    await app.register(twoFactorRoutes);
+    await app.ready();
+
+    authToken = app.jwt.sign({
+      sub: mockUserId,
+      email: "test@example.com",
+      name: "Test User",
+    });
+    vi.mocked(prisma.membership.count).mockResolvedValue(0);
+  });
+
+  afterEach(async () => {
+    await app.close();
+    vi.clearAllMocks();
+  });
+
+  describe("GET /auth/two-factor", () => {
+    it("should report the status", async () => {
+      vi.mocked(prisma.membership.count).mockResolvedValue(1);
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        email: "test@example.com",
+        twoFactorEnabledAt: new Date(),
+        twoFactorRecoveryCodes: ["a", "b"],
+      } as any);
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/auth/two-factor",
+        headers: { authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual({
+        enabled: true,
+        required: true,
+        recoveryCodesRemaining: 2,
+      });
+    });
+  });
+
+  describe("POST /auth/two-factor/setup", () => {
+    it("should store a new secret and return the otpauth URI", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        email: "test@example.com",
+        twoFactorEnabledAt: null,
+      } as any);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/two-factor/setup",
+        headers: { authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(body.otpauthUri).toContain(`secret=${body.secret}`);
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUserId },
+        data: { twoFactorSecret: body.secret, twoFactorLastStep: null },
+      });
+    });
+
+    it("should return 409 when two-factor is already on", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        email: "test@example.com",
+        twoFactorEnabledAt: new Date(),
+      } as any);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/two-factor/setup",
+        headers: { authorization: `Bearer ${authToken}` },
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /auth/two-factor/enable", () => {
+    it("should turn two-factor on and return recovery codes", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        twoFactorSecret: secret,
+        twoFactorEnabledAt: null,
+      } as any);
+      const step = getTimeStep();
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/two-factor/enable",
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { code: generateTotp(secret, step) },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).recoveryCodes).toHaveLength(10);
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUserId },
+        data: expect.objectContaining({
+          twoFactorEnabledAt: expect.any(Date),
+          twoFactorLastStep: step,
+          twoFactorRecoveryCodes: expect.arrayContaining([expect.any(String)]),
+        }),
+      });
+    });
+
+    it("should reject a wrong code", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        twoFactorSecret: secret,
+        twoFactorEnabledAt: null,
+      } as any);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/two-factor/enable",
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { code: "not-a-code" },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it("should return 400 before setup was started", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+      } as any);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/two-factor/enable",
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { code: "123456" },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe("Start the two-factor setup first");
+    });
+  });
+
+  describe("POST /auth/two-factor/disable", () => {
+    it("should turn two-factor off with a valid code", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        twoFactorEnabledAt: new Date(),
+      } as any);
+      vi.mocked(checkTwoFactorCode).mockResolvedValue("valid");
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/two-factor/disable",
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { code: "123456" },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: mockUserId },
+        data: {
+          twoFactorSecret: null,
+          twoFactorEnabledAt: null,
+          twoFactorLastStep: null,
+          twoFactorRecoveryCodes: [],
+        },
+      });
+    });
+
+    it("should not let members of an organization that requires it turn it off", async () => {
+      vi.mocked(prisma.membership.count).mockResolvedValue(1);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/two-factor/disable",
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { code: "123456" },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(checkTwoFactorCode).not.toHaveBeenCalled();
+    });
+
+    it("should return 429 while locked", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        twoFactorEnabledAt: new Date(),
+      } as any);
+      vi.mocked(checkTwoFactorCode).mockResolvedValue("locked");
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/two-factor/disable",
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { code: "123456" },
+      });
+
+      expect(response.statusCode).toBe(429);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /auth/two-factor/recovery-codes", () => {
+    it("should replace the recovery codes", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        twoFactorEnabledAt: new Date(),
+      } as any);
+      vi.mocked(checkTwoFactorCode).mockResolvedValue("valid");
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/two-factor/recovery-codes",
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { code: "123456" },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).recoveryCodes).toHaveLength(10);
+    });
+
+    it("should return 400 when two-factor is off", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ twoFactorEnabledAt: null } as any);
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/auth/two-factor/recovery-codes",
+        headers: { authorization: `Bearer ${authToken}` },
+        payload: { code: "123456" },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(checkTwoFactorCode).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import type { FastifyInstance } from "fastify";
+import type { ZodTypeProvider } from "fastify-type-provider-zod";
+import { prisma } from "@fasterclaw/db";
+import {
+  checkTwoFactorCode,
+  generateRecoveryCodes,
+  isTwoFactorRequired,
+} from "../services/two-factor.js";
+import { generateTotpSecret, getOtpauthUri, verifyTotp } from "../services/totp.js";
+import {
+  TwoFactorStatusSchema,
+  TwoFactorSetupSchema,
+  TwoFactorCodeRequestSchema,
+  RecoveryCodesSchema,
+  ApiErrorSchema,
+  ApiMessageSchema,
+} from "@fasterclaw/shared";
+
+const NOT_ENABLED = "Two-factor authentication is not enabled";
+const TOO_MANY_ATTEMPTS = "Too many wrong codes, try again later";
+
+export function twoFactorRoutes(fastify: FastifyInstance): void {
+  const app = fastify.withTypeProvider<ZodTypeProvider>();
+
+  // GET /auth/two-factor - Whether two-factor is on
+  app.get(
+    "/auth/two-factor",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "Get the two-factor authentication status",
+        response: {
+          200: TwoFactorStatusSchema,
+          401: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      const user = await prisma.user.findUnique({
+        where: { id: request.user.id },
+        select: { twoFactorEnabledAt: true, twoFactorRecoveryCodes: true },
+      });
+
+      if (user === null) {
+        return reply.code(401).send({ error: "User not found" });
+      }
+
+      const enabled = user.twoFactorEnabledAt !== null;
+      return reply.send({
+        enabled,
+        required: await isTwoFactorRequired(request.user.id),
+        recoveryCodesRemaining: enabled ? user.twoFactorRecoveryCodes.length : 0,
+      });
+    }
+  );
+
+  // POST /auth/two-factor/setup - Start enrolling an authenticator app
+  app.post(
+    "/auth/two-factor/setup",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "Generate a TOTP secret to add to an authenticator app",
+        response: {
+          200: TwoFactorSetupSchema,
+          401: ApiErrorSchema,
+          409: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      const user = await prisma.user.findUnique({
+        where: { id: request.user.id },
+        select: { email: true, twoFactorEnabledAt: true },
+      });
+
+      if (user === null) {
+        return reply.code(401).send({ error: "User not found" });
+      }
+
+      if (user.twoFactorEnabledAt !== null) {
+        return reply.code(409).send({ error: "Two-factor authentication is already enabled" });
+      }
+
+      // Replaces the secret of an earlier setup that was never confirmed; encrypted at rest
+      const secret = generateTotpSecret();
+      await prisma.user.update({
+        where: { id: request.user.id },
+        data: { twoFactorSecret: secret, twoFactorLastStep: null },
+      });
+
+      return reply.send({ secret, otpauthUri: getOtpauthUri(secret, user.email) });
+    }
+  );
+
+  // POST /auth/two-factor/enable - Confirm the app works and turn two-factor on
+  app.post(
+    "/auth/two-factor/enable",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "Turn on two-factor authentication with a code from the authenticator app",
+        body: TwoFactorCodeRequestSchema,
+        response: {
+          200: RecoveryCodesSchema,
+          400: ApiErrorSchema,
+          401: ApiErrorSchema,
+          409: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      const user = await prisma.user.findUnique({
+        where: { id: request.user.id },
+        select: { twoFactorSecret: true, twoFactorEnabledAt: true },
+      });
+
+      if (user === null) {
+        return reply.code(401).send({ error: "User not found" });
+      }
+
+      if (user.twoFactorEnabledAt !== null) {
+        return reply.code(409).send({ error: "Two-factor authentication is already enabled" });
+      }
+
+      if (user.twoFactorSecret === null) {
+        return reply.code(400).send({ error: "Start the two-factor setup first" });
+      }
+
+      const step = verifyTotp(user.twoFactorSecret, request.body.code);
+      if (step === null) {
+        return reply.code(400).send({ error: "Invalid code" });
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      await prisma.user.update({
+        where: { id: request.user.id },
+        data: {
+          twoFactorEnabledAt: new Date(),
+          twoFactorLastStep: step,
+          twoFactorRecoveryCodes: hashes,
+          twoFactorFailedAttempts: 0,
+          twoFactorLockedUntil: null,
+        },
+      });
+
+      return reply.send({ recoveryCodes: codes });
+    }
+  );
+
+  // POST /auth/two-factor/disable - Turn two-factor off
+  app.post(
+    "/auth/two-factor/disable",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "Turn off two-factor authentication",
+        body: TwoFactorCodeRequestSchema,
+        response: {
+          200: ApiMessageSchema,
+          400: ApiErrorSchema,
+          401: ApiErrorSchema,
+          403: ApiErrorSchema,
+          429: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      if (await isTwoFactorRequired(request.user.id)) {
+        return reply
+          .code(403)
+          .send({ error: "Your organization requires two-factor authentication" });
+      }
+
+      const user = await prisma.user.findUnique({
+        where: { id: request.user.id },
+        select: { twoFactorEnabledAt: true },
+      });
+
+      if (user?.twoFactorEnabledAt == null) {
+        return reply.code(400).send({ error: NOT_ENABLED });
+      }
+
+      const check = await checkTwoFactorCode(request.user.id, request.body.code);
+      if (check === "locked") {
+        return reply.code(429).send({ error: TOO_MANY_ATTEMPTS });
+      }
+      if (check === "invalid") {
+        return reply.code(400).send({ error: "Invalid code" });
+      }
+
+      await prisma.user.update({
+        where: { id: request.user.id },
+        data: {
+          twoFactorSecret: null,
+          twoFactorEnabledAt: null,
+          twoFactorLastStep: null,
+          twoFactorRecoveryCodes: [],
+        },
+      });
+
+      return reply.send({ message: "Two-factor authentication disabled" });
+    }
+  );
+
+  // POST /auth/two-factor/recovery-codes - Replace the recovery codes
+  app.post(
+    "/auth/two-factor/recovery-codes",
+    {
+      schema: {
+        tags: ["Auth"],
+        summary: "Generate new recovery codes, invalidating the old ones",
+        body: TwoFactorCodeRequestSchema,
+        response: {
+          200: RecoveryCodesSchema,
+          400: ApiErrorSchema,
+          401: ApiErrorSchema,
+          429: ApiErrorSchema,
+        },
+        security: [{ bearerAuth: [] }],
+      },
+      preHandler: [app.authenticate],
+    },
+    async (request, reply) => {
+      const user = await prisma.user.findUnique({
+        where: { id: request.user.id },
+        select: { twoFactorEnabledAt: true },
+      });
+
+      if (user?.twoFactorEnabledAt == null) {
+        return reply.code(400).send({ error: NOT_ENABLED });
+      }
+
+      const check = await checkTwoFactorCode(request.user.id, request.body.code);
+      if (check === "locked") {
+        return reply.code(429).send({ error: TOO_MANY_ATTEMPTS });
+      }
+      if (check === "invalid") {
+        return reply.code(400).send({ error: "Invalid code" });
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      await prisma.user.update({
+        where: { id: request.user.id },
+        data: { twoFactorRecoveryCodes: hashes },
+      });
+
+      return reply.send({ recoveryCodes: codes });
+    }
+  );
+}
+
+export default twoFactorRoutes;
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createHash } from "crypto";
+
+vi.mock("@fasterclaw/db", () => ({
+  maskToken: (token: string) => `${token.slice(0, 10)}...${token.slice(-4)}`,
+  prisma: {
+    personalAccessToken: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from "@fasterclaw/db";
+import {
+  createAccessToken,
+  isAccessToken,
+  revokeAccessToken,
+  verifyAccessToken,
+} from "./access-tokens.js";
+
+describe("Personal Access Tokens", () => {
+  const userId = "cjld2cyuq0000t3rmniod1foy";
+  const token = "fcp_abcdefghijklmnopqrstuvwxyz0123456789ABCDEFG";
+  const stored = {
+    id: "cjld2cyuq0001t3rmniod1foy",
+    userId,
+    name: "Deploy script",
+    tokenHash: createHash("sha256").update(token).digest("hex"),
+    maskedToken: "fcp_abcdef...DEFG",
+    scopes: ["instances:read"],
+    expiresAt: null,
+    lastUsedAt: null,
+    createdAt: new Date(),
+    user: { id: userId, email: "test@example.com", name: "Test User" },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.personalAccessToken.create).mockImplementation((async ({ data }: any) => ({
+      ...stored,
+      ...data,
+    })) as any);
+    vi.mocked(prisma.personalAccessToken.findUnique).mockResolvedValue(stored as any);
+    vi.mocked(prisma.personalAccessToken.updateMany).mockResolvedValue({ count: 1 });
+  });
+
+  describe("isAccessToken", () => {
+    it("should tell personal access tokens from JWTs", () => {
+      expect(isAccessToken(token)).toBe(true);
+      expect(isAccessToken("eyJhbGciOiJIUzI1NiJ9.e30.sig")).toBe(false);
+    });
+  });
+
+  describe("createAccessToken", () => {
+    it("should store only a hash and a masked copy of the token", async () => {
+      const { token: created } = await createAccessToken(userId, {
+        name: "CI",
+        scopes: ["instances:read", "instances:read", "billing:read"],
+        expiresInDays: 30,
+      });
+
+      expect(created).toMatch(/^fcp_[\w-]{43}$/);
+      const { data } = vi.mocked(prisma.personalAccessToken.create).mock.calls[0][0];
+      expect(data.tokenHash).toBe(createHash("sha256").update(created).digest("hex"));
+      expect(data.maskedToken).toBe(`${created.slice(0, 10)}...${created.slice(-4)}`);
+      expect(data.scopes).toEqual(["instances:read", "billing:read"]);
+      expect((data.expiresAt as Date).getTime()).toBeGreaterThan(Date.now() + 29 * 86_400_000);
+    });
+
+    it("should leave tokens without expiry open-ended", async () => {
+      await createAccessToken(userId, {
+        name: "CI",
+        scopes: ["billing:read"],
+        expiresInDays: null,
+      });
+
+      const { data } = vi.mocked(prisma.personalAccessToken.create).mock.calls[0][0];
+      expect(data.expiresAt).toBeNull();
+    });
+  });
+
+  describe("verifyAccessToken", () => {
+    it("should return the user and scopes and record the use", async () => {
+      expect(await verifyAccessToken(token)).toEqual({
+        id: userId,
+        email: "test@example.com",
+        name: "Test User",
+        tokenId: stored.id,
+        scopes: ["instances:read"],
+      });
+      expect(prisma.personalAccessToken.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { tokenHash: stored.tokenHash } })
+      );
+      expect(prisma.personalAccessToken.updateMany).toHaveBeenCalledWith({
+        where: { id: stored.id },
+        data: { lastUsedAt: expect.any(Date) },
+      });
+    });
+
+    it("should record the last use at most once a minute", async () => {
+      vi.mocked(prisma.personalAccessToken.findUnique).mockResolvedValue({
+        ...stored,
+        lastUsedAt: new Date(Date.now() - 10_000),
+      } as any);
+
+      expect(await verifyAccessToken(token)).not.toBeNull();
+      expect(prisma.personalAccessToken.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should reject expired and unknown tokens", async () => {
+      vi.mocked(prisma.personalAccessToken.findUnique).mockResolvedValueOnce({
+        ...stored,
+        expiresAt: new Date(Date.now() - 1000),
+      } as any);
+      expect(await verifyAccessToken(token)).toBeNull();
+
+      vi.mocked(prisma.personalAccessToken.findUnique).mockResolvedValueOnce(null);
+      expect(await verifyAccessToken(token)).toBeNull();
+      expect(prisma.personalAccessToken.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("revokeAccessToken", () => {
+    it("should only delete the user's own token", async () => {
+      vi.mocked(prisma.personalAccessToken.deleteMany).mockResolvedValue({ count: 0 });
+
+      expect(await revokeAccessToken(stored.id, "someone-else")).toBe(false);
+      expect(prisma.personalAccessToken.deleteMany).toHaveBeenCalledWith({
+        where: { id: stored.id, userId: "someone-else" },
+      });
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Personal Access Tokens
+ * Long-lived tokens for calling the API from scripts, sent like session access
+ * tokens as "Authorization: Bearer fcp_...". A token carries scopes and only
+ * reaches routes that declare one of them in `config.scope` (checked by
+ * app.authenticate); every other route, /auth included, needs a session.
+ *
+ * Tokens are random, so only a SHA-256 is stored and looked up. Last use is
+ * recorded at most once a minute, so busy scripts do not write on every call.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { maskToken, prisma, type PersonalAccessToken } from "@fasterclaw/db";
+import type { AccessTokenScope, CreateAccessTokenRequest } from "@fasterclaw/shared";
+
+export const ACCESS_TOKEN_PREFIX = "fcp_";
+const LAST_USED_INTERVAL_MS = 60_000;
+const DAY_MS = 24 * 60 * 60_000;
+
+/** The user a personal access token acts for. */
+export interface AccessTokenIdentity {
+  id: string;
+  email: string;
+  name: string | null;
+  tokenId: string;
+  scopes: AccessTokenScope[];
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Whether a bearer token is a personal access token rather than a JWT.
+ */
+export function isAccessToken(token: string): boolean {
+  return token.startsWith(ACCESS_TOKEN_PREFIX);
+}
+
+/**
+ * Create a token. The returned token is not stored and cannot be shown again.
+ */
+export async function createAccessToken(
+  userId: string,
+  request: CreateAccessTokenRequest
+): Promise<{ token: string; accessToken: PersonalAccessToken }> {
+  const token = `${ACCESS_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+  const accessToken = await prisma.personalAccessToken.create({
+    data: {
+      userId,
+      name: request.name,
+      tokenHash: hashToken(token),
+      maskedToken: maskToken(token) ?? ACCESS_TOKEN_PREFIX,
+      scopes: [...new Set(request.scopes)],
+      expiresAt:
+        request.expiresInDays !== null
+          ? new Date(Date.now() + request.expiresInDays * DAY_MS)
+          : null,
+    },
+  });
+  return { token, accessToken };
+}
+
+/**
+ * A user's tokens, newest first. Expired tokens stay listed until revoked.
+ */
+export async function listAccessTokens(userId: string): Promise<PersonalAccessToken[]> {
+  return prisma.personalAccessToken.findMany({
+    where: { userId },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Delete one of a user's tokens. Returns false when there is no such token.
+ */
+export async function revokeAccessToken(id: string, userId: string): Promise<boolean> {
+  const { count } = await prisma.personalAccessToken.deleteMany({ where: { id, userId } });
+  return count > 0;
+}
+
+/**
+ * Delete all of a user's tokens, e.g. when a password reset suggests the
+ * account was taken over. Returns how many were deleted.
+ */
+export async function revokeAllAccessTokens(userId: string): Promise<number> {
+  const { count } = await prisma.personalAccessToken.deleteMany({ where: { userId } });
+  return count;
+}
+
+/**
+ * Look up the user behind a token. Returns null for unknown or expired tokens.
+ */
+export async function verifyAccessToken(token: string): Promise<AccessTokenIdentity | null> {
+  if (!isAccessToken(token)) {
+    return null;
+  }
+  const accessToken = await prisma.personalAccessToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: { select: { id: true, email: true, name: true } } },
+  });
+  const now = new Date();
+  if (accessToken === null || (accessToken.expiresAt !== null && accessToken.expiresAt <= now)) {
+    return null;
+  }
+
+  if (
+    accessToken.lastUsedAt === null ||
+    now.getTime() - accessToken.lastUsedAt.getTime() >= LAST_USED_INTERVAL_MS
+  ) {
+    await prisma.personalAccessToken.updateMany({
+      where: { id: accessToken.id },
+      data: { lastUsedAt: now },
+    });
+  }
+
+  return {
+    ...accessToken.user,
+    tokenId: accessToken.id,
+    scopes: accessToken.scopes as AccessTokenScope[],
+  };
+}
@@ -0,0 +1,242 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("@fasterclaw/db", () => ({
+  prisma: {
+    user: {
+      update: vi.fn(),
+      findMany: vi.fn(),
+      delete: vi.fn(),
+    },
+    organization: {
+      findMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    instance: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    accountDeletionAudit: {
+      create: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("./stripe.js", () => ({
+  stripe: {
+    subscriptions: {
+      cancel: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("./jobs.js", () => ({
+  cancelPendingJobs: vi.fn(),
+  enqueueJob: vi.fn(),
+}));
+
+import { prisma } from "@fasterclaw/db";
+import { stripe } from "./stripe.js";
+import { cancelPendingJobs, enqueueJob } from "./jobs.js";
+import {
+  getDeletionGraceDays,
+  requestAccountDeletion,
+  restoreAccount,
+  purgeDeletedAccounts,
+} from "./account-deletion.js";
+
+describe("Account Deletion", () => {
+  const userId = "cjld2cyuq0000t3rmniod1foy";
+  const log = { info: vi.fn(), error: vi.fn() };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-01-01T00:00:00.000Z"));
+    vi.mocked(prisma.user.update).mockImplementation((async ({ data }: any) => data) as any);
+    vi.mocked(prisma.organization.findMany).mockResolvedValue([]);
+    vi.mocked(prisma.instance.findMany).mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    delete process.env.ACCOUNT_DELETION_GRACE_DAYS;
+  });
+
+  describe("getDeletionGraceDays", () => {
+    it("should default to 30 days", () => {
+      expect(getDeletionGraceDays()).toBe(30);
+    });
+
+    it("should read the grace period from the environment", () => {
+      process.env.ACCOUNT_DELETION_GRACE_DAYS = "7";
+      expect(getDeletionGraceDays()).toBe(7);
+
+      process.env.ACCOUNT_DELETION_GRACE_DAYS = "soon";
+      expect(getDeletionGraceDays()).toBe(30);
+    });
+  });
+
+  describe("requestAccountDeletion", () => {
+    const soleOrganizations = { members: { some: { userId }, every: { userId } } };
+
+    it("should cancel billing, queue instance teardown and schedule the purge", async () => {
+      vi.mocked(prisma.organization.findMany).mockResolvedValue([
+        { id: "org-1", subscription: { stripeSubscriptionId: "sub_123" } },
+      ] as any);
+      vi.mocked(prisma.instance.findMany).mockResolvedValue([
+        { id: "inst-1" },
+        { id: "inst-2" },
+      ] as any);
+
+      const status = await requestAccountDeletion({ id: userId }, log);
+
+      expect(prisma.organization.findMany).toHaveBeenCalledWith({
+        where: soleOrganizations,
+        select: { id: true, subscription: { select: { stripeSubscriptionId: true } } },
+      });
+      expect(stripe.subscriptions.cancel).toHaveBeenCalledWith("sub_123");
+      expect(prisma.instance.findMany).toHaveBeenCalledWith({
+        where: { organizationId: { in: ["org-1"] }, status: { not: "DELETED" } },
+        select: { id: true },
+      });
+      expect(cancelPendingJobs).toHaveBeenCalledWith("inst-1");
+      expect(enqueueJob).toHaveBeenCalledWith("inst-1", "DELETE");
+      expect(enqueueJob).toHaveBeenCalledWith("inst-2", "DELETE");
+      expect(status).toEqual({
+        deletionRequestedAt: new Date("2024-01-01T00:00:00.000Z"),
+        deletionScheduledFor: new Date("2024-01-31T00:00:00.000Z"),
+      });
+    });
+
+    it("should still schedule deletion when the Stripe cancel fails", async () => {
+      vi.mocked(prisma.organization.findMany).mockResolvedValue([
+        { id: "org-1", subscription: { stripeSubscriptionId: "sub_123" } },
+      ] as any);
+      vi.mocked(stripe.subscriptions.cancel).mockRejectedValue(new Error("Stripe error"));
+
+      await requestAccountDeletion({ id: userId }, log);
+
+      expect(log.error).toHaveBeenCalledWith(expect.stringContaining("Stripe error"));
+      expect(prisma.user.update).toHaveBeenCalled();
+    });
+
+    it("should leave organizations with other members alone", async () => {
+      await requestAccountDeletion({ id: userId });
+
+      expect(stripe.subscriptions.cancel).not.toHaveBeenCalled();
+      expect(enqueueJob).not.toHaveBeenCalled();
+      expect(prisma.user.update).toHaveBeenCalled();
+    });
+  });
+
+  describe("restoreAccount", () => {
+    it("should clear the scheduled deletion", async () => {
+      const status = await restoreAccount(userId);
+
+      expect(status).toEqual({ deletionRequestedAt: null, deletionScheduledFor: null });
+    });
+  });
+
+  describe("purgeDeletedAccounts", () => {
+    const dueUser = {
+      id: userId,
+      email: "Test@Example.com",
+      stripeCustomerId: null,
+      deletionRequestedAt: new Date("2023-12-01T00:00:00.000Z"),
+    };
+
+    it("should write an audit record and delete the user once instances are gone", async () => {
+      vi.mocked(prisma.user.findMany).mockResolvedValue([dueUser] as any);
+      vi.mocked(prisma.organization.findMany).mockResolvedValue([
+        {
+          id: "org-1",
+          stripeCustomerId: "cus_123",
+          instances: [{ id: "inst-1", status: "DELETED", jobs: [] }],
+        },
+      ] as any);
+
+      const purged = await purgeDeletedAccounts(log);
+
+      expect(purged).toBe(1);
+      expect(prisma.accountDeletionAudit.create).toHaveBeenCalledWith({
+        data: {
+          userId,
+          // sha256("test@example.com")
+          emailHash: "973dfe463ec85785f5f95af5ba3906eedb2d931c24e69824a89ea65dba4e813b",
+          stripeCustomerId: "cus_123",
+          instanceCount: 1,
+          requestedAt: dueUser.deletionRequestedAt,
+        },
+      });
+      expect(prisma.organization.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ["org-1"] } },
+      });
+      expect(prisma.user.delete).toHaveBeenCalledWith({
+        where: { id: userId, deletionScheduledFor: { not: null } },
+      });
+      expect(prisma.$transaction).toHaveBeenCalled();
+    });
+
+    it("should hand instances in shared organizations to an owner", async () => {
+      vi.mocked(prisma.user.findMany).mockResolvedValue([dueUser] as any);
+      vi.mocked(prisma.instance.findMany).mockResolvedValue([
+        {
+          id: "inst-1",
+          organization: {
+            members: [
+              { userId: "operator-1", role: "operator" },
+              { userId: "owner-1", role: "owner" },
+            ],
+          },
+        },
+      ] as any);
+
+      await purgeDeletedAccounts(log);
+
+      expect(prisma.instance.update).toHaveBeenCalledWith({
+        where: { id: "inst-1" },
+        data: { userId: "owner-1" },
+      });
+      expect(prisma.$transaction).toHaveBeenCalled();
+    });
+
+    it("should wait for instances still being torn down and requeue stalled ones", async () => {
+      vi.mocked(prisma.user.findMany).mockResolvedValue([dueUser] as any);
+      vi.mocked(prisma.organization.findMany).mockResolvedValue([
+        {
+          id: "org-1",
+          stripeCustomerId: null,
+          instances: [
+            { id: "inst-1", status: "RUNNING", jobs: [{ id: "job-1" }] },
+            { id: "inst-2", status: "FAILED", jobs: [] },
+          ],
+        },
+      ] as any);
+
+      const purged = await purgeDeletedAccounts(log);
+
+      expect(purged).toBe(0);
+      expect(enqueueJob).toHaveBeenCalledTimes(1);
+      expect(enqueueJob).toHaveBeenCalledWith("inst-2", "DELETE");
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it("should keep going when one purge fails", async () => {
+      vi.mocked(prisma.user.findMany).mockResolvedValue([
+        dueUser,
+        { ...dueUser, id: "cjld2cyuq0001t3rmniod1foy" },
+      ] as any);
+      vi.mocked(prisma.$transaction)
+        .mockRejectedValueOnce(new Error("Record to delete does not exist"))
+        .mockResolvedValueOnce([] as any);
+
+      const purged = await purgeDeletedAccounts(log);
+
+      expect(purged).toBe(1);
+      expect(log.error).toHaveBeenCalledWith(
+        expect.stringContaining("Record to delete does not exist")
+      );
+    });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * Account Deletion
+ * Deleting an account happens in two steps:
+ *
+ *   1. Request: in organizations the user is the only member of, the Stripe
+ *      subscription is canceled and a DELETE job is queued for every instance
+ *      so its provider resources are torn down. The account is scheduled for
+ *      purging after a grace period. Until then the user can still sign in and
+ *      restore the account (but not the instances).
+ *   2. Purge: once the grace period is over and every instance is gone, those
+ *      organizations, the user row and everything hanging off them are removed
+ *      and an AccountDeletionAudit row records that it happened.
+ *
+ * Organizations with other members carry on: instances the user created
+ * there are handed to another member, preferably an owner. Owners have to
+ * pass ownership on before deleting their account (see DELETE /auth/account).
+ *
+ * Settings:
+ *   ACCOUNT_DELETION_GRACE_DAYS → Days before a deleted account is purged (default 30)
+ */
+
+import { createHash } from "crypto";
+import { prisma, type Prisma, type User } from "@fasterclaw/db";
+import { stripe } from "./stripe.js";
+import { cancelPendingJobs, enqueueJob, type JobLogger } from "./jobs.js";
+
+const DEFAULT_GRACE_DAYS = 30;
+const DAY_MS = 24 * 60 * 60_000;
+
+/** Jobs still working on an instance; a DELETE among them will finish the teardown. */
+const ACTIVE_JOB_STATUSES = ["PENDING", "RUNNING"];
+
+/**
+ * Days between requesting deletion and the purge.
+ */
+export function getDeletionGraceDays(): number {
+  const days = Number(process.env.ACCOUNT_DELETION_GRACE_DAYS ?? String(DEFAULT_GRACE_DAYS));
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_GRACE_DAYS;
+}
+
+/**
+ * Organizations the user is the only member of; they go with the account.
+ */
+function soleOrganizations(userId: string): Prisma.OrganizationWhereInput {
+  return { members: { some: { userId }, every: { userId } } };
+}
+
+/**
+ * Queue provider teardown for every instance that is not deleted yet.
+ */
+async function queueInstanceTeardown(where: Prisma.InstanceWhereInput): Promise<number> {
+  const instances = await prisma.instance.findMany({
+    where: { ...where, status: { not: "DELETED" } },
+    select: { id: true },
+  });
+
+  for (const instance of instances) {
+    await cancelPendingJobs(instance.id);
+    await enqueueJob(instance.id, "DELETE");
+  }
+  return instances.length;
+}
+
+/**
+ * An organization the user owns that would be left without an owner, if any.
+ */
+export async function findOrganizationNeedingOwner(
+  userId: string
+): Promise<{ id: string; name: string } | null> {
+  return prisma.organization.findFirst({
+    where: {
+      members: { some: { userId, role: "owner" } },
+      AND: [
+        { members: { some: { userId: { not: userId } } } },
+        { members: { none: { userId: { not: userId }, role: "owner" } } },
+      ],
+    },
+    select: { id: true, name: true },
+  });
+}
+
+/**
+ * Start deleting an account: cancel billing, tear down instances and schedule
+ * the purge, for the organizations only the user belongs to.
+ */
+export async function requestAccountDeletion(
+  user: Pick<User, "id">,
+  log?: JobLogger
+): Promise<Pick<User, "deletionRequestedAt" | "deletionScheduledFor">> {
+  const organizations = await prisma.organization.findMany({
+    where: soleOrganizations(user.id),
+    select: { id: true, subscription: { select: { stripeSubscriptionId: true } } },
+  });
+
+  // A failed cancel should not keep the user from leaving; it is logged for follow-up
+  for (const organization of organizations) {
+    if (organization.subscription === null) {
+      continue;
+    }
+    try {
+      await stripe.subscriptions.cancel(organization.subscription.stripeSubscriptionId);
+    } catch (error: unknown) {
+      log?.error(
+        `Failed to cancel Stripe subscription of organization ${organization.id}: ${String(error)}`
+      );
+    }
+  }
+
+  const queued = await queueInstanceTeardown({
+    organizationId: { in: organizations.map((organization) => organization.id) },
+  });
+  log?.info(`Queued teardown of ${String(queued)} instances for user ${user.id}`);
+
+  const now = new Date();
+  return prisma.user.update({
+    where: { id: user.id },
+    data: {
+      deletionRequestedAt: now,
+      deletionScheduledFor: new Date(now.getTime() + getDeletionGraceDays() * DAY_MS),
+    },
+    select: { deletionRequestedAt: true, deletionScheduledFor: true },
+  });
+}
+
+/**
+ * Hand the instances a user created in organizations that carry on to another
+ * member, so they are not deleted with the user.
+ */
+async function handOverInstances(userId: string): Promise<Prisma.PrismaPromise<unknown>[]> {
+  const instances = await prisma.instance.findMany({
+    where: { userId, organization: { members: { some: { userId: { not: userId } } } } },
+    select: {
+      id: true,
+      organization: {
+        select: {
+          members: {
+            where: { userId: { not: userId } },
+            select: { userId: true, role: true },
+            orderBy: { createdAt: "asc" },
+          },
+        },
+      },
+    },
+  });
+
+  return instances.flatMap((instance) => {
+    const members = instance.organization?.members ?? [];
+    const heir = members.find((member) => member.role === "owner") ?? members.at(0);
+    return heir !== undefined
+      ? [prisma.instance.update({ where: { id: instance.id }, data: { userId: heir.userId } })]
+      : [];
+  });
+}
+
+/**
+ * Cancel a pending deletion. Instances torn down in the meantime stay deleted.
+ */
+export async function restoreAccount(
+  userId: string
+): Promise<Pick<User, "deletionRequestedAt" | "deletionScheduledFor">> {
+  return prisma.user.update({
+    where: { id: userId },
+    data: { deletionRequestedAt: null, deletionScheduledFor: null },
+    select: { deletionRequestedAt: true, deletionScheduledFor: true },
+  });
+}
+
+/**
+ * Purge accounts whose grace period is over.
+ * An account is only purged once all its instances are deleted, so no running
+ * machine loses its row; teardown that gave up is queued again.
+ * Call this on an interval after the server starts.
+ */
+export async function purgeDeletedAccounts(log?: JobLogger): Promise<number> {
+  const users = await prisma.user.findMany({
+    where: { deletionScheduledFor: { lte: new Date() } },
+    select: {
+      id: true,
+      email: true,
+      stripeCustomerId: true,
+      deletionRequestedAt: true,
+    },
+  });
+
+  let purged = 0;
+  for (const user of users) {
+    const organizations = await prisma.organization.findMany({
+      where: soleOrganizations(user.id),
+      select: {
+        id: true,
+        stripeCustomerId: true,
+        instances: {
+          select: {
+            id: true,
+            status: true,
+            jobs: { where: { status: { in: ACTIVE_JOB_STATUSES } }, select: { id: true } },
+          },
+        },
+      },
+    });
+    const instances = organizations.flatMap((organization) => organization.instances);
+
+    const remaining = instances.filter((instance) => instance.status !== "DELETED");
+    if (remaining.length > 0) {
+      for (const instance of remaining.filter((candidate) => candidate.jobs.length === 0)) {
+        await enqueueJob(instance.id, "DELETE");
+      }
+      log?.info(
+        `Not purging user ${user.id} yet: ${String(remaining.length)} instances still being deleted`
+      );
+      continue;
+    }
+
+    try {
+      const handovers = await handOverInstances(user.id);
+      await prisma.$transaction([
+        prisma.accountDeletionAudit.create({
+          data: {
+            userId: user.id,
+            emailHash: createHash("sha256").update(user.email.toLowerCase()).digest("hex"),
+            stripeCustomerId:
+              organizations.find((organization) => organization.stripeCustomerId !== null)
+                ?.stripeCustomerId ?? user.stripeCustomerId,
+            instanceCount: instances.length,
+            requestedAt: user.deletionRequestedAt ?? new Date(),
+          },
+        }),
+        ...handovers,
+        // Instances, their jobs and events, and the subscription cascade
+        prisma.organization.deleteMany({
+          where: { id: { in: organizations.map((organization) => organization.id) } },
+        }),
+        // Memberships of other organizations cascade.
+        // Fails (and rolls back the audit) if the account was restored meanwhile.
+        prisma.user.delete({ where: { id: user.id, deletionScheduledFor: { not: null } } }),
+      ]);
+      purged += 1;
+      log?.info(`Purged deleted account ${user.id}`);
+    } catch (error) {
+      log?.error(`Failed to purge user ${user.id}: ${String(error)}`);
+    }
+  }
+  return purged;
+}
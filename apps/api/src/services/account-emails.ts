@@ -0,0 +1,110 @@
+/**
+ * Account Emails
+ * The verification, password reset and invitation messages. Links point at the
+ * web app (FRONTEND_URL), which posts the token back to the API.
+ */
+
+import { createAccountToken, type AccountTokenUser } from "./account-tokens.js";
+import { sendMail } from "./mailer/index.js";
+
+function frontendLink(path: string, token: string): string {
+  const frontendUrl = process.env.FRONTEND_URL ?? "http://localhost:3000";
+  return `${frontendUrl}${path}?${new URLSearchParams({ token }).toString()}`;
+}
+
+// For text users choose, such as organization names
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function html(paragraphs: string[], link: { url: string; label: string }): string {
+  return [
+    ...paragraphs.map((paragraph) => `<p>${paragraph}</p>`),
+    `<p><a href="${link.url}">${link.label}</a></p>`,
+  ].join("\n");
+}
+
+/**
+ * Ask the user to confirm their address.
+ */
+export async function sendVerificationEmail(user: AccountTokenUser): Promise<void> {
+  const url = frontendLink("/verify-email", createAccountToken("verify-email", user));
+  await sendMail({
+    to: user.email,
+    subject: "Verify your FasterClaw email address",
+    text: [
+      "Welcome to FasterClaw!",
+      "",
+      "Confirm your email address by opening this link:",
+      url,
+      "",
+      "If you did not create an account, you can ignore this email.",
+    ].join("\n"),
+    html: html(
+      ["Welcome to FasterClaw!", "If you did not create an account, you can ignore this email."],
+      { url, label: "Verify email address" }
+    ),
+  });
+}
+
+/**
+ * Send a link for choosing a new password.
+ */
+export async function sendPasswordResetEmail(user: AccountTokenUser): Promise<void> {
+  const url = frontendLink("/reset-password", createAccountToken("reset-password", user));
+  await sendMail({
+    to: user.email,
+    subject: "Reset your FasterClaw password",
+    text: [
+      "Someone asked to reset the password of your FasterClaw account.",
+      "",
+      "Choose a new password by opening this link:",
+      url,
+      "",
+      "If it was not you, you can ignore this email; your password stays the same.",
+    ].join("\n"),
+    html: html(
+      [
+        "Someone asked to reset the password of your FasterClaw account.",
+        "If it was not you, you can ignore this email; your password stays the same.",
+      ],
+      { url, label: "Choose a new password" }
+    ),
+  });
+}
+
+/**
+ * Invite someone to an organization. The token comes from createInvitation.
+ */
+export async function sendInvitationEmail(invitation: {
+  email: string;
+  token: string;
+  organizationName: string;
+  invitedBy: string;
+}): Promise<void> {
+  const url = frontendLink("/invitations", invitation.token);
+  const invited = `${invitation.invitedBy} invited you to join ${invitation.organizationName} on FasterClaw.`;
+  await sendMail({
+    to: invitation.email,
+    subject: `Join ${invitation.organizationName} on FasterClaw`,
+    text: [
+      invited,
+      "",
+      "Accept the invitation by opening this link, signed in as this email address:",
+      url,
+      "",
+      "If you were not expecting it, you can ignore this email.",
+    ].join("\n"),
+    html: html(
+      [
+        `${escapeHtml(invitation.invitedBy)} invited you to join ${escapeHtml(invitation.organizationName)} on FasterClaw.`,
+        "If you were not expecting it, you can ignore this email.",
+      ],
+      { url, label: "Accept invitation" }
+    ),
+  });
+}
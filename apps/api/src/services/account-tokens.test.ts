@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("@fasterclaw/db", () => ({
+  prisma: {
+    user: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from "@fasterclaw/db";
+import { createAccountToken, verifyAccountToken } from "./account-tokens.js";
+
+describe("Account Tokens", () => {
+  const originalSecret = process.env.API_JWT_SECRET;
+  const user = {
+    id: "cjld2cyuq0000t3rmniod1foy",
+    email: "test@example.com",
+    passwordHash: "hash",
+    emailVerifiedAt: null,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.API_JWT_SECRET = "test-secret";
+    vi.mocked(prisma.user.findUnique).mockResolvedValue(user as any);
+  });
+
+  afterEach(() => {
+    if (originalSecret === undefined) {
+      delete process.env.API_JWT_SECRET;
+    } else {
+      process.env.API_JWT_SECRET = originalSecret;
+    }
+  });
+
+  it("should return the user of a valid token", async () => {
+    const token = createAccountToken("verify-email", user);
+
+    expect(await verifyAccountToken("verify-email", token)).toEqual(user);
+  });
+
+  it("should reject tokens for another purpose", async () => {
+    const token = createAccountToken("verify-email", user);
+
+    expect(await verifyAccountToken("reset-password", token)).toBeNull();
+    expect(prisma.user.findUnique).not.toHaveBeenCalled();
+  });
+
+  it("should reject tampered and malformed tokens", async () => {
+    const [, signature] = createAccountToken("reset-password", user).split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ sub: "someone-else", fp: "x", exp: 9999999999 })
+    ).toString("base64url");
+
+    expect(await verifyAccountToken("reset-password", `${forged}.${signature}`)).toBeNull();
+    expect(await verifyAccountToken("reset-password", "not-a-token")).toBeNull();
+    expect(await verifyAccountToken("reset-password", "a.b.c")).toBeNull();
+  });
+
+  it("should reject tokens signed with another secret", async () => {
+    const token = createAccountToken("reset-password", user);
+    process.env.API_JWT_SECRET = "rotated-secret";
+
+    expect(await verifyAccountToken("reset-password", token)).toBeNull();
+  });
+
+  it("should reject expired tokens", async () => {
+    const token = createAccountToken("reset-password", user, new Date(Date.now() - 61 * 60_000));
+
+    expect(await verifyAccountToken("reset-password", token)).toBeNull();
+  });
+
+  it("should be single-use: changing the account state invalidates the token", async () => {
+    const reset = createAccountToken("reset-password", user);
+    const verify = createAccountToken("verify-email", user);
+    vi.mocked(prisma.user.findUnique).mockResolvedValue({
+      ...user,
+      passwordHash: "new-hash",
+      emailVerifiedAt: new Date(),
+    } as any);
+
+    expect(await verifyAccountToken("reset-password", reset)).toBeNull();
+    expect(await verifyAccountToken("verify-email", verify)).toBeNull();
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Account Tokens
+ * Signed, single-use tokens for the links in account emails (verifying an
+ * address and resetting a password) and for the second step of signing in
+ * with two-factor authentication. A token is "<payload>.<signature>"; the
+ * payload names the user and when the token expires, and the signature is an
+ * HMAC-SHA256 over the purpose and payload keyed with API_JWT_SECRET.
+ *
+ * Tokens are not stored. Each one carries a fingerprint of the account state
+ * it changes (the password hash for resets, the address and whether it was
+ * verified for verification), so using a token invalidates it together with
+ * every other token issued for the same purpose. Two-factor challenges are
+ * bound to the password hash too, and only prove the password was right.
+ *
+ * Settings:
+ *   PASSWORD_RESET_TTL_MINUTES   → How long a reset link works (default 60)
+ *   EMAIL_VERIFICATION_TTL_HOURS → How long a verification link works (default 48)
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { prisma } from "@fasterclaw/db";
+
+export type AccountTokenPurpose = "verify-email" | "reset-password" | "two-factor-login";
+
+/** The parts of a user a token is bound to */
+export interface AccountTokenUser {
+  id: string;
+  email: string;
+  passwordHash: string;
+  emailVerifiedAt: Date | null;
+}
+
+const DEFAULT_RESET_TTL_MINUTES = 60;
+const DEFAULT_VERIFICATION_TTL_HOURS = 48;
+const TWO_FACTOR_CHALLENGE_TTL_MINUTES = 5;
+
+function readPositive(value: string | undefined, fallback: number): number {
+  const parsed = Number(value ?? String(fallback));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+const ttlMs: Record<AccountTokenPurpose, () => number> = {
+  "reset-password": () =>
+    readPositive(process.env.PASSWORD_RESET_TTL_MINUTES, DEFAULT_RESET_TTL_MINUTES) * 60_000,
+  "verify-email": () =>
+    readPositive(process.env.EMAIL_VERIFICATION_TTL_HOURS, DEFAULT_VERIFICATION_TTL_HOURS) *
+    60 *
+    60_000,
+  "two-factor-login": () => TWO_FACTOR_CHALLENGE_TTL_MINUTES * 60_000,
+};
+
+/**
+ * Seconds a newly issued token works for.
+ */
+export function getAccountTokenTtlSeconds(purpose: AccountTokenPurpose): number {
+  return Math.round(ttlMs[purpose]() / 1000);
+}
+
+function getSecret(): string {
+  const secret = process.env.API_JWT_SECRET;
+  if (secret === undefined || secret === "") {
+    throw new Error("API_JWT_SECRET environment variable is required");
+  }
+  return secret;
+}
+
+function sign(purpose: AccountTokenPurpose, payload: string): Buffer {
+  return createHmac("sha256", getSecret()).update(`${purpose}.${payload}`).digest();
+}
+
+/**
+ * Changes whenever the account state the token is for changes.
+ */
+function fingerprint(purpose: AccountTokenPurpose, user: AccountTokenUser): string {
+  const state =
+    purpose === "verify-email"
+      ? `${user.email}:${user.emailVerifiedAt?.toISOString() ?? ""}`
+      : user.passwordHash;
+  return createHash("sha256").update(`${purpose}:${state}`).digest("base64url").slice(0, 22);
+}
+
+/**
+ * Issue a token for a user.
+ */
+export function createAccountToken(
+  purpose: AccountTokenPurpose,
+  user: AccountTokenUser,
+  now = new Date()
+): string {
+  const payload = Buffer.from(
+    JSON.stringify({
+      sub: user.id,
+      fp: fingerprint(purpose, user),
+      exp: Math.floor((now.getTime() + ttlMs[purpose]()) / 1000),
+    })
+  ).toString("base64url");
+  return `${payload}.${sign(purpose, payload).toString("base64url")}`;
+}
+
+/**
+ * The user a token was issued for. Returns null when the token is forged,
+ * expired or was already used.
+ */
+export async function verifyAccountToken(
+  purpose: AccountTokenPurpose,
+  token: string
+): Promise<AccountTokenUser | null> {
+  const parts = token.split(".");
+  if (parts.length !== 2 || parts[0] === "") {
+    return null;
+  }
+  const [payload, signature] = parts;
+
+  const expected = sign(purpose, payload);
+  const presented = Buffer.from(signature, "base64url");
+  if (presented.length !== expected.length || !timingSafeEqual(presented, expected)) {
+    return null;
+  }
+
+  let claims: { sub?: unknown; fp?: unknown; exp?: unknown };
+  try {
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as typeof claims;
+  } catch {
+    return null;
+  }
+  if (
+    typeof claims.sub !== "string" ||
+    typeof claims.exp !== "number" ||
+    claims.exp * 1000 <= Date.now()
+  ) {
+    return null;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: claims.sub },
+    select: { id: true, email: true, passwordHash: true, emailVerifiedAt: true },
+  });
+  if (user === null || claims.fp !== fingerprint(purpose, user)) {
+    return null;
+  }
+  return user;
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("@fasterclaw/db", () => ({
+  prisma: {
+    aiProviderKey: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from "@fasterclaw/db";
+import { resolveInstanceApiKey, validateAiKey } from "./ai-keys.js";
+
+describe("AI Provider Keys", () => {
+  const originalEnv = { ...process.env };
+  const userId = "cjld2cyuq0000t3rmniod1foy";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    vi.unstubAllGlobals();
+  });
+
+  describe("resolveInstanceApiKey", () => {
+    it("should use the platform key by default", async () => {
+      process.env.OPENAI_KEY = "sk-platform";
+
+      const resolved = await resolveInstanceApiKey({
+        userId,
+        aiModel: "gpt-4o",
+        aiKeySource: "platform",
+      });
+
+      expect(resolved).toEqual({ provider: "openai", apiKey: "sk-platform" });
+      expect(prisma.aiProviderKey.findUnique).not.toHaveBeenCalled();
+    });
+
+    it("should throw when the platform key is not configured", async () => {
+      delete process.env.GEMINI_API_KEY;
+
+      await expect(
+        resolveInstanceApiKey({ userId, aiModel: "gemini-2.0-flash", aiKeySource: "platform" })
+      ).rejects.toThrow("Set GEMINI_API_KEY environment variable");
+    });
+
+    it("should use the user's saved key", async () => {
+      vi.mocked(prisma.aiProviderKey.findUnique).mockResolvedValue({
+        apiKey: "sk-ant-own",
+      } as any);
+
+      const resolved = await resolveInstanceApiKey({
+        userId,
+        aiModel: "claude-sonnet-4-0",
+        aiKeySource: "own",
+      });
+
+      expect(resolved).toEqual({ provider: "anthropic", apiKey: "sk-ant-own" });
+      expect(prisma.aiProviderKey.findUnique).toHaveBeenCalledWith({
+        where: { userId_provider: { userId, provider: "anthropic" } },
+        select: { apiKey: true },
+      });
+    });
+
+    it("should throw for a model that is not in the catalog", async () => {
+      await expect(
+        resolveInstanceApiKey({ userId, aiModel: "gpt-2", aiKeySource: "platform" })
+      ).rejects.toThrow('Unknown AI model "gpt-2"');
+    });
+
+    it("should throw when the user has no saved key", async () => {
+      vi.mocked(prisma.aiProviderKey.findUnique).mockResolvedValue(null);
+
+      await expect(
+        resolveInstanceApiKey({ userId, aiModel: "claude-sonnet-4-0", aiKeySource: "own" })
+      ).rejects.toThrow("No Anthropic API key saved for this account");
+    });
+  });
+
+  describe("validateAiKey", () => {
+    it("should accept a key the provider accepts", async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response("{}", { status: 200 }));
+      vi.stubGlobal("fetch", fetchMock);
+
+      await expect(validateAiKey("openai", "sk-good")).resolves.toEqual({ valid: true });
+      expect(fetchMock).toHaveBeenCalledWith(
+        "https://api.openai.com/v1/models",
+        expect.objectContaining({ headers: { Authorization: "Bearer sk-good" } })
+      );
+    });
+
+    it("should reject a key the provider refuses", async () => {
+      vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("{}", { status: 401 })));
+
+      await expect(validateAiKey("anthropic", "sk-bad")).resolves.toEqual({
+        valid: false,
+        error: "Anthropic rejected this API key",
+      });
+    });
+
+    it("should throw when the provider has an outage", async () => {
+      vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("{}", { status: 503 })));
+
+      await expect(validateAiKey("google", "key")).rejects.toThrow(
+        "Google API returned 503 while validating the key"
+      );
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * AI Provider Keys
+ * Instances call their AI provider either with the platform's key (from the
+ * environment) or with a key the user saved for that provider. Saved keys are
+ * encrypted by the @fasterclaw/db encryption extension and checked against the
+ * provider before they are stored.
+ */
+
+import { prisma } from "@fasterclaw/db";
+import type { AiKeyProvider, AiKeySource } from "@fasterclaw/shared";
+import { getModelVendor } from "./models.js";
+
+const PROVIDER_NAMES: Record<AiKeyProvider, string> = {
+  openai: "OpenAI",
+  anthropic: "Anthropic",
+  google: "Google",
+};
+
+const PLATFORM_KEY_ENV_VARS: Record<AiKeyProvider, string> = {
+  openai: "OPENAI_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+  google: "GEMINI_API_KEY",
+};
+
+/**
+ * Cheapest authenticated call per provider: listing models.
+ */
+const VALIDATION_REQUESTS: Record<AiKeyProvider, (apiKey: string) => [string, RequestInit]> = {
+  openai: (apiKey) => [
+    "https://api.openai.com/v1/models",
+    { headers: { Authorization: `Bearer ${apiKey}` } },
+  ],
+  anthropic: (apiKey) => [
+    "https://api.anthropic.com/v1/models",
+    { headers: { "x-api-key": apiKey, "anthropic-version": "2023-06-01" } },
+  ],
+  google: (apiKey) => [
+    "https://generativelanguage.googleapis.com/v1beta/models",
+    { headers: { "x-goog-api-key": apiKey } },
+  ],
+};
+
+export interface AiKeyValidationResult {
+  valid: boolean;
+  error?: string;
+}
+
+/**
+ * Display name of an AI provider, e.g. "OpenAI".
+ */
+export function getAIProviderName(provider: AiKeyProvider): string {
+  return PROVIDER_NAMES[provider];
+}
+
+/**
+ * Read a stored aiKeySource; anything unexpected means the platform key.
+ */
+export function toAiKeySource(value: string): AiKeySource {
+  return value === "own" ? "own" : "platform";
+}
+
+/**
+ * Get the platform's API key for a provider.
+ *
+ * @throws Error if the matching environment variable is not set
+ */
+export function getPlatformApiKey(provider: AiKeyProvider): string {
+  const envVar = PLATFORM_KEY_ENV_VARS[provider];
+  const key = process.env[envVar];
+  if (key === undefined || key === "") {
+    throw new Error(
+      `Missing API key for provider "${provider}". Set ${envVar} environment variable.`
+    );
+  }
+  return key;
+}
+
+/**
+ * Get the key a user saved for a provider, decrypted, or null if there is none.
+ */
+export async function getUserApiKey(
+  userId: string,
+  provider: AiKeyProvider
+): Promise<string | null> {
+  const saved = await prisma.aiProviderKey.findUnique({
+    where: { userId_provider: { userId, provider } },
+    select: { apiKey: true },
+  });
+  return saved?.apiKey ?? null;
+}
+
+/**
+ * Pick the provider and key an instance should run with.
+ *
+ * @throws Error if the model is not in the catalog, or the instance uses its
+ *   owner's key and none is saved
+ */
+export async function resolveInstanceApiKey(instance: {
+  userId: string;
+  aiModel: string;
+  aiKeySource: string;
+}): Promise<{ provider: AiKeyProvider; apiKey: string }> {
+  const provider = getModelVendor(instance.aiModel);
+
+  if (toAiKeySource(instance.aiKeySource) === "platform") {
+    return { provider, apiKey: getPlatformApiKey(provider) };
+  }
+
+  const apiKey = await getUserApiKey(instance.userId, provider);
+  if (apiKey === null) {
+    throw new Error(`No ${getAIProviderName(provider)} API key saved for this account`);
+  }
+  return { provider, apiKey };
+}
+
+/**
+ * Check a key against the provider's API.
+ * A rejected key resolves as invalid; a provider that cannot be reached throws.
+ */
+export async function validateAiKey(
+  provider: AiKeyProvider,
+  apiKey: string
+): Promise<AiKeyValidationResult> {
+  const [url, init] = VALIDATION_REQUESTS[provider](apiKey);
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(10_000) });
+
+  if (response.ok) {
+    return { valid: true };
+  }
+  // Google answers an unknown key with 400 API_KEY_INVALID
+  if (response.status === 400 || response.status === 401 || response.status === 403) {
+    return { valid: false, error: `${getAIProviderName(provider)} rejected this API key` };
+  }
+  throw new Error(
+    `${getAIProviderName(provider)} API returned ${String(response.status)} while validating the key`
+  );
+}
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("@fasterclaw/db", () => ({
+  prisma: {
+    instanceChannel: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from "@fasterclaw/db";
+import {
+  findDuplicateChannel,
+  getChannelConfig,
+  getChannelEnv,
+  loadInstanceChannels,
+  toTelegramAccess,
+  validateChannel,
+} from "./channels.js";
+
+describe("Instance Channels", () => {
+  const instanceId = "cjld2cyuq0001t3rmniod1foz";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("getChannelEnv", () => {
+    it("should combine the variables of every channel", () => {
+      expect(
+        getChannelEnv([
+          { type: "telegram", botToken: "123456:ABC" },
+          { type: "slack", botToken: "xoxb-1", appToken: "xapp-1" },
+        ])
+      ).toEqual({
+        TELEGRAM_BOT_TOKEN: "123456:ABC",
+        SLACK_BOT_TOKEN: "xoxb-1",
+        SLACK_APP_TOKEN: "xapp-1",
+      });
+    });
+  });
+
+  describe("getChannelConfig", () => {
+    const access = {
+      dmPolicy: "pairing" as const,
+      allowFrom: [],
+      groupPolicy: "allowlist" as const,
+    };
+
+    it("should enable each channel and its plugin", () => {
+      expect(getChannelConfig([{ type: "discord", botToken: "MTA.abc" }], access)).toEqual({
+        "channels.discord.enabled": true,
+        "plugins.entries.discord.enabled": true,
+      });
+    });
+
+    it("should apply the access policy to Telegram", () => {
+      expect(
+        getChannelConfig([{ type: "telegram", botToken: "123456:ABC" }], {
+          dmPolicy: "allowlist",
+          allowFrom: ["123456789", "@support_team"],
+          groupPolicy: "disabled",
+        })
+      ).toMatchObject({
+        "channels.telegram.dmPolicy": "allowlist",
+        "channels.telegram.allowFrom": ["123456789", "@support_team"],
+        "channels.telegram.groupPolicy": "disabled",
+      });
+    });
+
+    it("should open Telegram DMs with a wildcard allowlist", () => {
+      expect(
+        getChannelConfig([{ type: "telegram", botToken: "123456:ABC" }], {
+          ...access,
+          dmPolicy: "open",
+        })
+      ).toMatchObject({ "channels.telegram.allowFrom": ["*"] });
+    });
+  });
+
+  describe("toTelegramAccess", () => {
+    it("should fall back to the defaults for unknown policies", () => {
+      expect(
+        toTelegramAccess({
+          telegramDmPolicy: "everyone",
+          telegramAllowFrom: ["123456789"],
+          telegramGroupPolicy: "allowlist",
+        })
+      ).toEqual({ dmPolicy: "pairing", allowFrom: ["123456789"], groupPolicy: "allowlist" });
+    });
+  });
+
+  describe("findDuplicateChannel", () => {
+    it("should find a type given twice", () => {
+      expect(
+        findDuplicateChannel([
+          { type: "discord", botToken: "a" },
+          { type: "telegram", botToken: "b" },
+          { type: "discord", botToken: "c" },
+        ])
+      ).toBe("discord");
+      expect(findDuplicateChannel([{ type: "discord", botToken: "a" }])).toBeNull();
+    });
+  });
+
+  describe("loadInstanceChannels", () => {
+    it("should return the saved channels", async () => {
+      vi.mocked(prisma.instanceChannel.findMany).mockResolvedValue([
+        { type: "slack", botToken: "xoxb-1", appToken: "xapp-1" },
+        { type: "discord", botToken: "MTA.abc", appToken: null },
+      ] as any);
+
+      await expect(
+        loadInstanceChannels({ id: instanceId, telegramBotToken: null })
+      ).resolves.toEqual([
+        { type: "slack", botToken: "xoxb-1", appToken: "xapp-1" },
+        { type: "discord", botToken: "MTA.abc" },
+      ]);
+    });
+
+    it("should read a legacy Telegram token as a Telegram channel", async () => {
+      vi.mocked(prisma.instanceChannel.findMany).mockResolvedValue([]);
+
+      await expect(
+        loadInstanceChannels({ id: instanceId, telegramBotToken: "123456:ABC" })
+      ).resolves.toEqual([{ type: "telegram", botToken: "123456:ABC" }]);
+    });
+
+    it("should prefer a saved Telegram channel over the legacy token", async () => {
+      vi.mocked(prisma.instanceChannel.findMany).mockResolvedValue([
+        { type: "telegram", botToken: "654321:NEW", appToken: null },
+      ] as any);
+
+      await expect(
+        loadInstanceChannels({ id: instanceId, telegramBotToken: "123456:OLD" })
+      ).resolves.toEqual([{ type: "telegram", botToken: "654321:NEW" }]);
+    });
+  });
+
+  describe("validateChannel", () => {
+    it("should name the Telegram bot a token belongs to", async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(
+          new Response(JSON.stringify({ ok: true, result: { first_name: "Support" } }))
+        );
+      vi.stubGlobal("fetch", fetchMock);
+
+      await expect(validateChannel({ type: "telegram", botToken: "123456:ABC" })).resolves.toEqual({
+        valid: true,
+        botName: "Support",
+      });
+      expect(fetchMock).toHaveBeenCalledWith(
+        "https://api.telegram.org/bot123456:ABC/getMe",
+        expect.anything()
+      );
+    });
+
+    it("should reject a token Discord refuses", async () => {
+      vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("{}", { status: 401 })));
+
+      await expect(validateChannel({ type: "discord", botToken: "bad" })).resolves.toEqual({
+        valid: false,
+        error: "Discord rejected this token",
+      });
+    });
+
+    it("should check both Slack tokens", async () => {
+      vi.stubGlobal(
+        "fetch",
+        vi
+          .fn()
+          .mockResolvedValueOnce(new Response(JSON.stringify({ ok: true, user: "helper" })))
+          .mockResolvedValueOnce(new Response(JSON.stringify({ ok: false, error: "invalid_auth" })))
+      );
+
+      await expect(
+        validateChannel({ type: "slack", botToken: "xoxb-1", appToken: "xapp-bad" })
+      ).resolves.toEqual({ valid: false, error: "Slack rejected this token" });
+    });
+
+    it("should throw when the platform has an outage", async () => {
+      vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("{}", { status: 503 })));
+
+      await expect(validateChannel({ type: "discord", botToken: "MTA.abc" })).rejects.toThrow(
+        "Discord API returned 503 while validating the token"
+      );
+    });
+  });
+});
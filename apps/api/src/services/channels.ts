@@ -0,0 +1,291 @@
+/**
+ * Instance Channels
+ * The chat platforms an instance answers on (Telegram, Discord, Slack). Each
+ * channel has its own credentials, encrypted by the @fasterclaw/db encryption
+ * extension, a check against the platform's API, the environment variables
+ * OpenClaw reads the credentials from and the OpenClaw config keys that turn
+ * the channel on. Telegram channels also carry the instance's access policy.
+ */
+
+import { prisma } from "@fasterclaw/db";
+import {
+  TelegramDmPolicySchema,
+  TelegramGroupPolicySchema,
+  type ChannelInput,
+  type ChannelType,
+  type TelegramAccess,
+  type ValidateChannelResponse,
+} from "@fasterclaw/shared";
+import type { OpenClawConfig } from "./providers/openclaw-config.js";
+
+interface ChannelDefinition {
+  displayName: string;
+  /** Environment variables OpenClaw reads the credentials from */
+  env: (channel: ChannelInput) => Record<string, string>;
+  /** OpenClaw config keys and values enabling the channel */
+  config: OpenClawConfig;
+  /** Cheapest authenticated call identifying the bot; resolves with its name */
+  identify: (channel: ChannelInput) => Promise<string | null>;
+}
+
+/**
+ * Call a platform API, returning the parsed body or null if it rejected the
+ * credentials. Any other failure throws.
+ */
+async function callPlatform<T>(
+  displayName: string,
+  url: string,
+  init: RequestInit
+): Promise<T | null> {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(10_000) });
+  if (response.status === 401 || response.status === 403 || response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(
+      `${displayName} API returned ${String(response.status)} while validating the token`
+    );
+  }
+  return (await response.json()) as T;
+}
+
+const CHANNELS: Record<ChannelType, ChannelDefinition> = {
+  telegram: {
+    displayName: "Telegram",
+    env: (channel) => ({ TELEGRAM_BOT_TOKEN: channel.botToken }),
+    config: {
+      "channels.telegram.enabled": true,
+      "plugins.entries.telegram.enabled": true,
+    },
+    identify: async (channel) => {
+      const data = await callPlatform<{ ok: boolean; result?: { first_name: string } }>(
+        "Telegram",
+        `https://api.telegram.org/bot${channel.botToken}/getMe`,
+        {}
+      );
+      return data?.ok === true && data.result !== undefined ? data.result.first_name : null;
+    },
+  },
+  discord: {
+    displayName: "Discord",
+    env: (channel) => ({ DISCORD_BOT_TOKEN: channel.botToken }),
+    config: {
+      "channels.discord.enabled": true,
+      "plugins.entries.discord.enabled": true,
+    },
+    identify: async (channel) => {
+      const data = await callPlatform<{ username: string }>(
+        "Discord",
+        "https://discord.com/api/v10/users/@me",
+        { headers: { Authorization: `Bot ${channel.botToken}` } }
+      );
+      return data?.username ?? null;
+    },
+  },
+  slack: {
+    displayName: "Slack",
+    env: (channel) => ({
+      SLACK_BOT_TOKEN: channel.botToken,
+      ...(channel.type === "slack" && { SLACK_APP_TOKEN: channel.appToken }),
+    }),
+    config: {
+      "channels.slack.enabled": true,
+      "plugins.entries.slack.enabled": true,
+    },
+    identify: async (channel) => {
+      if (channel.type !== "slack") {
+        return null;
+      }
+      // Slack answers bad tokens with 200 and ok: false
+      const bot = await callPlatform<{ ok: boolean; user?: string }>(
+        "Slack",
+        "https://slack.com/api/auth.test",
+        { method: "POST", headers: { Authorization: `Bearer ${channel.botToken}` } }
+      );
+      if (bot?.ok !== true) {
+        return null;
+      }
+      const app = await callPlatform<{ ok: boolean }>(
+        "Slack",
+        "https://slack.com/api/apps.connections.open",
+        { method: "POST", headers: { Authorization: `Bearer ${channel.appToken}` } }
+      );
+      return app?.ok === true ? (bot.user ?? "Slack bot") : null;
+    },
+  },
+};
+
+/**
+ * Display name of a channel type, e.g. "Discord".
+ */
+export function getChannelName(type: ChannelType): string {
+  return CHANNELS[type].displayName;
+}
+
+/**
+ * Read a stored channel type, or null for a type this version does not know.
+ */
+export function toChannelType(value: string): ChannelType | null {
+  return value in CHANNELS ? (value as ChannelType) : null;
+}
+
+/**
+ * Check channel credentials against the platform's API.
+ * Rejected credentials resolve as invalid; a platform that cannot be reached throws.
+ */
+export async function validateChannel(channel: ChannelInput): Promise<ValidateChannelResponse> {
+  const botName = await CHANNELS[channel.type].identify(channel);
+  if (botName === null) {
+    return { valid: false, error: `${getChannelName(channel.type)} rejected this token` };
+  }
+  return { valid: true, botName };
+}
+
+/**
+ * Environment variables carrying the credentials of an instance's channels.
+ */
+export function getChannelEnv(channels: ChannelInput[]): Record<string, string> {
+  return Object.fromEntries(
+    channels.flatMap((channel) => Object.entries(CHANNELS[channel.type].env(channel)))
+  );
+}
+
+/**
+ * OpenClaw config keys enabling an instance's channels, with the Telegram
+ * access policy applied to its Telegram channel.
+ */
+export function getChannelConfig(
+  channels: ChannelInput[],
+  telegramAccess: TelegramAccess
+): OpenClawConfig {
+  const config: OpenClawConfig = Object.fromEntries(
+    channels.flatMap((channel) => Object.entries(CHANNELS[channel.type].config))
+  );
+  if (channels.some((channel) => channel.type === "telegram")) {
+    const { dmPolicy, allowFrom, groupPolicy } = telegramAccess;
+    // OpenClaw only accepts an open DM policy together with a wildcard allowlist
+    config["channels.telegram.dmPolicy"] = dmPolicy;
+    config["channels.telegram.allowFrom"] = dmPolicy === "open" ? ["*"] : allowFrom;
+    config["channels.telegram.groupPolicy"] = groupPolicy;
+    config["channels.telegram.groupAllowFrom"] = allowFrom;
+  }
+  return config;
+}
+
+/**
+ * Read an instance's stored Telegram access policy, falling back to the
+ * defaults for values this version does not know.
+ */
+export function toTelegramAccess(instance: {
+  telegramDmPolicy: string;
+  telegramAllowFrom: string[];
+  telegramGroupPolicy: string;
+}): TelegramAccess {
+  const dmPolicy = TelegramDmPolicySchema.safeParse(instance.telegramDmPolicy);
+  const groupPolicy = TelegramGroupPolicySchema.safeParse(instance.telegramGroupPolicy);
+  return {
+    dmPolicy: dmPolicy.success ? dmPolicy.data : "pairing",
+    allowFrom: instance.telegramAllowFrom,
+    groupPolicy: groupPolicy.success ? groupPolicy.data : "allowlist",
+  };
+}
+
+/**
+ * Check that a Telegram access policy lets someone in; returns the error, or null.
+ */
+export function checkTelegramAccess(access: TelegramAccess): string | null {
+  if (access.dmPolicy === "allowlist" && access.allowFrom.length === 0) {
+    return "Add at least one Telegram user to the allowlist";
+  }
+  return null;
+}
+
+/**
+ * Columns of an InstanceChannel row holding a channel's credentials.
+ */
+export function toChannelRecord(channel: ChannelInput): {
+  type: ChannelType;
+  botToken: string;
+  appToken: string | null;
+} {
+  return {
+    type: channel.type,
+    botToken: channel.botToken,
+    appToken: channel.type === "slack" ? channel.appToken : null,
+  };
+}
+
+/**
+ * Find the first channel type that appears more than once, or null.
+ */
+export function findDuplicateChannel(channels: ChannelInput[]): ChannelType | null {
+  const seen = new Set<ChannelType>();
+  for (const { type } of channels) {
+    if (seen.has(type)) {
+      return type;
+    }
+    seen.add(type);
+  }
+  return null;
+}
+
+/**
+ * Load an instance's channels with their credentials, decrypted. Instances
+ * created before channels existed get their legacy Telegram token as a
+ * Telegram channel until one is saved.
+ */
+export async function loadInstanceChannels(instance: {
+  id: string;
+  telegramBotToken: string | null;
+}): Promise<ChannelInput[]> {
+  const rows = await prisma.instanceChannel.findMany({
+    where: { instanceId: instance.id },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const channels: ChannelInput[] = [];
+  for (const row of rows) {
+    const type = toChannelType(row.type);
+    if (type === "slack") {
+      channels.push({ type, botToken: row.botToken, appToken: row.appToken ?? "" });
+    } else if (type !== null) {
+      channels.push({ type, botToken: row.botToken });
+    }
+  }
+
+  const legacyToken = instance.telegramBotToken;
+  if (
+    legacyToken !== null &&
+    legacyToken !== "" &&
+    !channels.some((channel) => channel.type === "telegram")
+  ) {
+    channels.unshift({ type: "telegram", botToken: legacyToken });
+  }
+  return channels;
+}
+
+/**
+ * Move an instance's legacy Telegram token into a Telegram channel, so it can
+ * be listed and changed like any other channel.
+ */
+export async function adoptLegacyTelegramToken(instance: {
+  id: string;
+  telegramBotToken: string | null;
+}): Promise<void> {
+  if (instance.telegramBotToken === null || instance.telegramBotToken === "") {
+    return;
+  }
+  // A saved Telegram channel already replaced the legacy token
+  await prisma.instanceChannel.upsert({
+    where: { instanceId_type: { instanceId: instance.id, type: "telegram" } },
+    create: {
+      instanceId: instance.id,
+      ...toChannelRecord({ type: "telegram", botToken: instance.telegramBotToken }),
+    },
+    update: {},
+  });
+  await prisma.instance.update({
+    where: { id: instance.id },
+    data: { telegramBotToken: null },
+  });
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkEntitlements,
+  getLogRetentionStart,
+  getPlansForModel,
+  PLAN_ENTITLEMENTS,
+  resolveEntitlements,
+} from "./entitlements.js";
+
+describe("Plan Entitlements", () => {
+  describe("resolveEntitlements", () => {
+    it("should use the instance limit recorded on the subscription", () => {
+      const resolved = resolveEntitlements({ plan: "pro", instanceLimit: 4 });
+
+      expect(resolved.plan).toBe("pro");
+      expect(resolved.entitlements).toEqual({ ...PLAN_ENTITLEMENTS.pro, maxInstances: 4 });
+    });
+
+    it("should fall back to starter entitlements without a recognised plan", () => {
+      expect(resolveEntitlements(null)).toEqual({
+        plan: null,
+        entitlements: PLAN_ENTITLEMENTS.starter,
+      });
+      expect(resolveEntitlements({ plan: "legacy", instanceLimit: 1 }).plan).toBeNull();
+    });
+  });
+
+  describe("getPlansForModel", () => {
+    it("should list the plans that include a model", () => {
+      expect(getPlansForModel("claude-sonnet-4-0")).toEqual(["starter", "pro", "enterprise"]);
+      expect(getPlansForModel("claude-opus-4-0")).toEqual(["pro", "enterprise"]);
+    });
+  });
+
+  describe("checkEntitlements", () => {
+    const starter = resolveEntitlements({ plan: "starter", instanceLimit: 2 });
+
+    it("should allow requests the plan covers", () => {
+      expect(
+        checkEntitlements(starter, {
+          aiModel: "claude-sonnet-4-0",
+          region: "iad",
+          aiKeySource: "own",
+          activeInstances: 1,
+        })
+      ).toBeNull();
+    });
+
+    it("should report the instance limit", () => {
+      expect(checkEntitlements(starter, { activeInstances: 2 })).toEqual({
+        error: "Instance limit reached (2). Please upgrade your plan or delete existing instances.",
+        entitlement: "maxInstances",
+        plan: "starter",
+        limit: 2,
+      });
+    });
+
+    it("should not limit unlimited plans", () => {
+      const enterprise = resolveEntitlements({ plan: "enterprise", instanceLimit: -1 });
+
+      expect(checkEntitlements(enterprise, { activeInstances: 500 })).toBeNull();
+    });
+
+    it("should report models the plan does not include", () => {
+      expect(checkEntitlements(starter, { aiModel: "claude-opus-4-0" })).toEqual({
+        error: "Model claude-opus-4-0 is not included in the starter plan. Upgrade to use it.",
+        entitlement: "models",
+        plan: "starter",
+        allowed: PLAN_ENTITLEMENTS.starter.models,
+      });
+    });
+
+    it("should report regions the plan does not include", () => {
+      expect(checkEntitlements(starter, { region: "syd" })).toMatchObject({
+        entitlement: "regions",
+        allowed: ["iad", "lax", "lhr"],
+      });
+      expect(
+        checkEntitlements(resolveEntitlements({ plan: "pro", instanceLimit: 10 }), {
+          region: "syd",
+        })
+      ).toBeNull();
+    });
+
+    it("should only let plans with custom images pin an OpenClaw version", () => {
+      expect(checkEntitlements(starter, { customImage: true })).toMatchObject({
+        entitlement: "customImages",
+        plan: "starter",
+      });
+      expect(
+        checkEntitlements(resolveEntitlements({ plan: "enterprise", instanceLimit: -1 }), {
+          customImage: true,
+        })
+      ).toBeNull();
+    });
+  });
+
+  describe("getLogRetentionStart", () => {
+    it("should go back the plan's retention period", () => {
+      const now = new Date("2024-01-08T00:00:00.000Z");
+
+      expect(getLogRetentionStart(PLAN_ENTITLEMENTS.pro, now)).toEqual(
+        new Date("2024-01-01T00:00:00.000Z")
+      );
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Plan Entitlements
+ * What each plan may use: models, regions, instance count, log retention,
+ * volume size and whether instances may use the user's own AI keys or a
+ * custom image.
+ * Instance creation, updates and retries are checked against the entitlements
+ * of the user's plan. Anything the plan does not cover is refused with a 403
+ * naming the entitlement, so the UI can point at the upgrade that unlocks it.
+ */
+
+import type { AiKeySource, EntitlementError, PlanEntitlements, PlanType } from "@fasterclaw/shared";
+
+export const PLAN_ENTITLEMENTS: Record<PlanType, PlanEntitlements> = {
+  starter: {
+    models: [
+      "claude-sonnet-4-0",
+      "claude-3-5-haiku-latest",
+      "claude-3-5-sonnet-20241022",
+      "gpt-4o-mini",
+      "gpt-4o",
+      "gemini-2.0-flash",
+    ],
+    regions: ["iad", "lax", "lhr"],
+    maxInstances: 2,
+    logRetentionDays: 1,
+    byoKeys: true,
+    customImages: false,
+    volumeSizeGb: 1,
+  },
+  pro: {
+    models: "all",
+    regions: "all",
+    maxInstances: 10,
+    logRetentionDays: 7,
+    byoKeys: true,
+    customImages: false,
+    volumeSizeGb: 5,
+  },
+  enterprise: {
+    models: "all",
+    regions: "all",
+    maxInstances: -1, // unlimited
+    logRetentionDays: 30,
+    byoKeys: true,
+    customImages: true,
+    volumeSizeGb: 20,
+  },
+};
+
+const PLAN_TYPES = Object.keys(PLAN_ENTITLEMENTS) as PlanType[];
+
+/** A user's plan and what it entitles them to. */
+export interface ResolvedEntitlements {
+  /** Null when the subscription has no recognised plan */
+  plan: PlanType | null;
+  entitlements: PlanEntitlements;
+}
+
+/** The parts of an instance request that entitlements apply to. */
+export interface EntitlementRequest {
+  aiModel?: string;
+  region?: string;
+  aiKeySource?: AiKeySource;
+  /** Whether the instance pins an OpenClaw version other than the default */
+  customImage?: boolean;
+  /** Instances already counting against the limit, when one more is being added */
+  activeInstances?: number;
+}
+
+/**
+ * Entitlements of a subscription. A subscription without a recognised plan
+ * gets the starter entitlements. The instance limit is the one recorded on the
+ * subscription when it was bought, so existing subscribers keep theirs.
+ */
+export function resolveEntitlements(
+  subscription: { plan: string | null; instanceLimit: number } | null
+): ResolvedEntitlements {
+  const plan = PLAN_TYPES.find((candidate) => candidate === subscription?.plan) ?? null;
+  const entitlements = PLAN_ENTITLEMENTS[plan ?? "starter"];
+  return {
+    plan,
+    entitlements:
+      subscription !== null
+        ? { ...entitlements, maxInstances: subscription.instanceLimit }
+        : entitlements,
+  };
+}
+
+/**
+ * Whether entitlements include a value of a list entitlement ("all" or a list).
+ */
+function includes(allowed: "all" | string[], value: string): boolean {
+  return allowed === "all" || allowed.includes(value);
+}
+
+/**
+ * Whether entitlements include a model.
+ */
+export function allowsModel(entitlements: PlanEntitlements, modelId: string): boolean {
+  return includes(entitlements.models, modelId);
+}
+
+/**
+ * Plans whose entitlements include a model.
+ */
+export function getPlansForModel(modelId: string): PlanType[] {
+  return PLAN_TYPES.filter((plan) => allowsModel(PLAN_ENTITLEMENTS[plan], modelId));
+}
+
+/**
+ * Check an instance request against a user's entitlements.
+ * Returns the 403 body to reply with, or null if the plan covers the request.
+ */
+export function checkEntitlements(
+  { plan, entitlements }: ResolvedEntitlements,
+  request: EntitlementRequest
+): EntitlementError | null {
+  const planName = plan ?? "current";
+
+  if (
+    request.activeInstances !== undefined &&
+    entitlements.maxInstances !== -1 &&
+    request.activeInstances >= entitlements.maxInstances
+  ) {
+    return {
+      error: `Instance limit reached (${String(entitlements.maxInstances)}). Please upgrade your plan or delete existing instances.`,
+      entitlement: "maxInstances",
+      plan,
+      limit: entitlements.maxInstances,
+    };
+  }
+
+  if (request.aiModel !== undefined && !allowsModel(entitlements, request.aiModel)) {
+    return {
+      error: `Model ${request.aiModel} is not included in the ${planName} plan. Upgrade to use it.`,
+      entitlement: "models",
+      plan,
+      ...(entitlements.models !== "all" && { allowed: entitlements.models }),
+    };
+  }
+
+  if (request.region !== undefined && !includes(entitlements.regions, request.region)) {
+    return {
+      error: `Region ${request.region} is not included in the ${planName} plan. Upgrade to use it.`,
+      entitlement: "regions",
+      plan,
+      ...(entitlements.regions !== "all" && { allowed: entitlements.regions }),
+    };
+  }
+
+  if (request.aiKeySource === "own" && !entitlements.byoKeys) {
+    return {
+      error: `The ${planName} plan does not allow using your own AI keys.`,
+      entitlement: "byoKeys",
+      plan,
+    };
+  }
+
+  if (request.customImage === true && !entitlements.customImages) {
+    return {
+      error: `The ${planName} plan does not allow choosing the OpenClaw version.`,
+      entitlement: "customImages",
+      plan,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Oldest point in time a plan may read instance logs from.
+ */
+export function getLogRetentionStart(entitlements: PlanEntitlements, now = new Date()): Date {
+  return new Date(now.getTime() - entitlements.logRetentionDays * 24 * 60 * 60_000);
+}
@@ -0,0 +1,33 @@
+import { FlyApiError } from "./fly.js";
+import { KubernetesApiError } from "./kubernetes.js";
+
+/**
+ * Extract a user-friendly error message from a caught error.
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof FlyApiError) {
+    if (error.status === 404) {
+      return "Machine not found on Fly.io";
+    }
+    if (error.status === 422) {
+      return `Invalid configuration: ${error.detail}`;
+    }
+    if (error.status === 429) {
+      return "Rate limited by Fly.io, please try again later";
+    }
+    return `Fly.io error: ${error.detail}`;
+  }
+  if (error instanceof KubernetesApiError) {
+    if (error.status === 404) {
+      return "Deployment not found on Kubernetes";
+    }
+    if (error.status === 403) {
+      return `Kubernetes service account is not allowed to ${error.operation}`;
+    }
+    return `Kubernetes error: ${error.detail}`;
+  }
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return fallback;
+}
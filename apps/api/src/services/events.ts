@@ -0,0 +1,66 @@
+/**
+ * Instance Events
+ * Append-only history of what happened to an instance and who caused it:
+ * status changes, provider calls and errors. Backs the instance timeline.
+ */
+
+import { prisma, type InstanceStatus, type Prisma } from "@fasterclaw/db";
+import { publishInstanceEvent } from "./pubsub.js";
+
+export type InstanceEventType = "STATUS_CHANGE" | "PROVIDER_CALL" | "ERROR";
+export type InstanceEventActorType = "USER" | "SYSTEM" | "SYNC" | "WEBHOOK";
+
+export interface EventActor {
+  actor: InstanceEventActorType;
+  /** User ID when the actor is USER */
+  actorId?: string;
+}
+
+/** The job worker acting on a queued request. */
+export const SYSTEM_ACTOR: EventActor = { actor: "SYSTEM" };
+
+/** The provider status sync. */
+export const SYNC_ACTOR: EventActor = { actor: "SYNC" };
+
+export function userActor(userId: string): EventActor {
+  return { actor: "USER", actorId: userId };
+}
+
+export interface InstanceEventInput {
+  type: InstanceEventType;
+  message?: string;
+  fromStatus?: InstanceStatus;
+  toStatus?: InstanceStatus;
+}
+
+/**
+ * Build the create payload for an event, for use in nested writes.
+ */
+export function buildEvent(
+  event: InstanceEventInput,
+  by: EventActor
+): Prisma.InstanceEventCreateWithoutInstanceInput {
+  return {
+    type: event.type,
+    actor: by.actor,
+    actorId: by.actorId ?? null,
+    fromStatus: event.fromStatus ?? null,
+    toStatus: event.toStatus ?? null,
+    message: event.message ?? null,
+  };
+}
+
+/**
+ * Record an event for an instance and publish it to its organization's live stream.
+ */
+export async function recordEvent(
+  instanceId: string,
+  event: InstanceEventInput,
+  by: EventActor
+): Promise<void> {
+  const { instance, ...created } = await prisma.instanceEvent.create({
+    data: { instanceId, ...buildEvent(event, by) },
+    include: { instance: { select: { organizationId: true } } },
+  });
+  publishInstanceEvent(instance.organizationId, created);
+}
@@ -8,6 +8,10 @@ import {
   deleteApp,
   getMachine,
   listMachines,
+  listApps,
+  getAppLogs,
+  createVolume,
+  getVolume,
 } from "./fly";
 
 describe("Fly.io Service", () => {
@@ -542,6 +546,127 @@ describe("Fly.io Service", () => {
     });
   });
 
+  describe("listApps", () => {
+    it("should list the apps in the configured organization", async () => {
+      const apps = [{ id: "app_1", name: "openclaw-abc-1700000000000", machine_count: 1 }];
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ total_apps: 1, apps }),
+      });
+
+      const result = await listApps();
+
+      expect(result).toEqual(apps);
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.machines.dev/v1/apps?org_slug=test-org",
+        expect.anything()
+      );
+    });
+  });
+
+  describe("volumes", () => {
+    const appName = "test-app";
+    const mockVolume = {
+      id: "vol_123",
+      name: "openclaw_data",
+      state: "created",
+      region: "iad",
+      size_gb: 5,
+      attached_machine_id: null,
+      created_at: "2024-01-01T00:00:00Z",
+    };
+
+    it("should create a volume in the machine's region", async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => mockVolume,
+      });
+
+      const result = await createVolume(appName, {
+        name: "openclaw_data",
+        region: "iad",
+        sizeGb: 5,
+      });
+
+      expect(result).toEqual(mockVolume);
+      expect(mockFetch).toHaveBeenCalledWith(
+        `https://api.machines.dev/v1/apps/${appName}/volumes`,
+        expect.objectContaining({
+          method: "POST",
+          body: JSON.stringify({ name: "openclaw_data", region: "iad", size_gb: 5 }),
+        })
+      );
+    });
+
+    it("should get a volume with its usage", async () => {
+      const volume = { ...mockVolume, block_size: 4096, blocks: 1000, blocks_free: 750 };
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => volume,
+      });
+
+      expect(await getVolume(appName, "vol_123")).toEqual(volume);
+      expect(mockFetch).toHaveBeenCalledWith(
+        `https://api.machines.dev/v1/apps/${appName}/volumes/vol_123`,
+        expect.anything()
+      );
+    });
+
+  });
+
+  describe("getAppLogs", () => {
+    const appName = "test-app";
+    const mockLogs = {
+      data: [
+        {
+          id: "log_1",
+          attributes: {
+            timestamp: "2024-01-01T00:00:00Z",
+            message: "Gateway listening on 18789",
+            level: "info",
+            instance: "machine_123",
+            region: "iad",
+          },
+        },
+      ],
+      meta: { next_token: "token_1" },
+    };
+
+    it("should fetch logs for a machine from the platform API", async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => mockLogs,
+      });
+
+      const result = await getAppLogs(appName, { machineId: "machine_123" });
+
+      expect(result).toEqual(mockLogs);
+      expect(mockFetch).toHaveBeenCalledWith(
+        `https://api.fly.io/api/v1/apps/${appName}/logs?instance=machine_123`,
+        expect.objectContaining({
+          headers: {
+            Authorization: "Bearer fly_test_token",
+            "Content-Type": "application/json",
+          },
+        })
+      );
+    });
+
+    it("should pass the next token to get newer lines", async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => mockLogs,
+      });
+
+      await getAppLogs(appName, { machineId: "machine_123", nextToken: "token_1" });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `https://api.fly.io/api/v1/apps/${appName}/logs?instance=machine_123&next_token=token_1`,
+        expect.anything()
+      );
+    });
+  });
+
   describe("API request error handling", () => {
     it("should include status code in error message", async () => {
       mockFetch.mockResolvedValue({
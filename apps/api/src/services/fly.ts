@@ -6,6 +6,8 @@
  */
 
 const FLY_API_BASE = "https://api.machines.dev/v1";
+/** App logs are served by the platform API rather than the Machines API */
+const FLY_LOGS_API_BASE = "https://api.fly.io/api/v1";
 
 const MAX_RETRIES = 3;
 const INITIAL_BACKOFF_MS = 1000;
@@ -42,6 +44,42 @@ interface MachineConfig {
       internal_port: number;
     }[];
     env?: Record<string, string>;
+    /** Files written into the machine before it boots; raw_value is base64 */
+    files?: { guest_path: string; raw_value: string }[];
+    /** Volumes attached to the machine; a volume can only be attached to one machine */
+    mounts?: { volume: string; path: string }[];
+  };
+}
+
+interface Volume {
+  id: string;
+  name: string;
+  state: string;
+  region: string;
+  size_gb: number;
+  attached_machine_id: string | null;
+  /** Filesystem usage, reported once the volume has been mounted */
+  block_size?: number;
+  blocks?: number;
+  blocks_free?: number;
+  created_at: string;
+}
+
+interface FlyLogEntry {
+  id: string;
+  attributes: {
+    timestamp: string;
+    message: string;
+    level: string;
+    instance: string;
+    region: string;
+  };
+}
+
+interface FlyLogsResponse {
+  data: FlyLogEntry[];
+  meta: {
+    next_token: string;
   };
 }
 
@@ -56,6 +94,17 @@ interface Machine {
   created_at: string;
 }
 
+interface FlyApp {
+  id: string;
+  name: string;
+  machine_count: number;
+}
+
+interface FlyAppsResponse {
+  total_apps: number;
+  apps: FlyApp[];
+}
+
 /**
  * Sleep for a given number of milliseconds.
  */
@@ -70,14 +119,15 @@ function sleep(ms: number): Promise<void> {
 async function flyRequest(
   path: string,
   options: RequestInit = {},
-  operation = "request"
+  operation = "request",
+  baseUrl = FLY_API_BASE
 ): Promise<unknown> {
   const flyApiToken = process.env.FLY_API_TOKEN;
   if (flyApiToken === undefined || flyApiToken === "") {
     throw new Error("FLY_API_TOKEN environment variable is required");
   }
 
-  const url = `${FLY_API_BASE}${path}`;
+  const url = `${baseUrl}${path}`;
   let lastError: FlyApiError | Error | null = null;
 
   for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
@@ -158,6 +208,19 @@ export async function createApp(name: string): Promise<void> {
   );
 }
 
+/**
+ * List the apps in the configured organization
+ */
+export async function listApps(): Promise<FlyApp[]> {
+  const query = new URLSearchParams({ org_slug: process.env.FLY_ORG_SLUG ?? "personal" });
+  const response = (await flyRequest(
+    `/apps?${query.toString()}`,
+    {},
+    "listApps"
+  )) as FlyAppsResponse;
+  return response.apps;
+}
+
 /**
  * Create a new machine in a Fly app
  */
@@ -178,6 +241,29 @@ export async function createMachine(appName: string, config: MachineConfig): Pro
   return response as Machine;
 }
 
+/**
+ * Replace the config of a machine. By default a stopped machine stays stopped;
+ * with `launch` the machine is (re)started on the new config, resolving its
+ * image again.
+ */
+export async function updateMachine(
+  appName: string,
+  machineId: string,
+  config: MachineConfig["config"],
+  options: { launch?: boolean } = {}
+): Promise<Machine> {
+  const response = await flyRequest(
+    `/apps/${appName}/machines/${machineId}`,
+    {
+      method: "POST",
+      body: JSON.stringify({ config, skip_launch: options.launch !== true }),
+    },
+    "updateMachine"
+  );
+
+  return response as Machine;
+}
+
 /**
  * Start a stopped machine
  */
@@ -227,3 +313,58 @@ export async function getMachine(appName: string, machineId: string): Promise<Ma
 export async function listMachines(appName: string): Promise<Machine[]> {
   return flyRequest(`/apps/${appName}/machines`, {}, "listMachines") as Promise<Machine[]>;
 }
+
+/**
+ * Create a volume in a Fly app. It lives in one region, so machines that mount
+ * it must be created there too.
+ */
+export async function createVolume(
+  appName: string,
+  options: { name: string; region: string; sizeGb: number }
+): Promise<Volume> {
+  const response = await flyRequest(
+    `/apps/${appName}/volumes`,
+    {
+      method: "POST",
+      body: JSON.stringify({
+        name: options.name,
+        region: options.region,
+        size_gb: options.sizeGb,
+      }),
+    },
+    "createVolume"
+  );
+
+  return response as Volume;
+}
+
+/**
+ * Get a volume, including its filesystem usage
+ */
+export async function getVolume(appName: string, volumeId: string): Promise<Volume> {
+  return flyRequest(`/apps/${appName}/volumes/${volumeId}`, {}, "getVolume") as Promise<Volume>;
+}
+
+/**
+ * Fetch a page of app logs, optionally for a single machine.
+ * Pass the `next_token` of the previous page to get only newer lines.
+ */
+export async function getAppLogs(
+  appName: string,
+  options: { machineId?: string; nextToken?: string } = {}
+): Promise<FlyLogsResponse> {
+  const params = new URLSearchParams();
+  if (options.machineId !== undefined) {
+    params.set("instance", options.machineId);
+  }
+  if (options.nextToken !== undefined && options.nextToken !== "") {
+    params.set("next_token", options.nextToken);
+  }
+  const query = params.toString();
+  return flyRequest(
+    `/apps/${appName}/logs${query === "" ? "" : `?${query}`}`,
+    {},
+    "getAppLogs",
+    FLY_LOGS_API_BASE
+  ) as Promise<FlyLogsResponse>;
+}
@@ -0,0 +1,80 @@
+/**
+ * Image Versions
+ * OpenClaw image tags an admin has approved for instances to run. New
+ * instances get the default version unless they pin another approved one;
+ * running instances move between versions through rollouts (see rollouts.ts).
+ *
+ * Settings:
+ *   OPENCLAW_IMAGE_REPOSITORY → Image repository the tags belong to
+ *                               (default ghcr.io/openclaw/openclaw)
+ *   OPENCLAW_IMAGE_VERSION    → Version new instances get while no approved
+ *                               version is the default (default "latest")
+ */
+
+import { prisma, type ImageVersion } from "@fasterclaw/db";
+
+const FALLBACK_IMAGE_VERSION = "latest";
+
+/**
+ * The version new instances run unless they pin another one.
+ */
+export async function getDefaultImageVersion(): Promise<string> {
+  const defaultVersion = await prisma.imageVersion.findFirst({ where: { isDefault: true } });
+  return defaultVersion?.version ?? process.env.OPENCLAW_IMAGE_VERSION ?? FALLBACK_IMAGE_VERSION;
+}
+
+/**
+ * Look up an approved version.
+ */
+export async function findImageVersion(version: string): Promise<ImageVersion | null> {
+  return prisma.imageVersion.findUnique({ where: { version } });
+}
+
+/**
+ * Approved versions, newest first, with the number of live instances running each.
+ */
+export async function listImageVersions(): Promise<(ImageVersion & { instances: number })[]> {
+  const [versions, counts] = await Promise.all([
+    prisma.imageVersion.findMany({ orderBy: { createdAt: "desc" } }),
+    prisma.instance.groupBy({
+      by: ["imageVersion"],
+      where: { status: { not: "DELETED" } },
+      _count: { _all: true },
+    }),
+  ]);
+  const instances = new Map(counts.map((count) => [count.imageVersion, count._count._all]));
+  return versions.map((version) => ({
+    ...version,
+    instances: instances.get(version.version) ?? 0,
+  }));
+}
+
+/**
+ * Approve a version, making it the default if asked.
+ */
+export async function approveImageVersion(data: {
+  version: string;
+  notes?: string;
+  isDefault: boolean;
+  createdBy: string;
+}): Promise<ImageVersion> {
+  return prisma.$transaction(async (tx) => {
+    if (data.isDefault) {
+      await tx.imageVersion.updateMany({ where: { isDefault: true }, data: { isDefault: false } });
+    }
+    return tx.imageVersion.create({ data });
+  });
+}
+
+/**
+ * Make an approved version the one new instances get.
+ */
+export async function setDefaultImageVersion(version: string): Promise<ImageVersion> {
+  return prisma.$transaction(async (tx) => {
+    await tx.imageVersion.updateMany({
+      where: { isDefault: true, version: { not: version } },
+      data: { isDefault: false },
+    });
+    return tx.imageVersion.update({ where: { version }, data: { isDefault: true } });
+  });
+}
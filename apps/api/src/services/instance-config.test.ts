@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { renderInstanceConfig } from "./instance-config.js";
+
+describe("Instance Config Document", () => {
+  describe("renderInstanceConfig", () => {
+    it("should configure the gateway, model and channels", () => {
+      expect(
+        renderInstanceConfig({
+          aiProvider: "openai",
+          aiModel: "gpt-4o",
+          channels: [{ type: "discord", botToken: "MTA.abc" }],
+          telegramAccess: { dmPolicy: "pairing", allowFrom: [], groupPolicy: "allowlist" },
+        })
+      ).toEqual({
+        "gateway.mode": "local",
+        "gateway.port": 18789,
+        "agents.defaults.model.primary": "openai/gpt-4o",
+        "channels.discord.enabled": true,
+        "plugins.entries.discord.enabled": true,
+      });
+    });
+
+    it("should leave credentials out", () => {
+      const config = renderInstanceConfig({
+        aiProvider: "anthropic",
+        aiModel: "claude-sonnet-4-0",
+        channels: [{ type: "telegram", botToken: "123456:ABC-secret" }],
+        telegramAccess: { dmPolicy: "pairing", allowFrom: [], groupPolicy: "allowlist" },
+      });
+
+      expect(JSON.stringify(config)).not.toContain("123456:ABC-secret");
+    });
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Instance Config Document
+ * The OpenClaw configuration of an instance (gateway, model, channels and
+ * their plugins) rendered from the database. Every provider delivers the same
+ * document as a config file when the instance is created and again before
+ * each start, so changes saved while it is stopped apply when it next starts.
+ * Credentials stay out of the document and reach OpenClaw as environment
+ * variables.
+ */
+
+import type { Instance } from "@fasterclaw/db";
+import type { ChannelInput, TelegramAccess } from "@fasterclaw/shared";
+import { getChannelConfig, loadInstanceChannels, toTelegramAccess } from "./channels.js";
+import { getModelVendor } from "./models.js";
+import { OPENCLAW_GATEWAY_PORT, type OpenClawConfig } from "./providers/openclaw-config.js";
+
+export interface InstanceConfigSource {
+  aiProvider: "openai" | "anthropic" | "google";
+  aiModel: string;
+  channels: ChannelInput[];
+  telegramAccess: TelegramAccess;
+}
+
+/**
+ * Render the config document of an instance.
+ */
+export function renderInstanceConfig(source: InstanceConfigSource): OpenClawConfig {
+  return {
+    "gateway.mode": "local",
+    "gateway.port": OPENCLAW_GATEWAY_PORT,
+    "agents.defaults.model.primary": `${source.aiProvider}/${source.aiModel}`,
+    ...getChannelConfig(source.channels, source.telegramAccess),
+  };
+}
+
+/**
+ * Load what an instance's config document is rendered from.
+ */
+export async function loadInstanceConfigSource(instance: Instance): Promise<InstanceConfigSource> {
+  return {
+    aiProvider: getModelVendor(instance.aiModel),
+    aiModel: instance.aiModel,
+    channels: await loadInstanceChannels(instance),
+    telegramAccess: toTelegramAccess(instance),
+  };
+}
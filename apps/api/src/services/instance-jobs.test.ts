@@ -0,0 +1,460 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import Fastify, { type FastifyInstance } from "fastify";
+import { serializerCompiler, validatorCompiler } from "fastify-type-provider-zod";
+
+/**
+ * Runs the instance flow end-to-end (routes → job handlers → provider → status
+ * sync) against the fake provider. Only the database is replaced, by a small
+ * in-memory store that understands the queries these modules make.
+ */
+const db = vi.hoisted(() => {
+  type Row = Record<string, any>;
+  const instances = new Map<string, Row>();
+  const jobs: Row[] = [];
+  const events: Row[] = [];
+  const channels: Row[] = [];
+  let seq = 0;
+
+  const matches = (row: Row, where: Row = {}): boolean =>
+    Object.entries(where).every(([key, condition]) => {
+      if (key === "jobs") {
+        return !jobs.some((job) => job.instanceId === row.id && matches(job, condition.none));
+      }
+      const value = row[key];
+      if (condition !== null && typeof condition === "object" && !(condition instanceof Date)) {
+        if ("in" in condition) return condition.in.includes(value);
+        if ("notIn" in condition) return !condition.notIn.includes(value);
+        if ("not" in condition) return value !== condition.not;
+      }
+      return value === condition;
+    });
+
+  // Apply nested job/event creates and return the plain fields
+  const writeNested = (instanceId: string, data: Row) => {
+    const { jobs: jobWrite, events: eventWrite, ...fields } = data;
+    if (jobWrite !== undefined) {
+      jobs.push({ id: `job-${String(++seq)}`, instanceId, status: "PENDING", ...jobWrite.create });
+    }
+    if (eventWrite !== undefined) {
+      events.push({ instanceId, ...eventWrite.create });
+    }
+    return fields;
+  };
+
+  const prisma = {
+    instance: {
+      create: async ({ data }: { data: Row }) => {
+        const id = `cjld2cyuq${String(++seq).padStart(4, "0")}t3rmniod1foz`;
+        const now = new Date();
+        const row = {
+          id,
+          providerResourceId: null,
+          providerMeta: null,
+          ipAddress: null,
+          telegramBotToken: null,
+          telegramDmPolicy: "pairing",
+          telegramAllowFrom: [],
+          telegramGroupPolicy: "allowlist",
+          createdAt: now,
+          updatedAt: now,
+          ...writeNested(id, data),
+        };
+        instances.set(id, row);
+        return { ...row };
+      },
+      findFirst: async ({ where }: { where: Row }) =>
+        [...instances.values()].find((row) => matches(row, where)) ?? null,
+      findUnique: async ({ where }: { where: Row }) => {
+        const row = instances.get(where.id);
+        return row !== undefined ? { ...row } : null;
+      },
+      findMany: async ({ where }: { where?: Row } = {}) =>
+        [...instances.values()].filter((row) => matches(row, where)).map((row) => ({ ...row })),
+      count: async ({ where }: { where: Row }) =>
+        [...instances.values()].filter((row) => matches(row, where)).length,
+      update: async ({ where, data, include }: { where: Row; data: Row; include?: Row }) => {
+        const row = instances.get(where.id);
+        if (row === undefined || !matches(row, where)) {
+          throw Object.assign(new Error("Record to update not found"), { code: "P2025" });
+        }
+        Object.assign(row, writeNested(row.id, data), { updatedAt: new Date() });
+        return include?.events !== undefined ? { ...row, events: [] } : { ...row };
+      },
+    },
+    instanceJob: {
+      create: async ({ data }: { data: Row }) => {
+        const job = { id: `job-${String(++seq)}`, ...data };
+        jobs.push(job);
+        return job;
+      },
+      updateMany: async ({ where, data }: { where: Row; data: Row }) => {
+        const matching = jobs.filter((job) => matches(job, where));
+        matching.forEach((job) => Object.assign(job, data));
+        return { count: matching.length };
+      },
+    },
+    instanceEvent: {
+      create: async ({ data }: { data: Row }) => {
+        events.push(data);
+        return {
+          ...data,
+          instance: { organizationId: instances.get(data.instanceId)?.organizationId },
+        };
+      },
+    },
+    instanceChannel: {
+      createMany: async ({ data }: { data: Row[] }) => {
+        channels.push(...data);
+        return { count: data.length };
+      },
+      findMany: async ({ where }: { where: Row }) =>
+        channels.filter((channel) => matches(channel, where)).map((channel) => ({ ...channel })),
+    },
+    subscription: {
+      findFirst: async () => ({ status: "ACTIVE", instanceLimit: 5 }),
+    },
+    imageVersion: {
+      findFirst: async () => null,
+      findUnique: async () => null,
+    },
+    $transaction: async (fn: (tx: unknown) => Promise<unknown>) => fn(prisma),
+  };
+
+  const reset = () => {
+    instances.clear();
+    jobs.length = 0;
+    events.length = 0;
+    channels.length = 0;
+  };
+
+  return { prisma, instances, jobs, events, reset };
+});
+
+vi.mock("@fasterclaw/db", () => ({
+  prisma: db.prisma,
+  Prisma: { DbNull: null },
+  maskToken: (token: string | null) => (token !== null ? `${token.slice(0, 4)}...` : null),
+}));
+
+import { instanceRoutes, syncAllInstanceStatuses } from "../routes/instances.js";
+import { instanceJobHandlers } from "./instance-jobs.js";
+import type { JobType } from "./jobs.js";
+import {
+  fakeProvider,
+  configureFakeProvider,
+  resetFakeProvider,
+  getFakeMachine,
+} from "./providers/fake.provider.js";
+
+describe("Instance flow with the fake provider", () => {
+  let app: FastifyInstance;
+  let token: string;
+  const originalEnv = { ...process.env };
+  const log = { info: vi.fn(), error: vi.fn() };
+
+  /**
+   * Stand-in for the job worker: run every pending job once, in order.
+   */
+  async function runQueuedJobs(): Promise<void> {
+    for (const job of db.jobs.filter((queued) => queued.status === "PENDING")) {
+      job.status = "RUNNING";
+      const handler = instanceJobHandlers[job.type as JobType];
+      try {
+        await handler.run(job as any, log);
+        job.status = "SUCCEEDED";
+      } catch (error) {
+        job.status = "FAILED";
+        await handler.onFailure?.(job as any, String(error), log);
+      }
+    }
+  }
+
+  async function request(
+    method: "GET" | "POST" | "PATCH" | "DELETE",
+    url: string,
+    payload?: object
+  ) {
+    const response = await app.inject({
+      method,
+      url,
+      headers: { authorization: `Bearer ${token}` },
+      payload,
+    });
+    return { statusCode: response.statusCode, body: JSON.parse(response.body) };
+  }
+
+  async function createInstance(): Promise<string> {
+    const { statusCode, body } = await request("POST", "/instances", {
+      name: "Support Bot",
+      telegramBotToken: "123456:ABC",
+      region: "lhr",
+    });
+    expect(statusCode).toBe(201);
+    expect(body.provider).toBe("fake");
+    return body.id;
+  }
+
+  beforeEach(async () => {
+    process.env.INSTANCE_PROVIDER = "fake";
+    process.env.ANTHROPIC_API_KEY = "sk-ant-test";
+    db.reset();
+    resetFakeProvider();
+
+    app = Fastify({ logger: false });
+    app.setValidatorCompiler(validatorCompiler);
+    app.setSerializerCompiler(serializerCompiler);
+    await app.register(import("@fastify/jwt"), { secret: "test-jwt-secret-for-testing-only" });
+    app.decorate("authenticate", async (req) => {
+      await req.jwtVerify();
+      const payload = req.user as unknown as { sub: string; email: string; name: string | null };
+      req.user = { id: payload.sub, email: payload.email, name: payload.name };
+    });
+    app.decorate("authorize", async (req) => {
+      req.organization = { id: "cjld2cyuq0000t3rmniod1fob", name: "Acme", role: "owner" };
+    });
+    await app.register(instanceRoutes);
+    await app.ready();
+
+    token = app.jwt.sign({
+      sub: "cjld2cyuq0000t3rmniod1foy",
+      email: "test@example.com",
+      name: "Test User",
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+    process.env = { ...originalEnv };
+  });
+
+  it("should provision, stop, start, sync and delete an instance", async () => {
+    const id = await createInstance();
+    await runQueuedJobs();
+
+    let { body } = await request("GET", `/instances/${id}`);
+    expect(body).toMatchObject({
+      status: "RUNNING",
+      providerResourceId: "fake-0001",
+      providerMeta: { region: "lhr" },
+    });
+
+    expect((await request("POST", `/instances/${id}/stop`)).body.status).toBe("STOPPING");
+    await runQueuedJobs();
+    expect(getFakeMachine("fake-0001")?.status).toBe("STOPPED");
+
+    expect((await request("POST", `/instances/${id}/start`)).body.status).toBe("STARTING");
+    await runQueuedJobs();
+    ({ body } = await request("GET", `/instances/${id}`));
+    expect(body.status).toBe("RUNNING");
+
+    // The machine stops behind our back; the status sync notices
+    await fakeProvider.stopInstance({ resourceId: "fake-0001", meta: {} });
+    await syncAllInstanceStatuses(log);
+    ({ body } = await request("GET", `/instances/${id}`));
+    expect(body.status).toBe("STOPPED");
+
+    expect((await request("DELETE", `/instances/${id}`)).statusCode).toBe(200);
+    await runQueuedJobs();
+    expect(db.instances.get(id)?.status).toBe("DELETED");
+    expect(getFakeMachine("fake-0001")?.status).toBe("DELETED");
+  });
+
+  it("should deliver config saved while stopped on the next start", async () => {
+    const id = await createInstance();
+    await runQueuedJobs();
+    expect(getFakeMachine("fake-0001")?.openclawConfig).toMatchObject({
+      "gateway.mode": "local",
+      "agents.defaults.model.primary": "anthropic/claude-sonnet-4-0",
+      "channels.telegram.enabled": true,
+      "channels.telegram.groupPolicy": "allowlist",
+    });
+
+    await request("POST", `/instances/${id}/stop`);
+    await runQueuedJobs();
+    const { statusCode } = await request("PATCH", `/instances/${id}`, {
+      telegramAccess: { groupPolicy: "disabled" },
+    });
+    expect(statusCode).toBe(200);
+
+    await request("POST", `/instances/${id}/start`);
+    await runQueuedJobs();
+    expect(getFakeMachine("fake-0001")?.openclawConfig).toMatchObject({
+      "channels.telegram.groupPolicy": "disabled",
+    });
+  });
+
+  it("should apply access changes to a running instance without a restart", async () => {
+    const id = await createInstance();
+    await runQueuedJobs();
+
+    const { body } = await request("PATCH", `/instances/${id}`, {
+      name: "Renamed",
+      telegramAccess: { groupPolicy: "disabled" },
+    });
+    expect(body).toMatchObject({ name: "Renamed", status: "RUNNING" });
+    await runQueuedJobs();
+
+    expect(getFakeMachine("fake-0001")).toMatchObject({
+      status: "RUNNING",
+      openclawConfig: { "channels.telegram.groupPolicy": "disabled" },
+    });
+    expect(db.events.map((event) => event.toStatus).filter(Boolean)).toEqual([
+      "CREATING",
+      "PROVISIONING",
+      "RUNNING",
+    ]);
+  });
+
+  it("should restart a running instance to switch its model", async () => {
+    const id = await createInstance();
+    await runQueuedJobs();
+
+    const { body } = await request("PATCH", `/instances/${id}`, {
+      aiModel: "claude-3-5-haiku-latest",
+    });
+    expect(body.status).toBe("STARTING");
+    await runQueuedJobs();
+
+    expect((await request("GET", `/instances/${id}`)).body.status).toBe("RUNNING");
+    expect(getFakeMachine("fake-0001")).toMatchObject({
+      aiModel: "claude-3-5-haiku-latest",
+      openclawConfig: { "agents.defaults.model.primary": "anthropic/claude-3-5-haiku-latest" },
+    });
+    // The fake provider restarts machines in place
+    expect(db.events.map((event) => event.toStatus).filter(Boolean)).toEqual([
+      "CREATING",
+      "PROVISIONING",
+      "RUNNING",
+      "STARTING",
+      "RUNNING",
+    ]);
+  });
+
+  it("should leave an instance to the job that is moving it", async () => {
+    const id = await createInstance();
+    await runQueuedJobs();
+
+    expect((await request("POST", `/instances/${id}/restart`)).body.status).toBe("STARTING");
+    // The machine still reports running, but the restart job owns the status
+    await syncAllInstanceStatuses(log);
+    expect(db.instances.get(id)?.status).toBe("STARTING");
+
+    await runQueuedJobs();
+    expect(db.instances.get(id)?.status).toBe("RUNNING");
+    expect(db.events.map((event) => event.toStatus).filter(Boolean)).toEqual([
+      "CREATING",
+      "PROVISIONING",
+      "RUNNING",
+      "STARTING",
+      "RUNNING",
+    ]);
+  });
+
+  it("should keep the new handle of an instance recreated by its restart", async () => {
+    const id = await createInstance();
+    await runQueuedJobs();
+    // Like a Docker container replaced to take a new key
+    vi.spyOn(
+      fakeProvider as Required<typeof fakeProvider>,
+      "restartInstance"
+    ).mockResolvedValueOnce({
+      resourceId: "fake-0099",
+      meta: { region: "local" },
+      ipAddress: "127.0.0.1",
+    });
+
+    await request("PATCH", `/instances/${id}`, { aiModel: "claude-3-5-haiku-latest" });
+    await runQueuedJobs();
+
+    expect(db.instances.get(id)).toMatchObject({
+      status: "RUNNING",
+      providerResourceId: "fake-0099",
+      providerMeta: { region: "local" },
+    });
+  });
+
+  it("should redeploy an instance onto a new machine", async () => {
+    const id = await createInstance();
+    await runQueuedJobs();
+
+    expect((await request("POST", `/instances/${id}/redeploy`)).body.status).toBe("PROVISIONING");
+    await runQueuedJobs();
+
+    const { body } = await request("GET", `/instances/${id}`);
+    expect(body).toMatchObject({
+      id,
+      name: "Support Bot",
+      status: "RUNNING",
+      providerResourceId: "fake-0002",
+    });
+    expect(getFakeMachine("fake-0001")?.status).toBe("DELETED");
+    expect(getFakeMachine("fake-0002")?.openclawConfig).toMatchObject({
+      "channels.telegram.enabled": true,
+    });
+    expect(getFakeMachine("fake-0002")?.image).toBe("ghcr.io/openclaw/openclaw:latest");
+    // The replacement mounts the same volume
+    expect(getFakeMachine("fake-0002")?.volume).toBe(id);
+  });
+
+  it("should fail provisioning and recover on retry", async () => {
+    configureFakeProvider({ failCreate: true });
+    const id = await createInstance();
+    await runQueuedJobs();
+
+    let { body } = await request("GET", `/instances/${id}`);
+    expect(body.status).toBe("FAILED");
+    expect(body.providerResourceId).toBeNull();
+    // The volume made before the failure is kept for the retry
+    expect(body.providerMeta).toEqual({ volume: id });
+
+    configureFakeProvider({ failCreate: false });
+    expect((await request("POST", `/instances/${id}/retry`)).body.status).toBe("CREATING");
+    await runQueuedJobs();
+
+    ({ body } = await request("GET", `/instances/${id}`));
+    expect(body).toMatchObject({ status: "RUNNING", providerResourceId: "fake-0001" });
+    expect(getFakeMachine("fake-0001")?.volume).toBe(id);
+    expect(db.events.map((event) => event.toStatus).filter(Boolean)).toEqual([
+      "CREATING",
+      "PROVISIONING",
+      "FAILED",
+      "CREATING",
+      "PROVISIONING",
+      "RUNNING",
+    ]);
+  });
+
+  it("should fail an instance whose delete keeps failing", async () => {
+    const id = await createInstance();
+    await runQueuedJobs();
+    // create, then the delete fails
+    configureFakeProvider({ failOnCall: 2 });
+
+    expect((await request("DELETE", `/instances/${id}`)).statusCode).toBe(200);
+    await runQueuedJobs();
+
+    expect(db.instances.get(id)?.status).toBe("FAILED");
+    expect(db.events.at(-1)).toMatchObject({
+      toStatus: "FAILED",
+      message: expect.stringContaining("Delete failed"),
+    });
+    // It can be deleted again
+    configureFakeProvider({ failOnCall: null });
+    expect((await request("DELETE", `/instances/${id}`)).statusCode).toBe(200);
+    await runQueuedJobs();
+    expect(db.instances.get(id)?.status).toBe("DELETED");
+  });
+
+  it("should report a sync failure without changing the instance", async () => {
+    const id = await createInstance();
+    await runQueuedJobs();
+    // create, then the status call fails
+    configureFakeProvider({ failOnCall: 2 });
+
+    const { statusCode, body } = await request("POST", `/instances/${id}/sync`);
+
+    expect(statusCode).toBe(400);
+    expect(body.error).toBe("Fake provider getInstanceStatus failed: injected failure on call 2");
+    expect(db.instances.get(id)?.status).toBe("RUNNING");
+  });
+});
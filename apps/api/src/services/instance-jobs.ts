@@ -0,0 +1,377 @@
+/**
+ * Instance Job Handlers
+ * Provider operations run by the job worker for each instance job type.
+ * Routes only validate the request and enqueue; the work happens here.
+ */
+
+import { prisma, type Instance, type InstanceStatus, type Prisma } from "@fasterclaw/db";
+import {
+  getProviderByType,
+  toProviderData,
+  type InstanceProvider,
+  type InstanceVolumeConfig,
+  type ProviderResult,
+  type StartInstanceConfig,
+} from "./providers/index.js";
+import { getOpenClawImage } from "./providers/openclaw-config.js";
+import { transitionInstance } from "./lifecycle.js";
+import { recordEvent, SYSTEM_ACTOR } from "./events.js";
+import { resolveInstanceApiKey } from "./ai-keys.js";
+import { loadInstanceConfigSource, renderInstanceConfig } from "./instance-config.js";
+import type { JobHandler, JobHandlers } from "./jobs.js";
+
+/**
+ * Load the instance a job targets.
+ */
+async function loadInstance(instanceId: string): Promise<Instance> {
+  const instance = await prisma.instance.findUnique({
+    where: { id: instanceId },
+  });
+  if (instance === null) {
+    throw new Error(`Instance ${instanceId} not found`);
+  }
+  return instance;
+}
+
+/**
+ * Transition an instance unless it is already in the target status, which
+ * happens when a job attempt is retried or the status sync got there first.
+ */
+async function moveTo(
+  instance: Instance,
+  to: InstanceStatus,
+  options: { data?: Omit<Prisma.InstanceUpdateInput, "status" | "events">; reason?: string } = {}
+): Promise<Instance> {
+  if (instance.status === to) {
+    return prisma.instance.update({ where: { id: instance.id }, data: options.data ?? {} });
+  }
+  return transitionInstance(instance, to, { ...options, by: SYSTEM_ACTOR });
+}
+
+/**
+ * Deleted, or its DELETE job is queued: other jobs have nothing left to do.
+ */
+function isBeingDeleted(instance: Instance): boolean {
+  return instance.status === "DELETING" || instance.status === "DELETED";
+}
+
+/**
+ * Move an instance to a fallback status after its job gave up, unless its
+ * deletion was requested meanwhile.
+ */
+async function settleInstance(
+  instanceId: string,
+  status: InstanceStatus,
+  reason: string
+): Promise<void> {
+  const instance = await loadInstance(instanceId);
+  if (isBeingDeleted(instance)) {
+    return;
+  }
+  await moveTo(instance, status, { reason });
+}
+
+/**
+ * Record a successful provider call on the instance timeline.
+ */
+async function recordProviderCall(instance: Instance, operation: string): Promise<void> {
+  await recordEvent(
+    instance.id,
+    { type: "PROVIDER_CALL", message: `${operation} succeeded on ${instance.provider}` },
+    SYSTEM_ACTOR
+  );
+}
+
+/**
+ * The instance fields holding a provider's handle for its resources. Empty
+ * when a start or restart kept the resources it had.
+ */
+function toHandleData(
+  result: ProviderResult | undefined
+): Omit<Prisma.InstanceUpdateInput, "status" | "events"> {
+  return result !== undefined
+    ? {
+        providerResourceId: result.resourceId,
+        providerMeta: result.meta,
+        ipAddress: result.ipAddress,
+      }
+    : {};
+}
+
+/**
+ * Render what an instance is started with from its current settings, so
+ * changes saved since it last started apply.
+ */
+async function loadStartConfig(instance: Instance): Promise<StartInstanceConfig> {
+  const configSource = await loadInstanceConfigSource(instance);
+  const { provider: aiProvider, apiKey } = await resolveInstanceApiKey(instance);
+  return {
+    channels: configSource.channels,
+    openclawConfig: renderInstanceConfig(configSource),
+    aiProvider,
+    aiApiKey: apiKey,
+    aiModel: instance.aiModel,
+  };
+}
+
+/**
+ * The volume an instance's machines mount, when it has one and its provider
+ * supports volumes. Keyed by the instance, so every attempt finds the same one.
+ */
+function getVolumeConfig(
+  instance: Instance,
+  provider: InstanceProvider
+): InstanceVolumeConfig | undefined {
+  return instance.volumeSizeGb !== null && provider.capabilities.volumes
+    ? { key: instance.id, sizeGb: instance.volumeSizeGb }
+    : undefined;
+}
+
+/**
+ * CREATE and RETRY: provision a new machine/container for the instance.
+ */
+const provisionHandler: JobHandler = {
+  async run(job) {
+    const instance = await loadInstance(job.instanceId);
+
+    // Deleted while queued - nothing to provision
+    if (isBeingDeleted(instance)) {
+      return;
+    }
+
+    const configSource = await loadInstanceConfigSource(instance);
+    if (configSource.channels.length === 0) {
+      throw new Error("Instance has no channels");
+    }
+
+    // Determine AI provider and get the platform's or the user's own API key
+    const { provider: aiProvider, apiKey } = await resolveInstanceApiKey(instance);
+
+    // Transition to PROVISIONING (already there if this is a later attempt)
+    const provisioning = await moveTo(instance, "PROVISIONING");
+
+    // Create instance using the provider chosen when the job was queued
+    const provider = getProviderByType(instance.provider);
+    const result = await provider.createInstance({
+      name: instance.name,
+      userId: instance.userId,
+      channels: configSource.channels,
+      openclawConfig: renderInstanceConfig(configSource),
+      aiProvider,
+      aiApiKey: apiKey,
+      aiModel: instance.aiModel,
+      region: instance.region,
+      image: getOpenClawImage(instance.imageVersion),
+      volume: getVolumeConfig(instance, provider),
+      // Left by the failed attempt a retry replaces, see POST /instances/:id/retry
+      previous: instance.providerMeta !== null ? toProviderData(instance) : undefined,
+      // Kept before the create finishes, so a failed attempt's app and volume are reused
+      onResourcesCreated: async (meta) => {
+        await prisma.instance.update({ where: { id: instance.id }, data: { providerMeta: meta } });
+      },
+    });
+
+    // Update instance with the provider's handle for its resources
+    await recordProviderCall(provisioning, "createInstance");
+    await moveTo(provisioning, "RUNNING", { data: toHandleData(result) });
+  },
+
+  async onFailure(job, error, log) {
+    log.error(`Failed to provision instance ${job.instanceId}: ${error}`);
+    await settleInstance(job.instanceId, "FAILED", error);
+  },
+};
+
+const startHandler: JobHandler = {
+  async run(job) {
+    const instance = await loadInstance(job.instanceId);
+    if (isBeingDeleted(instance)) {
+      return;
+    }
+
+    // Changes saved while the instance was stopped apply now
+    const startConfig = await loadStartConfig(instance);
+
+    // Providers that recreate resources to change credentials hand back a new handle
+    const provider = getProviderByType(instance.provider);
+    const result = await provider.startInstance(toProviderData(instance), startConfig);
+    await recordProviderCall(instance, "startInstance");
+    await moveTo(instance, "RUNNING", { data: toHandleData(result) });
+  },
+
+  async onFailure(job, error) {
+    // The machine never came up, so it is still stopped
+    await settleInstance(job.instanceId, "STOPPED", error);
+  },
+};
+
+const stopHandler: JobHandler = {
+  async run(job) {
+    const instance = await loadInstance(job.instanceId);
+    if (isBeingDeleted(instance)) {
+      return;
+    }
+
+    const provider = getProviderByType(instance.provider);
+    await provider.stopInstance(toProviderData(instance));
+    await recordProviderCall(instance, "stopInstance");
+    await moveTo(instance, "STOPPED");
+  },
+
+  async onFailure(job, error) {
+    // Stop never went through, so it is still running; the status sync corrects this if not
+    await settleInstance(job.instanceId, "RUNNING", error);
+  },
+};
+
+/**
+ * The status a running instance moves to when it is restarted: STARTING where
+ * the provider restarts it in place, otherwise STOPPING for a stop and start.
+ */
+export function getRestartStatus(
+  provider: Pick<InstanceProvider, "restartInstance">
+): "STARTING" | "STOPPING" {
+  return provider.restartInstance !== undefined ? "STARTING" : "STOPPING";
+}
+
+/**
+ * RESTART: restart a running instance, applying changes saved since it last
+ * started. The status walks STARTING → RUNNING for an in-place restart, or
+ * STOPPING → STOPPED → STARTING → RUNNING, so clients can follow along.
+ */
+const restartHandler: JobHandler = {
+  async run(job) {
+    let instance = await loadInstance(job.instanceId);
+    if (isBeingDeleted(instance)) {
+      return;
+    }
+
+    const provider = getProviderByType(instance.provider);
+    const data = toProviderData(instance);
+
+    // A later attempt may find the stop already done
+    if (instance.status === "STOPPING") {
+      await provider.stopInstance(data);
+      await recordProviderCall(instance, "stopInstance");
+      instance = await moveTo(instance, "STOPPED", { reason: "Restarting" });
+    }
+
+    const startConfig = await loadStartConfig(instance);
+    let result: ProviderResult | undefined;
+    if (instance.status === "STARTING" && provider.restartInstance !== undefined) {
+      result = await provider.restartInstance(data, startConfig);
+      await recordProviderCall(instance, "restartInstance");
+    } else {
+      instance = await moveTo(instance, "STARTING");
+      result = await provider.startInstance(data, startConfig);
+      await recordProviderCall(instance, "startInstance");
+    }
+    await moveTo(instance, "RUNNING", { data: toHandleData(result) });
+  },
+
+  async onFailure(job, error) {
+    // Still running if the stop never went through, otherwise left stopped;
+    // the status sync corrects this if not
+    const instance = await loadInstance(job.instanceId);
+    if (isBeingDeleted(instance)) {
+      return;
+    }
+    await moveTo(instance, instance.status === "STOPPING" ? "RUNNING" : "STOPPED", {
+      reason: error,
+    });
+  },
+};
+
+/**
+ * REDEPLOY: recreate a deployed instance's machine or container from the
+ * image of its version and its current config. The instance keeps its ID,
+ * name and credentials. Rollouts change the version before queueing this.
+ */
+const redeployHandler: JobHandler = {
+  async run(job) {
+    const instance = await loadInstance(job.instanceId);
+    if (isBeingDeleted(instance)) {
+      return;
+    }
+
+    const provider = getProviderByType(instance.provider);
+    if (provider.redeployInstance === undefined) {
+      throw new Error(`${provider.displayName} cannot redeploy instances`);
+    }
+
+    const startConfig = await loadStartConfig(instance);
+    const provisioning = await moveTo(instance, "PROVISIONING");
+    const result = await provider.redeployInstance(toProviderData(instance), {
+      ...startConfig,
+      name: instance.name,
+      userId: instance.userId,
+      region: instance.region,
+      image: getOpenClawImage(instance.imageVersion),
+      volume: getVolumeConfig(instance, provider),
+    });
+
+    // Recreated resources may come with a new handle
+    await recordProviderCall(provisioning, "redeployInstance");
+    await moveTo(provisioning, "RUNNING", { data: toHandleData(result) });
+  },
+
+  async onFailure(job, error, log) {
+    log.error(`Failed to redeploy instance ${job.instanceId}: ${error}`);
+    await settleInstance(job.instanceId, "FAILED", error);
+  },
+};
+
+/**
+ * RECONFIGURE: hand a running instance its updated config document, which
+ * OpenClaw reloads in place.
+ */
+const reconfigureHandler: JobHandler = {
+  async run(job) {
+    const instance = await loadInstance(job.instanceId);
+    // Stopped since the update; its next start delivers the document
+    if (instance.status !== "RUNNING") {
+      return;
+    }
+
+    const provider = getProviderByType(instance.provider);
+    if (provider.applyConfig === undefined) {
+      throw new Error(`${provider.displayName} cannot update a running instance's config`);
+    }
+    const openclawConfig = renderInstanceConfig(await loadInstanceConfigSource(instance));
+    await provider.applyConfig(toProviderData(instance), openclawConfig);
+    await recordProviderCall(instance, "applyConfig");
+  },
+};
+
+const deleteHandler: JobHandler = {
+  async run(job) {
+    const instance = await loadInstance(job.instanceId);
+    if (instance.status === "DELETED") {
+      return;
+    }
+
+    const provider = getProviderByType(instance.provider);
+    await provider.deleteInstance(toProviderData(instance));
+    await recordProviderCall(instance, "deleteInstance");
+    await moveTo(instance, "DELETED");
+  },
+
+  async onFailure(job, error, log) {
+    // Its resources may still be there; FAILED lets the user delete it again
+    log.error(`Failed to delete instance ${job.instanceId}: ${error}`);
+    await moveTo(await loadInstance(job.instanceId), "FAILED", {
+      reason: `Delete failed: ${error}`,
+    });
+  },
+};
+
+export const instanceJobHandlers: JobHandlers = {
+  CREATE: provisionHandler,
+  RETRY: provisionHandler,
+  START: startHandler,
+  STOP: stopHandler,
+  DELETE: deleteHandler,
+  RESTART: restartHandler,
+  RECONFIGURE: reconfigureHandler,
+  REDEPLOY: redeployHandler,
+};
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { getUpdateAction, planUpdate } from "./instance-updates.js";
+
+const instance = {
+  name: "Support Bot",
+  aiModel: "claude-sonnet-4-0",
+  aiKeySource: "platform",
+  region: "iad",
+  telegramDmPolicy: "pairing",
+  telegramAllowFrom: [],
+  telegramGroupPolicy: "allowlist",
+};
+
+describe("Instance Updates", () => {
+  describe("planUpdate", () => {
+    it("should group changed fields by how they apply", () => {
+      expect(
+        planUpdate(instance, {
+          name: "Sales Bot",
+          aiModel: "gpt-4o",
+          telegramBotToken: "123456:ABC-new",
+          region: "lhr",
+        })
+      ).toEqual({
+        live: ["name"],
+        restart: ["aiModel", "telegramBotToken"],
+        immutable: ["region"],
+      });
+    });
+
+    it("should skip fields that keep their current value", () => {
+      expect(
+        planUpdate(instance, {
+          name: "Support Bot",
+          aiKeySource: "platform",
+          region: "iad",
+          telegramAccess: { dmPolicy: "pairing" },
+        })
+      ).toEqual({ live: [], restart: [], immutable: [] });
+    });
+
+    it("should treat an access policy change as live", () => {
+      expect(planUpdate(instance, { telegramAccess: { groupPolicy: "open" } }).live).toEqual([
+        "telegramAccess",
+      ]);
+    });
+  });
+
+  describe("getUpdateAction", () => {
+    const reloading = { applyConfig: () => Promise.resolve() };
+
+    it("should restart for restart-required fields", () => {
+      const plan = planUpdate(instance, { name: "Sales Bot", aiModel: "gpt-4o" });
+      expect(getUpdateAction(plan, reloading)).toBe("restart");
+    });
+
+    it("should only save platform-only changes", () => {
+      const plan = planUpdate(instance, { name: "Sales Bot" });
+      expect(getUpdateAction(plan, {})).toBe("save");
+    });
+
+    it("should reload config changes where the provider supports it", () => {
+      const plan = planUpdate(instance, { telegramAccess: { dmPolicy: "open" } });
+      expect(getUpdateAction(plan, reloading)).toBe("reload");
+      expect(getUpdateAction(plan, {})).toBe("restart");
+    });
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Instance Updates
+ * How each field of PATCH /instances/:id reaches a deployed instance:
+ *
+ *   live      → applied while the instance keeps running. The name only lives
+ *               on the platform; the Telegram access policy is part of the
+ *               config document, which OpenClaw reloads when it changes.
+ *   restart   → needs a restart to take effect (model, API key, bot token).
+ *               A running instance is stopped and started again by a RESTART
+ *               job, its status reporting the progress. Providers whose
+ *               containers take credentials only at creation (Docker)
+ *               recreate them on the restart.
+ *   immutable → fixed when the instance is created (region).
+ *
+ * A stopped instance takes every change except immutable ones; they all apply
+ * on its next start.
+ */
+
+import type { Instance } from "@fasterclaw/db";
+import type { UpdateInstanceRequest } from "@fasterclaw/shared";
+import { toAiKeySource } from "./ai-keys.js";
+import { toTelegramAccess } from "./channels.js";
+import type { InstanceProvider } from "./providers/index.js";
+
+export type UpdateKind = "live" | "restart" | "immutable";
+
+export type UpdateField = keyof UpdateInstanceRequest;
+
+export const UPDATE_FIELDS: Record<UpdateField, UpdateKind> = {
+  name: "live",
+  telegramAccess: "live",
+  aiModel: "restart",
+  aiKeySource: "restart",
+  telegramBotToken: "restart",
+  region: "immutable",
+};
+
+/** Live fields that are part of the instance's config document */
+const CONFIG_FIELDS: readonly UpdateField[] = ["telegramAccess"];
+
+/** The instance fields an update is compared against */
+export type UpdateTarget = Pick<
+  Instance,
+  | "name"
+  | "aiModel"
+  | "aiKeySource"
+  | "region"
+  | "telegramDmPolicy"
+  | "telegramAllowFrom"
+  | "telegramGroupPolicy"
+>;
+
+/** Changed fields of an update, grouped by how they apply */
+export type UpdatePlan = Record<UpdateKind, UpdateField[]>;
+
+/**
+ * What a running instance needs once an update is saved:
+ *   save    → nothing, the change is platform-only
+ *   reload  → its config document replaced in place
+ *   restart → a stop and start
+ */
+export type UpdateAction = "save" | "reload" | "restart";
+
+/**
+ * Whether each field of an update differs from the instance.
+ */
+const CHANGE_CHECKS: Record<
+  UpdateField,
+  (instance: UpdateTarget, updates: UpdateInstanceRequest) => boolean
+> = {
+  name: (instance, updates) => updates.name !== undefined && updates.name !== instance.name,
+  aiModel: (instance, updates) =>
+    updates.aiModel !== undefined && updates.aiModel !== instance.aiModel,
+  aiKeySource: (instance, updates) =>
+    updates.aiKeySource !== undefined &&
+    updates.aiKeySource !== toAiKeySource(instance.aiKeySource),
+  telegramAccess: (instance, updates) => {
+    if (updates.telegramAccess === undefined) {
+      return false;
+    }
+    const current = toTelegramAccess(instance);
+    return JSON.stringify({ ...current, ...updates.telegramAccess }) !== JSON.stringify(current);
+  },
+  // Stored encrypted on the channel, so any token counts as a change
+  telegramBotToken: (_instance, updates) => updates.telegramBotToken !== undefined,
+  region: (instance, updates) => updates.region !== undefined && updates.region !== instance.region,
+};
+
+/**
+ * Group the fields an update changes by how they apply.
+ */
+export function planUpdate(instance: UpdateTarget, updates: UpdateInstanceRequest): UpdatePlan {
+  const plan: UpdatePlan = { live: [], restart: [], immutable: [] };
+  for (const [field, kind] of Object.entries(UPDATE_FIELDS) as [UpdateField, UpdateKind][]) {
+    if (CHANGE_CHECKS[field](instance, updates)) {
+      plan[kind].push(field);
+    }
+  }
+  return plan;
+}
+
+/**
+ * Decide what a running instance needs for a planned update to take effect.
+ * Config changes restart instances whose provider cannot replace the config
+ * document of a running instance.
+ */
+export function getUpdateAction(
+  plan: UpdatePlan,
+  provider: Pick<InstanceProvider, "applyConfig">
+): UpdateAction {
+  if (plan.restart.length > 0) {
+    return "restart";
+  }
+  if (!plan.live.some((field) => CONFIG_FIELDS.includes(field))) {
+    return "save";
+  }
+  return provider.applyConfig !== undefined ? "reload" : "restart";
+}
@@ -0,0 +1,364 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@fasterclaw/db", () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    $queryRaw: vi.fn(),
+    instanceJob: {
+      create: vi.fn(),
+      findFirst: vi.fn(),
+      count: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    instanceEvent: {
+      create: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("./fly.js", () => ({
+  FlyApiError: class FlyApiError extends Error {},
+}));
+
+import { prisma } from "@fasterclaw/db";
+import {
+  enqueueJob,
+  claimNextJob,
+  failJob,
+  recoverStaleJobs,
+  runNextJob,
+  getBackoffMs,
+  type JobHandlers,
+} from "./jobs";
+
+function createMockJob(
+  overrides: Partial<{
+    id: string;
+    type: string;
+    status: string;
+    attempts: number;
+    maxAttempts: number;
+  }> = {}
+) {
+  return {
+    id: "job-1",
+    instanceId: "instance-1",
+    type: "CREATE",
+    status: "PENDING",
+    attempts: 0,
+    maxAttempts: 3,
+    lastError: null,
+    runAt: new Date("2024-01-01T00:00:00Z"),
+    lockedAt: null,
+    lockedBy: null,
+    completedAt: null,
+    createdAt: new Date("2024-01-01T00:00:00Z"),
+    updatedAt: new Date("2024-01-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+function createHandlers(run: () => Promise<void>, onFailure = vi.fn()): JobHandlers {
+  const handler = { run: vi.fn(run), onFailure };
+  return {
+    CREATE: handler,
+    RETRY: handler,
+    START: handler,
+    STOP: handler,
+    DELETE: handler,
+    RESTART: handler,
+    RECONFIGURE: handler,
+    REDEPLOY: handler,
+  };
+}
+
+const log = { info: vi.fn(), error: vi.fn() };
+
+describe("Job Queue", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.$transaction).mockImplementation((async (fn: (tx: unknown) => unknown) =>
+      fn(prisma)) as any);
+    vi.mocked(prisma.instanceJob.count).mockResolvedValue(0);
+  });
+
+  describe("getBackoffMs", () => {
+    it("should double the delay after each attempt up to the cap", () => {
+      expect(getBackoffMs(1)).toBe(5_000);
+      expect(getBackoffMs(2)).toBe(10_000);
+      expect(getBackoffMs(3)).toBe(20_000);
+      expect(getBackoffMs(20)).toBe(5 * 60_000);
+    });
+  });
+
+  describe("enqueueJob", () => {
+    it("should create a pending job with default attempts", async () => {
+      vi.mocked(prisma.instanceJob.create).mockResolvedValue(createMockJob() as any);
+
+      await enqueueJob("instance-1", "DELETE");
+
+      expect(prisma.instanceJob.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          instanceId: "instance-1",
+          type: "DELETE",
+          status: "PENDING",
+          maxAttempts: 3,
+        }),
+      });
+    });
+  });
+
+  describe("claimNextJob", () => {
+    it("should lock the job and count the attempt", async () => {
+      vi.mocked(prisma.instanceJob.findFirst).mockResolvedValue(createMockJob() as any);
+      vi.mocked(prisma.instanceJob.updateMany).mockResolvedValue({ count: 1 });
+
+      const job = await claimNextJob("host:1");
+
+      expect(job?.status).toBe("RUNNING");
+      expect(job?.attempts).toBe(1);
+      expect(job?.lockedBy).toBe("host:1");
+      expect(prisma.instanceJob.updateMany).toHaveBeenCalledWith({
+        where: { id: "job-1", status: "PENDING" },
+        data: expect.objectContaining({ status: "RUNNING", attempts: { increment: 1 } }),
+      });
+    });
+
+    it("should lock the instance and skip it when one of its jobs started meanwhile", async () => {
+      vi.mocked(prisma.instanceJob.findFirst).mockResolvedValue(createMockJob() as any);
+      vi.mocked(prisma.instanceJob.count).mockResolvedValue(1);
+
+      expect(await claimNextJob("host:1")).toBeNull();
+      expect(prisma.$queryRaw).toHaveBeenCalled();
+      expect(prisma.instanceJob.count).toHaveBeenCalledWith({
+        where: { instanceId: "instance-1", status: "RUNNING" },
+      });
+      expect(prisma.instanceJob.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should let only one of two racing workers claim a job of the same instance", async () => {
+      // Both workers find a different pending job of the instance idle
+      const statuses: Record<string, string> = { "job-1": "PENDING", "job-2": "PENDING" };
+      vi.mocked(prisma.instanceJob.findFirst)
+        .mockResolvedValueOnce(createMockJob({ id: "job-1" }) as any)
+        .mockResolvedValueOnce(createMockJob({ id: "job-2" }) as any);
+      // The instance row lock: a transaction waits for the one before it
+      let lock: Promise<unknown> = Promise.resolve();
+      vi.mocked(prisma.$transaction).mockImplementation(((fn: (tx: unknown) => unknown) => {
+        const result = lock.then(() => fn(prisma));
+        lock = result.catch(() => undefined);
+        return result;
+      }) as any);
+      vi.mocked(prisma.instanceJob.count).mockImplementation(
+        (async () => Object.values(statuses).filter((status) => status === "RUNNING").length) as any
+      );
+      vi.mocked(prisma.instanceJob.updateMany).mockImplementation((async ({ where }: any) => {
+        // Yield as a round trip would, giving the other worker a chance to interleave
+        await Promise.resolve();
+        if (statuses[where.id] !== "PENDING") {
+          return { count: 0 };
+        }
+        statuses[where.id] = "RUNNING";
+        return { count: 1 };
+      }) as any);
+
+      const claimed = await Promise.all([claimNextJob("host:1"), claimNextJob("host:2")]);
+
+      expect(claimed.filter((job) => job !== null)).toHaveLength(1);
+      expect(statuses).toEqual({ "job-1": "RUNNING", "job-2": "PENDING" });
+    });
+
+    it("should return null when another worker claimed the job first", async () => {
+      vi.mocked(prisma.instanceJob.findFirst).mockResolvedValue(createMockJob() as any);
+      vi.mocked(prisma.instanceJob.updateMany).mockResolvedValue({ count: 0 });
+
+      expect(await claimNextJob("host:1")).toBeNull();
+    });
+
+    it("should return null when no job is due", async () => {
+      vi.mocked(prisma.instanceJob.findFirst).mockResolvedValue(null);
+
+      expect(await claimNextJob("host:1")).toBeNull();
+      expect(prisma.instanceJob.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("failJob", () => {
+    it("should reschedule the job while attempts remain", async () => {
+      const willRetry = await failJob(createMockJob({ attempts: 1 }) as any, "boom");
+
+      expect(willRetry).toBe(true);
+      expect(prisma.instanceJob.update).toHaveBeenCalledWith({
+        where: { id: "job-1" },
+        data: expect.objectContaining({ status: "PENDING", lastError: "boom" }),
+      });
+    });
+
+    it("should mark the job failed on the last attempt", async () => {
+      const willRetry = await failJob(createMockJob({ attempts: 3 }) as any, "boom");
+
+      expect(willRetry).toBe(false);
+      expect(prisma.instanceJob.update).toHaveBeenCalledWith({
+        where: { id: "job-1" },
+        data: expect.objectContaining({ status: "FAILED", lastError: "boom" }),
+      });
+    });
+  });
+
+  describe("recoverStaleJobs", () => {
+    it("should only reclaim this worker's own jobs at boot", async () => {
+      vi.mocked(prisma.instanceJob.updateMany).mockResolvedValue({ count: 2 });
+
+      expect(await recoverStaleJobs({ reclaimWorker: "host:1" })).toBe(2);
+      const bootWhere = vi.mocked(prisma.instanceJob.updateMany).mock.calls[0][0].where;
+      expect(bootWhere?.OR).toHaveLength(2);
+      expect(bootWhere?.OR).toContainEqual({ lockedBy: "host:1" });
+
+      await recoverStaleJobs();
+      const tickWhere = vi.mocked(prisma.instanceJob.updateMany).mock.calls[1][0].where;
+      expect(tickWhere?.OR).toHaveLength(1);
+    });
+  });
+
+  describe("runNextJob", () => {
+    beforeEach(() => {
+      vi.mocked(prisma.instanceJob.updateMany).mockResolvedValue({ count: 1 });
+      vi.mocked(prisma.instanceEvent.create).mockResolvedValue({
+        id: "event-1",
+        instance: { userId: "user-1" },
+      } as any);
+    });
+
+    it("should return false when the queue is empty", async () => {
+      vi.mocked(prisma.instanceJob.findFirst).mockResolvedValue(null);
+
+      expect(
+        await runNextJob(
+          "host:1",
+          createHandlers(async () => {}),
+          log
+        )
+      ).toBe(false);
+    });
+
+    it("should complete the job when the handler succeeds", async () => {
+      vi.mocked(prisma.instanceJob.findFirst).mockResolvedValue(createMockJob() as any);
+
+      expect(
+        await runNextJob(
+          "host:1",
+          createHandlers(async () => {}),
+          log
+        )
+      ).toBe(true);
+      expect(prisma.instanceJob.update).toHaveBeenCalledWith({
+        where: { id: "job-1" },
+        data: expect.objectContaining({ status: "SUCCEEDED" }),
+      });
+    });
+
+    it("should not call onFailure while the job can still be retried", async () => {
+      vi.mocked(prisma.instanceJob.findFirst).mockResolvedValue(createMockJob() as any);
+      const onFailure = vi.fn();
+
+      await runNextJob(
+        "host:1",
+        createHandlers(() => Promise.reject(new Error("boom")), onFailure),
+        log
+      );
+
+      expect(onFailure).not.toHaveBeenCalled();
+      expect(prisma.instanceEvent.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            instanceId: "instance-1",
+            type: "ERROR",
+            actor: "SYSTEM",
+            message: "CREATE attempt 1/3 failed: boom",
+          }),
+        })
+      );
+    });
+
+    it("should call onFailure once the job runs out of attempts", async () => {
+      vi.mocked(prisma.instanceJob.findFirst).mockResolvedValue(
+        createMockJob({ attempts: 2 }) as any
+      );
+      const onFailure = vi.fn();
+
+      await runNextJob(
+        "host:1",
+        createHandlers(() => Promise.reject(new Error("boom")), onFailure),
+        log
+      );
+
+      expect(onFailure).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "job-1", attempts: 3 }),
+        "boom",
+        log
+      );
+    });
+
+    it("should mark the job failed and keep draining when onFailure throws", async () => {
+      vi.mocked(prisma.instanceJob.findFirst).mockResolvedValue(
+        createMockJob({ attempts: 2 }) as any
+      );
+      const onFailure = vi.fn().mockRejectedValue(new Error("Cannot move instance from DELETED"));
+
+      expect(
+        await runNextJob(
+          "host:1",
+          createHandlers(() => Promise.reject(new Error("boom")), onFailure),
+          log
+        )
+      ).toBe(true);
+      expect(prisma.instanceJob.update).toHaveBeenCalledWith({
+        where: { id: "job-1" },
+        data: expect.objectContaining({ status: "FAILED", lastError: "boom" }),
+      });
+      expect(log.error).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "Cannot move instance from DELETED" }),
+        "Job job-1 failure handler failed"
+      );
+    });
+
+    it("should still fail the job when its event cannot be recorded", async () => {
+      vi.mocked(prisma.instanceJob.findFirst).mockResolvedValue(
+        createMockJob({ attempts: 2 }) as any
+      );
+      vi.mocked(prisma.instanceEvent.create).mockRejectedValue(new Error("instance is gone"));
+      const onFailure = vi.fn();
+
+      expect(
+        await runNextJob(
+          "host:1",
+          createHandlers(() => Promise.reject(new Error("boom")), onFailure),
+          log
+        )
+      ).toBe(true);
+      expect(prisma.instanceJob.update).toHaveBeenCalledWith({
+        where: { id: "job-1" },
+        data: expect.objectContaining({ status: "FAILED" }),
+      });
+      expect(onFailure).toHaveBeenCalled();
+    });
+
+    it("should fail jobs with an unknown type", async () => {
+      vi.mocked(prisma.instanceJob.findFirst).mockResolvedValue(
+        createMockJob({ type: "RESIZE" }) as any
+      );
+
+      await runNextJob(
+        "host:1",
+        createHandlers(async () => {}),
+        log
+      );
+
+      expect(prisma.instanceJob.update).toHaveBeenCalledWith({
+        where: { id: "job-1" },
+        data: expect.objectContaining({ status: "FAILED" }),
+      });
+    });
+  });
+});
@@ -0,0 +1,361 @@
+/**
+ * Instance Job Queue
+ * Persists instance lifecycle operations (create, retry, start, stop, delete,
+ * restart, reconfigure, redeploy) in the InstanceJob table so they survive API restarts.
+ *
+ * A worker loop claims due jobs one at a time, runs the handler registered for
+ * the job type, and reschedules failures with exponential backoff until the
+ * job runs out of attempts.
+ */
+
+import { hostname } from "os";
+import { prisma, type InstanceJob } from "@fasterclaw/db";
+import { getErrorMessage } from "./errors.js";
+import { recordEvent, SYSTEM_ACTOR } from "./events.js";
+
+export type JobType =
+  | "CREATE"
+  | "RETRY"
+  | "START"
+  | "STOP"
+  | "DELETE"
+  | "RESTART"
+  | "RECONFIGURE"
+  | "REDEPLOY";
+export type JobStatus = "PENDING" | "RUNNING" | "SUCCEEDED" | "FAILED" | "CANCELED";
+
+export interface JobLogger {
+  info: (...args: unknown[]) => void;
+  error: (...args: unknown[]) => void;
+}
+
+export interface JobHandler {
+  /** Perform the operation. Throwing schedules a retry. */
+  run(job: InstanceJob, log: JobLogger): Promise<void>;
+  /** Called once the job has exhausted its attempts. */
+  onFailure?(job: InstanceJob, error: string, log: JobLogger): Promise<void>;
+}
+
+export type JobHandlers = Record<JobType, JobHandler>;
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const INITIAL_BACKOFF_MS = 5_000;
+const MAX_BACKOFF_MS = 5 * 60_000;
+const POLL_INTERVAL_MS = 2_000;
+
+/** RUNNING jobs whose lease is older than this are assumed abandoned. */
+const STALE_LOCK_MS = 10 * 60_000;
+
+/**
+ * Worker IDs are the host and PID, which a restarted process usually gets
+ * back (PID 1 in a container), so it can reclaim the jobs it was running.
+ */
+const WORKER_HOST = hostname();
+
+/**
+ * Delay before the next attempt, doubling after each failure.
+ */
+export function getBackoffMs(attempts: number): number {
+  return Math.min(INITIAL_BACKOFF_MS * Math.pow(2, Math.max(attempts - 1, 0)), MAX_BACKOFF_MS);
+}
+
+/**
+ * Queue a job for an instance.
+ */
+export async function enqueueJob(
+  instanceId: string,
+  type: JobType,
+  options: { maxAttempts?: number; runAt?: Date } = {}
+): Promise<InstanceJob> {
+  return prisma.instanceJob.create({
+    data: {
+      instanceId,
+      type,
+      status: "PENDING",
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      runAt: options.runAt ?? new Date(),
+    },
+  });
+}
+
+/**
+ * Cancel jobs for an instance that have not started yet.
+ * Used when a newer operation (e.g. delete) supersedes queued work.
+ */
+export async function cancelPendingJobs(instanceId: string): Promise<number> {
+  const { count } = await prisma.instanceJob.updateMany({
+    where: { instanceId, status: "PENDING" },
+    data: { status: "CANCELED", completedAt: new Date() },
+  });
+  return count;
+}
+
+/**
+ * Claim the next due job.
+ * Jobs for an instance that already has a RUNNING job are skipped so that
+ * operations on the same instance never overlap. Claims for one instance hold
+ * a lock on its row, so two workers cannot both find it idle and each claim
+ * one of its jobs.
+ */
+export async function claimNextJob(workerId: string): Promise<InstanceJob | null> {
+  const now = new Date();
+
+  const candidate = await prisma.instanceJob.findFirst({
+    where: {
+      status: "PENDING",
+      runAt: { lte: now },
+      instance: { jobs: { none: { status: "RUNNING" } } },
+    },
+    orderBy: [{ runAt: "asc" }, { createdAt: "asc" }],
+  });
+
+  if (candidate === null) {
+    return null;
+  }
+
+  const count = await prisma.$transaction(async (tx) => {
+    // Waits for another worker's claim on the instance to commit
+    await tx.$queryRaw`SELECT 1 FROM "Instance" WHERE "id" = ${candidate.instanceId} FOR UPDATE`;
+
+    // Checked again now that no other claim can be in progress
+    const running = await tx.instanceJob.count({
+      where: { instanceId: candidate.instanceId, status: "RUNNING" },
+    });
+    if (running > 0) {
+      return 0;
+    }
+
+    // Conditional update: only one worker can move the job out of PENDING
+    const claimed = await tx.instanceJob.updateMany({
+      where: { id: candidate.id, status: "PENDING" },
+      data: {
+        status: "RUNNING",
+        lockedAt: now,
+        lockedBy: workerId,
+        attempts: { increment: 1 },
+      },
+    });
+    return claimed.count;
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  return {
+    ...candidate,
+    status: "RUNNING",
+    lockedAt: now,
+    lockedBy: workerId,
+    attempts: candidate.attempts + 1,
+  };
+}
+
+/**
+ * Mark a job as finished successfully.
+ */
+export async function completeJob(jobId: string): Promise<void> {
+  await prisma.instanceJob.update({
+    where: { id: jobId },
+    data: {
+      status: "SUCCEEDED",
+      lastError: null,
+      lockedAt: null,
+      lockedBy: null,
+      completedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Record a failed attempt.
+ * Reschedules the job with backoff, or marks it FAILED when no attempts remain.
+ *
+ * @returns true if the job will be retried
+ */
+export async function failJob(job: InstanceJob, error: string): Promise<boolean> {
+  const willRetry = job.attempts < job.maxAttempts;
+
+  await prisma.instanceJob.update({
+    where: { id: job.id },
+    data: willRetry
+      ? {
+          status: "PENDING",
+          lastError: error,
+          lockedAt: null,
+          lockedBy: null,
+          runAt: new Date(Date.now() + getBackoffMs(job.attempts)),
+        }
+      : {
+          status: "FAILED",
+          lastError: error,
+          lockedAt: null,
+          lockedBy: null,
+          completedAt: new Date(),
+        },
+  });
+
+  return willRetry;
+}
+
+/**
+ * Return abandoned RUNNING jobs to the queue.
+ * A job is abandoned if its lease has gone stale, or - when reclaimWorker is
+ * set at boot - if it was leased under this worker's ID by the process it
+ * replaces (the API restarted mid-job). Jobs of other workers on the same
+ * host are left to their lease.
+ */
+export async function recoverStaleJobs(options: { reclaimWorker?: string } = {}): Promise<number> {
+  const staleBefore = new Date(Date.now() - STALE_LOCK_MS);
+
+  const { count } = await prisma.instanceJob.updateMany({
+    where: {
+      status: "RUNNING",
+      OR: [
+        { lockedAt: { lt: staleBefore } },
+        ...(options.reclaimWorker !== undefined ? [{ lockedBy: options.reclaimWorker }] : []),
+      ],
+    },
+    data: {
+      status: "PENDING",
+      lockedAt: null,
+      lockedBy: null,
+      runAt: new Date(),
+    },
+  });
+
+  return count;
+}
+
+/**
+ * Claim and run a single job.
+ *
+ * @returns true if a job was processed
+ */
+export async function runNextJob(
+  workerId: string,
+  handlers: JobHandlers,
+  log: JobLogger
+): Promise<boolean> {
+  const job = await claimNextJob(workerId);
+  if (job === null) {
+    return false;
+  }
+
+  const handler = handlers[job.type as JobType] as JobHandler | undefined;
+  if (handler === undefined) {
+    await prisma.instanceJob.update({
+      where: { id: job.id },
+      data: {
+        status: "FAILED",
+        lastError: `No handler for job type "${job.type}"`,
+        lockedAt: null,
+        lockedBy: null,
+        completedAt: new Date(),
+      },
+    });
+    log.error(`Job ${job.id} has unknown type ${job.type}`);
+    return true;
+  }
+
+  try {
+    await handler.run(job, log);
+    await completeJob(job.id);
+    log.info(`Job ${job.id} (${job.type}) for instance ${job.instanceId} succeeded`);
+  } catch (error: unknown) {
+    const message = getErrorMessage(error, "Unknown job error");
+    const willRetry = await failJob(job, message);
+    // Nothing below may escape: it would end the drain loop for this tick
+    try {
+      await recordEvent(
+        job.instanceId,
+        {
+          type: "ERROR",
+          message: `${job.type} attempt ${String(job.attempts)}/${String(job.maxAttempts)} failed: ${message}`,
+        },
+        SYSTEM_ACTOR
+      );
+    } catch (eventError: unknown) {
+      log.error(eventError, `Job ${job.id} failure could not be recorded`);
+    }
+
+    if (willRetry) {
+      log.error(
+        `Job ${job.id} (${job.type}) attempt ${String(job.attempts)}/${String(job.maxAttempts)} failed, retrying: ${message}`
+      );
+    } else {
+      log.error(`Job ${job.id} (${job.type}) failed permanently: ${message}`);
+      try {
+        await handler.onFailure?.(job, message, log);
+      } catch (cleanupError: unknown) {
+        log.error(cleanupError, `Job ${job.id} failure handler failed`);
+      }
+    }
+  }
+
+  return true;
+}
+
+export interface JobWorker {
+  readonly id: string;
+  /** Stop polling and wait for the in-flight job to finish. */
+  stop(): Promise<void>;
+}
+
+/**
+ * Start the background job worker.
+ * Recovers jobs abandoned by a previous process, then polls for due jobs.
+ */
+export function startJobWorker(options: {
+  handlers: JobHandlers;
+  log: JobLogger;
+  pollIntervalMs?: number;
+}): JobWorker {
+  const { handlers, log } = options;
+  const pollIntervalMs = options.pollIntervalMs ?? POLL_INTERVAL_MS;
+  const workerId = `${WORKER_HOST}:${String(process.pid)}`;
+
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+  let current: Promise<void> = Promise.resolve();
+  let booting = true;
+
+  const tick = async () => {
+    try {
+      const recovered = await recoverStaleJobs({ reclaimWorker: booting ? workerId : undefined });
+      booting = false;
+      if (recovered > 0) {
+        log.info(`Recovered ${String(recovered)} abandoned job(s)`);
+      }
+
+      // Drain all due jobs before sleeping again
+      while (!stopped && (await runNextJob(workerId, handlers, log))) {
+        // keep going
+      }
+    } catch (error: unknown) {
+      log.error(error, "Job worker tick failed");
+    }
+  };
+
+  const schedule = () => {
+    if (stopped) {
+      return;
+    }
+    timer = setTimeout(() => {
+      current = tick().finally(schedule);
+    }, pollIntervalMs);
+  };
+
+  current = tick().finally(schedule);
+
+  return {
+    id: workerId,
+    async stop() {
+      stopped = true;
+      if (timer !== null) {
+        clearTimeout(timer);
+      }
+      await current;
+    },
+  };
+}
@@ -0,0 +1,380 @@
+/**
+ * Kubernetes API Client
+ * Minimal client for the core/v1 and apps/v1 REST endpoints used to run
+ * OpenClaw instances on a self-hosted cluster.
+ *
+ * Connection settings:
+ *   KUBERNETES_API_URL   → API server URL (defaults to the in-cluster service address)
+ *   KUBERNETES_TOKEN     → Bearer token (defaults to the mounted service account token)
+ *   NODE_EXTRA_CA_CERTS  → Set to the cluster CA bundle when the API server uses a private CA
+ *
+ * API Documentation: https://kubernetes.io/docs/reference/kubernetes-api/
+ */
+
+import { readFile } from "fs/promises";
+
+const SERVICE_ACCOUNT_TOKEN_PATH = "/var/run/secrets/kubernetes.io/serviceaccount/token";
+
+export class KubernetesApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly reason: string,
+    public readonly detail: string,
+    public readonly operation: string
+  ) {
+    super(`Kubernetes ${operation} failed (${String(status)}): ${detail}`);
+    this.name = "KubernetesApiError";
+  }
+}
+
+export interface ObjectMeta {
+  name: string;
+  namespace?: string;
+  labels?: Record<string, string>;
+  creationTimestamp?: string;
+}
+
+export interface Secret {
+  metadata: ObjectMeta;
+  type?: string;
+  stringData?: Record<string, string>;
+}
+
+export interface ResourceRequirements {
+  requests?: Record<string, string>;
+  limits?: Record<string, string>;
+}
+
+export interface Container {
+  name: string;
+  image: string;
+  env?: { name: string; value: string }[];
+  envFrom?: { secretRef: { name: string } }[];
+  ports?: { containerPort: number; name?: string }[];
+  resources?: ResourceRequirements;
+  volumeMounts?: { name: string; mountPath: string; readOnly?: boolean }[];
+}
+
+export interface Volume {
+  name: string;
+  secret?: { secretName: string; items?: { key: string; path: string }[] };
+}
+
+export interface Deployment {
+  metadata: ObjectMeta;
+  spec: {
+    replicas: number;
+    selector: { matchLabels: Record<string, string> };
+    template: {
+      metadata: { labels: Record<string, string> };
+      spec: { containers: Container[]; volumes?: Volume[] };
+    };
+  };
+  status?: {
+    replicas?: number;
+    readyReplicas?: number;
+    conditions?: { type: string; status: string; reason?: string; message?: string }[];
+  };
+}
+
+export interface Service {
+  metadata: ObjectMeta;
+  spec: {
+    type?: string;
+    selector: Record<string, string>;
+    ports: { port: number; targetPort: number; name?: string }[];
+    clusterIP?: string;
+  };
+}
+
+export interface Pod {
+  metadata: ObjectMeta;
+  status?: { phase?: string };
+}
+
+export interface PodLogOptions {
+  sinceTime?: Date;
+  tailLines?: number;
+  follow?: boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * Resolve the API server URL, preferring explicit configuration over the
+ * variables Kubernetes injects into every pod.
+ */
+function getApiUrl(): string {
+  const url = process.env.KUBERNETES_API_URL;
+  if (url !== undefined && url !== "") {
+    return url.replace(/\/+$/, "");
+  }
+  const host = process.env.KUBERNETES_SERVICE_HOST;
+  if (host !== undefined && host !== "") {
+    return `https://${host}:${process.env.KUBERNETES_SERVICE_PORT ?? "443"}`;
+  }
+  throw new Error("KUBERNETES_API_URL environment variable is required");
+}
+
+async function getToken(): Promise<string | undefined> {
+  const token = process.env.KUBERNETES_TOKEN;
+  if (token !== undefined && token !== "") {
+    return token;
+  }
+  try {
+    return (await readFile(SERVICE_ACCOUNT_TOKEN_PATH, "utf8")).trim();
+  } catch {
+    // Not running in a cluster; the API server may not require auth (e.g. kubectl proxy)
+    return undefined;
+  }
+}
+
+/**
+ * Send a request to the API server and throw a KubernetesApiError for non-2xx responses.
+ */
+async function kubeFetch(path: string, options: RequestInit, operation: string): Promise<Response> {
+  const token = await getToken();
+  const response = await fetch(`${getApiUrl()}${path}`, {
+    ...options,
+    headers: {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+      ...(token !== undefined && { Authorization: `Bearer ${token}` }),
+      ...(options.headers as Record<string, string>),
+    },
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    let reason = response.statusText;
+    let detail = text;
+    try {
+      // Errors come back as a Status object
+      const status = JSON.parse(text) as { reason?: string; message?: string };
+      reason = status.reason ?? reason;
+      detail = status.message ?? detail;
+    } catch {
+      // Not JSON - keep the raw body
+    }
+    throw new KubernetesApiError(response.status, reason, detail, operation);
+  }
+
+  return response;
+}
+
+async function kubeRequest(
+  path: string,
+  options: RequestInit = {},
+  operation = "request"
+): Promise<unknown> {
+  const response = await kubeFetch(path, options, operation);
+  return response.json();
+}
+
+function namespacePath(group: "core" | "apps", namespace: string, resource: string): string {
+  const prefix = group === "core" ? "/api/v1" : "/apis/apps/v1";
+  return `${prefix}/namespaces/${encodeURIComponent(namespace)}/${resource}`;
+}
+
+/**
+ * Create a Secret
+ */
+export async function createSecret(namespace: string, secret: Secret): Promise<Secret> {
+  return kubeRequest(
+    namespacePath("core", namespace, "secrets"),
+    { method: "POST", body: JSON.stringify({ apiVersion: "v1", kind: "Secret", ...secret }) },
+    "createSecret"
+  ) as Promise<Secret>;
+}
+
+/**
+ * Set entries of a Secret, leaving the others as they are
+ */
+export async function patchSecret(
+  namespace: string,
+  name: string,
+  stringData: Record<string, string>
+): Promise<void> {
+  await kubeRequest(
+    `${namespacePath("core", namespace, "secrets")}/${encodeURIComponent(name)}`,
+    {
+      method: "PATCH",
+      headers: { "Content-Type": "application/merge-patch+json" },
+      body: JSON.stringify({ stringData }),
+    },
+    "patchSecret"
+  );
+}
+
+/**
+ * Delete a Secret
+ */
+export async function deleteSecret(namespace: string, name: string): Promise<void> {
+  await kubeRequest(
+    `${namespacePath("core", namespace, "secrets")}/${encodeURIComponent(name)}`,
+    { method: "DELETE" },
+    "deleteSecret"
+  );
+}
+
+/**
+ * Create a Deployment
+ */
+export async function createDeployment(
+  namespace: string,
+  deployment: Deployment
+): Promise<Deployment> {
+  return kubeRequest(
+    namespacePath("apps", namespace, "deployments"),
+    {
+      method: "POST",
+      body: JSON.stringify({ apiVersion: "apps/v1", kind: "Deployment", ...deployment }),
+    },
+    "createDeployment"
+  ) as Promise<Deployment>;
+}
+
+/**
+ * Get a Deployment, including its rollout status
+ */
+export async function getDeployment(namespace: string, name: string): Promise<Deployment> {
+  return kubeRequest(
+    `${namespacePath("apps", namespace, "deployments")}/${encodeURIComponent(name)}`,
+    {},
+    "getDeployment"
+  ) as Promise<Deployment>;
+}
+
+/**
+ * List Deployments matching a label selector
+ */
+export async function listDeployments(
+  namespace: string,
+  labelSelector: string
+): Promise<Deployment[]> {
+  const query = new URLSearchParams({ labelSelector });
+  const list = (await kubeRequest(
+    `${namespacePath("apps", namespace, "deployments")}?${query.toString()}`,
+    {},
+    "listDeployments"
+  )) as { items: Deployment[] };
+  return list.items;
+}
+
+/**
+ * Set the number of replicas of a Deployment
+ */
+export async function scaleDeployment(
+  namespace: string,
+  name: string,
+  replicas: number
+): Promise<void> {
+  await kubeRequest(
+    `${namespacePath("apps", namespace, "deployments")}/${encodeURIComponent(name)}`,
+    {
+      method: "PATCH",
+      headers: { "Content-Type": "application/merge-patch+json" },
+      body: JSON.stringify({ spec: { replicas } }),
+    },
+    "scaleDeployment"
+  );
+}
+
+/**
+ * Set environment variables of one of a Deployment's containers. A strategic
+ * merge patch merges them by name into the container's env, leaving the
+ * others as they are. A changed env rolls out new pods.
+ */
+export async function setContainerEnv(
+  namespace: string,
+  name: string,
+  container: string,
+  env: { name: string; value: string }[]
+): Promise<void> {
+  await kubeRequest(
+    `${namespacePath("apps", namespace, "deployments")}/${encodeURIComponent(name)}`,
+    {
+      method: "PATCH",
+      headers: { "Content-Type": "application/strategic-merge-patch+json" },
+      body: JSON.stringify({
+        spec: { template: { spec: { containers: [{ name: container, env }] } } },
+      }),
+    },
+    "setContainerEnv"
+  );
+}
+
+/**
+ * Delete a Deployment and, in the background, its pods
+ */
+export async function deleteDeployment(namespace: string, name: string): Promise<void> {
+  await kubeRequest(
+    `${namespacePath("apps", namespace, "deployments")}/${encodeURIComponent(name)}`,
+    { method: "DELETE", body: JSON.stringify({ propagationPolicy: "Background" }) },
+    "deleteDeployment"
+  );
+}
+
+/**
+ * Create a Service
+ */
+export async function createService(namespace: string, service: Service): Promise<Service> {
+  return kubeRequest(
+    namespacePath("core", namespace, "services"),
+    { method: "POST", body: JSON.stringify({ apiVersion: "v1", kind: "Service", ...service }) },
+    "createService"
+  ) as Promise<Service>;
+}
+
+/**
+ * Delete a Service
+ */
+export async function deleteService(namespace: string, name: string): Promise<void> {
+  await kubeRequest(
+    `${namespacePath("core", namespace, "services")}/${encodeURIComponent(name)}`,
+    { method: "DELETE" },
+    "deleteService"
+  );
+}
+
+/**
+ * List pods matching a label selector
+ */
+export async function listPods(namespace: string, labelSelector: string): Promise<Pod[]> {
+  const query = new URLSearchParams({ labelSelector });
+  const list = (await kubeRequest(
+    `${namespacePath("core", namespace, "pods")}?${query.toString()}`,
+    {},
+    "listPods"
+  )) as { items: Pod[] };
+  return list.items;
+}
+
+/**
+ * Open a pod's log output. Lines are prefixed with RFC 3339 timestamps.
+ */
+export async function streamPodLogs(
+  namespace: string,
+  podName: string,
+  options: PodLogOptions = {}
+): Promise<ReadableStream<Uint8Array>> {
+  const query = new URLSearchParams({ timestamps: "true" });
+  if (options.sinceTime !== undefined) {
+    query.set("sinceTime", options.sinceTime.toISOString());
+  }
+  if (options.tailLines !== undefined) {
+    query.set("tailLines", String(options.tailLines));
+  }
+  if (options.follow === true) {
+    query.set("follow", "true");
+  }
+
+  const response = await kubeFetch(
+    `${namespacePath("core", namespace, "pods")}/${encodeURIComponent(podName)}/log?${query.toString()}`,
+    { headers: { Accept: "text/plain" }, signal: options.signal },
+    "streamPodLogs"
+  );
+  if (response.body === null) {
+    throw new KubernetesApiError(response.status, "EmptyBody", "No log stream", "streamPodLogs");
+  }
+  return response.body;
+}
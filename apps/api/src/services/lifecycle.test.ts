@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@fasterclaw/db", () => ({
+  prisma: {
+    instance: {
+      update: vi.fn(),
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from "@fasterclaw/db";
+import { canTransition, transitionInstance, InvalidTransitionError } from "./lifecycle";
+import { SYNC_ACTOR } from "./events";
+import { subscribeToOrganization } from "./pubsub";
+
+describe("Instance Lifecycle", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("canTransition", () => {
+    it("should allow the provisioning path", () => {
+      expect(canTransition("CREATING", "PROVISIONING")).toBe(true);
+      expect(canTransition("PROVISIONING", "RUNNING")).toBe(true);
+    });
+
+    it("should allow stopping and starting", () => {
+      expect(canTransition("RUNNING", "STOPPING")).toBe(true);
+      expect(canTransition("STOPPING", "STOPPED")).toBe(true);
+      expect(canTransition("STOPPED", "STARTING")).toBe(true);
+      expect(canTransition("STARTING", "RUNNING")).toBe(true);
+    });
+
+    it("should allow failing and deleting from any live state", () => {
+      expect(canTransition("PROVISIONING", "FAILED")).toBe(true);
+      expect(canTransition("STOPPED", "FAILED")).toBe(true);
+      expect(canTransition("RUNNING", "DELETED")).toBe(true);
+      expect(canTransition("FAILED", "DELETED")).toBe(true);
+    });
+
+    it("should only allow retrying failed instances", () => {
+      expect(canTransition("FAILED", "CREATING")).toBe(true);
+      expect(canTransition("RUNNING", "CREATING")).toBe(false);
+    });
+
+    it("should reject skipping states", () => {
+      expect(canTransition("CREATING", "RUNNING")).toBe(false);
+      expect(canTransition("STOPPING", "STARTING")).toBe(false);
+      expect(canTransition("STOPPED", "STOPPING")).toBe(false);
+    });
+
+    it("should allow restarting and redeploying deployed instances", () => {
+      expect(canTransition("RUNNING", "STARTING")).toBe(true);
+      expect(canTransition("RUNNING", "PROVISIONING")).toBe(true);
+      expect(canTransition("STOPPED", "PROVISIONING")).toBe(true);
+      expect(canTransition("FAILED", "PROVISIONING")).toBe(false);
+    });
+
+    it("should only let a deleting instance finish or fail its deletion", () => {
+      expect(canTransition("RUNNING", "DELETING")).toBe(true);
+      expect(canTransition("FAILED", "DELETING")).toBe(true);
+      expect(canTransition("DELETING", "DELETED")).toBe(true);
+      expect(canTransition("DELETING", "FAILED")).toBe(true);
+      expect(canTransition("DELETING", "RUNNING")).toBe(false);
+      expect(canTransition("DELETING", "DELETING")).toBe(false);
+    });
+
+    it("should treat DELETED as terminal", () => {
+      expect(canTransition("DELETED", "RUNNING")).toBe(false);
+      expect(canTransition("DELETED", "FAILED")).toBe(false);
+      expect(canTransition("DELETED", "DELETED")).toBe(false);
+    });
+
+    it("should not allow staying in the same state", () => {
+      expect(canTransition("STARTING", "STARTING")).toBe(false);
+    });
+  });
+
+  describe("transitionInstance", () => {
+    it("should update conditionally on the observed status", async () => {
+      vi.mocked(prisma.instance.update).mockResolvedValue({
+        id: "i-1",
+        userId: "user-1",
+        status: "STOPPING",
+        events: [],
+      } as any);
+
+      const result = await transitionInstance({ id: "i-1", status: "RUNNING" }, "STOPPING", {
+        by: { actor: "USER", actorId: "user-1" },
+        data: { ipAddress: null },
+      });
+
+      expect(result.status).toBe("STOPPING");
+      expect(prisma.instance.update).toHaveBeenCalledWith({
+        where: { id: "i-1", status: "RUNNING" },
+        data: {
+          ipAddress: null,
+          status: "STOPPING",
+          events: {
+            create: {
+              type: "STATUS_CHANGE",
+              actor: "USER",
+              actorId: "user-1",
+              fromStatus: "RUNNING",
+              toStatus: "STOPPING",
+              message: null,
+            },
+          },
+        },
+        include: {
+          events: { orderBy: { createdAt: "desc" }, take: 1 },
+        },
+      });
+    });
+
+    it("should publish the new state and event to the organization", async () => {
+      const event = { id: "event-1", type: "STATUS_CHANGE", toStatus: "STOPPED" };
+      vi.mocked(prisma.instance.update).mockResolvedValue({
+        id: "i-1",
+        userId: "user-1",
+        organizationId: "org-1",
+        status: "STOPPED",
+        events: [event],
+      } as any);
+      const listener = vi.fn();
+      const unsubscribe = subscribeToOrganization("org-1", listener);
+
+      const result = await transitionInstance({ id: "i-1", status: "STOPPING" }, "STOPPED", {
+        by: SYNC_ACTOR,
+      });
+      unsubscribe();
+
+      expect(result).not.toHaveProperty("events");
+      expect(listener).toHaveBeenCalledWith({
+        type: "instance",
+        instance: { id: "i-1", userId: "user-1", organizationId: "org-1", status: "STOPPED" },
+      });
+      expect(listener).toHaveBeenCalledWith({ type: "event", event });
+    });
+
+    it("should throw InvalidTransitionError without writing for illegal transitions", async () => {
+      await expect(
+        transitionInstance({ id: "i-1", status: "DELETED" }, "RUNNING", { by: SYNC_ACTOR })
+      ).rejects.toThrow(InvalidTransitionError);
+      expect(prisma.instance.update).not.toHaveBeenCalled();
+    });
+
+    it("should report the current status when it changed concurrently", async () => {
+      vi.mocked(prisma.instance.update).mockRejectedValue(
+        Object.assign(new Error("Record to update not found"), { code: "P2025" })
+      );
+      vi.mocked(prisma.instance.findUnique).mockResolvedValue({ status: "DELETED" } as any);
+
+      const error = await transitionInstance({ id: "i-1", status: "STOPPED" }, "STARTING", {
+        by: SYNC_ACTOR,
+      }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(InvalidTransitionError);
+      expect((error as InvalidTransitionError).from).toBe("DELETED");
+      expect((error as InvalidTransitionError).to).toBe("STARTING");
+    });
+
+    it("should rethrow unrelated database errors", async () => {
+      vi.mocked(prisma.instance.update).mockRejectedValue(new Error("connection lost"));
+
+      await expect(
+        transitionInstance({ id: "i-1", status: "STOPPED" }, "STARTING", { by: SYNC_ACTOR })
+      ).rejects.toThrow("connection lost");
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Instance Lifecycle
+ * Single source of truth for which instance status changes are legal.
+ *
+ * Every status write (routes, the job worker, provider status sync) goes
+ * through transitionInstance so that an instance can never jump to a state
+ * it could not have reached, e.g. a DELETED instance coming back as RUNNING.
+ *
+ *   CREATING → PROVISIONING → RUNNING ⇄ STOPPING → STOPPED → STARTING → RUNNING
+ *   RUNNING → STARTING (restart in place)
+ *   RUNNING, STOPPED → PROVISIONING (redeploy)
+ *   FAILED → CREATING (retry)
+ *   any → DELETING → DELETED (delete requested, then done)
+ *   any → FAILED, any → DELETED (terminal)
+ */
+
+import { prisma, type Instance, type InstanceStatus, type Prisma } from "@fasterclaw/db";
+import { buildEvent, type EventActor } from "./events.js";
+import { publishInstanceEvent, publishInstanceUpdate } from "./pubsub.js";
+
+/**
+ * Allowed target states for each state.
+ */
+const TRANSITIONS: Record<InstanceStatus, readonly InstanceStatus[]> = {
+  CREATING: ["PROVISIONING", "FAILED", "DELETING", "DELETED"],
+  PROVISIONING: ["STARTING", "RUNNING", "FAILED", "DELETING", "DELETED"],
+  STARTING: ["RUNNING", "STOPPED", "FAILED", "UNKNOWN", "DELETING", "DELETED"],
+  RUNNING: [
+    "STOPPING",
+    "STOPPED",
+    "STARTING",
+    "PROVISIONING",
+    "FAILED",
+    "UNKNOWN",
+    "DELETING",
+    "DELETED",
+  ],
+  STOPPING: ["STOPPED", "RUNNING", "FAILED", "UNKNOWN", "DELETING", "DELETED"],
+  STOPPED: ["STARTING", "RUNNING", "PROVISIONING", "FAILED", "UNKNOWN", "DELETING", "DELETED"],
+  FAILED: ["CREATING", "DELETING", "DELETED"],
+  DELETING: ["FAILED", "DELETED"],
+  DELETED: [],
+  UNKNOWN: ["STARTING", "RUNNING", "STOPPING", "STOPPED", "FAILED", "DELETING", "DELETED"],
+};
+
+export class InvalidTransitionError extends Error {
+  constructor(
+    public readonly instanceId: string,
+    public readonly from: InstanceStatus,
+    public readonly to: InstanceStatus
+  ) {
+    super(`Instance cannot move from ${from} to ${to}`);
+    this.name = "InvalidTransitionError";
+  }
+}
+
+/** Prisma's "record to update not found" error (P2025). */
+function isRecordNotFound(error: unknown): boolean {
+  return typeof error === "object" && error !== null && "code" in error && error.code === "P2025";
+}
+
+/**
+ * Check whether an instance in `from` may move to `to`.
+ */
+export function canTransition(from: InstanceStatus, to: InstanceStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+export interface TransitionOptions {
+  /** Who caused the change; recorded on the STATUS_CHANGE event */
+  by: EventActor;
+  /** Other instance fields to update in the same write */
+  data?: Omit<Prisma.InstanceUpdateInput, "status" | "events">;
+  /** Why the status changed, e.g. the error that failed provisioning */
+  reason?: string;
+}
+
+/**
+ * Move an instance to a new status, optionally updating other fields in the same write.
+ * A STATUS_CHANGE event is recorded atomically with the update, and both the
+ * new state and the event are published to the owner's live stream.
+ *
+ * The update is conditional on the status the caller observed, so a concurrent
+ * change (e.g. a delete landing while a start job runs) is rejected instead of
+ * being overwritten.
+ *
+ * @throws InvalidTransitionError if the transition is not allowed from the current status
+ */
+export async function transitionInstance(
+  instance: Pick<Instance, "id" | "status">,
+  to: InstanceStatus,
+  options: TransitionOptions
+): Promise<Instance> {
+  if (!canTransition(instance.status, to)) {
+    throw new InvalidTransitionError(instance.id, instance.status, to);
+  }
+
+  let updated;
+  try {
+    updated = await prisma.instance.update({
+      where: { id: instance.id, status: instance.status },
+      data: {
+        ...options.data,
+        status: to,
+        events: {
+          create: buildEvent(
+            {
+              type: "STATUS_CHANGE",
+              fromStatus: instance.status,
+              toStatus: to,
+              message: options.reason,
+            },
+            options.by
+          ),
+        },
+      },
+      include: {
+        // The event created above
+        events: { orderBy: { createdAt: "desc" }, take: 1 },
+      },
+    });
+  } catch (error: unknown) {
+    if (!isRecordNotFound(error)) {
+      throw error;
+    }
+    // Status changed underneath us - report the transition from the actual state
+    const current = await prisma.instance.findUnique({
+      where: { id: instance.id },
+      select: { status: true },
+    });
+    throw new InvalidTransitionError(instance.id, current?.status ?? instance.status, to);
+  }
+
+  const { events, ...result } = updated;
+  publishInstanceUpdate(result);
+  for (const event of events) {
+    publishInstanceEvent(result.organizationId, event);
+  }
+  return result;
+}
@@ -0,0 +1,26 @@
+/**
+ * Console Transport
+ * Prints outgoing mail instead of sending it, so links in verification and
+ * reset emails can be followed in development.
+ */
+
+import type { MailTransport, OutgoingMail } from "./types.js";
+
+export const consoleTransport: MailTransport = {
+  name: "console",
+
+  send(mail: OutgoingMail): Promise<void> {
+    console.log(
+      [
+        "─── Outgoing mail ───",
+        `From: ${mail.from}`,
+        `To: ${mail.to}`,
+        `Subject: ${mail.subject}`,
+        "",
+        mail.text,
+        "─────────────────────",
+      ].join("\n")
+    );
+    return Promise.resolve();
+  },
+};
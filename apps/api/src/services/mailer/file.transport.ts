@@ -0,0 +1,28 @@
+/**
+ * File Transport
+ * Writes each outgoing message to an .eml file, for tests and offline setups
+ * that want to inspect the exact message.
+ *
+ * Settings:
+ *   MAIL_FILE_DIR → Directory the messages are written to (default ./mail)
+ */
+
+import { randomBytes } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import { join } from "path";
+import { formatMessage } from "./message.js";
+import type { MailTransport, OutgoingMail } from "./types.js";
+
+const DEFAULT_DIR = "mail";
+
+export const fileTransport: MailTransport = {
+  name: "file",
+
+  async send(mail: OutgoingMail): Promise<void> {
+    const dir = process.env.MAIL_FILE_DIR ?? DEFAULT_DIR;
+    await mkdir(dir, { recursive: true });
+    // Sorts by send time
+    const name = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomBytes(4).toString("hex")}.eml`;
+    await writeFile(join(dir, name), formatMessage(mail));
+  },
+};
@@ -0,0 +1,48 @@
+/**
+ * Mailer
+ * Sends mail through the configured transport.
+ *
+ * Settings:
+ *   MAIL_TRANSPORT → "smtp", "console" or "file" (default: smtp when SMTP_HOST
+ *                    is set, otherwise console)
+ *   MAIL_FROM      → Sender of every message (default "FasterClaw <noreply@localhost>")
+ */
+
+import { consoleTransport } from "./console.transport.js";
+import { fileTransport } from "./file.transport.js";
+import { smtpTransport } from "./smtp.transport.js";
+import type { MailMessage, MailTransport } from "./types.js";
+
+export type { MailMessage, MailTransport, OutgoingMail } from "./types.js";
+export { SmtpError } from "./smtp.transport.js";
+
+const DEFAULT_FROM = "FasterClaw <noreply@localhost>";
+
+const transports: Partial<Record<string, MailTransport>> = {
+  smtp: smtpTransport,
+  console: consoleTransport,
+  file: fileTransport,
+};
+
+/**
+ * The transport outgoing mail goes through.
+ */
+export function getMailTransport(): MailTransport {
+  const name = process.env.MAIL_TRANSPORT;
+  if (name === undefined || name === "") {
+    const smtpHost = process.env.SMTP_HOST;
+    return smtpHost !== undefined && smtpHost !== "" ? smtpTransport : consoleTransport;
+  }
+  const transport = transports[name];
+  if (transport === undefined) {
+    throw new Error(`Unknown mail transport "${name}"`);
+  }
+  return transport;
+}
+
+/**
+ * Send a message from MAIL_FROM.
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send({ ...message, from: process.env.MAIL_FROM ?? DEFAULT_FROM });
+}
@@ -0,0 +1,68 @@
+/**
+ * RFC 5322 formatting of outgoing mail, shared by the SMTP and file transports
+ */
+
+import { randomBytes } from "crypto";
+import type { OutgoingMail } from "./types.js";
+
+/**
+ * Encode a header value that is not plain ASCII (RFC 2047).
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+}
+
+/**
+ * Base64 body wrapped at 76 characters, as MIME requires.
+ */
+function encodeBody(body: string): string {
+  return (
+    Buffer.from(body)
+      .toString("base64")
+      .match(/.{1,76}/g)
+      ?.join("\r\n") ?? ""
+  );
+}
+
+function part(contentType: string, body: string): string {
+  return [
+    `Content-Type: ${contentType}; charset=utf-8`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(body),
+  ].join("\r\n");
+}
+
+/**
+ * The full message with headers, lines ending in CRLF.
+ */
+export function formatMessage(mail: OutgoingMail, date = new Date()): string {
+  const domain = mail.from.split("@")[1]?.replace(/>.*$/, "") ?? "localhost";
+  const headers = [
+    `From: ${mail.from}`,
+    `To: ${mail.to}`,
+    `Subject: ${encodeHeader(mail.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomBytes(12).toString("hex")}@${domain}>`,
+    "MIME-Version: 1.0",
+  ];
+
+  if (mail.html === undefined) {
+    return [...headers, part("text/plain", mail.text), ""].join("\r\n");
+  }
+
+  const boundary = `fasterclaw-${randomBytes(8).toString("hex")}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    part("text/plain", mail.text),
+    `--${boundary}`,
+    part("text/html", mail.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createServer, type Server, type Socket } from "net";
+import { once } from "events";
+import type { AddressInfo } from "net";
+import { smtpTransport, SmtpError } from "./smtp.transport.js";
+
+/**
+ * A tiny SMTP server that records the session and can reject one command.
+ */
+function startServer(options: { reject?: string; auth?: boolean } = {}) {
+  const commands: string[] = [];
+  let data = "";
+  const server = createServer((socket: Socket) => {
+    let inData = false;
+    let buffer = "";
+    socket.write("220 test.local ESMTP\r\n");
+    socket.on("data", (chunk: Buffer) => {
+      buffer += chunk.toString("utf8");
+      let end = buffer.indexOf("\r\n");
+      while (end !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        end = buffer.indexOf("\r\n");
+        if (inData) {
+          if (line === ".") {
+            inData = false;
+            socket.write("250 Queued\r\n");
+          } else {
+            data += `${line}\n`;
+          }
+          continue;
+        }
+        commands.push(line);
+        const verb = line.split(/[ :]/)[0];
+        if (verb === options.reject) {
+          socket.write("550 Rejected\r\n");
+        } else if (verb === "EHLO") {
+          socket.write(
+            `250-test.local\r\n${options.auth === true ? "250-AUTH PLAIN\r\n" : ""}250 SIZE 1000000\r\n`
+          );
+        } else if (verb === "AUTH") {
+          socket.write("235 Authenticated\r\n");
+        } else if (verb === "DATA") {
+          inData = true;
+          socket.write("354 Go ahead\r\n");
+        } else if (verb === "QUIT") {
+          socket.end("221 Bye\r\n");
+        } else {
+          socket.write("250 OK\r\n");
+        }
+      }
+    });
+  });
+  return { server, commands, getData: () => data };
+}
+
+describe("SMTP Transport", () => {
+  let server: Server;
+  const originalEnv = { ...process.env };
+  const mail = {
+    from: "FasterClaw <noreply@fasterclaw.test>",
+    to: "user@example.com",
+    subject: "Hello",
+    text: "First line\n.starts with a dot",
+  };
+
+  async function listen(created: ReturnType<typeof startServer>) {
+    server = created.server;
+    server.listen(0, "127.0.0.1");
+    await once(server, "listening");
+    process.env.SMTP_HOST = "127.0.0.1";
+    process.env.SMTP_PORT = String((server.address() as AddressInfo).port);
+    return created;
+  }
+
+  beforeEach(() => {
+    delete process.env.SMTP_USER;
+    delete process.env.SMTP_PASSWORD;
+    delete process.env.SMTP_SECURE;
+  });
+
+  afterEach(async () => {
+    process.env = { ...originalEnv };
+    server.close();
+    await once(server, "close");
+  });
+
+  it("should deliver a message", async () => {
+    const { commands, getData } = await listen(startServer());
+
+    await smtpTransport.send(mail);
+
+    expect(commands).toEqual([
+      expect.stringMatching(/^EHLO /),
+      "MAIL FROM:<noreply@fasterclaw.test>",
+      "RCPT TO:<user@example.com>",
+      "DATA",
+      "QUIT",
+    ]);
+    expect(getData()).toContain("To: user@example.com");
+    expect(getData()).toContain("Subject: Hello");
+    expect(
+      Buffer.from(getData().split("\n\n")[1].replace(/\n/g, ""), "base64").toString("utf8")
+    ).toBe(mail.text);
+  });
+
+  it("should authenticate when credentials are set", async () => {
+    const { commands } = await listen(startServer({ auth: true }));
+    process.env.SMTP_USER = "mailer";
+    process.env.SMTP_PASSWORD = "secret";
+
+    await smtpTransport.send(mail);
+
+    expect(commands[1]).toBe(`AUTH PLAIN ${Buffer.from("\0mailer\0secret").toString("base64")}`);
+  });
+
+  it("should fail with the server's reply when a command is rejected", async () => {
+    await listen(startServer({ reject: "RCPT" }));
+
+    const sending = smtpTransport.send(mail);
+
+    await expect(sending).rejects.toBeInstanceOf(SmtpError);
+    await expect(sending).rejects.toThrow("SMTP RCPT failed (550): Rejected");
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * SMTP Transport
+ * A small SMTP client: EHLO, STARTTLS when the server offers it, AUTH PLAIN
+ * when credentials are set, then one message per connection. Works against
+ * a local catcher such as Mailpit (SMTP_HOST=localhost, SMTP_PORT=1025).
+ *
+ * Settings:
+ *   SMTP_HOST     → Server to deliver to (required)
+ *   SMTP_PORT     → Port (default 587)
+ *   SMTP_SECURE   → "true" to connect with TLS from the start, usually port 465
+ *   SMTP_USER     → Username for AUTH PLAIN (optional)
+ *   SMTP_PASSWORD → Password for AUTH PLAIN
+ */
+
+import { once } from "events";
+import { hostname } from "os";
+import { connect as connectTcp, type Socket } from "net";
+import { connect as connectTls } from "tls";
+import { formatMessage } from "./message.js";
+import type { MailTransport, OutgoingMail } from "./types.js";
+
+const DEFAULT_PORT = 587;
+const TIMEOUT_MS = 30_000;
+
+export class SmtpError extends Error {
+  constructor(
+    public readonly code: number,
+    public readonly reply: string,
+    public readonly command: string
+  ) {
+    super(`SMTP ${command} failed (${String(code)}): ${reply}`);
+    this.name = "SmtpError";
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * One SMTP session. Replies are queued as they arrive; a reply spans several
+ * lines when all but the last have a "-" after the code.
+ */
+class SmtpConnection {
+  private buffer = "";
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (err: Error) => void }[] = [];
+  private failure: Error | null = null;
+
+  constructor(private socket: Socket) {
+    this.listen();
+  }
+
+  private listen(): void {
+    this.socket.setTimeout(TIMEOUT_MS, () => {
+      this.socket.destroy(new Error("SMTP server timed out"));
+    });
+    this.socket.on("data", (chunk: Buffer) => {
+      this.receive(chunk.toString("utf8"));
+    });
+    this.socket.on("error", (err) => {
+      this.fail(err);
+    });
+    this.socket.on("close", () => {
+      this.fail(new Error("SMTP connection closed"));
+    });
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let end = this.buffer.indexOf("\r\n");
+    while (end !== -1) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      this.lines.push(line.slice(4));
+      if (line[3] !== "-") {
+        this.deliver({ code: Number(line.slice(0, 3)), lines: this.lines });
+        this.lines = [];
+      }
+      end = this.buffer.indexOf("\r\n");
+    }
+  }
+
+  private deliver(reply: SmtpReply): void {
+    const waiter = this.waiting.shift();
+    if (waiter === undefined) {
+      this.replies.push(reply);
+    } else {
+      waiter.resolve(reply);
+    }
+  }
+
+  private fail(err: Error): void {
+    this.failure ??= err;
+    for (const waiter of this.waiting.splice(0)) {
+      waiter.reject(err);
+    }
+  }
+
+  private async read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply !== undefined) {
+      return reply;
+    }
+    if (this.failure !== null) {
+      throw this.failure;
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting.push({ resolve, reject });
+    });
+  }
+
+  /**
+   * Wait for a reply and check its code.
+   */
+  async expect(command: string, codes: number[]): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(reply.code, reply.lines.join(" "), command);
+    }
+    return reply;
+  }
+
+  /**
+   * Send a command and check the reply. `label` replaces the command in
+   * errors, so credentials are not logged.
+   */
+  async command(line: string, codes: number[], label = line.split(" ")[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(label, codes);
+  }
+
+  /**
+   * Continue the session over TLS after STARTTLS.
+   */
+  async upgrade(servername: string): Promise<void> {
+    this.socket.removeAllListeners();
+    this.socket.setTimeout(0);
+    const secure = connectTls({ socket: this.socket, servername });
+    await once(secure, "secureConnect");
+    this.socket = secure;
+    this.listen();
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+}
+
+/**
+ * The bare address of "Name <address>" or "address".
+ */
+function envelopeAddress(address: string): string {
+  return /<([^>]+)>/.exec(address)?.[1] ?? address.trim();
+}
+
+/**
+ * Escape lines starting with "." so they do not end the DATA section.
+ */
+function dotStuff(message: string): string {
+  return message.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..");
+}
+
+async function open(host: string, port: number, secure: boolean): Promise<SmtpConnection> {
+  const socket = secure ? connectTls({ host, port, servername: host }) : connectTcp({ host, port });
+  await once(socket, secure ? "secureConnect" : "connect");
+  return new SmtpConnection(socket);
+}
+
+export const smtpTransport: MailTransport = {
+  name: "smtp",
+
+  async send(mail: OutgoingMail): Promise<void> {
+    const host = process.env.SMTP_HOST;
+    if (host === undefined || host === "") {
+      throw new Error("SMTP_HOST is required to send mail over SMTP");
+    }
+    const port = Number(process.env.SMTP_PORT ?? DEFAULT_PORT);
+    const secure = process.env.SMTP_SECURE === "true";
+    const user = process.env.SMTP_USER;
+
+    const connection = await open(host, port, secure);
+    try {
+      await connection.expect("greeting", [220]);
+      const ehlo = await connection.command(`EHLO ${hostname()}`, [250]);
+
+      if (!secure && ehlo.lines.some((line) => line.toUpperCase() === "STARTTLS")) {
+        await connection.command("STARTTLS", [220]);
+        await connection.upgrade(host);
+        await connection.command(`EHLO ${hostname()}`, [250]);
+      }
+
+      if (user !== undefined && user !== "") {
+        const credentials = Buffer.from(`\0${user}\0${process.env.SMTP_PASSWORD ?? ""}`);
+        await connection.command(`AUTH PLAIN ${credentials.toString("base64")}`, [235], "AUTH");
+      }
+
+      await connection.command(`MAIL FROM:<${envelopeAddress(mail.from)}>`, [250]);
+      await connection.command(`RCPT TO:<${envelopeAddress(mail.to)}>`, [250, 251]);
+      await connection.command("DATA", [354]);
+      // The message ends with a line break; the lone "." follows it
+      await connection.command(`${dotStuff(formatMessage(mail))}.`, [250], "DATA");
+      await connection.command("QUIT", [221]);
+    } finally {
+      connection.close();
+    }
+  },
+};
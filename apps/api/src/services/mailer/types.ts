@@ -0,0 +1,25 @@
+/**
+ * Mailer Types
+ */
+
+/** An email the API wants to send */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/** A message with its sender filled in, as handed to a transport */
+export interface OutgoingMail extends MailMessage {
+  from: string;
+}
+
+/**
+ * Delivers outgoing mail. Transports throw when a message could not be
+ * handed off.
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(mail: OutgoingMail): Promise<void>;
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { checkModel, getModelVendor, listModels, MODEL_CATALOG } from "./models.js";
+import { PLAN_ENTITLEMENTS } from "./entitlements.js";
+
+describe("AI Model Catalog", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should have unique model ids", () => {
+    const ids = MODEL_CATALOG.map((model) => model.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it("should offer the default model to every plan", () => {
+    for (const entitlements of Object.values(PLAN_ENTITLEMENTS)) {
+      expect(listModels(entitlements)[0]).toMatchObject({
+        id: "claude-sonnet-4-0",
+        available: true,
+      });
+    }
+  });
+
+  describe("getModelVendor", () => {
+    it("should return the vendor from the catalog", () => {
+      expect(getModelVendor("gpt-4o-mini")).toBe("openai");
+      expect(getModelVendor("claude-3-5-haiku-latest")).toBe("anthropic");
+      expect(getModelVendor("gemini-2.0-flash")).toBe("google");
+    });
+
+    it("should throw instead of guessing for unknown models", () => {
+      expect(() => getModelVendor("claude-9")).toThrow('Unknown AI model "claude-9"');
+    });
+  });
+
+  describe("checkModel", () => {
+    it("should reject models outside the catalog", () => {
+      expect(checkModel("gpt-2")).toBe(
+        'Unknown AI model "gpt-2". See GET /models for the catalog.'
+      );
+    });
+
+    it("should leave plan coverage to the entitlements", () => {
+      expect(checkModel("claude-opus-4-0")).toBeNull();
+    });
+
+    it("should reject retired models", () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2026-01-01T00:00:00.000Z"));
+
+      expect(checkModel("claude-3-5-sonnet-20241022")).toBe(
+        "Claude 3.5 Sonnet was retired on 2025-10-22. Choose another model."
+      );
+    });
+
+    it("should allow deprecated models until their retirement date", () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2025-10-01T00:00:00.000Z"));
+
+      expect(checkModel("claude-3-5-sonnet-20241022")).toBeNull();
+    });
+  });
+
+  describe("listModels", () => {
+    it("should mark what the plan can use", () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2026-01-01T00:00:00.000Z"));
+
+      const models = listModels(PLAN_ENTITLEMENTS.starter);
+
+      expect(models).toHaveLength(MODEL_CATALOG.length);
+      expect(models.find((model) => model.id === "gpt-4o-mini")).toMatchObject({
+        vendor: "openai",
+        contextWindow: 128_000,
+        available: true,
+      });
+      expect(models.find((model) => model.id === "claude-opus-4-0")?.available).toBe(false);
+      expect(models.find((model) => model.id === "claude-3-5-sonnet-20241022")?.available).toBe(
+        false
+      );
+    });
+  });
+});
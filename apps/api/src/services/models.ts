@@ -0,0 +1,133 @@
+/**
+ * AI Model Catalog
+ * The models instances may run, with the vendor whose key they need and, once
+ * announced, the date the vendor retires them. Which plans may use a model is
+ * up to the plan entitlements.
+ * New instances and model changes are checked against this list; instances
+ * already on a retired model keep it until their owner picks another one.
+ */
+
+import type { AiKeyProvider, AiModel, PlanEntitlements } from "@fasterclaw/shared";
+import { allowsModel, getPlansForModel } from "./entitlements.js";
+
+export type CatalogModel = Omit<AiModel, "plans" | "available">;
+
+export const MODEL_CATALOG: readonly CatalogModel[] = [
+  {
+    id: "claude-sonnet-4-0",
+    vendor: "anthropic",
+    displayName: "Claude Sonnet 4",
+    contextWindow: 200_000,
+    deprecatedAt: null,
+  },
+  {
+    id: "claude-opus-4-0",
+    vendor: "anthropic",
+    displayName: "Claude Opus 4",
+    contextWindow: 200_000,
+    deprecatedAt: null,
+  },
+  {
+    id: "claude-3-5-haiku-latest",
+    vendor: "anthropic",
+    displayName: "Claude 3.5 Haiku",
+    contextWindow: 200_000,
+    deprecatedAt: null,
+  },
+  {
+    id: "claude-3-5-sonnet-20241022",
+    vendor: "anthropic",
+    displayName: "Claude 3.5 Sonnet",
+    contextWindow: 200_000,
+    deprecatedAt: "2025-10-22T00:00:00.000Z",
+  },
+  {
+    id: "gpt-4o-mini",
+    vendor: "openai",
+    displayName: "GPT-4o Mini",
+    contextWindow: 128_000,
+    deprecatedAt: null,
+  },
+  {
+    id: "gpt-4o",
+    vendor: "openai",
+    displayName: "GPT-4o",
+    contextWindow: 128_000,
+    deprecatedAt: null,
+  },
+  {
+    id: "gpt-4-turbo",
+    vendor: "openai",
+    displayName: "GPT-4 Turbo",
+    contextWindow: 128_000,
+    deprecatedAt: null,
+  },
+  {
+    id: "gemini-2.0-flash",
+    vendor: "google",
+    displayName: "Gemini 2.0 Flash",
+    contextWindow: 1_048_576,
+    deprecatedAt: null,
+  },
+  {
+    id: "gemini-2.5-pro",
+    vendor: "google",
+    displayName: "Gemini 2.5 Pro",
+    contextWindow: 1_048_576,
+    deprecatedAt: null,
+  },
+];
+
+/**
+ * Look up a model by id, or null if it is not in the catalog.
+ */
+export function getModel(id: string): CatalogModel | null {
+  return MODEL_CATALOG.find((model) => model.id === id) ?? null;
+}
+
+/**
+ * Vendor of a catalog model.
+ *
+ * @throws Error if the model is not in the catalog
+ */
+export function getModelVendor(id: string): AiKeyProvider {
+  const model = getModel(id);
+  if (model === null) {
+    throw new Error(`Unknown AI model "${id}"`);
+  }
+  return model.vendor;
+}
+
+/**
+ * Whether the vendor has retired a model.
+ */
+export function isRetired(model: CatalogModel, now = new Date()): boolean {
+  return model.deprecatedAt !== null && new Date(model.deprecatedAt) <= now;
+}
+
+/**
+ * Check that a model can be chosen for an instance: it has to be in the
+ * catalog and not retired. Whether the plan includes it is an entitlement.
+ * Returns the message to reply with (as a 400), or null if it can.
+ */
+export function checkModel(id: string): string | null {
+  const model = getModel(id);
+  if (model === null) {
+    return `Unknown AI model "${id}". See GET /models for the catalog.`;
+  }
+  if (isRetired(model)) {
+    return `${model.displayName} was retired on ${model.deprecatedAt?.slice(0, 10) ?? ""}. Choose another model.`;
+  }
+  return null;
+}
+
+/**
+ * The catalog as seen by a user with the given entitlements.
+ */
+export function listModels(entitlements: PlanEntitlements): AiModel[] {
+  return MODEL_CATALOG.map((model) => ({
+    ...model,
+    plans: getPlansForModel(model.id),
+    available: !isRetired(model) && allowsModel(entitlements, model.id),
+  }));
+}
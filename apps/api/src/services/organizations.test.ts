@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createHash } from "crypto";
+
+vi.mock("@fasterclaw/db", () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    user: { update: vi.fn() },
+    membership: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      upsert: vi.fn(),
+    },
+    instance: { updateMany: vi.fn() },
+    subscription: { updateMany: vi.fn() },
+    invitation: {
+      create: vi.fn(),
+      deleteMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from "@fasterclaw/db";
+import {
+  acceptInvitation,
+  checkOrganizationRole,
+  createInvitation,
+  getDefaultMembership,
+  getInvitationTtlDays,
+  hasRole,
+} from "./organizations.js";
+
+describe("Organizations", () => {
+  const userId = "cjld2cyuq0000t3rmniod1foy";
+  const organizationId = "cjld2cyuq0001t3rmniod1foz";
+  const organization = {
+    id: organizationId,
+    name: "Acme",
+    stripeCustomerId: null,
+    requireTwoFactor: false,
+    createdAt: new Date("2024-01-01T00:00:00.000Z"),
+    updatedAt: new Date("2024-01-01T00:00:00.000Z"),
+  };
+  const membership = {
+    id: "cjld2cyuq0002t3rmniod1fox",
+    organizationId,
+    userId,
+    role: "operator",
+    createdAt: new Date("2024-01-01T00:00:00.000Z"),
+    organization,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.$transaction).mockImplementation((async (arg: unknown) =>
+      typeof arg === "function" ? arg(prisma) : Promise.all(arg as unknown[])) as any);
+  });
+
+  afterEach(() => {
+    delete process.env.INVITATION_TTL_DAYS;
+  });
+
+  describe("hasRole", () => {
+    it("should rank roles from viewer to owner", () => {
+      expect(hasRole("owner", "admin")).toBe(true);
+      expect(hasRole("operator", "operator")).toBe(true);
+      expect(hasRole("operator", "admin")).toBe(false);
+      expect(hasRole("viewer", "operator")).toBe(false);
+    });
+
+    it("should deny unknown roles", () => {
+      expect(hasRole("member", "viewer")).toBe(false);
+    });
+  });
+
+  describe("getInvitationTtlDays", () => {
+    it("should default to a week", () => {
+      expect(getInvitationTtlDays()).toBe(7);
+    });
+
+    it("should ignore invalid values", () => {
+      process.env.INVITATION_TTL_DAYS = "soon";
+      expect(getInvitationTtlDays()).toBe(7);
+      process.env.INVITATION_TTL_DAYS = "14";
+      expect(getInvitationTtlDays()).toBe(14);
+    });
+  });
+
+  describe("getDefaultMembership", () => {
+    const user = { id: userId, email: "jane@example.com", name: null };
+
+    it("should return the oldest membership", async () => {
+      vi.mocked(prisma.membership.findFirst).mockResolvedValue(membership as any);
+
+      expect(await getDefaultMembership(user)).toBe(membership);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+      expect(prisma.user.update).not.toHaveBeenCalled();
+      expect(prisma.membership.create).not.toHaveBeenCalled();
+    });
+
+    it("should return the membership a concurrent request created", async () => {
+      vi.mocked(prisma.membership.findFirst)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(membership as any);
+      vi.mocked(prisma.user.update).mockResolvedValue({ stripeCustomerId: null } as any);
+
+      expect(await getDefaultMembership(user)).toBe(membership);
+      expect(prisma.membership.create).not.toHaveBeenCalled();
+    });
+
+    it("should create a personal organization that takes over legacy billing and instances", async () => {
+      vi.mocked(prisma.membership.findFirst).mockResolvedValue(null);
+      vi.mocked(prisma.user.update).mockResolvedValue({ stripeCustomerId: "cus_123" } as any);
+      vi.mocked(prisma.membership.create).mockResolvedValue({
+        ...membership,
+        role: "owner",
+      } as any);
+
+      const result = await getDefaultMembership(user);
+
+      expect(result.role).toBe("owner");
+      expect(prisma.membership.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            role: "owner",
+            organization: {
+              create: { name: "jane@example.com", stripeCustomerId: "cus_123" },
+            },
+          }),
+        })
+      );
+      expect(prisma.instance.updateMany).toHaveBeenCalledWith({
+        where: { userId, organizationId: null },
+        data: { organizationId },
+      });
+      expect(prisma.subscription.updateMany).toHaveBeenCalledWith({
+        where: { userId, organizationId: null },
+        data: { organizationId, userId: null },
+      });
+    });
+  });
+
+  describe("checkOrganizationRole", () => {
+    it("should return 404 to users outside the organization", async () => {
+      vi.mocked(prisma.membership.findUnique).mockResolvedValue(null);
+
+      expect(await checkOrganizationRole(organizationId, userId, "viewer")).toEqual({
+        code: 404,
+        error: "Organization not found",
+      });
+    });
+
+    it("should return 403 when the role is too low", async () => {
+      vi.mocked(prisma.membership.findUnique).mockResolvedValue(membership as any);
+
+      expect(await checkOrganizationRole(organizationId, userId, "admin")).toEqual({
+        code: 403,
+        error: "This requires the admin role or higher",
+      });
+    });
+
+    it("should return the membership when the role is enough", async () => {
+      vi.mocked(prisma.membership.findUnique).mockResolvedValue(membership as any);
+
+      expect(await checkOrganizationRole(organizationId, userId, "operator")).toEqual({
+        membership,
+      });
+    });
+  });
+
+  describe("createInvitation", () => {
+    it("should store only a hash of the token and replace pending invitations", async () => {
+      vi.mocked(prisma.invitation.create).mockImplementation((async ({ data }: any) => ({
+        id: "cjld2cyuq0003t3rmniod1fow",
+        ...data,
+      })) as any);
+
+      const { token, invitation } = await createInvitation(organizationId, userId, {
+        email: "sam@example.com",
+        role: "viewer",
+      });
+
+      expect(invitation.tokenHash).toBe(createHash("sha256").update(token).digest("hex"));
+      expect(invitation.tokenHash).not.toContain(token);
+      expect(prisma.invitation.deleteMany).toHaveBeenCalledWith({
+        where: { organizationId, email: "sam@example.com", acceptedAt: null },
+      });
+    });
+  });
+
+  describe("acceptInvitation", () => {
+    const invitation = {
+      id: "cjld2cyuq0003t3rmniod1fow",
+      organizationId,
+      email: "jane@example.com",
+      role: "admin",
+      tokenHash: "hash",
+      invitedById: null,
+      expiresAt: new Date(Date.now() + 60_000),
+      acceptedAt: null,
+      createdAt: new Date(),
+    };
+
+    it("should add the member with the invited role", async () => {
+      vi.mocked(prisma.invitation.updateMany).mockResolvedValue({ count: 1 });
+      vi.mocked(prisma.membership.upsert).mockResolvedValue(membership as any);
+
+      expect(await acceptInvitation(invitation, userId)).toBe(membership);
+      expect(prisma.membership.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: {},
+          create: { organizationId, userId, role: "admin" },
+        })
+      );
+    });
+
+    it("should not use an invitation twice", async () => {
+      vi.mocked(prisma.invitation.updateMany).mockResolvedValue({ count: 0 });
+
+      expect(await acceptInvitation(invitation, userId)).toBeNull();
+      expect(prisma.membership.upsert).not.toHaveBeenCalled();
+    });
+  });
+});
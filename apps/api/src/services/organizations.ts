@@ -0,0 +1,285 @@
+/**
+ * Organizations
+ * Instances and the subscription belong to an organization, and users reach
+ * them through a membership whose role decides what they may do: viewers
+ * read, operators also start and stop instances, admins also create, change
+ * and delete them and manage members, owners also handle billing.
+ * app.authorize checks the role a route declares in `config.role`.
+ *
+ * Every user has a personal organization. It is created the first time it is
+ * needed and takes over the instances and subscription the user had before
+ * organizations existed.
+ *
+ * Invitations are emailed links. Their tokens are random, so only a SHA-256 is
+ * stored; accepting one needs an account signed in with the invited address.
+ *
+ * Settings:
+ *   INVITATION_TTL_DAYS → How long invitation links work (default 7)
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { prisma, type Invitation, type Membership, type Organization } from "@fasterclaw/db";
+import type { CreateInvitationRequest, OrganizationRole } from "@fasterclaw/shared";
+
+const DEFAULT_INVITATION_TTL_DAYS = 7;
+const DAY_MS = 24 * 60 * 60_000;
+
+const ROLE_RANK: Record<OrganizationRole, number> = {
+  viewer: 0,
+  operator: 1,
+  admin: 2,
+  owner: 3,
+};
+
+export type MembershipWithOrganization = Membership & { organization: Organization };
+
+/** Who is being given a personal organization. */
+export interface OrganizationUser {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Whether a role grants at least the access of another.
+ */
+export function hasRole(role: string, required: OrganizationRole): boolean {
+  return role in ROLE_RANK && ROLE_RANK[role as OrganizationRole] >= ROLE_RANK[required];
+}
+
+/**
+ * Days an invitation link works for.
+ */
+export function getInvitationTtlDays(): number {
+  const days = Number(process.env.INVITATION_TTL_DAYS ?? String(DEFAULT_INVITATION_TTL_DAYS));
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_INVITATION_TTL_DAYS;
+}
+
+/**
+ * The organization a user acts on when they do not pick one: the oldest they
+ * belong to. Users without one get a personal organization, which takes over
+ * their instances and subscription from before organizations.
+ */
+export async function getDefaultMembership(
+  user: OrganizationUser
+): Promise<MembershipWithOrganization> {
+  const oldest = {
+    where: { userId: user.id },
+    include: { organization: true },
+    orderBy: { createdAt: "asc" },
+  } as const;
+
+  // Runs on every request that picks no organization, so this is only a read
+  const existing = await prisma.membership.findFirst(oldest);
+  if (existing !== null) {
+    return existing;
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // Locks the user row, so concurrent first requests create one organization
+    const legacy = await tx.user.update({
+      where: { id: user.id },
+      data: { updatedAt: new Date() },
+      select: { stripeCustomerId: true },
+    });
+
+    // Another request may have created it while this one waited for the lock
+    const created = await tx.membership.findFirst(oldest);
+    if (created !== null) {
+      return created;
+    }
+
+    const membership = await tx.membership.create({
+      data: {
+        role: "owner",
+        user: { connect: { id: user.id } },
+        organization: {
+          create: {
+            name: user.name !== null && user.name !== "" ? user.name : user.email,
+            stripeCustomerId: legacy.stripeCustomerId,
+          },
+        },
+      },
+      include: { organization: true },
+    });
+    await tx.instance.updateMany({
+      where: { userId: user.id, organizationId: null },
+      data: { organizationId: membership.organizationId },
+    });
+    await tx.subscription.updateMany({
+      where: { userId: user.id, organizationId: null },
+      data: { organizationId: membership.organizationId, userId: null },
+    });
+    return membership;
+  });
+}
+
+/**
+ * A user's membership of an organization, or null when they do not belong to it.
+ */
+export async function findMembership(
+  organizationId: string,
+  userId: string
+): Promise<MembershipWithOrganization | null> {
+  return prisma.membership.findUnique({
+    where: { organizationId_userId: { organizationId, userId } },
+    include: { organization: true },
+  });
+}
+
+/**
+ * A user's membership of an organization if their role is at least the one
+ * required, else the error to answer with.
+ */
+export async function checkOrganizationRole(
+  organizationId: string,
+  userId: string,
+  required: OrganizationRole
+): Promise<{ membership: MembershipWithOrganization } | { code: 403 | 404; error: string }> {
+  const membership = await findMembership(organizationId, userId);
+  if (membership === null) {
+    return { code: 404, error: "Organization not found" };
+  }
+  if (!hasRole(membership.role, required)) {
+    return { code: 403, error: `This requires the ${required} role or higher` };
+  }
+  return { membership };
+}
+
+/**
+ * Every organization a user belongs to, oldest membership first.
+ */
+export async function listMemberships(userId: string): Promise<MembershipWithOrganization[]> {
+  return prisma.membership.findMany({
+    where: { userId },
+    include: { organization: true },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+/**
+ * Create an organization owned by the user.
+ */
+export async function createOrganization(
+  userId: string,
+  name: string
+): Promise<MembershipWithOrganization> {
+  return prisma.membership.create({
+    data: {
+      role: "owner",
+      user: { connect: { id: userId } },
+      organization: { create: { name } },
+    },
+    include: { organization: true },
+  });
+}
+
+/**
+ * Members of an organization, oldest first.
+ */
+export async function listMembers(organizationId: string) {
+  return prisma.membership.findMany({
+    where: { organizationId },
+    include: {
+      user: { select: { id: true, email: true, name: true, twoFactorEnabledAt: true } },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+/**
+ * How many owners an organization has; the last one cannot leave or be demoted.
+ */
+export async function countOwners(organizationId: string): Promise<number> {
+  return prisma.membership.count({ where: { organizationId, role: "owner" } });
+}
+
+/**
+ * Invite someone by email. A pending invitation to the same address is replaced.
+ * The returned token is not stored and cannot be sent again.
+ */
+export async function createInvitation(
+  organizationId: string,
+  invitedById: string,
+  request: CreateInvitationRequest
+): Promise<{ token: string; invitation: Invitation }> {
+  const token = randomBytes(32).toString("base64url");
+  const [, invitation] = await prisma.$transaction([
+    prisma.invitation.deleteMany({
+      where: { organizationId, email: request.email, acceptedAt: null },
+    }),
+    prisma.invitation.create({
+      data: {
+        organizationId,
+        invitedById,
+        email: request.email,
+        role: request.role,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + getInvitationTtlDays() * DAY_MS),
+      },
+    }),
+  ]);
+  return { token, invitation };
+}
+
+/**
+ * Invitations of an organization that can still be accepted, newest first.
+ */
+export async function listInvitations(organizationId: string) {
+  return prisma.invitation.findMany({
+    where: { organizationId, acceptedAt: null, expiresAt: { gt: new Date() } },
+    include: { invitedBy: { select: { email: true, name: true } } },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Withdraw a pending invitation. Returns false when there is no such invitation.
+ */
+export async function revokeInvitation(id: string, organizationId: string): Promise<boolean> {
+  const { count } = await prisma.invitation.deleteMany({
+    where: { id, organizationId, acceptedAt: null },
+  });
+  return count > 0;
+}
+
+/**
+ * Look up an invitation by the token from its email. Returns null for unknown,
+ * expired and already accepted invitations.
+ */
+export async function findPendingInvitation(token: string): Promise<Invitation | null> {
+  return prisma.invitation.findFirst({
+    where: { tokenHash: hashToken(token), acceptedAt: null, expiresAt: { gt: new Date() } },
+  });
+}
+
+/**
+ * Join the invitation's organization. Someone who already belongs to it keeps
+ * their role. Returns null if the invitation was used in the meantime.
+ */
+export async function acceptInvitation(
+  invitation: Invitation,
+  userId: string
+): Promise<MembershipWithOrganization | null> {
+  return prisma.$transaction(async (tx) => {
+    const { count } = await tx.invitation.updateMany({
+      where: { id: invitation.id, acceptedAt: null },
+      data: { acceptedAt: new Date() },
+    });
+    if (count === 0) {
+      return null;
+    }
+    return tx.membership.upsert({
+      where: {
+        organizationId_userId: { organizationId: invitation.organizationId, userId },
+      },
+      update: {},
+      create: { organizationId: invitation.organizationId, userId, role: invitation.role },
+      include: { organization: true },
+    });
+  });
+}
@@ -4,19 +4,47 @@
  * No additional npm packages required - uses child_process to run docker commands.
  */
 
-import { execFile } from "child_process";
+import { execFile, spawn } from "child_process";
 import { promisify } from "util";
 import { randomBytes } from "crypto";
+import { chmod, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { basename, dirname, join } from "path";
+import { createInterface } from "readline";
+import { PassThrough } from "stream";
+import type { InstanceStatus } from "@fasterclaw/db";
+import { getChannelEnv } from "../channels.js";
+import { DEFAULT_LOG_TAIL, parseTimestampedLine } from "./logs.js";
+import {
+  OPENCLAW_CONFIG_PATH,
+  OPENCLAW_DATA_PATH,
+  OPENCLAW_GATEWAY_PORT,
+  toConfigFile,
+  type OpenClawConfig,
+} from "./openclaw-config.js";
+import { registerProvider } from "./registry.js";
 import type {
   InstanceProvider,
   CreateInstanceConfig,
+  StartInstanceConfig,
   ProviderResult,
   ProviderInstanceData,
+  GetLogsOptions,
+  LogEntry,
+  ProviderResource,
 } from "./types.js";
 
 const execFileAsync = promisify(execFile);
 
-const OPENCLAW_IMAGE = "ghcr.io/openclaw/openclaw:latest";
+const CONTAINER_PREFIX = "openclaw-";
+
+const VOLUME_PREFIX = "openclaw-data-";
+
+const API_KEY_VARS = {
+  openai: "OPENAI_API_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+  google: "GOOGLE_API_KEY",
+} as const;
 
 /**
  * Execute a docker command with arguments (safe from shell injection).
@@ -43,15 +71,15 @@ async function checkDockerAvailable(): Promise<void> {
 }
 
 /**
- * Pull the OpenClaw image if not already present.
+ * Pull an OpenClaw image if not already present.
  */
-async function ensureImageExists(): Promise<void> {
+async function ensureImageExists(image: string): Promise<void> {
   try {
-    await dockerExec(["image", "inspect", OPENCLAW_IMAGE]);
+    await dockerExec(["image", "inspect", image]);
   } catch {
     // Image doesn't exist, pull it
-    console.log(`Pulling ${OPENCLAW_IMAGE}...`);
-    await dockerExec(["pull", OPENCLAW_IMAGE]);
+    console.log(`Pulling ${image}...`);
+    await dockerExec(["pull", image]);
   }
 }
 
@@ -70,7 +98,7 @@ async function getContainerState(containerId: string): Promise<string> {
 /**
  * Map Docker container state to our instance status.
  */
-function mapDockerState(dockerState: string): string {
+function mapDockerState(dockerState: string): InstanceStatus {
   switch (dockerState) {
     case "running":
       return "RUNNING";
@@ -91,12 +119,80 @@ function mapDockerState(dockerState: string): string {
 }
 
 /**
- * Get the mapped host port for a container.
- * OpenClaw uses port 18789 by default.
+ * Run `docker logs` and yield its output line by line.
+ * Containers write to both stdout and stderr, so both are read.
+ */
+async function* streamDockerLogs(args: string[], signal?: AbortSignal): AsyncGenerator<LogEntry> {
+  const child = spawn("docker", args, { stdio: ["ignore", "pipe", "pipe"] });
+  const output = new PassThrough();
+  const exited = new Promise<number | null>((resolve) => {
+    child.on("close", resolve);
+  });
+
+  // e.g. the docker binary is missing
+  const failure: { error?: Error } = {};
+  child.on("error", (error) => {
+    failure.error = error;
+    output.end();
+  });
+
+  let openStreams = 2;
+  const endOutput = () => {
+    openStreams -= 1;
+    if (openStreams === 0) {
+      output.end();
+    }
+  };
+  child.stdout.on("end", endOutput);
+  child.stderr.on("end", endOutput);
+  child.stdout.pipe(output, { end: false });
+  child.stderr.pipe(output, { end: false });
+
+  const stop = () => {
+    child.kill();
+  };
+  signal?.addEventListener("abort", stop);
+
+  let lastLine = "";
+  try {
+    for await (const line of createInterface({ input: output, crlfDelay: Infinity })) {
+      if (line === "") {
+        continue;
+      }
+      lastLine = line;
+      yield parseTimestampedLine(line);
+    }
+  } finally {
+    signal?.removeEventListener("abort", stop);
+    // Consumer stopped early (e.g. the client disconnected)
+    if (child.exitCode === null && child.signalCode === null) {
+      child.kill();
+    }
+  }
+
+  if (failure.error !== undefined) {
+    throw new Error(`Docker command failed: ${failure.error.message}`);
+  }
+  const code = await exited;
+  if (code !== 0 && signal?.aborted !== true) {
+    throw new Error(`Docker command failed: ${lastLine}`);
+  }
+}
+
+/**
+ * Parse docker's CreatedAt, e.g. "2024-01-01 10:00:00 +0000 UTC".
+ */
+function parseDockerTime(value: string): Date | undefined {
+  const date = new Date(value.replace(/ [A-Z]+$/, ""));
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Get the mapped host port of the OpenClaw gateway in a container.
  */
 async function getContainerPort(containerId: string): Promise<number | undefined> {
   try {
-    const result = await dockerExec(["port", containerId, "18789/tcp"]);
+    const result = await dockerExec(["port", containerId, `${String(OPENCLAW_GATEWAY_PORT)}/tcp`]);
     // Output format: "0.0.0.0:32768" or ":::32768"
     const match = /:(\d+)$/.exec(result);
     return match ? parseInt(match[1], 10) : undefined;
@@ -106,171 +202,359 @@ async function getContainerPort(containerId: string): Promise<number | undefined
 }
 
 /**
- * Wait for container to be ready and configure OpenClaw.
- * Enables gateway mode, Telegram plugin, and open DM policy for development.
+ * Copy an instance's config document into its container, which may be stopped
+ * or running.
  */
-async function configureOpenClaw(containerName: string): Promise<void> {
-  // Wait for container to initialize
-  await new Promise((resolve) => setTimeout(resolve, 3000));
-
+async function copyConfigFile(containerId: string, openclawConfig: OpenClawConfig): Promise<void> {
+  const dir = await mkdtemp(join(tmpdir(), "openclaw-config-"));
   try {
-    // Configure gateway mode
-    await execFileAsync("docker", [
-      "exec",
-      containerName,
-      "node",
-      "openclaw.mjs",
-      "config",
-      "set",
-      "gateway.mode",
-      "local",
-    ]);
+    // The gateway runs as an unprivileged user
+    await chmod(dir, 0o755);
+    await writeFile(join(dir, basename(OPENCLAW_CONFIG_PATH)), toConfigFile(openclawConfig));
+    // "dir/." copies the directory's contents, creating the target directory if needed
+    await dockerExec(["cp", `${dir}/.`, `${containerId}:${dirname(OPENCLAW_CONFIG_PATH)}`]);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
 
-    // Enable Telegram channel
-    await execFileAsync("docker", [
-      "exec",
-      containerName,
-      "node",
-      "openclaw.mjs",
-      "config",
-      "set",
-      "channels.telegram.enabled",
-      "true",
-    ]);
+/**
+ * Create an instance's named volume unless it exists already (docker volume
+ * create is idempotent). Local volumes have no size limit, so sizeGb is not
+ * enforced here.
+ */
+async function ensureVolume(volumeName: string): Promise<void> {
+  await dockerExec(["volume", "create", volumeName]);
+}
 
-    // Enable Telegram plugin
-    await execFileAsync("docker", [
-      "exec",
-      containerName,
-      "node",
-      "openclaw.mjs",
-      "config",
-      "set",
-      "plugins.entries.telegram.enabled",
-      "true",
-    ]);
+/**
+ * The named volume an instance's containers mount, keyed by the instance so
+ * later containers find it.
+ */
+function getVolumeName(config: CreateInstanceConfig): string | null {
+  return config.volume !== undefined ? `${VOLUME_PREFIX}${config.volume.key.toLowerCase()}` : null;
+}
 
-    // Set open DM policy for development (no pairing required)
-    await execFileAsync("docker", [
-      "exec",
-      containerName,
-      "node",
-      "openclaw.mjs",
-      "config",
-      "set",
-      "channels.telegram.allowFrom",
-      '["*"]',
-    ]);
-    await execFileAsync("docker", [
-      "exec",
-      containerName,
-      "node",
-      "openclaw.mjs",
-      "config",
-      "set",
-      "channels.telegram.dmPolicy",
-      "open",
-    ]);
+/**
+ * Environment variables carrying an instance's credentials.
+ */
+function getCredentialEnv(config: StartInstanceConfig): Record<string, string> {
+  return {
+    ...getChannelEnv(config.channels),
+    [API_KEY_VARS[config.aiProvider]]: config.aiApiKey,
+  };
+}
+
+/**
+ * Create and start an instance's container.
+ */
+async function createContainer(
+  containerName: string,
+  gatewayToken: string,
+  volumeName: string | null,
+  config: StartInstanceConfig & { image: string }
+): Promise<ProviderResult> {
+  // Build docker create arguments
+  const runArgs: string[] = [
+    "create",
+    "--name",
+    containerName,
+    "-e",
+    "NODE_ENV=production",
+    "-e",
+    `OPENCLAW_GATEWAY_TOKEN=${gatewayToken}`,
+    "-e",
+    "OPENCLAW_DISABLE_BONJOUR=1", // Disable mDNS in containers
+    "-e",
+    `OPENCLAW_CONFIG_PATH=${OPENCLAW_CONFIG_PATH}`,
+  ];
+
+  // Mount the instance's volume
+  if (volumeName !== null) {
+    await ensureVolume(volumeName);
+    runArgs.push(
+      "-v",
+      `${volumeName}:${OPENCLAW_DATA_PATH}`,
+      "-e",
+      `OPENCLAW_STATE_DIR=${OPENCLAW_DATA_PATH}`
+    );
+  }
 
-    // Restart the gateway to apply changes
-    await dockerExec(["restart", containerName]);
+  // Add the credentials of each channel and the AI provider's key
+  for (const [name, value] of Object.entries(getCredentialEnv(config))) {
+    runArgs.push("-e", `${name}=${value}`);
+  }
 
-    console.log(`OpenClaw configured for container ${containerName}`);
-  } catch (error) {
-    console.error(`Failed to configure OpenClaw: ${String(error)}`);
-    // Don't throw - container is running, just not fully configured
+  // Add port mapping and image
+  runArgs.push("-p", String(OPENCLAW_GATEWAY_PORT), config.image);
+
+  // Create the container, hand it its config document, then start it
+  const containerId = await dockerExec(runArgs);
+  await copyConfigFile(containerId, config.openclawConfig);
+  await dockerExec(["start", containerId]);
+
+  // Get the assigned port
+  const port = await getContainerPort(containerId);
+
+  return {
+    resourceId: containerId.slice(0, 12), // Short container ID
+    meta: { containerName, port: port ?? null, volumeName },
+    ipAddress: "localhost",
+  };
+}
+
+/**
+ * Read a container's environment variables.
+ */
+async function getContainerEnv(containerId: string): Promise<Partial<Record<string, string>>> {
+  try {
+    const output = await dockerExec(["inspect", "--format", "{{json .Config.Env}}", containerId]);
+    const env = JSON.parse(output) as string[];
+    return Object.fromEntries(
+      env.map((entry) => [entry.slice(0, entry.indexOf("=")), entry.slice(entry.indexOf("=") + 1)])
+    );
+  } catch {
+    return {};
   }
 }
 
+/**
+ * The name of an instance's container. Rows from before providerMeta did not
+ * record it, so it is looked up then.
+ */
+async function getContainerName(
+  data: ProviderInstanceData & { resourceId: string }
+): Promise<string> {
+  const { containerName } = data.meta;
+  if (typeof containerName === "string") {
+    return containerName;
+  }
+  const name = await dockerExec(["inspect", "--format", "{{.Name}}", data.resourceId]);
+  return name.replace(/^\//, "");
+}
+
+/**
+ * A container's environment is fixed when it is created, so a container whose
+ * credentials differ from the config is replaced by one created with them. The
+ * new container keeps the old one's name, gateway token, image and volume and
+ * is started. Returns undefined when the container is up to date.
+ */
+async function replaceStaleContainer(
+  data: ProviderInstanceData & { resourceId: string },
+  config: StartInstanceConfig
+): Promise<ProviderResult | undefined> {
+  const env = await getContainerEnv(data.resourceId);
+  const credentials = getCredentialEnv(config);
+  const stale =
+    Object.entries(credentials).some(([name, value]) => env[name] !== value) ||
+    // The key of a previously used AI provider
+    Object.values<string>(API_KEY_VARS).some(
+      (name) => env[name] !== undefined && !(name in credentials)
+    );
+  if (!stale) {
+    return undefined;
+  }
+
+  const { OPENCLAW_GATEWAY_TOKEN: gatewayToken } = env;
+  if (gatewayToken === undefined) {
+    throw new Error(`Docker container ${data.resourceId} not found`);
+  }
+  const containerName = await getContainerName(data);
+  const image = await dockerExec(["inspect", "--format", "{{.Config.Image}}", data.resourceId]);
+  const { volumeName } = data.meta;
+
+  await dockerExec(["rm", "-f", data.resourceId]);
+  return createContainer(
+    containerName,
+    gatewayToken,
+    typeof volumeName === "string" ? volumeName : null,
+    { ...config, image }
+  );
+}
+
 export const dockerProvider: InstanceProvider = {
   name: "docker",
+  displayName: "Docker (local)",
+  capabilities: {
+    logs: true,
+    exec: false,
+    volumes: true,
+    regions: false,
+    suspend: false,
+    metrics: false,
+    redeploy: true,
+  },
 
   async createInstance(config: CreateInstanceConfig): Promise<ProviderResult> {
     await checkDockerAvailable();
-    await ensureImageExists();
-
-    const containerName = `openclaw-${config.name.toLowerCase().replace(/[^a-z0-9]/g, "-")}-${String(Date.now())}`;
+    await ensureImageExists(config.image);
 
-    // Generate a cryptographically secure random gateway token
-    const gatewayToken = randomBytes(24).toString("hex");
+    const containerName = `${CONTAINER_PREFIX}${config.name.toLowerCase().replace(/[^a-z0-9]/g, "-")}-${String(Date.now())}`;
 
-    // Build docker run arguments
-    const runArgs: string[] = [
-      "run",
-      "-d",
-      "--name",
-      containerName,
-      "-e",
-      "NODE_ENV=production",
-      "-e",
-      `TELEGRAM_BOT_TOKEN=${config.telegramBotToken}`,
-      "-e",
-      `OPENCLAW_GATEWAY_TOKEN=${gatewayToken}`,
-      "-e",
-      "OPENCLAW_DISABLE_BONJOUR=1", // Disable mDNS in containers
-    ];
-
-    // Add the correct API key based on provider
-    if (config.aiProvider === "openai") {
-      runArgs.push("-e", `OPENAI_API_KEY=${config.aiApiKey}`);
-    } else if (config.aiProvider === "anthropic") {
-      runArgs.push("-e", `ANTHROPIC_API_KEY=${config.aiApiKey}`);
-    } else {
-      runArgs.push("-e", `GOOGLE_API_KEY=${config.aiApiKey}`);
+    // Replace the container of a failed attempt; its volume is reused
+    const previousContainer = config.previous?.meta.containerName;
+    if (typeof previousContainer === "string") {
+      await dockerExec(["rm", "-f", previousContainer]).catch(() => undefined);
     }
 
-    // Add port mapping and image
-    runArgs.push("-p", "18789", OPENCLAW_IMAGE);
+    // Generate a cryptographically secure random gateway token
+    const gatewayToken = randomBytes(24).toString("hex");
 
-    // Create and start container with port 18789 (OpenClaw default)
-    const containerId = await dockerExec(runArgs);
+    return createContainer(containerName, gatewayToken, getVolumeName(config), config);
+  },
 
-    // Get the assigned port
-    const port = await getContainerPort(containerId);
+  async startInstance(
+    data: ProviderInstanceData,
+    config: StartInstanceConfig
+  ): Promise<ProviderResult | undefined> {
+    if (data.resourceId === null) {
+      throw new Error("Missing Docker container ID");
+    }
+    await checkDockerAvailable();
+    const replaced = await replaceStaleContainer({ ...data, resourceId: data.resourceId }, config);
+    if (replaced !== undefined) {
+      return replaced;
+    }
+    await copyConfigFile(data.resourceId, config.openclawConfig);
+    await dockerExec(["start", data.resourceId]);
+    return undefined;
+  },
 
-    // Configure OpenClaw in background (don't block return)
-    void configureOpenClaw(containerName);
+  async applyConfig(data: ProviderInstanceData, openclawConfig: OpenClawConfig): Promise<void> {
+    if (data.resourceId === null) {
+      throw new Error("Missing Docker container ID");
+    }
+    await checkDockerAvailable();
+    await copyConfigFile(data.resourceId, openclawConfig);
+  },
 
-    return {
-      providerId: containerId.slice(0, 12), // Short container ID
-      providerAppId: containerName,
-      ipAddress: "localhost",
-      port,
-    };
+  async restartInstance(
+    data: ProviderInstanceData,
+    config: StartInstanceConfig
+  ): Promise<ProviderResult | undefined> {
+    if (data.resourceId === null) {
+      throw new Error("Missing Docker container ID");
+    }
+    await checkDockerAvailable();
+    const replaced = await replaceStaleContainer({ ...data, resourceId: data.resourceId }, config);
+    if (replaced !== undefined) {
+      return replaced;
+    }
+    await copyConfigFile(data.resourceId, config.openclawConfig);
+    await dockerExec(["restart", data.resourceId]);
+    return undefined;
   },
 
-  async startInstance(data: ProviderInstanceData): Promise<void> {
-    if (data.dockerContainerId === null || data.dockerContainerId === undefined) {
+  async redeployInstance(
+    data: ProviderInstanceData,
+    config: CreateInstanceConfig
+  ): Promise<ProviderResult> {
+    if (data.resourceId === null) {
       throw new Error("Missing Docker container ID");
     }
     await checkDockerAvailable();
-    await dockerExec(["start", data.dockerContainerId]);
+    // Pull even when present, so a re-pushed tag resolves to its current image
+    await dockerExec(["pull", config.image]);
+
+    // The new container keeps the old one's name and gateway token
+    const { OPENCLAW_GATEWAY_TOKEN: gatewayToken } = await getContainerEnv(data.resourceId);
+    if (gatewayToken === undefined) {
+      throw new Error(`Docker container ${data.resourceId} not found`);
+    }
+    const containerName = await getContainerName({ ...data, resourceId: data.resourceId });
+    await dockerExec(["rm", "-f", data.resourceId]);
+    return createContainer(containerName, gatewayToken, getVolumeName(config), config);
   },
 
   async stopInstance(data: ProviderInstanceData): Promise<void> {
-    if (data.dockerContainerId === null || data.dockerContainerId === undefined) {
+    if (data.resourceId === null) {
       throw new Error("Missing Docker container ID");
     }
     await checkDockerAvailable();
-    await dockerExec(["stop", data.dockerContainerId]);
+    await dockerExec(["stop", data.resourceId]);
   },
 
   async deleteInstance(data: ProviderInstanceData): Promise<void> {
-    if (data.dockerContainerId === null || data.dockerContainerId === undefined) {
+    if (data.resourceId === null) {
       return;
     }
 
     await checkDockerAvailable();
     // Force remove (stops if running)
-    await dockerExec(["rm", "-f", data.dockerContainerId]);
+    await dockerExec(["rm", "-f", data.resourceId]);
+    const { volumeName } = data.meta;
+    if (typeof volumeName === "string") {
+      await dockerExec(["volume", "rm", "-f", volumeName]);
+    }
   },
 
-  async getInstanceStatus(data: ProviderInstanceData): Promise<string> {
-    if (data.dockerContainerId === null || data.dockerContainerId === undefined) {
+  async getInstanceStatus(data: ProviderInstanceData): Promise<InstanceStatus> {
+    if (data.resourceId === null) {
       return "UNKNOWN";
     }
     await checkDockerAvailable();
-    const state = await getContainerState(data.dockerContainerId);
+    const state = await getContainerState(data.resourceId);
     return mapDockerState(state);
   },
+
+  async getVolumeUsage(data: ProviderInstanceData): Promise<number | null> {
+    if (data.resourceId === null || typeof data.meta.volumeName !== "string") {
+      return null;
+    }
+    await checkDockerAvailable();
+    try {
+      // Only readable while the container runs
+      const output = await dockerExec(["exec", data.resourceId, "du", "-sk", OPENCLAW_DATA_PATH]);
+      const kilobytes = parseInt(output, 10);
+      return Number.isNaN(kilobytes) ? null : kilobytes * 1024;
+    } catch {
+      return null;
+    }
+  },
+
+  async listResources(): Promise<ProviderResource[]> {
+    await checkDockerAvailable();
+    const output = await dockerExec([
+      "ps",
+      "--all",
+      "--filter",
+      `name=${CONTAINER_PREFIX}`,
+      "--format",
+      "{{.ID}}\t{{.Names}}\t{{.State}}\t{{.CreatedAt}}",
+    ]);
+
+    return output
+      .split("\n")
+      .filter((line) => line !== "")
+      .map((line) => {
+        const [id, name, state, createdAt] = line.split("\t");
+        return {
+          resourceId: id,
+          name,
+          status: mapDockerState(state),
+          meta: { containerName: name },
+          createdAt: parseDockerTime(createdAt),
+        };
+      });
+  },
+
+  async *getLogs(data: ProviderInstanceData, options: GetLogsOptions): AsyncGenerator<LogEntry> {
+    if (data.resourceId === null) {
+      throw new Error("Missing Docker container ID");
+    }
+    await checkDockerAvailable();
+
+    const args = ["logs", "--timestamps", "--tail", String(options.tail ?? DEFAULT_LOG_TAIL)];
+    if (options.since !== undefined) {
+      args.push("--since", options.since.toISOString());
+    }
+    if (options.follow === true) {
+      args.push("--follow");
+    }
+    args.push(data.resourceId);
+
+    yield* streamDockerLogs(args, options.signal);
+  },
 };
+
+registerProvider(dockerProvider);
@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  fakeProvider,
+  configureFakeProvider,
+  resetFakeProvider,
+  getFakeMachine,
+  getFakeVolume,
+  FakeProviderError,
+} from "./fake.provider.js";
+import { getProviderByType } from "./registry.js";
+
+describe("Fake Provider", () => {
+  const config = {
+    name: "Support Bot",
+    userId: "cjld2cyuq0000t3rmniod1foy",
+    channels: [{ type: "telegram" as const, botToken: "123456:ABC-secret" }],
+    openclawConfig: { "channels.telegram.enabled": true },
+    aiProvider: "anthropic" as const,
+    aiApiKey: "sk-ant-test",
+    aiModel: "claude-sonnet-4-0",
+    region: "lhr",
+    image: "ghcr.io/openclaw/openclaw:2026.2.1",
+  };
+
+  beforeEach(() => {
+    resetFakeProvider();
+  });
+
+  afterEach(() => {
+    delete process.env.FAKE_PROVIDER_FAIL_CREATE;
+    resetFakeProvider();
+  });
+
+  it("should register itself outside production", () => {
+    expect(getProviderByType("fake")).toBe(fakeProvider);
+  });
+
+  describe("createInstance", () => {
+    it("should hand out deterministic IDs", async () => {
+      const first = await fakeProvider.createInstance(config);
+      const second = await fakeProvider.createInstance(config);
+
+      expect(first).toEqual({
+        resourceId: "fake-0001",
+        meta: { region: "lhr" },
+        ipAddress: "127.0.0.1",
+      });
+      expect(second.resourceId).toBe("fake-0002");
+
+      resetFakeProvider();
+      expect((await fakeProvider.createInstance(config)).resourceId).toBe("fake-0001");
+    });
+
+    it("should fail every create when failCreate is set", async () => {
+      configureFakeProvider({ failCreate: true });
+
+      await expect(fakeProvider.createInstance(config)).rejects.toThrow(
+        "Fake provider createInstance failed: injected create failure"
+      );
+    });
+
+    it("should read failure injection from the environment", async () => {
+      process.env.FAKE_PROVIDER_FAIL_CREATE = "true";
+      resetFakeProvider();
+
+      await expect(fakeProvider.createInstance(config)).rejects.toBeInstanceOf(FakeProviderError);
+    });
+
+    it("should wait for the configured latency", async () => {
+      configureFakeProvider({ latencyMs: 50 });
+
+      const started = Date.now();
+      await fakeProvider.createInstance(config);
+
+      expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+    });
+  });
+
+  describe("lifecycle", () => {
+    it("should move machines through stop, start and delete", async () => {
+      const { resourceId } = await fakeProvider.createInstance(config);
+      const data = { resourceId, meta: {} };
+      expect(await fakeProvider.getInstanceStatus(data)).toBe("RUNNING");
+
+      await fakeProvider.stopInstance(data);
+      expect(await fakeProvider.getInstanceStatus(data)).toBe("STOPPED");
+
+      await fakeProvider.startInstance(data, config);
+      expect(await fakeProvider.getInstanceStatus(data)).toBe("RUNNING");
+
+      await fakeProvider.deleteInstance(data);
+      expect(await fakeProvider.getInstanceStatus(data)).toBe("DELETED");
+      await expect(fakeProvider.startInstance(data, config)).rejects.toThrow("not found");
+    });
+
+    it("should replace the config document of a running machine", async () => {
+      const { resourceId } = await fakeProvider.createInstance(config);
+
+      await fakeProvider.applyConfig!(
+        { resourceId, meta: {} },
+        { "channels.discord.enabled": true }
+      );
+
+      const machine = getFakeMachine(resourceId);
+      expect(machine?.status).toBe("RUNNING");
+      expect(machine?.openclawConfig).toEqual({ "channels.discord.enabled": true });
+    });
+
+    it("should replace a machine on redeploy", async () => {
+      const { resourceId } = await fakeProvider.createInstance(config);
+
+      const result = await fakeProvider.redeployInstance!({ resourceId, meta: {} }, config);
+
+      expect(result.resourceId).not.toBe(resourceId);
+      expect(getFakeMachine(resourceId)?.status).toBe("DELETED");
+      expect(getFakeMachine(result.resourceId)?.status).toBe("RUNNING");
+    });
+
+    it("should keep an instance's volume until the instance is deleted", async () => {
+      const withVolume = { ...config, volume: { key: "instance-1", sizeGb: 5 } };
+      const created = await fakeProvider.createInstance(withVolume);
+      expect(created.meta).toEqual({ region: "lhr", volume: "instance-1" });
+
+      // A failed attempt's volume is picked up again by the retry's machine
+      const retried = await fakeProvider.createInstance(withVolume);
+      const redeployed = await fakeProvider.redeployInstance!(retried, withVolume);
+      expect(getFakeMachine(redeployed.resourceId)?.volume).toBe("instance-1");
+      expect(await fakeProvider.getVolumeUsage!(redeployed)).toBe(3 * 64 * 1024);
+
+      await fakeProvider.deleteInstance(redeployed);
+      expect(getFakeVolume("instance-1")).toBeUndefined();
+    });
+
+    it("should crash machines redeployed on crashImage", async () => {
+      const { resourceId } = await fakeProvider.createInstance(config);
+      configureFakeProvider({ crashImage: "ghcr.io/openclaw/openclaw:2026.3.0" });
+
+      const result = await fakeProvider.redeployInstance!(
+        { resourceId, meta: {} },
+        { ...config, image: "ghcr.io/openclaw/openclaw:2026.3.0" }
+      );
+
+      expect(getFakeMachine(result.resourceId)?.status).toBe("FAILED");
+      expect(
+        await fakeProvider.getInstanceStatus({ resourceId: result.resourceId, meta: {} })
+      ).toBe("FAILED");
+    });
+
+    it("should leave machines starting when stuckStarting is set", async () => {
+      configureFakeProvider({ stuckStarting: true });
+
+      const { resourceId } = await fakeProvider.createInstance(config);
+
+      expect(getFakeMachine(resourceId)?.status).toBe("STARTING");
+    });
+
+    it("should fail only the Nth call", async () => {
+      const { resourceId } = await fakeProvider.createInstance(config);
+      const data = { resourceId, meta: {} };
+      configureFakeProvider({ failOnCall: 3 });
+
+      await expect(fakeProvider.stopInstance(data)).resolves.toBeUndefined();
+      await expect(fakeProvider.startInstance(data, config)).rejects.toThrow(
+        "Fake provider startInstance failed: injected failure on call 3"
+      );
+      await expect(fakeProvider.startInstance(data, config)).resolves.toBeUndefined();
+    });
+
+    it("should report unknown machines as deleted", async () => {
+      expect(await fakeProvider.getInstanceStatus({ resourceId: "fake-9999", meta: {} })).toBe(
+        "DELETED"
+      );
+      expect(await fakeProvider.getInstanceStatus({ resourceId: null, meta: {} })).toBe("UNKNOWN");
+    });
+  });
+
+  describe("getLogs", () => {
+    it("should return the most recent lines", async () => {
+      const { resourceId } = await fakeProvider.createInstance(config);
+
+      const entries = [];
+      for await (const entry of fakeProvider.getLogs!({ resourceId, meta: {} }, { tail: 1 })) {
+        entries.push(entry);
+      }
+
+      expect(entries).toEqual([
+        expect.objectContaining({ level: "info", message: "Machine fake-0001 is now running" }),
+      ]);
+    });
+
+    it("should follow new lines until aborted", async () => {
+      const { resourceId } = await fakeProvider.createInstance(config);
+      const data = { resourceId, meta: {} };
+      const controller = new AbortController();
+
+      const messages: string[] = [];
+      for await (const entry of fakeProvider.getLogs!(data, {
+        tail: 1,
+        follow: true,
+        signal: controller.signal,
+      })) {
+        messages.push(entry.message);
+        if (messages.length === 1) {
+          await fakeProvider.stopInstance(data);
+        } else {
+          controller.abort();
+        }
+      }
+
+      expect(messages).toEqual([
+        "Machine fake-0001 is now running",
+        "Machine fake-0001 is now stopped",
+      ]);
+    });
+  });
+});
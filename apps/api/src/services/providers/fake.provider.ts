@@ -0,0 +1,360 @@
+/**
+ * Fake Provider
+ * Simulates machines in memory so the whole instance flow (create, start, stop,
+ * sync, retry, delete) runs without Fly.io, Docker or a cluster. Volumes are
+ * kept by key, so they outlive redeploys and retries like real ones. Meant for
+ * tests and offline development; it is not registered in production. Machines
+ * only live as long as the process, so after a restart sync reports them deleted.
+ *
+ * Settings (re-read by resetFakeProvider):
+ *   FAKE_PROVIDER_LATENCY_MS     → Delay before every call completes (default 0)
+ *   FAKE_PROVIDER_FAIL_CREATE    → "true" to fail every createInstance call
+ *   FAKE_PROVIDER_FAIL_ON_CALL   → Fail the Nth call, counted across all methods (1-based)
+ *   FAKE_PROVIDER_STUCK_STARTING → "true" to leave machines in STARTING after create/start
+ *   FAKE_PROVIDER_CRASH_IMAGE    → Image whose machines crash right after booting, like a
+ *                                  bad OpenClaw release
+ */
+
+import { EventEmitter, once } from "events";
+import { setTimeout as sleep } from "timers/promises";
+import type { InstanceStatus } from "@fasterclaw/db";
+import { DEFAULT_LOG_TAIL } from "./logs.js";
+import type { OpenClawConfig } from "./openclaw-config.js";
+import { registerProvider } from "./registry.js";
+import type {
+  InstanceProvider,
+  CreateInstanceConfig,
+  StartInstanceConfig,
+  ProviderResult,
+  ProviderInstanceData,
+  GetLogsOptions,
+  LogEntry,
+  LogLevel,
+  ProviderResource,
+} from "./types.js";
+
+export interface FakeProviderOptions {
+  latencyMs: number;
+  failCreate: boolean;
+  /** Fail the Nth call (1-based), or null to never fail */
+  failOnCall: number | null;
+  stuckStarting: boolean;
+  /** Machines running this image crash after booting, or null for none */
+  crashImage: string | null;
+}
+
+export interface FakeMachine {
+  id: string;
+  name: string;
+  region: string;
+  status: InstanceStatus;
+  createdAt: Date;
+  /** Image set at creation or the latest redeploy */
+  image: string;
+  /** Model set at creation or the latest start */
+  aiModel: string;
+  /** Config document delivered at creation, the latest start or applyConfig */
+  openclawConfig: OpenClawConfig;
+  /** Key of the mounted volume, or null for a machine without one */
+  volume: string | null;
+  logs: LogEntry[];
+}
+
+export interface FakeVolume {
+  key: string;
+  sizeGb: number;
+  usedBytes: number;
+}
+
+/** What a boot writes to the machine's volume, so usage grows like a live bot's */
+const BOOT_WRITE_BYTES = 64 * 1024;
+
+export class FakeProviderError extends Error {
+  constructor(
+    public readonly operation: string,
+    detail: string
+  ) {
+    super(`Fake provider ${operation} failed: ${detail}`);
+    this.name = "FakeProviderError";
+  }
+}
+
+function readOptionsFromEnv(): FakeProviderOptions {
+  const latency = Number(process.env.FAKE_PROVIDER_LATENCY_MS ?? "0");
+  const failOnCall = Number(process.env.FAKE_PROVIDER_FAIL_ON_CALL ?? "");
+  return {
+    latencyMs: Number.isFinite(latency) && latency > 0 ? latency : 0,
+    failCreate: process.env.FAKE_PROVIDER_FAIL_CREATE === "true",
+    failOnCall: Number.isInteger(failOnCall) && failOnCall > 0 ? failOnCall : null,
+    stuckStarting: process.env.FAKE_PROVIDER_STUCK_STARTING === "true",
+    crashImage: process.env.FAKE_PROVIDER_CRASH_IMAGE ?? null,
+  };
+}
+
+let options = readOptionsFromEnv();
+let callCount = 0;
+let nextId = 1;
+const machines = new Map<string, FakeMachine>();
+const volumes = new Map<string, FakeVolume>();
+// Followed log streams wait for "log:<machine id>"
+const logEvents = new EventEmitter();
+
+/**
+ * Override settings, e.g. to inject a failure in a single test.
+ */
+export function configureFakeProvider(overrides: Partial<FakeProviderOptions>): void {
+  options = { ...options, ...overrides };
+}
+
+/**
+ * Forget all machines and restart ID and call numbering.
+ */
+export function resetFakeProvider(): void {
+  options = readOptionsFromEnv();
+  callCount = 0;
+  nextId = 1;
+  machines.clear();
+  volumes.clear();
+  logEvents.removeAllListeners();
+}
+
+/**
+ * Look at a simulated machine.
+ */
+export function getFakeMachine(resourceId: string): Readonly<FakeMachine> | undefined {
+  return machines.get(resourceId);
+}
+
+/**
+ * Look at a simulated volume.
+ */
+export function getFakeVolume(key: string): Readonly<FakeVolume> | undefined {
+  return volumes.get(key);
+}
+
+/**
+ * Count the call, wait out the configured latency and apply failure injection.
+ */
+async function simulateCall(operation: string): Promise<void> {
+  callCount += 1;
+  const call = callCount;
+  if (options.latencyMs > 0) {
+    await sleep(options.latencyMs);
+  }
+  if (options.failOnCall === call) {
+    throw new FakeProviderError(operation, `injected failure on call ${String(call)}`);
+  }
+}
+
+function appendLog(machine: FakeMachine, level: LogLevel, message: string): void {
+  machine.logs.push({ timestamp: new Date(), level, message });
+  logEvents.emit(`log:${machine.id}`);
+}
+
+function setStatus(machine: FakeMachine, status: InstanceStatus): void {
+  machine.status = status;
+  appendLog(machine, "info", `Machine ${machine.id} is now ${status.toLowerCase()}`);
+}
+
+/**
+ * Bring a machine up, or leave it booting when stuckStarting is set. Machines
+ * running crashImage come up and crash straight away.
+ */
+function boot(machine: FakeMachine): void {
+  setStatus(machine, "STARTING");
+  if (options.stuckStarting) {
+    return;
+  }
+  setStatus(machine, "RUNNING");
+  const volume = machine.volume !== null ? volumes.get(machine.volume) : undefined;
+  if (volume !== undefined) {
+    volume.usedBytes += BOOT_WRITE_BYTES;
+  }
+  if (machine.image === options.crashImage) {
+    appendLog(machine, "error", `OpenClaw crashed on ${machine.image}`);
+    setStatus(machine, "FAILED");
+  }
+}
+
+function requireMachine(data: ProviderInstanceData, operation: string): FakeMachine {
+  const machine = data.resourceId !== null ? machines.get(data.resourceId) : undefined;
+  if (machine === undefined || machine.status === "DELETED") {
+    throw new FakeProviderError(operation, `machine ${data.resourceId ?? "(none)"} not found`);
+  }
+  return machine;
+}
+
+/**
+ * Add a machine for an instance and boot it, mounting the instance's volume
+ * (created on first use).
+ */
+function createMachine(config: CreateInstanceConfig): FakeMachine {
+  const id = `fake-${String(nextId).padStart(4, "0")}`;
+  nextId += 1;
+  if (config.volume !== undefined && !volumes.has(config.volume.key)) {
+    volumes.set(config.volume.key, { ...config.volume, usedBytes: 0 });
+  }
+  const machine: FakeMachine = {
+    id,
+    name: config.name,
+    region: config.region ?? "local",
+    status: "CREATING",
+    createdAt: new Date(),
+    image: config.image,
+    aiModel: config.aiModel,
+    openclawConfig: config.openclawConfig,
+    volume: config.volume?.key ?? null,
+    logs: [],
+  };
+  machines.set(id, machine);
+  appendLog(machine, "info", `Created machine ${id} for "${config.name}"`);
+  boot(machine);
+  return machine;
+}
+
+function toResult(machine: FakeMachine): ProviderResult {
+  return {
+    resourceId: machine.id,
+    meta:
+      machine.volume !== null
+        ? { region: machine.region, volume: machine.volume }
+        : { region: machine.region },
+    ipAddress: "127.0.0.1",
+  };
+}
+
+export const fakeProvider: InstanceProvider = {
+  name: "fake",
+  displayName: "Fake (in-memory)",
+  capabilities: {
+    logs: true,
+    exec: false,
+    volumes: true,
+    regions: false,
+    suspend: false,
+    metrics: false,
+    redeploy: true,
+  },
+
+  async createInstance(config: CreateInstanceConfig): Promise<ProviderResult> {
+    await simulateCall("createInstance");
+    // The volume comes first, so a failed create leaves it behind like on Fly
+    if (config.volume !== undefined && !volumes.has(config.volume.key)) {
+      volumes.set(config.volume.key, { ...config.volume, usedBytes: 0 });
+      await config.onResourcesCreated?.({ volume: config.volume.key });
+    }
+    if (options.failCreate) {
+      throw new FakeProviderError("createInstance", "injected create failure");
+    }
+    return toResult(createMachine(config));
+  },
+
+  async startInstance(data: ProviderInstanceData, config: StartInstanceConfig): Promise<undefined> {
+    await simulateCall("startInstance");
+    const machine = requireMachine(data, "startInstance");
+    machine.aiModel = config.aiModel;
+    machine.openclawConfig = config.openclawConfig;
+    boot(machine);
+  },
+
+  async applyConfig(data: ProviderInstanceData, openclawConfig: OpenClawConfig): Promise<void> {
+    await simulateCall("applyConfig");
+    const machine = requireMachine(data, "applyConfig");
+    machine.openclawConfig = openclawConfig;
+    appendLog(machine, "info", "Reloaded config");
+  },
+
+  async restartInstance(
+    data: ProviderInstanceData,
+    config: StartInstanceConfig
+  ): Promise<undefined> {
+    await simulateCall("restartInstance");
+    const machine = requireMachine(data, "restartInstance");
+    machine.aiModel = config.aiModel;
+    machine.openclawConfig = config.openclawConfig;
+    boot(machine);
+  },
+
+  async redeployInstance(
+    data: ProviderInstanceData,
+    config: CreateInstanceConfig
+  ): Promise<ProviderResult> {
+    await simulateCall("redeployInstance");
+    // Replaced by a new machine, like a recreated container
+    setStatus(requireMachine(data, "redeployInstance"), "DELETED");
+    return toResult(createMachine(config));
+  },
+
+  async stopInstance(data: ProviderInstanceData): Promise<void> {
+    await simulateCall("stopInstance");
+    setStatus(requireMachine(data, "stopInstance"), "STOPPED");
+  },
+
+  async deleteInstance(data: ProviderInstanceData): Promise<void> {
+    await simulateCall("deleteInstance");
+    const machine = data.resourceId !== null ? machines.get(data.resourceId) : undefined;
+    if (machine !== undefined) {
+      setStatus(machine, "DELETED");
+      if (machine.volume !== null) {
+        volumes.delete(machine.volume);
+      }
+    }
+  },
+
+  async getInstanceStatus(data: ProviderInstanceData): Promise<InstanceStatus> {
+    await simulateCall("getInstanceStatus");
+    if (data.resourceId === null) {
+      return "UNKNOWN";
+    }
+    // Like a destroyed Fly machine, a machine we never created is gone
+    return machines.get(data.resourceId)?.status ?? "DELETED";
+  },
+
+  async getVolumeUsage(data: ProviderInstanceData): Promise<number | null> {
+    await simulateCall("getVolumeUsage");
+    const { volume } = data.meta;
+    return typeof volume === "string" ? (volumes.get(volume)?.usedBytes ?? null) : null;
+  },
+
+  async listResources(): Promise<ProviderResource[]> {
+    await simulateCall("listResources");
+    return [...machines.values()]
+      .filter((machine) => machine.status !== "DELETED")
+      .map((machine) => ({
+        resourceId: machine.id,
+        name: machine.name,
+        status: machine.status,
+        meta: { region: machine.region },
+        createdAt: machine.createdAt,
+      }));
+  },
+
+  async *getLogs(data: ProviderInstanceData, logOptions: GetLogsOptions): AsyncGenerator<LogEntry> {
+    await simulateCall("getLogs");
+    const machine = requireMachine(data, "getLogs");
+    const { since, signal } = logOptions;
+
+    const initial = machine.logs.filter((entry) => since === undefined || entry.timestamp > since);
+    const tail = logOptions.tail ?? DEFAULT_LOG_TAIL;
+    // Lines written while the consumer handles these are picked up below
+    let seen = machine.logs.length;
+    yield* initial.slice(Math.max(initial.length - tail, 0));
+
+    while (logOptions.follow === true && signal?.aborted !== true) {
+      if (machine.logs.length === seen) {
+        try {
+          await once(logEvents, `log:${machine.id}`, { signal });
+        } catch {
+          return;
+        }
+      }
+      const fresh = machine.logs.slice(seen);
+      seen = machine.logs.length;
+      yield* fresh;
+    }
+  },
+};
+
+if (process.env.NODE_ENV !== "production") {
+  registerProvider(fakeProvider);
+}
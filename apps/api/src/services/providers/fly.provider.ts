@@ -11,18 +11,159 @@ import {
   deleteMachine,
   deleteApp,
   getMachine,
+  updateMachine,
+  listApps,
+  listMachines,
+  getAppLogs,
+  createVolume,
+  getVolume,
+  FlyApiError,
 } from "../fly.js";
+import { setTimeout as sleep } from "timers/promises";
+import type { InstanceStatus } from "@fasterclaw/db";
+import { getChannelEnv } from "../channels.js";
+import { DEFAULT_LOG_TAIL, normalizeLogLevel } from "./logs.js";
+import {
+  OPENCLAW_CONFIG_PATH,
+  OPENCLAW_DATA_PATH,
+  OPENCLAW_GATEWAY_PORT,
+  toConfigFile,
+  type OpenClawConfig,
+} from "./openclaw-config.js";
+import { registerProvider } from "./registry.js";
 import type {
   InstanceProvider,
   CreateInstanceConfig,
+  StartInstanceConfig,
   ProviderResult,
   ProviderInstanceData,
+  GetLogsOptions,
+  LogEntry,
+  ProviderResource,
 } from "./types.js";
 
+/** Fly's logs API has no push mode, so followed logs are polled */
+const LOG_POLL_INTERVAL_MS = 2000;
+
+const FLY_REGIONS = ["iad", "lax", "lhr", "syd", "sin"] as const;
+
+const APP_PREFIX = "openclaw-";
+
+/** Each app holds one instance, so its volume can have a fixed name */
+const VOLUME_NAME = "openclaw_data";
+
+/**
+ * App names end in their creation time (see createInstance).
+ */
+function getAppCreatedAt(appName: string): Date | undefined {
+  const match = /-(\d{13})$/.exec(appName);
+  return match !== null ? new Date(Number(match[1])) : undefined;
+}
+
+/**
+ * The machine file carrying an instance's config document.
+ */
+function toMachineFile(openclawConfig: OpenClawConfig): { guest_path: string; raw_value: string } {
+  return {
+    guest_path: OPENCLAW_CONFIG_PATH,
+    raw_value: Buffer.from(toConfigFile(openclawConfig)).toString("base64"),
+  };
+}
+
+const API_KEY_VARS = {
+  openai: "OPENAI_API_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+  google: "GOOGLE_API_KEY",
+} as const;
+
+/**
+ * Environment variables carrying an instance's model and credentials.
+ */
+function getInstanceEnv(config: StartInstanceConfig): Record<string, string> {
+  return {
+    ...getChannelEnv(config.channels),
+    [API_KEY_VARS[config.aiProvider]]: config.aiApiKey,
+    AI_MODEL: config.aiModel,
+    AI_PROVIDER: config.aiProvider,
+    OPENCLAW_CONFIG_PATH,
+  };
+}
+
+/**
+ * Swap the current config file and credentials into an instance's machine,
+ * keeping the rest of its config. The key of a previously used AI provider is
+ * dropped.
+ */
+async function updateInstanceMachine(
+  appName: string,
+  machineId: string,
+  config: StartInstanceConfig,
+  options: { launch?: boolean; image?: string } = {}
+) {
+  const machine = await getMachine(appName, machineId);
+  const env = Object.fromEntries(
+    Object.entries(machine.config.env ?? {}).filter(
+      ([name]) => !Object.values<string>(API_KEY_VARS).includes(name)
+    )
+  );
+  return updateMachine(
+    appName,
+    machineId,
+    {
+      ...machine.config,
+      image: options.image ?? machine.config.image,
+      env: { ...env, ...getInstanceEnv(config) },
+      files: [toMachineFile(config.openclawConfig)],
+    },
+    { launch: options.launch }
+  );
+}
+
+/**
+ * The app of an earlier attempt, emptied of its machines so a new machine can
+ * mount its volume. Null when there is no app left to reuse.
+ */
+async function reclaimApp(previous: ProviderInstanceData | undefined): Promise<string | null> {
+  const appName = previous?.meta.appName;
+  if (typeof appName !== "string") {
+    return null;
+  }
+  try {
+    for (const machine of await listMachines(appName)) {
+      await deleteMachine(appName, machine.id);
+    }
+  } catch (error) {
+    if (error instanceof FlyApiError && error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+  return appName;
+}
+
+/**
+ * Resolve the app name and machine ID of an instance's machine.
+ */
+function getMachineRef(data: ProviderInstanceData): { appName: string; machineId: string } | null {
+  const { appName } = data.meta;
+  if (typeof appName !== "string" || data.resourceId === null) {
+    return null;
+  }
+  return { appName, machineId: data.resourceId };
+}
+
+function requireMachineRef(data: ProviderInstanceData): { appName: string; machineId: string } {
+  const ref = getMachineRef(data);
+  if (ref === null) {
+    throw new Error("Missing Fly.io app name or machine ID");
+  }
+  return ref;
+}
+
 /**
  * Map Fly.io machine state to our instance status.
  */
-function mapFlyState(flyState: string): string {
+function mapFlyState(flyState: string): InstanceStatus {
   switch (flyState) {
     case "started":
       return "RUNNING";
@@ -45,26 +186,57 @@ function mapFlyState(flyState: string): string {
 
 export const flyProvider: InstanceProvider = {
   name: "fly",
+  displayName: "Fly.io",
+  capabilities: {
+    logs: true,
+    exec: false,
+    volumes: true,
+    regions: true,
+    suspend: false,
+    metrics: false,
+    redeploy: true,
+  },
+  regions: FLY_REGIONS,
 
   async createInstance(config: CreateInstanceConfig): Promise<ProviderResult> {
-    const flyAppName = `openclaw-${config.userId.slice(0, 8)}-${String(Date.now())}`.toLowerCase();
+    const region = config.region ?? "iad";
 
-    // Create Fly app
-    await createApp(flyAppName);
+    // A retry moves into the app of the failed attempt, keeping its volume
+    let flyAppName = await reclaimApp(config.previous);
+    const previousVolumeId = config.previous?.meta.volumeId;
+    let volumeId =
+      flyAppName !== null && typeof previousVolumeId === "string" ? previousVolumeId : undefined;
+    if (flyAppName === null) {
+      flyAppName = `${APP_PREFIX}${config.userId.slice(0, 8)}-${String(Date.now())}`.toLowerCase();
+      await createApp(flyAppName);
+      await config.onResourcesCreated?.({ appName: flyAppName });
+    }
+
+    if (config.volume === undefined) {
+      volumeId = undefined;
+    } else if (volumeId === undefined) {
+      const volume = await createVolume(flyAppName, {
+        name: VOLUME_NAME,
+        region,
+        sizeGb: config.volume.sizeGb,
+      });
+      volumeId = volume.id;
+      await config.onResourcesCreated?.({ appName: flyAppName, volumeId });
+    }
 
-    // Create machine with env vars
+    // Create machine with env vars, the OpenClaw config file and the volume
     const machine = await createMachine(flyAppName, {
-      region: config.region ?? "iad",
+      region,
       config: {
-        image: "ghcr.io/openclaw/openclaw:latest",
+        image: config.image,
         env: {
-          TELEGRAM_BOT_TOKEN: config.telegramBotToken,
-          ...(config.aiProvider === "openai" && { OPENAI_API_KEY: config.aiApiKey }),
-          ...(config.aiProvider === "anthropic" && { ANTHROPIC_API_KEY: config.aiApiKey }),
-          ...(config.aiProvider === "google" && { GOOGLE_API_KEY: config.aiApiKey }),
-          AI_MODEL: config.aiModel,
-          AI_PROVIDER: config.aiProvider,
+          ...getInstanceEnv(config),
+          ...(volumeId !== undefined ? { OPENCLAW_STATE_DIR: OPENCLAW_DATA_PATH } : {}),
         },
+        files: [toMachineFile(config.openclawConfig)],
+        ...(volumeId !== undefined
+          ? { mounts: [{ volume: volumeId, path: OPENCLAW_DATA_PATH }] }
+          : {}),
         services: [
           {
             ports: [
@@ -72,64 +244,155 @@ export const flyProvider: InstanceProvider = {
               { port: 443, handlers: ["tls", "http"] },
             ],
             protocol: "tcp",
-            internal_port: 8080,
+            internal_port: OPENCLAW_GATEWAY_PORT,
           },
         ],
       },
     });
 
     return {
-      providerId: machine.id,
-      providerAppId: flyAppName,
+      resourceId: machine.id,
+      meta: volumeId !== undefined ? { appName: flyAppName, volumeId } : { appName: flyAppName },
       ipAddress: machine.private_ip,
     };
   },
 
-  async startInstance(data: ProviderInstanceData): Promise<void> {
-    if (
-      data.flyAppName === null ||
-      data.flyAppName === undefined ||
-      data.flyMachineId === null ||
-      data.flyMachineId === undefined
-    ) {
-      throw new Error("Missing Fly.io app name or machine ID");
-    }
-    await startMachine(data.flyAppName, data.flyMachineId);
+  async startInstance(data: ProviderInstanceData, config: StartInstanceConfig): Promise<undefined> {
+    const { appName, machineId } = requireMachineRef(data);
+    await updateInstanceMachine(appName, machineId, config);
+    await startMachine(appName, machineId);
+  },
+
+  async restartInstance(
+    data: ProviderInstanceData,
+    config: StartInstanceConfig
+  ): Promise<undefined> {
+    const { appName, machineId } = requireMachineRef(data);
+    // Updating a started machine restarts it on the new config
+    await updateInstanceMachine(appName, machineId, config, { launch: true });
+  },
+
+  async redeployInstance(
+    data: ProviderInstanceData,
+    config: CreateInstanceConfig
+  ): Promise<ProviderResult> {
+    const { appName, machineId } = requireMachineRef(data);
+    // Same machine, app and volume, rebuilt from the instance's image version
+    const machine = await updateInstanceMachine(appName, machineId, config, {
+      launch: true,
+      image: config.image,
+    });
+    return {
+      resourceId: machine.id,
+      meta: data.meta,
+      ipAddress: machine.private_ip,
+    };
   },
 
   async stopInstance(data: ProviderInstanceData): Promise<void> {
-    if (
-      data.flyAppName === null ||
-      data.flyAppName === undefined ||
-      data.flyMachineId === null ||
-      data.flyMachineId === undefined
-    ) {
-      throw new Error("Missing Fly.io app name or machine ID");
-    }
-    await stopMachine(data.flyAppName, data.flyMachineId);
+    const { appName, machineId } = requireMachineRef(data);
+    await stopMachine(appName, machineId);
   },
 
   async deleteInstance(data: ProviderInstanceData): Promise<void> {
-    if (data.flyAppName === null || data.flyAppName === undefined) {
+    const { appName } = data.meta;
+    if (typeof appName !== "string") {
       return;
     }
 
-    if (data.flyMachineId !== null && data.flyMachineId !== undefined) {
-      await deleteMachine(data.flyAppName, data.flyMachineId);
+    if (data.resourceId !== null) {
+      await deleteMachine(appName, data.resourceId);
     }
-    await deleteApp(data.flyAppName);
+    // Takes the instance's volume with it
+    await deleteApp(appName);
   },
 
-  async getInstanceStatus(data: ProviderInstanceData): Promise<string> {
-    if (
-      data.flyAppName === null ||
-      data.flyAppName === undefined ||
-      data.flyMachineId === null ||
-      data.flyMachineId === undefined
-    ) {
+  async getInstanceStatus(data: ProviderInstanceData): Promise<InstanceStatus> {
+    const ref = getMachineRef(data);
+    if (ref === null) {
       return "UNKNOWN";
     }
-    const machine = await getMachine(data.flyAppName, data.flyMachineId);
+    const machine = await getMachine(ref.appName, ref.machineId);
     return mapFlyState(machine.state);
   },
+
+  async getVolumeUsage(data: ProviderInstanceData): Promise<number | null> {
+    const { appName, volumeId } = data.meta;
+    if (typeof appName !== "string" || typeof volumeId !== "string") {
+      return null;
+    }
+    const volume = await getVolume(appName, volumeId);
+    // Only reported once a machine has mounted the volume
+    if (
+      volume.blocks === undefined ||
+      volume.blocks_free === undefined ||
+      volume.block_size === undefined
+    ) {
+      return null;
+    }
+    return (volume.blocks - volume.blocks_free) * volume.block_size;
+  },
+
+  async listResources(): Promise<ProviderResource[]> {
+    const apps = (await listApps()).filter((app) => app.name.startsWith(APP_PREFIX));
+    const resources: ProviderResource[] = [];
+
+    for (const app of apps) {
+      const machines = await listMachines(app.name);
+      // A create that failed after createApp leaves an app without machines
+      if (machines.length === 0) {
+        resources.push({
+          resourceId: null,
+          name: app.name,
+          status: "UNKNOWN",
+          meta: { appName: app.name },
+          createdAt: getAppCreatedAt(app.name),
+        });
+      }
+      for (const machine of machines) {
+        resources.push({
+          resourceId: machine.id,
+          name: app.name,
+          status: mapFlyState(machine.state),
+          meta: { appName: app.name },
+          createdAt: new Date(machine.created_at),
+        });
+      }
+    }
+
+    return resources;
+  },
+
+  async *getLogs(data: ProviderInstanceData, options: GetLogsOptions): AsyncGenerator<LogEntry> {
+    const { appName, machineId } = requireMachineRef(data);
+    const { since, signal } = options;
+
+    const fetchPage = async (nextToken?: string) => {
+      const page = await getAppLogs(appName, { machineId, nextToken });
+      const entries = page.data
+        .map((entry) => ({
+          timestamp: new Date(entry.attributes.timestamp),
+          level: normalizeLogLevel(entry.attributes.level, entry.attributes.message),
+          message: entry.attributes.message,
+        }))
+        .filter((entry) => since === undefined || entry.timestamp > since);
+      return { entries, nextToken: page.meta.next_token };
+    };
+
+    // The first page holds the most recent lines
+    let page = await fetchPage();
+    yield* page.entries.slice(-(options.tail ?? DEFAULT_LOG_TAIL));
+
+    while (options.follow === true && signal?.aborted !== true) {
+      try {
+        await sleep(LOG_POLL_INTERVAL_MS, undefined, { signal });
+      } catch {
+        return;
+      }
+      page = await fetchPage(page.nextToken);
+      yield* page.entries;
+    }
+  },
 };
+
+registerProvider(flyProvider);
@@ -1,58 +1,50 @@
 /**
- * Provider Factory
+ * Instance Providers
  * Selects the appropriate instance provider based on INSTANCE_PROVIDER env var.
  *
  * Usage:
  *   INSTANCE_PROVIDER=docker  → Local Docker containers (development)
  *   INSTANCE_PROVIDER=fly     → Fly.io Machines (production, default)
+ *   INSTANCE_PROVIDER=kubernetes → Self-hosted Kubernetes cluster
+ *   INSTANCE_PROVIDER=fake    → In-memory machines (tests and offline development)
  */
 
-import { flyProvider } from "./fly.provider.js";
-import { dockerProvider } from "./docker.provider.js";
-import type { InstanceProvider } from "./types.js";
+import type { Prisma } from "@fasterclaw/db";
+import type { ProviderInstanceData, ProviderMeta } from "./types.js";
 
-export type ProviderType = "fly" | "docker";
+// Importing a provider registers it
+import "./fly.provider.js";
+import "./docker.provider.js";
+import "./kubernetes.provider.js";
+import "./fake.provider.js";
 
 /**
- * Get the configured instance provider.
- * Defaults to "fly" for production use.
+ * Build the data a provider needs from a stored instance.
  */
-export function getProvider(): InstanceProvider {
-  const envProvider = process.env.INSTANCE_PROVIDER;
-  const providerType: ProviderType = envProvider === "docker" ? "docker" : "fly";
-
-  switch (providerType) {
-    case "docker":
-      return dockerProvider;
-    case "fly":
-    default:
-      return flyProvider;
-  }
-}
-
-/**
- * Get the provider for a specific provider type.
- * Use this for lifecycle operations on existing instances.
- */
-export function getProviderByType(providerType: ProviderType): InstanceProvider {
-  switch (providerType) {
-    case "docker":
-      return dockerProvider;
-    case "fly":
-    default:
-      return flyProvider;
-  }
-}
-
-/**
- * Get the current provider type name.
- */
-export function getProviderType(): ProviderType {
-  const envProvider = process.env.INSTANCE_PROVIDER;
-  return envProvider === "docker" ? "docker" : "fly";
+export function toProviderData(instance: {
+  providerResourceId: string | null;
+  providerMeta: Prisma.JsonValue;
+}): ProviderInstanceData {
+  const meta = instance.providerMeta;
+  return {
+    resourceId: instance.providerResourceId,
+    meta:
+      meta !== null && typeof meta === "object" && !Array.isArray(meta)
+        ? (meta as ProviderMeta)
+        : {},
+  };
 }
 
-// Re-export types and individual providers
+// Re-export the registry, types and individual providers
+export {
+  registerProvider,
+  getProvider,
+  getProviderByType,
+  getProviderType,
+  listProviders,
+} from "./registry.js";
 export * from "./types.js";
 export { flyProvider } from "./fly.provider.js";
 export { dockerProvider } from "./docker.provider.js";
+export { kubernetesProvider } from "./kubernetes.provider.js";
+export { fakeProvider } from "./fake.provider.js";
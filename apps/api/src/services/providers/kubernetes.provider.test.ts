@@ -0,0 +1,360 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { kubernetesProvider } from "./kubernetes.provider.js";
+import { KubernetesApiError } from "../kubernetes.js";
+
+interface StoredObject {
+  metadata: { name: string; namespace?: string; labels?: Record<string, string> };
+  spec?: Record<string, unknown>;
+  status?: Record<string, unknown>;
+  stringData?: Record<string, string>;
+}
+
+/**
+ * In-memory stand-in for the parts of the Kubernetes API the provider uses.
+ */
+function createStandInApiServer() {
+  const objects = new Map<string, StoredObject>();
+  const requests: { method: string; url: string; headers: IncomingMessage["headers"] }[] = [];
+  const failures = new Map<string, { code: number; reason: string }>();
+  const podLogs: string[] = [];
+
+  const sendStatus = (res: ServerResponse, code: number, reason: string, message: string) => {
+    res.writeHead(code, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ kind: "Status", status: "Failure", reason, message, code }));
+  };
+
+  const server = createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk: Buffer) => (raw += chunk.toString()));
+    req.on("end", () => {
+      const url = new URL(req.url ?? "/", "http://stand-in");
+      const method = req.method ?? "GET";
+      requests.push({ method, url: url.pathname + url.search, headers: req.headers });
+
+      const match =
+        /^\/(?:api\/v1|apis\/apps\/v1)\/namespaces\/([^/]+)\/([a-z]+)(?:\/([^/]+))?(?:\/(log))?$/.exec(
+          url.pathname
+        );
+      if (match === null) {
+        sendStatus(res, 404, "NotFound", "unknown path");
+        return;
+      }
+      const [, namespace, resource, name, subresource] = match;
+
+      const failure = failures.get(`${method} ${resource}`);
+      if (failure !== undefined) {
+        sendStatus(res, failure.code, failure.reason, `${resource} is forbidden`);
+        return;
+      }
+
+      // Pods are derived from running deployments
+      if (resource === "pods") {
+        const instance = url.searchParams.get("labelSelector")?.split("=")[1];
+        const deployment = objects.get(`${namespace}/deployments/${instance ?? ""}`);
+        const running = deployment !== undefined && deployment.spec?.replicas === 1;
+        if (subresource === "log") {
+          res.writeHead(200, { "Content-Type": "text/plain" });
+          const tail = Number(url.searchParams.get("tailLines") ?? podLogs.length);
+          res.end(podLogs.slice(-tail).join("\n") + "\n");
+          return;
+        }
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            items: running
+              ? [
+                  {
+                    metadata: {
+                      name: `${instance ?? ""}-7d9f8-abcde`,
+                      creationTimestamp: "2024-01-01T00:00:00Z",
+                    },
+                    status: { phase: "Running" },
+                  },
+                ]
+              : [],
+          })
+        );
+        return;
+      }
+
+      if (method === "POST") {
+        const body = JSON.parse(raw) as StoredObject;
+        const key = `${namespace}/${resource}/${body.metadata.name}`;
+        if (objects.has(key)) {
+          sendStatus(res, 409, "AlreadyExists", `${body.metadata.name} already exists`);
+          return;
+        }
+        if (resource === "services") {
+          body.spec = { ...body.spec, clusterIP: "10.96.0.42" };
+        }
+        body.metadata.namespace = namespace;
+        objects.set(key, body);
+        res.writeHead(201, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(body));
+        return;
+      }
+
+      const key = `${namespace}/${resource}/${name ?? ""}`;
+      const existing = objects.get(key);
+      if (existing === undefined) {
+        sendStatus(res, 404, "NotFound", `${resource} "${name ?? ""}" not found`);
+        return;
+      }
+
+      if (
+        method === "PATCH" &&
+        req.headers["content-type"] === "application/strategic-merge-patch+json"
+      ) {
+        // Only container env is patched this way: containers and env merge by name
+        const patch = JSON.parse(raw) as { spec: { template: { spec: { containers: any[] } } } };
+        const containers = (existing.spec as any).template.spec.containers as any[];
+        for (const { name: containerName, env } of patch.spec.template.spec.containers) {
+          const container = containers.find((item) => item.name === containerName);
+          for (const entry of env) {
+            container.env = [
+              ...container.env.filter((item: any) => item.name !== entry.name),
+              entry,
+            ];
+          }
+        }
+      } else if (method === "PATCH") {
+        const patch = JSON.parse(raw) as Partial<StoredObject>;
+        if (patch.spec !== undefined) {
+          existing.spec = { ...existing.spec, ...patch.spec };
+        }
+        if (patch.stringData !== undefined) {
+          existing.stringData = { ...existing.stringData, ...patch.stringData };
+        }
+      } else if (method === "DELETE") {
+        objects.delete(key);
+      }
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(existing));
+    });
+  });
+
+  return { server, objects, requests, failures, podLogs };
+}
+
+describe("Kubernetes Provider", () => {
+  const standIn = createStandInApiServer();
+  const originalEnv = { ...process.env };
+
+  const config = {
+    name: "Support Bot",
+    userId: "cjld2cyuq0000t3rmniod1foy",
+    channels: [{ type: "telegram" as const, botToken: "123456:ABC-secret" }],
+    openclawConfig: { "channels.telegram.enabled": true },
+    aiProvider: "anthropic" as const,
+    aiApiKey: "sk-ant-test",
+    aiModel: "claude-sonnet-4-0",
+    image: "ghcr.io/openclaw/openclaw:2026.2.1",
+  };
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => {
+      standIn.server.listen(0, "127.0.0.1", resolve);
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => standIn.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    const { port } = standIn.server.address() as AddressInfo;
+    process.env.KUBERNETES_API_URL = `http://127.0.0.1:${String(port)}/`;
+    process.env.KUBERNETES_TOKEN = "kube-test-token";
+    process.env.KUBERNETES_NAMESPACE = "bots";
+    process.env.KUBERNETES_MEMORY_LIMIT = "2Gi";
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    standIn.objects.clear();
+    standIn.requests.length = 0;
+    standIn.failures.clear();
+    standIn.podLogs.length = 0;
+  });
+
+  describe("createInstance", () => {
+    it("should create a Secret, Deployment and Service in the configured namespace", async () => {
+      const result = await kubernetesProvider.createInstance(config);
+
+      expect(result.resourceId).toMatch(/^openclaw-support-bot-[a-z0-9]+$/);
+      expect(result.meta).toEqual({ namespace: "bots" });
+      expect(result.ipAddress).toBe("10.96.0.42");
+
+      const secret = standIn.objects.get(`bots/secrets/${result.resourceId}`);
+      expect(secret?.stringData).toMatchObject({
+        TELEGRAM_BOT_TOKEN: "123456:ABC-secret",
+        ANTHROPIC_API_KEY: "sk-ant-test",
+      });
+
+      const deployment = standIn.objects.get(`bots/deployments/${result.resourceId}`);
+      expect(deployment?.spec).toMatchObject({
+        replicas: 1,
+        template: {
+          spec: {
+            containers: [
+              {
+                envFrom: [{ secretRef: { name: result.resourceId } }],
+                resources: {
+                  requests: { cpu: "250m", memory: "512Mi" },
+                  limits: { cpu: "1", memory: "2Gi" },
+                },
+              },
+            ],
+          },
+        },
+      });
+      // OpenClaw reads its config document from the mounted Secret
+      expect(JSON.parse(secret?.stringData?.["openclaw.json"] ?? "{}")).toEqual({
+        channels: { telegram: { enabled: true } },
+      });
+      // The API key only lives in the Secret
+      expect(JSON.stringify(deployment)).not.toContain("sk-ant-test");
+
+      expect(standIn.objects.has(`bots/services/${result.resourceId}`)).toBe(true);
+      expect(standIn.requests[0].headers.authorization).toBe("Bearer kube-test-token");
+    });
+
+    it("should remove created resources when a later step fails", async () => {
+      standIn.failures.set("POST services", { code: 403, reason: "Forbidden" });
+
+      await expect(kubernetesProvider.createInstance(config)).rejects.toBeInstanceOf(
+        KubernetesApiError
+      );
+      expect(standIn.objects.size).toBe(0);
+    });
+  });
+
+  describe("lifecycle", () => {
+    it("should scale the Deployment to stop and start the instance", async () => {
+      const result = await kubernetesProvider.createInstance(config);
+      const data = { resourceId: result.resourceId, meta: { namespace: "bots" } };
+      const deployment = standIn.objects.get(`bots/deployments/${result.resourceId}`);
+
+      await kubernetesProvider.stopInstance(data);
+      expect(deployment?.spec?.replicas).toBe(0);
+      expect(await kubernetesProvider.getInstanceStatus(data)).toBe("STOPPED");
+
+      await kubernetesProvider.startInstance(data, {
+        ...config,
+        aiApiKey: "sk-ant-rotated",
+        aiModel: "claude-3-5-haiku-latest",
+        openclawConfig: { "channels.discord.enabled": true },
+      });
+      expect(deployment?.spec?.replicas).toBe(1);
+      // The model is container env, updated in place
+      const [container] = (deployment?.spec as any).template.spec.containers;
+      expect(container.image).toBe("ghcr.io/openclaw/openclaw:2026.2.1");
+      expect(container.env).toContainEqual({ name: "AI_MODEL", value: "claude-3-5-haiku-latest" });
+      expect(container.env).toContainEqual({ name: "NODE_ENV", value: "production" });
+      // The new pod picks up the current config document and credentials
+      const secret = standIn.objects.get(`bots/secrets/${result.resourceId}`);
+      expect(JSON.parse(secret?.stringData?.["openclaw.json"] ?? "{}")).toEqual({
+        channels: { discord: { enabled: true } },
+      });
+      expect(secret?.stringData?.ANTHROPIC_API_KEY).toBe("sk-ant-rotated");
+      expect(await kubernetesProvider.getInstanceStatus(data)).toBe("STARTING");
+
+      deployment!.status = { replicas: 1, readyReplicas: 1 };
+      expect(await kubernetesProvider.getInstanceStatus(data)).toBe("RUNNING");
+
+      const patch = standIn.requests.find((request) => request.method === "PATCH");
+      expect(patch?.headers["content-type"]).toBe("application/merge-patch+json");
+    });
+
+    it("should replace the config document of a running instance", async () => {
+      const result = await kubernetesProvider.createInstance(config);
+      const data = { resourceId: result.resourceId, meta: { namespace: "bots" } };
+
+      await kubernetesProvider.applyConfig!(data, { "channels.telegram.dmPolicy": "open" });
+
+      const secret = standIn.objects.get(`bots/secrets/${result.resourceId}`);
+      expect(JSON.parse(secret?.stringData?.["openclaw.json"] ?? "{}")).toEqual({
+        channels: { telegram: { dmPolicy: "open" } },
+      });
+      // No restart: the Deployment keeps running
+      expect(standIn.objects.get(`bots/deployments/${result.resourceId}`)?.spec?.replicas).toBe(1);
+    });
+
+    it("should report a stalled rollout as failed", async () => {
+      const result = await kubernetesProvider.createInstance(config);
+      const data = { resourceId: result.resourceId, meta: { namespace: "bots" } };
+      standIn.objects.get(`bots/deployments/${result.resourceId}`)!.status = {
+        replicas: 1,
+        readyReplicas: 0,
+        conditions: [{ type: "Progressing", status: "False", reason: "ProgressDeadlineExceeded" }],
+      };
+
+      expect(await kubernetesProvider.getInstanceStatus(data)).toBe("FAILED");
+    });
+
+    it("should delete all resources and report the instance as deleted", async () => {
+      const result = await kubernetesProvider.createInstance(config);
+      const data = { resourceId: result.resourceId, meta: { namespace: "bots" } };
+
+      await kubernetesProvider.deleteInstance(data);
+
+      expect(standIn.objects.size).toBe(0);
+      expect(await kubernetesProvider.getInstanceStatus(data)).toBe("DELETED");
+      // Deleting again is a no-op
+      await expect(kubernetesProvider.deleteInstance(data)).resolves.toBeUndefined();
+    });
+
+    it("should reject lifecycle calls without a deployment", async () => {
+      const data = { resourceId: null, meta: {} };
+      await expect(kubernetesProvider.startInstance(data, config)).rejects.toThrow(
+        "Missing Kubernetes deployment name or namespace"
+      );
+      expect(await kubernetesProvider.getInstanceStatus(data)).toBe("UNKNOWN");
+    });
+  });
+
+  describe("getLogs", () => {
+    it("should read timestamped lines from the newest pod", async () => {
+      const result = await kubernetesProvider.createInstance(config);
+      standIn.podLogs.push(
+        "2024-01-01T00:00:00.000000000Z Gateway listening on 18789",
+        "2024-01-01T00:00:01.000000000Z Error: Telegram polling failed"
+      );
+
+      const entries = [];
+      for await (const entry of kubernetesProvider.getLogs!(
+        { resourceId: result.resourceId, meta: { namespace: "bots" } },
+        { tail: 1 }
+      )) {
+        entries.push(entry);
+      }
+
+      expect(entries).toEqual([
+        {
+          timestamp: new Date("2024-01-01T00:00:01.000Z"),
+          level: "error",
+          message: "Error: Telegram polling failed",
+        },
+      ]);
+      const logRequest = standIn.requests.find((request) => request.url.includes("/log?"));
+      expect(logRequest?.url).toBe(
+        `/api/v1/namespaces/bots/pods/${result.resourceId}-7d9f8-abcde/log?timestamps=true&tailLines=1`
+      );
+    });
+
+    it("should return nothing when the instance is stopped", async () => {
+      const result = await kubernetesProvider.createInstance(config);
+      const data = { resourceId: result.resourceId, meta: { namespace: "bots" } };
+      await kubernetesProvider.stopInstance(data);
+
+      const entries = [];
+      for await (const entry of kubernetesProvider.getLogs!(data, {})) {
+        entries.push(entry);
+      }
+
+      expect(entries).toEqual([]);
+    });
+  });
+});
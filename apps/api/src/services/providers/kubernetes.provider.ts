@@ -0,0 +1,375 @@
+/**
+ * Kubernetes Provider
+ * Runs each instance on a self-hosted cluster as a Deployment (scaled between
+ * 0 and 1 replicas to stop/start), a Secret holding its credentials and a
+ * ClusterIP Service for the gateway port.
+ *
+ * Settings:
+ *   KUBERNETES_NAMESPACE                            → Namespace for new instances (default "fasterclaw")
+ *   KUBERNETES_CPU_REQUEST / KUBERNETES_CPU_LIMIT       → Container CPU (default 250m / 1)
+ *   KUBERNETES_MEMORY_REQUEST / KUBERNETES_MEMORY_LIMIT → Container memory (default 512Mi / 1Gi)
+ * Connection settings are read by ../kubernetes.ts.
+ */
+
+import { randomBytes } from "crypto";
+import { basename, dirname } from "path";
+import { createInterface } from "readline";
+import { Readable } from "stream";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+import type { InstanceStatus } from "@fasterclaw/db";
+import {
+  KubernetesApiError,
+  createSecret,
+  patchSecret,
+  deleteSecret,
+  createDeployment,
+  getDeployment,
+  listDeployments,
+  scaleDeployment,
+  setContainerEnv,
+  deleteDeployment,
+  createService,
+  deleteService,
+  listPods,
+  streamPodLogs,
+  type Deployment,
+  type ResourceRequirements,
+} from "../kubernetes.js";
+import { getChannelEnv } from "../channels.js";
+import { DEFAULT_LOG_TAIL, parseTimestampedLine } from "./logs.js";
+import {
+  OPENCLAW_CONFIG_PATH,
+  OPENCLAW_GATEWAY_PORT,
+  toConfigFile,
+  type OpenClawConfig,
+} from "./openclaw-config.js";
+import { registerProvider } from "./registry.js";
+import type {
+  InstanceProvider,
+  CreateInstanceConfig,
+  StartInstanceConfig,
+  ProviderResult,
+  ProviderInstanceData,
+  GetLogsOptions,
+  LogEntry,
+  ProviderResource,
+} from "./types.js";
+
+// Key of the OpenClaw config file in the instance's Secret
+const CONFIG_FILE_KEY = "openclaw.json";
+
+const API_KEY_VARS = {
+  openai: "OPENAI_API_KEY",
+  anthropic: "ANTHROPIC_API_KEY",
+  google: "GOOGLE_API_KEY",
+} as const;
+const MANAGED_BY_SELECTOR = "app.kubernetes.io/managed-by=fasterclaw";
+
+const CONTAINER_NAME = "openclaw";
+
+function getNamespace(): string {
+  const namespace = process.env.KUBERNETES_NAMESPACE;
+  return namespace !== undefined && namespace !== "" ? namespace : "fasterclaw";
+}
+
+function getResources(): ResourceRequirements {
+  return {
+    requests: {
+      cpu: process.env.KUBERNETES_CPU_REQUEST ?? "250m",
+      memory: process.env.KUBERNETES_MEMORY_REQUEST ?? "512Mi",
+    },
+    limits: {
+      cpu: process.env.KUBERNETES_CPU_LIMIT ?? "1",
+      memory: process.env.KUBERNETES_MEMORY_LIMIT ?? "1Gi",
+    },
+  };
+}
+
+/**
+ * Build a resource name that is a valid DNS-1123 label (max 63 chars).
+ */
+function buildResourceName(instanceName: string): string {
+  const slug = instanceName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 30)
+    .replace(/-+$/, "");
+  return ["openclaw", slug, Date.now().toString(36)].filter((part) => part !== "").join("-");
+}
+
+function selectorFor(name: string): Record<string, string> {
+  return { "app.kubernetes.io/instance": name };
+}
+
+/**
+ * Map a Deployment's desired and observed replicas to our instance status.
+ */
+function mapDeploymentState(deployment: Deployment): InstanceStatus {
+  const stalled = deployment.status?.conditions?.some(
+    (condition) => condition.type === "Progressing" && condition.status === "False"
+  );
+  if (stalled === true) {
+    return "FAILED";
+  }
+
+  const current = deployment.status?.replicas ?? 0;
+  if (deployment.spec.replicas === 0) {
+    return current > 0 ? "STOPPING" : "STOPPED";
+  }
+  const ready = deployment.status?.readyReplicas ?? 0;
+  return ready >= deployment.spec.replicas ? "RUNNING" : "STARTING";
+}
+
+/**
+ * Run a delete call, treating an already-missing resource as success.
+ */
+async function ignoreNotFound(operation: Promise<void>): Promise<void> {
+  try {
+    await operation;
+  } catch (error) {
+    if (!(error instanceof KubernetesApiError && error.status === 404)) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Container environment variables naming the instance's model. Credentials
+ * live in the instance's Secret instead.
+ */
+function getModelEnv(config: StartInstanceConfig): { name: string; value: string }[] {
+  return [
+    { name: "AI_MODEL", value: config.aiModel },
+    { name: "AI_PROVIDER", value: config.aiProvider },
+  ];
+}
+
+function getResource(data: ProviderInstanceData): { name: string; namespace: string } | null {
+  const { namespace } = data.meta;
+  if (typeof namespace !== "string" || data.resourceId === null) {
+    return null;
+  }
+  return { name: data.resourceId, namespace };
+}
+
+function requireResource(data: ProviderInstanceData): { name: string; namespace: string } {
+  const resource = getResource(data);
+  if (resource === null) {
+    throw new Error("Missing Kubernetes deployment name or namespace");
+  }
+  return resource;
+}
+
+export const kubernetesProvider: InstanceProvider = {
+  name: "kubernetes",
+  displayName: "Kubernetes",
+  capabilities: {
+    logs: true,
+    exec: false,
+    volumes: false,
+    regions: false,
+    suspend: false,
+    metrics: false,
+    redeploy: false,
+  },
+
+  async createInstance(config: CreateInstanceConfig): Promise<ProviderResult> {
+    const namespace = getNamespace();
+    const name = buildResourceName(config.name);
+    const labels = {
+      "app.kubernetes.io/name": "openclaw",
+      "app.kubernetes.io/managed-by": "fasterclaw",
+      "fasterclaw.io/user-id": config.userId,
+      ...selectorFor(name),
+    };
+
+    await createSecret(namespace, {
+      metadata: { name, labels },
+      type: "Opaque",
+      stringData: {
+        ...getChannelEnv(config.channels),
+        OPENCLAW_GATEWAY_TOKEN: randomBytes(24).toString("hex"),
+        [API_KEY_VARS[config.aiProvider]]: config.aiApiKey,
+        [CONFIG_FILE_KEY]: toConfigFile(config.openclawConfig),
+      },
+    });
+
+    try {
+      await createDeployment(namespace, {
+        metadata: { name, labels },
+        spec: {
+          replicas: 1,
+          selector: { matchLabels: selectorFor(name) },
+          template: {
+            metadata: { labels },
+            spec: {
+              containers: [
+                {
+                  name: CONTAINER_NAME,
+                  image: config.image,
+                  env: [
+                    { name: "NODE_ENV", value: "production" },
+                    ...getModelEnv(config),
+                    { name: "OPENCLAW_DISABLE_BONJOUR", value: "1" },
+                    { name: "OPENCLAW_CONFIG_PATH", value: OPENCLAW_CONFIG_PATH },
+                  ],
+                  envFrom: [{ secretRef: { name } }],
+                  ports: [{ containerPort: OPENCLAW_GATEWAY_PORT, name: "gateway" }],
+                  resources: getResources(),
+                  volumeMounts: [
+                    {
+                      name: "config",
+                      mountPath: dirname(OPENCLAW_CONFIG_PATH),
+                      readOnly: true,
+                    },
+                  ],
+                },
+              ],
+              volumes: [
+                {
+                  name: "config",
+                  secret: {
+                    secretName: name,
+                    items: [{ key: CONFIG_FILE_KEY, path: basename(OPENCLAW_CONFIG_PATH) }],
+                  },
+                },
+              ],
+            },
+          },
+        },
+      });
+
+      const service = await createService(namespace, {
+        metadata: { name, labels },
+        spec: {
+          type: "ClusterIP",
+          selector: selectorFor(name),
+          ports: [
+            { port: OPENCLAW_GATEWAY_PORT, targetPort: OPENCLAW_GATEWAY_PORT, name: "gateway" },
+          ],
+        },
+      });
+
+      return {
+        resourceId: name,
+        meta: { namespace },
+        ipAddress: service.spec.clusterIP,
+      };
+    } catch (error) {
+      // Don't leave half-created instances behind; a retry creates fresh resources
+      await Promise.allSettled([
+        deleteService(namespace, name),
+        deleteDeployment(namespace, name),
+        deleteSecret(namespace, name),
+      ]);
+      throw error;
+    }
+  },
+
+  async startInstance(data: ProviderInstanceData, config: StartInstanceConfig): Promise<undefined> {
+    const { name, namespace } = requireResource(data);
+    // The new pod reads the updated credentials and mounts the updated config file
+    await patchSecret(namespace, name, {
+      ...getChannelEnv(config.channels),
+      [API_KEY_VARS[config.aiProvider]]: config.aiApiKey,
+      [CONFIG_FILE_KEY]: toConfigFile(config.openclawConfig),
+    });
+    await setContainerEnv(namespace, name, CONTAINER_NAME, getModelEnv(config));
+    await scaleDeployment(namespace, name, 1);
+  },
+
+  async applyConfig(data: ProviderInstanceData, openclawConfig: OpenClawConfig): Promise<void> {
+    const { name, namespace } = requireResource(data);
+    // The kubelet refreshes the mounted file on its next sync, usually within a minute
+    await patchSecret(namespace, name, { [CONFIG_FILE_KEY]: toConfigFile(openclawConfig) });
+  },
+
+  async stopInstance(data: ProviderInstanceData): Promise<void> {
+    const { name, namespace } = requireResource(data);
+    await scaleDeployment(namespace, name, 0);
+  },
+
+  async deleteInstance(data: ProviderInstanceData): Promise<void> {
+    const resource = getResource(data);
+    if (resource === null) {
+      return;
+    }
+    const { name, namespace } = resource;
+
+    await ignoreNotFound(deleteService(namespace, name));
+    await ignoreNotFound(deleteDeployment(namespace, name));
+    await ignoreNotFound(deleteSecret(namespace, name));
+  },
+
+  async getInstanceStatus(data: ProviderInstanceData): Promise<InstanceStatus> {
+    const resource = getResource(data);
+    if (resource === null) {
+      return "UNKNOWN";
+    }
+    try {
+      const deployment = await getDeployment(resource.namespace, resource.name);
+      return mapDeploymentState(deployment);
+    } catch (error) {
+      if (error instanceof KubernetesApiError && error.status === 404) {
+        return "DELETED";
+      }
+      throw error;
+    }
+  },
+
+  async listResources(): Promise<ProviderResource[]> {
+    // Only the namespace new instances go to is checked
+    const namespace = getNamespace();
+    const deployments = await listDeployments(namespace, MANAGED_BY_SELECTOR);
+    return deployments.map((deployment) => ({
+      resourceId: deployment.metadata.name,
+      name: deployment.metadata.name,
+      status: mapDeploymentState(deployment),
+      meta: { namespace },
+      createdAt:
+        deployment.metadata.creationTimestamp !== undefined
+          ? new Date(deployment.metadata.creationTimestamp)
+          : undefined,
+    }));
+  },
+
+  async *getLogs(data: ProviderInstanceData, options: GetLogsOptions): AsyncGenerator<LogEntry> {
+    const { name, namespace } = requireResource(data);
+
+    // Read from the newest pod; a stopped instance has none
+    const selector = Object.entries(selectorFor(name))
+      .map(([key, value]) => `${key}=${value}`)
+      .join(",");
+    const pods = await listPods(namespace, selector);
+    const pod = pods.sort((a, b) =>
+      (b.metadata.creationTimestamp ?? "").localeCompare(a.metadata.creationTimestamp ?? "")
+    )[0] as (typeof pods)[number] | undefined;
+    if (pod === undefined) {
+      return;
+    }
+
+    const body = await streamPodLogs(namespace, pod.metadata.name, {
+      sinceTime: options.since,
+      tailLines: options.tail ?? DEFAULT_LOG_TAIL,
+      follow: options.follow,
+      signal: options.signal,
+    });
+
+    try {
+      const input = Readable.fromWeb(body as NodeReadableStream<Uint8Array>);
+      for await (const line of createInterface({ input, crlfDelay: Infinity })) {
+        if (line !== "") {
+          yield parseTimestampedLine(line);
+        }
+      }
+    } catch (error) {
+      // Aborting the request errors the body stream
+      if (options.signal?.aborted !== true) {
+        throw error;
+      }
+    }
+  },
+};
+
+registerProvider(kubernetesProvider);
@@ -0,0 +1,63 @@
+/**
+ * Log Helpers
+ * Shared parsing for provider log output.
+ */
+
+import type { LogEntry, LogLevel } from "./types.js";
+
+export const DEFAULT_LOG_TAIL = 100;
+
+/**
+ * Guess the level of a plain-text log line from its wording.
+ */
+export function inferLogLevel(message: string): LogLevel {
+  if (/\b(error|err|fatal|panic|exception)\b/i.test(message)) {
+    return "error";
+  }
+  if (/\bwarn(ing)?\b/i.test(message)) {
+    return "warn";
+  }
+  if (/\b(debug|trace|verbose)\b/i.test(message)) {
+    return "debug";
+  }
+  return "info";
+}
+
+/**
+ * Normalize a level reported by a provider, falling back to the message text.
+ */
+export function normalizeLogLevel(level: string | undefined, message: string): LogLevel {
+  switch (level?.toLowerCase()) {
+    case "debug":
+    case "trace":
+      return "debug";
+    case "info":
+    case "notice":
+      return "info";
+    case "warn":
+    case "warning":
+      return "warn";
+    case "error":
+    case "fatal":
+    case "critical":
+      return "error";
+    default:
+      return inferLogLevel(message);
+  }
+}
+
+/**
+ * Parse a line prefixed with an RFC 3339 timestamp, as written by
+ * `docker logs --timestamps`.
+ */
+export function parseTimestampedLine(line: string): LogEntry {
+  const match = /^(\d{4}-\d{2}-\d{2}T\S+)\s(.*)$/.exec(line);
+  const timestamp = match ? new Date(match[1]) : new Date(NaN);
+  const message = match && !Number.isNaN(timestamp.getTime()) ? match[2] : line;
+
+  return {
+    timestamp: Number.isNaN(timestamp.getTime()) ? new Date() : timestamp,
+    level: inferLogLevel(message),
+    message,
+  };
+}
@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { toConfigFile } from "./openclaw-config.js";
+
+describe("OpenClaw Config Helpers", () => {
+  describe("toConfigFile", () => {
+    it("should nest dotted keys", () => {
+      const file = toConfigFile({
+        "gateway.port": 18789,
+        "channels.telegram.enabled": true,
+        "channels.telegram.allowFrom": ["123456789"],
+        "plugins.entries.telegram.enabled": true,
+      });
+
+      expect(JSON.parse(file)).toEqual({
+        gateway: { port: 18789 },
+        channels: { telegram: { enabled: true, allowFrom: ["123456789"] } },
+        plugins: { entries: { telegram: { enabled: true } } },
+      });
+    });
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * OpenClaw Config Helpers
+ * Instances are configured with dotted OpenClaw config keys such as
+ * "channels.telegram.dmPolicy" (see services/instance-config.ts). Providers
+ * deliver them as a config file that OpenClaw reads at startup.
+ */
+
+export type OpenClawConfigValue = string | number | boolean | string[];
+
+/** Dotted OpenClaw config keys and their values */
+export type OpenClawConfig = Record<string, OpenClawConfigValue>;
+
+/** Where providers put the config file, passed to OpenClaw as OPENCLAW_CONFIG_PATH */
+export const OPENCLAW_CONFIG_PATH = "/etc/openclaw/openclaw.json";
+
+/** Where providers mount an instance's volume, passed to OpenClaw as OPENCLAW_STATE_DIR */
+export const OPENCLAW_DATA_PATH = "/data";
+
+/** Port the OpenClaw gateway listens on */
+export const OPENCLAW_GATEWAY_PORT = 18789;
+
+/** Where OpenClaw images are pulled from unless OPENCLAW_IMAGE_REPOSITORY says otherwise */
+export const DEFAULT_OPENCLAW_IMAGE_REPOSITORY = "ghcr.io/openclaw/openclaw";
+
+/**
+ * The image reference of an OpenClaw version (Instance.imageVersion).
+ */
+export function getOpenClawImage(version: string): string {
+  const repository = process.env.OPENCLAW_IMAGE_REPOSITORY ?? DEFAULT_OPENCLAW_IMAGE_REPOSITORY;
+  return `${repository}:${version}`;
+}
+
+/**
+ * Render config keys as the contents of an OpenClaw config file, nesting each
+ * dotted key.
+ */
+export function toConfigFile(config: OpenClawConfig): string {
+  const root: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(config)) {
+    const path = key.split(".");
+    const leaf = path.pop() ?? key;
+    let node = root;
+    for (const segment of path) {
+      const child = node[segment];
+      if (typeof child !== "object" || child === null || Array.isArray(child)) {
+        node[segment] = {};
+      }
+      node = node[segment] as Record<string, unknown>;
+    }
+    node[leaf] = value;
+  }
+  return JSON.stringify(root, null, 2);
+}
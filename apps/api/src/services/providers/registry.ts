@@ -0,0 +1,59 @@
+/**
+ * Provider Registry
+ * Each provider module registers itself on import, so adding a provider means
+ * adding its module and importing it from ./index.ts.
+ */
+
+import type { InstanceProvider } from "./types.js";
+
+const DEFAULT_PROVIDER = "fly";
+
+const providers = new Map<string, InstanceProvider>();
+
+/**
+ * Make a provider available under its name.
+ */
+export function registerProvider(provider: InstanceProvider): void {
+  if (providers.has(provider.name)) {
+    throw new Error(`Instance provider "${provider.name}" is already registered`);
+  }
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Get the provider for a specific provider name.
+ * Use this for lifecycle operations on existing instances.
+ */
+export function getProviderByType(name: string): InstanceProvider {
+  const provider = providers.get(name);
+  if (provider === undefined) {
+    throw new Error(`Unknown instance provider "${name}"`);
+  }
+  return provider;
+}
+
+/**
+ * All registered providers, in registration order.
+ */
+export function listProviders(): InstanceProvider[] {
+  return [...providers.values()];
+}
+
+/**
+ * Get the name of the provider new instances are created on.
+ * Falls back to "fly" when INSTANCE_PROVIDER is unset or unknown.
+ */
+export function getProviderType(): string {
+  const envProvider = process.env.INSTANCE_PROVIDER;
+  if (envProvider !== undefined && providers.has(envProvider)) {
+    return envProvider;
+  }
+  return DEFAULT_PROVIDER;
+}
+
+/**
+ * Get the configured instance provider for new instances.
+ */
+export function getProvider(): InstanceProvider {
+  return getProviderByType(getProviderType());
+}
@@ -1,38 +1,183 @@
 /**
  * Instance Provider Interface
- * Abstracts the underlying infrastructure provider (Fly.io, Docker, etc.)
+ * Abstracts the underlying infrastructure provider (Fly.io, Docker, Kubernetes)
  */
 
+import type { InstanceStatus } from "@fasterclaw/db";
+import type { ChannelInput } from "@fasterclaw/shared";
+import type { OpenClawConfig } from "./openclaw-config.js";
+
 export interface CreateInstanceConfig {
   name: string;
   userId: string;
-  telegramBotToken: string;
+  /** Chat platforms the instance answers on, with their credentials */
+  channels: ChannelInput[];
+  /** The instance's config document, see services/instance-config.ts */
+  openclawConfig: OpenClawConfig;
   aiProvider: "openai" | "anthropic" | "google";
   aiApiKey: string;
   aiModel: string;
   region?: string;
+  /** OpenClaw image the instance runs, see getOpenClawImage */
+  image: string;
+  /** Persistent volume for the instance's state, when capabilities.volumes is set */
+  volume?: InstanceVolumeConfig;
+  /**
+   * Resources an earlier attempt left behind (a retry on the same provider).
+   * Providers reuse what they can, so a retry keeps the instance's volume.
+   */
+  previous?: ProviderInstanceData;
+  /**
+   * Called with the handle of resources as soon as they exist, before the rest
+   * of the create can fail. A later attempt gets them back as `previous`
+   * instead of leaving them behind.
+   */
+  onResourcesCreated?(meta: ProviderMeta): Promise<void>;
 }
 
+/**
+ * A persistent volume mounted at OPENCLAW_DATA_PATH. It holds OpenClaw's
+ * memory and conversation state, so it outlives restarts, redeploys and
+ * retries and is only removed with the instance.
+ */
+export interface InstanceVolumeConfig {
+  /** Stable for the instance's lifetime (its ID), so later attempts find the same volume */
+  key: string;
+  sizeGb: number;
+}
+
+/**
+ * What an instance is started with. Rendered from the database before every
+ * start, so changes that need a restart (model, API key, channel tokens) apply.
+ */
+export type StartInstanceConfig = Pick<
+  CreateInstanceConfig,
+  "channels" | "openclawConfig" | "aiProvider" | "aiApiKey" | "aiModel"
+>;
+
+/**
+ * Provider-specific details stored alongside the resource ID (Instance.providerMeta).
+ * Each provider decides what goes in here, e.g. Fly's app name or a Kubernetes namespace.
+ */
+export type ProviderMeta = Record<string, string | number | boolean | null>;
+
 export interface ProviderResult {
-  providerId: string; // flyMachineId or dockerContainerId
-  providerAppId: string; // flyAppName or container name
+  resourceId: string; // Fly machine ID, Docker container ID or Kubernetes resource name
+  meta: ProviderMeta;
   ipAddress?: string;
-  port?: number;
 }
 
+/**
+ * What a provider needs to find an existing instance's resources.
+ */
 export interface ProviderInstanceData {
-  flyMachineId?: string | null;
-  flyAppName?: string | null;
-  dockerContainerId?: string | null;
-  dockerPort?: number | null;
+  resourceId: string | null;
+  meta: ProviderMeta;
+}
+
+/**
+ * A resource found on the provider, for reconciling against Instance rows.
+ */
+export interface ProviderResource {
+  /** Matches Instance.providerResourceId; null for leftovers that never got one (a Fly app without a machine) */
+  resourceId: string | null;
+  /** Fly app, container or Deployment name */
+  name: string;
+  status: InstanceStatus;
+  meta: ProviderMeta;
+  createdAt?: Date;
+}
+
+/**
+ * Optional features a provider supports. Clients use these to decide which
+ * actions to offer for an instance.
+ */
+export interface ProviderCapabilities {
+  /** Reading (and following) instance logs via getLogs */
+  logs: boolean;
+  /** Running commands inside a running instance */
+  exec: boolean;
+  /** Persistent volumes that survive restarts, redeploys and retries */
+  volumes: boolean;
+  /** Choosing where an instance runs, see InstanceProvider.regions */
+  regions: boolean;
+  /** Suspending an instance with its memory state intact */
+  suspend: boolean;
+  /** CPU and memory usage metrics */
+  metrics: boolean;
+  /** Recreating an instance's resources from the current image, see InstanceProvider.redeployInstance */
+  redeploy: boolean;
+}
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export interface LogEntry {
+  timestamp: Date;
+  level: LogLevel;
+  message: string;
+}
+
+export interface GetLogsOptions {
+  /** Only return lines written after this time */
+  since?: Date;
+  /** Number of most recent lines to return before following */
+  tail?: number;
+  /** Keep the iterator open and yield new lines as they are written */
+  follow?: boolean;
+  /** Ends a followed stream */
+  signal?: AbortSignal;
 }
 
 export interface InstanceProvider {
-  readonly name: "fly" | "docker";
+  /** Stored in Instance.provider and matched against INSTANCE_PROVIDER */
+  readonly name: string;
+  readonly displayName: string;
+  readonly capabilities: ProviderCapabilities;
+  /** Regions instances can be created in, when capabilities.regions is set */
+  readonly regions?: readonly string[];
 
   createInstance(config: CreateInstanceConfig): Promise<ProviderResult>;
-  startInstance(data: ProviderInstanceData): Promise<void>;
+  /**
+   * Delivers the instance's current config document and credentials before
+   * starting it. Providers that can only change credentials by recreating the
+   * instance's resources return their new handle, otherwise undefined.
+   */
+  startInstance(
+    data: ProviderInstanceData,
+    config: StartInstanceConfig
+  ): Promise<ProviderResult | undefined>;
+  /**
+   * Replaces the config document of a running instance, which OpenClaw reloads
+   * without restarting. Instances on providers without it are restarted instead.
+   */
+  applyConfig?(data: ProviderInstanceData, openclawConfig: OpenClawConfig): Promise<void>;
+  /**
+   * Restarts a running instance in place with its current config document and
+   * credentials, returning a new handle like startInstance. Instances on
+   * providers without it are stopped and started instead.
+   */
+  restartInstance?(
+    data: ProviderInstanceData,
+    config: StartInstanceConfig
+  ): Promise<ProviderResult | undefined>;
+  /**
+   * Recreates an instance's machine or container from the current image and
+   * config, leaving it running. Implemented when capabilities.redeploy is set.
+   */
+  redeployInstance?(
+    data: ProviderInstanceData,
+    config: CreateInstanceConfig
+  ): Promise<ProviderResult>;
   stopInstance(data: ProviderInstanceData): Promise<void>;
   deleteInstance(data: ProviderInstanceData): Promise<void>;
-  getInstanceStatus(data: ProviderInstanceData): Promise<string>;
+  getInstanceStatus(data: ProviderInstanceData): Promise<InstanceStatus>;
+  /**
+   * Bytes in use on the instance's volume, or null when the provider cannot
+   * tell right now. Implemented when capabilities.volumes is set.
+   */
+  getVolumeUsage?(data: ProviderInstanceData): Promise<number | null>;
+  /** Implemented when capabilities.logs is set */
+  getLogs?(data: ProviderInstanceData, options: GetLogsOptions): AsyncIterable<LogEntry>;
+  /** Every instance resource this deployment created, including ones without an Instance row */
+  listResources?(): Promise<ProviderResource[]>;
 }
@@ -0,0 +1,60 @@
+/**
+ * Instance Pub/Sub
+ * In-process fan-out of instance updates to whoever is listening for an
+ * organization, currently the SSE stream behind GET /instances/stream.
+ * Instances created before organizations are not published until their
+ * creator's personal organization takes them over.
+ *
+ * Only reaches subscribers in this process; with several API replicas a
+ * shared broker would have to sit behind the same publish/subscribe API.
+ */
+
+import { EventEmitter } from "events";
+import type { Instance, InstanceEvent } from "@fasterclaw/db";
+
+export type InstanceStreamMessage =
+  | { type: "instance"; instance: Instance }
+  | { type: "event"; event: InstanceEvent };
+
+export type InstanceStreamListener = (message: InstanceStreamMessage) => void;
+
+const emitter = new EventEmitter();
+// One listener per open stream, so the default limit of 10 is meaningless here
+emitter.setMaxListeners(0);
+
+function channel(organizationId: string): string {
+  return `organization:${organizationId}`;
+}
+
+/**
+ * Publish the current state of an instance to its organization's subscribers.
+ */
+export function publishInstanceUpdate(instance: Instance): void {
+  if (instance.organizationId !== null) {
+    emitter.emit(channel(instance.organizationId), { type: "instance", instance });
+  }
+}
+
+/**
+ * Publish a new timeline event to the subscribers of the instance's organization.
+ */
+export function publishInstanceEvent(organizationId: string | null, event: InstanceEvent): void {
+  if (organizationId !== null) {
+    emitter.emit(channel(organizationId), { type: "event", event });
+  }
+}
+
+/**
+ * Listen for updates to an organization's instances.
+ *
+ * @returns a function that removes the listener
+ */
+export function subscribeToOrganization(
+  organizationId: string,
+  listener: InstanceStreamListener
+): () => void {
+  emitter.on(channel(organizationId), listener);
+  return () => {
+    emitter.off(channel(organizationId), listener);
+  };
+}
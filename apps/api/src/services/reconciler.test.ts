@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("@fasterclaw/db", () => ({
+  prisma: {
+    instance: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("./lifecycle.js", () => ({
+  transitionInstance: vi.fn(),
+}));
+
+import { prisma } from "@fasterclaw/db";
+import { transitionInstance } from "./lifecycle.js";
+import { getReconcilePolicy, reconcileProviders, type ReconcilePolicy } from "./reconciler.js";
+import {
+  fakeProvider,
+  configureFakeProvider,
+  resetFakeProvider,
+  getFakeMachine,
+} from "./providers/fake.provider.js";
+import type { InstanceProvider } from "./providers/index.js";
+
+describe("Provider Reconciler", () => {
+  const originalEnv = { ...process.env };
+  const config = {
+    name: "Support Bot",
+    userId: "cjld2cyuq0000t3rmniod1foy",
+    channels: [{ type: "telegram" as const, botToken: "123456:ABC" }],
+    openclawConfig: { "channels.telegram.enabled": true },
+    aiProvider: "anthropic" as const,
+    aiApiKey: "sk-ant-test",
+    aiModel: "claude-sonnet-4-0",
+    image: "ghcr.io/openclaw/openclaw:latest",
+  };
+  const applyAll: ReconcilePolicy = { orphans: "destroy", missing: "fail", graceMinutes: 0 };
+
+  function mockInstances(
+    rows: {
+      id: string;
+      providerResourceId: string | null;
+      status: string;
+      provider?: string;
+      providerMeta?: Record<string, string>;
+    }[]
+  ) {
+    vi.mocked(prisma.instance.findMany).mockResolvedValue(
+      rows.map((row) => ({
+        userId: "cjld2cyuq0000t3rmniod1foy",
+        provider: "fake",
+        providerMeta: null,
+        ...row,
+      })) as any
+    );
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.INSTANCE_PROVIDER = "fake";
+    resetFakeProvider();
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  describe("getReconcilePolicy", () => {
+    it("should only report by default", () => {
+      delete process.env.RECONCILE_ORPHANS;
+      delete process.env.RECONCILE_MISSING;
+      delete process.env.RECONCILE_GRACE_MINUTES;
+
+      expect(getReconcilePolicy()).toEqual({
+        orphans: "report",
+        missing: "report",
+        graceMinutes: 15,
+      });
+    });
+
+    it("should read the policy from the environment", () => {
+      process.env.RECONCILE_ORPHANS = "destroy";
+      process.env.RECONCILE_MISSING = "fail";
+      process.env.RECONCILE_GRACE_MINUTES = "5";
+
+      expect(getReconcilePolicy()).toEqual({
+        orphans: "destroy",
+        missing: "fail",
+        graceMinutes: 5,
+      });
+    });
+  });
+
+  describe("reconcileProviders", () => {
+    it("should find orphans and missing resources without acting in a dry run", async () => {
+      await fakeProvider.createInstance(config); // fake-0001, tracked
+      await fakeProvider.createInstance(config); // fake-0002, orphan
+      mockInstances([
+        { id: "inst-1", providerResourceId: "fake-0001", status: "RUNNING" },
+        { id: "inst-2", providerResourceId: "fake-0099", status: "STOPPED" },
+      ]);
+
+      const report = await reconcileProviders({ dryRun: true, policy: applyAll });
+
+      expect(report.dryRun).toBe(true);
+      expect(report.providers).toEqual([
+        { provider: "fake", resources: 2, instances: 2, error: null },
+      ]);
+      expect(report.orphans).toEqual([
+        expect.objectContaining({
+          provider: "fake",
+          resourceId: "fake-0002",
+          status: "RUNNING",
+          action: "destroy",
+          applied: false,
+        }),
+      ]);
+      expect(report.missing).toEqual([
+        expect.objectContaining({
+          instanceId: "inst-2",
+          providerResourceId: "fake-0099",
+          action: "fail",
+          applied: false,
+        }),
+      ]);
+      expect(getFakeMachine("fake-0002")?.status).toBe("RUNNING");
+      expect(transitionInstance).not.toHaveBeenCalled();
+    });
+
+    it("should destroy orphans and fail missing rows when the policy says so", async () => {
+      await fakeProvider.createInstance(config);
+      mockInstances([{ id: "inst-2", providerResourceId: "fake-0099", status: "RUNNING" }]);
+
+      const report = await reconcileProviders({ dryRun: false, policy: applyAll });
+
+      expect(report.orphans[0]).toMatchObject({ resourceId: "fake-0001", applied: true });
+      expect(getFakeMachine("fake-0001")?.status).toBe("DELETED");
+      expect(report.missing[0]).toMatchObject({ instanceId: "inst-2", applied: true });
+      expect(transitionInstance).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "inst-2", status: "RUNNING" }),
+        "FAILED",
+        expect.objectContaining({ reason: "Fake (in-memory) resource fake-0099 no longer exists" })
+      );
+    });
+
+    it("should skip orphans inside the grace period", async () => {
+      await fakeProvider.createInstance(config);
+      mockInstances([]);
+
+      const report = await reconcileProviders({
+        dryRun: false,
+        policy: { ...applyAll, graceMinutes: 15 },
+      });
+
+      expect(report.orphans).toEqual([]);
+      expect(getFakeMachine("fake-0001")?.status).toBe("RUNNING");
+    });
+
+    it("should keep the app of a failed instance waiting for a retry", async () => {
+      vi.spyOn(fakeProvider as Required<InstanceProvider>, "listResources").mockResolvedValueOnce([
+        {
+          resourceId: null,
+          name: "openclaw-cjld2cyu-1700000000000",
+          status: "UNKNOWN",
+          meta: { appName: "openclaw-cjld2cyu-1700000000000" },
+        },
+        {
+          resourceId: null,
+          name: "openclaw-cjld2cyu-1700000000001",
+          status: "UNKNOWN",
+          meta: { appName: "openclaw-cjld2cyu-1700000000001" },
+        },
+      ]);
+      mockInstances([
+        {
+          id: "inst-1",
+          providerResourceId: null,
+          status: "FAILED",
+          providerMeta: { appName: "openclaw-cjld2cyu-1700000000000", volumeId: "vol_1" },
+        },
+      ]);
+
+      const report = await reconcileProviders({ dryRun: true, policy: applyAll });
+
+      expect(report.orphans).toEqual([
+        expect.objectContaining({ name: "openclaw-cjld2cyu-1700000000001" }),
+      ]);
+    });
+
+    it("should not expect a resource for rows that are not deployed", async () => {
+      mockInstances([
+        { id: "inst-1", providerResourceId: null, status: "CREATING" },
+        { id: "inst-2", providerResourceId: "fake-0001", status: "PROVISIONING" },
+        { id: "inst-3", providerResourceId: "fake-0002", status: "FAILED" },
+      ]);
+
+      const report = await reconcileProviders({ dryRun: false, policy: applyAll });
+
+      expect(report.missing).toEqual([]);
+      expect(transitionInstance).not.toHaveBeenCalled();
+    });
+
+    it("should report a provider that cannot be listed and leave its instances alone", async () => {
+      configureFakeProvider({ failOnCall: 1 });
+      mockInstances([
+        { id: "inst-1", providerResourceId: "fake-0001", status: "RUNNING" },
+        { id: "inst-2", providerResourceId: "abc123", status: "RUNNING", provider: "gone" },
+      ]);
+
+      const report = await reconcileProviders({ dryRun: false, policy: applyAll });
+
+      expect(report.providers).toEqual([
+        {
+          provider: "fake",
+          resources: 0,
+          instances: 1,
+          error: "Fake provider listResources failed: injected failure on call 1",
+        },
+        { provider: "gone", resources: 0, instances: 1, error: 'Unknown instance provider "gone"' },
+      ]);
+      expect(report.missing).toEqual([]);
+      expect(transitionInstance).not.toHaveBeenCalled();
+    });
+
+    it("should record a failed destroy on the orphan", async () => {
+      await fakeProvider.createInstance(config);
+      mockInstances([]);
+      // create, list, then the delete fails
+      configureFakeProvider({ failOnCall: 3 });
+
+      const report = await reconcileProviders({ dryRun: false, policy: applyAll });
+
+      expect(report.orphans[0]).toMatchObject({
+        applied: false,
+        error: "Fake provider deleteInstance failed: injected failure on call 3",
+      });
+    });
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Provider Reconciler
+ * Compares what the providers actually run with the instance rows and reports
+ * the drift in both directions:
+ *
+ *   orphans → provider resources no live instance row points at, by resource
+ *             ID or app, e.g. a machine left behind by a crashed delete
+ *   missing → instance rows whose provider resource no longer exists
+ *
+ * The background run applies the configured policy; the admin endpoint only
+ * produces a dry-run report.
+ *
+ * Settings:
+ *   RECONCILE_ORPHANS        → "report" (default) or "destroy"
+ *   RECONCILE_MISSING        → "report" (default) or "fail" (mark the row FAILED)
+ *   RECONCILE_GRACE_MINUTES  → Ignore orphans younger than this (default 15), so
+ *                              a create still being recorded is not destroyed
+ */
+
+import { prisma, type InstanceStatus } from "@fasterclaw/db";
+import type {
+  ReconcileMissing,
+  ReconcileMissingAction,
+  ReconcileOrphan,
+  ReconcileOrphanAction,
+  ReconcileProviderSummary,
+  ReconcileReport,
+} from "@fasterclaw/shared";
+import { getErrorMessage } from "./errors.js";
+import { SYNC_ACTOR } from "./events.js";
+import { transitionInstance } from "./lifecycle.js";
+import {
+  getProviderByType,
+  getProviderType,
+  toProviderData,
+  type InstanceProvider,
+  type ProviderResource,
+} from "./providers/index.js";
+
+const DEFAULT_GRACE_MINUTES = 15;
+
+/**
+ * Rows expected to have a live provider resource. Rows still being created
+ * may not have one yet; FAILED and DELETED rows are not expected to.
+ */
+const DEPLOYED_STATUSES: readonly InstanceStatus[] = [
+  "STARTING",
+  "RUNNING",
+  "STOPPING",
+  "STOPPED",
+  "UNKNOWN",
+];
+
+export interface ReconcilePolicy {
+  orphans: ReconcileOrphanAction;
+  missing: ReconcileMissingAction;
+  graceMinutes: number;
+}
+
+export interface ReconcileOptions {
+  /** Only report what the policy would do */
+  dryRun: boolean;
+  /** Defaults to the policy from the environment */
+  policy?: ReconcilePolicy;
+  log?: {
+    info: (...args: unknown[]) => void;
+    error: (...args: unknown[]) => void;
+  };
+}
+
+/**
+ * Read the reconcile policy from the environment.
+ */
+export function getReconcilePolicy(): ReconcilePolicy {
+  const grace = Number(process.env.RECONCILE_GRACE_MINUTES ?? String(DEFAULT_GRACE_MINUTES));
+  return {
+    orphans: process.env.RECONCILE_ORPHANS === "destroy" ? "destroy" : "report",
+    missing: process.env.RECONCILE_MISSING === "fail" ? "fail" : "report",
+    graceMinutes: Number.isFinite(grace) && grace >= 0 ? grace : DEFAULT_GRACE_MINUTES,
+  };
+}
+
+/**
+ * Find orphaned and missing provider resources and, unless this is a dry run,
+ * apply the policy to them.
+ *
+ * Only providers new instances go to or existing instances live on are
+ * checked. A provider that cannot be listed is reported with its error and its
+ * instances are left alone.
+ */
+export async function reconcileProviders(options: ReconcileOptions): Promise<ReconcileReport> {
+  const { dryRun, log } = options;
+  const policy = options.policy ?? getReconcilePolicy();
+  const graceCutoff = Date.now() - policy.graceMinutes * 60_000;
+
+  const instances = await prisma.instance.findMany({
+    where: { status: { not: "DELETED" } },
+    select: {
+      id: true,
+      userId: true,
+      provider: true,
+      providerResourceId: true,
+      providerMeta: true,
+      status: true,
+    },
+  });
+
+  const providerNames = [
+    ...new Set([getProviderType(), ...instances.map((instance) => instance.provider)]),
+  ];
+
+  const report: ReconcileReport = {
+    dryRun,
+    generatedAt: new Date().toISOString(),
+    providers: [],
+    orphans: [],
+    missing: [],
+  };
+
+  for (const providerName of providerNames) {
+    const rows = instances.filter((instance) => instance.provider === providerName);
+    const summary: ReconcileProviderSummary = {
+      provider: providerName,
+      resources: 0,
+      instances: rows.length,
+      error: null,
+    };
+    report.providers.push(summary);
+
+    let provider: InstanceProvider;
+    let resources: ProviderResource[];
+    try {
+      provider = getProviderByType(providerName);
+      if (provider.listResources === undefined) {
+        throw new Error(`${provider.displayName} does not support listing resources`);
+      }
+      resources = (await provider.listResources()).filter(
+        (resource) => resource.status !== "DELETED"
+      );
+    } catch (error) {
+      summary.error = getErrorMessage(error, "Failed to list resources");
+      log?.error(`Failed to list ${providerName} resources: ${summary.error}`);
+      continue;
+    }
+    summary.resources = resources.length;
+
+    const knownIds = new Set(rows.map((instance) => instance.providerResourceId));
+    // A failed instance kept for a retry only points at its app (and the volume in it)
+    const knownApps = new Set(rows.map((instance) => toProviderData(instance).meta.appName));
+    const listedIds = new Set(resources.map((resource) => resource.resourceId));
+
+    for (const resource of resources) {
+      if (resource.resourceId !== null && knownIds.has(resource.resourceId)) {
+        continue;
+      }
+      if (typeof resource.meta.appName === "string" && knownApps.has(resource.meta.appName)) {
+        continue;
+      }
+      // Without a creation time we cannot tell, so the resource counts as old
+      if (resource.createdAt !== undefined && resource.createdAt.getTime() > graceCutoff) {
+        continue;
+      }
+
+      const orphan: ReconcileOrphan = {
+        provider: providerName,
+        resourceId: resource.resourceId,
+        name: resource.name,
+        status: resource.status,
+        createdAt: resource.createdAt?.toISOString() ?? null,
+        action: policy.orphans,
+        applied: false,
+        error: null,
+      };
+      report.orphans.push(orphan);
+
+      if (!dryRun && policy.orphans === "destroy") {
+        try {
+          await provider.deleteInstance({ resourceId: resource.resourceId, meta: resource.meta });
+          orphan.applied = true;
+          log?.info(`Destroyed orphaned ${providerName} resource ${resource.name}`);
+        } catch (error) {
+          orphan.error = getErrorMessage(error, "Failed to destroy resource");
+          log?.error(`Failed to destroy orphaned ${providerName} resource ${resource.name}`);
+        }
+      }
+    }
+
+    for (const instance of rows) {
+      if (
+        instance.providerResourceId === null ||
+        !DEPLOYED_STATUSES.includes(instance.status) ||
+        listedIds.has(instance.providerResourceId)
+      ) {
+        continue;
+      }
+
+      const missing: ReconcileMissing = {
+        instanceId: instance.id,
+        userId: instance.userId,
+        provider: providerName,
+        providerResourceId: instance.providerResourceId,
+        status: instance.status,
+        action: policy.missing,
+        applied: false,
+        error: null,
+      };
+      report.missing.push(missing);
+
+      if (!dryRun && policy.missing === "fail") {
+        try {
+          await transitionInstance(instance, "FAILED", {
+            by: SYNC_ACTOR,
+            reason: `${provider.displayName} resource ${instance.providerResourceId} no longer exists`,
+          });
+          missing.applied = true;
+          log?.info(`Marked instance ${instance.id} failed: provider resource is gone`);
+        } catch (error) {
+          missing.error = getErrorMessage(error, "Failed to update instance");
+          log?.error(`Failed to mark instance ${instance.id} failed: ${missing.error}`);
+        }
+      }
+    }
+  }
+
+  return report;
+}
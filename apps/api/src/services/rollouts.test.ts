@@ -0,0 +1,325 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@fasterclaw/db", () => ({
+  prisma: {
+    instance: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+    },
+    rollout: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+    rolloutInstance: {
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("./lifecycle.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./lifecycle.js")>()),
+  transitionInstance: vi.fn(),
+}));
+
+import { prisma } from "@fasterclaw/db";
+import { transitionInstance } from "./lifecycle.js";
+import { advanceRollouts, createRollout, getBatchCount } from "./rollouts.js";
+import {
+  fakeProvider,
+  configureFakeProvider,
+  resetFakeProvider,
+} from "./providers/fake.provider.js";
+
+describe("Image Rollouts", () => {
+  const log = { info: vi.fn(), error: vi.fn() };
+  const config = {
+    name: "Support Bot",
+    userId: "cjld2cyuq0000t3rmniod1foy",
+    channels: [{ type: "telegram" as const, botToken: "123456:ABC" }],
+    openclawConfig: { "channels.telegram.enabled": true },
+    aiProvider: "anthropic" as const,
+    aiApiKey: "sk-ant-test",
+    aiModel: "claude-sonnet-4-0",
+    image: "ghcr.io/openclaw/openclaw:2026.3.0",
+  };
+
+  function entry(overrides: Record<string, unknown> = {}) {
+    return {
+      id: "entry-1",
+      rolloutId: "rollout-1",
+      instanceId: "instance-1",
+      batch: 0,
+      previousVersion: "2026.2.1",
+      status: "PENDING",
+      error: null,
+      startedAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    };
+  }
+
+  function mockRollout(overrides: Record<string, unknown>, entries: ReturnType<typeof entry>[]) {
+    vi.mocked(prisma.rollout.findMany).mockResolvedValue([
+      {
+        id: "rollout-1",
+        targetVersion: "2026.3.0",
+        batchSize: 2,
+        maxFailures: 0,
+        status: "RUNNING",
+        currentBatch: 0,
+        instances: entries,
+        ...overrides,
+      },
+    ] as any);
+    vi.mocked(prisma.rolloutInstance.update).mockImplementation((async ({ where, data }: any) => ({
+      ...entries.find((candidate) => candidate.id === where.id),
+      ...data,
+    })) as any);
+  }
+
+  function mockInstance(overrides: Record<string, unknown>) {
+    vi.mocked(prisma.instance.findUnique).mockResolvedValue({
+      id: "instance-1",
+      provider: "fake",
+      providerResourceId: "fake-0001",
+      providerMeta: {},
+      status: "RUNNING",
+      imageVersion: "2026.3.0",
+      ...overrides,
+    } as any);
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetFakeProvider();
+    vi.mocked(prisma.$transaction).mockImplementation((async (writes: unknown[]) =>
+      Promise.all(writes)) as any);
+  });
+
+  describe("createRollout", () => {
+    it("should split running instances into batches, leaving out providers that cannot redeploy", async () => {
+      vi.mocked(prisma.instance.findMany).mockResolvedValue([
+        { id: "a", provider: "fake", imageVersion: "2026.2.1" },
+        { id: "b", provider: "kubernetes", imageVersion: "2026.2.1" },
+        { id: "c", provider: "fly", imageVersion: "latest" },
+        { id: "d", provider: "docker", imageVersion: "2026.2.1" },
+      ] as any);
+
+      await createRollout({ version: "2026.3.0", batchSize: 2, maxFailures: 0 }, "ops@example.com");
+
+      expect(prisma.instance.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            status: "RUNNING",
+            imageVersion: { not: "2026.3.0" },
+          }),
+        })
+      );
+      expect(prisma.rollout.create).toHaveBeenCalledWith({
+        data: {
+          targetVersion: "2026.3.0",
+          batchSize: 2,
+          maxFailures: 0,
+          createdBy: "ops@example.com",
+          instances: {
+            create: [
+              { instanceId: "a", batch: 0, previousVersion: "2026.2.1" },
+              { instanceId: "c", batch: 0, previousVersion: "latest" },
+              { instanceId: "d", batch: 1, previousVersion: "2026.2.1" },
+            ],
+          },
+        },
+        include: { instances: true },
+      });
+    });
+
+    it("should not plan a rollout without instances to upgrade", async () => {
+      vi.mocked(prisma.instance.findMany).mockResolvedValue([]);
+
+      expect(
+        await createRollout(
+          { version: "2026.3.0", batchSize: 5, maxFailures: 0 },
+          "ops@example.com"
+        )
+      ).toBeNull();
+      expect(prisma.rollout.create).not.toHaveBeenCalled();
+    });
+  });
+
+  it("should count batches", () => {
+    expect(getBatchCount([])).toBe(0);
+    expect(getBatchCount([{ batch: 0 }, { batch: 2 }, { batch: 1 }])).toBe(3);
+  });
+
+  describe("advanceRollouts", () => {
+    it("should redeploy the current batch on the target version", async () => {
+      mockRollout({}, [
+        entry({ id: "entry-1", instanceId: "instance-1" }),
+        entry({ id: "entry-2", instanceId: "instance-2", batch: 1 }),
+      ]);
+      mockInstance({ imageVersion: "2026.2.1" });
+
+      await advanceRollouts(log);
+
+      expect(transitionInstance).toHaveBeenCalledTimes(1);
+      expect(transitionInstance).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "instance-1" }),
+        "PROVISIONING",
+        expect.objectContaining({
+          reason: "Upgrading OpenClaw to 2026.3.0",
+          data: { imageVersion: "2026.3.0", jobs: { create: { type: "REDEPLOY" } } },
+        })
+      );
+      expect(prisma.rolloutInstance.update).toHaveBeenCalledWith({
+        where: { id: "entry-1" },
+        data: expect.objectContaining({ status: "UPGRADING", previousVersion: "2026.2.1" }),
+      });
+      expect(prisma.rollout.update).not.toHaveBeenCalled();
+    });
+
+    it("should skip instances that stopped before their batch", async () => {
+      mockRollout({}, [entry()]);
+      mockInstance({ status: "STOPPED" });
+
+      await advanceRollouts(log);
+
+      expect(transitionInstance).not.toHaveBeenCalled();
+      expect(prisma.rolloutInstance.update).toHaveBeenCalledWith({
+        where: { id: "entry-1" },
+        data: { status: "SKIPPED", error: "Instance was STOPPED when its batch started" },
+      });
+    });
+
+    it("should start the next batch once the current one is healthy", async () => {
+      const { resourceId } = await fakeProvider.createInstance(config);
+      mockRollout({}, [
+        entry({ status: "UPGRADING" }),
+        entry({ id: "entry-2", instanceId: "instance-2", batch: 1 }),
+      ]);
+      mockInstance({ providerResourceId: resourceId });
+
+      await advanceRollouts(log);
+
+      expect(prisma.rolloutInstance.update).toHaveBeenCalledWith({
+        where: { id: "entry-1" },
+        data: { status: "HEALTHY", error: null },
+      });
+      expect(prisma.rollout.update).toHaveBeenCalledWith({
+        where: { id: "rollout-1" },
+        data: { currentBatch: 1 },
+      });
+    });
+
+    it("should wait for instances that are still deploying", async () => {
+      mockRollout({}, [entry({ status: "UPGRADING" })]);
+      mockInstance({ status: "PROVISIONING" });
+
+      await advanceRollouts(log);
+
+      expect(prisma.rolloutInstance.update).not.toHaveBeenCalled();
+      expect(prisma.rollout.update).not.toHaveBeenCalled();
+    });
+
+    it("should complete after the last batch", async () => {
+      const { resourceId } = await fakeProvider.createInstance(config);
+      mockRollout({}, [entry({ status: "UPGRADING" })]);
+      mockInstance({ providerResourceId: resourceId });
+
+      await advanceRollouts(log);
+
+      expect(prisma.rollout.update).toHaveBeenCalledWith({
+        where: { id: "rollout-1" },
+        data: { status: "COMPLETED", completedAt: expect.any(Date) },
+      });
+    });
+
+    it("should halt and roll back when upgraded instances crash", async () => {
+      configureFakeProvider({ crashImage: config.image });
+      const { resourceId } = await fakeProvider.createInstance(config);
+      mockRollout({}, [
+        entry({ status: "UPGRADING" }),
+        entry({ id: "entry-2", instanceId: "instance-2", batch: 1 }),
+      ]);
+      mockInstance({ providerResourceId: resourceId });
+
+      await advanceRollouts(log);
+
+      expect(prisma.rolloutInstance.update).toHaveBeenCalledWith({
+        where: { id: "entry-1" },
+        data: { status: "FAILED", error: "Provider reports the instance FAILED" },
+      });
+      expect(prisma.rollout.update).toHaveBeenCalledWith({
+        where: { id: "rollout-1" },
+        data: {
+          status: "ROLLING_BACK",
+          haltReason: "1 instance(s) failed to upgrade to 2026.3.0",
+        },
+      });
+      expect(prisma.rolloutInstance.updateMany).toHaveBeenCalledWith({
+        where: { rolloutId: "rollout-1", status: "PENDING" },
+        data: { status: "SKIPPED" },
+      });
+    });
+
+    it("should tolerate up to maxFailures failed upgrades", async () => {
+      mockRollout({ maxFailures: 1 }, [entry({ status: "UPGRADING" })]);
+      mockInstance({ status: "FAILED" });
+
+      await advanceRollouts(log);
+
+      expect(prisma.rollout.update).toHaveBeenCalledWith({
+        where: { id: "rollout-1" },
+        data: { status: "COMPLETED", completedAt: expect.any(Date) },
+      });
+    });
+
+    it("should redeploy upgraded instances on their previous version when rolling back", async () => {
+      mockRollout({ status: "ROLLING_BACK" }, [
+        entry({ status: "HEALTHY" }),
+        entry({ id: "entry-2", instanceId: "instance-2", status: "SKIPPED" }),
+      ]);
+      mockInstance({ status: "FAILED" });
+
+      await advanceRollouts(log);
+
+      // Failed instances go back through CREATING, like a retry
+      expect(transitionInstance).toHaveBeenCalledTimes(1);
+      expect(transitionInstance).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "instance-1" }),
+        "CREATING",
+        expect.objectContaining({
+          reason: "Rolling back OpenClaw to 2026.2.1",
+          data: { imageVersion: "2026.2.1", jobs: { create: { type: "REDEPLOY" } } },
+        })
+      );
+      expect(prisma.rolloutInstance.update).toHaveBeenCalledWith({
+        where: { id: "entry-1" },
+        data: { status: "ROLLING_BACK", startedAt: expect.any(Date) },
+      });
+      expect(prisma.rollout.update).not.toHaveBeenCalled();
+    });
+
+    it("should finish rolling back once rolled back instances are healthy", async () => {
+      const { resourceId } = await fakeProvider.createInstance({
+        ...config,
+        image: "ghcr.io/openclaw/openclaw:2026.2.1",
+      });
+      mockRollout({ status: "ROLLING_BACK" }, [entry({ status: "ROLLING_BACK" })]);
+      mockInstance({ providerResourceId: resourceId, imageVersion: "2026.2.1" });
+
+      await advanceRollouts(log);
+
+      expect(prisma.rolloutInstance.update).toHaveBeenCalledWith({
+        where: { id: "entry-1" },
+        data: { status: "ROLLED_BACK", error: null },
+      });
+      expect(prisma.rollout.update).toHaveBeenCalledWith({
+        where: { id: "rollout-1" },
+        data: { status: "ROLLED_BACK", completedAt: expect.any(Date) },
+      });
+    });
+  });
+});
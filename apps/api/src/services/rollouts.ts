@@ -0,0 +1,448 @@
+/**
+ * Image Rollouts
+ * Upgrades running instances to an approved OpenClaw version a batch at a
+ * time. Each instance is redeployed on the new image by a REDEPLOY job, and the
+ * next batch only starts once every instance of the current one is healthy:
+ * back in RUNNING and reported running by its provider.
+ *
+ *   RUNNING → COMPLETED            every batch upgraded
+ *   RUNNING → ROLLING_BACK         more than maxFailures upgrades failed, or an
+ *                                  admin asked for a rollback
+ *   ROLLING_BACK → ROLLED_BACK     upgraded instances redeployed on the version
+ *                                  they ran before
+ *   RUNNING → HALTED               an admin stopped it; upgrades in flight finish
+ *
+ * Rollouts are advanced by advanceRollouts, which the API runs in the
+ * background. Only instances running when the rollout was planned take part;
+ * stopped ones keep their version until they are redeployed.
+ *
+ * Settings:
+ *   ROLLOUT_HEALTH_TIMEOUT_MINUTES → How long an upgraded or rolled back instance
+ *                                    may take to become healthy (default 15)
+ */
+
+import {
+  prisma,
+  type Instance,
+  type InstanceStatus,
+  type Rollout,
+  type RolloutInstance,
+} from "@fasterclaw/db";
+import type {
+  CreateRolloutRequest,
+  RolloutInstanceStatus,
+  RolloutStatus,
+} from "@fasterclaw/shared";
+import { getErrorMessage } from "./errors.js";
+import { SYSTEM_ACTOR } from "./events.js";
+import { InvalidTransitionError, transitionInstance } from "./lifecycle.js";
+import { getProviderByType, toProviderData } from "./providers/index.js";
+
+export type RolloutWithInstances = Rollout & { instances: RolloutInstance[] };
+
+interface RolloutLogger {
+  info: (...args: unknown[]) => void;
+  error: (...args: unknown[]) => void;
+}
+
+const DEFAULT_HEALTH_TIMEOUT_MINUTES = 15;
+
+/** Rollouts that are still working through their instances */
+export const ACTIVE_ROLLOUT_STATUSES: readonly RolloutStatus[] = ["RUNNING", "ROLLING_BACK"];
+
+/** Instance statuses a redeploy passes through before it settles */
+const DEPLOYING_STATUSES: readonly InstanceStatus[] = ["CREATING", "PROVISIONING", "STARTING"];
+
+/** Entries whose instance runs, or may run, the target version */
+const UPGRADED_STATUSES: readonly RolloutInstanceStatus[] = ["UPGRADING", "HEALTHY", "FAILED"];
+
+/**
+ * How a redeploy turned out, or null while it is still in progress.
+ */
+type DeployOutcome = { healthy: true } | { healthy: false; gone: boolean; error: string } | null;
+
+function getHealthTimeoutMs(): number {
+  const minutes = Number(
+    process.env.ROLLOUT_HEALTH_TIMEOUT_MINUTES ?? String(DEFAULT_HEALTH_TIMEOUT_MINUTES)
+  );
+  return (
+    (Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_HEALTH_TIMEOUT_MINUTES) * 60_000
+  );
+}
+
+/**
+ * Number of batches a rollout's instances are split into.
+ */
+export function getBatchCount(instances: Pick<RolloutInstance, "batch">[]): number {
+  return instances.reduce((count, entry) => Math.max(count, entry.batch + 1), 0);
+}
+
+/**
+ * The rollout currently working through its instances, if any.
+ */
+export async function findActiveRollout(): Promise<Rollout | null> {
+  return prisma.rollout.findFirst({
+    where: { status: { in: [...ACTIVE_ROLLOUT_STATUSES] } },
+  });
+}
+
+/**
+ * Plan a rollout: pick the running instances not yet on the target version
+ * whose provider can redeploy them, oldest first, and split them into batches.
+ * Returns null when no instance needs upgrading.
+ */
+export async function createRollout(
+  request: CreateRolloutRequest,
+  createdBy: string
+): Promise<RolloutWithInstances | null> {
+  const { version, batchSize, maxFailures, provider, fromVersions } = request;
+  const instances = await prisma.instance.findMany({
+    where: {
+      status: "RUNNING",
+      providerResourceId: { not: null },
+      imageVersion:
+        fromVersions !== undefined
+          ? { in: fromVersions.filter((from) => from !== version) }
+          : { not: version },
+      ...(provider !== undefined && { provider }),
+    },
+    orderBy: { createdAt: "asc" },
+  });
+  const upgradable = instances.filter(
+    (instance) => getProviderByType(instance.provider).capabilities.redeploy
+  );
+  if (upgradable.length === 0) {
+    return null;
+  }
+
+  return prisma.rollout.create({
+    data: {
+      targetVersion: version,
+      batchSize,
+      maxFailures,
+      createdBy,
+      instances: {
+        create: upgradable.map((instance, index) => ({
+          instanceId: instance.id,
+          batch: Math.floor(index / batchSize),
+          previousVersion: instance.imageVersion,
+        })),
+      },
+    },
+    include: { instances: true },
+  });
+}
+
+async function updateEntry(
+  entry: RolloutInstance,
+  status: RolloutInstanceStatus,
+  data: { error?: string | null; startedAt?: Date; previousVersion?: string } = {}
+): Promise<RolloutInstance> {
+  return prisma.rolloutInstance.update({ where: { id: entry.id }, data: { status, ...data } });
+}
+
+/**
+ * Queue a REDEPLOY job that moves an instance to another version.
+ * A failed instance goes back through CREATING, like a retry; the job moves it
+ * on to PROVISIONING.
+ *
+ * @returns false if the instance is no longer in a state it can be redeployed from
+ */
+async function redeployOnVersion(
+  instance: Instance,
+  version: string,
+  reason: string
+): Promise<boolean> {
+  const to = instance.status === "FAILED" ? "CREATING" : "PROVISIONING";
+  try {
+    await transitionInstance(instance, to, {
+      by: SYSTEM_ACTOR,
+      reason,
+      data: { imageVersion: version, jobs: { create: { type: "REDEPLOY" } } },
+    });
+    return true;
+  } catch (error: unknown) {
+    if (error instanceof InvalidTransitionError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check on an instance redeployed by the rollout.
+ */
+async function checkDeploy(entry: RolloutInstance): Promise<DeployOutcome> {
+  const instance = await prisma.instance.findUnique({ where: { id: entry.instanceId } });
+  if (instance === null || instance.status === "DELETED") {
+    return { healthy: false, gone: true, error: "Instance was deleted" };
+  }
+  if (instance.status === "FAILED") {
+    return { healthy: false, gone: false, error: "Redeploy failed" };
+  }
+
+  if (instance.status === "RUNNING") {
+    // The job finished; make sure OpenClaw stayed up on the new image
+    const status = await getProviderByType(instance.provider).getInstanceStatus(
+      toProviderData(instance)
+    );
+    if (status === "RUNNING") {
+      return { healthy: true };
+    }
+    if (status !== "STARTING") {
+      return { healthy: false, gone: false, error: `Provider reports the instance ${status}` };
+    }
+  } else if (!DEPLOYING_STATUSES.includes(instance.status)) {
+    return { healthy: false, gone: true, error: `Instance was ${instance.status} while deploying` };
+  }
+
+  const startedAt = entry.startedAt ?? entry.updatedAt;
+  if (Date.now() - startedAt.getTime() > getHealthTimeoutMs()) {
+    return {
+      healthy: false,
+      gone: false,
+      error: `Not healthy within ${String(getHealthTimeoutMs() / 60_000)} minutes`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Start upgrading an instance of the current batch.
+ */
+async function startUpgrade(rollout: Rollout, entry: RolloutInstance): Promise<RolloutInstance> {
+  const instance = await prisma.instance.findUnique({ where: { id: entry.instanceId } });
+  if (instance?.status !== "RUNNING") {
+    return updateEntry(entry, "SKIPPED", {
+      error: `Instance was ${instance?.status ?? "DELETED"} when its batch started`,
+    });
+  }
+
+  const queued = await redeployOnVersion(
+    instance,
+    rollout.targetVersion,
+    `Upgrading OpenClaw to ${rollout.targetVersion}`
+  );
+  if (!queued) {
+    return updateEntry(entry, "SKIPPED", { error: "Instance changed state before its upgrade" });
+  }
+  return updateEntry(entry, "UPGRADING", {
+    startedAt: new Date(),
+    previousVersion: instance.imageVersion,
+  });
+}
+
+/**
+ * Record how an upgrade in flight turned out.
+ */
+async function settleUpgrade(entry: RolloutInstance): Promise<RolloutInstance> {
+  const outcome = await checkDeploy(entry);
+  if (outcome === null) {
+    return entry;
+  }
+  if (outcome.healthy) {
+    return updateEntry(entry, "HEALTHY", { error: null });
+  }
+  return updateEntry(entry, outcome.gone ? "SKIPPED" : "FAILED", { error: outcome.error });
+}
+
+/**
+ * Put an upgraded instance back on the version it ran before. Instances still
+ * being redeployed are left until their job settles.
+ */
+async function startRollback(entry: RolloutInstance): Promise<RolloutInstance> {
+  const instance = await prisma.instance.findUnique({ where: { id: entry.instanceId } });
+  if (instance === null || instance.status === "DELETED") {
+    return updateEntry(entry, "SKIPPED", { error: "Instance was deleted" });
+  }
+  if (DEPLOYING_STATUSES.includes(instance.status) || instance.status === "STOPPING") {
+    return entry;
+  }
+
+  const queued = await redeployOnVersion(
+    instance,
+    entry.previousVersion,
+    `Rolling back OpenClaw to ${entry.previousVersion}`
+  );
+  if (!queued) {
+    return updateEntry(entry, "ROLLBACK_FAILED", {
+      error: `Instance cannot be redeployed from ${instance.status}`,
+    });
+  }
+  return updateEntry(entry, "ROLLING_BACK", { startedAt: new Date() });
+}
+
+/**
+ * Record how a rollback in flight turned out.
+ */
+async function settleRollback(entry: RolloutInstance): Promise<RolloutInstance> {
+  const outcome = await checkDeploy(entry);
+  if (outcome === null) {
+    return entry;
+  }
+  if (outcome.healthy) {
+    return updateEntry(entry, "ROLLED_BACK", { error: null });
+  }
+  return updateEntry(entry, outcome.gone ? "SKIPPED" : "ROLLBACK_FAILED", {
+    error: outcome.error,
+  });
+}
+
+/**
+ * Stop a rollout from starting more upgrades and roll back the instances it
+ * upgraded. Instances of later batches are skipped.
+ */
+export async function rollBackRollout(rolloutId: string, reason: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.rollout.update({
+      where: { id: rolloutId },
+      data: { status: "ROLLING_BACK", haltReason: reason },
+    }),
+    prisma.rolloutInstance.updateMany({
+      where: { rolloutId, status: "PENDING" },
+      data: { status: "SKIPPED" },
+    }),
+  ]);
+}
+
+/**
+ * Stop a rollout from starting more upgrades, leaving upgraded instances on
+ * the new version. Upgrades in flight still finish.
+ */
+export async function haltRollout(rolloutId: string, reason: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.rollout.update({
+      where: { id: rolloutId },
+      data: { status: "HALTED", haltReason: reason, completedAt: new Date() },
+    }),
+    prisma.rolloutInstance.updateMany({
+      where: { rolloutId, status: "PENDING" },
+      data: { status: "SKIPPED" },
+    }),
+  ]);
+}
+
+/**
+ * Work through the current batch, then move on to the next one, finish, or
+ * roll back if too many upgrades failed.
+ */
+async function advanceUpgrade(rollout: RolloutWithInstances, log: RolloutLogger): Promise<void> {
+  const entries: RolloutInstance[] = [];
+  for (const entry of rollout.instances) {
+    if (entry.batch !== rollout.currentBatch) {
+      entries.push(entry);
+    } else if (entry.status === "PENDING") {
+      entries.push(await startUpgrade(rollout, entry));
+    } else if (entry.status === "UPGRADING") {
+      entries.push(await settleUpgrade(entry));
+    } else {
+      entries.push(entry);
+    }
+  }
+
+  const batchDone = entries.every(
+    (entry) =>
+      entry.batch !== rollout.currentBatch ||
+      (entry.status !== "PENDING" && entry.status !== "UPGRADING")
+  );
+  if (!batchDone) {
+    return;
+  }
+
+  const failed = entries.filter((entry) => entry.status === "FAILED").length;
+  if (failed > rollout.maxFailures) {
+    const reason = `${String(failed)} instance(s) failed to upgrade to ${rollout.targetVersion}`;
+    log.error(`Rollout ${rollout.id} halted: ${reason}`);
+    await rollBackRollout(rollout.id, reason);
+    return;
+  }
+
+  if (rollout.currentBatch + 1 < getBatchCount(entries)) {
+    log.info(`Rollout ${rollout.id} finished batch ${String(rollout.currentBatch + 1)}`);
+    await prisma.rollout.update({
+      where: { id: rollout.id },
+      data: { currentBatch: rollout.currentBatch + 1 },
+    });
+    return;
+  }
+
+  log.info(`Rollout ${rollout.id} upgraded every instance to ${rollout.targetVersion}`);
+  await prisma.rollout.update({
+    where: { id: rollout.id },
+    data: { status: "COMPLETED", completedAt: new Date() },
+  });
+}
+
+/**
+ * Roll back every upgraded instance, finishing once none is left in flight.
+ */
+async function advanceRollback(rollout: RolloutWithInstances, log: RolloutLogger): Promise<void> {
+  const entries: RolloutInstance[] = [];
+  for (const entry of rollout.instances) {
+    if (UPGRADED_STATUSES.includes(entry.status as RolloutInstanceStatus)) {
+      entries.push(await startRollback(entry));
+    } else if (entry.status === "ROLLING_BACK") {
+      entries.push(await settleRollback(entry));
+    } else {
+      entries.push(entry);
+    }
+  }
+
+  const inFlight = entries.some(
+    (entry) =>
+      entry.status === "ROLLING_BACK" ||
+      UPGRADED_STATUSES.includes(entry.status as RolloutInstanceStatus)
+  );
+  if (inFlight) {
+    return;
+  }
+
+  log.info(`Rollout ${rollout.id} rolled back`);
+  await prisma.rollout.update({
+    where: { id: rollout.id },
+    data: { status: "ROLLED_BACK", completedAt: new Date() },
+  });
+}
+
+/**
+ * A halted rollout only follows the upgrades that were in flight.
+ */
+async function advanceHalted(rollout: RolloutWithInstances): Promise<void> {
+  for (const entry of rollout.instances) {
+    if (entry.status === "UPGRADING") {
+      await settleUpgrade(entry);
+    }
+  }
+}
+
+/**
+ * Take every unfinished rollout one step further.
+ */
+export async function advanceRollouts(log: RolloutLogger): Promise<void> {
+  const rollouts = await prisma.rollout.findMany({
+    where: {
+      OR: [
+        { status: { in: [...ACTIVE_ROLLOUT_STATUSES] } },
+        { status: "HALTED", instances: { some: { status: "UPGRADING" } } },
+      ],
+    },
+    include: { instances: { orderBy: { batch: "asc" } } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  for (const rollout of rollouts) {
+    try {
+      if (rollout.status === "RUNNING") {
+        await advanceUpgrade(rollout, log);
+      } else if (rollout.status === "ROLLING_BACK") {
+        await advanceRollback(rollout, log);
+      } else {
+        await advanceHalted(rollout);
+      }
+    } catch (error: unknown) {
+      log.error(
+        `Rollout ${rollout.id} could not advance: ${getErrorMessage(error, "Unknown error")}`
+      );
+    }
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * Sessions
+ * Every sign-in creates a Session row for the device. Clients get a
+ * short-lived access token (a JWT naming the session in `sid`) and a refresh
+ * token that is rotated on every use. Revoking a session ends both:
+ * app.authenticate checks the session on each request, and its refresh token
+ * stops working.
+ *
+ * A refresh token is "<session id>.<secret>" and only a SHA-256 of the secret
+ * is stored. A token that was already rotated away can only be presented by
+ * someone holding a copy, so the session is revoked when that happens.
+ *
+ * Settings:
+ *   ACCESS_TOKEN_TTL_MINUTES → Lifetime of access tokens (default 15)
+ *   SESSION_TTL_DAYS         → Sessions lapse after this long without a refresh (default 30)
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import type { JWT } from "@fastify/jwt";
+import type { FastifyRequest } from "fastify";
+import { prisma, type Session } from "@fasterclaw/db";
+import type { JobLogger } from "./jobs.js";
+
+const DEFAULT_ACCESS_TOKEN_TTL_MINUTES = 15;
+const DEFAULT_SESSION_TTL_DAYS = 30;
+const DAY_MS = 24 * 60 * 60_000;
+
+/** Where a sign-in or refresh came from, shown in the sessions list. */
+export interface SessionDevice {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+/** What a client holds for a session. */
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  /** Seconds until the access token expires */
+  expiresIn: number;
+}
+
+/**
+ * Device metadata of a request. The web apps call the API from their server
+ * and forward the browser's user agent and address; both are only displayed.
+ */
+export function getSessionDevice(request: FastifyRequest): SessionDevice {
+  const forwardedFor = request.headers["x-forwarded-for"];
+  const forwarded = (Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor)
+    ?.split(",")[0]
+    ?.trim();
+  return {
+    userAgent: request.headers["user-agent"] ?? null,
+    ipAddress: forwarded !== undefined && forwarded !== "" ? forwarded : request.ip,
+  };
+}
+
+function readPositive(value: string | undefined, fallback: number): number {
+  const parsed = Number(value ?? String(fallback));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Seconds an access token is valid for.
+ */
+export function getAccessTokenTtlSeconds(): number {
+  return Math.round(
+    readPositive(process.env.ACCESS_TOKEN_TTL_MINUTES, DEFAULT_ACCESS_TOKEN_TTL_MINUTES) * 60
+  );
+}
+
+/**
+ * When a session used now lapses unless it is refreshed again.
+ */
+function getSessionExpiry(now = new Date()): Date {
+  const days = readPositive(process.env.SESSION_TTL_DAYS, DEFAULT_SESSION_TTL_DAYS);
+  return new Date(now.getTime() + days * DAY_MS);
+}
+
+function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+function newSecret(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+function toDeviceData(device: SessionDevice) {
+  return {
+    userAgent: device.userAgent?.slice(0, 512) ?? null,
+    ipAddress: device.ipAddress ?? null,
+  };
+}
+
+function signAccessToken(
+  jwt: JWT,
+  user: { id: string; email: string; name: string | null },
+  sessionId: string
+): string {
+  return jwt.sign(
+    { sub: user.id, email: user.email, name: user.name, sid: sessionId },
+    { expiresIn: getAccessTokenTtlSeconds() }
+  );
+}
+
+/**
+ * Sign a user in on a new device.
+ */
+export async function startSession(
+  jwt: JWT,
+  user: { id: string; email: string; name: string | null },
+  device: SessionDevice
+): Promise<SessionTokens> {
+  const secret = newSecret();
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      refreshTokenHash: hashSecret(secret),
+      expiresAt: getSessionExpiry(),
+      ...toDeviceData(device),
+    },
+  });
+  return {
+    accessToken: signAccessToken(jwt, user, session.id),
+    refreshToken: `${session.id}.${secret}`,
+    expiresIn: getAccessTokenTtlSeconds(),
+  };
+}
+
+/**
+ * Exchange a refresh token for new tokens. Returns null when the token is not
+ * valid (unknown, revoked, expired or already used).
+ */
+export async function refreshSession(
+  jwt: JWT,
+  refreshToken: string,
+  device: SessionDevice
+): Promise<SessionTokens | null> {
+  const separator = refreshToken.indexOf(".");
+  if (separator <= 0) {
+    return null;
+  }
+  const sessionId = refreshToken.slice(0, separator);
+  const presented = Buffer.from(hashSecret(refreshToken.slice(separator + 1)));
+
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    include: { user: { select: { id: true, email: true, name: true } } },
+  });
+  if (session?.revokedAt !== null || session.expiresAt <= new Date()) {
+    return null;
+  }
+
+  const stored = Buffer.from(session.refreshTokenHash);
+  if (stored.length !== presented.length || !timingSafeEqual(stored, presented)) {
+    // A rotated token came back: someone else has a copy of it
+    await revokeSessions({ id: session.id });
+    return null;
+  }
+
+  const secret = newSecret();
+  const now = new Date();
+  // Only succeeds for the first of two concurrent refreshes with the same token
+  const { count } = await prisma.session.updateMany({
+    where: { id: session.id, refreshTokenHash: session.refreshTokenHash, revokedAt: null },
+    data: {
+      refreshTokenHash: hashSecret(secret),
+      lastUsedAt: now,
+      expiresAt: getSessionExpiry(now),
+      ...toDeviceData(device),
+    },
+  });
+  if (count === 0) {
+    return null;
+  }
+
+  return {
+    accessToken: signAccessToken(jwt, session.user, session.id),
+    refreshToken: `${session.id}.${secret}`,
+    expiresIn: getAccessTokenTtlSeconds(),
+  };
+}
+
+/**
+ * Whether an access token's session may still be used.
+ */
+export async function isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, revokedAt: true, expiresAt: true },
+  });
+  return (
+    session !== null &&
+    session.userId === userId &&
+    session.revokedAt === null &&
+    session.expiresAt > new Date()
+  );
+}
+
+/**
+ * A user's signed-in devices, most recently used first.
+ */
+export async function listSessions(userId: string): Promise<Session[]> {
+  return prisma.session.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { lastUsedAt: "desc" },
+  });
+}
+
+/**
+ * Revoke the active sessions matching a filter. Returns how many were revoked.
+ */
+export async function revokeSessions(where: {
+  id?: string;
+  userId?: string;
+  /** Leave this session signed in */
+  exceptId?: string;
+}): Promise<number> {
+  const { count } = await prisma.session.updateMany({
+    where: {
+      id: where.exceptId !== undefined ? { equals: where.id, not: where.exceptId } : where.id,
+      userId: where.userId,
+      revokedAt: null,
+    },
+    data: { revokedAt: new Date() },
+  });
+  return count;
+}
+
+/**
+ * Delete sessions that lapsed or were revoked more than a session lifetime ago.
+ */
+export async function purgeExpiredSessions(log?: JobLogger): Promise<number> {
+  const days = readPositive(process.env.SESSION_TTL_DAYS, DEFAULT_SESSION_TTL_DAYS);
+  const cutoff = new Date(Date.now() - days * DAY_MS);
+  const { count } = await prisma.session.deleteMany({
+    where: { OR: [{ expiresAt: { lte: cutoff } }, { revokedAt: { lte: cutoff } }] },
+  });
+  if (count > 0) {
+    log?.info(`Purged ${String(count)} expired sessions`);
+  }
+  return count;
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\//, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone/, "iPhone"],
+  [/iPad/, "iPad"],
+  [/Android/, "Android"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/Windows/, "Windows"],
+  [/Linux/, "Linux"],
+];
+
+/**
+ * A readable name for the device behind a user agent, e.g. "Chrome on macOS".
+ */
+export function describeDevice(userAgent: string | null): string {
+  if (userAgent === null || userAgent === "") {
+    return "Unknown device";
+  }
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser !== undefined && platform !== undefined) {
+    return `${browser} on ${platform}`;
+  }
+  return browser ?? platform ?? userAgent.split(" ")[0];
+}
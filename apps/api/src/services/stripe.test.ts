@@ -15,7 +15,7 @@ const mockWebhooksConstructEvent = vi.fn();
 
 vi.mock("@fasterclaw/db", () => ({
   prisma: {
-    user: {
+    organization: {
       findUnique: vi.fn(),
       update: vi.fn(),
     },
@@ -91,7 +91,7 @@ describe("Stripe Service", () => {
   });
 
   describe("getOrCreateStripeCustomer", () => {
-    const mockUserId = "user_123";
+    const mockOrganizationId = "org_123";
     const mockEmail = "test@example.com";
     const mockName = "Test User";
     const mockStripeCustomerId = "cus_test123";
@@ -100,9 +100,9 @@ describe("Stripe Service", () => {
       vi.clearAllMocks();
     });
 
-    it("should return existing Stripe customer ID if user has one", async () => {
-      vi.mocked(prisma.user.findUnique).mockResolvedValue({
-        id: mockUserId,
+    it("should return existing Stripe customer ID if the organization has one", async () => {
+      vi.mocked(prisma.organization.findUnique).mockResolvedValue({
+        id: mockOrganizationId,
         email: mockEmail,
         stripeCustomerId: mockStripeCustomerId,
         name: mockName,
@@ -114,21 +114,21 @@ describe("Stripe Service", () => {
         updatedAt: new Date(),
       } as any);
 
-      const result = await getOrCreateStripeCustomer(mockUserId, mockEmail, mockName);
+      const result = await getOrCreateStripeCustomer(mockOrganizationId, mockEmail, mockName);
 
       expect(result).toBe(mockStripeCustomerId);
-      expect(prisma.user.findUnique).toHaveBeenCalledWith({
-        where: { id: mockUserId },
+      expect(prisma.organization.findUnique).toHaveBeenCalledWith({
+        where: { id: mockOrganizationId },
         select: { stripeCustomerId: true },
       });
-      expect(prisma.user.update).not.toHaveBeenCalled();
+      expect(prisma.organization.update).not.toHaveBeenCalled();
     });
 
-    it("should create new Stripe customer if user has no customer ID", async () => {
+    it("should create new Stripe customer if the organization has no customer ID", async () => {
       mockCustomersCreate.mockResolvedValue({ id: mockStripeCustomerId });
 
-      vi.mocked(prisma.user.findUnique).mockResolvedValue({
-        id: mockUserId,
+      vi.mocked(prisma.organization.findUnique).mockResolvedValue({
+        id: mockOrganizationId,
         email: mockEmail,
         stripeCustomerId: null,
         name: mockName,
@@ -140,8 +140,8 @@ describe("Stripe Service", () => {
         updatedAt: new Date(),
       } as any);
 
-      vi.mocked(prisma.user.update).mockResolvedValue({
-        id: mockUserId,
+      vi.mocked(prisma.organization.update).mockResolvedValue({
+        id: mockOrganizationId,
         email: mockEmail,
         stripeCustomerId: mockStripeCustomerId,
         name: mockName,
@@ -153,18 +153,18 @@ describe("Stripe Service", () => {
         updatedAt: new Date(),
       } as any);
 
-      const result = await getOrCreateStripeCustomer(mockUserId, mockEmail, mockName);
+      const result = await getOrCreateStripeCustomer(mockOrganizationId, mockEmail, mockName);
 
       expect(result).toBe(mockStripeCustomerId);
       expect(mockCustomersCreate).toHaveBeenCalledWith({
         email: mockEmail,
         name: mockName,
         metadata: {
-          userId: mockUserId,
+          organizationId: mockOrganizationId,
         },
       });
-      expect(prisma.user.update).toHaveBeenCalledWith({
-        where: { id: mockUserId },
+      expect(prisma.organization.update).toHaveBeenCalledWith({
+        where: { id: mockOrganizationId },
         data: { stripeCustomerId: mockStripeCustomerId },
       });
     });
@@ -172,8 +172,8 @@ describe("Stripe Service", () => {
     it("should create customer without name if not provided", async () => {
       mockCustomersCreate.mockResolvedValue({ id: mockStripeCustomerId });
 
-      vi.mocked(prisma.user.findUnique).mockResolvedValue({
-        id: mockUserId,
+      vi.mocked(prisma.organization.findUnique).mockResolvedValue({
+        id: mockOrganizationId,
         email: mockEmail,
         stripeCustomerId: null,
         name: null,
@@ -185,8 +185,8 @@ describe("Stripe Service", () => {
         updatedAt: new Date(),
       } as any);
 
-      vi.mocked(prisma.user.update).mockResolvedValue({
-        id: mockUserId,
+      vi.mocked(prisma.organization.update).mockResolvedValue({
+        id: mockOrganizationId,
         email: mockEmail,
         stripeCustomerId: mockStripeCustomerId,
         name: null,
@@ -198,14 +198,14 @@ describe("Stripe Service", () => {
         updatedAt: new Date(),
       } as any);
 
-      const result = await getOrCreateStripeCustomer(mockUserId, mockEmail);
+      const result = await getOrCreateStripeCustomer(mockOrganizationId, mockEmail);
 
       expect(result).toBe(mockStripeCustomerId);
       expect(mockCustomersCreate).toHaveBeenCalledWith({
         email: mockEmail,
         name: undefined,
         metadata: {
-          userId: mockUserId,
+          organizationId: mockOrganizationId,
         },
       });
     });
@@ -213,8 +213,8 @@ describe("Stripe Service", () => {
     it("should create customer if stripeCustomerId is empty string", async () => {
       mockCustomersCreate.mockResolvedValue({ id: mockStripeCustomerId });
 
-      vi.mocked(prisma.user.findUnique).mockResolvedValue({
-        id: mockUserId,
+      vi.mocked(prisma.organization.findUnique).mockResolvedValue({
+        id: mockOrganizationId,
         email: mockEmail,
         stripeCustomerId: "",
         name: mockName,
@@ -226,8 +226,8 @@ describe("Stripe Service", () => {
         updatedAt: new Date(),
       } as any);
 
-      vi.mocked(prisma.user.update).mockResolvedValue({
-        id: mockUserId,
+      vi.mocked(prisma.organization.update).mockResolvedValue({
+        id: mockOrganizationId,
         email: mockEmail,
         stripeCustomerId: mockStripeCustomerId,
         name: mockName,
@@ -239,7 +239,7 @@ describe("Stripe Service", () => {
         updatedAt: new Date(),
       } as any);
 
-      const result = await getOrCreateStripeCustomer(mockUserId, mockEmail, mockName);
+      const result = await getOrCreateStripeCustomer(mockOrganizationId, mockEmail, mockName);
 
       expect(result).toBe(mockStripeCustomerId);
       expect(mockCustomersCreate).toHaveBeenCalled();
@@ -249,7 +249,9 @@ describe("Stripe Service", () => {
       const originalKey = process.env.STRIPE_SECRET_KEY;
       delete process.env.STRIPE_SECRET_KEY;
 
-      await expect(getOrCreateStripeCustomer(mockUserId, mockEmail, mockName)).rejects.toThrow(
+      await expect(
+        getOrCreateStripeCustomer(mockOrganizationId, mockEmail, mockName)
+      ).rejects.toThrow(
         "STRIPE_SECRET_KEY environment variable is required for billing operations"
       );
 
@@ -260,7 +262,9 @@ describe("Stripe Service", () => {
       const originalKey = process.env.STRIPE_SECRET_KEY;
       process.env.STRIPE_SECRET_KEY = "";
 
-      await expect(getOrCreateStripeCustomer(mockUserId, mockEmail, mockName)).rejects.toThrow(
+      await expect(
+        getOrCreateStripeCustomer(mockOrganizationId, mockEmail, mockName)
+      ).rejects.toThrow(
         "STRIPE_SECRET_KEY environment variable is required for billing operations"
       );
 
@@ -271,8 +275,8 @@ describe("Stripe Service", () => {
       const mockError = new Error("Stripe API error");
       mockCustomersCreate.mockRejectedValue(mockError);
 
-      vi.mocked(prisma.user.findUnique).mockResolvedValue({
-        id: mockUserId,
+      vi.mocked(prisma.organization.findUnique).mockResolvedValue({
+        id: mockOrganizationId,
         email: mockEmail,
         stripeCustomerId: null,
         name: mockName,
@@ -284,25 +288,25 @@ describe("Stripe Service", () => {
         updatedAt: new Date(),
       } as any);
 
-      await expect(getOrCreateStripeCustomer(mockUserId, mockEmail, mockName)).rejects.toThrow(
-        "Stripe API error"
-      );
+      await expect(
+        getOrCreateStripeCustomer(mockOrganizationId, mockEmail, mockName)
+      ).rejects.toThrow("Stripe API error");
     });
 
-    it("should handle database errors when finding user", async () => {
+    it("should handle database errors when finding the organization", async () => {
       const mockError = new Error("Database error");
-      vi.mocked(prisma.user.findUnique).mockRejectedValue(mockError);
+      vi.mocked(prisma.organization.findUnique).mockRejectedValue(mockError);
 
-      await expect(getOrCreateStripeCustomer(mockUserId, mockEmail, mockName)).rejects.toThrow(
-        "Database error"
-      );
+      await expect(
+        getOrCreateStripeCustomer(mockOrganizationId, mockEmail, mockName)
+      ).rejects.toThrow("Database error");
     });
 
-    it("should handle database errors when updating user", async () => {
+    it("should handle database errors when updating the organization", async () => {
       mockCustomersCreate.mockResolvedValue({ id: mockStripeCustomerId });
 
-      vi.mocked(prisma.user.findUnique).mockResolvedValue({
-        id: mockUserId,
+      vi.mocked(prisma.organization.findUnique).mockResolvedValue({
+        id: mockOrganizationId,
         email: mockEmail,
         stripeCustomerId: null,
         name: mockName,
@@ -315,11 +319,11 @@ describe("Stripe Service", () => {
       } as any);
 
       const mockError = new Error("Database update error");
-      vi.mocked(prisma.user.update).mockRejectedValue(mockError);
+      vi.mocked(prisma.organization.update).mockRejectedValue(mockError);
 
-      await expect(getOrCreateStripeCustomer(mockUserId, mockEmail, mockName)).rejects.toThrow(
-        "Database update error"
-      );
+      await expect(
+        getOrCreateStripeCustomer(mockOrganizationId, mockEmail, mockName)
+      ).rejects.toThrow("Database update error");
     });
   });
 
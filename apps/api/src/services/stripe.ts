@@ -1,5 +1,7 @@
 import Stripe from "stripe";
 import { prisma } from "@fasterclaw/db";
+import type { PlanEntitlements } from "@fasterclaw/shared";
+import { PLAN_ENTITLEMENTS } from "./entitlements.js";
 
 /**
  * Stripe Service
@@ -13,68 +15,100 @@ export interface PlanConfig {
   name: string;
   priceId: string;
   price: number;
+  /** Price for users who bring their own AI keys (and so don't use ours) */
+  byoKeyPriceId: string;
+  byoKeyPrice: number;
   instanceLimit: number;
   features: string[];
+  entitlements: PlanEntitlements;
 }
 
 export const PLANS: Record<PlanType, PlanConfig> = {
   starter: {
     name: "Starter",
     priceId: process.env.STRIPE_PRICE_ID_STARTER ?? "",
+    byoKeyPriceId: process.env.STRIPE_PRICE_ID_STARTER_BYO_KEY ?? "",
+    byoKeyPrice: 29,
     price: 39,
-    instanceLimit: 2,
+    instanceLimit: PLAN_ENTITLEMENTS.starter.maxInstances,
     features: [
       "Up to 100K requests/month",
       "2 Claude instances",
+      "Sonnet, Haiku, GPT-4o and Gemini Flash models",
+      "3 regions (US East, US West, London)",
+      "1-day log retention",
+      "1 GB of persistent storage per instance",
       "Basic analytics",
       "Email support",
     ],
+    entitlements: PLAN_ENTITLEMENTS.starter,
   },
   pro: {
     name: "Pro",
     priceId: process.env.STRIPE_PRICE_ID_PRO ?? "",
+    byoKeyPriceId: process.env.STRIPE_PRICE_ID_PRO_BYO_KEY ?? "",
+    byoKeyPrice: 59,
     price: 79,
-    instanceLimit: 10,
+    instanceLimit: PLAN_ENTITLEMENTS.pro.maxInstances,
     features: [
       "Up to 1M requests/month",
       "10 Claude instances",
+      "All models and regions",
+      "7-day log retention",
+      "5 GB of persistent storage per instance",
       "Advanced analytics",
       "Priority support",
       "Team collaboration",
     ],
+    entitlements: PLAN_ENTITLEMENTS.pro,
   },
   enterprise: {
     name: "Enterprise",
     priceId: process.env.STRIPE_PRICE_ID_ENTERPRISE ?? "",
+    byoKeyPriceId: process.env.STRIPE_PRICE_ID_ENTERPRISE_BYO_KEY ?? "",
+    byoKeyPrice: 119,
     price: 149,
-    instanceLimit: -1, // unlimited
+    instanceLimit: PLAN_ENTITLEMENTS.enterprise.maxInstances,
     features: [
       "Unlimited requests",
       "Unlimited instances",
+      "All models and regions",
+      "30-day log retention",
+      "20 GB of persistent storage per instance",
+      "Custom images",
       "Custom analytics",
       "24/7 dedicated support",
       "SLA guarantee",
     ],
+    entitlements: PLAN_ENTITLEMENTS.enterprise,
   },
 };
 
 /**
- * Get plan type from Stripe price ID
+ * Get plan type from Stripe price ID (regular or bring-your-own-key price)
  */
 export function getPlanFromPriceId(priceId: string): PlanType | null {
   for (const [planType, config] of Object.entries(PLANS)) {
-    if (config.priceId === priceId) {
+    if (config.priceId === priceId || (priceId !== "" && config.byoKeyPriceId === priceId)) {
       return planType as PlanType;
     }
   }
   return null;
 }
 
+/**
+ * Check whether a Stripe price ID is one of the bring-your-own-key prices
+ */
+export function isByoKeyPriceId(priceId: string): boolean {
+  // Unconfigured BYO prices are empty strings and must not match
+  return priceId !== "" && Object.values(PLANS).some((config) => config.byoKeyPriceId === priceId);
+}
+
 /**
  * Get price ID for a plan type
  */
-export function getPriceIdForPlan(plan: PlanType): string {
-  return PLANS[plan].priceId;
+export function getPriceIdForPlan(plan: PlanType, byoKey = false): string {
+  return byoKey ? PLANS[plan].byoKeyPriceId : PLANS[plan].priceId;
 }
 
 let stripeInstance: Stripe | null = null;
@@ -115,10 +149,10 @@ export const stripe = new Proxy({} as Stripe, {
 });
 
 /**
- * Get or create Stripe customer for a user
+ * Get or create the Stripe customer an organization is billed as
  */
 export async function getOrCreateStripeCustomer(
-  userId: string,
+  organizationId: string,
   email: string,
   name?: string
 ): Promise<string> {
@@ -127,17 +161,17 @@ export async function getOrCreateStripeCustomer(
     throw new Error("STRIPE_SECRET_KEY environment variable is required for billing operations");
   }
 
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
     select: { stripeCustomerId: true },
   });
 
   if (
-    user?.stripeCustomerId !== null &&
-    user?.stripeCustomerId !== undefined &&
-    user.stripeCustomerId !== ""
+    organization?.stripeCustomerId !== null &&
+    organization?.stripeCustomerId !== undefined &&
+    organization.stripeCustomerId !== ""
   ) {
-    return user.stripeCustomerId;
+    return organization.stripeCustomerId;
   }
 
   // Create new Stripe customer
@@ -145,13 +179,13 @@ export async function getOrCreateStripeCustomer(
     email,
     name: name ?? undefined,
     metadata: {
-      userId,
+      organizationId,
     },
   });
 
-  // Update user with Stripe customer ID
-  await prisma.user.update({
-    where: { id: userId },
+  // Update organization with Stripe customer ID
+  await prisma.organization.update({
+    where: { id: organizationId },
     data: { stripeCustomerId: customer.id },
   });
 
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import {
+  decodeBase32,
+  encodeBase32,
+  generateTotp,
+  generateTotpSecret,
+  getOtpauthUri,
+  getTimeStep,
+  verifyTotp,
+} from "./totp.js";
+
+// The SHA-1 seed of the RFC 6238 test vectors, "12345678901234567890"
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("TOTP", () => {
+  it("should round-trip base32", () => {
+    const bytes = Buffer.from("12345678901234567890");
+
+    expect(encodeBase32(bytes)).toBe(RFC_SECRET);
+    expect(decodeBase32(RFC_SECRET)).toEqual(bytes);
+    expect(decodeBase32("gezd gnbv")).toEqual(decodeBase32("GEZDGNBV"));
+  });
+
+  it("should generate the RFC 6238 codes", () => {
+    // The RFC lists 8 digits; authenticator apps show the last 6
+    expect(generateTotp(RFC_SECRET, getTimeStep(59_000))).toBe("287082");
+    expect(generateTotp(RFC_SECRET, getTimeStep(1_111_111_109_000))).toBe("081804");
+    expect(generateTotp(RFC_SECRET, getTimeStep(1_234_567_890_000))).toBe("005924");
+  });
+
+  it("should accept codes from adjacent steps only", () => {
+    const now = 1_234_567_890_000;
+    const step = getTimeStep(now);
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step), null, now)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), null, now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 2), null, now)).toBeNull();
+  });
+
+  it("should reject a code from a step that was already used", () => {
+    const now = 1_234_567_890_000;
+    const step = getTimeStep(now);
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step), step, now)).toBeNull();
+  });
+
+  it("should reject malformed codes", () => {
+    expect(verifyTotp(RFC_SECRET, "12345")).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "abcdef")).toBeNull();
+  });
+
+  it("should generate distinct 32-character secrets", () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+
+  it("should build an otpauth URI", () => {
+    const uri = new URL(getOtpauthUri(RFC_SECRET, "test@example.com"));
+
+    expect(uri.protocol).toBe("otpauth:");
+    expect(uri.host).toBe("totp");
+    expect(decodeURIComponent(uri.pathname)).toBe("/FasterClaw:test@example.com");
+    expect(uri.searchParams.get("secret")).toBe(RFC_SECRET);
+    expect(uri.searchParams.get("issuer")).toBe("FasterClaw");
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@fasterclaw/db", () => ({
+  prisma: {
+    user: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    membership: {
+      count: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from "@fasterclaw/db";
+import {
+  MAX_FAILED_ATTEMPTS,
+  checkTwoFactorCode,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  isTwoFactorRequired,
+  isTwoFactorSetupPending,
+} from "./two-factor.js";
+import { generateTotp, generateTotpSecret, getTimeStep } from "./totp.js";
+
+describe("Two-Factor Authentication", () => {
+  const userId = "cjld2cyuq0000t3rmniod1foy";
+  const secret = generateTotpSecret();
+  const { codes, hashes } = generateRecoveryCodes();
+  const enrolled = {
+    twoFactorSecret: secret,
+    twoFactorEnabledAt: new Date(),
+    twoFactorLastStep: null,
+    twoFactorRecoveryCodes: hashes,
+    twoFactorLockedUntil: null,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.user.findUnique).mockResolvedValue(enrolled as any);
+    vi.mocked(prisma.user.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(prisma.user.update).mockResolvedValue({ twoFactorFailedAttempts: 1 } as any);
+    vi.mocked(prisma.membership.count).mockResolvedValue(0);
+  });
+
+  describe("isTwoFactorRequired", () => {
+    it("should require two-factor in organizations that ask for it", async () => {
+      vi.mocked(prisma.membership.count).mockResolvedValue(1);
+
+      expect(await isTwoFactorRequired(userId)).toBe(true);
+      expect(prisma.membership.count).toHaveBeenCalledWith({
+        where: { userId, organization: { requireTwoFactor: true } },
+      });
+    });
+
+    it("should not require two-factor by default", async () => {
+      expect(await isTwoFactorRequired(userId)).toBe(false);
+    });
+  });
+
+  describe("isTwoFactorSetupPending", () => {
+    it("should only look up users whose organization requires two-factor", async () => {
+      expect(await isTwoFactorSetupPending(userId)).toBe(false);
+      expect(prisma.user.findUnique).not.toHaveBeenCalled();
+    });
+
+    it("should be pending until two-factor is on", async () => {
+      vi.mocked(prisma.membership.count).mockResolvedValue(1);
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ twoFactorEnabledAt: null } as any);
+
+      expect(await isTwoFactorSetupPending(userId)).toBe(true);
+    });
+  });
+
+  describe("generateRecoveryCodes", () => {
+    it("should generate ten distinct codes and their hashes", () => {
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes).size).toBe(10);
+      expect(codes[0]).toMatch(/^[a-z2-7]{5}-[a-z2-7]{5}$/);
+      expect(hashes[0]).toBe(hashRecoveryCode(codes[0]));
+    });
+
+    it("should hash codes regardless of case and separators", () => {
+      expect(hashRecoveryCode(codes[0].toUpperCase().replace("-", " "))).toBe(hashes[0]);
+    });
+  });
+
+  describe("checkTwoFactorCode", () => {
+    it("should accept the current code and remember its step", async () => {
+      const step = getTimeStep();
+
+      expect(await checkTwoFactorCode(userId, generateTotp(secret, step))).toBe("valid");
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: userId,
+          OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+        },
+        data: { twoFactorLastStep: step, twoFactorFailedAttempts: 0, twoFactorLockedUntil: null },
+      });
+    });
+
+    it("should reject a code that was already used", async () => {
+      const step = getTimeStep();
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        ...enrolled,
+        twoFactorLastStep: step,
+      } as any);
+
+      expect(await checkTwoFactorCode(userId, generateTotp(secret, step))).toBe("invalid");
+    });
+
+    it("should use up a recovery code", async () => {
+      expect(await checkTwoFactorCode(userId, codes[3])).toBe("valid");
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: { id: userId, twoFactorRecoveryCodes: { has: hashes[3] } },
+        data: expect.objectContaining({
+          twoFactorRecoveryCodes: hashes.filter((hash) => hash !== hashes[3]),
+        }),
+      });
+    });
+
+    it("should count wrong codes and lock after too many", async () => {
+      expect(await checkTwoFactorCode(userId, "nope")).toBe("invalid");
+      expect(prisma.user.update).toHaveBeenCalledTimes(1);
+
+      vi.mocked(prisma.user.update).mockResolvedValue({
+        twoFactorFailedAttempts: MAX_FAILED_ATTEMPTS,
+      } as any);
+      expect(await checkTwoFactorCode(userId, "nope")).toBe("invalid");
+      expect(prisma.user.update).toHaveBeenLastCalledWith({
+        where: { id: userId },
+        data: { twoFactorFailedAttempts: 0, twoFactorLockedUntil: expect.any(Date) },
+      });
+    });
+
+    it("should refuse every code while locked", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        ...enrolled,
+        twoFactorLockedUntil: new Date(Date.now() + 60_000),
+      } as any);
+
+      expect(await checkTwoFactorCode(userId, generateTotp(secret, getTimeStep()))).toBe("locked");
+      expect(prisma.user.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should reject codes for users without two-factor", async () => {
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        ...enrolled,
+        twoFactorEnabledAt: null,
+      } as any);
+
+      expect(await checkTwoFactorCode(userId, generateTotp(secret, getTimeStep()))).toBe("invalid");
+    });
+  });
+});
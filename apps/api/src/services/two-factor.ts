@@ -0,0 +1,159 @@
+/**
+ * Two-Factor Authentication
+ * Optional TOTP second factor for signing in. The secret is encrypted at rest
+ * by the @fasterclaw/db encryption extension; recovery codes are random, so
+ * they are stored as plain SHA-256 hashes and removed once used.
+ *
+ * With two-factor on, POST /auth/login answers with a challenge token instead
+ * of a session (see account-tokens.ts) and the session is started once a code
+ * is sent to POST /auth/login/two-factor. Wrong codes are counted; reaching the
+ * limit locks two-factor sign-in for a while, which keeps guessing slow.
+ *
+ * Owners can make their organization require two-factor. Its members can
+ * then only use the /auth routes until they turn it on (enforced by
+ * app.authenticate), and cannot turn it off while they belong to it.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { prisma } from "@fasterclaw/db";
+import { createAccountToken, getAccountTokenTtlSeconds } from "./account-tokens.js";
+import type { AccountTokenUser } from "./account-tokens.js";
+import { verifyTotp } from "./totp.js";
+
+export const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60_000;
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+/** The outcome of checking a code at sign-in or before changing the settings. */
+export type TwoFactorCheck = "valid" | "invalid" | "locked";
+
+/**
+ * Whether an organization the user belongs to requires two-factor authentication.
+ */
+export async function isTwoFactorRequired(userId: string): Promise<boolean> {
+  const count = await prisma.membership.count({
+    where: { userId, organization: { requireTwoFactor: true } },
+  });
+  return count > 0;
+}
+
+/**
+ * Whether a user is required to turn two-factor on and has not yet.
+ */
+export async function isTwoFactorSetupPending(userId: string): Promise<boolean> {
+  if (!(await isTwoFactorRequired(userId))) {
+    return false;
+  }
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { twoFactorEnabledAt: true },
+  });
+  return user?.twoFactorEnabledAt === null;
+}
+
+/**
+ * What POST /auth/login returns for an account with two-factor on.
+ */
+export function createTwoFactorChallenge(user: AccountTokenUser) {
+  return {
+    twoFactorRequired: true as const,
+    challengeToken: createAccountToken("two-factor-login", user),
+    expiresIn: getAccountTokenTtlSeconds("two-factor-login"),
+  };
+}
+
+/**
+ * Recovery codes are compared without case or separators.
+ */
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+/**
+ * A fresh set of recovery codes like "k3m9q-x2p7w", with the hashes to store.
+ */
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const chars = Array.from(
+      randomBytes(10),
+      (byte) => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]
+    ).join("");
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+async function recordFailedAttempt(userId: string): Promise<void> {
+  const { twoFactorFailedAttempts } = await prisma.user.update({
+    where: { id: userId },
+    data: { twoFactorFailedAttempts: { increment: 1 } },
+    select: { twoFactorFailedAttempts: true },
+  });
+  if (twoFactorFailedAttempts >= MAX_FAILED_ATTEMPTS) {
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorFailedAttempts: 0,
+        twoFactorLockedUntil: new Date(Date.now() + LOCKOUT_MS),
+      },
+    });
+  }
+}
+
+/**
+ * Check a code from the authenticator app or a recovery code against a user
+ * with two-factor on. A valid code is used up.
+ */
+export async function checkTwoFactorCode(userId: string, code: string): Promise<TwoFactorCheck> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      twoFactorSecret: true,
+      twoFactorEnabledAt: true,
+      twoFactorLastStep: true,
+      twoFactorRecoveryCodes: true,
+      twoFactorLockedUntil: true,
+    },
+  });
+  if (user?.twoFactorSecret == null || user.twoFactorEnabledAt === null) {
+    return "invalid";
+  }
+  if (user.twoFactorLockedUntil !== null && user.twoFactorLockedUntil > new Date()) {
+    return "locked";
+  }
+
+  const reset = { twoFactorFailedAttempts: 0, twoFactorLockedUntil: null };
+  const step = verifyTotp(user.twoFactorSecret, code, user.twoFactorLastStep);
+  if (step !== null) {
+    // Only the first of two requests with the same code gets through
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+      },
+      data: { twoFactorLastStep: step, ...reset },
+    });
+    if (count > 0) {
+      return "valid";
+    }
+  } else {
+    const hash = hashRecoveryCode(code);
+    if (user.twoFactorRecoveryCodes.includes(hash)) {
+      const { count } = await prisma.user.updateMany({
+        where: { id: userId, twoFactorRecoveryCodes: { has: hash } },
+        data: {
+          twoFactorRecoveryCodes: user.twoFactorRecoveryCodes.filter((stored) => stored !== hash),
+          ...reset,
+        },
+      });
+      if (count > 0) {
+        return "valid";
+      }
+    }
+  }
+
+  await recordFailedAttempt(userId);
+  return "invalid";
+}
@@ -1,8 +1,27 @@
 import "@fastify/jwt";
+import type { AccessTokenScope, OrganizationRole } from "@fasterclaw/shared";
 
 declare module "fastify" {
   interface FastifyInstance {
     authenticate: (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+    requireAdmin: (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+    authorize: (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+  }
+
+  interface FastifyRequest {
+    /** The organization the request acts on; set by app.authorize */
+    organization: {
+      id: string;
+      name: string;
+      role: OrganizationRole;
+    };
+  }
+
+  interface FastifyContextConfig {
+    /** Lets personal access tokens with this scope call the route */
+    scope?: AccessTokenScope;
+    /** The least role app.authorize lets through */
+    role?: OrganizationRole;
   }
 }
 
@@ -12,11 +31,18 @@ declare module "@fastify/jwt" {
       sub: string;
       email: string;
       name: string | null;
+      /** Session the access token belongs to */
+      sid?: string;
     };
     user: {
       id: string;
       email: string;
       name: string | null;
+      sessionId?: string;
+      /** Set for requests made with a personal access token */
+      tokenId?: string;
+      /** What the access token may do; undefined for sessions, which may do anything */
+      scopes?: AccessTokenScope[];
     };
   }
 }
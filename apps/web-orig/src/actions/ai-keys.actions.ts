@@ -0,0 +1,87 @@
+"use server";
+
+import {
+  getAiKeys as getAiKeysApi,
+  putAiKeysByProvider,
+  deleteAiKeysByProvider,
+  type AiKey,
+  type AiKeyProvider,
+} from "@fasterclaw/api-client";
+import { createAuthenticatedClient } from "@/lib/api-client";
+
+// NOTE: Types are NOT re-exported from Server Actions files.
+// Import types directly from @fasterclaw/api-client instead.
+
+/**
+ * Result type for actions that may fail.
+ */
+type ActionResult<T> = { success: true; data: T } | { success: false; error: string };
+
+function getErrorMessage(error: unknown): string {
+  if (error !== null && typeof error === "object" && "error" in error) {
+    return String((error as { error: unknown }).error);
+  }
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return "An unexpected error occurred";
+}
+
+export async function getAiKeys(): Promise<AiKey[]> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await getAiKeysApi({ client });
+
+    if (error !== undefined) {
+      console.error("Get AI keys error:", error);
+      return [];
+    }
+
+    return data;
+  } catch (error) {
+    console.error("Get AI keys error:", error);
+    return [];
+  }
+}
+
+export async function saveAiKey(
+  provider: AiKeyProvider,
+  apiKey: string
+): Promise<ActionResult<AiKey>> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await putAiKeysByProvider({
+      client,
+      path: { provider },
+      body: { apiKey },
+    });
+
+    if (error !== undefined) {
+      return { success: false, error: getErrorMessage(error) };
+    }
+
+    return { success: true, data };
+  } catch (error) {
+    console.error("Save AI key error:", error);
+    return { success: false, error: getErrorMessage(error) };
+  }
+}
+
+export async function deleteAiKey(provider: AiKeyProvider): Promise<ActionResult<void>> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { error } = await deleteAiKeysByProvider({
+      client,
+      path: { provider },
+    });
+
+    if (error !== undefined) {
+      return { success: false, error: getErrorMessage(error) };
+    }
+
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Delete AI key error:", error);
+    return { success: false, error: getErrorMessage(error) };
+  }
+}
@@ -1,26 +1,38 @@
 "use server";
 
-import { cookies } from "next/headers";
+import { cookies, headers } from "next/headers";
 import {
   postAuthLogin,
+  postAuthLoginTwoFactor,
   postAuthRegister,
   getAuthMe,
   patchAuthProfile,
   patchAuthPassword,
   deleteAuthAccount,
+  postAuthLogout,
+  getAuthSessions,
+  deleteAuthSessions,
+  deleteAuthSessionsById,
+  type Session,
+  getAuthAccountDeletion,
+  postAuthAccountRestore,
+  type AccountDeletionStatus,
   type User,
 } from "@fasterclaw/api-client";
 import { createAuthenticatedClient, getApiClient } from "@/lib/api-client";
+import { clearSessionCookies, getDeviceHeaders, setSessionCookies } from "@/lib/session";
 
 export interface AuthResponse {
   success: boolean;
   error?: string;
   user?: User;
+  // Set instead of user when the account asks for a two-factor code
+  challengeToken?: string;
 }
 
 export async function login(email: string, password: string): Promise<AuthResponse> {
   try {
-    const client = getApiClient();
+    const client = getApiClient(getDeviceHeaders(await headers()));
     const { data, error } = await postAuthLogin({
       client,
       body: { email, password },
@@ -33,14 +45,16 @@ export async function login(email: string, password: string): Promise<AuthRespon
       };
     }
 
-    // Set auth token cookie
-    const cookieStore = await cookies();
-    cookieStore.set("auth_token", data.accessToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 60 * 60 * 24 * 7, // 7 days
-    });
+    // No session yet; the code goes to loginWithTwoFactor
+    if ("challengeToken" in data) {
+      return {
+        success: true,
+        challengeToken: data.challengeToken,
+      };
+    }
+
+    // Set session cookies
+    setSessionCookies(await cookies(), data);
 
     return {
       success: true,
@@ -55,13 +69,47 @@ export async function login(email: string, password: string): Promise<AuthRespon
   }
 }
 
+export async function loginWithTwoFactor(
+  challengeToken: string,
+  code: string
+): Promise<AuthResponse> {
+  try {
+    const client = getApiClient(getDeviceHeaders(await headers()));
+    const { data, error } = await postAuthLoginTwoFactor({
+      client,
+      body: { challengeToken, code },
+    });
+
+    if (!data) {
+      return {
+        success: false,
+        error: error.error,
+      };
+    }
+
+    // Set session cookies
+    setSessionCookies(await cookies(), data);
+
+    return {
+      success: true,
+      user: data.user,
+    };
+  } catch (error) {
+    console.error("Two-factor login error:", error);
+    return {
+      success: false,
+      error: "An error occurred during login",
+    };
+  }
+}
+
 export async function register(
   name: string,
   email: string,
   password: string
 ): Promise<AuthResponse> {
   try {
-    const client = getApiClient();
+    const client = getApiClient(getDeviceHeaders(await headers()));
     const { data, error } = await postAuthRegister({
       client,
       body: { name, email, password },
@@ -74,14 +122,8 @@ export async function register(
       };
     }
 
-    // Set auth token cookie
-    const cookieStore = await cookies();
-    cookieStore.set("auth_token", data.accessToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 60 * 60 * 24 * 7, // 7 days
-    });
+    // Set session cookies
+    setSessionCookies(await cookies(), data);
 
     return {
       success: true,
@@ -97,18 +139,17 @@ export async function register(
 }
 
 export async function logout(): Promise<void> {
-  const cookieStore = await cookies();
-  cookieStore.delete("auth_token");
+  try {
+    const client = await createAuthenticatedClient();
+    await postAuthLogout({ client });
+  } catch (error) {
+    console.error("Logout error:", error);
+  }
+  clearSessionCookies(await cookies());
 }
 
-export async function setAuthToken(token: string): Promise<void> {
-  const cookieStore = await cookies();
-  cookieStore.set("auth_token", token, {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === "production",
-    sameSite: "lax",
-    maxAge: 60 * 60 * 24 * 7, // 7 days
-  });
+export async function setAuthToken(accessToken: string, refreshToken: string): Promise<void> {
+  setSessionCookies(await cookies(), { accessToken, refreshToken });
 }
 
 export async function getCurrentUser(): Promise<User | null> {
@@ -183,23 +224,38 @@ export async function updatePassword(
   }
 }
 
-export async function deleteAccount(): Promise<{ success: boolean; error?: string }> {
+export async function getAccountDeletionStatus(): Promise<AccountDeletionStatus | null> {
   try {
     const client = await createAuthenticatedClient();
-    const { error } = await deleteAuthAccount({ client });
+    const { data } = await getAuthAccountDeletion({ client });
 
-    if (error) {
+    return data ?? null;
+  } catch (error) {
+    console.error("Get account deletion status error:", error);
+    return null;
+  }
+}
+
+export async function deleteAccount(): Promise<{
+  success: boolean;
+  error?: string;
+  deletionScheduledFor?: string | null;
+}> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await deleteAuthAccount({ client });
+
+    if (!data) {
       return {
         success: false,
         error: error.error,
       };
     }
 
-    // Clear the auth cookie
-    const cookieStore = await cookies();
-    cookieStore.delete("auth_token");
+    // Sign out; signing back in before the purge allows restoring the account
+    await logout();
 
-    return { success: true };
+    return { success: true, deletionScheduledFor: data.deletionScheduledFor };
   } catch (error) {
     console.error("Delete account error:", error);
     return {
@@ -208,3 +264,84 @@ export async function deleteAccount(): Promise<{ success: boolean; error?: strin
     };
   }
 }
+
+export async function restoreAccount(): Promise<{ success: boolean; error?: string }> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { error } = await postAuthAccountRestore({ client });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.error,
+      };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Restore account error:", error);
+    return {
+      success: false,
+      error: "An error occurred while restoring account",
+    };
+  }
+}
+
+export async function getSessions(): Promise<Session[]> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data } = await getAuthSessions({ client });
+
+    return data ?? [];
+  } catch (error) {
+    console.error("Get sessions error:", error);
+    return [];
+  }
+}
+
+export async function revokeSession(id: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { error } = await deleteAuthSessionsById({ client, path: { id } });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.error,
+      };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Revoke session error:", error);
+    return {
+      success: false,
+      error: "An error occurred while revoking the session",
+    };
+  }
+}
+
+export async function signOutAllDevices(): Promise<{ success: boolean; error?: string }> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { error } = await deleteAuthSessions({ client });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.error,
+      };
+    }
+
+    // This device was signed out too
+    clearSessionCookies(await cookies());
+
+    return { success: true };
+  } catch (error) {
+    console.error("Sign out all devices error:", error);
+    return {
+      success: false,
+      error: "An error occurred while signing out",
+    };
+  }
+}
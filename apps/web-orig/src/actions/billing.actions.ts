@@ -65,12 +65,15 @@ export async function getInvoices(): Promise<ActionResult<Invoice[]>> {
   }
 }
 
-export async function createCheckoutSession(plan: PlanType): Promise<ActionResult<string>> {
+export async function createCheckoutSession(
+  plan: PlanType,
+  byoKey = false
+): Promise<ActionResult<string>> {
   try {
     const client = await createAuthenticatedClient();
     const { data, error } = await postBillingCheckout({
       client,
-      body: { plan },
+      body: { plan, byoKey },
     });
 
     if (error !== undefined) {
@@ -0,0 +1,109 @@
+"use server";
+
+import {
+  postChannelsValidate,
+  getInstancesByIdChannels,
+  putInstancesByIdChannels,
+  deleteInstancesByIdChannelsByType,
+  type ChannelInput,
+  type ChannelType,
+  type InstanceChannel,
+  type ValidateChannelResponse,
+} from "@fasterclaw/api-client";
+import { createAuthenticatedClient } from "@/lib/api-client";
+
+// NOTE: Types are NOT re-exported from Server Actions files.
+// Import types directly from @fasterclaw/api-client instead.
+
+/**
+ * Result type for actions that may fail.
+ */
+type ActionResult<T> = { success: true; data: T } | { success: false; error: string };
+
+function getErrorMessage(error: unknown): string {
+  if (error !== null && typeof error === "object" && "error" in error) {
+    return String((error as { error: unknown }).error);
+  }
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return "An unexpected error occurred";
+}
+
+export async function validateChannel(channel: ChannelInput): Promise<ValidateChannelResponse> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await postChannelsValidate({ client, body: channel });
+
+    if (error !== undefined) {
+      return { valid: false, error: "Failed to validate token" };
+    }
+
+    return data;
+  } catch (error) {
+    console.error("Validate channel error:", error);
+    return { valid: false, error: "Failed to validate token" };
+  }
+}
+
+export async function getInstanceChannels(id: string): Promise<InstanceChannel[]> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await getInstancesByIdChannels({ client, path: { id } });
+
+    if (error !== undefined) {
+      console.error("Get instance channels error:", error);
+      return [];
+    }
+
+    return data;
+  } catch (error) {
+    console.error("Get instance channels error:", error);
+    return [];
+  }
+}
+
+export async function saveInstanceChannel(
+  id: string,
+  channel: ChannelInput
+): Promise<ActionResult<InstanceChannel>> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await putInstancesByIdChannels({
+      client,
+      path: { id },
+      body: channel,
+    });
+
+    if (error !== undefined) {
+      return { success: false, error: getErrorMessage(error) };
+    }
+
+    return { success: true, data };
+  } catch (error) {
+    console.error("Save instance channel error:", error);
+    return { success: false, error: getErrorMessage(error) };
+  }
+}
+
+export async function removeInstanceChannel(
+  id: string,
+  type: ChannelType
+): Promise<ActionResult<void>> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { error } = await deleteInstancesByIdChannelsByType({
+      client,
+      path: { id, type },
+    });
+
+    if (error !== undefined) {
+      return { success: false, error: getErrorMessage(error) };
+    }
+
+    return { success: true, data: undefined };
+  } catch (error) {
+    console.error("Remove instance channel error:", error);
+    return { success: false, error: getErrorMessage(error) };
+  }
+}
@@ -4,13 +4,23 @@ import {
   getInstances as getInstancesApi,
   getInstancesById,
   postInstances,
+  patchInstancesById,
   postInstancesByIdStart,
   postInstancesByIdStop,
+  postInstancesByIdRestart,
+  postInstancesByIdRedeploy,
   postInstancesByIdRetry,
   deleteInstancesById,
   postInstancesValidateTelegramToken,
+  getInstancesByIdEvents,
+  getInstancesByIdLogs,
+  getInstancesByIdVolume,
   type Instance,
+  type InstanceEventListResponse,
+  type InstanceLogListResponse,
+  type InstanceVolume,
   type CreateInstanceRequest,
+  type UpdateInstanceRequest,
   type ValidateTelegramTokenResponse,
 } from "@fasterclaw/api-client";
 import { createAuthenticatedClient } from "@/lib/api-client";
@@ -110,6 +120,29 @@ export async function deleteInstance(id: string): Promise<ActionResult<void>> {
   }
 }
 
+export async function updateInstance(
+  id: string,
+  updates: UpdateInstanceRequest
+): Promise<ActionResult<Instance>> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await patchInstancesById({
+      client,
+      path: { id },
+      body: updates,
+    });
+
+    if (error !== undefined) {
+      return { success: false, error: getErrorMessage(error) };
+    }
+
+    return { success: true, data };
+  } catch (error) {
+    console.error("Update instance error:", error);
+    return { success: false, error: getErrorMessage(error) };
+  }
+}
+
 export async function startInstance(id: string): Promise<ActionResult<Instance>> {
   try {
     const client = await createAuthenticatedClient();
@@ -148,6 +181,44 @@ export async function stopInstance(id: string): Promise<ActionResult<Instance>>
   }
 }
 
+export async function restartInstance(id: string): Promise<ActionResult<Instance>> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await postInstancesByIdRestart({
+      client,
+      path: { id },
+    });
+
+    if (error !== undefined) {
+      return { success: false, error: getErrorMessage(error) };
+    }
+
+    return { success: true, data };
+  } catch (error) {
+    console.error("Restart instance error:", error);
+    return { success: false, error: getErrorMessage(error) };
+  }
+}
+
+export async function redeployInstance(id: string): Promise<ActionResult<Instance>> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await postInstancesByIdRedeploy({
+      client,
+      path: { id },
+    });
+
+    if (error !== undefined) {
+      return { success: false, error: getErrorMessage(error) };
+    }
+
+    return { success: true, data };
+  } catch (error) {
+    console.error("Redeploy instance error:", error);
+    return { success: false, error: getErrorMessage(error) };
+  }
+}
+
 export async function validateTelegramToken(
   telegramToken: string
 ): Promise<ValidateTelegramTokenResponse> {
@@ -187,3 +258,68 @@ export async function retryInstance(id: string): Promise<ActionResult<Instance>>
     return { success: false, error: getErrorMessage(error) };
   }
 }
+
+export async function getInstanceEvents(
+  id: string,
+  page = 1
+): Promise<ActionResult<InstanceEventListResponse>> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await getInstancesByIdEvents({
+      client,
+      path: { id },
+      query: { page, limit: 20 },
+    });
+
+    if (error !== undefined) {
+      return { success: false, error: getErrorMessage(error) };
+    }
+
+    return { success: true, data };
+  } catch (error) {
+    console.error("Get instance events error:", error);
+    return { success: false, error: getErrorMessage(error) };
+  }
+}
+
+export async function getInstanceLogs(
+  id: string,
+  tail = 200
+): Promise<ActionResult<InstanceLogListResponse>> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await getInstancesByIdLogs({
+      client,
+      path: { id },
+      query: { tail },
+    });
+
+    if (error !== undefined) {
+      return { success: false, error: getErrorMessage(error) };
+    }
+
+    return { success: true, data };
+  } catch (error) {
+    console.error("Get instance logs error:", error);
+    return { success: false, error: getErrorMessage(error) };
+  }
+}
+
+export async function getInstanceVolume(id: string): Promise<ActionResult<InstanceVolume>> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await getInstancesByIdVolume({
+      client,
+      path: { id },
+    });
+
+    if (error !== undefined) {
+      return { success: false, error: getErrorMessage(error) };
+    }
+
+    return { success: true, data };
+  } catch (error) {
+    console.error("Get instance volume error:", error);
+    return { success: false, error: getErrorMessage(error) };
+  }
+}
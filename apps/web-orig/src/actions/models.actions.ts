@@ -0,0 +1,24 @@
+"use server";
+
+import { getModels as getModelsApi, type AiModel } from "@fasterclaw/api-client";
+import { createAuthenticatedClient } from "@/lib/api-client";
+
+// NOTE: Types are NOT re-exported from Server Actions files.
+// Import types directly from @fasterclaw/api-client instead.
+
+export async function getModels(): Promise<AiModel[]> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await getModelsApi({ client });
+
+    if (error !== undefined) {
+      console.error("Get models error:", error);
+      return [];
+    }
+
+    return data;
+  } catch (error) {
+    console.error("Get models error:", error);
+    return [];
+  }
+}
@@ -0,0 +1,21 @@
+"use server";
+
+import { getProviders as getProvidersApi, type ProviderInfo } from "@fasterclaw/api-client";
+import { createAuthenticatedClient } from "@/lib/api-client";
+
+export async function getProviders(): Promise<ProviderInfo[]> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await getProvidersApi({ client });
+
+    if (error !== undefined) {
+      console.error("Get providers error:", error);
+      return [];
+    }
+
+    return data;
+  } catch (error) {
+    console.error("Get providers error:", error);
+    return [];
+  }
+}
@@ -1,15 +1,18 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { ArrowLeft, Bot, Zap, Brain, Sparkles, ExternalLink, MessageCircle } from "lucide-react";
 import Link from "next/link";
 import toast from "react-hot-toast";
+import type { AiModel } from "@fasterclaw/api-client";
 import { createInstance } from "@/actions/instances.actions";
+import { getModels } from "@/actions/models.actions";
 
 const personalities = [
   {
@@ -43,7 +46,19 @@ export default function NewAgentPage() {
     name: "",
     telegramToken: "",
     personality: "balanced",
+    useOwnKey: false,
   });
+  const [models, setModels] = useState<AiModel[]>([]);
+
+  useEffect(() => {
+    void (async () => {
+      setModels(await getModels());
+    })();
+  }, []);
+
+  // Until the catalog has loaded every style is offered; the API has the final say
+  const isOffered = (modelId: string) =>
+    models.length === 0 || models.some((model) => model.id === modelId && model.available);
 
   const handleSubmit = (e: React.SyntheticEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -65,6 +80,7 @@ export default function NewAgentPage() {
           name: formData.name,
           telegramBotToken: formData.telegramToken,
           aiModel,
+          aiKeySource: formData.useOwnKey ? "own" : "platform",
         });
 
         if (result.success) {
@@ -168,13 +184,16 @@ export default function NewAgentPage() {
                 <div className="space-y-2">
                   {personalities.map((option) => {
                     const Icon = option.icon;
+                    const offered = isOffered(option.model);
                     return (
                       <label
                         key={option.value}
-                        className={`flex items-start gap-3 p-4 border rounded-lg cursor-pointer transition-all ${
+                        className={`flex items-start gap-3 p-4 border rounded-lg transition-all ${
                           formData.personality === option.value
                             ? "border-primary bg-primary/5 ring-1 ring-primary"
-                            : "hover:bg-accent"
+                            : offered
+                              ? "cursor-pointer hover:bg-accent"
+                              : "opacity-50"
                         }`}
                       >
                         <input
@@ -182,6 +201,7 @@ export default function NewAgentPage() {
                           name="personality"
                           value={option.value}
                           checked={formData.personality === option.value}
+                          disabled={!offered}
                           onChange={(e) => {
                             setFormData({ ...formData, personality: e.target.value });
                           }}
@@ -204,6 +224,11 @@ export default function NewAgentPage() {
                                 Recommended
                               </span>
                             )}
+                            {!offered && (
+                              <span className="text-xs bg-muted px-2 py-0.5 rounded-full">
+                                Upgrade required
+                              </span>
+                            )}
                           </div>
                           <p className="text-sm text-muted-foreground">{option.description}</p>
                         </div>
@@ -213,6 +238,27 @@ export default function NewAgentPage() {
                 </div>
               </div>
 
+              {/* AI Key Source */}
+              <div className="flex items-start justify-between gap-4 p-4 border rounded-lg">
+                <div className="space-y-1">
+                  <Label htmlFor="useOwnKey">Use my own Anthropic API key</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Bill AI usage to your own Anthropic account. Save your key in{" "}
+                    <Link href="/dashboard/settings" className="text-primary hover:underline">
+                      Settings
+                    </Link>{" "}
+                    first.
+                  </p>
+                </div>
+                <Switch
+                  id="useOwnKey"
+                  checked={formData.useOwnKey}
+                  onCheckedChange={(checked) => {
+                    setFormData({ ...formData, useOwnKey: checked });
+                  }}
+                />
+              </div>
+
               {/* Actions */}
               <div className="flex gap-4 pt-4">
                 <Button type="submit" disabled={loading} className="flex-1 gap-2">
@@ -4,6 +4,8 @@ import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Check, CreditCard, Loader2, ExternalLink, Download } from "lucide-react";
 import {
   getSubscription,
@@ -69,6 +71,7 @@ export default function BillingPage() {
   const [loading, setLoading] = useState(true);
   const [portalLoading, setPortalLoading] = useState(false);
   const [checkoutLoading, setCheckoutLoading] = useState<PlanId | null>(null);
+  const [byoKey, setByoKey] = useState(false);
 
   useEffect(() => {
     void fetchData();
@@ -120,7 +123,7 @@ export default function BillingPage() {
   const handleSubscribe = async (planId: PlanId) => {
     setCheckoutLoading(planId);
     try {
-      const result = await createCheckoutSession(planId);
+      const result = await createCheckoutSession(planId, byoKey);
       if (result.success) {
         window.location.href = result.data;
       } else {
@@ -188,6 +191,12 @@ export default function BillingPage() {
                       {subscription.instanceLimit === -1 ? "Unlimited" : subscription.instanceLimit}
                     </span>
                   </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm text-muted-foreground">AI keys</span>
+                    <span className="font-medium">
+                      {subscription.byoKey === true ? "Your own" : "Included"}
+                    </span>
+                  </div>
                   <div className="flex justify-between items-center">
                     <span className="text-sm text-muted-foreground">Next billing date</span>
                     <span className="font-medium">
@@ -240,11 +249,25 @@ export default function BillingPage() {
               </CardDescription>
             </CardHeader>
             <CardContent>
+              {!subscription && (
+                <div className="flex items-start justify-between gap-4 p-4 mb-4 border rounded-lg">
+                  <div className="space-y-1">
+                    <Label htmlFor="byoKey">Bring your own AI keys</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Pay less and bill AI usage to your own OpenAI, Anthropic or Google account.
+                      All your instances will use the keys saved in Settings.
+                    </p>
+                  </div>
+                  <Switch id="byoKey" checked={byoKey} onCheckedChange={setByoKey} />
+                </div>
+              )}
               <div className="grid md:grid-cols-3 gap-4">
                 {(Object.entries(plans) as [PlanId, PlanConfig][]).map(([planId, plan]) => {
                   const isCurrent = currentPlan === planId;
                   const isLoading = checkoutLoading === planId;
                   const isPopular = planId === "pro";
+                  const price =
+                    byoKey && !subscription ? (plan.byoKeyPrice ?? plan.price) : plan.price;
                   return (
                     <div
                       key={planId}
@@ -262,7 +285,7 @@ export default function BillingPage() {
                       <div className="mb-4">
                         <h3 className="font-semibold text-lg">{plan.name}</h3>
                         <div className="mt-2">
-                          <span className="text-3xl font-bold">${plan.price}</span>
+                          <span className="text-3xl font-bold">${price}</span>
                           <span className="text-muted-foreground">/month</span>
                         </div>
                       </div>
@@ -0,0 +1,183 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, MessageSquare, Trash2 } from "lucide-react";
+import toast from "react-hot-toast";
+import {
+  getInstanceChannels,
+  saveInstanceChannel,
+  removeInstanceChannel,
+} from "@/actions/channels.actions";
+import type { ChannelType, InstanceChannel } from "@fasterclaw/api-client";
+
+interface InstanceChannelsProps {
+  instanceId: string;
+  /** Channels are read at provisioning, so they can only change while the instance is down */
+  editable: boolean;
+}
+
+const CHANNEL_LABELS: Record<ChannelType, string> = {
+  telegram: "Telegram",
+  discord: "Discord",
+  slack: "Slack",
+};
+
+export function InstanceChannels({ instanceId, editable }: InstanceChannelsProps) {
+  const [channels, setChannels] = useState<InstanceChannel[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    type: "telegram" as ChannelType,
+    botToken: "",
+    appToken: "",
+  });
+
+  const loadChannels = useCallback(async () => {
+    setChannels(await getInstanceChannels(instanceId));
+    setLoading(false);
+  }, [instanceId]);
+
+  useEffect(() => {
+    void loadChannels();
+  }, [loadChannels]);
+
+  const handleSave = (e: React.SyntheticEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSaving("save");
+    void (async () => {
+      const result = await saveInstanceChannel(
+        instanceId,
+        form.type === "slack"
+          ? { type: form.type, botToken: form.botToken, appToken: form.appToken }
+          : { type: form.type, botToken: form.botToken }
+      );
+      if (result.success) {
+        toast.success(`${CHANNEL_LABELS[form.type]} channel saved`);
+        setForm({ ...form, botToken: "", appToken: "" });
+        await loadChannels();
+      } else {
+        toast.error(result.error);
+      }
+      setSaving(null);
+    })();
+  };
+
+  const handleRemove = (type: ChannelType) => {
+    if (!confirm(`Remove the ${CHANNEL_LABELS[type]} channel from this instance?`)) {
+      return;
+    }
+    setSaving(type);
+    void (async () => {
+      const result = await removeInstanceChannel(instanceId, type);
+      if (result.success) {
+        toast.success(`${CHANNEL_LABELS[type]} channel removed`);
+        await loadChannels();
+      } else {
+        toast.error(result.error);
+      }
+      setSaving(null);
+    })();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          Channels
+        </CardTitle>
+        <CardDescription>
+          {editable
+            ? "The platforms your bot answers on. Saving a channel replaces one of the same type."
+            : "Stop the instance to attach or remove channels."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : (
+          <div className="space-y-2">
+            {channels.map((channel) => (
+              <div
+                key={channel.id}
+                className="flex items-center justify-between p-3 border rounded-lg"
+              >
+                <div>
+                  <div className="font-medium">{CHANNEL_LABELS[channel.type]}</div>
+                  <code className="text-xs text-muted-foreground">{channel.maskedToken}</code>
+                </div>
+                {editable && channels.length > 1 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive"
+                    onClick={() => {
+                      handleRemove(channel.type);
+                    }}
+                    disabled={saving !== null}
+                  >
+                    {saving === channel.type ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="h-4 w-4" />
+                    )}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {editable && (
+          <form onSubmit={handleSave} className="space-y-3 pt-2">
+            <div className="space-y-2">
+              <Label htmlFor="channelType">Attach a channel</Label>
+              <select
+                id="channelType"
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                value={form.type}
+                onChange={(e) => {
+                  setForm({ type: e.target.value as ChannelType, botToken: "", appToken: "" });
+                }}
+              >
+                {Object.entries(CHANNEL_LABELS).map(([type, label]) => (
+                  <option key={type} value={type}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Input
+              type="password"
+              placeholder="Bot token"
+              value={form.botToken}
+              onChange={(e) => {
+                setForm({ ...form, botToken: e.target.value });
+              }}
+              required
+            />
+            {form.type === "slack" && (
+              <Input
+                type="password"
+                placeholder="App-level token (xapp-...)"
+                value={form.appToken}
+                onChange={(e) => {
+                  setForm({ ...form, appToken: e.target.value });
+                }}
+                required
+              />
+            )}
+            <Button type="submit" size="sm" disabled={saving !== null}>
+              {saving === "save" && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Save Channel
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
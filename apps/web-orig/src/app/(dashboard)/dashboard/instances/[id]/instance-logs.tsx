@@ -0,0 +1,189 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, RefreshCw, Search } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getInstanceLogs } from "@/actions/instances.actions";
+import type { InstanceLogEntry } from "@fasterclaw/api-client";
+
+interface InstanceLogsProps {
+  instanceId: string;
+}
+
+type LevelFilter = "all" | InstanceLogEntry["level"];
+
+const LEVEL_FILTERS: LevelFilter[] = ["all", "error", "warn", "info", "debug"];
+
+/** Keep the viewer responsive when following a chatty bot */
+const MAX_LINES = 2000;
+
+const LEVEL_CLASSES: Record<InstanceLogEntry["level"], string> = {
+  error: "text-destructive",
+  warn: "text-yellow-600 dark:text-yellow-400",
+  info: "text-foreground",
+  debug: "text-muted-foreground",
+};
+
+export function InstanceLogs({ instanceId }: InstanceLogsProps) {
+  const [logs, setLogs] = useState<InstanceLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [level, setLevel] = useState<LevelFilter>("all");
+  const [follow, setFollow] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const loadLogs = useCallback(async () => {
+    setLoading(true);
+    const result = await getInstanceLogs(instanceId);
+    if (result.success) {
+      setLogs(result.data.logs);
+      setError(null);
+    } else {
+      setError(result.error);
+    }
+    setLoading(false);
+  }, [instanceId]);
+
+  useEffect(() => {
+    void loadLogs();
+  }, [loadLogs]);
+
+  // Live tail over SSE, starting after the newest line already loaded
+  const lastTimestamp = logs.length > 0 ? logs[logs.length - 1].timestamp : null;
+  const followFrom = useRef<string | null>(null);
+  followFrom.current = lastTimestamp;
+
+  useEffect(() => {
+    if (!follow) {
+      return undefined;
+    }
+
+    const query =
+      followFrom.current !== null ? `?since=${encodeURIComponent(followFrom.current)}` : "";
+    const source = new EventSource(`/api/instances/${instanceId}/logs${query}`);
+
+    source.addEventListener("log", (message) => {
+      const entry = JSON.parse((message as MessageEvent<string>).data) as InstanceLogEntry;
+      setLogs((current) => [...current, entry].slice(-MAX_LINES));
+    });
+    source.addEventListener("error", (message) => {
+      // Server-sent error events carry data; connection errors don't
+      const data = (message as MessageEvent<string | undefined>).data;
+      if (data !== undefined) {
+        setError((JSON.parse(data) as { error: string }).error);
+        setFollow(false);
+      }
+    });
+
+    return () => {
+      source.close();
+    };
+  }, [follow, instanceId]);
+
+  useEffect(() => {
+    if (follow) {
+      bottomRef.current?.scrollIntoView({ block: "nearest" });
+    }
+  }, [logs, follow]);
+
+  const visibleLogs = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return logs.filter(
+      (entry) =>
+        (level === "all" || entry.level === level) &&
+        (term === "" || entry.message.toLowerCase().includes(term))
+    );
+  }, [logs, search, level]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Logs</CardTitle>
+            <CardDescription>Output from the running bot</CardDescription>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch id="follow-logs" checked={follow} onCheckedChange={setFollow} />
+              <Label htmlFor="follow-logs">Live</Label>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => void loadLogs()}
+              disabled={loading || follow}
+            >
+              <RefreshCw className="h-4 w-4" />
+              Refresh
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              className="pl-9"
+              placeholder="Search logs"
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value);
+              }}
+            />
+          </div>
+          {LEVEL_FILTERS.map((option) => (
+            <Button
+              key={option}
+              variant={level === option ? "default" : "outline"}
+              size="sm"
+              className="capitalize"
+              onClick={() => {
+                setLevel(option);
+              }}
+            >
+              {option}
+            </Button>
+          ))}
+        </div>
+
+        {error !== null && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="h-96 overflow-y-auto rounded-md bg-muted p-3 font-mono text-xs">
+          {loading && logs.length === 0 ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : visibleLogs.length === 0 ? (
+            <p className="text-muted-foreground">
+              {logs.length === 0 ? "No log output yet." : "No lines match the current filters."}
+            </p>
+          ) : (
+            visibleLogs.map((entry, index) => (
+              <div key={`${entry.timestamp}-${String(index)}`} className="flex gap-3">
+                <span className="shrink-0 text-muted-foreground">
+                  {new Date(entry.timestamp).toLocaleTimeString()}
+                </span>
+                <span className={cn("w-10 shrink-0 uppercase", LEVEL_CLASSES[entry.level])}>
+                  {entry.level}
+                </span>
+                <span className={cn("whitespace-pre-wrap break-all", LEVEL_CLASSES[entry.level])}>
+                  {entry.message}
+                </span>
+              </div>
+            ))
+          )}
+          <div ref={bottomRef} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
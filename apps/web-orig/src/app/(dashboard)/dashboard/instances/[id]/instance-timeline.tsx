@@ -0,0 +1,138 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertCircle, ArrowRight, Cloud, History, Loader2 } from "lucide-react";
+import { getInstanceEvents } from "@/actions/instances.actions";
+import type { InstanceEvent } from "@fasterclaw/api-client";
+
+interface InstanceTimelineProps {
+  instanceId: string;
+  /** Changes whenever the instance changes, so the timeline reloads its first page */
+  refreshKey: string;
+}
+
+const ACTOR_LABELS: Record<InstanceEvent["actor"], string> = {
+  USER: "You",
+  SYSTEM: "FasterClaw",
+  SYNC: "Status sync",
+  WEBHOOK: "Webhook",
+};
+
+function EventIcon({ type }: { type: InstanceEvent["type"] }) {
+  switch (type) {
+    case "ERROR":
+      return <AlertCircle className="h-4 w-4 text-destructive" />;
+    case "PROVIDER_CALL":
+      return <Cloud className="h-4 w-4 text-muted-foreground" />;
+    default:
+      return <History className="h-4 w-4 text-primary" />;
+  }
+}
+
+function EventSummary({ event }: { event: InstanceEvent }) {
+  if (event.type === "STATUS_CHANGE" && event.toStatus !== null) {
+    return (
+      <div className="flex items-center gap-1 font-medium">
+        {event.fromStatus !== null && (
+          <>
+            <span>{event.fromStatus.toLowerCase()}</span>
+            <ArrowRight className="h-3 w-3 text-muted-foreground" />
+          </>
+        )}
+        <span>{event.toStatus.toLowerCase()}</span>
+      </div>
+    );
+  }
+  return <div className="font-medium">{event.type === "ERROR" ? "Error" : "Provider call"}</div>;
+}
+
+export function InstanceTimeline({ instanceId, refreshKey }: InstanceTimelineProps) {
+  const [events, setEvents] = useState<InstanceEvent[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = useCallback(
+    async (nextPage: number) => {
+      setLoading(true);
+      const result = await getInstanceEvents(instanceId, nextPage);
+      if (result.success) {
+        setEvents((current) =>
+          nextPage === 1 ? result.data.events : [...current, ...result.data.events]
+        );
+        setPage(nextPage);
+        setTotalPages(result.data.pagination.totalPages);
+        setError(null);
+      } else {
+        setError(result.error);
+      }
+      setLoading(false);
+    },
+    [instanceId]
+  );
+
+  useEffect(() => {
+    void loadPage(1);
+  }, [loadPage, refreshKey]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Timeline</CardTitle>
+        <CardDescription>
+          Status changes, provider calls and errors for this instance
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error !== null && <p className="text-sm text-destructive mb-4">{error}</p>}
+        {events.length === 0 && !loading && error === null && (
+          <p className="text-sm text-muted-foreground">No events recorded yet.</p>
+        )}
+        <ol className="space-y-4">
+          {events.map((event) => (
+            <li key={event.id} className="flex gap-3">
+              <div className="mt-0.5">
+                <EventIcon type={event.type} />
+              </div>
+              <div className="flex-1 min-w-0 text-sm">
+                <EventSummary event={event} />
+                {event.message !== null && (
+                  <p
+                    className={
+                      event.type === "ERROR"
+                        ? "text-destructive break-words"
+                        : "text-muted-foreground break-words"
+                    }
+                  >
+                    {event.message}
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {ACTOR_LABELS[event.actor]} &bull; {new Date(event.createdAt).toLocaleString()}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ol>
+        {loading && (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        {!loading && page < totalPages && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full mt-4"
+            onClick={() => void loadPage(page + 1)}
+          >
+            Load older events
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { HardDrive, Loader2 } from "lucide-react";
+import { getInstanceVolume } from "@/actions/instances.actions";
+import type { InstanceVolume as InstanceVolumeData } from "@fasterclaw/api-client";
+
+interface InstanceVolumeProps {
+  instanceId: string;
+  /** Changes whenever the instance changes, so usage is read again */
+  refreshKey: string;
+}
+
+const GB = 1024 ** 3;
+
+function formatBytes(bytes: number): string {
+  if (bytes >= GB) {
+    return `${(bytes / GB).toFixed(1)} GB`;
+  }
+  if (bytes >= 1024 ** 2) {
+    return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  }
+  return `${String(Math.ceil(bytes / 1024))} KB`;
+}
+
+export function InstanceVolume({ instanceId, refreshKey }: InstanceVolumeProps) {
+  const [volume, setVolume] = useState<InstanceVolumeData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    void getInstanceVolume(instanceId).then((result) => {
+      // Instances created before volumes have none; the card stays hidden
+      setVolume(result.success ? result.data : null);
+      setLoading(false);
+    });
+  }, [instanceId, refreshKey]);
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (volume === null) {
+    return null;
+  }
+
+  const percent =
+    volume.usedBytes !== null
+      ? Math.min(100, Math.round((volume.usedBytes / (volume.sizeGb * GB)) * 100))
+      : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <HardDrive className="h-4 w-4" />
+          Storage
+        </CardTitle>
+        <CardDescription>Memory and workspace, kept across restarts and redeploys</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Used</span>
+          <span className="font-medium">
+            {volume.usedBytes !== null ? formatBytes(volume.usedBytes) : "Unknown"} of{" "}
+            {volume.sizeGb} GB
+          </span>
+        </div>
+        {percent !== null && (
+          <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+            <div className="h-full bg-primary" style={{ width: `${String(percent)}%` }} />
+          </div>
+        )}
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Mounted at</span>
+          <span className="font-mono text-xs">{volume.mountPath}</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
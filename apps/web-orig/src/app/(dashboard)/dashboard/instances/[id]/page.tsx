@@ -6,15 +6,32 @@ import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Server, Activity, Power, Trash2, Loader2 } from "lucide-react";
+import {
+  ArrowLeft,
+  Server,
+  Activity,
+  Power,
+  RotateCw,
+  RefreshCw,
+  Trash2,
+  Loader2,
+} from "lucide-react";
 import toast from "react-hot-toast";
 import {
   getInstance,
   startInstance,
   stopInstance,
+  restartInstance,
+  redeployInstance,
   deleteInstance,
 } from "@/actions/instances.actions";
-import type { Instance } from "@fasterclaw/api-client";
+import { getProviders } from "@/actions/providers.actions";
+import type { Instance, ProviderInfo } from "@fasterclaw/api-client";
+import { InstanceTimeline } from "./instance-timeline";
+import { InstanceLogs } from "./instance-logs";
+import { InstanceChannels } from "./instance-channels";
+import { TelegramAccess } from "./telegram-access";
+import { InstanceVolume } from "./instance-volume";
 
 function statusVariant(status: string) {
   switch (status.toUpperCase()) {
@@ -37,6 +54,7 @@ export default function InstanceDetailPage() {
   const id = params.id as string;
 
   const [instance, setInstance] = useState<Instance | null>(null);
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
 
@@ -52,6 +70,10 @@ export default function InstanceDetailPage() {
     void fetchInstance();
   }, [fetchInstance]);
 
+  useEffect(() => {
+    void getProviders().then(setProviders);
+  }, []);
+
   // Poll for status updates when instance is in a transitional state
   useEffect(() => {
     if (instance === null) {
@@ -98,6 +120,41 @@ export default function InstanceDetailPage() {
     })();
   };
 
+  const handleRestart = () => {
+    setActionLoading("restart");
+    void (async () => {
+      const result = await restartInstance(id);
+      if (result.success) {
+        toast.success("Instance restarting...");
+        await fetchInstance();
+      } else {
+        toast.error(result.error);
+      }
+      setActionLoading(null);
+    })();
+  };
+
+  const handleRedeploy = () => {
+    if (
+      !confirm(
+        "Redeploy this instance? Its machine is recreated from the latest image, which interrupts it for a moment."
+      )
+    ) {
+      return;
+    }
+    setActionLoading("redeploy");
+    void (async () => {
+      const result = await redeployInstance(id);
+      if (result.success) {
+        toast.success("Instance redeploying...");
+        await fetchInstance();
+      } else {
+        toast.error(result.error);
+      }
+      setActionLoading(null);
+    })();
+  };
+
   const handleDelete = () => {
     if (!confirm("Are you sure you want to delete this instance? This action cannot be undone.")) {
       return;
@@ -141,6 +198,7 @@ export default function InstanceDetailPage() {
     );
   }
 
+  const provider = providers.find((p) => p.name === instance.provider);
   const isRunning = instance.status.toUpperCase() === "RUNNING";
   const isStopped = instance.status.toUpperCase() === "STOPPED";
 
@@ -218,20 +276,22 @@ export default function InstanceDetailPage() {
               <CardDescription>Configuration details for this instance</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              {instance.flyAppName !== null && (
+              {instance.providerResourceId !== null && (
                 <div>
-                  <div className="text-sm font-medium mb-1">Fly App Name</div>
-                  <code className="text-sm bg-muted px-2 py-1 rounded">{instance.flyAppName}</code>
-                </div>
-              )}
-              {instance.flyMachineId !== null && (
-                <div>
-                  <div className="text-sm font-medium mb-1">Machine ID</div>
+                  <div className="text-sm font-medium mb-1">Resource ID</div>
                   <code className="text-sm bg-muted px-2 py-1 rounded">
-                    {instance.flyMachineId}
+                    {instance.providerResourceId}
                   </code>
                 </div>
               )}
+              {Object.entries(instance.providerMeta).map(([key, value]) => (
+                <div key={key}>
+                  <div className="text-sm font-medium mb-1 capitalize">
+                    {key.replace(/([A-Z])/g, " $1")}
+                  </div>
+                  <code className="text-sm bg-muted px-2 py-1 rounded">{String(value)}</code>
+                </div>
+              ))}
               {instance.ipAddress !== null && (
                 <div>
                   <div className="text-sm font-medium mb-1">IP Address</div>
@@ -265,6 +325,21 @@ export default function InstanceDetailPage() {
               </CardContent>
             </Card>
           </div>
+
+          <InstanceChannels
+            instanceId={instance.id}
+            editable={isStopped || instance.status.toUpperCase() === "FAILED"}
+          />
+
+          <TelegramAccess
+            instance={instance}
+            editable={isStopped || isRunning}
+            onSaved={setInstance}
+          />
+
+          {provider?.capabilities.logs === true && <InstanceLogs instanceId={instance.id} />}
+
+          <InstanceTimeline instanceId={instance.id} refreshKey={instance.updatedAt} />
         </div>
 
         {/* Sidebar */}
@@ -281,6 +356,10 @@ export default function InstanceDetailPage() {
                   {instance.status.toLowerCase()}
                 </Badge>
               </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Provider</span>
+                <span className="font-medium">{provider?.displayName ?? instance.provider}</span>
+              </div>
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Region</span>
                 <span className="font-medium">{instance.region}</span>
@@ -289,6 +368,10 @@ export default function InstanceDetailPage() {
                 <span className="text-muted-foreground">Model</span>
                 <span className="font-medium">{instance.aiModel}</span>
               </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">OpenClaw</span>
+                <span className="font-medium">{instance.imageVersion}</span>
+              </div>
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Created</span>
                 <span className="font-medium">
@@ -304,6 +387,10 @@ export default function InstanceDetailPage() {
             </CardContent>
           </Card>
 
+          {provider?.capabilities.volumes === true && instance.volumeSizeGb !== null && (
+            <InstanceVolume instanceId={instance.id} refreshKey={instance.updatedAt} />
+          )}
+
           {/* Actions */}
           <Card>
             <CardHeader>
@@ -340,6 +427,36 @@ export default function InstanceDetailPage() {
                   Stop Instance
                 </Button>
               )}
+              {isRunning && (
+                <Button
+                  variant="outline"
+                  className="w-full justify-start gap-2"
+                  onClick={handleRestart}
+                  disabled={actionLoading !== null}
+                >
+                  {actionLoading === "restart" ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RotateCw className="h-4 w-4" />
+                  )}
+                  Restart Instance
+                </Button>
+              )}
+              {(isRunning || isStopped) && provider?.capabilities.redeploy === true && (
+                <Button
+                  variant="outline"
+                  className="w-full justify-start gap-2"
+                  onClick={handleRedeploy}
+                  disabled={actionLoading !== null}
+                >
+                  {actionLoading === "redeploy" ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-4 w-4" />
+                  )}
+                  Redeploy Instance
+                </Button>
+              )}
               <Button
                 variant="outline"
                 className="w-full justify-start gap-2 text-destructive"
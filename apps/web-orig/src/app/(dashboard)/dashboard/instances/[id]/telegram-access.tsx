@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, ShieldCheck } from "lucide-react";
+import toast from "react-hot-toast";
+import { updateInstance } from "@/actions/instances.actions";
+import type {
+  Instance,
+  TelegramAccess as TelegramAccessSettings,
+  TelegramDmPolicy,
+  TelegramGroupPolicy,
+} from "@fasterclaw/api-client";
+
+interface TelegramAccessProps {
+  instance: Instance;
+  /** PATCH /instances/:id accepts changes while the instance is running or stopped */
+  editable: boolean;
+  onSaved: (instance: Instance) => void;
+}
+
+const DM_POLICIES: Record<TelegramDmPolicy, string> = {
+  pairing: "Pairing - strangers get a code you approve",
+  allowlist: "Allowlist - only the users below",
+  open: "Open - anyone",
+  disabled: "Disabled - no direct messages",
+};
+
+const GROUP_POLICIES: Record<TelegramGroupPolicy, string> = {
+  allowlist: "Allowlist - only the users below",
+  open: "Open - anyone in the group",
+  disabled: "Disabled - ignore group chats",
+};
+
+const selectClassName =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+export function TelegramAccess({ instance, editable, onSaved }: TelegramAccessProps) {
+  const [access, setAccess] = useState<TelegramAccessSettings>(instance.telegramAccess);
+  const [allowFrom, setAllowFrom] = useState(instance.telegramAccess.allowFrom.join(", "));
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = (e: React.SyntheticEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSaving(true);
+    void (async () => {
+      const result = await updateInstance(instance.id, {
+        telegramAccess: {
+          ...access,
+          allowFrom: allowFrom
+            .split(/[\s,]+/)
+            .map((user) => user.trim())
+            .filter((user) => user !== ""),
+        },
+      });
+      if (result.success) {
+        toast.success(
+          result.data.status === "RUNNING"
+            ? "Telegram access saved. The running instance picks it up shortly."
+            : "Telegram access saved. It applies the next time the instance starts."
+        );
+        onSaved(result.data);
+      } else {
+        toast.error(result.error);
+      }
+      setSaving(false);
+    })();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Telegram Access
+        </CardTitle>
+        <CardDescription>
+          {editable
+            ? "Choose who can talk to your Telegram bot."
+            : "Wait for the instance to finish its current operation to change access."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="dmPolicy">Direct messages</Label>
+            <select
+              id="dmPolicy"
+              className={selectClassName}
+              value={access.dmPolicy}
+              disabled={!editable}
+              onChange={(e) => {
+                setAccess({ ...access, dmPolicy: e.target.value as TelegramDmPolicy });
+              }}
+            >
+              {Object.entries(DM_POLICIES).map(([policy, label]) => (
+                <option key={policy} value={policy}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="groupPolicy">Group chats</Label>
+            <select
+              id="groupPolicy"
+              className={selectClassName}
+              value={access.groupPolicy}
+              disabled={!editable}
+              onChange={(e) => {
+                setAccess({ ...access, groupPolicy: e.target.value as TelegramGroupPolicy });
+              }}
+            >
+              {Object.entries(GROUP_POLICIES).map(([policy, label]) => (
+                <option key={policy} value={policy}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="allowFrom">Allowed users</Label>
+            <Input
+              id="allowFrom"
+              placeholder="e.g., 123456789, @support_team"
+              value={allowFrom}
+              disabled={!editable}
+              onChange={(e) => {
+                setAllowFrom(e.target.value);
+              }}
+            />
+            <p className="text-xs text-muted-foreground">
+              Telegram user IDs or @usernames, separated by commas
+            </p>
+          </div>
+          {editable && (
+            <Button type="submit" size="sm" disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Save Access
+            </Button>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,7 +9,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { ArrowLeft, Server, CheckCircle2, XCircle, Loader2 } from "lucide-react";
 import Link from "next/link";
 import toast from "react-hot-toast";
-import { createInstance, validateTelegramToken } from "@/actions/instances.actions";
+import type { AiModel, ChannelInput, ChannelType, PlanEntitlements } from "@fasterclaw/api-client";
+import { createInstance } from "@/actions/instances.actions";
+import { validateChannel } from "@/actions/channels.actions";
+import { getModels } from "@/actions/models.actions";
+import { getSubscription } from "@/actions/billing.actions";
 
 const regions = [
   { value: "iad", label: "US East (Virginia)" },
@@ -18,15 +22,47 @@ const regions = [
   { value: "sin", label: "Asia Pacific (Singapore)" },
 ];
 
-const models = [
-  { value: "claude-sonnet-4-0", label: "Claude Sonnet 4", description: "Balanced performance" },
-  { value: "claude-opus-4-0", label: "Claude Opus 4", description: "Most capable model" },
-  { value: "claude-3-5-haiku-latest", label: "Claude 3.5 Haiku", description: "Fastest responses" },
-];
+const vendorNames: Record<AiModel["vendor"], string> = {
+  openai: "OpenAI",
+  anthropic: "Anthropic",
+  google: "Google",
+};
+
+function describeModel(model: AiModel): string {
+  const context = `${String(Math.round(model.contextWindow / 1000))}K context`;
+  if (!model.available) {
+    return `${vendorNames[model.vendor]} · ${context} · Requires a higher plan`;
+  }
+  if (model.deprecatedAt !== null) {
+    return `${vendorNames[model.vendor]} · ${context} · Retiring ${new Date(model.deprecatedAt).toLocaleDateString()}`;
+  }
+  return `${vendorNames[model.vendor]} · ${context}`;
+}
+
+const channelOptions: Record<ChannelType, { label: string; placeholder: string; help: string }> = {
+  telegram: {
+    label: "Telegram",
+    placeholder: "e.g., 123456:ABC-DEF1234ghIkl-zyx57W2v1u123ew11",
+    help: "Get this from @BotFather on Telegram.",
+  },
+  discord: {
+    label: "Discord",
+    placeholder: "Bot token from the Discord Developer Portal",
+    help: "Create a bot under your application in the Discord Developer Portal and copy its token.",
+  },
+  slack: {
+    label: "Slack",
+    placeholder: "xoxb-...",
+    help: "Use the Bot User OAuth Token of your Slack app, with Socket Mode enabled.",
+  },
+};
+
+function toChannelInput(type: ChannelType, botToken: string, appToken: string): ChannelInput {
+  return type === "slack" ? { type, botToken, appToken } : { type, botToken };
+}
 
 interface TokenValidation {
   status: "idle" | "validating" | "valid" | "invalid";
-  botUsername?: string;
   botName?: string;
   error?: string;
 }
@@ -38,15 +74,47 @@ export default function NewInstancePage() {
     name: "",
     region: "iad",
     aiModel: "claude-sonnet-4-0",
-    telegramBotToken: "",
+    channelType: "telegram" as ChannelType,
+    botToken: "",
+    appToken: "",
   });
   const [tokenValidation, setTokenValidation] = useState<TokenValidation>({
     status: "idle",
   });
+  const [models, setModels] = useState<AiModel[]>([]);
+  const [allowedRegions, setAllowedRegions] = useState<PlanEntitlements["regions"]>("all");
+
+  useEffect(() => {
+    void (async () => {
+      const subscriptionResult = await getSubscription();
+      if (subscriptionResult.success) {
+        const { subscription, plans } = subscriptionResult.data;
+        const entitlements = plans[subscription?.plan ?? "starter"]?.entitlements;
+        if (entitlements !== undefined) {
+          setAllowedRegions(entitlements.regions);
+        }
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    void (async () => {
+      const catalog = await getModels();
+      // Retired models stay in the catalog only for instances already running them
+      setModels(
+        catalog.filter(
+          (model) => model.deprecatedAt === null || new Date(model.deprecatedAt) > new Date()
+        )
+      );
+    })();
+  }, []);
 
   // Debounced token validation
-  const validateToken = useCallback(async (token: string) => {
-    if (token === "" || token.length < 10) {
+  const validateToken = useCallback(async (channel: ChannelInput) => {
+    if (
+      channel.botToken.length < 10 ||
+      (channel.type === "slack" && channel.appToken.length < 10)
+    ) {
       setTokenValidation({ status: "idle" });
       return;
     }
@@ -54,11 +122,10 @@ export default function NewInstancePage() {
     setTokenValidation({ status: "validating" });
 
     try {
-      const result = await validateTelegramToken(token);
+      const result = await validateChannel(channel);
       if (result.valid) {
         setTokenValidation({
           status: "valid",
-          botUsername: result.botUsername,
           botName: result.botName,
         });
       } else {
@@ -78,24 +145,28 @@ export default function NewInstancePage() {
   // Debounce effect for token validation
   useEffect(() => {
     const timer = setTimeout(() => {
-      void validateToken(formData.telegramBotToken);
+      void validateToken(
+        toChannelInput(formData.channelType, formData.botToken, formData.appToken)
+      );
     }, 500);
 
     return () => {
       clearTimeout(timer);
     };
-  }, [formData.telegramBotToken, validateToken]);
+  }, [formData.channelType, formData.botToken, formData.appToken, validateToken]);
 
   const handleSubmit = (e: React.SyntheticEvent<HTMLFormElement>) => {
     e.preventDefault();
 
-    if (formData.telegramBotToken.trim() === "") {
-      toast.error("Telegram bot token is required");
+    const channel = channelOptions[formData.channelType];
+
+    if (formData.botToken.trim() === "") {
+      toast.error(`${channel.label} bot token is required`);
       return;
     }
 
     if (tokenValidation.status !== "valid") {
-      toast.error("Please enter a valid Telegram bot token");
+      toast.error(`Please enter a valid ${channel.label} bot token`);
       return;
     }
 
@@ -107,7 +178,7 @@ export default function NewInstancePage() {
           name: formData.name,
           region: formData.region,
           aiModel: formData.aiModel,
-          telegramBotToken: formData.telegramBotToken,
+          channels: [toChannelInput(formData.channelType, formData.botToken, formData.appToken)],
         });
 
         if (result.success) {
@@ -168,17 +239,46 @@ export default function NewInstancePage() {
                 </p>
               </div>
 
-              {/* Telegram Bot Token */}
+              {/* Channel */}
+              <div className="space-y-2">
+                <Label htmlFor="channelType">Channel</Label>
+                <select
+                  id="channelType"
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                  value={formData.channelType}
+                  onChange={(e) => {
+                    setFormData({
+                      ...formData,
+                      channelType: e.target.value as ChannelType,
+                      botToken: "",
+                      appToken: "",
+                    });
+                  }}
+                >
+                  {Object.entries(channelOptions).map(([type, option]) => (
+                    <option key={type} value={type}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted-foreground">
+                  Where your bot answers. You can attach more channels once the instance exists.
+                </p>
+              </div>
+
+              {/* Bot Token */}
               <div className="space-y-2">
-                <Label htmlFor="telegramBotToken">Telegram Bot Token</Label>
+                <Label htmlFor="botToken">
+                  {channelOptions[formData.channelType].label} Bot Token
+                </Label>
                 <div className="relative">
                   <Input
-                    id="telegramBotToken"
+                    id="botToken"
                     type="password"
-                    placeholder="e.g., 123456:ABC-DEF1234ghIkl-zyx57W2v1u123ew11"
-                    value={formData.telegramBotToken}
+                    placeholder={channelOptions[formData.channelType].placeholder}
+                    value={formData.botToken}
                     onChange={(e) => {
-                      setFormData({ ...formData, telegramBotToken: e.target.value });
+                      setFormData({ ...formData, botToken: e.target.value });
                     }}
                     className={
                       tokenValidation.status === "valid"
@@ -201,16 +301,26 @@ export default function NewInstancePage() {
                     )}
                   </div>
                 </div>
-                {tokenValidation.status === "valid" &&
-                  tokenValidation.botUsername !== undefined && (
-                    <div className="flex items-center gap-2 p-2 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 rounded-md">
-                      <CheckCircle2 className="h-4 w-4 text-green-600" />
-                      <span className="text-sm text-green-700 dark:text-green-300">
-                        Connected to <strong>@{tokenValidation.botUsername}</strong>
-                        {tokenValidation.botName !== undefined && ` (${tokenValidation.botName})`}
-                      </span>
-                    </div>
-                  )}
+                {formData.channelType === "slack" && (
+                  <Input
+                    id="appToken"
+                    type="password"
+                    placeholder="App-level token (xapp-...)"
+                    value={formData.appToken}
+                    onChange={(e) => {
+                      setFormData({ ...formData, appToken: e.target.value });
+                    }}
+                    required
+                  />
+                )}
+                {tokenValidation.status === "valid" && tokenValidation.botName !== undefined && (
+                  <div className="flex items-center gap-2 p-2 bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 rounded-md">
+                    <CheckCircle2 className="h-4 w-4 text-green-600" />
+                    <span className="text-sm text-green-700 dark:text-green-300">
+                      Connected to <strong>{tokenValidation.botName}</strong>
+                    </span>
+                  </div>
+                )}
                 {tokenValidation.status === "invalid" && (
                   <div className="flex items-center gap-2 p-2 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 rounded-md">
                     <XCircle className="h-4 w-4 text-red-600" />
@@ -220,8 +330,8 @@ export default function NewInstancePage() {
                   </div>
                 )}
                 <p className="text-xs text-muted-foreground">
-                  Get this from @BotFather on Telegram. This token will be passed securely to your
-                  instance.
+                  {channelOptions[formData.channelType].help} This token will be passed securely to
+                  your instance.
                 </p>
               </div>
 
@@ -236,11 +346,15 @@ export default function NewInstancePage() {
                     setFormData({ ...formData, region: e.target.value });
                   }}
                 >
-                  {regions.map((region) => (
-                    <option key={region.value} value={region.value}>
-                      {region.label}
-                    </option>
-                  ))}
+                  {regions.map((region) => {
+                    const available =
+                      allowedRegions === "all" || allowedRegions.includes(region.value);
+                    return (
+                      <option key={region.value} value={region.value} disabled={!available}>
+                        {available ? region.label : `${region.label} (requires a higher plan)`}
+                      </option>
+                    );
+                  })}
                 </select>
                 <p className="text-xs text-muted-foreground">
                   Choose the region closest to your users for best performance
@@ -251,24 +365,30 @@ export default function NewInstancePage() {
               <div className="space-y-2">
                 <Label>Model</Label>
                 <div className="space-y-2">
+                  {models.length === 0 && (
+                    <p className="text-sm text-muted-foreground">Loading models...</p>
+                  )}
                   {models.map((model) => (
                     <label
-                      key={model.value}
-                      className="flex items-start gap-3 p-4 border rounded-lg cursor-pointer hover:bg-accent transition-colors"
+                      key={model.id}
+                      className={`flex items-start gap-3 p-4 border rounded-lg transition-colors ${
+                        model.available ? "cursor-pointer hover:bg-accent" : "opacity-50"
+                      }`}
                     >
                       <input
                         type="radio"
                         name="model"
-                        value={model.value}
-                        checked={formData.aiModel === model.value}
+                        value={model.id}
+                        checked={formData.aiModel === model.id}
+                        disabled={!model.available}
                         onChange={(e) => {
                           setFormData({ ...formData, aiModel: e.target.value });
                         }}
                         className="mt-1"
                       />
                       <div>
-                        <div className="font-medium">{model.label}</div>
-                        <div className="text-sm text-muted-foreground">{model.description}</div>
+                        <div className="font-medium">{model.displayName}</div>
+                        <div className="text-sm text-muted-foreground">{describeModel(model)}</div>
                       </div>
                     </label>
                   ))}
@@ -298,9 +418,9 @@ export default function NewInstancePage() {
           <CardContent>
             <ol className="list-decimal list-inside space-y-2 text-sm text-muted-foreground">
               <li>Your instance will be provisioned in the selected region</li>
-              <li>A Fly.io machine will be created with your Telegram bot</li>
+              <li>A Fly.io machine will be created with your bot</li>
               <li>Your instance will be available in approximately 30 seconds</li>
-              <li>The bot will start responding to messages on Telegram</li>
+              <li>The bot will start responding to messages on its channel</li>
             </ol>
           </CardContent>
         </Card>
@@ -0,0 +1,127 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { AiKey, AiKeyProvider } from "@fasterclaw/api-client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import toast from "react-hot-toast";
+import { saveAiKey, deleteAiKey } from "@/actions/ai-keys.actions";
+
+const PROVIDERS: { id: AiKeyProvider; name: string; placeholder: string }[] = [
+  { id: "openai", name: "OpenAI", placeholder: "sk-..." },
+  { id: "anthropic", name: "Anthropic", placeholder: "sk-ant-..." },
+  { id: "google", name: "Google", placeholder: "AIza..." },
+];
+
+interface AiKeysFormProps {
+  keys: AiKey[];
+}
+
+export function AiKeysForm({ keys }: AiKeysFormProps) {
+  const [drafts, setDrafts] = useState<Partial<Record<AiKeyProvider, string>>>({});
+  const [pending, setPending] = useState<AiKeyProvider | null>(null);
+  const router = useRouter();
+
+  const handleSave = (provider: AiKeyProvider, name: string) => {
+    const apiKey = drafts[provider]?.trim() ?? "";
+    if (apiKey === "") {
+      toast.error(`Enter your ${name} API key`);
+      return;
+    }
+
+    setPending(provider);
+
+    void (async () => {
+      try {
+        const result = await saveAiKey(provider, apiKey);
+        if (result.success) {
+          toast.success(`${name} key verified and saved`);
+          setDrafts({ ...drafts, [provider]: "" });
+          router.refresh();
+        } else {
+          toast.error(result.error);
+        }
+      } catch {
+        toast.error(`Failed to save ${name} key`);
+      } finally {
+        setPending(null);
+      }
+    })();
+  };
+
+  const handleRemove = (provider: AiKeyProvider, name: string) => {
+    if (!confirm(`Remove your ${name} API key?`)) {
+      return;
+    }
+
+    setPending(provider);
+
+    void (async () => {
+      try {
+        const result = await deleteAiKey(provider);
+        if (result.success) {
+          toast.success(`${name} key removed`);
+          router.refresh();
+        } else {
+          toast.error(result.error);
+        }
+      } catch {
+        toast.error(`Failed to remove ${name} key`);
+      } finally {
+        setPending(null);
+      }
+    })();
+  };
+
+  return (
+    <div className="space-y-6">
+      {PROVIDERS.map(({ id, name, placeholder }) => {
+        const saved = keys.find((key) => key.provider === id);
+        return (
+          <div key={id} className="space-y-2">
+            <Label htmlFor={`ai-key-${id}`}>{name}</Label>
+            {saved !== undefined && (
+              <div className="flex items-center justify-between rounded-md border px-3 py-2">
+                <code className="text-sm">{saved.maskedKey}</code>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  disabled={pending === id}
+                  onClick={() => {
+                    handleRemove(id, name);
+                  }}
+                >
+                  Remove
+                </Button>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Input
+                id={`ai-key-${id}`}
+                type="password"
+                autoComplete="off"
+                placeholder={saved !== undefined ? "Replace with a new key" : placeholder}
+                value={drafts[id] ?? ""}
+                onChange={(e) => {
+                  setDrafts({ ...drafts, [id]: e.target.value });
+                }}
+              />
+              <Button
+                type="button"
+                disabled={pending === id}
+                onClick={() => {
+                  handleSave(id, name);
+                }}
+              >
+                {pending === id ? "Checking..." : "Save"}
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -5,16 +5,29 @@ import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import toast from "react-hot-toast";
-import { deleteAccount } from "@/actions/auth.actions";
+import { deleteAccount, restoreAccount } from "@/actions/auth.actions";
 
-export function DangerZone() {
+interface DangerZoneProps {
+  /** When the account will be purged, if deletion was requested */
+  deletionScheduledFor: string | null;
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+export function DangerZone({ deletionScheduledFor }: DangerZoneProps) {
   const [loading, setLoading] = useState(false);
   const router = useRouter();
 
   const handleDeleteAccount = () => {
     if (
       !confirm(
-        "Are you sure you want to delete your account? This action cannot be undone. All your instances and data will be permanently deleted."
+        "Are you sure you want to delete your account? All your instances will be shut down and deleted right away. You can restore your account (but not its instances) by signing in again before it is permanently deleted."
       )
     ) {
       return;
@@ -26,7 +39,11 @@ export function DangerZone() {
       try {
         const result = await deleteAccount();
         if (result.success) {
-          toast.success("Account deleted successfully");
+          toast.success(
+            result.deletionScheduledFor != null
+              ? `Account will be permanently deleted on ${formatDate(result.deletionScheduledFor)}`
+              : "Account scheduled for deletion"
+          );
           router.push("/");
         } else {
           toast.error(result.error ?? "Failed to delete account");
@@ -39,6 +56,26 @@ export function DangerZone() {
     })();
   };
 
+  const handleRestoreAccount = () => {
+    setLoading(true);
+
+    void (async () => {
+      try {
+        const result = await restoreAccount();
+        if (result.success) {
+          toast.success("Account restored");
+          router.refresh();
+        } else {
+          toast.error(result.error ?? "Failed to restore account");
+        }
+      } catch {
+        toast.error("Failed to restore account");
+      } finally {
+        setLoading(false);
+      }
+    })();
+  };
+
   return (
     <Card className="border-destructive">
       <CardHeader>
@@ -47,17 +84,32 @@ export function DangerZone() {
       </CardHeader>
       <CardContent>
         <div className="space-y-4">
-          <div className="flex items-center justify-between">
-            <div>
-              <h3 className="font-medium">Delete Account</h3>
-              <p className="text-sm text-muted-foreground">
-                Permanently delete your account and all data
-              </p>
+          {deletionScheduledFor !== null ? (
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="font-medium">Account Scheduled for Deletion</h3>
+                <p className="text-sm text-muted-foreground">
+                  Your account and all data will be permanently deleted on{" "}
+                  {formatDate(deletionScheduledFor)}
+                </p>
+              </div>
+              <Button variant="outline" onClick={handleRestoreAccount} disabled={loading}>
+                {loading ? "Restoring..." : "Restore Account"}
+              </Button>
+            </div>
+          ) : (
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="font-medium">Delete Account</h3>
+                <p className="text-sm text-muted-foreground">
+                  Permanently delete your account and all data
+                </p>
+              </div>
+              <Button variant="destructive" onClick={handleDeleteAccount} disabled={loading}>
+                {loading ? "Deleting..." : "Delete Account"}
+              </Button>
             </div>
-            <Button variant="destructive" onClick={handleDeleteAccount} disabled={loading}>
-              {loading ? "Deleting..." : "Delete Account"}
-            </Button>
-          </div>
+          )}
         </div>
       </CardContent>
     </Card>
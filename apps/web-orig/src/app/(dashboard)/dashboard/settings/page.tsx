@@ -1,8 +1,10 @@
 import { redirect } from "next/navigation";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { getCurrentUser } from "@/actions/auth.actions";
+import { getAccountDeletionStatus, getCurrentUser } from "@/actions/auth.actions";
+import { getAiKeys } from "@/actions/ai-keys.actions";
 import { ProfileForm } from "./profile-form";
 import { PasswordForm } from "./password-form";
+import { AiKeysForm } from "./ai-keys-form";
 import { DangerZone } from "./danger-zone";
 
 export default async function SettingsPage() {
@@ -12,6 +14,8 @@ export default async function SettingsPage() {
     redirect("/sign-in");
   }
 
+  const [deletionStatus, aiKeys] = await Promise.all([getAccountDeletionStatus(), getAiKeys()]);
+
   return (
     <div className="p-8">
       {/* Header */}
@@ -43,8 +47,22 @@ export default async function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* AI Provider Keys */}
+        <Card>
+          <CardHeader>
+            <CardTitle>AI Provider Keys</CardTitle>
+            <CardDescription>
+              Use your own API keys instead of ours. Keys are checked with the provider before they
+              are saved and stored encrypted.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AiKeysForm keys={aiKeys} />
+          </CardContent>
+        </Card>
+
         {/* Danger Zone */}
-        <DangerZone />
+        <DangerZone deletionScheduledFor={deletionStatus?.deletionScheduledFor ?? null} />
       </div>
     </div>
   );
@@ -201,6 +201,14 @@ export default function PricingPage() {
                   transfers for Enterprise customers.
                 </p>
               </div>
+              <div>
+                <h3 className="font-semibold mb-2">Can I use my own AI API keys?</h3>
+                <p className="text-muted-foreground">
+                  Yes. Choose &quot;Bring your own AI keys&quot; at checkout to get every plan at a
+                  lower price ($29, $59 or $119 per month) and bill AI usage to your own OpenAI,
+                  Anthropic or Google account.
+                </p>
+              </div>
               <div>
                 <h3 className="font-semibold mb-2">Is there a setup fee?</h3>
                 <p className="text-muted-foreground">
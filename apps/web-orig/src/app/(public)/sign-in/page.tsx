@@ -9,7 +9,7 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import toast from "react-hot-toast";
-import { login } from "@/actions/auth.actions";
+import { login, loginWithTwoFactor } from "@/actions/auth.actions";
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:3001";
 
@@ -21,6 +21,9 @@ function SignInForm() {
     email: "",
     password: "",
   });
+  // Google sign-in sends accounts with two-factor on back with a challenge
+  const [challengeToken, setChallengeToken] = useState(searchParams.get("challengeToken"));
+  const [code, setCode] = useState("");
 
   useEffect(() => {
     const error = searchParams.get("error");
@@ -41,6 +44,11 @@ function SignInForm() {
           throw new Error(result.error ?? "Invalid email or password");
         }
 
+        if (result.challengeToken !== undefined) {
+          setChallengeToken(result.challengeToken);
+          return;
+        }
+
         toast.success("Signed in successfully!");
         const from = searchParams.get("from") ?? "/dashboard";
         router.push(from);
@@ -52,10 +60,74 @@ function SignInForm() {
     })();
   };
 
+  const handleTwoFactorSubmit = (e: React.SyntheticEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (challengeToken === null) {
+      return;
+    }
+    setLoading(true);
+
+    void (async () => {
+      try {
+        const result = await loginWithTwoFactor(challengeToken, code);
+
+        if (!result.success) {
+          setCode("");
+          throw new Error(result.error ?? "Invalid code");
+        }
+
+        toast.success("Signed in successfully!");
+        const from = searchParams.get("from") ?? "/dashboard";
+        router.push(from);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "Invalid code");
+      } finally {
+        setLoading(false);
+      }
+    })();
+  };
+
   const handleGoogleSignIn = () => {
     window.location.href = `${API_URL}/auth/google`;
   };
 
+  if (challengeToken !== null) {
+    return (
+      <form onSubmit={handleTwoFactorSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="code">Two-factor code</Label>
+          <Input
+            id="code"
+            placeholder="123456"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => {
+              setCode(e.target.value);
+            }}
+            required
+          />
+          <p className="text-sm text-muted-foreground">
+            Enter the code from your authenticator app, or one of your recovery codes.
+          </p>
+        </div>
+        <Button type="submit" className="w-full" disabled={loading}>
+          {loading ? "Verifying..." : "Verify"}
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          className="w-full"
+          onClick={() => {
+            setChallengeToken(null);
+            setCode("");
+          }}
+        >
+          Back
+        </Button>
+      </form>
+    );
+  }
+
   return (
     <div className="space-y-4">
       <Button type="button" variant="outline" className="w-full" onClick={handleGoogleSignIn}>
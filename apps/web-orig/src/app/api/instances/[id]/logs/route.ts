@@ -0,0 +1,51 @@
+/**
+ * Proxies a followed instance log stream to the browser.
+ *
+ * EventSource cannot send an Authorization header, so the log viewer connects
+ * here and the auth token from the cookie is attached server-side.
+ */
+
+import { getInstancesByIdLogs } from "@fasterclaw/api-client";
+import { createAuthenticatedClient, getAuthToken } from "@/lib/api-client";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const token = await getAuthToken();
+  if (token === null || token === "") {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  // Pass `since` through so the stream picks up after the lines already on screen
+  const since = new URL(request.url).searchParams.get("since") ?? undefined;
+
+  const client = await createAuthenticatedClient();
+  const { data, error, response } = await getInstancesByIdLogs({
+    client,
+    path: { id },
+    query: { follow: "true", since },
+    headers: { Accept: "text/event-stream" },
+    parseAs: "stream",
+    signal: request.signal,
+    cache: "no-store",
+  });
+
+  if (error !== undefined) {
+    return Response.json(
+      { error: "error" in error ? error.error : "Failed to open log stream" },
+      { status: response.status }
+    );
+  }
+
+  return new Response(data as unknown as ReadableStream<Uint8Array>, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -11,6 +11,7 @@ function CallbackHandler() {
 
   useEffect(() => {
     const token = searchParams.get("token");
+    const refreshToken = searchParams.get("refreshToken");
     const error = searchParams.get("error");
 
     if (error != null && error !== "") {
@@ -18,9 +19,9 @@ function CallbackHandler() {
       return;
     }
 
-    if (token != null && token !== "") {
-      // Store the token in an httpOnly cookie via server action
-      setAuthToken(token)
+    if (token != null && token !== "" && refreshToken != null && refreshToken !== "") {
+      // Store the session's tokens in httpOnly cookies via server action
+      setAuthToken(token, refreshToken)
         .then(() => {
           router.push("/dashboard");
         })
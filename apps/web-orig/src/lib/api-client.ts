@@ -45,10 +45,11 @@ export async function createAuthenticatedClient(): Promise<Client> {
  * Create an unauthenticated API client
  * Use this for public endpoints like login/register
  */
-export function getApiClient(): Client {
+export function getApiClient(headers: Record<string, string> = {}): Client {
   return createClient(
     createConfig({
       baseUrl: API_BASE_URL,
+      headers,
     })
   );
 }
@@ -0,0 +1,105 @@
+/**
+ * Session cookies for Server Actions and the middleware
+ *
+ * The API hands out a short-lived access token and a refresh token that is
+ * rotated on every use. Both live in httpOnly cookies; the middleware trades
+ * the refresh token for a new access token shortly before the old one expires.
+ */
+
+import { postAuthRefresh, type SessionTokens } from "@fasterclaw/api-client";
+import { getApiClient } from "@/lib/api-client";
+
+export const AUTH_COOKIE = "auth_token";
+export const REFRESH_COOKIE = "refresh_token";
+
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_SECONDS = 30;
+// The API decides when a session lapses; the cookies just have to outlive it
+const SESSION_COOKIE_MAX_AGE = 60 * 60 * 24 * 30; // 30 days
+
+interface CookieWriter {
+  set: (
+    name: string,
+    value: string,
+    options: { httpOnly: boolean; secure: boolean; sameSite: "lax"; maxAge: number }
+  ) => unknown;
+}
+
+/**
+ * Store a session's tokens in cookies
+ */
+export function setSessionCookies(
+  cookies: CookieWriter,
+  tokens: Pick<SessionTokens, "accessToken" | "refreshToken">
+): void {
+  const options = {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    maxAge: SESSION_COOKIE_MAX_AGE,
+  };
+  cookies.set(AUTH_COOKIE, tokens.accessToken, options);
+  cookies.set(REFRESH_COOKIE, tokens.refreshToken, options);
+}
+
+/**
+ * Remove the session cookies
+ */
+export function clearSessionCookies(cookies: { delete: (name: string) => unknown }): void {
+  cookies.delete(AUTH_COOKIE);
+  cookies.delete(REFRESH_COOKIE);
+}
+
+/**
+ * Whether an access token is missing or about to expire
+ */
+export function accessTokenNeedsRefresh(token: string | undefined): boolean {
+  if (token === undefined || token === "") {
+    return true;
+  }
+  try {
+    const payload = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    const { exp } = JSON.parse(atob(payload)) as { exp?: number };
+    return exp === undefined || exp - REFRESH_MARGIN_SECONDS <= Date.now() / 1000;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * The browser's user agent and address, forwarded so the API can show which
+ * device a session belongs to
+ */
+export function getDeviceHeaders(source: Headers): Record<string, string> {
+  const device: Record<string, string> = {};
+  const userAgent = source.get("user-agent");
+  const address = source.get("x-forwarded-for") ?? source.get("x-real-ip");
+  if (userAgent !== null) {
+    device["user-agent"] = userAgent;
+  }
+  if (address !== null) {
+    device["x-forwarded-for"] = address;
+  }
+  return device;
+}
+
+/**
+ * Trade a refresh token for new tokens. Returns null when the API ended the
+ * session and throws when the API could not be reached.
+ */
+export async function refreshSessionTokens(
+  refreshToken: string,
+  device: Record<string, string>
+): Promise<SessionTokens | null> {
+  const { data, response } = await postAuthRefresh({
+    client: getApiClient(device),
+    body: { refreshToken },
+  });
+  if (data) {
+    return data;
+  }
+  if (response.status === 401) {
+    return null;
+  }
+  throw new Error(`Refreshing the session failed with status ${String(response.status)}`);
+}
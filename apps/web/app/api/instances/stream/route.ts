@@ -0,0 +1,57 @@
+/**
+ * Proxies the API's instance event stream to the browser.
+ *
+ * EventSource cannot send an Authorization header and the auth token lives in
+ * an httpOnly cookie, so the dashboard connects here and we attach the token
+ * server-side, along with the organization the dashboard is showing.
+ */
+
+import { API_BASE_URL, getAuthToken, getOrganizationId } from "@/lib/api-client";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request): Promise<Response> {
+    const token = await getAuthToken();
+    if (token === null || token === "") {
+        return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const headers: Record<string, string> = {
+        Authorization: `Bearer ${token}`,
+        Accept: "text/event-stream",
+    };
+    const organizationId = await getOrganizationId();
+    if (organizationId !== null && organizationId !== "") {
+        headers["X-Organization-Id"] = organizationId;
+    }
+
+    let upstream: Response;
+    try {
+        upstream = await fetch(`${API_BASE_URL}/instances/stream`, {
+            headers,
+            signal: request.signal,
+            cache: "no-store",
+        });
+    } catch {
+        // The API is down, or the browser went away before it answered
+        return Response.json(
+            { error: "Failed to open instance stream" },
+            { status: 502 }
+        );
+    }
+
+    if (!upstream.ok || upstream.body === null) {
+        return Response.json(
+            { error: "Failed to open instance stream" },
+            { status: upstream.status === 401 ? 401 : 502 }
+        );
+    }
+
+    return new Response(upstream.body, {
+        headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+        },
+    });
+}
@@ -1,12 +1,13 @@
 "use client";
 
-import { useState } from "react";
-import type { Instance } from "@fasterclaw/api-client";
+import { useEffect, useState } from "react";
+import type { AiModel, Instance } from "@fasterclaw/api-client";
 import Icon from "@/components/Icon";
 import {
     createInstance,
     validateTelegramToken,
 } from "@/actions/instances.actions";
+import { getModels } from "@/actions/models.actions";
 
 type CreateInstanceModalProps = {
     onClose: () => void;
@@ -17,7 +18,8 @@ const CreateInstanceModal = ({ onClose, onCreate }: CreateInstanceModalProps) =>
     const [name, setName] = useState("");
     const [telegramToken, setTelegramToken] = useState("");
     const [region, setRegion] = useState("iad");
-    const [aiModel, setAiModel] = useState("gpt-4o-mini");
+    const [models, setModels] = useState<AiModel[]>([]);
+    const [aiModel, setAiModel] = useState("");
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [isValidatingToken, setIsValidatingToken] = useState(false);
@@ -26,6 +28,22 @@ const CreateInstanceModal = ({ onClose, onCreate }: CreateInstanceModalProps) =>
         botUsername?: string;
     } | null>(null);
 
+    useEffect(() => {
+        void getModels().then((catalog) => {
+            // Retired models are only kept in the catalog for existing instances
+            const offered = catalog.filter(
+                (model) =>
+                    model.deprecatedAt === null ||
+                    new Date(model.deprecatedAt) > new Date()
+            );
+            setModels(offered);
+            const firstAvailable = offered.find((model) => model.available);
+            if (firstAvailable !== undefined) {
+                setAiModel(firstAvailable.id);
+            }
+        });
+    }, []);
+
     const handleValidateToken = async () => {
         if (!telegramToken.trim()) {
             setError("Please enter a Telegram token");
@@ -196,12 +214,22 @@ const CreateInstanceModal = ({ onClose, onCreate }: CreateInstanceModalProps) =>
                                 onChange={(e) => setAiModel(e.target.value)}
                                 disabled={isLoading}
                             >
-                                <option value="gpt-4o-mini">GPT-4o Mini</option>
-                                <option value="gpt-4o">GPT-4o</option>
-                                <option value="gpt-4-turbo">GPT-4 Turbo</option>
-                                <option value="claude-3-5-sonnet-20241022">
-                                    Claude 3.5 Sonnet
-                                </option>
+                                {models.length === 0 && (
+                                    <option value="">Loading models...</option>
+                                )}
+                                {models.map((model) => (
+                                    <option
+                                        key={model.id}
+                                        value={model.id}
+                                        disabled={!model.available}
+                                    >
+                                        {model.displayName}
+                                        {!model.available && " (upgrade required)"}
+                                        {model.available &&
+                                            model.deprecatedAt !== null &&
+                                            " (deprecated)"}
+                                    </option>
+                                ))}
                             </select>
                         </div>
 
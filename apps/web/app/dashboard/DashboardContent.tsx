@@ -1,7 +1,7 @@
 "use client";
 
-import { useState } from "react";
-import type { Instance } from "@fasterclaw/api-client";
+import { useEffect, useState } from "react";
+import type { Instance, InstanceEvent } from "@fasterclaw/api-client";
 import Layout from "@/components/Layout";
 import Icon from "@/components/Icon";
 import InstanceCard from "./InstanceCard";
@@ -15,13 +15,47 @@ const DashboardContent = ({ instances: initialInstances }: DashboardContentProps
     const [instances, setInstances] = useState<Instance[]>(initialInstances);
     const [search, setSearch] = useState<string>("");
     const [showCreateModal, setShowCreateModal] = useState<boolean>(false);
+    const [latestEvents, setLatestEvents] = useState<Record<string, InstanceEvent>>({});
+
+    // Live status updates pushed by the API (proxied through app/api/instances/stream).
+    // EventSource reconnects on its own if the connection drops.
+    useEffect(() => {
+        const source = new EventSource("/api/instances/stream");
+
+        source.addEventListener("instance", (message) => {
+            const updated = JSON.parse((message as MessageEvent<string>).data) as Instance;
+            setInstances((prev) => {
+                if (updated.status === "DELETED") {
+                    return prev.filter((instance) => instance.id !== updated.id);
+                }
+                if (!prev.some((instance) => instance.id === updated.id)) {
+                    return [...prev, updated];
+                }
+                return prev.map((instance) => (instance.id === updated.id ? updated : instance));
+            });
+        });
+
+        source.addEventListener("event", (message) => {
+            const event = JSON.parse((message as MessageEvent<string>).data) as InstanceEvent;
+            setLatestEvents((prev) => ({ ...prev, [event.instanceId]: event }));
+        });
+
+        return () => {
+            source.close();
+        };
+    }, []);
 
     const filteredInstances = instances.filter((instance) =>
         instance.name.toLowerCase().includes(search.toLowerCase())
     );
 
     const handleInstanceCreated = (newInstance: Instance) => {
-        setInstances((prev) => [...prev, newInstance]);
+        // The stream may already have delivered this instance
+        setInstances((prev) =>
+            prev.some((instance) => instance.id === newInstance.id)
+                ? prev
+                : [...prev, newInstance]
+        );
         setShowCreateModal(false);
     };
 
@@ -118,6 +152,7 @@ const DashboardContent = ({ instances: initialInstances }: DashboardContentProps
                                 <InstanceCard
                                     key={instance.id}
                                     instance={instance}
+                                    latestEvent={latestEvents[instance.id]}
                                     onUpdate={handleInstanceUpdated}
                                     onDelete={handleInstanceDeleted}
                                 />
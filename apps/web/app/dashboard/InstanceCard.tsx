@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import type { Instance } from "@fasterclaw/api-client";
+import type { Instance, InstanceEvent } from "@fasterclaw/api-client";
 import Icon from "@/components/Icon";
 import {
     startInstance,
@@ -12,6 +12,8 @@ import {
 
 type InstanceCardProps = {
     instance: Instance;
+    /** Most recent timeline event received over the live stream */
+    latestEvent?: InstanceEvent;
     onUpdate: (instance: Instance) => void;
     onDelete: (id: string) => void;
 };
@@ -23,8 +25,10 @@ const getStatusColor = (status: string) => {
         case "STOPPED":
             return "text-n-4";
         case "CREATING":
+        case "PROVISIONING":
         case "STARTING":
         case "STOPPING":
+        case "DELETING":
             return "text-yellow-500";
         case "FAILED":
         case "ERROR":
@@ -41,8 +45,10 @@ const getStatusIcon = (status: string) => {
         case "STOPPED":
             return "pause";
         case "CREATING":
+        case "PROVISIONING":
         case "STARTING":
         case "STOPPING":
+        case "DELETING":
             return "clock";
         case "FAILED":
         case "ERROR":
@@ -52,7 +58,7 @@ const getStatusIcon = (status: string) => {
     }
 };
 
-const InstanceCard = ({ instance, onUpdate, onDelete }: InstanceCardProps) => {
+const InstanceCard = ({ instance, latestEvent, onUpdate, onDelete }: InstanceCardProps) => {
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
@@ -115,9 +121,13 @@ const InstanceCard = ({ instance, onUpdate, onDelete }: InstanceCardProps) => {
     const isRunning = instance.status.toUpperCase() === "RUNNING";
     const isStopped = instance.status.toUpperCase() === "STOPPED";
     const isFailed = ["FAILED", "ERROR"].includes(instance.status.toUpperCase());
-    const isTransitioning = ["CREATING", "STARTING", "STOPPING"].includes(
-        instance.status.toUpperCase()
-    );
+    const isTransitioning = [
+        "CREATING",
+        "PROVISIONING",
+        "STARTING",
+        "STOPPING",
+        "DELETING",
+    ].includes(instance.status.toUpperCase());
 
     return (
         <div className="flex flex-col w-[calc(33.333%-3.5rem)] mx-7 mt-16 2xl:w-[calc(33.333%-2rem)] 2xl:mx-4 2xl:mt-12 lg:w-[calc(50%-2rem)] md:w-full md:mx-0 md:mt-10 p-6 bg-n-2 dark:bg-n-7 rounded-xl border-2 border-n-3 dark:border-n-6">
@@ -152,6 +162,10 @@ const InstanceCard = ({ instance, onUpdate, onDelete }: InstanceCardProps) => {
                 </div>
             </div>
 
+            {(isTransitioning || isFailed) && latestEvent?.message != null && (
+                <div className="mb-4 caption1 text-n-4">{latestEvent.message}</div>
+            )}
+
             {error && (
                 <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg">
                     <div className="caption1 text-red-500">{error}</div>
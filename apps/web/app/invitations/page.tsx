@@ -0,0 +1,16 @@
+import { Suspense } from "react";
+import type { NextPage } from "next";
+import SignInPage from "@/templates/SignInPage";
+import AcceptInvitation from "@/templates/SignInPage/AcceptInvitation";
+
+const InvitationsPage: NextPage = () => {
+    return (
+        <SignInPage>
+            <Suspense>
+                <AcceptInvitation />
+            </Suspense>
+        </SignInPage>
+    );
+};
+
+export default InvitationsPage;
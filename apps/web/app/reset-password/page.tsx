@@ -0,0 +1,16 @@
+import { Suspense } from "react";
+import type { NextPage } from "next";
+import SignInPage from "@/templates/SignInPage";
+import ResetPassword from "@/templates/SignInPage/ResetPassword";
+
+const ResetPasswordPage: NextPage = () => {
+    return (
+        <SignInPage>
+            <Suspense>
+                <ResetPassword />
+            </Suspense>
+        </SignInPage>
+    );
+};
+
+export default ResetPasswordPage;
@@ -0,0 +1,16 @@
+import { Suspense } from "react";
+import type { NextPage } from "next";
+import SignInPage from "@/templates/SignInPage";
+import VerifyEmail from "@/templates/SignInPage/VerifyEmail";
+
+const VerifyEmailPage: NextPage = () => {
+    return (
+        <SignInPage>
+            <Suspense>
+                <VerifyEmail />
+            </Suspense>
+        </SignInPage>
+    );
+};
+
+export default VerifyEmailPage;
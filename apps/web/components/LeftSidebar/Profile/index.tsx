@@ -10,8 +10,9 @@ import Modal from "@/components/Modal";
 import Settings from "@/components/Settings";
 import { getCurrentUser, logout } from "@/actions/auth.actions";
 import { getSubscription } from "@/actions/billing.actions";
+import { getOrganizations, switchOrganization } from "@/actions/organizations.actions";
 import { getVisibleSettings } from "@/constants/settings";
-import type { User, Subscription } from "@fasterclaw/api-client";
+import type { User, Subscription, Organization } from "@fasterclaw/api-client";
 
 interface ProfileProps {
   visible?: boolean;
@@ -20,6 +21,8 @@ interface ProfileProps {
 const Profile = ({ visible = false }: ProfileProps) => {
   const [user, setUser] = useState<User | null>(null);
   const [subscription, setSubscription] = useState<Subscription | null>(null);
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [organization, setOrganization] = useState<Organization | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [visibleSettings, setVisibleSettings] = useState<boolean>(false);
   const router = useRouter();
@@ -30,6 +33,10 @@ const Profile = ({ visible = false }: ProfileProps) => {
       setUser(currentUser);
 
       if (currentUser !== null) {
+        const { organizations: memberships, active } = await getOrganizations();
+        setOrganizations(memberships);
+        setOrganization(active);
+
         const subscriptionResult = await getSubscription();
         if (subscriptionResult.success) {
           setSubscription(subscriptionResult.data.subscription);
@@ -41,6 +48,16 @@ const Profile = ({ visible = false }: ProfileProps) => {
     void fetchData();
   }, []);
 
+  // The subscription and every instance page follow the selected organization
+  const handleSwitch = async (selected: Organization) => {
+    await switchOrganization(selected.id);
+    setOrganization(selected);
+
+    const subscriptionResult = await getSubscription();
+    setSubscription(subscriptionResult.success ? subscriptionResult.data.subscription : null);
+    router.refresh();
+  };
+
   const handleLogout = () => {
     void logout().then(() => {
       router.push("/sign-in");
@@ -115,6 +132,31 @@ const Profile = ({ visible = false }: ProfileProps) => {
                       <div className="caption1 text-n-4 truncate">{user.email}</div>
                     </div>
                   </div>
+                  {organizations.length > 0 && (
+                    <div className="mb-3 px-3 bg-n-2 rounded-xl dark:bg-n-6">
+                      {organizations.map((item) => (
+                        <Menu.Item key={item.id}>
+                          <button
+                            className="group flex items-center w-full h-11 base2 font-semibold transition-colors hover:text-primary-1"
+                            onClick={() => {
+                              void handleSwitch(item);
+                            }}
+                          >
+                            <Icon
+                              className={`mr-3 transition-colors group-hover:fill-primary-1 ${
+                                item.id === organization?.id ? "fill-primary-1" : "fill-n-4"
+                              }`}
+                              name={item.id === organization?.id ? "check-circle" : "users-plus"}
+                            />
+                            <span className="truncate">{item.name}</span>
+                            <span className="ml-auto pl-2 caption1 text-n-4 capitalize">
+                              {item.role}
+                            </span>
+                          </button>
+                        </Menu.Item>
+                      ))}
+                    </div>
+                  )}
                   <div className="px-3 bg-n-2 rounded-xl dark:bg-n-6">
                     <Menu.Item>
                       <button
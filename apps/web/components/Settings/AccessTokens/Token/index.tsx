@@ -0,0 +1,53 @@
+import type { AccessToken } from "@fasterclaw/api-client";
+
+type TokenProps = {
+    item: AccessToken;
+    onRevoke: () => void;
+};
+
+const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+    });
+
+const Token = ({ item, onRevoke }: TokenProps) => {
+    const expired =
+        item.expiresAt !== null && new Date(item.expiresAt) <= new Date();
+
+    return (
+        <div className="flex items-start py-6 border-t border-n-3 dark:border-n-6">
+            <div className="grow">
+                <div className="mb-1 base1 font-semibold text-n-6 dark:text-n-3">
+                    {item.name}
+                    {expired && (
+                        <span className="ml-2 caption1 text-accent-1">
+                            Expired
+                        </span>
+                    )}
+                </div>
+                <div className="base2 text-n-4">
+                    <p className="font-mono">{item.maskedToken}</p>
+                    <p>{item.scopes.join(", ")}</p>
+                    <p>
+                        {item.lastUsedAt
+                            ? `Last used ${formatDate(item.lastUsedAt)}`
+                            : "Never used"}
+                        {" · "}
+                        {item.expiresAt
+                            ? `${expired ? "Expired" : "Expires"} ${formatDate(
+                                  item.expiresAt
+                              )}`
+                            : "No expiry"}
+                    </p>
+                </div>
+            </div>
+            <button className="btn-stroke-light shrink-0 ml-4" onClick={onRevoke}>
+                Revoke
+            </button>
+        </div>
+    );
+};
+
+export default Token;
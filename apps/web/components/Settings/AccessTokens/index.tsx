@@ -0,0 +1,212 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Field from "@/components/Field";
+import Checkbox from "@/components/Checkbox";
+import Select from "@/components/Select";
+import {
+    getAccessTokens,
+    createAccessToken,
+    revokeAccessToken,
+} from "@/actions/auth.actions";
+import type {
+    AccessToken,
+    AccessTokenScope,
+    CreatedAccessToken,
+} from "@fasterclaw/api-client";
+import Token from "./Token";
+
+const scopes: { id: AccessTokenScope; title: string }[] = [
+    { id: "instances:read", title: "Read instances" },
+    { id: "instances:write", title: "Create and manage instances" },
+    { id: "billing:read", title: "Read subscription and invoices" },
+];
+
+const expiries = [
+    { id: 30, title: "30 days" },
+    { id: 90, title: "90 days" },
+    { id: 365, title: "1 year" },
+    { id: 0, title: "No expiry" },
+];
+
+type AccessTokensProps = {};
+
+const AccessTokens = ({}: AccessTokensProps) => {
+    const [tokens, setTokens] = useState<AccessToken[]>([]);
+    const [created, setCreated] = useState<CreatedAccessToken | null>(null);
+    const [name, setName] = useState<string>("");
+    const [selectedScopes, setSelectedScopes] = useState<AccessTokenScope[]>([
+        "instances:read",
+    ]);
+    const [expiry, setExpiry] = useState<any>(expiries[1]);
+    const [loading, setLoading] = useState<boolean>(false);
+    const [initialLoading, setInitialLoading] = useState<boolean>(true);
+    const [error, setError] = useState<string>("");
+
+    useEffect(() => {
+        const loadTokens = async () => {
+            try {
+                setTokens(await getAccessTokens());
+            } catch (err) {
+                console.error("Failed to load access tokens:", err);
+            } finally {
+                setInitialLoading(false);
+            }
+        };
+
+        loadTokens();
+    }, []);
+
+    const toggleScope = (scope: AccessTokenScope) =>
+        setSelectedScopes((current) =>
+            current.includes(scope)
+                ? current.filter((item) => item !== scope)
+                : [...current, scope]
+        );
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError("");
+        setCreated(null);
+
+        if (selectedScopes.length === 0) {
+            setError("Pick at least one scope");
+            return;
+        }
+
+        setLoading(true);
+
+        try {
+            const result = await createAccessToken({
+                name,
+                scopes: selectedScopes,
+                expiresInDays: expiry.id === 0 ? null : expiry.id,
+            });
+
+            if (result.success && result.accessToken) {
+                const { token, ...accessToken } = result.accessToken;
+                setCreated(result.accessToken);
+                setTokens((current) => [accessToken, ...current]);
+                setName("");
+            } else {
+                setError(result.error || "Failed to create token");
+            }
+        } catch (err) {
+            setError("An unexpected error occurred");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleRevoke = async (accessToken: AccessToken) => {
+        setError("");
+
+        const result = await revokeAccessToken(accessToken.id);
+
+        if (!result.success) {
+            setError(result.error || "Failed to revoke token");
+            return;
+        }
+
+        if (created?.id === accessToken.id) {
+            setCreated(null);
+        }
+        setTokens((current) =>
+            current.filter((item) => item.id !== accessToken.id)
+        );
+    };
+
+    return (
+        <>
+            <div className="mb-8 h4 md:mb-6">API tokens</div>
+            <div className="mb-8 base2 text-n-4 md:mb-6">
+                Personal access tokens let scripts call the FasterClaw API as
+                you. Send one as a bearer token; it can only do what its
+                scopes allow.
+            </div>
+
+            {error && (
+                <div className="mb-6 p-4 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400">
+                    {error}
+                </div>
+            )}
+
+            {created && (
+                <div className="mb-6">
+                    <div className="mb-3 base2 font-semibold text-n-6 dark:text-n-1">
+                        {created.name}
+                    </div>
+                    <div className="mb-3 caption1 text-n-4">
+                        Copy the token now; it is not shown again.
+                    </div>
+                    <div className="p-4 rounded-xl bg-n-2 font-mono base2 break-all dark:bg-n-7">
+                        {created.token}
+                    </div>
+                </div>
+            )}
+
+            <form className="mb-8" action="" onSubmit={handleCreate}>
+                <Field
+                    className="mb-6"
+                    label="Name"
+                    placeholder="What the token is for"
+                    icon="container"
+                    value={name}
+                    onChange={(e: any) => setName(e.target.value)}
+                    required
+                    disabled={loading}
+                />
+                <div className="mb-3 base2 font-semibold text-n-6 dark:text-n-1">
+                    Scopes
+                </div>
+                <div className="mb-6 space-y-3">
+                    {scopes.map((scope) => (
+                        <Checkbox
+                            label={`${scope.title} (${scope.id})`}
+                            value={selectedScopes.includes(scope.id)}
+                            onChange={() => toggleScope(scope.id)}
+                            key={scope.id}
+                        />
+                    ))}
+                </div>
+                <Select
+                    className="mb-6"
+                    label="Expires after"
+                    items={expiries}
+                    value={expiry}
+                    onChange={setExpiry}
+                />
+                <button
+                    className="btn-blue w-full"
+                    type="submit"
+                    disabled={loading}
+                >
+                    {loading ? "Creating..." : "Create token"}
+                </button>
+            </form>
+
+            <div className="py-3 base2 text-n-4">Tokens</div>
+            <div>
+                {initialLoading ? (
+                    <div className="py-6 border-t border-n-3 base2 text-n-4 dark:border-n-6">
+                        Loading tokens...
+                    </div>
+                ) : tokens.length === 0 ? (
+                    <div className="py-6 border-t border-n-3 base2 text-n-4 dark:border-n-6">
+                        No tokens yet.
+                    </div>
+                ) : (
+                    tokens.map((accessToken) => (
+                        <Token
+                            item={accessToken}
+                            onRevoke={() => handleRevoke(accessToken)}
+                            key={accessToken.id}
+                        />
+                    ))
+                )}
+            </div>
+        </>
+    );
+};
+
+export default AccessTokens;
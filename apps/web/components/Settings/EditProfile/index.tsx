@@ -4,7 +4,11 @@ import { useState, useEffect } from "react";
 import Image from "@/components/Image";
 import Icon from "@/components/Icon";
 import Field from "@/components/Field";
-import { updateProfile, getCurrentUser } from "@/actions/auth.actions";
+import {
+    updateProfile,
+    getCurrentUser,
+    resendVerificationEmail,
+} from "@/actions/auth.actions";
 import type { User } from "@fasterclaw/api-client";
 
 type EditProfileProps = {};
@@ -16,6 +20,8 @@ const EditProfile = ({}: EditProfileProps) => {
     const [error, setError] = useState<string>("");
     const [success, setSuccess] = useState<string>("");
     const [initialLoading, setInitialLoading] = useState<boolean>(true);
+    const [emailVerified, setEmailVerified] = useState<boolean>(true);
+    const [resending, setResending] = useState<boolean>(false);
 
     useEffect(() => {
         const loadCurrentUser = async () => {
@@ -23,6 +29,7 @@ const EditProfile = ({}: EditProfileProps) => {
                 const user = await getCurrentUser();
                 if (user) {
                     setName(user.name || "");
+                    setEmailVerified(user.emailVerified);
                 }
             } catch (err) {
                 console.error("Failed to load user:", err);
@@ -64,6 +71,26 @@ const EditProfile = ({}: EditProfileProps) => {
         }
     };
 
+    const handleResend = async () => {
+        setError("");
+        setSuccess("");
+        setResending(true);
+
+        try {
+            const result = await resendVerificationEmail();
+
+            if (result.success) {
+                setSuccess("Verification email sent, check your inbox");
+            } else {
+                setError(result.error || "Failed to send verification email");
+            }
+        } catch (err) {
+            setError("An unexpected error occurred");
+        } finally {
+            setResending(false);
+        }
+    };
+
     if (initialLoading) {
         return (
             <div className="flex justify-center items-center py-8">
@@ -88,6 +115,22 @@ const EditProfile = ({}: EditProfileProps) => {
                 </div>
             )}
 
+            {!emailVerified && (
+                <div className="flex items-center justify-between mb-6 p-4 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-yellow-700 dark:text-yellow-400">
+                    <span className="mr-4">
+                        Your email address is not verified yet.
+                    </span>
+                    <button
+                        type="button"
+                        className="shrink-0 base2 font-semibold underline disabled:opacity-50"
+                        onClick={handleResend}
+                        disabled={resending}
+                    >
+                        {resending ? "Sending..." : "Resend email"}
+                    </button>
+                </div>
+            )}
+
             <div className="mb-3 base2 font-semibold text-n-6 dark:text-n-1">
                 Avatar
             </div>
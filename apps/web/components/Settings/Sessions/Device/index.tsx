@@ -1,15 +1,21 @@
+import type { Session } from "@fasterclaw/api-client";
 import Image from "@/components/Image";
 
 type DeviceProps = {
-    item: any;
+    item: Session;
+    onRevoke: () => void;
 };
 
-const Device = ({ item }: DeviceProps) => (
+const Device = ({ item, onRevoke }: DeviceProps) => (
     <div className="flex items-start py-6 border-t border-n-3 dark:border-n-6">
         <div className="flex justify-center items-center shrink-0 w-12 h-12 mr-4 px-2 bg-n-3 rounded-xl dark:bg-n-5">
             <Image
                 className="w-full"
-                src={item.image}
+                src={
+                    item.device.startsWith("Safari")
+                        ? "/images/safari.svg"
+                        : "/images/chrome.svg"
+                }
                 width={32}
                 height={32}
                 alt=""
@@ -17,14 +23,28 @@ const Device = ({ item }: DeviceProps) => (
         </div>
         <div className="grow">
             <div className="mb-1 base1 font-semibold text-n-6 dark:text-n-3">
-                {item.title}
+                {item.device}
+                {item.current && (
+                    <span className="ml-2 caption1 text-primary-1">
+                        This device
+                    </span>
+                )}
             </div>
             <div className="base2 text-n-4">
-                <p>{item.address}</p>
-                <p>{item.date}</p>
+                <p>{item.ipAddress ?? "Unknown address"}</p>
+                <p>
+                    Signed in{" "}
+                    {new Date(item.createdAt).toLocaleDateString("en-US", {
+                        month: "short",
+                        day: "numeric",
+                        year: "numeric",
+                    })}
+                </p>
             </div>
         </div>
-        <button className="btn-stroke-light shrink-0 ml-4">Revoke</button>
+        <button className="btn-stroke-light shrink-0 ml-4" onClick={onRevoke}>
+            Revoke
+        </button>
     </div>
 );
 
@@ -1,46 +1,116 @@
-import Device from "./Device";
+"use client";
 
-const devices = [
-    {
-        id: "0",
-        title: "Chrome on iPhone",
-        image: "/images/chrome.svg",
-        address: "222.225.225.222",
-        date: "Signed in Nov 17, 2023",
-    },
-    {
-        id: "1",
-        title: "Chrome on Macbook Pro",
-        image: "/images/chrome.svg",
-        address: "222.225.225.222",
-        date: "Signed in Nov 17, 2023",
-    },
-    {
-        id: "2",
-        title: "Safari on Macbook Pro",
-        image: "/images/safari.svg",
-        address: "222.225.225.222",
-        date: "Signed in Nov 17, 2023",
-    },
-];
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import type { Session } from "@fasterclaw/api-client";
+import {
+    getSessions,
+    revokeSession,
+    signOutAllDevices,
+} from "@/actions/auth.actions";
+import Device from "./Device";
 
 type SessionsProps = {};
 
-const Sessions = ({}: SessionsProps) => (
-    <>
-        <div className="mb-8 h4 md:mb-6">Your sessions</div>
-        <div className="mb-8 base2 text-n-4 md:mb-6">
-            This is a list of devices that have logged into your account. Revoke
-            any sessions that you do not recognize.
-        </div>
-        <div className="py-3 base2 text-n-4">Devices</div>
-        <div className="mb-6">
-            {devices.map((device) => (
-                <Device item={device} key={device.id} />
-            ))}
-        </div>
-        <button className="btn-blue w-full">Sign out all devices</button>
-    </>
-);
+const Sessions = ({}: SessionsProps) => {
+    const [sessions, setSessions] = useState<Session[]>([]);
+    const [loading, setLoading] = useState<boolean>(false);
+    const [error, setError] = useState<string>("");
+    const [initialLoading, setInitialLoading] = useState<boolean>(true);
+    const router = useRouter();
+
+    useEffect(() => {
+        const loadSessions = async () => {
+            try {
+                setSessions(await getSessions());
+            } catch (err) {
+                console.error("Failed to load sessions:", err);
+            } finally {
+                setInitialLoading(false);
+            }
+        };
+
+        loadSessions();
+    }, []);
+
+    const handleRevoke = async (session: Session) => {
+        setError("");
+
+        const result = await revokeSession(session.id);
+
+        if (!result.success) {
+            setError(result.error || "Failed to revoke session");
+            return;
+        }
+
+        if (session.current) {
+            router.push("/sign-in");
+            return;
+        }
+
+        setSessions((current) =>
+            current.filter((item) => item.id !== session.id)
+        );
+    };
+
+    const handleSignOutAll = async () => {
+        setError("");
+        setLoading(true);
+
+        try {
+            const result = await signOutAllDevices();
+
+            if (result.success) {
+                router.push("/sign-in");
+            } else {
+                setError(result.error || "Failed to sign out");
+                setLoading(false);
+            }
+        } catch (err) {
+            setError("An unexpected error occurred");
+            setLoading(false);
+        }
+    };
+
+    return (
+        <>
+            <div className="mb-8 h4 md:mb-6">Your sessions</div>
+            <div className="mb-8 base2 text-n-4 md:mb-6">
+                This is a list of devices that have logged into your account.
+                Revoke any sessions that you do not recognize.
+            </div>
+
+            {error && (
+                <div className="mb-6 p-4 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400">
+                    {error}
+                </div>
+            )}
+
+            <div className="py-3 base2 text-n-4">Devices</div>
+            <div className="mb-6">
+                {initialLoading ? (
+                    <div className="py-6 border-t border-n-3 base2 text-n-4 dark:border-n-6">
+                        Loading sessions...
+                    </div>
+                ) : (
+                    sessions.map((session) => (
+                        <Device
+                            item={session}
+                            onRevoke={() => handleRevoke(session)}
+                            key={session.id}
+                        />
+                    ))
+                )}
+            </div>
+            <button
+                className="btn-blue w-full"
+                onClick={handleSignOutAll}
+                disabled={loading}
+            >
+                {loading ? "Signing out..." : "Sign out all devices"}
+            </button>
+        </>
+    );
+};
 
 export default Sessions;
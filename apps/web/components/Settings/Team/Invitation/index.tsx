@@ -0,0 +1,33 @@
+import type { OrganizationInvitation } from "@fasterclaw/api-client";
+
+type InvitationProps = {
+    item: OrganizationInvitation;
+    onRevoke: () => void;
+};
+
+const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+    });
+
+const Invitation = ({ item, onRevoke }: InvitationProps) => (
+    <div className="flex items-start py-6 border-t border-n-3 dark:border-n-6">
+        <div className="grow min-w-0">
+            <div className="mb-1 base1 font-semibold text-n-6 truncate dark:text-n-3">
+                {item.email}
+            </div>
+            <div className="base2 text-n-4">
+                <span className="capitalize">{item.role}</span>
+                {item.invitedBy && ` · Invited by ${item.invitedBy}`}
+                {` · Expires ${formatDate(item.expiresAt)}`}
+            </div>
+        </div>
+        <button className="btn-stroke-light shrink-0 ml-4" onClick={onRevoke}>
+            Withdraw
+        </button>
+    </div>
+);
+
+export default Invitation;
@@ -1,40 +1,55 @@
 import { CSSProperties } from "react";
-import Image from "@/components/Image";
-import Actions from "../Actions";
+import type { OrganizationMember } from "@fasterclaw/api-client";
+import Actions, { type ActionItem } from "../Actions";
 
 type MemberProps = {
-    item: any;
+    item: OrganizationMember;
+    current: boolean;
+    actions: ActionItem[];
     style: CSSProperties | undefined;
 };
 
-const Member = ({ item, style }: MemberProps) => {
-    return (
-        <div
-            className="group relative flex items-center py-6 border-t border-n-3 cursor-pointer xl:cursor-default dark:border-n-6"
-            style={style}
-        >
-            <div className="relative w-12 h-12 shrink-0">
-                <Image
-                    className="rounded-full object-cover"
-                    src={item.avatar}
-                    fill
-                    alt=""
-                />
-            </div>
-            <div className="grow px-4">
-                <div className="flex">
-                    <div className="base1 font-semibold">{item.name}</div>
-                    {item.admin && (
-                        <div className="ml-2 px-3 py-0.5 bg-[#FF97E8] rounded caption1 font-semibold">
-                            Admin
-                        </div>
-                    )}
+const roleColors = {
+    owner: "bg-[#FF97E8]",
+    admin: "bg-[#FFA2C0]",
+    operator: "bg-[#8E55EA]/20",
+    viewer: "bg-n-3 dark:bg-n-5",
+};
+
+const Member = ({ item, current, actions, style }: MemberProps) => (
+    <div
+        className="group relative flex items-center py-6 border-t border-n-3 cursor-pointer xl:cursor-default dark:border-n-6"
+        style={style}
+    >
+        <div className="flex justify-center items-center w-12 h-12 shrink-0 rounded-full bg-n-2 base1 font-semibold uppercase text-n-6 dark:bg-n-6 dark:text-n-3">
+            {(item.name ?? item.email).charAt(0)}
+        </div>
+        <div className="grow min-w-0 px-4">
+            <div className="flex items-center">
+                <div className="base1 font-semibold truncate">
+                    {item.name ?? item.email}
+                    {current && <span className="text-n-4"> (you)</span>}
                 </div>
-                <div className="caption1 text-n-4/50">@{item.login}</div>
+                <div
+                    className={`ml-2 px-3 py-0.5 rounded caption1 font-semibold capitalize ${
+                        roleColors[item.role]
+                    }`}
+                >
+                    {item.role}
+                </div>
+            </div>
+            <div className="caption1 text-n-4/50 truncate">
+                {item.email}
+                {!item.twoFactorEnabled && " · Two-factor off"}
             </div>
-            <Actions className="invisible opacity-0 transition-all group-hover:visible group-hover:opacity-100 xl:visible xl:opacity-100" />
         </div>
-    );
-};
+        {actions.length > 0 && (
+            <Actions
+                className="invisible opacity-0 transition-all group-hover:visible group-hover:opacity-100 xl:visible xl:opacity-100"
+                items={actions}
+            />
+        )}
+    </div>
+);
 
 export default Member;
@@ -1,26 +1,416 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import Field from "@/components/Field";
+import Checkbox from "@/components/Checkbox";
+import Select from "@/components/Select";
+import { getCurrentUser } from "@/actions/auth.actions";
+import {
+    getOrganizations,
+    getMembers,
+    getInvitations,
+    inviteMember,
+    revokeInvitation,
+    updateMemberRole,
+    removeMember,
+    updateOrganization,
+    createOrganization,
+} from "@/actions/organizations.actions";
+import type {
+    Organization,
+    OrganizationMember,
+    OrganizationInvitation,
+    OrganizationRole,
+} from "@fasterclaw/api-client";
 import Member from "./Member";
+import Invitation from "./Invitation";
+import type { ActionItem } from "./Actions";
+
+const roles: { id: OrganizationRole; title: string }[] = [
+    { id: "viewer", title: "Viewer" },
+    { id: "operator", title: "Operator" },
+    { id: "admin", title: "Admin" },
+    { id: "owner", title: "Owner" },
+];
 
-import { members } from "@/mocks/members";
+const roleRank: Record<OrganizationRole, number> = {
+    viewer: 0,
+    operator: 1,
+    admin: 2,
+    owner: 3,
+};
 
 type TeamProps = {};
 
-const Team = ({}: TeamProps) => (
-    <>
-        <div className="flex items-center mb-8 md:mb-6">
-            <div className="mr-auto h4">Members</div>
-            <button className="btn-blue">Invite</button>
-        </div>
-        <div className="py-3 base2 text-n-4">42 members</div>
-        <div className="mb-6">
-            {members.map((member, index) => (
-                <Member
-                    item={member}
-                    key={member.id}
-                    style={{ zIndex: members.length - index }}
+const Team = ({}: TeamProps) => {
+    const [organization, setOrganization] = useState<Organization | null>(
+        null
+    );
+    const [userId, setUserId] = useState<string>("");
+    const [members, setMembers] = useState<OrganizationMember[]>([]);
+    const [invitations, setInvitations] = useState<OrganizationInvitation[]>(
+        []
+    );
+    const [inviting, setInviting] = useState<boolean>(false);
+    const [email, setEmail] = useState<string>("");
+    const [inviteRole, setInviteRole] = useState<any>(roles[0]);
+    const [name, setName] = useState<string>("");
+    const [loading, setLoading] = useState<boolean>(false);
+    const [initialLoading, setInitialLoading] = useState<boolean>(true);
+    const [error, setError] = useState<string>("");
+    const [success, setSuccess] = useState<string>("");
+    const router = useRouter();
+
+    const isAdmin =
+        organization !== null && roleRank[organization.role] >= roleRank.admin;
+    const isOwner = organization?.role === "owner";
+
+    const loadTeam = async () => {
+        try {
+            const [{ active }, user] = await Promise.all([
+                getOrganizations(),
+                getCurrentUser(),
+            ]);
+            setOrganization(active);
+            setUserId(user?.id ?? "");
+
+            if (active === null) {
+                return;
+            }
+            setMembers(await getMembers(active.id));
+            setInvitations(
+                roleRank[active.role] >= roleRank.admin
+                    ? await getInvitations(active.id)
+                    : []
+            );
+        } catch (err) {
+            console.error("Failed to load team:", err);
+        } finally {
+            setInitialLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadTeam();
+    }, []);
+
+    const handleInvite = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (organization === null) return;
+
+        setError("");
+        setSuccess("");
+        setLoading(true);
+
+        try {
+            const result = await inviteMember(organization.id, {
+                email,
+                role: inviteRole.id,
+            });
+
+            if (result.success) {
+                setInvitations((current) => [
+                    result.data,
+                    ...current.filter(
+                        (item) => item.email !== result.data.email
+                    ),
+                ]);
+                setSuccess(`Invitation sent to ${result.data.email}`);
+                setEmail("");
+                setInviting(false);
+            } else {
+                setError(result.error);
+            }
+        } catch (err) {
+            setError("An unexpected error occurred");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleRevoke = async (invitation: OrganizationInvitation) => {
+        if (organization === null) return;
+
+        setError("");
+        setSuccess("");
+
+        const result = await revokeInvitation(organization.id, invitation.id);
+
+        if (!result.success) {
+            setError(result.error);
+            return;
+        }
+
+        setInvitations((current) =>
+            current.filter((item) => item.id !== invitation.id)
+        );
+    };
+
+    const handleChangeRole = async (
+        member: OrganizationMember,
+        role: OrganizationRole
+    ) => {
+        if (organization === null) return;
+
+        setError("");
+        setSuccess("");
+
+        const result = await updateMemberRole(
+            organization.id,
+            member.userId,
+            role
+        );
+
+        if (!result.success) {
+            setError(result.error);
+            return;
+        }
+
+        setMembers((current) =>
+            current.map((item) =>
+                item.userId === member.userId ? result.data : item
+            )
+        );
+    };
+
+    const handleRemove = async (member: OrganizationMember) => {
+        if (organization === null) return;
+
+        setError("");
+        setSuccess("");
+
+        const result = await removeMember(organization.id, member.userId);
+
+        if (!result.success) {
+            setError(result.error);
+            return;
+        }
+
+        // Leaving moves the user to another of their organizations
+        if (member.userId === userId) {
+            await loadTeam();
+            router.refresh();
+            return;
+        }
+        setMembers((current) =>
+            current.filter((item) => item.userId !== member.userId)
+        );
+    };
+
+    const handleRequireTwoFactor = async () => {
+        if (organization === null) return;
+
+        setError("");
+        setSuccess("");
+
+        const result = await updateOrganization(organization.id, {
+            requireTwoFactor: !organization.requireTwoFactor,
+        });
+
+        if (!result.success) {
+            setError(result.error);
+            return;
+        }
+
+        setOrganization(result.data);
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError("");
+        setSuccess("");
+        setLoading(true);
+
+        try {
+            const result = await createOrganization(name);
+
+            if (result.success) {
+                setName("");
+                setSuccess(`Switched to ${result.data.name}`);
+                await loadTeam();
+                router.refresh();
+            } else {
+                setError(result.error);
+            }
+        } catch (err) {
+            setError("An unexpected error occurred");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // Admins manage everyone but owners; only owners touch the owner role
+    const memberActions = (member: OrganizationMember): ActionItem[] => {
+        if (member.userId === userId) {
+            return [
+                {
+                    title: "Leave",
+                    icon: "logout",
+                    onClick: () => handleRemove(member),
+                },
+            ];
+        }
+        if (!isAdmin || (member.role === "owner" && !isOwner)) {
+            return [];
+        }
+        return [
+            ...roles
+                .filter(
+                    (role) =>
+                        role.id !== member.role &&
+                        (role.id !== "owner" || isOwner)
+                )
+                .map((role) => ({
+                    title: `Make ${role.title.toLowerCase()}`,
+                    icon: "star",
+                    onClick: () => handleChangeRole(member, role.id),
+                })),
+            {
+                title: "Remove member",
+                icon: "trash",
+                onClick: () => handleRemove(member),
+            },
+        ];
+    };
+
+    return (
+        <>
+            <div className="flex items-center mb-8 md:mb-6">
+                <div className="mr-auto h4">Members</div>
+                {isAdmin && (
+                    <button
+                        className="btn-blue"
+                        onClick={() => setInviting(!inviting)}
+                    >
+                        Invite
+                    </button>
+                )}
+            </div>
+            {organization && (
+                <div className="mb-8 base2 text-n-4 md:mb-6">
+                    Members of {organization.name} share its instances and
+                    subscription. Viewers can look, operators can also start
+                    and stop instances, admins manage instances and members,
+                    and owners handle billing.
+                </div>
+            )}
+
+            {error && (
+                <div className="mb-6 p-4 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400">
+                    {error}
+                </div>
+            )}
+
+            {success && (
+                <div className="mb-6 p-4 rounded-lg bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400">
+                    {success}
+                </div>
+            )}
+
+            {inviting && (
+                <form className="mb-8" action="" onSubmit={handleInvite}>
+                    <Field
+                        className="mb-6"
+                        label="Email"
+                        placeholder="Who to invite"
+                        icon="email"
+                        type="email"
+                        value={email}
+                        onChange={(e: any) => setEmail(e.target.value)}
+                        required
+                        disabled={loading}
+                    />
+                    <Select
+                        className="mb-6"
+                        label="Role"
+                        items={roles.filter(
+                            (role) => role.id !== "owner" || isOwner
+                        )}
+                        value={inviteRole}
+                        onChange={setInviteRole}
+                    />
+                    <button
+                        className="btn-blue w-full"
+                        type="submit"
+                        disabled={loading}
+                    >
+                        {loading ? "Sending..." : "Send invitation"}
+                    </button>
+                </form>
+            )}
+
+            <div className="py-3 base2 text-n-4">
+                {initialLoading
+                    ? "Loading members..."
+                    : `${members.length} ${
+                          members.length === 1 ? "member" : "members"
+                      }`}
+            </div>
+            <div className="mb-6">
+                {members.map((member, index) => (
+                    <Member
+                        item={member}
+                        current={member.userId === userId}
+                        actions={memberActions(member)}
+                        key={member.userId}
+                        style={{ zIndex: members.length - index }}
+                    />
+                ))}
+            </div>
+
+            {invitations.length > 0 && (
+                <>
+                    <div className="py-3 base2 text-n-4">
+                        Pending invitations
+                    </div>
+                    <div className="mb-6">
+                        {invitations.map((invitation) => (
+                            <Invitation
+                                item={invitation}
+                                onRevoke={() => handleRevoke(invitation)}
+                                key={invitation.id}
+                            />
+                        ))}
+                    </div>
+                </>
+            )}
+
+            {isOwner && organization && (
+                <Checkbox
+                    className="mb-8"
+                    label="Require two-factor authentication for all members"
+                    value={organization.requireTwoFactor}
+                    onChange={handleRequireTwoFactor}
+                />
+            )}
+
+            <div className="py-3 base2 text-n-4">New organization</div>
+            <form
+                className="pt-6 border-t border-n-3 dark:border-n-6"
+                action=""
+                onSubmit={handleCreate}
+            >
+                <Field
+                    className="mb-6"
+                    label="Name"
+                    placeholder="Your team or company"
+                    icon="profile"
+                    value={name}
+                    onChange={(e: any) => setName(e.target.value)}
+                    required
+                    disabled={loading}
                 />
-            ))}
-        </div>
-    </>
-);
+                <button
+                    className="btn-stroke-light w-full"
+                    type="submit"
+                    disabled={loading}
+                >
+                    Create organization
+                </button>
+            </form>
+        </>
+    );
+};
 
 export default Team;
@@ -0,0 +1,240 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Field from "@/components/Field";
+import {
+    getTwoFactorStatus,
+    startTwoFactorSetup,
+    enableTwoFactor,
+    disableTwoFactor,
+    regenerateRecoveryCodes,
+} from "@/actions/auth.actions";
+import type { TwoFactorSetup, TwoFactorStatus } from "@fasterclaw/api-client";
+
+type TwoFactorProps = {};
+
+const TwoFactor = ({}: TwoFactorProps) => {
+    const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+    const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+    const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+    const [code, setCode] = useState<string>("");
+    const [loading, setLoading] = useState<boolean>(false);
+    const [initialLoading, setInitialLoading] = useState<boolean>(true);
+    const [error, setError] = useState<string>("");
+    const [success, setSuccess] = useState<string>("");
+
+    const loadStatus = async () => {
+        setStatus(await getTwoFactorStatus());
+        setInitialLoading(false);
+    };
+
+    useEffect(() => {
+        loadStatus();
+    }, []);
+
+    const run = async (action: () => Promise<void>) => {
+        setError("");
+        setSuccess("");
+        setLoading(true);
+
+        try {
+            await action();
+        } catch (err) {
+            setError("An unexpected error occurred");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleStart = () =>
+        run(async () => {
+            const result = await startTwoFactorSetup();
+            if (result.success && result.setup) {
+                setSetup(result.setup);
+                setRecoveryCodes([]);
+            } else {
+                setError(result.error || "Failed to start the setup");
+            }
+        });
+
+    const handleEnable = (e: React.FormEvent) => {
+        e.preventDefault();
+        return run(async () => {
+            const result = await enableTwoFactor(code);
+            if (result.success) {
+                setSetup(null);
+                setCode("");
+                setRecoveryCodes(result.recoveryCodes || []);
+                setSuccess("Two-factor authentication is on");
+                await loadStatus();
+            } else {
+                setError(result.error || "Failed to enable two-factor");
+            }
+        });
+    };
+
+    const handleRegenerate = () =>
+        run(async () => {
+            const result = await regenerateRecoveryCodes(code);
+            if (result.success) {
+                setCode("");
+                setRecoveryCodes(result.recoveryCodes || []);
+                setSuccess("New recovery codes generated");
+                await loadStatus();
+            } else {
+                setError(result.error || "Failed to generate recovery codes");
+            }
+        });
+
+    const handleDisable = () =>
+        run(async () => {
+            const result = await disableTwoFactor(code);
+            if (result.success) {
+                setCode("");
+                setRecoveryCodes([]);
+                setSuccess("Two-factor authentication is off");
+                await loadStatus();
+            } else {
+                setError(result.error || "Failed to disable two-factor");
+            }
+        });
+
+    if (initialLoading) {
+        return (
+            <div className="flex justify-center items-center py-8">
+                <div className="text-n-4">Loading...</div>
+            </div>
+        );
+    }
+
+    return (
+        <>
+            <div className="mb-8 h4 md:mb-6">Two-factor authentication</div>
+
+            {error && (
+                <div className="mb-6 p-4 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400">
+                    {error}
+                </div>
+            )}
+
+            {success && (
+                <div className="mb-6 p-4 rounded-lg bg-green-50 dark:bg-green-900/20 text-green-600 dark:text-green-400">
+                    {success}
+                </div>
+            )}
+
+            {status?.required && !status.enabled && (
+                <div className="mb-6 p-4 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-yellow-700 dark:text-yellow-400">
+                    Your organization requires two-factor authentication. Set it up
+                    to use the rest of FasterClaw.
+                </div>
+            )}
+
+            {recoveryCodes.length > 0 && (
+                <div className="mb-6">
+                    <div className="mb-3 base2 font-semibold text-n-6 dark:text-n-1">
+                        Recovery codes
+                    </div>
+                    <div className="mb-3 caption1 text-n-4">
+                        Each code signs you in once if you lose your device.
+                        Store them somewhere safe; they are not shown again.
+                    </div>
+                    <div className="grid grid-cols-2 gap-2 p-4 rounded-xl bg-n-2 font-mono base2 dark:bg-n-7">
+                        {recoveryCodes.map((recoveryCode) => (
+                            <div key={recoveryCode}>{recoveryCode}</div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {status?.enabled ? (
+                <>
+                    <div className="mb-6 base2 text-n-4">
+                        Two-factor authentication is on.{" "}
+                        {status.recoveryCodesRemaining} recovery code(s) left.
+                    </div>
+                    <Field
+                        className="mb-6"
+                        label="Code"
+                        placeholder="Code from your app or a recovery code"
+                        icon="lock"
+                        value={code}
+                        onChange={(e: any) => setCode(e.target.value)}
+                        disabled={loading}
+                    />
+                    <div className="flex gap-3 md:flex-col">
+                        <button
+                            className="btn-stroke-light grow"
+                            type="button"
+                            onClick={handleRegenerate}
+                            disabled={loading || code === ""}
+                        >
+                            New recovery codes
+                        </button>
+                        {!status.required && (
+                            <button
+                                className="btn-red grow"
+                                type="button"
+                                onClick={handleDisable}
+                                disabled={loading || code === ""}
+                            >
+                                Turn off
+                            </button>
+                        )}
+                    </div>
+                </>
+            ) : setup ? (
+                <form action="" onSubmit={handleEnable}>
+                    <div className="mb-3 base2 text-n-4">
+                        Add FasterClaw to your authenticator app with the
+                        link below, or enter the key by hand. Then type the
+                        6-digit code it shows.
+                    </div>
+                    <a
+                        className="inline-block mb-3 base2 font-semibold text-primary-1 break-all"
+                        href={setup.otpauthUri}
+                    >
+                        Open in authenticator app
+                    </a>
+                    <div className="mb-6 p-4 rounded-xl bg-n-2 font-mono base2 break-all dark:bg-n-7">
+                        {setup.secret}
+                    </div>
+                    <Field
+                        className="mb-6"
+                        label="Code"
+                        placeholder="6-digit code"
+                        icon="lock"
+                        value={code}
+                        onChange={(e: any) => setCode(e.target.value)}
+                        required
+                        disabled={loading}
+                    />
+                    <button
+                        className="btn-blue w-full"
+                        type="submit"
+                        disabled={loading}
+                    >
+                        {loading ? "Verifying..." : "Turn on"}
+                    </button>
+                </form>
+            ) : (
+                <>
+                    <div className="mb-6 base2 text-n-4">
+                        Protect your account with a code from an
+                        authenticator app each time you sign in.
+                    </div>
+                    <button
+                        className="btn-blue w-full"
+                        type="button"
+                        onClick={handleStart}
+                        disabled={loading}
+                    >
+                        {loading ? "Starting..." : "Set up two-factor"}
+                    </button>
+                </>
+            )}
+        </>
+    );
+};
+
+export default TwoFactor;
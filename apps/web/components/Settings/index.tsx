@@ -4,9 +4,11 @@ import Select from "@/components/Select";
 import Menu from "./Menu";
 import EditProfile from "./EditProfile";
 import Password from "./Password";
+import TwoFactor from "./TwoFactor";
 import Notifications from "./Notifications";
 import ChatExport from "./ChatExport";
 import Sessions from "./Sessions";
+import AccessTokens from "./AccessTokens";
 import Applications from "./Applications";
 import Team from "./Team";
 import Appearance from "./Appearance";
@@ -54,9 +56,11 @@ const Settings = ({ items, activeItem }: SettingsProps) => {
                 <div className="grow pl-12 md:pl-0">
                     {active.id === "edit-profile" && <EditProfile />}
                     {active.id === "password" && <Password />}
+                    {active.id === "two-factor" && <TwoFactor />}
                     {active.id === "notifications" && <Notifications />}
                     {active.id === "chat-export" && <ChatExport />}
                     {active.id === "sessions" && <Sessions />}
+                    {active.id === "access-tokens" && <AccessTokens />}
                     {active.id === "applications" && <Applications />}
                     {active.id === "team" && <Team />}
                     {active.id === "appearance" && <Appearance />}
@@ -29,6 +29,18 @@ export const settings = [
         icon: "log-in",
         devOnly: true, // Hidden in production - for future use
     },
+    {
+        id: "two-factor",
+        title: "Two-factor",
+        icon: "lock",
+        devOnly: false,
+    },
+    {
+        id: "access-tokens",
+        title: "API tokens",
+        icon: "container",
+        devOnly: false,
+    },
     {
         id: "applications",
         title: "Applications",
@@ -39,7 +51,7 @@ export const settings = [
         id: "team",
         title: "Team",
         icon: "users-plus",
-        devOnly: true, // Hidden in production - for future use
+        devOnly: false,
     },
     {
         id: "appearance",
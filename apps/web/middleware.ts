@@ -1,31 +1,75 @@
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
+import type { SessionTokens } from "@fasterclaw/api-client";
+import {
+  AUTH_COOKIE,
+  REFRESH_COOKIE,
+  accessTokenNeedsRefresh,
+  clearSessionCookies,
+  getDeviceHeaders,
+  refreshSessionTokens,
+  setSessionCookies,
+} from "@/lib/session";
 
 // Auth routes that redirect to dashboard if already authenticated
 // Brainwave uses /sign-in which matches our auth flow
 const AUTH_ROUTES = ["/sign-in", "/create-account"];
 
-export function middleware(request: NextRequest) {
+/**
+ * Swap the refresh token for new tokens when the access token is about to
+ * expire. Returns undefined when nothing was refreshed and null when the
+ * session is over.
+ */
+async function refreshIfNeeded(request: NextRequest): Promise<SessionTokens | null | undefined> {
+  const token = request.cookies.get(AUTH_COOKIE)?.value;
+  const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+  if (!accessTokenNeedsRefresh(token) || refreshToken === undefined || refreshToken === "") {
+    return undefined;
+  }
+  try {
+    return await refreshSessionTokens(refreshToken, getDeviceHeaders(request.headers));
+  } catch (error) {
+    // Keep the cookies; the next request tries again
+    console.error("Session refresh error:", error);
+    return undefined;
+  }
+}
+
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
-  const token = request.cookies.get("auth_token")?.value;
+  const refreshed = await refreshIfNeeded(request);
+  if (refreshed) {
+    // Server Components rendering this request read the new token
+    request.cookies.set(AUTH_COOKIE, refreshed.accessToken);
+    request.cookies.set(REFRESH_COOKIE, refreshed.refreshToken);
+  } else if (refreshed === null) {
+    clearSessionCookies(request.cookies);
+  }
+  const token = request.cookies.get(AUTH_COOKIE)?.value;
 
   const isAuthRoute = AUTH_ROUTES.some((route) => pathname === route);
   const isDashboardRoute = pathname.startsWith("/dashboard");
 
-  // Redirect authenticated users from auth pages to dashboard
+  let response: NextResponse;
   if (isAuthRoute && token !== undefined && token !== "") {
-    return NextResponse.redirect(new URL("/dashboard", request.url));
-  }
-
-  // Redirect unauthenticated users from protected routes to sign in
-  if (isDashboardRoute && (token === undefined || token === "")) {
+    // Redirect authenticated users from auth pages to dashboard
+    response = NextResponse.redirect(new URL("/dashboard", request.url));
+  } else if (isDashboardRoute && (token === undefined || token === "")) {
+    // Redirect unauthenticated users from protected routes to sign in
     const signInUrl = new URL("/sign-in", request.url);
     signInUrl.searchParams.set("from", pathname);
-    return NextResponse.redirect(signInUrl);
+    response = NextResponse.redirect(signInUrl);
+  } else {
+    // Allow public routes and authenticated users on protected routes
+    response = NextResponse.next({ request: { headers: request.headers } });
   }
 
-  // Allow public routes and authenticated users on protected routes
-  return NextResponse.next();
+  if (refreshed) {
+    setSessionCookies(response.cookies, refreshed);
+  } else if (refreshed === null) {
+    clearSessionCookies(response.cookies);
+  }
+  return response;
 }
 
 export const config = {
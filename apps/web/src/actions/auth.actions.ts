@@ -1,26 +1,58 @@
 "use server";
 
-import { cookies } from "next/headers";
+import { cookies, headers } from "next/headers";
 import {
   postAuthLogin,
+  postAuthLoginTwoFactor,
   postAuthRegister,
   getAuthMe,
   patchAuthProfile,
   patchAuthPassword,
   deleteAuthAccount,
+  postAuthLogout,
+  postAuthForgotPassword,
+  postAuthResetPassword,
+  postAuthVerifyEmail,
+  postAuthVerifyEmailResend,
+  getAuthSessions,
+  deleteAuthSessions,
+  deleteAuthSessionsById,
+  getAuthTwoFactor,
+  postAuthTwoFactorSetup,
+  postAuthTwoFactorEnable,
+  postAuthTwoFactorDisable,
+  postAuthTwoFactorRecoveryCodes,
+  getAuthTokens,
+  postAuthTokens,
+  deleteAuthTokensById,
+  type AccessToken,
+  type CreateAccessTokenRequest,
+  type CreatedAccessToken,
+  type Session,
+  type TwoFactorSetup,
+  type TwoFactorStatus,
   type User,
 } from "@fasterclaw/api-client";
 import { createAuthenticatedClient, getApiClient } from "@/lib/api-client";
+import { clearSessionCookies, getDeviceHeaders, setSessionCookies } from "@/lib/session";
 
 export interface AuthResponse {
   success: boolean;
   error?: string;
   user?: User;
+  // Set instead of user when the account asks for a two-factor code
+  challengeToken?: string;
+}
+
+export interface RecoveryCodesResponse {
+  success: boolean;
+  error?: string;
+  recoveryCodes?: string[];
 }
 
 export async function login(email: string, password: string): Promise<AuthResponse> {
   try {
-    const client = getApiClient();
+    const client = getApiClient(getDeviceHeaders(await headers()));
     const { data, error } = await postAuthLogin({
       client,
       body: { email, password },
@@ -33,14 +65,16 @@ export async function login(email: string, password: string): Promise<AuthRespon
       };
     }
 
-    // Set auth token cookie
-    const cookieStore = await cookies();
-    cookieStore.set("auth_token", data.accessToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 60 * 60 * 24 * 7, // 7 days
-    });
+    // No session yet; the code goes to loginWithTwoFactor
+    if ("challengeToken" in data) {
+      return {
+        success: true,
+        challengeToken: data.challengeToken,
+      };
+    }
+
+    // Set session cookies
+    setSessionCookies(await cookies(), data);
 
     return {
       success: true,
@@ -55,13 +89,47 @@ export async function login(email: string, password: string): Promise<AuthRespon
   }
 }
 
+export async function loginWithTwoFactor(
+  challengeToken: string,
+  code: string
+): Promise<AuthResponse> {
+  try {
+    const client = getApiClient(getDeviceHeaders(await headers()));
+    const { data, error } = await postAuthLoginTwoFactor({
+      client,
+      body: { challengeToken, code },
+    });
+
+    if (!data) {
+      return {
+        success: false,
+        error: error.error,
+      };
+    }
+
+    // Set session cookies
+    setSessionCookies(await cookies(), data);
+
+    return {
+      success: true,
+      user: data.user,
+    };
+  } catch (error) {
+    console.error("Two-factor login error:", error);
+    return {
+      success: false,
+      error: "An error occurred during login",
+    };
+  }
+}
+
 export async function register(
   name: string,
   email: string,
   password: string
 ): Promise<AuthResponse> {
   try {
-    const client = getApiClient();
+    const client = getApiClient(getDeviceHeaders(await headers()));
     const { data, error } = await postAuthRegister({
       client,
       body: { name, email, password },
@@ -74,14 +142,8 @@ export async function register(
       };
     }
 
-    // Set auth token cookie
-    const cookieStore = await cookies();
-    cookieStore.set("auth_token", data.accessToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      maxAge: 60 * 60 * 24 * 7, // 7 days
-    });
+    // Set session cookies
+    setSessionCookies(await cookies(), data);
 
     return {
       success: true,
@@ -97,18 +159,17 @@ export async function register(
 }
 
 export async function logout(): Promise<void> {
-  const cookieStore = await cookies();
-  cookieStore.delete("auth_token");
+  try {
+    const client = await createAuthenticatedClient();
+    await postAuthLogout({ client });
+  } catch (error) {
+    console.error("Logout error:", error);
+  }
+  clearSessionCookies(await cookies());
 }
 
-export async function setAuthToken(token: string): Promise<void> {
-  const cookieStore = await cookies();
-  cookieStore.set("auth_token", token, {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === "production",
-    sameSite: "lax",
-    maxAge: 60 * 60 * 24 * 7, // 7 days
-  });
+export async function setAuthToken(accessToken: string, refreshToken: string): Promise<void> {
+  setSessionCookies(await cookies(), { accessToken, refreshToken });
 }
 
 export async function getCurrentUser(): Promise<User | null> {
@@ -195,9 +256,8 @@ export async function deleteAccount(): Promise<{ success: boolean; error?: strin
       };
     }
 
-    // Clear the auth cookie
-    const cookieStore = await cookies();
-    cookieStore.delete("auth_token");
+    // Sign out
+    await logout();
 
     return { success: true };
   } catch (error) {
@@ -208,3 +268,343 @@ export async function deleteAccount(): Promise<{ success: boolean; error?: strin
     };
   }
 }
+
+export async function getSessions(): Promise<Session[]> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data } = await getAuthSessions({ client });
+
+    return data ?? [];
+  } catch (error) {
+    console.error("Get sessions error:", error);
+    return [];
+  }
+}
+
+export async function revokeSession(id: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { error } = await deleteAuthSessionsById({ client, path: { id } });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.error,
+      };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Revoke session error:", error);
+    return {
+      success: false,
+      error: "An error occurred while revoking the session",
+    };
+  }
+}
+
+export async function signOutAllDevices(): Promise<{ success: boolean; error?: string }> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { error } = await deleteAuthSessions({ client });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.error,
+      };
+    }
+
+    // This device was signed out too
+    clearSessionCookies(await cookies());
+
+    return { success: true };
+  } catch (error) {
+    console.error("Sign out all devices error:", error);
+    return {
+      success: false,
+      error: "An error occurred while signing out",
+    };
+  }
+}
+
+export async function forgotPassword(
+  email: string
+): Promise<{ success: boolean; error?: string; message?: string }> {
+  try {
+    const client = getApiClient();
+    const { data } = await postAuthForgotPassword({
+      client,
+      body: { email },
+    });
+
+    if (!data) {
+      return {
+        success: false,
+        error: "Failed to send the reset link",
+      };
+    }
+
+    return { success: true, message: data.message };
+  } catch (error) {
+    console.error("Forgot password error:", error);
+    return {
+      success: false,
+      error: "An error occurred while sending the reset link",
+    };
+  }
+}
+
+export async function resetPassword(
+  token: string,
+  newPassword: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const client = getApiClient();
+    const { error } = await postAuthResetPassword({
+      client,
+      body: { token, newPassword },
+    });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.error,
+      };
+    }
+
+    // Every session was signed out, including this browser's
+    clearSessionCookies(await cookies());
+
+    return { success: true };
+  } catch (error) {
+    console.error("Reset password error:", error);
+    return {
+      success: false,
+      error: "An error occurred while resetting the password",
+    };
+  }
+}
+
+export async function verifyEmail(token: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const client = getApiClient();
+    const { error } = await postAuthVerifyEmail({
+      client,
+      body: { token },
+    });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.error,
+      };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Verify email error:", error);
+    return {
+      success: false,
+      error: "An error occurred while verifying the email address",
+    };
+  }
+}
+
+export async function resendVerificationEmail(): Promise<{ success: boolean; error?: string }> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { error } = await postAuthVerifyEmailResend({ client });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.error,
+      };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Resend verification email error:", error);
+    return {
+      success: false,
+      error: "An error occurred while sending the verification email",
+    };
+  }
+}
+
+export async function getTwoFactorStatus(): Promise<TwoFactorStatus | null> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data } = await getAuthTwoFactor({ client });
+
+    return data ?? null;
+  } catch (error) {
+    console.error("Get two-factor status error:", error);
+    return null;
+  }
+}
+
+export async function startTwoFactorSetup(): Promise<{
+  success: boolean;
+  error?: string;
+  setup?: TwoFactorSetup;
+}> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await postAuthTwoFactorSetup({ client });
+
+    if (!data) {
+      return {
+        success: false,
+        error: error.error,
+      };
+    }
+
+    return { success: true, setup: data };
+  } catch (error) {
+    console.error("Two-factor setup error:", error);
+    return {
+      success: false,
+      error: "An error occurred while setting up two-factor authentication",
+    };
+  }
+}
+
+export async function enableTwoFactor(code: string): Promise<RecoveryCodesResponse> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await postAuthTwoFactorEnable({
+      client,
+      body: { code },
+    });
+
+    if (!data) {
+      return {
+        success: false,
+        error: error.error,
+      };
+    }
+
+    return { success: true, recoveryCodes: data.recoveryCodes };
+  } catch (error) {
+    console.error("Enable two-factor error:", error);
+    return {
+      success: false,
+      error: "An error occurred while enabling two-factor authentication",
+    };
+  }
+}
+
+export async function disableTwoFactor(code: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { error } = await postAuthTwoFactorDisable({
+      client,
+      body: { code },
+    });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.error,
+      };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Disable two-factor error:", error);
+    return {
+      success: false,
+      error: "An error occurred while disabling two-factor authentication",
+    };
+  }
+}
+
+export async function regenerateRecoveryCodes(code: string): Promise<RecoveryCodesResponse> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await postAuthTwoFactorRecoveryCodes({
+      client,
+      body: { code },
+    });
+
+    if (!data) {
+      return {
+        success: false,
+        error: error.error,
+      };
+    }
+
+    return { success: true, recoveryCodes: data.recoveryCodes };
+  } catch (error) {
+    console.error("Regenerate recovery codes error:", error);
+    return {
+      success: false,
+      error: "An error occurred while generating recovery codes",
+    };
+  }
+}
+
+export async function getAccessTokens(): Promise<AccessToken[]> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data } = await getAuthTokens({ client });
+
+    return data ?? [];
+  } catch (error) {
+    console.error("Get access tokens error:", error);
+    return [];
+  }
+}
+
+export async function createAccessToken(request: CreateAccessTokenRequest): Promise<{
+  success: boolean;
+  error?: string;
+  accessToken?: CreatedAccessToken;
+}> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await postAuthTokens({
+      client,
+      body: request,
+    });
+
+    if (!data) {
+      return {
+        success: false,
+        error: error.error,
+      };
+    }
+
+    return { success: true, accessToken: data };
+  } catch (error) {
+    console.error("Create access token error:", error);
+    return {
+      success: false,
+      error: "An error occurred while creating the token",
+    };
+  }
+}
+
+export async function revokeAccessToken(id: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { error } = await deleteAuthTokensById({ client, path: { id } });
+
+    if (error) {
+      return {
+        success: false,
+        error: error.error,
+      };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Revoke access token error:", error);
+    return {
+      success: false,
+      error: "An error occurred while revoking the token",
+    };
+  }
+}
@@ -0,0 +1,288 @@
+"use server";
+
+import { cookies } from "next/headers";
+import {
+  getOrganizations as getOrganizationsApi,
+  postOrganizations,
+  patchOrganizationsById,
+  getOrganizationsByIdMembers,
+  patchOrganizationsByIdMembersByUserId,
+  deleteOrganizationsByIdMembersByUserId,
+  getOrganizationsByIdInvitations,
+  postOrganizationsByIdInvitations,
+  deleteOrganizationsByIdInvitationsByInvitationId,
+  postInvitationsAccept,
+  type Organization,
+  type OrganizationMember,
+  type OrganizationInvitation,
+  type OrganizationRole,
+  type CreateInvitationRequest,
+  type UpdateOrganizationRequest,
+} from "@fasterclaw/api-client";
+import {
+  createAuthenticatedClient,
+  getOrganizationId,
+  ORGANIZATION_COOKIE,
+} from "@/lib/api-client";
+
+// NOTE: Types are NOT re-exported from Server Actions files.
+// Import types directly from @fasterclaw/api-client instead.
+
+/**
+ * Result type for actions that may fail.
+ */
+type ActionResult<T> = { success: true; data: T } | { success: false; error: string };
+
+const ORGANIZATION_COOKIE_MAX_AGE = 60 * 60 * 24 * 365; // 1 year
+
+function getErrorMessage(error: unknown): string {
+  if (error !== null && typeof error === "object" && "error" in error) {
+    return String((error as { error: unknown }).error);
+  }
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return "An unexpected error occurred";
+}
+
+async function setActiveOrganization(id: string): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.set(ORGANIZATION_COOKIE, id, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: ORGANIZATION_COOKIE_MAX_AGE,
+  });
+}
+
+/**
+ * The user's organizations and the one instance and billing pages act on.
+ */
+export async function getOrganizations(): Promise<{
+  organizations: Organization[];
+  active: Organization | null;
+}> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await getOrganizationsApi({ client });
+
+    if (error !== undefined) {
+      console.error("Get organizations error:", error);
+      return { organizations: [], active: null };
+    }
+
+    // The API uses the oldest organization when the cookie names none the user belongs to
+    const selectedId = await getOrganizationId();
+    const selected = data.find((organization) => organization.id === selectedId);
+    if (selectedId !== null && selected === undefined) {
+      (await cookies()).delete(ORGANIZATION_COOKIE);
+    }
+
+    return { organizations: data, active: selected ?? data[0] ?? null };
+  } catch (error) {
+    console.error("Get organizations error:", error);
+    return { organizations: [], active: null };
+  }
+}
+
+export async function switchOrganization(id: string): Promise<void> {
+  await setActiveOrganization(id);
+}
+
+export async function createOrganization(name: string): Promise<ActionResult<Organization>> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await postOrganizations({
+      client,
+      body: { name },
+    });
+
+    if (error !== undefined) {
+      return { success: false, error: getErrorMessage(error) };
+    }
+
+    await setActiveOrganization(data.id);
+    return { success: true, data };
+  } catch (error) {
+    console.error("Create organization error:", error);
+    return { success: false, error: getErrorMessage(error) };
+  }
+}
+
+export async function updateOrganization(
+  id: string,
+  request: UpdateOrganizationRequest
+): Promise<ActionResult<Organization>> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await patchOrganizationsById({
+      client,
+      path: { id },
+      body: request,
+    });
+
+    if (error !== undefined) {
+      return { success: false, error: getErrorMessage(error) };
+    }
+
+    return { success: true, data };
+  } catch (error) {
+    console.error("Update organization error:", error);
+    return { success: false, error: getErrorMessage(error) };
+  }
+}
+
+export async function getMembers(id: string): Promise<OrganizationMember[]> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await getOrganizationsByIdMembers({
+      client,
+      path: { id },
+    });
+
+    if (error !== undefined) {
+      console.error("Get members error:", error);
+      return [];
+    }
+
+    return data;
+  } catch (error) {
+    console.error("Get members error:", error);
+    return [];
+  }
+}
+
+export async function updateMemberRole(
+  id: string,
+  userId: string,
+  role: OrganizationRole
+): Promise<ActionResult<OrganizationMember>> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await patchOrganizationsByIdMembersByUserId({
+      client,
+      path: { id, userId },
+      body: { role },
+    });
+
+    if (error !== undefined) {
+      return { success: false, error: getErrorMessage(error) };
+    }
+
+    return { success: true, data };
+  } catch (error) {
+    console.error("Update member role error:", error);
+    return { success: false, error: getErrorMessage(error) };
+  }
+}
+
+/**
+ * Remove a member, or leave the organization when the member is the user.
+ * getOrganizations forgets an organization the user has left.
+ */
+export async function removeMember(id: string, userId: string): Promise<ActionResult<null>> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { error } = await deleteOrganizationsByIdMembersByUserId({
+      client,
+      path: { id, userId },
+    });
+
+    if (error !== undefined) {
+      return { success: false, error: getErrorMessage(error) };
+    }
+
+    return { success: true, data: null };
+  } catch (error) {
+    console.error("Remove member error:", error);
+    return { success: false, error: getErrorMessage(error) };
+  }
+}
+
+export async function getInvitations(id: string): Promise<OrganizationInvitation[]> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await getOrganizationsByIdInvitations({
+      client,
+      path: { id },
+    });
+
+    if (error !== undefined) {
+      console.error("Get invitations error:", error);
+      return [];
+    }
+
+    return data;
+  } catch (error) {
+    console.error("Get invitations error:", error);
+    return [];
+  }
+}
+
+export async function inviteMember(
+  id: string,
+  request: CreateInvitationRequest
+): Promise<ActionResult<OrganizationInvitation>> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await postOrganizationsByIdInvitations({
+      client,
+      path: { id },
+      body: request,
+    });
+
+    if (error !== undefined) {
+      return { success: false, error: getErrorMessage(error) };
+    }
+
+    return { success: true, data };
+  } catch (error) {
+    console.error("Invite member error:", error);
+    return { success: false, error: getErrorMessage(error) };
+  }
+}
+
+export async function revokeInvitation(
+  id: string,
+  invitationId: string
+): Promise<ActionResult<null>> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { error } = await deleteOrganizationsByIdInvitationsByInvitationId({
+      client,
+      path: { id, invitationId },
+    });
+
+    if (error !== undefined) {
+      return { success: false, error: getErrorMessage(error) };
+    }
+
+    return { success: true, data: null };
+  } catch (error) {
+    console.error("Revoke invitation error:", error);
+    return { success: false, error: getErrorMessage(error) };
+  }
+}
+
+/**
+ * Join the organization an invitation is for, and switch to it.
+ */
+export async function acceptInvitation(token: string): Promise<ActionResult<Organization>> {
+  try {
+    const client = await createAuthenticatedClient();
+    const { data, error } = await postInvitationsAccept({
+      client,
+      body: { token },
+    });
+
+    if (error !== undefined) {
+      return { success: false, error: getErrorMessage(error) };
+    }
+
+    await setActiveOrganization(data.id);
+    return { success: true, data };
+  } catch (error) {
+    console.error("Accept invitation error:", error);
+    return { success: false, error: getErrorMessage(error) };
+  }
+}
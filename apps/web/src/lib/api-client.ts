@@ -17,7 +17,10 @@ import { cookies } from "next/headers";
 import { createClient, createConfig, type Client } from "@hey-api/client-fetch";
 
 // Server-side only - no NEXT_PUBLIC_ needed since we only call from server actions
-const API_BASE_URL = process.env.API_URL ?? "http://localhost:3001";
+export const API_BASE_URL = process.env.API_URL ?? "http://localhost:3001";
+
+// The organization picked in the switcher; the API falls back to the user's oldest
+export const ORGANIZATION_COOKIE = "organization_id";
 
 /**
  * Get the auth token from cookies (server-side only)
@@ -27,17 +30,34 @@ export async function getAuthToken(): Promise<string | null> {
   return cookieStore.get("auth_token")?.value ?? null;
 }
 
+/**
+ * Get the selected organization from cookies (server-side only)
+ */
+export async function getOrganizationId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  return cookieStore.get(ORGANIZATION_COOKIE)?.value ?? null;
+}
+
 /**
  * Create an authenticated API client for use in Server Actions
- * Returns a client configured with the auth token from cookies
+ * Returns a client configured with the auth token and selected organization from cookies
  */
 export async function createAuthenticatedClient(): Promise<Client> {
   const token = await getAuthToken();
+  const organizationId = await getOrganizationId();
+
+  const headers: Record<string, string> = {};
+  if (token !== null && token !== "") {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  if (organizationId !== null && organizationId !== "") {
+    headers["X-Organization-Id"] = organizationId;
+  }
 
   return createClient(
     createConfig({
       baseUrl: API_BASE_URL,
-      headers: token !== null && token !== "" ? { Authorization: `Bearer ${token}` } : {},
+      headers,
     })
   );
 }
@@ -46,10 +66,11 @@ export async function createAuthenticatedClient(): Promise<Client> {
  * Create an unauthenticated API client
  * Use this for public endpoints like login/register
  */
-export function getApiClient(): Client {
+export function getApiClient(headers: Record<string, string> = {}): Client {
   return createClient(
     createConfig({
       baseUrl: API_BASE_URL,
+      headers,
     })
   );
 }
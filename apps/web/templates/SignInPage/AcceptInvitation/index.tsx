@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { useColorMode } from "@chakra-ui/react";
+import Logo from "@/components/Logo";
+import { acceptInvitation } from "@/actions/organizations.actions";
+
+type AcceptInvitationProps = {};
+
+const AcceptInvitation = ({}: AcceptInvitationProps) => {
+    const token = useSearchParams().get("token") ?? "";
+    const [organizationName, setOrganizationName] = useState<string>("");
+    const [loading, setLoading] = useState<boolean>(false);
+    const [error, setError] = useState<string>(
+        token === "" ? "This link is incomplete" : ""
+    );
+
+    const { colorMode } = useColorMode();
+    const isLightMode = colorMode === "light";
+
+    const handleAccept = async () => {
+        setError("");
+        setLoading(true);
+
+        try {
+            const result = await acceptInvitation(token);
+
+            if (result.success) {
+                setOrganizationName(result.data.name);
+            } else {
+                setError(result.error || "Failed to accept invitation");
+            }
+        } catch (err) {
+            setError("An unexpected error occurred");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="w-full max-w-[31.5rem] m-auto">
+            <Logo
+                className="max-w-[11.875rem] mx-auto mb-8"
+                dark={isLightMode}
+            />
+            <div className="mb-8 h5">Join an organization</div>
+            {organizationName !== "" ? (
+                <>
+                    <div className="mb-6 base2 text-n-4">
+                        You joined {organizationName}. Its instances are now
+                        on your dashboard.
+                    </div>
+                    <Link
+                        className="btn-blue btn-large w-full"
+                        href="/dashboard"
+                    >
+                        Continue
+                    </Link>
+                </>
+            ) : (
+                <>
+                    {error && (
+                        <div className="mb-6 p-4 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400">
+                            {error}
+                        </div>
+                    )}
+                    <div className="mb-6 base2 text-n-4">
+                        Accept while signed in with the email address the
+                        invitation was sent to, or{" "}
+                        <Link
+                            className="text-primary-1 transition-colors hover:text-primary-1/90"
+                            href="/sign-in"
+                        >
+                            sign in
+                        </Link>{" "}
+                        first and open the link again.
+                    </div>
+                    <button
+                        className="btn-blue btn-large w-full"
+                        onClick={handleAccept}
+                        disabled={loading || token === ""}
+                    >
+                        {loading ? "Joining..." : "Accept invitation"}
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default AcceptInvitation;
@@ -1,6 +1,7 @@
 import { useState } from "react";
 import Icon from "@/components/Icon";
 import Field from "@/components/Field";
+import { forgotPassword } from "@/actions/auth.actions";
 
 type ForgotPasswordProps = {
     onClick: () => void;
@@ -8,6 +9,29 @@ type ForgotPasswordProps = {
 
 const ForgotPassword = ({ onClick }: ForgotPasswordProps) => {
     const [email, setEmail] = useState<string>("");
+    const [error, setError] = useState<string>("");
+    const [success, setSuccess] = useState<string>("");
+    const [loading, setLoading] = useState<boolean>(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError("");
+        setSuccess("");
+        setLoading(true);
+
+        try {
+            const result = await forgotPassword(email);
+            if (result.success) {
+                setSuccess(result.message || "Check your inbox");
+            } else {
+                setError(result.error || "Failed to send the reset link");
+            }
+        } catch (err) {
+            setError("An unexpected error occurred");
+        } finally {
+            setLoading(false);
+        }
+    };
 
     return (
         <>
@@ -21,7 +45,17 @@ const ForgotPassword = ({ onClick }: ForgotPasswordProps) => {
                 />
                 Reset your password
             </button>
-            <form action="" onSubmit={() => console.log("Submit")}>
+            <form action="" onSubmit={handleSubmit}>
+                {error && (
+                    <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+                        {error}
+                    </div>
+                )}
+                {success && (
+                    <div className="mb-4 p-3 bg-green-100 border border-green-400 text-green-700 rounded dark:bg-green-900/20 dark:border-green-800 dark:text-green-400">
+                        {success}
+                    </div>
+                )}
                 <Field
                     className="mb-6"
                     classInput="dark:bg-n-7 dark:border-n-7 dark:focus:bg-transparent"
@@ -33,10 +67,11 @@ const ForgotPassword = ({ onClick }: ForgotPasswordProps) => {
                     required
                 />
                 <button
-                    className="btn-blue btn-large w-full mb-6"
+                    className="btn-blue btn-large w-full mb-6 disabled:opacity-50"
                     type="submit"
+                    disabled={loading}
                 >
-                    Reset password
+                    {loading ? "Sending..." : "Reset password"}
                 </button>
             </form>
         </>
@@ -7,9 +7,10 @@ import { login } from "@/actions/auth.actions";
 
 type SignInProps = {
     onClick: () => void;
+    onChallenge: (challengeToken: string) => void;
 };
 
-const SignIn = ({ onClick }: SignInProps) => {
+const SignIn = ({ onClick, onChallenge }: SignInProps) => {
     const router = useRouter();
     const [email, setEmail] = useState<string>("");
     const [password, setPassword] = useState<string>("");
@@ -23,7 +24,9 @@ const SignIn = ({ onClick }: SignInProps) => {
 
         try {
             const result = await login(email, password);
-            if (result.success) {
+            if (result.challengeToken) {
+                onChallenge(result.challengeToken);
+            } else if (result.success) {
                 router.push("/dashboard");
             } else {
                 setError(result.error || "Login failed");
@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import Icon from "@/components/Icon";
+import Field from "@/components/Field";
+import { loginWithTwoFactor } from "@/actions/auth.actions";
+
+type TwoFactorProps = {
+    challengeToken: string;
+    onClick: () => void;
+};
+
+const TwoFactor = ({ challengeToken, onClick }: TwoFactorProps) => {
+    const router = useRouter();
+    const [code, setCode] = useState<string>("");
+    const [error, setError] = useState<string>("");
+    const [loading, setLoading] = useState<boolean>(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError("");
+        setLoading(true);
+
+        try {
+            const result = await loginWithTwoFactor(challengeToken, code);
+            if (result.success) {
+                router.push("/dashboard");
+            } else {
+                setError(result.error || "Invalid code");
+                setCode("");
+            }
+        } catch (err) {
+            setError("An unexpected error occurred");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <>
+            <button
+                className="group flex items-center mb-8 h5"
+                onClick={onClick}
+            >
+                <Icon
+                    className="mr-4 transition-transform group-hover:-translate-x-1 dark:fill-n-1"
+                    name="arrow-prev"
+                />
+                Two-factor authentication
+            </button>
+            <form action="" onSubmit={handleSubmit}>
+                {error && (
+                    <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+                        {error}
+                    </div>
+                )}
+                <div className="mb-4 base2 text-n-4">
+                    Enter the 6-digit code from your authenticator app. Lost
+                    your device? Use one of your recovery codes instead.
+                </div>
+                <Field
+                    className="mb-6"
+                    classInput="dark:bg-n-7 dark:border-n-7 dark:focus:bg-transparent"
+                    placeholder="Code"
+                    icon="lock"
+                    value={code}
+                    onChange={(e: any) => setCode(e.target.value)}
+                    required
+                />
+                <button
+                    className="btn-blue btn-large w-full mb-6 disabled:opacity-50"
+                    type="submit"
+                    disabled={loading}
+                >
+                    {loading ? "Verifying..." : "Verify"}
+                </button>
+            </form>
+        </>
+    );
+};
+
+export default TwoFactor;
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useSearchParams } from "next/navigation";
 import { Tab } from "@headlessui/react";
 import { useColorMode } from "@chakra-ui/react";
 import Logo from "@/components/Logo";
@@ -6,20 +7,31 @@ import Image from "@/components/Image";
 import SignIn from "./SignIn";
 import CreateAccount from "./CreateAccount";
 import ForgotPassword from "./ForgotPassword";
+import TwoFactor from "./TwoFactor";
 
 const tabNav = ["Sign in", "Create account"];
 
 type FormProps = {};
 
 const Form = ({}: FormProps) => {
+    const searchParams = useSearchParams();
     const [forgot, setForgot] = useState<boolean>(false);
+    // Google sign-in sends accounts with two-factor on back with a challenge
+    const [challengeToken, setChallengeToken] = useState<string | null>(
+        searchParams.get("challengeToken")
+    );
 
     const { colorMode } = useColorMode();
     const isLightMode = colorMode === "light";
 
     return (
         <div className="w-full max-w-[31.5rem] m-auto">
-            {forgot ? (
+            {challengeToken ? (
+                <TwoFactor
+                    challengeToken={challengeToken}
+                    onClick={() => setChallengeToken(null)}
+                />
+            ) : forgot ? (
                 <ForgotPassword onClick={() => setForgot(false)} />
             ) : (
                 <>
@@ -65,7 +77,10 @@ const Form = ({}: FormProps) => {
                         </div>
                         <Tab.Panels>
                             <Tab.Panel>
-                                <SignIn onClick={() => setForgot(true)} />
+                                <SignIn
+                                    onClick={() => setForgot(true)}
+                                    onChallenge={setChallengeToken}
+                                />
                             </Tab.Panel>
                             <Tab.Panel>
                                 <CreateAccount />
@@ -0,0 +1,122 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { useColorMode } from "@chakra-ui/react";
+import Logo from "@/components/Logo";
+import Field from "@/components/Field";
+import { resetPassword } from "@/actions/auth.actions";
+
+type ResetPasswordProps = {};
+
+const ResetPassword = ({}: ResetPasswordProps) => {
+    const token = useSearchParams().get("token") ?? "";
+    const [newPassword, setNewPassword] = useState<string>("");
+    const [confirmPassword, setConfirmPassword] = useState<string>("");
+    const [error, setError] = useState<string>("");
+    const [done, setDone] = useState<boolean>(false);
+    const [loading, setLoading] = useState<boolean>(false);
+
+    const { colorMode } = useColorMode();
+    const isLightMode = colorMode === "light";
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError("");
+
+        if (newPassword !== confirmPassword) {
+            setError("Passwords do not match");
+            return;
+        }
+
+        if (newPassword.length < 8) {
+            setError("Password must be at least 8 characters long");
+            return;
+        }
+
+        setLoading(true);
+
+        try {
+            const result = await resetPassword(token, newPassword);
+            if (result.success) {
+                setDone(true);
+            } else {
+                setError(result.error || "Failed to reset password");
+            }
+        } catch (err) {
+            setError("An unexpected error occurred");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="w-full max-w-[31.5rem] m-auto">
+            <Logo
+                className="max-w-[11.875rem] mx-auto mb-8"
+                dark={isLightMode}
+            />
+            <div className="mb-8 h5">Choose a new password</div>
+            {done ? (
+                <>
+                    <div className="mb-6 base2 text-n-4">
+                        Your password has been reset and every device was
+                        signed out. Sign in with your new password.
+                    </div>
+                    <Link className="btn-blue btn-large w-full" href="/sign-in">
+                        Sign in
+                    </Link>
+                </>
+            ) : token === "" ? (
+                <div className="base2 text-n-4">
+                    This link is incomplete. Open the link from the email
+                    again, or{" "}
+                    <Link className="text-primary-1" href="/sign-in">
+                        request a new one
+                    </Link>
+                    .
+                </div>
+            ) : (
+                <form action="" onSubmit={handleSubmit}>
+                    {error && (
+                        <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded dark:bg-red-900/20 dark:border-red-800 dark:text-red-400">
+                            {error}
+                        </div>
+                    )}
+                    <Field
+                        className="mb-4"
+                        classInput="dark:bg-n-7 dark:border-n-7 dark:focus:bg-transparent"
+                        placeholder="New password"
+                        icon="lock"
+                        type="password"
+                        value={newPassword}
+                        onChange={(e: any) => setNewPassword(e.target.value)}
+                        required
+                    />
+                    <Field
+                        className="mb-6"
+                        classInput="dark:bg-n-7 dark:border-n-7 dark:focus:bg-transparent"
+                        placeholder="Confirm new password"
+                        icon="lock"
+                        type="password"
+                        value={confirmPassword}
+                        onChange={(e: any) =>
+                            setConfirmPassword(e.target.value)
+                        }
+                        required
+                    />
+                    <button
+                        className="btn-blue btn-large w-full disabled:opacity-50"
+                        type="submit"
+                        disabled={loading}
+                    >
+                        {loading ? "Saving..." : "Reset password"}
+                    </button>
+                </form>
+            )}
+        </div>
+    );
+};
+
+export default ResetPassword;
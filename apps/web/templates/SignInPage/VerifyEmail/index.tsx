@@ -0,0 +1,84 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { useColorMode } from "@chakra-ui/react";
+import Logo from "@/components/Logo";
+import { verifyEmail } from "@/actions/auth.actions";
+
+type VerifyEmailProps = {};
+
+const VerifyEmail = ({}: VerifyEmailProps) => {
+    const token = useSearchParams().get("token") ?? "";
+    const [status, setStatus] = useState<"verifying" | "verified" | "failed">(
+        "verifying"
+    );
+    const [error, setError] = useState<string>("");
+    // A token works once; do not send it again when the effect re-runs
+    const submitted = useRef<boolean>(false);
+
+    const { colorMode } = useColorMode();
+    const isLightMode = colorMode === "light";
+
+    useEffect(() => {
+        if (submitted.current) {
+            return;
+        }
+        submitted.current = true;
+
+        if (token === "") {
+            setError("This link is incomplete");
+            setStatus("failed");
+            return;
+        }
+
+        verifyEmail(token)
+            .then((result) => {
+                if (result.success) {
+                    setStatus("verified");
+                } else {
+                    setError(result.error || "Failed to verify email");
+                    setStatus("failed");
+                }
+            })
+            .catch(() => {
+                setError("An unexpected error occurred");
+                setStatus("failed");
+            });
+    }, [token]);
+
+    return (
+        <div className="w-full max-w-[31.5rem] m-auto">
+            <Logo
+                className="max-w-[11.875rem] mx-auto mb-8"
+                dark={isLightMode}
+            />
+            <div className="mb-8 h5">Verify your email</div>
+            {status === "verifying" && (
+                <div className="base2 text-n-4">Verifying your email...</div>
+            )}
+            {status === "verified" && (
+                <>
+                    <div className="mb-6 base2 text-n-4">
+                        Your email address is verified.
+                    </div>
+                    <Link
+                        className="btn-blue btn-large w-full"
+                        href="/dashboard"
+                    >
+                        Continue
+                    </Link>
+                </>
+            )}
+            {status === "failed" && (
+                <div className="base2 text-n-4">
+                    {error}. You can send a new link from your account
+                    settings.
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default VerifyEmail;
@@ -1,11 +1,16 @@
 "use client";
 
+import { Suspense } from "react";
 import Link from "next/link";
 import Image from "@/components/Image";
 import Icon from "@/components/Icon";
 import Form from "./Form";
 
-const SignInPage = () => {
+type SignInPageProps = {
+    children?: React.ReactNode;
+};
+
+const SignInPage = ({ children }: SignInPageProps) => {
     return (
         <div className="relative flex min-h-screen min-h-screen-ios lg:p-6 md:px-6 md:pt-16 md:pb-10">
             <div className="relative shrink-0 w-[40rem] p-20 overflow-hidden 2xl:w-[37.5rem] xl:w-[30rem] xl:p-10 lg:hidden">
@@ -29,7 +34,11 @@ const SignInPage = () => {
                 </div>
             </div>
             <div className="flex grow my-6 mr-6 p-10 bg-n-1 rounded-[1.25rem] lg:m-0 md:p-0 dark:bg-n-6">
-                <Form />
+                {children ?? (
+                    <Suspense>
+                        <Form />
+                    </Suspense>
+                )}
             </div>
             <Link
                 className="group absolute top-12 right-12 flex justify-center items-center w-10 h-10 bg-n-2 rounded-full text-0 transition-colors hover:bg-primary-1 md:top-6 md:right-6"
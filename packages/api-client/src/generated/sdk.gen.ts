@@ -8,6 +8,24 @@ import type {
   PostAuthLoginData,
   PostAuthLoginResponse,
   PostAuthLoginError,
+  PostAuthLoginTwoFactorData,
+  PostAuthLoginTwoFactorResponse,
+  PostAuthLoginTwoFactorError,
+  PostAuthRefreshData,
+  PostAuthRefreshResponse,
+  PostAuthRefreshError,
+  PostAuthLogoutData,
+  PostAuthLogoutResponse,
+  PostAuthLogoutError,
+  DeleteAuthSessionsData,
+  DeleteAuthSessionsResponse,
+  DeleteAuthSessionsError,
+  GetAuthSessionsData,
+  GetAuthSessionsResponse,
+  GetAuthSessionsError,
+  DeleteAuthSessionsByIdData,
+  DeleteAuthSessionsByIdResponse,
+  DeleteAuthSessionsByIdError,
   GetAuthMeData,
   GetAuthMeResponse,
   GetAuthMeError,
@@ -17,15 +35,89 @@ import type {
   PatchAuthPasswordData,
   PatchAuthPasswordResponse,
   PatchAuthPasswordError,
+  PostAuthForgotPasswordData,
+  PostAuthForgotPasswordResponse,
+  PostAuthResetPasswordData,
+  PostAuthResetPasswordResponse,
+  PostAuthResetPasswordError,
+  PostAuthVerifyEmailData,
+  PostAuthVerifyEmailResponse,
+  PostAuthVerifyEmailError,
+  PostAuthVerifyEmailResendData,
+  PostAuthVerifyEmailResendResponse,
+  PostAuthVerifyEmailResendError,
+  GetAuthTwoFactorData,
+  GetAuthTwoFactorResponse,
+  GetAuthTwoFactorError,
+  PostAuthTwoFactorSetupData,
+  PostAuthTwoFactorSetupResponse,
+  PostAuthTwoFactorSetupError,
+  PostAuthTwoFactorEnableData,
+  PostAuthTwoFactorEnableResponse,
+  PostAuthTwoFactorEnableError,
+  PostAuthTwoFactorDisableData,
+  PostAuthTwoFactorDisableResponse,
+  PostAuthTwoFactorDisableError,
+  PostAuthTwoFactorRecoveryCodesData,
+  PostAuthTwoFactorRecoveryCodesResponse,
+  PostAuthTwoFactorRecoveryCodesError,
+  GetAuthTokensData,
+  GetAuthTokensResponse,
+  GetAuthTokensError,
+  PostAuthTokensData,
+  PostAuthTokensResponse,
+  PostAuthTokensError,
+  DeleteAuthTokensByIdData,
+  DeleteAuthTokensByIdResponse,
+  DeleteAuthTokensByIdError,
+  GetAuthAccountDeletionData,
+  GetAuthAccountDeletionResponse,
+  GetAuthAccountDeletionError,
   DeleteAuthAccountData,
   DeleteAuthAccountResponse,
   DeleteAuthAccountError,
+  PostAuthAccountRestoreData,
+  PostAuthAccountRestoreResponse,
+  PostAuthAccountRestoreError,
+  GetOrganizationsData,
+  GetOrganizationsResponse,
+  GetOrganizationsError,
+  PostOrganizationsData,
+  PostOrganizationsResponse,
+  PostOrganizationsError,
+  PatchOrganizationsByIdData,
+  PatchOrganizationsByIdResponse,
+  PatchOrganizationsByIdError,
+  GetOrganizationsByIdMembersData,
+  GetOrganizationsByIdMembersResponse,
+  GetOrganizationsByIdMembersError,
+  DeleteOrganizationsByIdMembersByUserIdData,
+  DeleteOrganizationsByIdMembersByUserIdResponse,
+  DeleteOrganizationsByIdMembersByUserIdError,
+  PatchOrganizationsByIdMembersByUserIdData,
+  PatchOrganizationsByIdMembersByUserIdResponse,
+  PatchOrganizationsByIdMembersByUserIdError,
+  GetOrganizationsByIdInvitationsData,
+  GetOrganizationsByIdInvitationsResponse,
+  GetOrganizationsByIdInvitationsError,
+  PostOrganizationsByIdInvitationsData,
+  PostOrganizationsByIdInvitationsResponse,
+  PostOrganizationsByIdInvitationsError,
+  DeleteOrganizationsByIdInvitationsByInvitationIdData,
+  DeleteOrganizationsByIdInvitationsByInvitationIdResponse,
+  DeleteOrganizationsByIdInvitationsByInvitationIdError,
+  PostInvitationsAcceptData,
+  PostInvitationsAcceptResponse,
+  PostInvitationsAcceptError,
   GetInstancesData,
   GetInstancesResponse,
   GetInstancesError,
   PostInstancesData,
   PostInstancesResponse,
   PostInstancesError,
+  GetInstancesStreamData,
+  GetInstancesStreamResponse,
+  GetInstancesStreamError,
   DeleteInstancesByIdData,
   DeleteInstancesByIdResponse,
   DeleteInstancesByIdError,
@@ -35,18 +127,63 @@ import type {
   PatchInstancesByIdData,
   PatchInstancesByIdResponse,
   PatchInstancesByIdError,
+  GetInstancesByIdJobsData,
+  GetInstancesByIdJobsResponse,
+  GetInstancesByIdJobsError,
+  GetInstancesByIdEventsData,
+  GetInstancesByIdEventsResponse,
+  GetInstancesByIdEventsError,
+  GetInstancesByIdLogsData,
+  GetInstancesByIdLogsResponse,
+  GetInstancesByIdLogsError,
+  GetInstancesByIdVolumeData,
+  GetInstancesByIdVolumeResponse,
+  GetInstancesByIdVolumeError,
   PostInstancesByIdStartData,
   PostInstancesByIdStartResponse,
   PostInstancesByIdStartError,
   PostInstancesByIdStopData,
   PostInstancesByIdStopResponse,
   PostInstancesByIdStopError,
+  PostInstancesByIdRestartData,
+  PostInstancesByIdRestartResponse,
+  PostInstancesByIdRestartError,
+  PostInstancesByIdRedeployData,
+  PostInstancesByIdRedeployResponse,
+  PostInstancesByIdRedeployError,
   PostInstancesByIdRetryData,
   PostInstancesByIdRetryResponse,
   PostInstancesByIdRetryError,
   PostInstancesValidateTelegramTokenData,
   PostInstancesValidateTelegramTokenResponse,
   PostInstancesValidateTelegramTokenError,
+  GetProvidersData,
+  GetProvidersResponse,
+  GetProvidersError,
+  PostChannelsValidateData,
+  PostChannelsValidateResponse,
+  PostChannelsValidateError,
+  GetInstancesByIdChannelsData,
+  GetInstancesByIdChannelsResponse,
+  GetInstancesByIdChannelsError,
+  PutInstancesByIdChannelsData,
+  PutInstancesByIdChannelsResponse,
+  PutInstancesByIdChannelsError,
+  DeleteInstancesByIdChannelsByTypeData,
+  DeleteInstancesByIdChannelsByTypeResponse,
+  DeleteInstancesByIdChannelsByTypeError,
+  GetAiKeysData,
+  GetAiKeysResponse,
+  GetAiKeysError,
+  DeleteAiKeysByProviderData,
+  DeleteAiKeysByProviderResponse,
+  DeleteAiKeysByProviderError,
+  PutAiKeysByProviderData,
+  PutAiKeysByProviderResponse,
+  PutAiKeysByProviderError,
+  GetModelsData,
+  GetModelsResponse,
+  GetModelsError,
   PostBillingCheckoutData,
   PostBillingCheckoutResponse,
   PostBillingCheckoutError,
@@ -62,6 +199,36 @@ import type {
   PostBillingWebhookData,
   PostBillingWebhookResponse,
   PostBillingWebhookError,
+  GetAdminReconcileData,
+  GetAdminReconcileResponse,
+  GetAdminReconcileError,
+  GetAdminImageVersionsData,
+  GetAdminImageVersionsResponse,
+  GetAdminImageVersionsError,
+  PostAdminImageVersionsData,
+  PostAdminImageVersionsResponse,
+  PostAdminImageVersionsError,
+  PostAdminImageVersionsByVersionDefaultData,
+  PostAdminImageVersionsByVersionDefaultResponse,
+  PostAdminImageVersionsByVersionDefaultError,
+  DeleteAdminImageVersionsByVersionData,
+  DeleteAdminImageVersionsByVersionResponse,
+  DeleteAdminImageVersionsByVersionError,
+  GetAdminRolloutsData,
+  GetAdminRolloutsResponse,
+  GetAdminRolloutsError,
+  PostAdminRolloutsData,
+  PostAdminRolloutsResponse,
+  PostAdminRolloutsError,
+  GetAdminRolloutsByIdData,
+  GetAdminRolloutsByIdResponse,
+  GetAdminRolloutsByIdError,
+  PostAdminRolloutsByIdHaltData,
+  PostAdminRolloutsByIdHaltResponse,
+  PostAdminRolloutsByIdHaltError,
+  PostAdminRolloutsByIdRollbackData,
+  PostAdminRolloutsByIdRollbackResponse,
+  PostAdminRolloutsByIdRollbackError,
   GetHealthData,
   GetHealthResponse,
 } from "./types.gen";
@@ -106,6 +273,7 @@ export const postAuthRegister = <ThrowOnError extends boolean = false>(
 
 /**
  * Login with email and password
+ * Returns a challenge instead of tokens when the account has two-factor authentication on
  */
 export const postAuthLogin = <ThrowOnError extends boolean = false>(
   options?: Options<PostAuthLoginData, ThrowOnError>
@@ -124,6 +292,134 @@ export const postAuthLogin = <ThrowOnError extends boolean = false>(
   });
 };
 
+/**
+ * Complete a login with a code from the authenticator app or a recovery code
+ */
+export const postAuthLoginTwoFactor = <ThrowOnError extends boolean = false>(
+  options?: Options<PostAuthLoginTwoFactorData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).post<
+    PostAuthLoginTwoFactorResponse,
+    PostAuthLoginTwoFactorError,
+    ThrowOnError
+  >({
+    url: "/auth/login/two-factor",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options?.headers,
+    },
+  });
+};
+
+/**
+ * Refresh the access token of a session
+ */
+export const postAuthRefresh = <ThrowOnError extends boolean = false>(
+  options?: Options<PostAuthRefreshData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).post<
+    PostAuthRefreshResponse,
+    PostAuthRefreshError,
+    ThrowOnError
+  >({
+    url: "/auth/refresh",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options?.headers,
+    },
+  });
+};
+
+/**
+ * Sign out of the current session
+ */
+export const postAuthLogout = <ThrowOnError extends boolean = false>(
+  options?: Options<PostAuthLogoutData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).post<
+    PostAuthLogoutResponse,
+    PostAuthLogoutError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/auth/logout",
+    ...options,
+  });
+};
+
+/**
+ * Revoke every session of the account, including the current one
+ */
+export const deleteAuthSessions = <ThrowOnError extends boolean = false>(
+  options?: Options<DeleteAuthSessionsData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).delete<
+    DeleteAuthSessionsResponse,
+    DeleteAuthSessionsError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/auth/sessions",
+    ...options,
+  });
+};
+
+/**
+ * List the devices signed in to the account
+ */
+export const getAuthSessions = <ThrowOnError extends boolean = false>(
+  options?: Options<GetAuthSessionsData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).get<
+    GetAuthSessionsResponse,
+    GetAuthSessionsError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/auth/sessions",
+    ...options,
+  });
+};
+
+/**
+ * Revoke a session
+ */
+export const deleteAuthSessionsById = <ThrowOnError extends boolean = false>(
+  options: Options<DeleteAuthSessionsByIdData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).delete<
+    DeleteAuthSessionsByIdResponse,
+    DeleteAuthSessionsByIdError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/auth/sessions/{id}",
+    ...options,
+  });
+};
+
 /**
  * Get current authenticated user
  */
@@ -195,58 +491,74 @@ export const patchAuthPassword = <ThrowOnError extends boolean = false>(
 };
 
 /**
- * Delete user account
+ * Send a password reset link
  */
-export const deleteAuthAccount = <ThrowOnError extends boolean = false>(
-  options?: Options<DeleteAuthAccountData, ThrowOnError>
+export const postAuthForgotPassword = <ThrowOnError extends boolean = false>(
+  options?: Options<PostAuthForgotPasswordData, ThrowOnError>
 ) => {
-  return (options?.client ?? _heyApiClient).delete<
-    DeleteAuthAccountResponse,
-    DeleteAuthAccountError,
+  return (options?.client ?? _heyApiClient).post<
+    PostAuthForgotPasswordResponse,
+    unknown,
     ThrowOnError
   >({
-    security: [
-      {
-        scheme: "bearer",
-        type: "http",
-      },
-    ],
-    url: "/auth/account",
+    url: "/auth/forgot-password",
     ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options?.headers,
+    },
   });
 };
 
 /**
- * List all instances for the authenticated user
+ * Reset the password with a token from a reset email
  */
-export const getInstances = <ThrowOnError extends boolean = false>(
-  options?: Options<GetInstancesData, ThrowOnError>
+export const postAuthResetPassword = <ThrowOnError extends boolean = false>(
+  options?: Options<PostAuthResetPasswordData, ThrowOnError>
 ) => {
-  return (options?.client ?? _heyApiClient).get<
-    GetInstancesResponse,
-    GetInstancesError,
+  return (options?.client ?? _heyApiClient).post<
+    PostAuthResetPasswordResponse,
+    PostAuthResetPasswordError,
     ThrowOnError
   >({
-    security: [
-      {
-        scheme: "bearer",
-        type: "http",
-      },
-    ],
-    url: "/instances",
+    url: "/auth/reset-password",
     ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options?.headers,
+    },
   });
 };
 
 /**
- * Create a new OpenClaw instance
+ * Verify the email address with a token from a verification email
  */
-export const postInstances = <ThrowOnError extends boolean = false>(
-  options?: Options<PostInstancesData, ThrowOnError>
+export const postAuthVerifyEmail = <ThrowOnError extends boolean = false>(
+  options?: Options<PostAuthVerifyEmailData, ThrowOnError>
 ) => {
   return (options?.client ?? _heyApiClient).post<
-    PostInstancesResponse,
-    PostInstancesError,
+    PostAuthVerifyEmailResponse,
+    PostAuthVerifyEmailError,
+    ThrowOnError
+  >({
+    url: "/auth/verify-email",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options?.headers,
+    },
+  });
+};
+
+/**
+ * Send the verification email again
+ */
+export const postAuthVerifyEmailResend = <ThrowOnError extends boolean = false>(
+  options?: Options<PostAuthVerifyEmailResendData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).post<
+    PostAuthVerifyEmailResendResponse,
+    PostAuthVerifyEmailResendError,
     ThrowOnError
   >({
     security: [
@@ -255,24 +567,20 @@ export const postInstances = <ThrowOnError extends boolean = false>(
         type: "http",
       },
     ],
-    url: "/instances",
+    url: "/auth/verify-email/resend",
     ...options,
-    headers: {
-      "Content-Type": "application/json",
-      ...options?.headers,
-    },
   });
 };
 
 /**
- * Delete an instance
+ * Get the two-factor authentication status
  */
-export const deleteInstancesById = <ThrowOnError extends boolean = false>(
-  options: Options<DeleteInstancesByIdData, ThrowOnError>
+export const getAuthTwoFactor = <ThrowOnError extends boolean = false>(
+  options?: Options<GetAuthTwoFactorData, ThrowOnError>
 ) => {
-  return (options.client ?? _heyApiClient).delete<
-    DeleteInstancesByIdResponse,
-    DeleteInstancesByIdError,
+  return (options?.client ?? _heyApiClient).get<
+    GetAuthTwoFactorResponse,
+    GetAuthTwoFactorError,
     ThrowOnError
   >({
     security: [
@@ -281,20 +589,20 @@ export const deleteInstancesById = <ThrowOnError extends boolean = false>(
         type: "http",
       },
     ],
-    url: "/instances/{id}",
+    url: "/auth/two-factor",
     ...options,
   });
 };
 
 /**
- * Get an instance by ID
+ * Generate a TOTP secret to add to an authenticator app
  */
-export const getInstancesById = <ThrowOnError extends boolean = false>(
-  options: Options<GetInstancesByIdData, ThrowOnError>
+export const postAuthTwoFactorSetup = <ThrowOnError extends boolean = false>(
+  options?: Options<PostAuthTwoFactorSetupData, ThrowOnError>
 ) => {
-  return (options.client ?? _heyApiClient).get<
-    GetInstancesByIdResponse,
-    GetInstancesByIdError,
+  return (options?.client ?? _heyApiClient).post<
+    PostAuthTwoFactorSetupResponse,
+    PostAuthTwoFactorSetupError,
     ThrowOnError
   >({
     security: [
@@ -303,20 +611,20 @@ export const getInstancesById = <ThrowOnError extends boolean = false>(
         type: "http",
       },
     ],
-    url: "/instances/{id}",
+    url: "/auth/two-factor/setup",
     ...options,
   });
 };
 
 /**
- * Update an instance (must be stopped)
+ * Turn on two-factor authentication with a code from the authenticator app
  */
-export const patchInstancesById = <ThrowOnError extends boolean = false>(
-  options: Options<PatchInstancesByIdData, ThrowOnError>
+export const postAuthTwoFactorEnable = <ThrowOnError extends boolean = false>(
+  options?: Options<PostAuthTwoFactorEnableData, ThrowOnError>
 ) => {
-  return (options.client ?? _heyApiClient).patch<
-    PatchInstancesByIdResponse,
-    PatchInstancesByIdError,
+  return (options?.client ?? _heyApiClient).post<
+    PostAuthTwoFactorEnableResponse,
+    PostAuthTwoFactorEnableError,
     ThrowOnError
   >({
     security: [
@@ -325,7 +633,7 @@ export const patchInstancesById = <ThrowOnError extends boolean = false>(
         type: "http",
       },
     ],
-    url: "/instances/{id}",
+    url: "/auth/two-factor/enable",
     ...options,
     headers: {
       "Content-Type": "application/json",
@@ -335,14 +643,14 @@ export const patchInstancesById = <ThrowOnError extends boolean = false>(
 };
 
 /**
- * Start a stopped instance
+ * Turn off two-factor authentication
  */
-export const postInstancesByIdStart = <ThrowOnError extends boolean = false>(
-  options: Options<PostInstancesByIdStartData, ThrowOnError>
+export const postAuthTwoFactorDisable = <ThrowOnError extends boolean = false>(
+  options?: Options<PostAuthTwoFactorDisableData, ThrowOnError>
 ) => {
-  return (options.client ?? _heyApiClient).post<
-    PostInstancesByIdStartResponse,
-    PostInstancesByIdStartError,
+  return (options?.client ?? _heyApiClient).post<
+    PostAuthTwoFactorDisableResponse,
+    PostAuthTwoFactorDisableError,
     ThrowOnError
   >({
     security: [
@@ -351,20 +659,24 @@ export const postInstancesByIdStart = <ThrowOnError extends boolean = false>(
         type: "http",
       },
     ],
-    url: "/instances/{id}/start",
+    url: "/auth/two-factor/disable",
     ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options?.headers,
+    },
   });
 };
 
 /**
- * Stop a running instance
+ * Generate new recovery codes, invalidating the old ones
  */
-export const postInstancesByIdStop = <ThrowOnError extends boolean = false>(
-  options: Options<PostInstancesByIdStopData, ThrowOnError>
+export const postAuthTwoFactorRecoveryCodes = <ThrowOnError extends boolean = false>(
+  options?: Options<PostAuthTwoFactorRecoveryCodesData, ThrowOnError>
 ) => {
-  return (options.client ?? _heyApiClient).post<
-    PostInstancesByIdStopResponse,
-    PostInstancesByIdStopError,
+  return (options?.client ?? _heyApiClient).post<
+    PostAuthTwoFactorRecoveryCodesResponse,
+    PostAuthTwoFactorRecoveryCodesError,
     ThrowOnError
   >({
     security: [
@@ -373,20 +685,24 @@ export const postInstancesByIdStop = <ThrowOnError extends boolean = false>(
         type: "http",
       },
     ],
-    url: "/instances/{id}/stop",
+    url: "/auth/two-factor/recovery-codes",
     ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options?.headers,
+    },
   });
 };
 
 /**
- * Retry provisioning a failed instance
+ * List your personal access tokens
  */
-export const postInstancesByIdRetry = <ThrowOnError extends boolean = false>(
-  options: Options<PostInstancesByIdRetryData, ThrowOnError>
+export const getAuthTokens = <ThrowOnError extends boolean = false>(
+  options?: Options<GetAuthTokensData, ThrowOnError>
 ) => {
-  return (options.client ?? _heyApiClient).post<
-    PostInstancesByIdRetryResponse,
-    PostInstancesByIdRetryError,
+  return (options?.client ?? _heyApiClient).get<
+    GetAuthTokensResponse,
+    GetAuthTokensError,
     ThrowOnError
   >({
     security: [
@@ -395,20 +711,20 @@ export const postInstancesByIdRetry = <ThrowOnError extends boolean = false>(
         type: "http",
       },
     ],
-    url: "/instances/{id}/retry",
+    url: "/auth/tokens",
     ...options,
   });
 };
 
 /**
- * Validate a Telegram bot token
+ * Create a personal access token; the token is only returned this once
  */
-export const postInstancesValidateTelegramToken = <ThrowOnError extends boolean = false>(
-  options?: Options<PostInstancesValidateTelegramTokenData, ThrowOnError>
+export const postAuthTokens = <ThrowOnError extends boolean = false>(
+  options?: Options<PostAuthTokensData, ThrowOnError>
 ) => {
   return (options?.client ?? _heyApiClient).post<
-    PostInstancesValidateTelegramTokenResponse,
-    PostInstancesValidateTelegramTokenError,
+    PostAuthTokensResponse,
+    PostAuthTokensError,
     ThrowOnError
   >({
     security: [
@@ -417,7 +733,7 @@ export const postInstancesValidateTelegramToken = <ThrowOnError extends boolean
         type: "http",
       },
     ],
-    url: "/instances/validate-telegram-token",
+    url: "/auth/tokens",
     ...options,
     headers: {
       "Content-Type": "application/json",
@@ -427,14 +743,14 @@ export const postInstancesValidateTelegramToken = <ThrowOnError extends boolean
 };
 
 /**
- * Create Stripe Checkout session for subscription
+ * Revoke a personal access token
  */
-export const postBillingCheckout = <ThrowOnError extends boolean = false>(
-  options?: Options<PostBillingCheckoutData, ThrowOnError>
+export const deleteAuthTokensById = <ThrowOnError extends boolean = false>(
+  options: Options<DeleteAuthTokensByIdData, ThrowOnError>
 ) => {
-  return (options?.client ?? _heyApiClient).post<
-    PostBillingCheckoutResponse,
-    PostBillingCheckoutError,
+  return (options.client ?? _heyApiClient).delete<
+    DeleteAuthTokensByIdResponse,
+    DeleteAuthTokensByIdError,
     ThrowOnError
   >({
     security: [
@@ -443,24 +759,20 @@ export const postBillingCheckout = <ThrowOnError extends boolean = false>(
         type: "http",
       },
     ],
-    url: "/billing/checkout",
+    url: "/auth/tokens/{id}",
     ...options,
-    headers: {
-      "Content-Type": "application/json",
-      ...options?.headers,
-    },
   });
 };
 
 /**
- * Create Stripe Customer Portal session
+ * Get the deletion status of the current account
  */
-export const postBillingPortal = <ThrowOnError extends boolean = false>(
-  options?: Options<PostBillingPortalData, ThrowOnError>
+export const getAuthAccountDeletion = <ThrowOnError extends boolean = false>(
+  options?: Options<GetAuthAccountDeletionData, ThrowOnError>
 ) => {
-  return (options?.client ?? _heyApiClient).post<
-    PostBillingPortalResponse,
-    PostBillingPortalError,
+  return (options?.client ?? _heyApiClient).get<
+    GetAuthAccountDeletionResponse,
+    GetAuthAccountDeletionError,
     ThrowOnError
   >({
     security: [
@@ -469,20 +781,20 @@ export const postBillingPortal = <ThrowOnError extends boolean = false>(
         type: "http",
       },
     ],
-    url: "/billing/portal",
+    url: "/auth/account/deletion",
     ...options,
   });
 };
 
 /**
- * Get invoice history from Stripe
+ * Delete user account and all associated data after a grace period
  */
-export const getBillingInvoices = <ThrowOnError extends boolean = false>(
-  options?: Options<GetBillingInvoicesData, ThrowOnError>
+export const deleteAuthAccount = <ThrowOnError extends boolean = false>(
+  options?: Options<DeleteAuthAccountData, ThrowOnError>
 ) => {
-  return (options?.client ?? _heyApiClient).get<
-    GetBillingInvoicesResponse,
-    GetBillingInvoicesError,
+  return (options?.client ?? _heyApiClient).delete<
+    DeleteAuthAccountResponse,
+    DeleteAuthAccountError,
     ThrowOnError
   >({
     security: [
@@ -491,20 +803,20 @@ export const getBillingInvoices = <ThrowOnError extends boolean = false>(
         type: "http",
       },
     ],
-    url: "/billing/invoices",
+    url: "/auth/account",
     ...options,
   });
 };
 
 /**
- * Get current subscription status
+ * Restore an account that is scheduled for deletion
  */
-export const getBillingSubscription = <ThrowOnError extends boolean = false>(
-  options?: Options<GetBillingSubscriptionData, ThrowOnError>
+export const postAuthAccountRestore = <ThrowOnError extends boolean = false>(
+  options?: Options<PostAuthAccountRestoreData, ThrowOnError>
 ) => {
-  return (options?.client ?? _heyApiClient).get<
-    GetBillingSubscriptionResponse,
-    GetBillingSubscriptionError,
+  return (options?.client ?? _heyApiClient).post<
+    PostAuthAccountRestoreResponse,
+    PostAuthAccountRestoreError,
     ThrowOnError
   >({
     security: [
@@ -513,18 +825,924 @@ export const getBillingSubscription = <ThrowOnError extends boolean = false>(
         type: "http",
       },
     ],
-    url: "/billing/subscription",
+    url: "/auth/account/restore",
     ...options,
   });
 };
 
 /**
- * Handle Stripe webhook events
+ * List the organizations you belong to, with your role in each
  */
-export const postBillingWebhook = <ThrowOnError extends boolean = false>(
-  options?: Options<PostBillingWebhookData, ThrowOnError>
+export const getOrganizations = <ThrowOnError extends boolean = false>(
+  options?: Options<GetOrganizationsData, ThrowOnError>
 ) => {
-  return (options?.client ?? _heyApiClient).post<
+  return (options?.client ?? _heyApiClient).get<
+    GetOrganizationsResponse,
+    GetOrganizationsError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/organizations",
+    ...options,
+  });
+};
+
+/**
+ * Create an organization; you become its owner
+ */
+export const postOrganizations = <ThrowOnError extends boolean = false>(
+  options?: Options<PostOrganizationsData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).post<
+    PostOrganizationsResponse,
+    PostOrganizationsError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/organizations",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options?.headers,
+    },
+  });
+};
+
+/**
+ * Update an organization
+ */
+export const patchOrganizationsById = <ThrowOnError extends boolean = false>(
+  options: Options<PatchOrganizationsByIdData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).patch<
+    PatchOrganizationsByIdResponse,
+    PatchOrganizationsByIdError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/organizations/{id}",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options?.headers,
+    },
+  });
+};
+
+/**
+ * List the members of an organization
+ */
+export const getOrganizationsByIdMembers = <ThrowOnError extends boolean = false>(
+  options: Options<GetOrganizationsByIdMembersData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).get<
+    GetOrganizationsByIdMembersResponse,
+    GetOrganizationsByIdMembersError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/organizations/{id}/members",
+    ...options,
+  });
+};
+
+/**
+ * Remove a member; any member may remove themselves
+ */
+export const deleteOrganizationsByIdMembersByUserId = <ThrowOnError extends boolean = false>(
+  options: Options<DeleteOrganizationsByIdMembersByUserIdData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).delete<
+    DeleteOrganizationsByIdMembersByUserIdResponse,
+    DeleteOrganizationsByIdMembersByUserIdError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/organizations/{id}/members/{userId}",
+    ...options,
+  });
+};
+
+/**
+ * Change the role of a member
+ */
+export const patchOrganizationsByIdMembersByUserId = <ThrowOnError extends boolean = false>(
+  options: Options<PatchOrganizationsByIdMembersByUserIdData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).patch<
+    PatchOrganizationsByIdMembersByUserIdResponse,
+    PatchOrganizationsByIdMembersByUserIdError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/organizations/{id}/members/{userId}",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options?.headers,
+    },
+  });
+};
+
+/**
+ * List the pending invitations of an organization
+ */
+export const getOrganizationsByIdInvitations = <ThrowOnError extends boolean = false>(
+  options: Options<GetOrganizationsByIdInvitationsData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).get<
+    GetOrganizationsByIdInvitationsResponse,
+    GetOrganizationsByIdInvitationsError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/organizations/{id}/invitations",
+    ...options,
+  });
+};
+
+/**
+ * Email an invitation to join an organization
+ */
+export const postOrganizationsByIdInvitations = <ThrowOnError extends boolean = false>(
+  options: Options<PostOrganizationsByIdInvitationsData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).post<
+    PostOrganizationsByIdInvitationsResponse,
+    PostOrganizationsByIdInvitationsError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/organizations/{id}/invitations",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options?.headers,
+    },
+  });
+};
+
+/**
+ * Withdraw a pending invitation
+ */
+export const deleteOrganizationsByIdInvitationsByInvitationId = <
+  ThrowOnError extends boolean = false,
+>(
+  options: Options<DeleteOrganizationsByIdInvitationsByInvitationIdData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).delete<
+    DeleteOrganizationsByIdInvitationsByInvitationIdResponse,
+    DeleteOrganizationsByIdInvitationsByInvitationIdError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/organizations/{id}/invitations/{invitationId}",
+    ...options,
+  });
+};
+
+/**
+ * Accept an invitation; you must be signed in with the invited email address
+ */
+export const postInvitationsAccept = <ThrowOnError extends boolean = false>(
+  options?: Options<PostInvitationsAcceptData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).post<
+    PostInvitationsAcceptResponse,
+    PostInvitationsAcceptError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/invitations/accept",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options?.headers,
+    },
+  });
+};
+
+/**
+ * List all instances of the organization
+ */
+export const getInstances = <ThrowOnError extends boolean = false>(
+  options?: Options<GetInstancesData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).get<
+    GetInstancesResponse,
+    GetInstancesError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/instances",
+    ...options,
+  });
+};
+
+/**
+ * Create a new OpenClaw instance
+ */
+export const postInstances = <ThrowOnError extends boolean = false>(
+  options?: Options<PostInstancesData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).post<
+    PostInstancesResponse,
+    PostInstancesError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/instances",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options?.headers,
+    },
+  });
+};
+
+/**
+ * Stream status and event updates for the organization's instances
+ * Server-Sent Events stream. Sends `instance` events with the updated Instance and `event` events with new InstanceEvent entries.
+ */
+export const getInstancesStream = <ThrowOnError extends boolean = false>(
+  options?: Options<GetInstancesStreamData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).get<
+    GetInstancesStreamResponse,
+    GetInstancesStreamError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/instances/stream",
+    ...options,
+  });
+};
+
+/**
+ * Delete an instance
+ */
+export const deleteInstancesById = <ThrowOnError extends boolean = false>(
+  options: Options<DeleteInstancesByIdData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).delete<
+    DeleteInstancesByIdResponse,
+    DeleteInstancesByIdError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/instances/{id}",
+    ...options,
+  });
+};
+
+/**
+ * Get an instance by ID
+ */
+export const getInstancesById = <ThrowOnError extends boolean = false>(
+  options: Options<GetInstancesByIdData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).get<
+    GetInstancesByIdResponse,
+    GetInstancesByIdError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/instances/{id}",
+    ...options,
+  });
+};
+
+/**
+ * Update an instance
+ * Names and Telegram access policies apply immediately. Changing the model, API key source or Telegram bot token of a running instance restarts it; follow its status. The region cannot be changed.
+ */
+export const patchInstancesById = <ThrowOnError extends boolean = false>(
+  options: Options<PatchInstancesByIdData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).patch<
+    PatchInstancesByIdResponse,
+    PatchInstancesByIdError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/instances/{id}",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options?.headers,
+    },
+  });
+};
+
+/**
+ * List recent provisioning jobs for an instance
+ */
+export const getInstancesByIdJobs = <ThrowOnError extends boolean = false>(
+  options: Options<GetInstancesByIdJobsData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).get<
+    GetInstancesByIdJobsResponse,
+    GetInstancesByIdJobsError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/instances/{id}/jobs",
+    ...options,
+  });
+};
+
+/**
+ * List the event history of an instance
+ */
+export const getInstancesByIdEvents = <ThrowOnError extends boolean = false>(
+  options: Options<GetInstancesByIdEventsData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).get<
+    GetInstancesByIdEventsResponse,
+    GetInstancesByIdEventsError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/instances/{id}/events",
+    ...options,
+  });
+};
+
+/**
+ * Get logs from an instance
+ * Returns the most recent log lines. With `follow=true` the response is a Server-Sent Events stream of `log` events (each an InstanceLogEntry); an `error` event is sent if reading logs from the provider fails.
+ */
+export const getInstancesByIdLogs = <ThrowOnError extends boolean = false>(
+  options: Options<GetInstancesByIdLogsData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).get<
+    GetInstancesByIdLogsResponse,
+    GetInstancesByIdLogsError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/instances/{id}/logs",
+    ...options,
+  });
+};
+
+/**
+ * Get an instance's volume
+ * Size and usage of the volume holding the instance's memory and workspace. `usedBytes` is null when the provider cannot report it, e.g. a stopped Docker container.
+ */
+export const getInstancesByIdVolume = <ThrowOnError extends boolean = false>(
+  options: Options<GetInstancesByIdVolumeData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).get<
+    GetInstancesByIdVolumeResponse,
+    GetInstancesByIdVolumeError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/instances/{id}/volume",
+    ...options,
+  });
+};
+
+/**
+ * Start a stopped instance
+ */
+export const postInstancesByIdStart = <ThrowOnError extends boolean = false>(
+  options: Options<PostInstancesByIdStartData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).post<
+    PostInstancesByIdStartResponse,
+    PostInstancesByIdStartError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/instances/{id}/start",
+    ...options,
+  });
+};
+
+/**
+ * Stop a running instance
+ */
+export const postInstancesByIdStop = <ThrowOnError extends boolean = false>(
+  options: Options<PostInstancesByIdStopData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).post<
+    PostInstancesByIdStopResponse,
+    PostInstancesByIdStopError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/instances/{id}/stop",
+    ...options,
+  });
+};
+
+/**
+ * Restart a running instance
+ * Restarts the instance in place where the provider supports it, otherwise stops and starts it. Settings saved since it last started apply.
+ */
+export const postInstancesByIdRestart = <ThrowOnError extends boolean = false>(
+  options: Options<PostInstancesByIdRestartData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).post<
+    PostInstancesByIdRestartResponse,
+    PostInstancesByIdRestartError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/instances/{id}/restart",
+    ...options,
+  });
+};
+
+/**
+ * Redeploy an instance
+ * Recreates the instance's machine or container from the image of its OpenClaw version and its current settings. The instance keeps its ID, name and credentials and is running afterwards.
+ */
+export const postInstancesByIdRedeploy = <ThrowOnError extends boolean = false>(
+  options: Options<PostInstancesByIdRedeployData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).post<
+    PostInstancesByIdRedeployResponse,
+    PostInstancesByIdRedeployError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/instances/{id}/redeploy",
+    ...options,
+  });
+};
+
+/**
+ * Retry provisioning a failed instance
+ */
+export const postInstancesByIdRetry = <ThrowOnError extends boolean = false>(
+  options: Options<PostInstancesByIdRetryData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).post<
+    PostInstancesByIdRetryResponse,
+    PostInstancesByIdRetryError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/instances/{id}/retry",
+    ...options,
+  });
+};
+
+/**
+ * Validate a Telegram bot token
+ */
+export const postInstancesValidateTelegramToken = <ThrowOnError extends boolean = false>(
+  options?: Options<PostInstancesValidateTelegramTokenData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).post<
+    PostInstancesValidateTelegramTokenResponse,
+    PostInstancesValidateTelegramTokenError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/instances/validate-telegram-token",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options?.headers,
+    },
+  });
+};
+
+/**
+ * List instance providers and their capabilities
+ */
+export const getProviders = <ThrowOnError extends boolean = false>(
+  options?: Options<GetProvidersData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).get<
+    GetProvidersResponse,
+    GetProvidersError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/providers",
+    ...options,
+  });
+};
+
+/**
+ * Validate the credentials of a channel
+ */
+export const postChannelsValidate = <ThrowOnError extends boolean = false>(
+  options?: Options<PostChannelsValidateData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).post<
+    PostChannelsValidateResponse,
+    PostChannelsValidateError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/channels/validate",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options?.headers,
+    },
+  });
+};
+
+/**
+ * List the channels of an instance
+ */
+export const getInstancesByIdChannels = <ThrowOnError extends boolean = false>(
+  options: Options<GetInstancesByIdChannelsData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).get<
+    GetInstancesByIdChannelsResponse,
+    GetInstancesByIdChannelsError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/instances/{id}/channels",
+    ...options,
+  });
+};
+
+/**
+ * Attach a channel to an instance (must be stopped)
+ */
+export const putInstancesByIdChannels = <ThrowOnError extends boolean = false>(
+  options: Options<PutInstancesByIdChannelsData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).put<
+    PutInstancesByIdChannelsResponse,
+    PutInstancesByIdChannelsError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/instances/{id}/channels",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options?.headers,
+    },
+  });
+};
+
+/**
+ * Remove a channel from an instance (must be stopped)
+ */
+export const deleteInstancesByIdChannelsByType = <ThrowOnError extends boolean = false>(
+  options: Options<DeleteInstancesByIdChannelsByTypeData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).delete<
+    DeleteInstancesByIdChannelsByTypeResponse,
+    DeleteInstancesByIdChannelsByTypeError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/instances/{id}/channels/{type}",
+    ...options,
+  });
+};
+
+/**
+ * List your saved AI provider keys
+ */
+export const getAiKeys = <ThrowOnError extends boolean = false>(
+  options?: Options<GetAiKeysData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).get<GetAiKeysResponse, GetAiKeysError, ThrowOnError>({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/ai-keys",
+    ...options,
+  });
+};
+
+/**
+ * Remove your saved key for an AI provider
+ */
+export const deleteAiKeysByProvider = <ThrowOnError extends boolean = false>(
+  options: Options<DeleteAiKeysByProviderData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).delete<
+    DeleteAiKeysByProviderResponse,
+    DeleteAiKeysByProviderError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/ai-keys/{provider}",
+    ...options,
+  });
+};
+
+/**
+ * Validate and save your own key for an AI provider
+ */
+export const putAiKeysByProvider = <ThrowOnError extends boolean = false>(
+  options: Options<PutAiKeysByProviderData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).put<
+    PutAiKeysByProviderResponse,
+    PutAiKeysByProviderError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/ai-keys/{provider}",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options?.headers,
+    },
+  });
+};
+
+/**
+ * List AI models instances can run
+ */
+export const getModels = <ThrowOnError extends boolean = false>(
+  options?: Options<GetModelsData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).get<GetModelsResponse, GetModelsError, ThrowOnError>({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/models",
+    ...options,
+  });
+};
+
+/**
+ * Create Stripe Checkout session for subscription
+ */
+export const postBillingCheckout = <ThrowOnError extends boolean = false>(
+  options?: Options<PostBillingCheckoutData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).post<
+    PostBillingCheckoutResponse,
+    PostBillingCheckoutError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/billing/checkout",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options?.headers,
+    },
+  });
+};
+
+/**
+ * Create Stripe Customer Portal session
+ */
+export const postBillingPortal = <ThrowOnError extends boolean = false>(
+  options?: Options<PostBillingPortalData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).post<
+    PostBillingPortalResponse,
+    PostBillingPortalError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/billing/portal",
+    ...options,
+  });
+};
+
+/**
+ * Get invoice history from Stripe
+ */
+export const getBillingInvoices = <ThrowOnError extends boolean = false>(
+  options?: Options<GetBillingInvoicesData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).get<
+    GetBillingInvoicesResponse,
+    GetBillingInvoicesError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/billing/invoices",
+    ...options,
+  });
+};
+
+/**
+ * Get current subscription status
+ */
+export const getBillingSubscription = <ThrowOnError extends boolean = false>(
+  options?: Options<GetBillingSubscriptionData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).get<
+    GetBillingSubscriptionResponse,
+    GetBillingSubscriptionError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/billing/subscription",
+    ...options,
+  });
+};
+
+/**
+ * Handle Stripe webhook events
+ */
+export const postBillingWebhook = <ThrowOnError extends boolean = false>(
+  options?: Options<PostBillingWebhookData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).post<
     PostBillingWebhookResponse,
     PostBillingWebhookError,
     ThrowOnError
@@ -534,6 +1752,236 @@ export const postBillingWebhook = <ThrowOnError extends boolean = false>(
   });
 };
 
+/**
+ * Report orphaned and missing provider resources without changing anything
+ */
+export const getAdminReconcile = <ThrowOnError extends boolean = false>(
+  options?: Options<GetAdminReconcileData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).get<
+    GetAdminReconcileResponse,
+    GetAdminReconcileError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/admin/reconcile",
+    ...options,
+  });
+};
+
+/**
+ * List the OpenClaw versions approved for instances
+ */
+export const getAdminImageVersions = <ThrowOnError extends boolean = false>(
+  options?: Options<GetAdminImageVersionsData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).get<
+    GetAdminImageVersionsResponse,
+    GetAdminImageVersionsError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/admin/image-versions",
+    ...options,
+  });
+};
+
+/**
+ * Approve an OpenClaw version, optionally making it the default for new instances
+ */
+export const postAdminImageVersions = <ThrowOnError extends boolean = false>(
+  options?: Options<PostAdminImageVersionsData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).post<
+    PostAdminImageVersionsResponse,
+    PostAdminImageVersionsError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/admin/image-versions",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options?.headers,
+    },
+  });
+};
+
+/**
+ * Make an approved OpenClaw version the default for new instances
+ */
+export const postAdminImageVersionsByVersionDefault = <ThrowOnError extends boolean = false>(
+  options: Options<PostAdminImageVersionsByVersionDefaultData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).post<
+    PostAdminImageVersionsByVersionDefaultResponse,
+    PostAdminImageVersionsByVersionDefaultError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/admin/image-versions/{version}/default",
+    ...options,
+  });
+};
+
+/**
+ * Withdraw an OpenClaw version
+ * New instances can no longer pin the version. Instances running it keep it until a rollout moves them.
+ */
+export const deleteAdminImageVersionsByVersion = <ThrowOnError extends boolean = false>(
+  options: Options<DeleteAdminImageVersionsByVersionData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).delete<
+    DeleteAdminImageVersionsByVersionResponse,
+    DeleteAdminImageVersionsByVersionError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/admin/image-versions/{version}",
+    ...options,
+  });
+};
+
+/**
+ * List rollouts of OpenClaw versions
+ */
+export const getAdminRollouts = <ThrowOnError extends boolean = false>(
+  options?: Options<GetAdminRolloutsData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).get<
+    GetAdminRolloutsResponse,
+    GetAdminRolloutsError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/admin/rollouts",
+    ...options,
+  });
+};
+
+/**
+ * Roll out an OpenClaw version to running instances
+ * Redeploys running instances on the version a batch at a time, starting the next batch once the current one is healthy. If more than maxFailures upgrades fail, the rollout halts and rolls the upgraded instances back.
+ */
+export const postAdminRollouts = <ThrowOnError extends boolean = false>(
+  options?: Options<PostAdminRolloutsData, ThrowOnError>
+) => {
+  return (options?.client ?? _heyApiClient).post<
+    PostAdminRolloutsResponse,
+    PostAdminRolloutsError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/admin/rollouts",
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...options?.headers,
+    },
+  });
+};
+
+/**
+ * Get a rollout and the state of each of its instances
+ */
+export const getAdminRolloutsById = <ThrowOnError extends boolean = false>(
+  options: Options<GetAdminRolloutsByIdData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).get<
+    GetAdminRolloutsByIdResponse,
+    GetAdminRolloutsByIdError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/admin/rollouts/{id}",
+    ...options,
+  });
+};
+
+/**
+ * Halt a rollout, leaving upgraded instances on the new version
+ */
+export const postAdminRolloutsByIdHalt = <ThrowOnError extends boolean = false>(
+  options: Options<PostAdminRolloutsByIdHaltData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).post<
+    PostAdminRolloutsByIdHaltResponse,
+    PostAdminRolloutsByIdHaltError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/admin/rollouts/{id}/halt",
+    ...options,
+  });
+};
+
+/**
+ * Roll back the instances a rollout upgraded
+ */
+export const postAdminRolloutsByIdRollback = <ThrowOnError extends boolean = false>(
+  options: Options<PostAdminRolloutsByIdRollbackData, ThrowOnError>
+) => {
+  return (options.client ?? _heyApiClient).post<
+    PostAdminRolloutsByIdRollbackResponse,
+    PostAdminRolloutsByIdRollbackError,
+    ThrowOnError
+  >({
+    security: [
+      {
+        scheme: "bearer",
+        type: "http",
+      },
+    ],
+    url: "/admin/rollouts/{id}/rollback",
+    ...options,
+  });
+};
+
 /**
  * Health check endpoint
  */
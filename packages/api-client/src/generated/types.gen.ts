@@ -4,12 +4,18 @@ export type User = {
   id: string;
   email: string;
   name: string | null;
+  emailVerified: boolean;
   createdAt: string;
   updatedAt: string;
 };
 
-export type TokenResponse = {
+export type SessionTokens = {
   accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+};
+
+export type TokenResponse = SessionTokens & {
   user: User;
 };
 
@@ -23,55 +29,353 @@ export type RegisterRequest = {
   name: string;
 };
 
+export type TwoFactorChallenge = {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresIn: number;
+};
+
+export type LoginResponse = TokenResponse | TwoFactorChallenge;
+
 export type LoginRequest = {
   email: string;
   password: string;
 };
 
-export type UpdateProfileRequest = {
-  name: string;
+export type TwoFactorLoginRequest = {
+  challengeToken: string;
+  code: string;
+};
+
+export type RefreshTokenRequest = {
+  refreshToken: string;
 };
 
 export type ApiMessage = {
   message: string;
 };
 
+export type Session = {
+  id: string;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  current: boolean;
+  lastUsedAt: string;
+  expiresAt: string;
+  createdAt: string;
+};
+
+export type SessionList = Array<Session>;
+
+export type UpdateProfileRequest = {
+  name: string;
+};
+
 export type UpdatePasswordRequest = {
   currentPassword: string;
   newPassword: string;
 };
 
+export type ForgotPasswordRequest = {
+  email: string;
+};
+
+export type ResetPasswordRequest = {
+  token: string;
+  newPassword: string;
+};
+
+export type VerifyEmailRequest = {
+  token: string;
+};
+
+export type TwoFactorStatus = {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+};
+
+export type TwoFactorSetup = {
+  secret: string;
+  otpauthUri: string;
+};
+
+export type RecoveryCodes = {
+  recoveryCodes: Array<string>;
+};
+
+export type TwoFactorCodeRequest = {
+  code: string;
+};
+
+export type AccessTokenScope = "instances:read" | "instances:write" | "billing:read";
+
+export type AccessToken = {
+  id: string;
+  name: string;
+  maskedToken: string;
+  scopes: Array<AccessTokenScope>;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+};
+
+export type AccessTokenList = Array<AccessToken>;
+
+export type CreatedAccessToken = AccessToken & {
+  token: string;
+};
+
+export type CreateAccessTokenRequest = {
+  name: string;
+  scopes: Array<AccessTokenScope>;
+  expiresInDays: number | null;
+};
+
+export type AccountDeletionStatus = {
+  deletionRequestedAt: string | null;
+  deletionScheduledFor: string | null;
+};
+
+export type OrganizationRole = "viewer" | "operator" | "admin" | "owner";
+
+export type Organization = {
+  id: string;
+  name: string;
+  role: OrganizationRole;
+  requireTwoFactor: boolean;
+  createdAt: string;
+};
+
+export type OrganizationList = Array<Organization>;
+
+export type CreateOrganizationRequest = {
+  name: string;
+};
+
+export type UpdateOrganizationRequest = {
+  name?: string;
+  requireTwoFactor?: boolean;
+};
+
+export type OrganizationMember = {
+  userId: string;
+  email: string;
+  name: string | null;
+  role: OrganizationRole;
+  twoFactorEnabled: boolean;
+  joinedAt: string;
+};
+
+export type OrganizationMemberList = Array<OrganizationMember>;
+
+export type UpdateMemberRequest = {
+  role: OrganizationRole;
+};
+
+export type OrganizationInvitation = {
+  id: string;
+  email: string;
+  role: OrganizationRole;
+  invitedBy: string | null;
+  expiresAt: string;
+  createdAt: string;
+};
+
+export type OrganizationInvitationList = Array<OrganizationInvitation>;
+
+export type CreateInvitationRequest = {
+  email: string;
+  role: OrganizationRole;
+};
+
+export type AcceptInvitationRequest = {
+  token: string;
+};
+
+export type InstanceStatus =
+  | "CREATING"
+  | "PROVISIONING"
+  | "STARTING"
+  | "RUNNING"
+  | "STOPPING"
+  | "STOPPED"
+  | "FAILED"
+  | "DELETING"
+  | "DELETED"
+  | "UNKNOWN";
+
+export type AiKeySource = "platform" | "own";
+
+export type TelegramDmPolicy = "pairing" | "allowlist" | "open" | "disabled";
+
+export type TelegramGroupPolicy = "allowlist" | "open" | "disabled";
+
+export type TelegramAccess = {
+  dmPolicy: TelegramDmPolicy;
+  allowFrom: Array<string>;
+  groupPolicy: TelegramGroupPolicy;
+};
+
 export type Instance = {
   id: string;
   userId: string;
+  organizationId?: string | null;
   name: string;
   provider: string;
-  flyAppName: string | null;
-  flyMachineId: string | null;
-  dockerContainerId: string | null;
-  dockerPort: number | null;
-  status: string;
+  providerResourceId: string | null;
+  providerMeta: {
+    [key: string]: string | number | boolean | unknown;
+  };
+  status: InstanceStatus;
   region: string;
   aiModel: string;
-  telegramBotToken: string | null;
+  aiKeySource?: AiKeySource;
+  imageVersion: string;
+  volumeSizeGb: number | null;
+  telegramAccess: TelegramAccess;
   ipAddress: string | null;
   createdAt: string;
   updatedAt: string;
 };
 
+export type EntitlementName =
+  | "models"
+  | "regions"
+  | "maxInstances"
+  | "logRetentionDays"
+  | "byoKeys"
+  | "customImages";
+
+export type EntitlementError = {
+  error: string;
+  entitlement: EntitlementName;
+  plan: "starter" | "pro" | "enterprise";
+  allowed?: Array<string>;
+  limit?: number;
+};
+
+export type ForbiddenError = EntitlementError | ApiError;
+
+export type ChannelInput =
+  | {
+      type: "telegram";
+      botToken: string;
+    }
+  | {
+      type: "discord";
+      botToken: string;
+    }
+  | {
+      type: "slack";
+      botToken: string;
+      appToken: string;
+    };
+
 export type CreateInstanceRequest = {
   name: string;
-  telegramBotToken: string;
+  channels?: Array<ChannelInput>;
+  telegramBotToken?: string;
   region?: string;
   aiModel?: string;
+  aiKeySource?: AiKeySource;
+  imageVersion?: string;
 };
 
 export type InstanceList = Array<Instance>;
 
+export type UpdateTelegramAccess = {
+  dmPolicy?: TelegramDmPolicy;
+  allowFrom?: Array<string>;
+  groupPolicy?: TelegramGroupPolicy;
+};
+
 export type UpdateInstanceRequest = {
   name?: string;
   telegramBotToken?: string;
   aiModel?: string;
+  aiKeySource?: AiKeySource;
+  telegramAccess?: UpdateTelegramAccess;
+  region?: string;
+};
+
+export type InstanceJob = {
+  id: string;
+  instanceId: string;
+  type: string;
+  status: string;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  runAt: string;
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type InstanceJobList = Array<InstanceJob>;
+
+export type InstanceEvent = {
+  id: string;
+  instanceId: string;
+  type: "STATUS_CHANGE" | "PROVIDER_CALL" | "ERROR";
+  actor: "USER" | "SYSTEM" | "SYNC" | "WEBHOOK";
+  actorId: string | null;
+  fromStatus:
+    | "CREATING"
+    | "PROVISIONING"
+    | "STARTING"
+    | "RUNNING"
+    | "STOPPING"
+    | "STOPPED"
+    | "FAILED"
+    | "DELETING"
+    | "DELETED"
+    | "UNKNOWN"
+    | null;
+  toStatus:
+    | "CREATING"
+    | "PROVISIONING"
+    | "STARTING"
+    | "RUNNING"
+    | "STOPPING"
+    | "STOPPED"
+    | "FAILED"
+    | "DELETING"
+    | "DELETED"
+    | "UNKNOWN"
+    | null;
+  message: string | null;
+  createdAt: string;
+};
+
+export type PaginationMeta = {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+};
+
+export type InstanceEventListResponse = {
+  events: Array<InstanceEvent>;
+  pagination: PaginationMeta;
+};
+
+export type InstanceLogEntry = {
+  timestamp: string;
+  level: "debug" | "info" | "warn" | "error";
+  message: string;
+};
+
+export type InstanceLogListResponse = {
+  logs: Array<InstanceLogEntry>;
+};
+
+export type InstanceVolume = {
+  sizeGb: number;
+  usedBytes: number | null;
+  mountPath: string;
 };
 
 export type ApiSuccess = {
@@ -89,12 +393,78 @@ export type ValidateTelegramTokenRequest = {
   token: string;
 };
 
+export type ProviderCapabilities = {
+  logs: boolean;
+  exec: boolean;
+  volumes: boolean;
+  regions: boolean;
+  suspend: boolean;
+  metrics: boolean;
+  redeploy: boolean;
+};
+
+export type ProviderInfo = {
+  name: string;
+  displayName: string;
+  capabilities: ProviderCapabilities;
+  regions: Array<string>;
+  isDefault: boolean;
+};
+
+export type ProviderList = Array<ProviderInfo>;
+
+export type ValidateChannelResponse = {
+  valid: boolean;
+  botName?: string;
+  error?: string;
+};
+
+export type ChannelType = "telegram" | "discord" | "slack";
+
+export type InstanceChannel = {
+  id: string;
+  type: ChannelType;
+  maskedToken: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type InstanceChannelList = Array<InstanceChannel>;
+
+export type AiKeyProvider = "openai" | "anthropic" | "google";
+
+export type AiKey = {
+  provider: AiKeyProvider;
+  maskedKey: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type AiKeyList = Array<AiKey>;
+
+export type SaveAiKeyRequest = {
+  apiKey: string;
+};
+
+export type AiModel = {
+  id: string;
+  vendor: AiKeyProvider;
+  displayName: string;
+  contextWindow: number;
+  plans: Array<"starter" | "pro" | "enterprise">;
+  deprecatedAt: string | null;
+  available: boolean;
+};
+
+export type AiModelList = Array<AiModel>;
+
 export type CheckoutResponse = {
   url: string;
 };
 
 export type CreateCheckoutRequest = {
   plan: "starter" | "pro" | "enterprise";
+  byoKey?: boolean;
 };
 
 export type PortalResponse = {
@@ -115,7 +485,7 @@ export type InvoiceList = Array<Invoice>;
 
 export type Subscription = {
   id: string;
-  userId: string;
+  organizationId: string;
   stripeCustomerId: string;
   stripeSubscriptionId: string;
   status: string;
@@ -124,16 +494,30 @@ export type Subscription = {
   currentPeriodStart: string | null;
   currentPeriodEnd: string;
   cancelAtPeriodEnd: boolean;
+  byoKey?: boolean;
   createdAt: string;
   updatedAt: string;
 } | null;
 
+export type PlanEntitlements = {
+  models: "all" | Array<string>;
+  regions: "all" | Array<string>;
+  maxInstances: number;
+  logRetentionDays: number;
+  byoKeys: boolean;
+  customImages: boolean;
+  volumeSizeGb: number;
+};
+
 export type PlanConfig = {
   name: string;
   priceId: string;
   price: number;
+  byoKeyPriceId?: string;
+  byoKeyPrice?: number;
   instanceLimit: number;
   features: Array<string>;
+  entitlements?: PlanEntitlements;
 };
 
 export type Plans = {
@@ -151,6 +535,111 @@ export type WebhookResponse = {
   received: boolean;
 };
 
+export type ReconcileProviderSummary = {
+  provider: string;
+  resources: number;
+  instances: number;
+  error: string | null;
+};
+
+export type ReconcileOrphanAction = "report" | "destroy";
+
+export type ReconcileOrphan = {
+  provider: string;
+  resourceId: string | null;
+  name: string;
+  status: InstanceStatus;
+  createdAt: string | null;
+  action: ReconcileOrphanAction;
+  applied: boolean;
+  error: string | null;
+};
+
+export type ReconcileMissingAction = "report" | "fail";
+
+export type ReconcileMissing = {
+  instanceId: string;
+  userId: string;
+  provider: string;
+  providerResourceId: string;
+  status: InstanceStatus;
+  action: ReconcileMissingAction;
+  applied: boolean;
+  error: string | null;
+};
+
+export type ReconcileReport = {
+  dryRun: boolean;
+  generatedAt: string;
+  providers: Array<ReconcileProviderSummary>;
+  orphans: Array<ReconcileOrphan>;
+  missing: Array<ReconcileMissing>;
+};
+
+export type ImageVersion = {
+  version: string;
+  notes: string | null;
+  isDefault: boolean;
+  instances: number;
+  createdBy: string;
+  createdAt: string;
+};
+
+export type ImageVersionList = Array<ImageVersion>;
+
+export type CreateImageVersionRequest = {
+  version: string;
+  notes?: string;
+  isDefault?: boolean;
+};
+
+export type RolloutStatus = "RUNNING" | "HALTED" | "ROLLING_BACK" | "COMPLETED" | "ROLLED_BACK";
+
+export type RolloutInstanceStatus =
+  | "PENDING"
+  | "UPGRADING"
+  | "HEALTHY"
+  | "FAILED"
+  | "SKIPPED"
+  | "ROLLING_BACK"
+  | "ROLLED_BACK"
+  | "ROLLBACK_FAILED";
+
+export type RolloutInstance = {
+  instanceId: string;
+  batch: number;
+  previousVersion: string;
+  status: RolloutInstanceStatus;
+  error: string | null;
+  updatedAt: string;
+};
+
+export type Rollout = {
+  id: string;
+  targetVersion: string;
+  batchSize: number;
+  maxFailures: number;
+  status: RolloutStatus;
+  currentBatch: number;
+  batches: number;
+  haltReason: string | null;
+  createdBy: string;
+  instances: Array<RolloutInstance>;
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type RolloutList = Array<Rollout>;
+
+export type CreateRolloutRequest = {
+  version: string;
+  batchSize?: number;
+  maxFailures?: number;
+  provider?: string;
+  fromVersions?: Array<string>;
+};
+
 export type PostAuthRegisterData = {
   body?: RegisterRequest;
   path?: never;
@@ -198,395 +687,2354 @@ export type PostAuthLoginError = PostAuthLoginErrors[keyof PostAuthLoginErrors];
 
 export type PostAuthLoginResponses = {
   /**
-   * Login successful
+   * Login successful, or a two-factor challenge
    */
-  200: TokenResponse;
+  200: LoginResponse;
 };
 
 export type PostAuthLoginResponse = PostAuthLoginResponses[keyof PostAuthLoginResponses];
 
-export type GetAuthMeData = {
-  body?: never;
+export type PostAuthLoginTwoFactorData = {
+  body?: TwoFactorLoginRequest;
   path?: never;
   query?: never;
-  url: "/auth/me";
+  url: "/auth/login/two-factor";
 };
 
-export type GetAuthMeErrors = {
+export type PostAuthLoginTwoFactorErrors = {
   /**
-   * Unauthorized
+   * Invalid code or expired challenge
    */
   401: ApiError;
+  /**
+   * Too many wrong codes
+   */
+  429: ApiError;
 };
 
-export type GetAuthMeError = GetAuthMeErrors[keyof GetAuthMeErrors];
+export type PostAuthLoginTwoFactorError =
+  PostAuthLoginTwoFactorErrors[keyof PostAuthLoginTwoFactorErrors];
 
-export type GetAuthMeResponses = {
+export type PostAuthLoginTwoFactorResponses = {
   /**
-   * Current user
+   * Login successful
    */
-  200: User;
+  200: TokenResponse;
 };
 
-export type GetAuthMeResponse = GetAuthMeResponses[keyof GetAuthMeResponses];
+export type PostAuthLoginTwoFactorResponse =
+  PostAuthLoginTwoFactorResponses[keyof PostAuthLoginTwoFactorResponses];
 
-export type PatchAuthProfileData = {
-  body?: UpdateProfileRequest;
+export type PostAuthRefreshData = {
+  body?: RefreshTokenRequest;
   path?: never;
   query?: never;
-  url: "/auth/profile";
+  url: "/auth/refresh";
 };
 
-export type PatchAuthProfileErrors = {
+export type PostAuthRefreshErrors = {
   /**
-   * Unauthorized
+   * Invalid or expired refresh token
    */
   401: ApiError;
 };
 
-export type PatchAuthProfileError = PatchAuthProfileErrors[keyof PatchAuthProfileErrors];
+export type PostAuthRefreshError = PostAuthRefreshErrors[keyof PostAuthRefreshErrors];
 
-export type PatchAuthProfileResponses = {
+export type PostAuthRefreshResponses = {
   /**
-   * Profile updated
+   * New tokens; the refresh token is rotated
    */
-  200: User;
+  200: SessionTokens;
 };
 
-export type PatchAuthProfileResponse = PatchAuthProfileResponses[keyof PatchAuthProfileResponses];
+export type PostAuthRefreshResponse = PostAuthRefreshResponses[keyof PostAuthRefreshResponses];
 
-export type PatchAuthPasswordData = {
-  body?: UpdatePasswordRequest;
+export type PostAuthLogoutData = {
+  body?: never;
   path?: never;
   query?: never;
-  url: "/auth/password";
+  url: "/auth/logout";
 };
 
-export type PatchAuthPasswordErrors = {
-  /**
-   * Bad request
-   */
-  400: ApiError;
+export type PostAuthLogoutErrors = {
   /**
    * Unauthorized
    */
   401: ApiError;
 };
 
-export type PatchAuthPasswordError = PatchAuthPasswordErrors[keyof PatchAuthPasswordErrors];
+export type PostAuthLogoutError = PostAuthLogoutErrors[keyof PostAuthLogoutErrors];
 
-export type PatchAuthPasswordResponses = {
+export type PostAuthLogoutResponses = {
   /**
-   * Password changed
+   * Signed out
    */
   200: ApiMessage;
 };
 
-export type PatchAuthPasswordResponse =
-  PatchAuthPasswordResponses[keyof PatchAuthPasswordResponses];
+export type PostAuthLogoutResponse = PostAuthLogoutResponses[keyof PostAuthLogoutResponses];
 
-export type DeleteAuthAccountData = {
+export type DeleteAuthSessionsData = {
   body?: never;
   path?: never;
   query?: never;
-  url: "/auth/account";
+  url: "/auth/sessions";
 };
 
-export type DeleteAuthAccountErrors = {
+export type DeleteAuthSessionsErrors = {
   /**
    * Unauthorized
    */
   401: ApiError;
 };
 
-export type DeleteAuthAccountError = DeleteAuthAccountErrors[keyof DeleteAuthAccountErrors];
+export type DeleteAuthSessionsError = DeleteAuthSessionsErrors[keyof DeleteAuthSessionsErrors];
 
-export type DeleteAuthAccountResponses = {
+export type DeleteAuthSessionsResponses = {
   /**
-   * Account deleted
+   * Sessions revoked
    */
   200: ApiMessage;
 };
 
-export type DeleteAuthAccountResponse =
-  DeleteAuthAccountResponses[keyof DeleteAuthAccountResponses];
+export type DeleteAuthSessionsResponse =
+  DeleteAuthSessionsResponses[keyof DeleteAuthSessionsResponses];
 
-export type GetInstancesData = {
+export type GetAuthSessionsData = {
   body?: never;
   path?: never;
   query?: never;
-  url: "/instances";
+  url: "/auth/sessions";
 };
 
-export type GetInstancesErrors = {
+export type GetAuthSessionsErrors = {
   /**
    * Unauthorized
    */
   401: ApiError;
 };
 
-export type GetInstancesError = GetInstancesErrors[keyof GetInstancesErrors];
+export type GetAuthSessionsError = GetAuthSessionsErrors[keyof GetAuthSessionsErrors];
 
-export type GetInstancesResponses = {
+export type GetAuthSessionsResponses = {
   /**
-   * List of instances
+   * Active sessions
    */
-  200: InstanceList;
+  200: SessionList;
 };
 
-export type GetInstancesResponse = GetInstancesResponses[keyof GetInstancesResponses];
+export type GetAuthSessionsResponse = GetAuthSessionsResponses[keyof GetAuthSessionsResponses];
 
-export type PostInstancesData = {
-  body?: CreateInstanceRequest;
-  path?: never;
+export type DeleteAuthSessionsByIdData = {
+  body?: never;
+  path: {
+    id: string;
+  };
   query?: never;
-  url: "/instances";
+  url: "/auth/sessions/{id}";
 };
 
-export type PostInstancesErrors = {
-  /**
-   * Bad request
-   */
-  400: ApiError;
+export type DeleteAuthSessionsByIdErrors = {
   /**
    * Unauthorized
    */
   401: ApiError;
-};
-
+  /**
+   * Session not found
+   */
+  404: ApiError;
+};
+
+export type DeleteAuthSessionsByIdError =
+  DeleteAuthSessionsByIdErrors[keyof DeleteAuthSessionsByIdErrors];
+
+export type DeleteAuthSessionsByIdResponses = {
+  /**
+   * Session revoked
+   */
+  200: ApiMessage;
+};
+
+export type DeleteAuthSessionsByIdResponse =
+  DeleteAuthSessionsByIdResponses[keyof DeleteAuthSessionsByIdResponses];
+
+export type GetAuthMeData = {
+  body?: never;
+  path?: never;
+  query?: never;
+  url: "/auth/me";
+};
+
+export type GetAuthMeErrors = {
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+};
+
+export type GetAuthMeError = GetAuthMeErrors[keyof GetAuthMeErrors];
+
+export type GetAuthMeResponses = {
+  /**
+   * Current user
+   */
+  200: User;
+};
+
+export type GetAuthMeResponse = GetAuthMeResponses[keyof GetAuthMeResponses];
+
+export type PatchAuthProfileData = {
+  body?: UpdateProfileRequest;
+  path?: never;
+  query?: never;
+  url: "/auth/profile";
+};
+
+export type PatchAuthProfileErrors = {
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+};
+
+export type PatchAuthProfileError = PatchAuthProfileErrors[keyof PatchAuthProfileErrors];
+
+export type PatchAuthProfileResponses = {
+  /**
+   * Profile updated
+   */
+  200: User;
+};
+
+export type PatchAuthProfileResponse = PatchAuthProfileResponses[keyof PatchAuthProfileResponses];
+
+export type PatchAuthPasswordData = {
+  body?: UpdatePasswordRequest;
+  path?: never;
+  query?: never;
+  url: "/auth/password";
+};
+
+export type PatchAuthPasswordErrors = {
+  /**
+   * Bad request
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+};
+
+export type PatchAuthPasswordError = PatchAuthPasswordErrors[keyof PatchAuthPasswordErrors];
+
+export type PatchAuthPasswordResponses = {
+  /**
+   * Password changed
+   */
+  200: ApiMessage;
+};
+
+export type PatchAuthPasswordResponse =
+  PatchAuthPasswordResponses[keyof PatchAuthPasswordResponses];
+
+export type PostAuthForgotPasswordData = {
+  body?: ForgotPasswordRequest;
+  path?: never;
+  query?: never;
+  url: "/auth/forgot-password";
+};
+
+export type PostAuthForgotPasswordResponses = {
+  /**
+   * Reset link sent if the account exists
+   */
+  200: ApiMessage;
+};
+
+export type PostAuthForgotPasswordResponse =
+  PostAuthForgotPasswordResponses[keyof PostAuthForgotPasswordResponses];
+
+export type PostAuthResetPasswordData = {
+  body?: ResetPasswordRequest;
+  path?: never;
+  query?: never;
+  url: "/auth/reset-password";
+};
+
+export type PostAuthResetPasswordErrors = {
+  /**
+   * Invalid or expired token
+   */
+  400: ApiError;
+};
+
+export type PostAuthResetPasswordError =
+  PostAuthResetPasswordErrors[keyof PostAuthResetPasswordErrors];
+
+export type PostAuthResetPasswordResponses = {
+  /**
+   * Password reset; every session is signed out
+   */
+  200: ApiMessage;
+};
+
+export type PostAuthResetPasswordResponse =
+  PostAuthResetPasswordResponses[keyof PostAuthResetPasswordResponses];
+
+export type PostAuthVerifyEmailData = {
+  body?: VerifyEmailRequest;
+  path?: never;
+  query?: never;
+  url: "/auth/verify-email";
+};
+
+export type PostAuthVerifyEmailErrors = {
+  /**
+   * Invalid or expired token
+   */
+  400: ApiError;
+};
+
+export type PostAuthVerifyEmailError = PostAuthVerifyEmailErrors[keyof PostAuthVerifyEmailErrors];
+
+export type PostAuthVerifyEmailResponses = {
+  /**
+   * Email verified
+   */
+  200: ApiMessage;
+};
+
+export type PostAuthVerifyEmailResponse =
+  PostAuthVerifyEmailResponses[keyof PostAuthVerifyEmailResponses];
+
+export type PostAuthVerifyEmailResendData = {
+  body?: never;
+  path?: never;
+  query?: never;
+  url: "/auth/verify-email/resend";
+};
+
+export type PostAuthVerifyEmailResendErrors = {
+  /**
+   * Email is already verified
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+};
+
+export type PostAuthVerifyEmailResendError =
+  PostAuthVerifyEmailResendErrors[keyof PostAuthVerifyEmailResendErrors];
+
+export type PostAuthVerifyEmailResendResponses = {
+  /**
+   * Verification email sent
+   */
+  200: ApiMessage;
+};
+
+export type PostAuthVerifyEmailResendResponse =
+  PostAuthVerifyEmailResendResponses[keyof PostAuthVerifyEmailResendResponses];
+
+export type GetAuthTwoFactorData = {
+  body?: never;
+  path?: never;
+  query?: never;
+  url: "/auth/two-factor";
+};
+
+export type GetAuthTwoFactorErrors = {
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+};
+
+export type GetAuthTwoFactorError = GetAuthTwoFactorErrors[keyof GetAuthTwoFactorErrors];
+
+export type GetAuthTwoFactorResponses = {
+  /**
+   * Two-factor status
+   */
+  200: TwoFactorStatus;
+};
+
+export type GetAuthTwoFactorResponse = GetAuthTwoFactorResponses[keyof GetAuthTwoFactorResponses];
+
+export type PostAuthTwoFactorSetupData = {
+  body?: never;
+  path?: never;
+  query?: never;
+  url: "/auth/two-factor/setup";
+};
+
+export type PostAuthTwoFactorSetupErrors = {
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Two-factor authentication is already enabled
+   */
+  409: ApiError;
+};
+
+export type PostAuthTwoFactorSetupError =
+  PostAuthTwoFactorSetupErrors[keyof PostAuthTwoFactorSetupErrors];
+
+export type PostAuthTwoFactorSetupResponses = {
+  /**
+   * Secret and otpauth URI
+   */
+  200: TwoFactorSetup;
+};
+
+export type PostAuthTwoFactorSetupResponse =
+  PostAuthTwoFactorSetupResponses[keyof PostAuthTwoFactorSetupResponses];
+
+export type PostAuthTwoFactorEnableData = {
+  body?: TwoFactorCodeRequest;
+  path?: never;
+  query?: never;
+  url: "/auth/two-factor/enable";
+};
+
+export type PostAuthTwoFactorEnableErrors = {
+  /**
+   * Invalid code or setup not started
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Two-factor authentication is already enabled
+   */
+  409: ApiError;
+};
+
+export type PostAuthTwoFactorEnableError =
+  PostAuthTwoFactorEnableErrors[keyof PostAuthTwoFactorEnableErrors];
+
+export type PostAuthTwoFactorEnableResponses = {
+  /**
+   * Recovery codes, shown once
+   */
+  200: RecoveryCodes;
+};
+
+export type PostAuthTwoFactorEnableResponse =
+  PostAuthTwoFactorEnableResponses[keyof PostAuthTwoFactorEnableResponses];
+
+export type PostAuthTwoFactorDisableData = {
+  body?: TwoFactorCodeRequest;
+  path?: never;
+  query?: never;
+  url: "/auth/two-factor/disable";
+};
+
+export type PostAuthTwoFactorDisableErrors = {
+  /**
+   * Invalid code or two-factor not enabled
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * An organization the user belongs to requires two-factor authentication
+   */
+  403: ApiError;
+  /**
+   * Too many wrong codes
+   */
+  429: ApiError;
+};
+
+export type PostAuthTwoFactorDisableError =
+  PostAuthTwoFactorDisableErrors[keyof PostAuthTwoFactorDisableErrors];
+
+export type PostAuthTwoFactorDisableResponses = {
+  /**
+   * Two-factor authentication disabled
+   */
+  200: ApiMessage;
+};
+
+export type PostAuthTwoFactorDisableResponse =
+  PostAuthTwoFactorDisableResponses[keyof PostAuthTwoFactorDisableResponses];
+
+export type PostAuthTwoFactorRecoveryCodesData = {
+  body?: TwoFactorCodeRequest;
+  path?: never;
+  query?: never;
+  url: "/auth/two-factor/recovery-codes";
+};
+
+export type PostAuthTwoFactorRecoveryCodesErrors = {
+  /**
+   * Invalid code or two-factor not enabled
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Too many wrong codes
+   */
+  429: ApiError;
+};
+
+export type PostAuthTwoFactorRecoveryCodesError =
+  PostAuthTwoFactorRecoveryCodesErrors[keyof PostAuthTwoFactorRecoveryCodesErrors];
+
+export type PostAuthTwoFactorRecoveryCodesResponses = {
+  /**
+   * New recovery codes, shown once
+   */
+  200: RecoveryCodes;
+};
+
+export type PostAuthTwoFactorRecoveryCodesResponse =
+  PostAuthTwoFactorRecoveryCodesResponses[keyof PostAuthTwoFactorRecoveryCodesResponses];
+
+export type GetAuthTokensData = {
+  body?: never;
+  path?: never;
+  query?: never;
+  url: "/auth/tokens";
+};
+
+export type GetAuthTokensErrors = {
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+};
+
+export type GetAuthTokensError = GetAuthTokensErrors[keyof GetAuthTokensErrors];
+
+export type GetAuthTokensResponses = {
+  /**
+   * Personal access tokens, masked
+   */
+  200: AccessTokenList;
+};
+
+export type GetAuthTokensResponse = GetAuthTokensResponses[keyof GetAuthTokensResponses];
+
+export type PostAuthTokensData = {
+  body?: CreateAccessTokenRequest;
+  path?: never;
+  query?: never;
+  url: "/auth/tokens";
+};
+
+export type PostAuthTokensErrors = {
+  /**
+   * Bad request
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+};
+
+export type PostAuthTokensError = PostAuthTokensErrors[keyof PostAuthTokensErrors];
+
+export type PostAuthTokensResponses = {
+  /**
+   * Token created
+   */
+  201: CreatedAccessToken;
+};
+
+export type PostAuthTokensResponse = PostAuthTokensResponses[keyof PostAuthTokensResponses];
+
+export type DeleteAuthTokensByIdData = {
+  body?: never;
+  path: {
+    id: string;
+  };
+  query?: never;
+  url: "/auth/tokens/{id}";
+};
+
+export type DeleteAuthTokensByIdErrors = {
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Token not found
+   */
+  404: ApiError;
+};
+
+export type DeleteAuthTokensByIdError =
+  DeleteAuthTokensByIdErrors[keyof DeleteAuthTokensByIdErrors];
+
+export type DeleteAuthTokensByIdResponses = {
+  /**
+   * Token revoked
+   */
+  200: ApiMessage;
+};
+
+export type DeleteAuthTokensByIdResponse =
+  DeleteAuthTokensByIdResponses[keyof DeleteAuthTokensByIdResponses];
+
+export type GetAuthAccountDeletionData = {
+  body?: never;
+  path?: never;
+  query?: never;
+  url: "/auth/account/deletion";
+};
+
+export type GetAuthAccountDeletionErrors = {
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+};
+
+export type GetAuthAccountDeletionError =
+  GetAuthAccountDeletionErrors[keyof GetAuthAccountDeletionErrors];
+
+export type GetAuthAccountDeletionResponses = {
+  /**
+   * Deletion status
+   */
+  200: AccountDeletionStatus;
+};
+
+export type GetAuthAccountDeletionResponse =
+  GetAuthAccountDeletionResponses[keyof GetAuthAccountDeletionResponses];
+
+export type DeleteAuthAccountData = {
+  body?: never;
+  path?: never;
+  query?: never;
+  url: "/auth/account";
+};
+
+export type DeleteAuthAccountErrors = {
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Account is already scheduled for deletion
+   */
+  409: ApiError;
+};
+
+export type DeleteAuthAccountError = DeleteAuthAccountErrors[keyof DeleteAuthAccountErrors];
+
+export type DeleteAuthAccountResponses = {
+  /**
+   * Account scheduled for deletion
+   */
+  200: AccountDeletionStatus;
+};
+
+export type DeleteAuthAccountResponse =
+  DeleteAuthAccountResponses[keyof DeleteAuthAccountResponses];
+
+export type PostAuthAccountRestoreData = {
+  body?: never;
+  path?: never;
+  query?: never;
+  url: "/auth/account/restore";
+};
+
+export type PostAuthAccountRestoreErrors = {
+  /**
+   * Account is not scheduled for deletion
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+};
+
+export type PostAuthAccountRestoreError =
+  PostAuthAccountRestoreErrors[keyof PostAuthAccountRestoreErrors];
+
+export type PostAuthAccountRestoreResponses = {
+  /**
+   * Account restored
+   */
+  200: AccountDeletionStatus;
+};
+
+export type PostAuthAccountRestoreResponse =
+  PostAuthAccountRestoreResponses[keyof PostAuthAccountRestoreResponses];
+
+export type GetOrganizationsData = {
+  body?: never;
+  path?: never;
+  query?: never;
+  url: "/organizations";
+};
+
+export type GetOrganizationsErrors = {
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+};
+
+export type GetOrganizationsError = GetOrganizationsErrors[keyof GetOrganizationsErrors];
+
+export type GetOrganizationsResponses = {
+  /**
+   * Organizations
+   */
+  200: OrganizationList;
+};
+
+export type GetOrganizationsResponse = GetOrganizationsResponses[keyof GetOrganizationsResponses];
+
+export type PostOrganizationsData = {
+  body?: CreateOrganizationRequest;
+  path?: never;
+  query?: never;
+  url: "/organizations";
+};
+
+export type PostOrganizationsErrors = {
+  /**
+   * Bad request
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+};
+
+export type PostOrganizationsError = PostOrganizationsErrors[keyof PostOrganizationsErrors];
+
+export type PostOrganizationsResponses = {
+  /**
+   * Organization created
+   */
+  201: Organization;
+};
+
+export type PostOrganizationsResponse =
+  PostOrganizationsResponses[keyof PostOrganizationsResponses];
+
+export type PatchOrganizationsByIdData = {
+  body?: UpdateOrganizationRequest;
+  path: {
+    id: string;
+  };
+  query?: never;
+  url: "/organizations/{id}";
+};
+
+export type PatchOrganizationsByIdErrors = {
+  /**
+   * Bad request
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Only owners can update the organization
+   */
+  403: ApiError;
+  /**
+   * Organization not found
+   */
+  404: ApiError;
+};
+
+export type PatchOrganizationsByIdError =
+  PatchOrganizationsByIdErrors[keyof PatchOrganizationsByIdErrors];
+
+export type PatchOrganizationsByIdResponses = {
+  /**
+   * Organization updated
+   */
+  200: Organization;
+};
+
+export type PatchOrganizationsByIdResponse =
+  PatchOrganizationsByIdResponses[keyof PatchOrganizationsByIdResponses];
+
+export type GetOrganizationsByIdMembersData = {
+  body?: never;
+  path: {
+    id: string;
+  };
+  query?: never;
+  url: "/organizations/{id}/members";
+};
+
+export type GetOrganizationsByIdMembersErrors = {
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+  /**
+   * Organization not found
+   */
+  404: ApiError;
+};
+
+export type GetOrganizationsByIdMembersError =
+  GetOrganizationsByIdMembersErrors[keyof GetOrganizationsByIdMembersErrors];
+
+export type GetOrganizationsByIdMembersResponses = {
+  /**
+   * Members
+   */
+  200: OrganizationMemberList;
+};
+
+export type GetOrganizationsByIdMembersResponse =
+  GetOrganizationsByIdMembersResponses[keyof GetOrganizationsByIdMembersResponses];
+
+export type DeleteOrganizationsByIdMembersByUserIdData = {
+  body?: never;
+  path: {
+    id: string;
+    userId: string;
+  };
+  query?: never;
+  url: "/organizations/{id}/members/{userId}";
+};
+
+export type DeleteOrganizationsByIdMembersByUserIdErrors = {
+  /**
+   * The organization would be left without an owner
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+  /**
+   * Organization or member not found
+   */
+  404: ApiError;
+};
+
+export type DeleteOrganizationsByIdMembersByUserIdError =
+  DeleteOrganizationsByIdMembersByUserIdErrors[keyof DeleteOrganizationsByIdMembersByUserIdErrors];
+
+export type DeleteOrganizationsByIdMembersByUserIdResponses = {
+  /**
+   * Member removed
+   */
+  200: ApiMessage;
+};
+
+export type DeleteOrganizationsByIdMembersByUserIdResponse =
+  DeleteOrganizationsByIdMembersByUserIdResponses[keyof DeleteOrganizationsByIdMembersByUserIdResponses];
+
+export type PatchOrganizationsByIdMembersByUserIdData = {
+  body?: UpdateMemberRequest;
+  path: {
+    id: string;
+    userId: string;
+  };
+  query?: never;
+  url: "/organizations/{id}/members/{userId}";
+};
+
+export type PatchOrganizationsByIdMembersByUserIdErrors = {
+  /**
+   * The organization would be left without an owner
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+  /**
+   * Organization or member not found
+   */
+  404: ApiError;
+};
+
+export type PatchOrganizationsByIdMembersByUserIdError =
+  PatchOrganizationsByIdMembersByUserIdErrors[keyof PatchOrganizationsByIdMembersByUserIdErrors];
+
+export type PatchOrganizationsByIdMembersByUserIdResponses = {
+  /**
+   * Member updated
+   */
+  200: OrganizationMember;
+};
+
+export type PatchOrganizationsByIdMembersByUserIdResponse =
+  PatchOrganizationsByIdMembersByUserIdResponses[keyof PatchOrganizationsByIdMembersByUserIdResponses];
+
+export type GetOrganizationsByIdInvitationsData = {
+  body?: never;
+  path: {
+    id: string;
+  };
+  query?: never;
+  url: "/organizations/{id}/invitations";
+};
+
+export type GetOrganizationsByIdInvitationsErrors = {
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+  /**
+   * Organization not found
+   */
+  404: ApiError;
+};
+
+export type GetOrganizationsByIdInvitationsError =
+  GetOrganizationsByIdInvitationsErrors[keyof GetOrganizationsByIdInvitationsErrors];
+
+export type GetOrganizationsByIdInvitationsResponses = {
+  /**
+   * Pending invitations
+   */
+  200: OrganizationInvitationList;
+};
+
+export type GetOrganizationsByIdInvitationsResponse =
+  GetOrganizationsByIdInvitationsResponses[keyof GetOrganizationsByIdInvitationsResponses];
+
+export type PostOrganizationsByIdInvitationsData = {
+  body?: CreateInvitationRequest;
+  path: {
+    id: string;
+  };
+  query?: never;
+  url: "/organizations/{id}/invitations";
+};
+
+export type PostOrganizationsByIdInvitationsErrors = {
+  /**
+   * Bad request
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+  /**
+   * Organization not found
+   */
+  404: ApiError;
+  /**
+   * The address already belongs to a member
+   */
+  409: ApiError;
+};
+
+export type PostOrganizationsByIdInvitationsError =
+  PostOrganizationsByIdInvitationsErrors[keyof PostOrganizationsByIdInvitationsErrors];
+
+export type PostOrganizationsByIdInvitationsResponses = {
+  /**
+   * Invitation sent
+   */
+  201: OrganizationInvitation;
+};
+
+export type PostOrganizationsByIdInvitationsResponse =
+  PostOrganizationsByIdInvitationsResponses[keyof PostOrganizationsByIdInvitationsResponses];
+
+export type DeleteOrganizationsByIdInvitationsByInvitationIdData = {
+  body?: never;
+  path: {
+    id: string;
+    invitationId: string;
+  };
+  query?: never;
+  url: "/organizations/{id}/invitations/{invitationId}";
+};
+
+export type DeleteOrganizationsByIdInvitationsByInvitationIdErrors = {
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+  /**
+   * Organization or invitation not found
+   */
+  404: ApiError;
+};
+
+export type DeleteOrganizationsByIdInvitationsByInvitationIdError =
+  DeleteOrganizationsByIdInvitationsByInvitationIdErrors[keyof DeleteOrganizationsByIdInvitationsByInvitationIdErrors];
+
+export type DeleteOrganizationsByIdInvitationsByInvitationIdResponses = {
+  /**
+   * Invitation withdrawn
+   */
+  200: ApiMessage;
+};
+
+export type DeleteOrganizationsByIdInvitationsByInvitationIdResponse =
+  DeleteOrganizationsByIdInvitationsByInvitationIdResponses[keyof DeleteOrganizationsByIdInvitationsByInvitationIdResponses];
+
+export type PostInvitationsAcceptData = {
+  body?: AcceptInvitationRequest;
+  path?: never;
+  query?: never;
+  url: "/invitations/accept";
+};
+
+export type PostInvitationsAcceptErrors = {
+  /**
+   * Invalid or expired invitation
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * The invitation is for another email address
+   */
+  403: ApiError;
+};
+
+export type PostInvitationsAcceptError =
+  PostInvitationsAcceptErrors[keyof PostInvitationsAcceptErrors];
+
+export type PostInvitationsAcceptResponses = {
+  /**
+   * Joined the organization
+   */
+  200: Organization;
+};
+
+export type PostInvitationsAcceptResponse =
+  PostInvitationsAcceptResponses[keyof PostInvitationsAcceptResponses];
+
+export type GetInstancesData = {
+  body?: never;
+  headers?: {
+    "x-organization-id"?: string;
+  };
+  path?: never;
+  query?: never;
+  url: "/instances";
+};
+
+export type GetInstancesErrors = {
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+};
+
+export type GetInstancesError = GetInstancesErrors[keyof GetInstancesErrors];
+
+export type GetInstancesResponses = {
+  /**
+   * List of instances
+   */
+  200: InstanceList;
+};
+
+export type GetInstancesResponse = GetInstancesResponses[keyof GetInstancesResponses];
+
+export type PostInstancesData = {
+  body?: CreateInstanceRequest;
+  headers?: {
+    "x-organization-id"?: string;
+  };
+  path?: never;
+  query?: never;
+  url: "/instances";
+};
+
+export type PostInstancesErrors = {
+  /**
+   * Bad request
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Subscription required, or the plan does not cover the request, or your role does not allow it
+   */
+  403: ForbiddenError;
+};
+
 export type PostInstancesError = PostInstancesErrors[keyof PostInstancesErrors];
 
-export type PostInstancesResponses = {
+export type PostInstancesResponses = {
+  /**
+   * Instance created
+   */
+  201: Instance;
+};
+
+export type PostInstancesResponse = PostInstancesResponses[keyof PostInstancesResponses];
+
+export type GetInstancesStreamData = {
+  body?: never;
+  headers?: {
+    "x-organization-id"?: string;
+  };
+  path?: never;
+  query?: never;
+  url: "/instances/stream";
+};
+
+export type GetInstancesStreamErrors = {
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+};
+
+export type GetInstancesStreamError = GetInstancesStreamErrors[keyof GetInstancesStreamErrors];
+
+export type GetInstancesStreamResponses = {
+  /**
+   * Event stream
+   */
+  200: string;
+};
+
+export type GetInstancesStreamResponse =
+  GetInstancesStreamResponses[keyof GetInstancesStreamResponses];
+
+export type DeleteInstancesByIdData = {
+  body?: never;
+  headers?: {
+    "x-organization-id"?: string;
+  };
+  path: {
+    id: string;
+  };
+  query?: never;
+  url: "/instances/{id}";
+};
+
+export type DeleteInstancesByIdErrors = {
+  /**
+   * Bad request
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+  /**
+   * Instance not found
+   */
+  404: ApiError;
+};
+
+export type DeleteInstancesByIdError = DeleteInstancesByIdErrors[keyof DeleteInstancesByIdErrors];
+
+export type DeleteInstancesByIdResponses = {
+  /**
+   * Instance deleted
+   */
+  200: ApiSuccess;
+};
+
+export type DeleteInstancesByIdResponse =
+  DeleteInstancesByIdResponses[keyof DeleteInstancesByIdResponses];
+
+export type GetInstancesByIdData = {
+  body?: never;
+  headers?: {
+    "x-organization-id"?: string;
+  };
+  path: {
+    id: string;
+  };
+  query?: never;
+  url: "/instances/{id}";
+};
+
+export type GetInstancesByIdErrors = {
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+  /**
+   * Instance not found
+   */
+  404: ApiError;
+};
+
+export type GetInstancesByIdError = GetInstancesByIdErrors[keyof GetInstancesByIdErrors];
+
+export type GetInstancesByIdResponses = {
+  /**
+   * Instance details
+   */
+  200: Instance;
+};
+
+export type GetInstancesByIdResponse = GetInstancesByIdResponses[keyof GetInstancesByIdResponses];
+
+export type PatchInstancesByIdData = {
+  body?: UpdateInstanceRequest;
+  headers?: {
+    "x-organization-id"?: string;
+  };
+  path: {
+    id: string;
+  };
+  query?: never;
+  url: "/instances/{id}";
+};
+
+export type PatchInstancesByIdErrors = {
+  /**
+   * Bad request (region change, or instance neither running nor stopped)
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * The plan does not cover the model or AI key source, or your role does not allow it
+   */
+  403: ForbiddenError;
+  /**
+   * Instance not found
+   */
+  404: ApiError;
+};
+
+export type PatchInstancesByIdError = PatchInstancesByIdErrors[keyof PatchInstancesByIdErrors];
+
+export type PatchInstancesByIdResponses = {
+  /**
+   * Instance updated
+   */
+  200: Instance;
+};
+
+export type PatchInstancesByIdResponse =
+  PatchInstancesByIdResponses[keyof PatchInstancesByIdResponses];
+
+export type GetInstancesByIdJobsData = {
+  body?: never;
+  headers?: {
+    "x-organization-id"?: string;
+  };
+  path: {
+    id: string;
+  };
+  query?: never;
+  url: "/instances/{id}/jobs";
+};
+
+export type GetInstancesByIdJobsErrors = {
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+  /**
+   * Instance not found
+   */
+  404: ApiError;
+};
+
+export type GetInstancesByIdJobsError =
+  GetInstancesByIdJobsErrors[keyof GetInstancesByIdJobsErrors];
+
+export type GetInstancesByIdJobsResponses = {
+  /**
+   * Jobs for the instance, newest first
+   */
+  200: InstanceJobList;
+};
+
+export type GetInstancesByIdJobsResponse =
+  GetInstancesByIdJobsResponses[keyof GetInstancesByIdJobsResponses];
+
+export type GetInstancesByIdEventsData = {
+  body?: never;
+  headers?: {
+    "x-organization-id"?: string;
+  };
+  path: {
+    id: string;
+  };
+  query?: {
+    page?: number;
+    limit?: number;
+  };
+  url: "/instances/{id}/events";
+};
+
+export type GetInstancesByIdEventsErrors = {
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+  /**
+   * Instance not found
+   */
+  404: ApiError;
+};
+
+export type GetInstancesByIdEventsError =
+  GetInstancesByIdEventsErrors[keyof GetInstancesByIdEventsErrors];
+
+export type GetInstancesByIdEventsResponses = {
+  /**
+   * Events for the instance, newest first
+   */
+  200: InstanceEventListResponse;
+};
+
+export type GetInstancesByIdEventsResponse =
+  GetInstancesByIdEventsResponses[keyof GetInstancesByIdEventsResponses];
+
+export type GetInstancesByIdLogsData = {
+  body?: never;
+  headers?: {
+    "x-organization-id"?: string;
+  };
+  path: {
+    id: string;
+  };
+  query?: {
+    since?: string;
+    tail?: number;
+    follow?: "true" | "false";
+  };
+  url: "/instances/{id}/logs";
+};
+
+export type GetInstancesByIdLogsErrors = {
+  /**
+   * Instance has not been deployed or the provider could not return logs
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+  /**
+   * Instance not found
+   */
+  404: ApiError;
+};
+
+export type GetInstancesByIdLogsError =
+  GetInstancesByIdLogsErrors[keyof GetInstancesByIdLogsErrors];
+
+export type GetInstancesByIdLogsResponses = {
+  /**
+   * Recent log lines, oldest first
+   */
+  200: InstanceLogListResponse;
+};
+
+export type GetInstancesByIdLogsResponse =
+  GetInstancesByIdLogsResponses[keyof GetInstancesByIdLogsResponses];
+
+export type GetInstancesByIdVolumeData = {
+  body?: never;
+  headers?: {
+    "x-organization-id"?: string;
+  };
+  path: {
+    id: string;
+  };
+  query?: never;
+  url: "/instances/{id}/volume";
+};
+
+export type GetInstancesByIdVolumeErrors = {
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+  /**
+   * Instance not found or has no volume
+   */
+  404: ApiError;
+};
+
+export type GetInstancesByIdVolumeError =
+  GetInstancesByIdVolumeErrors[keyof GetInstancesByIdVolumeErrors];
+
+export type GetInstancesByIdVolumeResponses = {
+  /**
+   * The instance's volume
+   */
+  200: InstanceVolume;
+};
+
+export type GetInstancesByIdVolumeResponse =
+  GetInstancesByIdVolumeResponses[keyof GetInstancesByIdVolumeResponses];
+
+export type PostInstancesByIdStartData = {
+  body?: never;
+  headers?: {
+    "x-organization-id"?: string;
+  };
+  path: {
+    id: string;
+  };
+  query?: never;
+  url: "/instances/{id}/start";
+};
+
+export type PostInstancesByIdStartErrors = {
+  /**
+   * Bad request
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+  /**
+   * Instance not found
+   */
+  404: ApiError;
+};
+
+export type PostInstancesByIdStartError =
+  PostInstancesByIdStartErrors[keyof PostInstancesByIdStartErrors];
+
+export type PostInstancesByIdStartResponses = {
+  /**
+   * Instance started
+   */
+  200: Instance;
+};
+
+export type PostInstancesByIdStartResponse =
+  PostInstancesByIdStartResponses[keyof PostInstancesByIdStartResponses];
+
+export type PostInstancesByIdStopData = {
+  body?: never;
+  headers?: {
+    "x-organization-id"?: string;
+  };
+  path: {
+    id: string;
+  };
+  query?: never;
+  url: "/instances/{id}/stop";
+};
+
+export type PostInstancesByIdStopErrors = {
+  /**
+   * Bad request
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+  /**
+   * Instance not found
+   */
+  404: ApiError;
+};
+
+export type PostInstancesByIdStopError =
+  PostInstancesByIdStopErrors[keyof PostInstancesByIdStopErrors];
+
+export type PostInstancesByIdStopResponses = {
+  /**
+   * Instance stopped
+   */
+  200: Instance;
+};
+
+export type PostInstancesByIdStopResponse =
+  PostInstancesByIdStopResponses[keyof PostInstancesByIdStopResponses];
+
+export type PostInstancesByIdRestartData = {
+  body?: never;
+  headers?: {
+    "x-organization-id"?: string;
+  };
+  path: {
+    id: string;
+  };
+  query?: never;
+  url: "/instances/{id}/restart";
+};
+
+export type PostInstancesByIdRestartErrors = {
+  /**
+   * Bad request
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+  /**
+   * Instance not found
+   */
+  404: ApiError;
+};
+
+export type PostInstancesByIdRestartError =
+  PostInstancesByIdRestartErrors[keyof PostInstancesByIdRestartErrors];
+
+export type PostInstancesByIdRestartResponses = {
+  /**
+   * Instance restart started
+   */
+  200: Instance;
+};
+
+export type PostInstancesByIdRestartResponse =
+  PostInstancesByIdRestartResponses[keyof PostInstancesByIdRestartResponses];
+
+export type PostInstancesByIdRedeployData = {
+  body?: never;
+  headers?: {
+    "x-organization-id"?: string;
+  };
+  path: {
+    id: string;
+  };
+  query?: never;
+  url: "/instances/{id}/redeploy";
+};
+
+export type PostInstancesByIdRedeployErrors = {
+  /**
+   * Bad request
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+  /**
+   * Instance not found
+   */
+  404: ApiError;
+};
+
+export type PostInstancesByIdRedeployError =
+  PostInstancesByIdRedeployErrors[keyof PostInstancesByIdRedeployErrors];
+
+export type PostInstancesByIdRedeployResponses = {
+  /**
+   * Instance redeploy started
+   */
+  200: Instance;
+};
+
+export type PostInstancesByIdRedeployResponse =
+  PostInstancesByIdRedeployResponses[keyof PostInstancesByIdRedeployResponses];
+
+export type PostInstancesByIdRetryData = {
+  body?: never;
+  headers?: {
+    "x-organization-id"?: string;
+  };
+  path: {
+    id: string;
+  };
+  query?: never;
+  url: "/instances/{id}/retry";
+};
+
+export type PostInstancesByIdRetryErrors = {
+  /**
+   * Bad request (instance must be in failed state)
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Subscription required, or the plan no longer covers the instance, or your role does not allow it
+   */
+  403: ForbiddenError;
+  /**
+   * Instance not found
+   */
+  404: ApiError;
+};
+
+export type PostInstancesByIdRetryError =
+  PostInstancesByIdRetryErrors[keyof PostInstancesByIdRetryErrors];
+
+export type PostInstancesByIdRetryResponses = {
+  /**
+   * Instance retry started
+   */
+  200: Instance;
+};
+
+export type PostInstancesByIdRetryResponse =
+  PostInstancesByIdRetryResponses[keyof PostInstancesByIdRetryResponses];
+
+export type PostInstancesValidateTelegramTokenData = {
+  body?: ValidateTelegramTokenRequest;
+  headers?: {
+    "x-organization-id"?: string;
+  };
+  path?: never;
+  query?: never;
+  url: "/instances/validate-telegram-token";
+};
+
+export type PostInstancesValidateTelegramTokenErrors = {
+  /**
+   * Bad request
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+};
+
+export type PostInstancesValidateTelegramTokenError =
+  PostInstancesValidateTelegramTokenErrors[keyof PostInstancesValidateTelegramTokenErrors];
+
+export type PostInstancesValidateTelegramTokenResponses = {
+  /**
+   * Token validation result
+   */
+  200: ValidateTelegramTokenResponse;
+};
+
+export type PostInstancesValidateTelegramTokenResponse =
+  PostInstancesValidateTelegramTokenResponses[keyof PostInstancesValidateTelegramTokenResponses];
+
+export type GetProvidersData = {
+  body?: never;
+  path?: never;
+  query?: never;
+  url: "/providers";
+};
+
+export type GetProvidersErrors = {
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+};
+
+export type GetProvidersError = GetProvidersErrors[keyof GetProvidersErrors];
+
+export type GetProvidersResponses = {
+  /**
+   * Registered providers
+   */
+  200: ProviderList;
+};
+
+export type GetProvidersResponse = GetProvidersResponses[keyof GetProvidersResponses];
+
+export type PostChannelsValidateData = {
+  body?: ChannelInput;
+  headers?: {
+    "x-organization-id"?: string;
+  };
+  path?: never;
+  query?: never;
+  url: "/channels/validate";
+};
+
+export type PostChannelsValidateErrors = {
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+};
+
+export type PostChannelsValidateError =
+  PostChannelsValidateErrors[keyof PostChannelsValidateErrors];
+
+export type PostChannelsValidateResponses = {
+  /**
+   * Validation result
+   */
+  200: ValidateChannelResponse;
+};
+
+export type PostChannelsValidateResponse =
+  PostChannelsValidateResponses[keyof PostChannelsValidateResponses];
+
+export type GetInstancesByIdChannelsData = {
+  body?: never;
+  headers?: {
+    "x-organization-id"?: string;
+  };
+  path: {
+    id: string;
+  };
+  query?: never;
+  url: "/instances/{id}/channels";
+};
+
+export type GetInstancesByIdChannelsErrors = {
   /**
-   * Instance created
+   * Unauthorized
    */
-  201: Instance;
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+  /**
+   * Instance not found
+   */
+  404: ApiError;
 };
 
-export type PostInstancesResponse = PostInstancesResponses[keyof PostInstancesResponses];
+export type GetInstancesByIdChannelsError =
+  GetInstancesByIdChannelsErrors[keyof GetInstancesByIdChannelsErrors];
 
-export type DeleteInstancesByIdData = {
+export type GetInstancesByIdChannelsResponses = {
+  /**
+   * Channels, tokens masked
+   */
+  200: InstanceChannelList;
+};
+
+export type GetInstancesByIdChannelsResponse =
+  GetInstancesByIdChannelsResponses[keyof GetInstancesByIdChannelsResponses];
+
+export type PutInstancesByIdChannelsData = {
+  body?: ChannelInput;
+  headers?: {
+    "x-organization-id"?: string;
+  };
+  path: {
+    id: string;
+  };
+  query?: never;
+  url: "/instances/{id}/channels";
+};
+
+export type PutInstancesByIdChannelsErrors = {
+  /**
+   * Instance not stopped, or token rejected by the platform
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+  /**
+   * Instance not found
+   */
+  404: ApiError;
+  /**
+   * Platform could not be reached
+   */
+  502: ApiError;
+};
+
+export type PutInstancesByIdChannelsError =
+  PutInstancesByIdChannelsErrors[keyof PutInstancesByIdChannelsErrors];
+
+export type PutInstancesByIdChannelsResponses = {
+  /**
+   * Channel saved
+   */
+  200: InstanceChannel;
+};
+
+export type PutInstancesByIdChannelsResponse =
+  PutInstancesByIdChannelsResponses[keyof PutInstancesByIdChannelsResponses];
+
+export type DeleteInstancesByIdChannelsByTypeData = {
+  body?: never;
+  headers?: {
+    "x-organization-id"?: string;
+  };
+  path: {
+    id: string;
+    type: ChannelType;
+  };
+  query?: never;
+  url: "/instances/{id}/channels/{type}";
+};
+
+export type DeleteInstancesByIdChannelsByTypeErrors = {
+  /**
+   * Instance not stopped, or this is its last channel
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+  /**
+   * Instance or channel not found
+   */
+  404: ApiError;
+};
+
+export type DeleteInstancesByIdChannelsByTypeError =
+  DeleteInstancesByIdChannelsByTypeErrors[keyof DeleteInstancesByIdChannelsByTypeErrors];
+
+export type DeleteInstancesByIdChannelsByTypeResponses = {
+  /**
+   * Channel removed
+   */
+  200: ApiSuccess;
+};
+
+export type DeleteInstancesByIdChannelsByTypeResponse =
+  DeleteInstancesByIdChannelsByTypeResponses[keyof DeleteInstancesByIdChannelsByTypeResponses];
+
+export type GetAiKeysData = {
+  body?: never;
+  path?: never;
+  query?: never;
+  url: "/ai-keys";
+};
+
+export type GetAiKeysErrors = {
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+};
+
+export type GetAiKeysError = GetAiKeysErrors[keyof GetAiKeysErrors];
+
+export type GetAiKeysResponses = {
+  /**
+   * Saved keys, masked
+   */
+  200: AiKeyList;
+};
+
+export type GetAiKeysResponse = GetAiKeysResponses[keyof GetAiKeysResponses];
+
+export type DeleteAiKeysByProviderData = {
+  body?: never;
+  path: {
+    provider: AiKeyProvider;
+  };
+  query?: never;
+  url: "/ai-keys/{provider}";
+};
+
+export type DeleteAiKeysByProviderErrors = {
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * No key saved for this provider
+   */
+  404: ApiError;
+  /**
+   * Key is used by instances
+   */
+  409: ApiError;
+};
+
+export type DeleteAiKeysByProviderError =
+  DeleteAiKeysByProviderErrors[keyof DeleteAiKeysByProviderErrors];
+
+export type DeleteAiKeysByProviderResponses = {
+  /**
+   * Key removed
+   */
+  200: ApiSuccess;
+};
+
+export type DeleteAiKeysByProviderResponse =
+  DeleteAiKeysByProviderResponses[keyof DeleteAiKeysByProviderResponses];
+
+export type PutAiKeysByProviderData = {
+  body?: SaveAiKeyRequest;
+  path: {
+    provider: AiKeyProvider;
+  };
+  query?: never;
+  url: "/ai-keys/{provider}";
+};
+
+export type PutAiKeysByProviderErrors = {
+  /**
+   * Key rejected by the provider
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Provider could not be reached
+   */
+  502: ApiError;
+};
+
+export type PutAiKeysByProviderError = PutAiKeysByProviderErrors[keyof PutAiKeysByProviderErrors];
+
+export type PutAiKeysByProviderResponses = {
+  /**
+   * Key saved
+   */
+  200: AiKey;
+};
+
+export type PutAiKeysByProviderResponse =
+  PutAiKeysByProviderResponses[keyof PutAiKeysByProviderResponses];
+
+export type GetModelsData = {
+  body?: never;
+  path?: never;
+  query?: never;
+  url: "/models";
+};
+
+export type GetModelsErrors = {
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+};
+
+export type GetModelsError = GetModelsErrors[keyof GetModelsErrors];
+
+export type GetModelsResponses = {
+  /**
+   * Model catalog, marked with what the user's plan can use
+   */
+  200: AiModelList;
+};
+
+export type GetModelsResponse = GetModelsResponses[keyof GetModelsResponses];
+
+export type PostBillingCheckoutData = {
+  body?: CreateCheckoutRequest;
+  headers?: {
+    "x-organization-id"?: string;
+  };
+  path?: never;
+  query?: never;
+  url: "/billing/checkout";
+};
+
+export type PostBillingCheckoutErrors = {
+  /**
+   * Bad request
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+};
+
+export type PostBillingCheckoutError = PostBillingCheckoutErrors[keyof PostBillingCheckoutErrors];
+
+export type PostBillingCheckoutResponses = {
+  /**
+   * Checkout session created
+   */
+  200: CheckoutResponse;
+};
+
+export type PostBillingCheckoutResponse =
+  PostBillingCheckoutResponses[keyof PostBillingCheckoutResponses];
+
+export type PostBillingPortalData = {
+  body?: never;
+  headers?: {
+    "x-organization-id"?: string;
+  };
+  path?: never;
+  query?: never;
+  url: "/billing/portal";
+};
+
+export type PostBillingPortalErrors = {
+  /**
+   * Bad request
+   */
+  400: ApiError;
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+};
+
+export type PostBillingPortalError = PostBillingPortalErrors[keyof PostBillingPortalErrors];
+
+export type PostBillingPortalResponses = {
+  /**
+   * Portal session created
+   */
+  200: PortalResponse;
+};
+
+export type PostBillingPortalResponse =
+  PostBillingPortalResponses[keyof PostBillingPortalResponses];
+
+export type GetBillingInvoicesData = {
+  body?: never;
+  headers?: {
+    "x-organization-id"?: string;
+  };
+  path?: never;
+  query?: never;
+  url: "/billing/invoices";
+};
+
+export type GetBillingInvoicesErrors = {
+  /**
+   * Unauthorized
+   */
+  401: ApiError;
+  /**
+   * Your role in the organization does not allow this
+   */
+  403: ApiError;
+};
+
+export type GetBillingInvoicesError = GetBillingInvoicesErrors[keyof GetBillingInvoicesErrors];
+
+export type GetBillingInvoicesResponses = {
+  /**
+   * List of invoices
+   */
+  200: InvoiceList;
+};
+
+export type GetBillingInvoicesResponse =
+  GetBillingInvoicesResponses[keyof GetBillingInvoicesResponses];
+
+export type GetBillingSubscriptionData = {
   body?: never;
-  path: {
-    id: string;
+  headers?: {
+    "x-organization-id"?: string;
   };
+  path?: never;
   query?: never;
-  url: "/instances/{id}";
+  url: "/billing/subscription";
 };
 
-export type DeleteInstancesByIdErrors = {
-  /**
-   * Bad request
-   */
-  400: ApiError;
+export type GetBillingSubscriptionErrors = {
   /**
    * Unauthorized
    */
   401: ApiError;
   /**
-   * Instance not found
+   * Your role in the organization does not allow this
    */
-  404: ApiError;
+  403: ApiError;
 };
 
-export type DeleteInstancesByIdError = DeleteInstancesByIdErrors[keyof DeleteInstancesByIdErrors];
+export type GetBillingSubscriptionError =
+  GetBillingSubscriptionErrors[keyof GetBillingSubscriptionErrors];
 
-export type DeleteInstancesByIdResponses = {
+export type GetBillingSubscriptionResponses = {
   /**
-   * Instance deleted
+   * Subscription status
    */
-  200: ApiSuccess;
+  200: SubscriptionResponse;
 };
 
-export type DeleteInstancesByIdResponse =
-  DeleteInstancesByIdResponses[keyof DeleteInstancesByIdResponses];
+export type GetBillingSubscriptionResponse =
+  GetBillingSubscriptionResponses[keyof GetBillingSubscriptionResponses];
 
-export type GetInstancesByIdData = {
+export type PostBillingWebhookData = {
   body?: never;
-  path: {
-    id: string;
-  };
+  path?: never;
   query?: never;
-  url: "/instances/{id}";
+  url: "/billing/webhook";
 };
 
-export type GetInstancesByIdErrors = {
+export type PostBillingWebhookErrors = {
   /**
-   * Unauthorized
+   * Bad request
    */
-  401: ApiError;
+  400: ApiError;
   /**
-   * Instance not found
+   * Server configuration error
    */
-  404: ApiError;
+  500: ApiError;
 };
 
-export type GetInstancesByIdError = GetInstancesByIdErrors[keyof GetInstancesByIdErrors];
+export type PostBillingWebhookError = PostBillingWebhookErrors[keyof PostBillingWebhookErrors];
 
-export type GetInstancesByIdResponses = {
+export type PostBillingWebhookResponses = {
   /**
-   * Instance details
+   * Webhook received
    */
-  200: Instance;
+  200: WebhookResponse;
 };
 
-export type GetInstancesByIdResponse = GetInstancesByIdResponses[keyof GetInstancesByIdResponses];
+export type PostBillingWebhookResponse =
+  PostBillingWebhookResponses[keyof PostBillingWebhookResponses];
 
-export type PatchInstancesByIdData = {
-  body?: UpdateInstanceRequest;
-  path: {
-    id: string;
-  };
+export type GetAdminReconcileData = {
+  body?: never;
+  path?: never;
   query?: never;
-  url: "/instances/{id}";
+  url: "/admin/reconcile";
 };
 
-export type PatchInstancesByIdErrors = {
-  /**
-   * Bad request (instance must be stopped)
-   */
-  400: ApiError;
+export type GetAdminReconcileErrors = {
   /**
    * Unauthorized
    */
   401: ApiError;
   /**
-   * Instance not found
+   * Admin access required
    */
-  404: ApiError;
+  403: ApiError;
 };
 
-export type PatchInstancesByIdError = PatchInstancesByIdErrors[keyof PatchInstancesByIdErrors];
+export type GetAdminReconcileError = GetAdminReconcileErrors[keyof GetAdminReconcileErrors];
 
-export type PatchInstancesByIdResponses = {
+export type GetAdminReconcileResponses = {
   /**
-   * Instance updated
+   * Dry-run reconcile report
    */
-  200: Instance;
+  200: ReconcileReport;
 };
 
-export type PatchInstancesByIdResponse =
-  PatchInstancesByIdResponses[keyof PatchInstancesByIdResponses];
+export type GetAdminReconcileResponse =
+  GetAdminReconcileResponses[keyof GetAdminReconcileResponses];
 
-export type PostInstancesByIdStartData = {
+export type GetAdminImageVersionsData = {
   body?: never;
-  path: {
-    id: string;
-  };
+  path?: never;
   query?: never;
-  url: "/instances/{id}/start";
+  url: "/admin/image-versions";
 };
 
-export type PostInstancesByIdStartErrors = {
-  /**
-   * Bad request
-   */
-  400: ApiError;
+export type GetAdminImageVersionsErrors = {
   /**
    * Unauthorized
    */
   401: ApiError;
   /**
-   * Instance not found
+   * Admin access required
    */
-  404: ApiError;
+  403: ApiError;
 };
 
-export type PostInstancesByIdStartError =
-  PostInstancesByIdStartErrors[keyof PostInstancesByIdStartErrors];
+export type GetAdminImageVersionsError =
+  GetAdminImageVersionsErrors[keyof GetAdminImageVersionsErrors];
 
-export type PostInstancesByIdStartResponses = {
+export type GetAdminImageVersionsResponses = {
   /**
-   * Instance started
+   * Approved versions
    */
-  200: Instance;
+  200: ImageVersionList;
 };
 
-export type PostInstancesByIdStartResponse =
-  PostInstancesByIdStartResponses[keyof PostInstancesByIdStartResponses];
+export type GetAdminImageVersionsResponse =
+  GetAdminImageVersionsResponses[keyof GetAdminImageVersionsResponses];
 
-export type PostInstancesByIdStopData = {
-  body?: never;
-  path: {
-    id: string;
-  };
+export type PostAdminImageVersionsData = {
+  body?: CreateImageVersionRequest;
+  path?: never;
   query?: never;
-  url: "/instances/{id}/stop";
+  url: "/admin/image-versions";
 };
 
-export type PostInstancesByIdStopErrors = {
-  /**
-   * Bad request
-   */
-  400: ApiError;
+export type PostAdminImageVersionsErrors = {
   /**
    * Unauthorized
    */
   401: ApiError;
   /**
-   * Instance not found
+   * Admin access required
    */
-  404: ApiError;
+  403: ApiError;
+  /**
+   * Conflict
+   */
+  409: ApiError;
 };
 
-export type PostInstancesByIdStopError =
-  PostInstancesByIdStopErrors[keyof PostInstancesByIdStopErrors];
+export type PostAdminImageVersionsError =
+  PostAdminImageVersionsErrors[keyof PostAdminImageVersionsErrors];
 
-export type PostInstancesByIdStopResponses = {
+export type PostAdminImageVersionsResponses = {
   /**
-   * Instance stopped
+   * Version approved
    */
-  200: Instance;
+  201: ImageVersion;
 };
 
-export type PostInstancesByIdStopResponse =
-  PostInstancesByIdStopResponses[keyof PostInstancesByIdStopResponses];
+export type PostAdminImageVersionsResponse =
+  PostAdminImageVersionsResponses[keyof PostAdminImageVersionsResponses];
 
-export type PostInstancesByIdRetryData = {
+export type PostAdminImageVersionsByVersionDefaultData = {
   body?: never;
   path: {
-    id: string;
+    version: string;
   };
   query?: never;
-  url: "/instances/{id}/retry";
+  url: "/admin/image-versions/{version}/default";
 };
 
-export type PostInstancesByIdRetryErrors = {
-  /**
-   * Bad request (instance must be in failed state)
-   */
-  400: ApiError;
+export type PostAdminImageVersionsByVersionDefaultErrors = {
   /**
    * Unauthorized
    */
   401: ApiError;
   /**
-   * Instance not found
+   * Admin access required
+   */
+  403: ApiError;
+  /**
+   * Not found
    */
   404: ApiError;
 };
 
-export type PostInstancesByIdRetryError =
-  PostInstancesByIdRetryErrors[keyof PostInstancesByIdRetryErrors];
+export type PostAdminImageVersionsByVersionDefaultError =
+  PostAdminImageVersionsByVersionDefaultErrors[keyof PostAdminImageVersionsByVersionDefaultErrors];
 
-export type PostInstancesByIdRetryResponses = {
+export type PostAdminImageVersionsByVersionDefaultResponses = {
   /**
-   * Instance retry started
+   * Default version changed
    */
-  200: Instance;
+  200: ImageVersion;
 };
 
-export type PostInstancesByIdRetryResponse =
-  PostInstancesByIdRetryResponses[keyof PostInstancesByIdRetryResponses];
+export type PostAdminImageVersionsByVersionDefaultResponse =
+  PostAdminImageVersionsByVersionDefaultResponses[keyof PostAdminImageVersionsByVersionDefaultResponses];
 
-export type PostInstancesValidateTelegramTokenData = {
-  body?: ValidateTelegramTokenRequest;
-  path?: never;
+export type DeleteAdminImageVersionsByVersionData = {
+  body?: never;
+  path: {
+    version: string;
+  };
   query?: never;
-  url: "/instances/validate-telegram-token";
+  url: "/admin/image-versions/{version}";
 };
 
-export type PostInstancesValidateTelegramTokenErrors = {
+export type DeleteAdminImageVersionsByVersionErrors = {
   /**
    * Bad request
    */
@@ -595,59 +3043,66 @@ export type PostInstancesValidateTelegramTokenErrors = {
    * Unauthorized
    */
   401: ApiError;
+  /**
+   * Admin access required
+   */
+  403: ApiError;
+  /**
+   * Not found
+   */
+  404: ApiError;
 };
 
-export type PostInstancesValidateTelegramTokenError =
-  PostInstancesValidateTelegramTokenErrors[keyof PostInstancesValidateTelegramTokenErrors];
+export type DeleteAdminImageVersionsByVersionError =
+  DeleteAdminImageVersionsByVersionErrors[keyof DeleteAdminImageVersionsByVersionErrors];
 
-export type PostInstancesValidateTelegramTokenResponses = {
+export type DeleteAdminImageVersionsByVersionResponses = {
   /**
-   * Token validation result
+   * Version withdrawn
    */
-  200: ValidateTelegramTokenResponse;
+  200: ApiSuccess;
 };
 
-export type PostInstancesValidateTelegramTokenResponse =
-  PostInstancesValidateTelegramTokenResponses[keyof PostInstancesValidateTelegramTokenResponses];
+export type DeleteAdminImageVersionsByVersionResponse =
+  DeleteAdminImageVersionsByVersionResponses[keyof DeleteAdminImageVersionsByVersionResponses];
 
-export type PostBillingCheckoutData = {
-  body?: CreateCheckoutRequest;
+export type GetAdminRolloutsData = {
+  body?: never;
   path?: never;
   query?: never;
-  url: "/billing/checkout";
+  url: "/admin/rollouts";
 };
 
-export type PostBillingCheckoutErrors = {
-  /**
-   * Bad request
-   */
-  400: ApiError;
+export type GetAdminRolloutsErrors = {
   /**
    * Unauthorized
    */
   401: ApiError;
+  /**
+   * Admin access required
+   */
+  403: ApiError;
 };
 
-export type PostBillingCheckoutError = PostBillingCheckoutErrors[keyof PostBillingCheckoutErrors];
+export type GetAdminRolloutsError = GetAdminRolloutsErrors[keyof GetAdminRolloutsErrors];
 
-export type PostBillingCheckoutResponses = {
+export type GetAdminRolloutsResponses = {
   /**
-   * Checkout session created
+   * Rollouts, newest first
    */
-  200: CheckoutResponse;
+  200: RolloutList;
 };
 
-export type PostBillingCheckoutResponse =
-  PostBillingCheckoutResponses[keyof PostBillingCheckoutResponses];
+export type GetAdminRolloutsResponse = GetAdminRolloutsResponses[keyof GetAdminRolloutsResponses];
 
-export type PostBillingPortalData = {
-  body?: never;
+export type PostAdminRolloutsData = {
+  body?: CreateRolloutRequest;
   path?: never;
   query?: never;
-  url: "/billing/portal";
+  url: "/admin/rollouts";
 };
 
-export type PostBillingPortalErrors = {
+export type PostAdminRolloutsErrors = {
   /**
    * Bad request
    */
@@ -656,102 +3111,150 @@ export type PostBillingPortalErrors = {
    * Unauthorized
    */
   401: ApiError;
+  /**
+   * Admin access required
+   */
+  403: ApiError;
+  /**
+   * Conflict
+   */
+  409: ApiError;
 };
 
-export type PostBillingPortalError = PostBillingPortalErrors[keyof PostBillingPortalErrors];
+export type PostAdminRolloutsError = PostAdminRolloutsErrors[keyof PostAdminRolloutsErrors];
 
-export type PostBillingPortalResponses = {
+export type PostAdminRolloutsResponses = {
   /**
-   * Portal session created
+   * Rollout started
    */
-  200: PortalResponse;
+  201: Rollout;
 };
 
-export type PostBillingPortalResponse =
-  PostBillingPortalResponses[keyof PostBillingPortalResponses];
+export type PostAdminRolloutsResponse =
+  PostAdminRolloutsResponses[keyof PostAdminRolloutsResponses];
 
-export type GetBillingInvoicesData = {
+export type GetAdminRolloutsByIdData = {
   body?: never;
-  path?: never;
+  path: {
+    id: string;
+  };
   query?: never;
-  url: "/billing/invoices";
+  url: "/admin/rollouts/{id}";
 };
 
-export type GetBillingInvoicesErrors = {
+export type GetAdminRolloutsByIdErrors = {
   /**
    * Unauthorized
    */
   401: ApiError;
+  /**
+   * Admin access required
+   */
+  403: ApiError;
+  /**
+   * Not found
+   */
+  404: ApiError;
 };
 
-export type GetBillingInvoicesError = GetBillingInvoicesErrors[keyof GetBillingInvoicesErrors];
+export type GetAdminRolloutsByIdError =
+  GetAdminRolloutsByIdErrors[keyof GetAdminRolloutsByIdErrors];
 
-export type GetBillingInvoicesResponses = {
+export type GetAdminRolloutsByIdResponses = {
   /**
-   * List of invoices
+   * Rollout
    */
-  200: InvoiceList;
+  200: Rollout;
 };
 
-export type GetBillingInvoicesResponse =
-  GetBillingInvoicesResponses[keyof GetBillingInvoicesResponses];
+export type GetAdminRolloutsByIdResponse =
+  GetAdminRolloutsByIdResponses[keyof GetAdminRolloutsByIdResponses];
 
-export type GetBillingSubscriptionData = {
+export type PostAdminRolloutsByIdHaltData = {
   body?: never;
-  path?: never;
+  path: {
+    id: string;
+  };
   query?: never;
-  url: "/billing/subscription";
+  url: "/admin/rollouts/{id}/halt";
 };
 
-export type GetBillingSubscriptionErrors = {
+export type PostAdminRolloutsByIdHaltErrors = {
+  /**
+   * Bad request
+   */
+  400: ApiError;
   /**
    * Unauthorized
    */
   401: ApiError;
+  /**
+   * Admin access required
+   */
+  403: ApiError;
+  /**
+   * Not found
+   */
+  404: ApiError;
 };
 
-export type GetBillingSubscriptionError =
-  GetBillingSubscriptionErrors[keyof GetBillingSubscriptionErrors];
+export type PostAdminRolloutsByIdHaltError =
+  PostAdminRolloutsByIdHaltErrors[keyof PostAdminRolloutsByIdHaltErrors];
 
-export type GetBillingSubscriptionResponses = {
+export type PostAdminRolloutsByIdHaltResponses = {
   /**
-   * Subscription status
+   * Rollout halted
    */
-  200: SubscriptionResponse;
+  200: Rollout;
 };
 
-export type GetBillingSubscriptionResponse =
-  GetBillingSubscriptionResponses[keyof GetBillingSubscriptionResponses];
+export type PostAdminRolloutsByIdHaltResponse =
+  PostAdminRolloutsByIdHaltResponses[keyof PostAdminRolloutsByIdHaltResponses];
 
-export type PostBillingWebhookData = {
+export type PostAdminRolloutsByIdRollbackData = {
   body?: never;
-  path?: never;
+  path: {
+    id: string;
+  };
   query?: never;
-  url: "/billing/webhook";
+  url: "/admin/rollouts/{id}/rollback";
 };
 
-export type PostBillingWebhookErrors = {
+export type PostAdminRolloutsByIdRollbackErrors = {
   /**
    * Bad request
    */
   400: ApiError;
   /**
-   * Server configuration error
+   * Unauthorized
    */
-  500: ApiError;
+  401: ApiError;
+  /**
+   * Admin access required
+   */
+  403: ApiError;
+  /**
+   * Not found
+   */
+  404: ApiError;
+  /**
+   * Conflict
+   */
+  409: ApiError;
 };
 
-export type PostBillingWebhookError = PostBillingWebhookErrors[keyof PostBillingWebhookErrors];
+export type PostAdminRolloutsByIdRollbackError =
+  PostAdminRolloutsByIdRollbackErrors[keyof PostAdminRolloutsByIdRollbackErrors];
 
-export type PostBillingWebhookResponses = {
+export type PostAdminRolloutsByIdRollbackResponses = {
   /**
-   * Webhook received
+   * Rollback started
    */
-  200: WebhookResponse;
+  200: Rollout;
 };
 
-export type PostBillingWebhookResponse =
-  PostBillingWebhookResponses[keyof PostBillingWebhookResponses];
+export type PostAdminRolloutsByIdRollbackResponse =
+  PostAdminRolloutsByIdRollbackResponses[keyof PostAdminRolloutsByIdRollbackResponses];
 
 export type GetHealthData = {
   body?: never;
@@ -8,23 +8,80 @@ import { fileURLToPath } from "node:url";
 import {
   // Common
   ApiErrorSchema,
+  ForbiddenErrorSchema,
   ApiSuccessSchema,
   ApiMessageSchema,
+  PaginationParamsSchema,
   // Auth
   UserSchema,
   RegisterRequestSchema,
   LoginRequestSchema,
+  TwoFactorLoginRequestSchema,
   UpdateProfileRequestSchema,
   UpdatePasswordRequestSchema,
+  ForgotPasswordRequestSchema,
+  ResetPasswordRequestSchema,
+  VerifyEmailRequestSchema,
   TokenResponseSchema,
+  LoginResponseSchema,
+  SessionTokensSchema,
+  RefreshTokenRequestSchema,
+  SessionListSchema,
+  SessionIdParamSchema,
+  AccountDeletionStatusSchema,
+  TwoFactorStatusSchema,
+  TwoFactorSetupSchema,
+  TwoFactorCodeRequestSchema,
+  RecoveryCodesSchema,
   // Instances
   InstanceSchema,
   InstanceListSchema,
   CreateInstanceRequestSchema,
   UpdateInstanceRequestSchema,
   InstanceIdParamSchema,
+  InstanceJobListSchema,
+  InstanceEventListResponseSchema,
+  InstanceLogsQuerySchema,
+  InstanceLogListResponseSchema,
+  InstanceVolumeSchema,
   ValidateTelegramTokenRequestSchema,
   ValidateTelegramTokenResponseSchema,
+  // Channels
+  ChannelInputSchema,
+  InstanceChannelSchema,
+  InstanceChannelListSchema,
+  InstanceChannelParamSchema,
+  ValidateChannelResponseSchema,
+  // Providers
+  ProviderListSchema,
+  // AI keys
+  AiKeySchema,
+  AiKeyListSchema,
+  AiKeyProviderParamSchema,
+  SaveAiKeyRequestSchema,
+  // Access tokens
+  AccessTokenListSchema,
+  CreatedAccessTokenSchema,
+  CreateAccessTokenRequestSchema,
+  AccessTokenIdParamSchema,
+  // Organizations
+  OrganizationSchema,
+  OrganizationListSchema,
+  OrganizationIdParamSchema,
+  OrganizationHeaderSchema,
+  OrganizationMemberSchema,
+  OrganizationMemberListSchema,
+  OrganizationMemberParamSchema,
+  OrganizationInvitationSchema,
+  OrganizationInvitationListSchema,
+  OrganizationInvitationParamSchema,
+  CreateOrganizationRequestSchema,
+  UpdateOrganizationRequestSchema,
+  UpdateMemberRequestSchema,
+  CreateInvitationRequestSchema,
+  AcceptInvitationRequestSchema,
+  // Models
+  AiModelListSchema,
   // Billing
   CreateCheckoutRequestSchema,
   CheckoutResponseSchema,
@@ -32,6 +89,16 @@ import {
   SubscriptionResponseSchema,
   InvoiceListSchema,
   WebhookResponseSchema,
+  // Admin
+  ReconcileReportSchema,
+  ImageVersionSchema,
+  ImageVersionListSchema,
+  CreateImageVersionRequestSchema,
+  ImageVersionParamSchema,
+  RolloutSchema,
+  RolloutListSchema,
+  CreateRolloutRequestSchema,
+  RolloutIdParamSchema,
 } from "@fasterclaw/shared";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -45,6 +112,8 @@ registry.registerComponent("securitySchemes", "bearerAuth", {
   type: "http",
   scheme: "bearer",
   bearerFormat: "JWT",
+  description:
+    "A session access token, or a personal access token (fcp_...) for the routes its scopes allow",
 });
 
 // ============================================================================
@@ -98,6 +167,8 @@ registry.registerPath({
   path: "/auth/login",
   tags: ["Auth"],
   summary: "Login with email and password",
+  description:
+    "Returns a challenge instead of tokens when the account has two-factor authentication on",
   request: {
     body: {
       content: {
@@ -107,6 +178,40 @@ registry.registerPath({
       },
     },
   },
+  responses: {
+    200: {
+      description: "Login successful, or a two-factor challenge",
+      content: {
+        "application/json": {
+          schema: LoginResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: "Invalid credentials",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/auth/login/two-factor",
+  tags: ["Auth"],
+  summary: "Complete a login with a code from the authenticator app or a recovery code",
+  request: {
+    body: {
+      content: {
+        "application/json": {
+          schema: TwoFactorLoginRequestSchema,
+        },
+      },
+    },
+  },
   responses: {
     200: {
       description: "Login successful",
@@ -117,7 +222,164 @@ registry.registerPath({
       },
     },
     401: {
-      description: "Invalid credentials",
+      description: "Invalid code or expired challenge",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    429: {
+      description: "Too many wrong codes",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/auth/refresh",
+  tags: ["Auth"],
+  summary: "Refresh the access token of a session",
+  request: {
+    body: {
+      content: {
+        "application/json": {
+          schema: RefreshTokenRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "New tokens; the refresh token is rotated",
+      content: {
+        "application/json": {
+          schema: SessionTokensSchema,
+        },
+      },
+    },
+    401: {
+      description: "Invalid or expired refresh token",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/auth/logout",
+  tags: ["Auth"],
+  summary: "Sign out of the current session",
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: {
+      description: "Signed out",
+      content: {
+        "application/json": {
+          schema: ApiMessageSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/auth/sessions",
+  tags: ["Auth"],
+  summary: "List the devices signed in to the account",
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: {
+      description: "Active sessions",
+      content: {
+        "application/json": {
+          schema: SessionListSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/auth/sessions",
+  tags: ["Auth"],
+  summary: "Revoke every session of the account, including the current one",
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: {
+      description: "Sessions revoked",
+      content: {
+        "application/json": {
+          schema: ApiMessageSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/auth/sessions/{id}",
+  tags: ["Auth"],
+  summary: "Revoke a session",
+  security: [{ bearerAuth: [] }],
+  request: {
+    params: SessionIdParamSchema,
+  },
+  responses: {
+    200: {
+      description: "Session revoked",
+      content: {
+        "application/json": {
+          schema: ApiMessageSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    404: {
+      description: "Session not found",
       content: {
         "application/json": {
           schema: ApiErrorSchema,
@@ -232,22 +494,56 @@ registry.registerPath({
 });
 
 registry.registerPath({
-  method: "delete",
-  path: "/auth/account",
+  method: "post",
+  path: "/auth/forgot-password",
   tags: ["Auth"],
-  summary: "Delete user account",
-  security: [{ bearerAuth: [] }],
+  summary: "Send a password reset link",
+  request: {
+    body: {
+      content: {
+        "application/json": {
+          schema: ForgotPasswordRequestSchema,
+        },
+      },
+    },
+  },
   responses: {
     200: {
-      description: "Account deleted",
+      description: "Reset link sent if the account exists",
       content: {
         "application/json": {
           schema: ApiMessageSchema,
         },
       },
     },
-    401: {
-      description: "Unauthorized",
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/auth/reset-password",
+  tags: ["Auth"],
+  summary: "Reset the password with a token from a reset email",
+  request: {
+    body: {
+      content: {
+        "application/json": {
+          schema: ResetPasswordRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Password reset; every session is signed out",
+      content: {
+        "application/json": {
+          schema: ApiMessageSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid or expired token",
       content: {
         "application/json": {
           schema: ApiErrorSchema,
@@ -257,44 +553,2394 @@ registry.registerPath({
   },
 });
 
-// ============================================================================
-// INSTANCE ROUTES
-// ============================================================================
-
 registry.registerPath({
   method: "post",
-  path: "/instances",
-  tags: ["Instances"],
-  summary: "Create a new OpenClaw instance",
-  security: [{ bearerAuth: [] }],
+  path: "/auth/verify-email",
+  tags: ["Auth"],
+  summary: "Verify the email address with a token from a verification email",
   request: {
     body: {
       content: {
         "application/json": {
-          schema: CreateInstanceRequestSchema,
+          schema: VerifyEmailRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Email verified",
+      content: {
+        "application/json": {
+          schema: ApiMessageSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid or expired token",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/auth/verify-email/resend",
+  tags: ["Auth"],
+  summary: "Send the verification email again",
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: {
+      description: "Verification email sent",
+      content: {
+        "application/json": {
+          schema: ApiMessageSchema,
+        },
+      },
+    },
+    400: {
+      description: "Email is already verified",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
         },
       },
     },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/auth/two-factor",
+  tags: ["Auth"],
+  summary: "Get the two-factor authentication status",
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: {
+      description: "Two-factor status",
+      content: {
+        "application/json": {
+          schema: TwoFactorStatusSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/auth/two-factor/setup",
+  tags: ["Auth"],
+  summary: "Generate a TOTP secret to add to an authenticator app",
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: {
+      description: "Secret and otpauth URI",
+      content: {
+        "application/json": {
+          schema: TwoFactorSetupSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    409: {
+      description: "Two-factor authentication is already enabled",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/auth/two-factor/enable",
+  tags: ["Auth"],
+  summary: "Turn on two-factor authentication with a code from the authenticator app",
+  security: [{ bearerAuth: [] }],
+  request: {
+    body: {
+      content: {
+        "application/json": {
+          schema: TwoFactorCodeRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Recovery codes, shown once",
+      content: {
+        "application/json": {
+          schema: RecoveryCodesSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid code or setup not started",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    409: {
+      description: "Two-factor authentication is already enabled",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/auth/two-factor/disable",
+  tags: ["Auth"],
+  summary: "Turn off two-factor authentication",
+  security: [{ bearerAuth: [] }],
+  request: {
+    body: {
+      content: {
+        "application/json": {
+          schema: TwoFactorCodeRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Two-factor authentication disabled",
+      content: {
+        "application/json": {
+          schema: ApiMessageSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid code or two-factor not enabled",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "An organization the user belongs to requires two-factor authentication",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    429: {
+      description: "Too many wrong codes",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/auth/two-factor/recovery-codes",
+  tags: ["Auth"],
+  summary: "Generate new recovery codes, invalidating the old ones",
+  security: [{ bearerAuth: [] }],
+  request: {
+    body: {
+      content: {
+        "application/json": {
+          schema: TwoFactorCodeRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "New recovery codes, shown once",
+      content: {
+        "application/json": {
+          schema: RecoveryCodesSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid code or two-factor not enabled",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    429: {
+      description: "Too many wrong codes",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/auth/tokens",
+  tags: ["Auth"],
+  summary: "List your personal access tokens",
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: {
+      description: "Personal access tokens, masked",
+      content: {
+        "application/json": {
+          schema: AccessTokenListSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/auth/tokens",
+  tags: ["Auth"],
+  summary: "Create a personal access token; the token is only returned this once",
+  security: [{ bearerAuth: [] }],
+  request: {
+    body: {
+      content: {
+        "application/json": {
+          schema: CreateAccessTokenRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    201: {
+      description: "Token created",
+      content: {
+        "application/json": {
+          schema: CreatedAccessTokenSchema,
+        },
+      },
+    },
+    400: {
+      description: "Bad request",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/auth/tokens/{id}",
+  tags: ["Auth"],
+  summary: "Revoke a personal access token",
+  security: [{ bearerAuth: [] }],
+  request: {
+    params: AccessTokenIdParamSchema,
+  },
+  responses: {
+    200: {
+      description: "Token revoked",
+      content: {
+        "application/json": {
+          schema: ApiMessageSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    404: {
+      description: "Token not found",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/auth/account/deletion",
+  tags: ["Auth"],
+  summary: "Get the deletion status of the current account",
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: {
+      description: "Deletion status",
+      content: {
+        "application/json": {
+          schema: AccountDeletionStatusSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/auth/account",
+  tags: ["Auth"],
+  summary: "Delete user account and all associated data after a grace period",
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: {
+      description: "Account scheduled for deletion",
+      content: {
+        "application/json": {
+          schema: AccountDeletionStatusSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    409: {
+      description: "Account is already scheduled for deletion",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/auth/account/restore",
+  tags: ["Auth"],
+  summary: "Restore an account that is scheduled for deletion",
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: {
+      description: "Account restored",
+      content: {
+        "application/json": {
+          schema: AccountDeletionStatusSchema,
+        },
+      },
+    },
+    400: {
+      description: "Account is not scheduled for deletion",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+// ============================================================================
+// ORGANIZATION ROUTES
+// ============================================================================
+
+registry.registerPath({
+  method: "get",
+  path: "/organizations",
+  tags: ["Organizations"],
+  summary: "List the organizations you belong to, with your role in each",
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: {
+      description: "Organizations",
+      content: {
+        "application/json": {
+          schema: OrganizationListSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/organizations",
+  tags: ["Organizations"],
+  summary: "Create an organization; you become its owner",
+  security: [{ bearerAuth: [] }],
+  request: {
+    body: {
+      content: {
+        "application/json": {
+          schema: CreateOrganizationRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    201: {
+      description: "Organization created",
+      content: {
+        "application/json": {
+          schema: OrganizationSchema,
+        },
+      },
+    },
+    400: {
+      description: "Bad request",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "patch",
+  path: "/organizations/{id}",
+  tags: ["Organizations"],
+  summary: "Update an organization",
+  security: [{ bearerAuth: [] }],
+  request: {
+    params: OrganizationIdParamSchema,
+    body: {
+      content: {
+        "application/json": {
+          schema: UpdateOrganizationRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Organization updated",
+      content: {
+        "application/json": {
+          schema: OrganizationSchema,
+        },
+      },
+    },
+    400: {
+      description: "Bad request",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Only owners can update the organization",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    404: {
+      description: "Organization not found",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/organizations/{id}/members",
+  tags: ["Organizations"],
+  summary: "List the members of an organization",
+  security: [{ bearerAuth: [] }],
+  request: {
+    params: OrganizationIdParamSchema,
+  },
+  responses: {
+    200: {
+      description: "Members",
+      content: {
+        "application/json": {
+          schema: OrganizationMemberListSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    404: {
+      description: "Organization not found",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "patch",
+  path: "/organizations/{id}/members/{userId}",
+  tags: ["Organizations"],
+  summary: "Change the role of a member",
+  security: [{ bearerAuth: [] }],
+  request: {
+    params: OrganizationMemberParamSchema,
+    body: {
+      content: {
+        "application/json": {
+          schema: UpdateMemberRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Member updated",
+      content: {
+        "application/json": {
+          schema: OrganizationMemberSchema,
+        },
+      },
+    },
+    400: {
+      description: "The organization would be left without an owner",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    404: {
+      description: "Organization or member not found",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/organizations/{id}/members/{userId}",
+  tags: ["Organizations"],
+  summary: "Remove a member; any member may remove themselves",
+  security: [{ bearerAuth: [] }],
+  request: {
+    params: OrganizationMemberParamSchema,
+  },
+  responses: {
+    200: {
+      description: "Member removed",
+      content: {
+        "application/json": {
+          schema: ApiMessageSchema,
+        },
+      },
+    },
+    400: {
+      description: "The organization would be left without an owner",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    404: {
+      description: "Organization or member not found",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/organizations/{id}/invitations",
+  tags: ["Organizations"],
+  summary: "List the pending invitations of an organization",
+  security: [{ bearerAuth: [] }],
+  request: {
+    params: OrganizationIdParamSchema,
+  },
+  responses: {
+    200: {
+      description: "Pending invitations",
+      content: {
+        "application/json": {
+          schema: OrganizationInvitationListSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    404: {
+      description: "Organization not found",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/organizations/{id}/invitations",
+  tags: ["Organizations"],
+  summary: "Email an invitation to join an organization",
+  security: [{ bearerAuth: [] }],
+  request: {
+    params: OrganizationIdParamSchema,
+    body: {
+      content: {
+        "application/json": {
+          schema: CreateInvitationRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    201: {
+      description: "Invitation sent",
+      content: {
+        "application/json": {
+          schema: OrganizationInvitationSchema,
+        },
+      },
+    },
+    400: {
+      description: "Bad request",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    404: {
+      description: "Organization not found",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    409: {
+      description: "The address already belongs to a member",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/organizations/{id}/invitations/{invitationId}",
+  tags: ["Organizations"],
+  summary: "Withdraw a pending invitation",
+  security: [{ bearerAuth: [] }],
+  request: {
+    params: OrganizationInvitationParamSchema,
+  },
+  responses: {
+    200: {
+      description: "Invitation withdrawn",
+      content: {
+        "application/json": {
+          schema: ApiMessageSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    404: {
+      description: "Organization or invitation not found",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/invitations/accept",
+  tags: ["Organizations"],
+  summary: "Accept an invitation; you must be signed in with the invited email address",
+  security: [{ bearerAuth: [] }],
+  request: {
+    body: {
+      content: {
+        "application/json": {
+          schema: AcceptInvitationRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Joined the organization",
+      content: {
+        "application/json": {
+          schema: OrganizationSchema,
+        },
+      },
+    },
+    400: {
+      description: "Invalid or expired invitation",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "The invitation is for another email address",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+// ============================================================================
+// INSTANCE ROUTES
+// ============================================================================
+
+registry.registerPath({
+  method: "post",
+  path: "/instances",
+  tags: ["Instances"],
+  summary: "Create a new OpenClaw instance",
+  security: [{ bearerAuth: [] }],
+  request: {
+    headers: OrganizationHeaderSchema,
+    body: {
+      content: {
+        "application/json": {
+          schema: CreateInstanceRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    201: {
+      description: "Instance created",
+      content: {
+        "application/json": {
+          schema: InstanceSchema,
+        },
+      },
+    },
+    400: {
+      description: "Bad request",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description:
+        "Subscription required, or the plan does not cover the request, or your role does not allow it",
+      content: {
+        "application/json": {
+          schema: ForbiddenErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/instances",
+  tags: ["Instances"],
+  summary: "List all instances of the organization",
+  security: [{ bearerAuth: [] }],
+  request: {
+    headers: OrganizationHeaderSchema,
+  },
+  responses: {
+    200: {
+      description: "List of instances",
+      content: {
+        "application/json": {
+          schema: InstanceListSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/instances/stream",
+  tags: ["Instances"],
+  summary: "Stream status and event updates for the organization's instances",
+  description:
+    "Server-Sent Events stream. Sends `instance` events with the updated Instance and `event` events with new InstanceEvent entries.",
+  security: [{ bearerAuth: [] }],
+  request: {
+    headers: OrganizationHeaderSchema,
+  },
+  responses: {
+    200: {
+      description: "Event stream",
+      content: {
+        "text/event-stream": {
+          schema: z.string(),
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/instances/{id}",
+  tags: ["Instances"],
+  summary: "Get an instance by ID",
+  security: [{ bearerAuth: [] }],
+  request: {
+    headers: OrganizationHeaderSchema,
+    params: InstanceIdParamSchema,
+  },
+  responses: {
+    200: {
+      description: "Instance details",
+      content: {
+        "application/json": {
+          schema: InstanceSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    404: {
+      description: "Instance not found",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "patch",
+  path: "/instances/{id}",
+  tags: ["Instances"],
+  summary: "Update an instance",
+  description:
+    "Names and Telegram access policies apply immediately. Changing the model, API key " +
+    "source or Telegram bot token of a running instance restarts it; follow its status. " +
+    "The region cannot be changed.",
+  security: [{ bearerAuth: [] }],
+  request: {
+    headers: OrganizationHeaderSchema,
+    params: InstanceIdParamSchema,
+    body: {
+      content: {
+        "application/json": {
+          schema: UpdateInstanceRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Instance updated",
+      content: {
+        "application/json": {
+          schema: InstanceSchema,
+        },
+      },
+    },
+    400: {
+      description: "Bad request (region change, or instance neither running nor stopped)",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description:
+        "The plan does not cover the model or AI key source, or your role does not allow it",
+      content: {
+        "application/json": {
+          schema: ForbiddenErrorSchema,
+        },
+      },
+    },
+    404: {
+      description: "Instance not found",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/instances/{id}/jobs",
+  tags: ["Instances"],
+  summary: "List recent provisioning jobs for an instance",
+  security: [{ bearerAuth: [] }],
+  request: {
+    headers: OrganizationHeaderSchema,
+    params: InstanceIdParamSchema,
+  },
+  responses: {
+    200: {
+      description: "Jobs for the instance, newest first",
+      content: {
+        "application/json": {
+          schema: InstanceJobListSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    404: {
+      description: "Instance not found",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/instances/{id}/events",
+  tags: ["Instances"],
+  summary: "List the event history of an instance",
+  security: [{ bearerAuth: [] }],
+  request: {
+    headers: OrganizationHeaderSchema,
+    params: InstanceIdParamSchema,
+    query: PaginationParamsSchema,
+  },
+  responses: {
+    200: {
+      description: "Events for the instance, newest first",
+      content: {
+        "application/json": {
+          schema: InstanceEventListResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    404: {
+      description: "Instance not found",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/instances/{id}/logs",
+  tags: ["Instances"],
+  summary: "Get logs from an instance",
+  description:
+    "Returns the most recent log lines. With `follow=true` the response is a Server-Sent Events stream of `log` events (each an InstanceLogEntry); an `error` event is sent if reading logs from the provider fails.",
+  security: [{ bearerAuth: [] }],
+  request: {
+    headers: OrganizationHeaderSchema,
+    params: InstanceIdParamSchema,
+    query: InstanceLogsQuerySchema,
+  },
+  responses: {
+    200: {
+      description: "Recent log lines, oldest first",
+      content: {
+        "application/json": {
+          schema: InstanceLogListResponseSchema,
+        },
+        "text/event-stream": {
+          schema: z.string(),
+        },
+      },
+    },
+    400: {
+      description: "Instance has not been deployed or the provider could not return logs",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    404: {
+      description: "Instance not found",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/instances/{id}/volume",
+  tags: ["Instances"],
+  summary: "Get an instance's volume",
+  description:
+    "Size and usage of the volume holding the instance's memory and workspace. `usedBytes` is null when the provider cannot report it, e.g. a stopped Docker container.",
+  security: [{ bearerAuth: [] }],
+  request: {
+    headers: OrganizationHeaderSchema,
+    params: InstanceIdParamSchema,
+  },
+  responses: {
+    200: {
+      description: "The instance's volume",
+      content: {
+        "application/json": {
+          schema: InstanceVolumeSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    404: {
+      description: "Instance not found or has no volume",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/instances/{id}/start",
+  tags: ["Instances"],
+  summary: "Start a stopped instance",
+  security: [{ bearerAuth: [] }],
+  request: {
+    headers: OrganizationHeaderSchema,
+    params: InstanceIdParamSchema,
+  },
+  responses: {
+    200: {
+      description: "Instance started",
+      content: {
+        "application/json": {
+          schema: InstanceSchema,
+        },
+      },
+    },
+    400: {
+      description: "Bad request",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    404: {
+      description: "Instance not found",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/instances/{id}/stop",
+  tags: ["Instances"],
+  summary: "Stop a running instance",
+  security: [{ bearerAuth: [] }],
+  request: {
+    headers: OrganizationHeaderSchema,
+    params: InstanceIdParamSchema,
+  },
+  responses: {
+    200: {
+      description: "Instance stopped",
+      content: {
+        "application/json": {
+          schema: InstanceSchema,
+        },
+      },
+    },
+    400: {
+      description: "Bad request",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    404: {
+      description: "Instance not found",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/instances/{id}/restart",
+  tags: ["Instances"],
+  summary: "Restart a running instance",
+  description:
+    "Restarts the instance in place where the provider supports it, otherwise stops and " +
+    "starts it. Settings saved since it last started apply.",
+  security: [{ bearerAuth: [] }],
+  request: {
+    headers: OrganizationHeaderSchema,
+    params: InstanceIdParamSchema,
+  },
+  responses: {
+    200: {
+      description: "Instance restart started",
+      content: {
+        "application/json": {
+          schema: InstanceSchema,
+        },
+      },
+    },
+    400: {
+      description: "Bad request",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    404: {
+      description: "Instance not found",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/instances/{id}/redeploy",
+  tags: ["Instances"],
+  summary: "Redeploy an instance",
+  description:
+    "Recreates the instance's machine or container from the image of its OpenClaw version and its current settings. " +
+    "The instance keeps its ID, name and credentials and is running afterwards.",
+  security: [{ bearerAuth: [] }],
+  request: {
+    headers: OrganizationHeaderSchema,
+    params: InstanceIdParamSchema,
+  },
+  responses: {
+    200: {
+      description: "Instance redeploy started",
+      content: {
+        "application/json": {
+          schema: InstanceSchema,
+        },
+      },
+    },
+    400: {
+      description: "Bad request",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    404: {
+      description: "Instance not found",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/instances/{id}/retry",
+  tags: ["Instances"],
+  summary: "Retry provisioning a failed instance",
+  security: [{ bearerAuth: [] }],
+  request: {
+    headers: OrganizationHeaderSchema,
+    params: InstanceIdParamSchema,
+  },
+  responses: {
+    200: {
+      description: "Instance retry started",
+      content: {
+        "application/json": {
+          schema: InstanceSchema,
+        },
+      },
+    },
+    400: {
+      description: "Bad request (instance must be in failed state)",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description:
+        "Subscription required, or the plan no longer covers the instance, or your role does not allow it",
+      content: {
+        "application/json": {
+          schema: ForbiddenErrorSchema,
+        },
+      },
+    },
+    404: {
+      description: "Instance not found",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/instances/{id}",
+  tags: ["Instances"],
+  summary: "Delete an instance",
+  security: [{ bearerAuth: [] }],
+  request: {
+    headers: OrganizationHeaderSchema,
+    params: InstanceIdParamSchema,
+  },
+  responses: {
+    200: {
+      description: "Instance deleted",
+      content: {
+        "application/json": {
+          schema: ApiSuccessSchema,
+        },
+      },
+    },
+    400: {
+      description: "Bad request",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    404: {
+      description: "Instance not found",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/instances/validate-telegram-token",
+  tags: ["Instances"],
+  summary: "Validate a Telegram bot token",
+  security: [{ bearerAuth: [] }],
+  request: {
+    headers: OrganizationHeaderSchema,
+    body: {
+      content: {
+        "application/json": {
+          schema: ValidateTelegramTokenRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Token validation result",
+      content: {
+        "application/json": {
+          schema: ValidateTelegramTokenResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Bad request",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+// ============================================================================
+// PROVIDER ROUTES
+// ============================================================================
+
+registry.registerPath({
+  method: "get",
+  path: "/providers",
+  tags: ["Providers"],
+  summary: "List instance providers and their capabilities",
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: {
+      description: "Registered providers",
+      content: {
+        "application/json": {
+          schema: ProviderListSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+// ============================================================================
+// CHANNEL ROUTES
+// ============================================================================
+
+registry.registerPath({
+  method: "post",
+  path: "/channels/validate",
+  tags: ["Channels"],
+  summary: "Validate the credentials of a channel",
+  security: [{ bearerAuth: [] }],
+  request: {
+    headers: OrganizationHeaderSchema,
+    body: {
+      content: {
+        "application/json": {
+          schema: ChannelInputSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Validation result",
+      content: {
+        "application/json": {
+          schema: ValidateChannelResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/instances/{id}/channels",
+  tags: ["Channels"],
+  summary: "List the channels of an instance",
+  security: [{ bearerAuth: [] }],
+  request: {
+    headers: OrganizationHeaderSchema,
+    params: InstanceIdParamSchema,
+  },
+  responses: {
+    200: {
+      description: "Channels, tokens masked",
+      content: {
+        "application/json": {
+          schema: InstanceChannelListSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    404: {
+      description: "Instance not found",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "put",
+  path: "/instances/{id}/channels",
+  tags: ["Channels"],
+  summary: "Attach a channel to an instance (must be stopped)",
+  security: [{ bearerAuth: [] }],
+  request: {
+    headers: OrganizationHeaderSchema,
+    params: InstanceIdParamSchema,
+    body: {
+      content: {
+        "application/json": {
+          schema: ChannelInputSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Channel saved",
+      content: {
+        "application/json": {
+          schema: InstanceChannelSchema,
+        },
+      },
+    },
+    400: {
+      description: "Instance not stopped, or token rejected by the platform",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    404: {
+      description: "Instance not found",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    502: {
+      description: "Platform could not be reached",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/instances/{id}/channels/{type}",
+  tags: ["Channels"],
+  summary: "Remove a channel from an instance (must be stopped)",
+  security: [{ bearerAuth: [] }],
+  request: {
+    headers: OrganizationHeaderSchema,
+    params: InstanceChannelParamSchema,
+  },
+  responses: {
+    200: {
+      description: "Channel removed",
+      content: {
+        "application/json": {
+          schema: ApiSuccessSchema,
+        },
+      },
+    },
+    400: {
+      description: "Instance not stopped, or this is its last channel",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    404: {
+      description: "Instance or channel not found",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+// ============================================================================
+// AI KEY ROUTES
+// ============================================================================
+
+registry.registerPath({
+  method: "get",
+  path: "/ai-keys",
+  tags: ["AI Keys"],
+  summary: "List your saved AI provider keys",
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: {
+      description: "Saved keys, masked",
+      content: {
+        "application/json": {
+          schema: AiKeyListSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "put",
+  path: "/ai-keys/{provider}",
+  tags: ["AI Keys"],
+  summary: "Validate and save your own key for an AI provider",
+  security: [{ bearerAuth: [] }],
+  request: {
+    params: AiKeyProviderParamSchema,
+    body: {
+      content: {
+        "application/json": {
+          schema: SaveAiKeyRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Key saved",
+      content: {
+        "application/json": {
+          schema: AiKeySchema,
+        },
+      },
+    },
+    400: {
+      description: "Key rejected by the provider",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    502: {
+      description: "Provider could not be reached",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "delete",
+  path: "/ai-keys/{provider}",
+  tags: ["AI Keys"],
+  summary: "Remove your saved key for an AI provider",
+  security: [{ bearerAuth: [] }],
+  request: {
+    params: AiKeyProviderParamSchema,
+  },
+  responses: {
+    200: {
+      description: "Key removed",
+      content: {
+        "application/json": {
+          schema: ApiSuccessSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    404: {
+      description: "No key saved for this provider",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    409: {
+      description: "Key is used by instances",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+// ============================================================================
+// MODEL ROUTES
+// ============================================================================
+
+registry.registerPath({
+  method: "get",
+  path: "/models",
+  tags: ["Models"],
+  summary: "List AI models instances can run",
+  security: [{ bearerAuth: [] }],
+  responses: {
+    200: {
+      description: "Model catalog, marked with what the user's plan can use",
+      content: {
+        "application/json": {
+          schema: AiModelListSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+// ============================================================================
+// BILLING ROUTES
+// ============================================================================
+
+registry.registerPath({
+  method: "post",
+  path: "/billing/checkout",
+  tags: ["Billing"],
+  summary: "Create Stripe Checkout session for subscription",
+  security: [{ bearerAuth: [] }],
+  request: {
+    headers: OrganizationHeaderSchema,
+    body: {
+      content: {
+        "application/json": {
+          schema: CreateCheckoutRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: "Checkout session created",
+      content: {
+        "application/json": {
+          schema: CheckoutResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Bad request",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "post",
+  path: "/billing/portal",
+  tags: ["Billing"],
+  summary: "Create Stripe Customer Portal session",
+  security: [{ bearerAuth: [] }],
+  request: {
+    headers: OrganizationHeaderSchema,
+  },
+  responses: {
+    200: {
+      description: "Portal session created",
+      content: {
+        "application/json": {
+          schema: PortalResponseSchema,
+        },
+      },
+    },
+    400: {
+      description: "Bad request",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/billing/invoices",
+  tags: ["Billing"],
+  summary: "Get invoice history from Stripe",
+  security: [{ bearerAuth: [] }],
+  request: {
+    headers: OrganizationHeaderSchema,
+  },
+  responses: {
+    200: {
+      description: "List of invoices",
+      content: {
+        "application/json": {
+          schema: InvoiceListSchema,
+        },
+      },
+    },
+    401: {
+      description: "Unauthorized",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    403: {
+      description: "Your role in the organization does not allow this",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+  },
+});
+
+registry.registerPath({
+  method: "get",
+  path: "/billing/subscription",
+  tags: ["Billing"],
+  summary: "Get current subscription status",
+  security: [{ bearerAuth: [] }],
+  request: {
+    headers: OrganizationHeaderSchema,
   },
   responses: {
-    201: {
-      description: "Instance created",
+    200: {
+      description: "Subscription status",
       content: {
         "application/json": {
-          schema: InstanceSchema,
+          schema: SubscriptionResponseSchema,
         },
       },
     },
-    400: {
-      description: "Bad request",
+    401: {
+      description: "Unauthorized",
       content: {
         "application/json": {
           schema: ApiErrorSchema,
         },
       },
     },
-    401: {
-      description: "Unauthorized",
+    403: {
+      description: "Your role in the organization does not allow this",
       content: {
         "application/json": {
           schema: ApiErrorSchema,
@@ -305,22 +2951,29 @@ registry.registerPath({
 });
 
 registry.registerPath({
-  method: "get",
-  path: "/instances",
-  tags: ["Instances"],
-  summary: "List all instances for the authenticated user",
-  security: [{ bearerAuth: [] }],
+  method: "post",
+  path: "/billing/webhook",
+  tags: ["Billing"],
+  summary: "Handle Stripe webhook events",
   responses: {
     200: {
-      description: "List of instances",
+      description: "Webhook received",
       content: {
         "application/json": {
-          schema: InstanceListSchema,
+          schema: WebhookResponseSchema,
         },
       },
     },
-    401: {
-      description: "Unauthorized",
+    400: {
+      description: "Bad request",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    500: {
+      description: "Server configuration error",
       content: {
         "application/json": {
           schema: ApiErrorSchema,
@@ -330,21 +2983,22 @@ registry.registerPath({
   },
 });
 
+// ============================================================================
+// ADMIN ROUTES
+// ============================================================================
+
 registry.registerPath({
   method: "get",
-  path: "/instances/{id}",
-  tags: ["Instances"],
-  summary: "Get an instance by ID",
+  path: "/admin/reconcile",
+  tags: ["Admin"],
+  summary: "Report orphaned and missing provider resources without changing anything",
   security: [{ bearerAuth: [] }],
-  request: {
-    params: InstanceIdParamSchema,
-  },
   responses: {
     200: {
-      description: "Instance details",
+      description: "Dry-run reconcile report",
       content: {
         "application/json": {
-          schema: InstanceSchema,
+          schema: ReconcileReportSchema,
         },
       },
     },
@@ -356,8 +3010,8 @@ registry.registerPath({
         },
       },
     },
-    404: {
-      description: "Instance not found",
+    403: {
+      description: "Admin access required",
       content: {
         "application/json": {
           schema: ApiErrorSchema,
@@ -368,35 +3022,17 @@ registry.registerPath({
 });
 
 registry.registerPath({
-  method: "patch",
-  path: "/instances/{id}",
-  tags: ["Instances"],
-  summary: "Update an instance (must be stopped)",
+  method: "get",
+  path: "/admin/image-versions",
+  tags: ["Admin"],
+  summary: "List the OpenClaw versions approved for instances",
   security: [{ bearerAuth: [] }],
-  request: {
-    params: InstanceIdParamSchema,
-    body: {
-      content: {
-        "application/json": {
-          schema: UpdateInstanceRequestSchema,
-        },
-      },
-    },
-  },
   responses: {
     200: {
-      description: "Instance updated",
+      description: "Approved versions",
       content: {
         "application/json": {
-          schema: InstanceSchema,
-        },
-      },
-    },
-    400: {
-      description: "Bad request (instance must be stopped)",
-      content: {
-        "application/json": {
-          schema: ApiErrorSchema,
+          schema: ImageVersionListSchema,
         },
       },
     },
@@ -408,8 +3044,8 @@ registry.registerPath({
         },
       },
     },
-    404: {
-      description: "Instance not found",
+    403: {
+      description: "Admin access required",
       content: {
         "application/json": {
           schema: ApiErrorSchema,
@@ -421,40 +3057,46 @@ registry.registerPath({
 
 registry.registerPath({
   method: "post",
-  path: "/instances/{id}/start",
-  tags: ["Instances"],
-  summary: "Start a stopped instance",
+  path: "/admin/image-versions",
+  tags: ["Admin"],
+  summary: "Approve an OpenClaw version, optionally making it the default for new instances",
   security: [{ bearerAuth: [] }],
   request: {
-    params: InstanceIdParamSchema,
+    body: {
+      content: {
+        "application/json": {
+          schema: CreateImageVersionRequestSchema,
+        },
+      },
+    },
   },
   responses: {
-    200: {
-      description: "Instance started",
+    201: {
+      description: "Version approved",
       content: {
         "application/json": {
-          schema: InstanceSchema,
+          schema: ImageVersionSchema,
         },
       },
     },
-    400: {
-      description: "Bad request",
+    401: {
+      description: "Unauthorized",
       content: {
         "application/json": {
           schema: ApiErrorSchema,
         },
       },
     },
-    401: {
-      description: "Unauthorized",
+    403: {
+      description: "Admin access required",
       content: {
         "application/json": {
           schema: ApiErrorSchema,
         },
       },
     },
-    404: {
-      description: "Instance not found",
+    409: {
+      description: "Conflict",
       content: {
         "application/json": {
           schema: ApiErrorSchema,
@@ -466,32 +3108,32 @@ registry.registerPath({
 
 registry.registerPath({
   method: "post",
-  path: "/instances/{id}/stop",
-  tags: ["Instances"],
-  summary: "Stop a running instance",
+  path: "/admin/image-versions/{version}/default",
+  tags: ["Admin"],
+  summary: "Make an approved OpenClaw version the default for new instances",
   security: [{ bearerAuth: [] }],
   request: {
-    params: InstanceIdParamSchema,
+    params: ImageVersionParamSchema,
   },
   responses: {
     200: {
-      description: "Instance stopped",
+      description: "Default version changed",
       content: {
         "application/json": {
-          schema: InstanceSchema,
+          schema: ImageVersionSchema,
         },
       },
     },
-    400: {
-      description: "Bad request",
+    401: {
+      description: "Unauthorized",
       content: {
         "application/json": {
           schema: ApiErrorSchema,
         },
       },
     },
-    401: {
-      description: "Unauthorized",
+    403: {
+      description: "Admin access required",
       content: {
         "application/json": {
           schema: ApiErrorSchema,
@@ -499,7 +3141,7 @@ registry.registerPath({
       },
     },
     404: {
-      description: "Instance not found",
+      description: "Not found",
       content: {
         "application/json": {
           schema: ApiErrorSchema,
@@ -510,25 +3152,27 @@ registry.registerPath({
 });
 
 registry.registerPath({
-  method: "post",
-  path: "/instances/{id}/retry",
-  tags: ["Instances"],
-  summary: "Retry provisioning a failed instance",
+  method: "delete",
+  path: "/admin/image-versions/{version}",
+  tags: ["Admin"],
+  summary: "Withdraw an OpenClaw version",
+  description:
+    "New instances can no longer pin the version. Instances running it keep it until a rollout moves them.",
   security: [{ bearerAuth: [] }],
   request: {
-    params: InstanceIdParamSchema,
+    params: ImageVersionParamSchema,
   },
   responses: {
     200: {
-      description: "Instance retry started",
+      description: "Version withdrawn",
       content: {
         "application/json": {
-          schema: InstanceSchema,
+          schema: ApiSuccessSchema,
         },
       },
     },
     400: {
-      description: "Bad request (instance must be in failed state)",
+      description: "Bad request",
       content: {
         "application/json": {
           schema: ApiErrorSchema,
@@ -543,8 +3187,16 @@ registry.registerPath({
         },
       },
     },
+    403: {
+      description: "Admin access required",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
     404: {
-      description: "Instance not found",
+      description: "Not found",
       content: {
         "application/json": {
           schema: ApiErrorSchema,
@@ -555,28 +3207,17 @@ registry.registerPath({
 });
 
 registry.registerPath({
-  method: "delete",
-  path: "/instances/{id}",
-  tags: ["Instances"],
-  summary: "Delete an instance",
+  method: "get",
+  path: "/admin/rollouts",
+  tags: ["Admin"],
+  summary: "List rollouts of OpenClaw versions",
   security: [{ bearerAuth: [] }],
-  request: {
-    params: InstanceIdParamSchema,
-  },
   responses: {
     200: {
-      description: "Instance deleted",
-      content: {
-        "application/json": {
-          schema: ApiSuccessSchema,
-        },
-      },
-    },
-    400: {
-      description: "Bad request",
+      description: "Rollouts, newest first",
       content: {
         "application/json": {
-          schema: ApiErrorSchema,
+          schema: RolloutListSchema,
         },
       },
     },
@@ -588,8 +3229,8 @@ registry.registerPath({
         },
       },
     },
-    404: {
-      description: "Instance not found",
+    403: {
+      description: "Admin access required",
       content: {
         "application/json": {
           schema: ApiErrorSchema,
@@ -601,25 +3242,27 @@ registry.registerPath({
 
 registry.registerPath({
   method: "post",
-  path: "/instances/validate-telegram-token",
-  tags: ["Instances"],
-  summary: "Validate a Telegram bot token",
+  path: "/admin/rollouts",
+  tags: ["Admin"],
+  summary: "Roll out an OpenClaw version to running instances",
+  description:
+    "Redeploys running instances on the version a batch at a time, starting the next batch once the current one is healthy. If more than maxFailures upgrades fail, the rollout halts and rolls the upgraded instances back.",
   security: [{ bearerAuth: [] }],
   request: {
     body: {
       content: {
         "application/json": {
-          schema: ValidateTelegramTokenRequestSchema,
+          schema: CreateRolloutRequestSchema,
         },
       },
     },
   },
   responses: {
-    200: {
-      description: "Token validation result",
+    201: {
+      description: "Rollout started",
       content: {
         "application/json": {
-          schema: ValidateTelegramTokenResponseSchema,
+          schema: RolloutSchema,
         },
       },
     },
@@ -639,47 +3282,61 @@ registry.registerPath({
         },
       },
     },
+    403: {
+      description: "Admin access required",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
+    409: {
+      description: "Conflict",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
+        },
+      },
+    },
   },
 });
 
-// ============================================================================
-// BILLING ROUTES
-// ============================================================================
-
 registry.registerPath({
-  method: "post",
-  path: "/billing/checkout",
-  tags: ["Billing"],
-  summary: "Create Stripe Checkout session for subscription",
+  method: "get",
+  path: "/admin/rollouts/{id}",
+  tags: ["Admin"],
+  summary: "Get a rollout and the state of each of its instances",
   security: [{ bearerAuth: [] }],
   request: {
-    body: {
+    params: RolloutIdParamSchema,
+  },
+  responses: {
+    200: {
+      description: "Rollout",
       content: {
         "application/json": {
-          schema: CreateCheckoutRequestSchema,
+          schema: RolloutSchema,
         },
       },
     },
-  },
-  responses: {
-    200: {
-      description: "Checkout session created",
+    401: {
+      description: "Unauthorized",
       content: {
         "application/json": {
-          schema: CheckoutResponseSchema,
+          schema: ApiErrorSchema,
         },
       },
     },
-    400: {
-      description: "Bad request",
+    403: {
+      description: "Admin access required",
       content: {
         "application/json": {
           schema: ApiErrorSchema,
         },
       },
     },
-    401: {
-      description: "Unauthorized",
+    404: {
+      description: "Not found",
       content: {
         "application/json": {
           schema: ApiErrorSchema,
@@ -691,16 +3348,19 @@ registry.registerPath({
 
 registry.registerPath({
   method: "post",
-  path: "/billing/portal",
-  tags: ["Billing"],
-  summary: "Create Stripe Customer Portal session",
+  path: "/admin/rollouts/{id}/halt",
+  tags: ["Admin"],
+  summary: "Halt a rollout, leaving upgraded instances on the new version",
   security: [{ bearerAuth: [] }],
+  request: {
+    params: RolloutIdParamSchema,
+  },
   responses: {
     200: {
-      description: "Portal session created",
+      description: "Rollout halted",
       content: {
         "application/json": {
-          schema: PortalResponseSchema,
+          schema: RolloutSchema,
         },
       },
     },
@@ -720,26 +3380,16 @@ registry.registerPath({
         },
       },
     },
-  },
-});
-
-registry.registerPath({
-  method: "get",
-  path: "/billing/invoices",
-  tags: ["Billing"],
-  summary: "Get invoice history from Stripe",
-  security: [{ bearerAuth: [] }],
-  responses: {
-    200: {
-      description: "List of invoices",
+    403: {
+      description: "Admin access required",
       content: {
         "application/json": {
-          schema: InvoiceListSchema,
+          schema: ApiErrorSchema,
         },
       },
     },
-    401: {
-      description: "Unauthorized",
+    404: {
+      description: "Not found",
       content: {
         "application/json": {
           schema: ApiErrorSchema,
@@ -750,17 +3400,28 @@ registry.registerPath({
 });
 
 registry.registerPath({
-  method: "get",
-  path: "/billing/subscription",
-  tags: ["Billing"],
-  summary: "Get current subscription status",
+  method: "post",
+  path: "/admin/rollouts/{id}/rollback",
+  tags: ["Admin"],
+  summary: "Roll back the instances a rollout upgraded",
   security: [{ bearerAuth: [] }],
+  request: {
+    params: RolloutIdParamSchema,
+  },
   responses: {
     200: {
-      description: "Subscription status",
+      description: "Rollback started",
       content: {
         "application/json": {
-          schema: SubscriptionResponseSchema,
+          schema: RolloutSchema,
+        },
+      },
+    },
+    400: {
+      description: "Bad request",
+      content: {
+        "application/json": {
+          schema: ApiErrorSchema,
         },
       },
     },
@@ -772,33 +3433,24 @@ registry.registerPath({
         },
       },
     },
-  },
-});
-
-registry.registerPath({
-  method: "post",
-  path: "/billing/webhook",
-  tags: ["Billing"],
-  summary: "Handle Stripe webhook events",
-  responses: {
-    200: {
-      description: "Webhook received",
+    403: {
+      description: "Admin access required",
       content: {
         "application/json": {
-          schema: WebhookResponseSchema,
+          schema: ApiErrorSchema,
         },
       },
     },
-    400: {
-      description: "Bad request",
+    404: {
+      description: "Not found",
       content: {
         "application/json": {
           schema: ApiErrorSchema,
         },
       },
     },
-    500: {
-      description: "Server configuration error",
+    409: {
+      description: "Conflict",
       content: {
         "application/json": {
           schema: ApiErrorSchema,
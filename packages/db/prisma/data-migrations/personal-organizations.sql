@@ -0,0 +1,55 @@
+-- Moves instances and subscriptions from before organizations into a new
+-- personal organization of their user, as getDefaultMembership in apps/api
+-- does the first time a user without a membership needs one. Until then those
+-- rows belong to no organization, so no route lists them. Users who joined or
+-- created an organization before their first request had theirs left behind.
+--
+-- Runs after every db:push. Once a user's rows are moved there is nothing left
+-- to find, so it does nothing the next time. IDs look like the cuids Prisma
+-- generates.
+
+DO $$
+DECLARE
+  legacy RECORD;
+  organization_id TEXT;
+BEGIN
+  FOR legacy IN
+    SELECT u."id", u."email", u."name", u."stripeCustomerId"
+    FROM "User" u
+    WHERE EXISTS (
+        SELECT 1 FROM "Instance" i WHERE i."userId" = u."id" AND i."organizationId" IS NULL
+      )
+      OR EXISTS (
+        SELECT 1 FROM "Subscription" s WHERE s."userId" = u."id" AND s."organizationId" IS NULL
+      )
+  LOOP
+    organization_id := 'c' || substr(md5(random()::text || clock_timestamp()::text), 1, 24);
+
+    INSERT INTO "Organization" ("id", "name", "stripeCustomerId", "requireTwoFactor", "createdAt", "updatedAt")
+    VALUES (
+      organization_id,
+      COALESCE(NULLIF(legacy."name", ''), legacy."email"),
+      legacy."stripeCustomerId",
+      false,
+      now(),
+      now()
+    );
+
+    INSERT INTO "Membership" ("id", "organizationId", "userId", "role", "createdAt")
+    VALUES (
+      'c' || substr(md5(random()::text || clock_timestamp()::text), 1, 24),
+      organization_id,
+      legacy."id",
+      'owner',
+      now()
+    );
+
+    UPDATE "Instance"
+    SET "organizationId" = organization_id
+    WHERE "userId" = legacy."id" AND "organizationId" IS NULL;
+
+    UPDATE "Subscription"
+    SET "organizationId" = organization_id, "userId" = NULL
+    WHERE "userId" = legacy."id" AND "organizationId" IS NULL;
+  END LOOP;
+END $$;
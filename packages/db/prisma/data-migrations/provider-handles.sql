@@ -0,0 +1,44 @@
+-- Copies the provider handles of instances created before providerResourceId
+-- and providerMeta into those columns, so they can still be started, stopped
+-- and deleted once `prisma db push` drops flyMachineId, flyAppName,
+-- dockerContainerId, dockerPort, kubernetesName and kubernetesNamespace.
+--
+-- Runs before every db:push. Rows that already have a providerMeta are left
+-- alone, and databases that never had the old columns are skipped.
+--
+-- Docker rows did not store their container name, so those containers are
+-- found by ID only.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = 'Instance' AND column_name = 'flyAppName'
+  ) THEN
+    RETURN;
+  END IF;
+
+  ALTER TABLE "Instance" ADD COLUMN IF NOT EXISTS "providerResourceId" TEXT;
+  ALTER TABLE "Instance" ADD COLUMN IF NOT EXISTS "providerMeta" JSONB;
+
+  UPDATE "Instance"
+  SET "providerResourceId" = "flyMachineId",
+      "providerMeta" = jsonb_build_object('appName', "flyAppName")
+  WHERE "provider" = 'fly' AND "flyAppName" IS NOT NULL AND "providerMeta" IS NULL;
+
+  UPDATE "Instance"
+  SET "providerResourceId" = "dockerContainerId",
+      "providerMeta" = jsonb_build_object('port', "dockerPort")
+  WHERE "provider" = 'docker' AND "dockerContainerId" IS NOT NULL AND "providerMeta" IS NULL;
+
+  -- Kubernetes columns came later than the Fly and Docker ones
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = 'Instance' AND column_name = 'kubernetesName'
+  ) THEN
+    UPDATE "Instance"
+    SET "providerResourceId" = "kubernetesName",
+        "providerMeta" = jsonb_build_object('namespace', "kubernetesNamespace")
+    WHERE "provider" = 'kubernetes' AND "kubernetesName" IS NOT NULL AND "providerMeta" IS NULL;
+  END IF;
+END $$;
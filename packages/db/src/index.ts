@@ -1,6 +1,23 @@
 export { prisma } from "./client.js";
-export { Prisma } from "@prisma/client";
-export type { User, Instance, Subscription } from "@prisma/client";
+export { Prisma, InstanceStatus } from "@prisma/client";
+export type {
+  User,
+  Instance,
+  InstanceJob,
+  InstanceEvent,
+  Subscription,
+  AccountDeletionAudit,
+  AiProviderKey,
+  InstanceChannel,
+  ImageVersion,
+  Rollout,
+  RolloutInstance,
+  Session,
+  PersonalAccessToken,
+  Organization,
+  Membership,
+  Invitation,
+} from "@prisma/client";
 
 // Encryption utilities
 export { encrypt, decrypt, maskToken, isEncryptionEnabled } from "./encryption.js";
@@ -5,11 +5,12 @@ import { encrypt, decrypt, isEncryptionEnabled } from "../encryption.js";
  * Configuration for fields that should be encrypted.
  * Maps model names to arrays of field names to encrypt.
  */
-const ENCRYPTED_FIELDS = {
+const ENCRYPTED_FIELDS: Partial<Record<Prisma.ModelName, readonly string[]>> = {
   Instance: ["telegramBotToken"],
-} as const;
-
-type ModelWithEncryption = keyof typeof ENCRYPTED_FIELDS;
+  InstanceChannel: ["botToken", "appToken"],
+  AiProviderKey: ["apiKey"],
+  User: ["twoFactorSecret"],
+};
 
 /**
  * Helper to encrypt fields in data object.
@@ -69,8 +70,8 @@ function decryptResultFields<T>(result: T, fields: readonly string[]): T {
 /**
  * Get encrypted fields for a model, or empty array if not configured.
  */
-function getEncryptedFields(model: ModelWithEncryption): readonly string[] {
-  return ENCRYPTED_FIELDS[model];
+function getEncryptedFields(model: string): readonly string[] {
+  return ENCRYPTED_FIELDS[model as Prisma.ModelName] ?? [];
 }
 
 /**
@@ -86,33 +87,33 @@ export function createEncryptionExtension() {
   return Prisma.defineExtension({
     name: "encryption",
     query: {
-      instance: {
-        async create({ args, query }) {
-          const fields = getEncryptedFields("Instance");
+      $allModels: {
+        async create({ model, args, query }) {
+          const fields = getEncryptedFields(model);
           if (fields.length > 0) {
             args.data = encryptDataFields(args.data, fields);
           }
           const result = await query(args);
           return decryptResultFields(result, fields);
         },
-        async update({ args, query }) {
-          const fields = getEncryptedFields("Instance");
+        async update({ model, args, query }) {
+          const fields = getEncryptedFields(model);
           if (fields.length > 0) {
             args.data = encryptDataFields(args.data, fields);
           }
           const result = await query(args);
           return decryptResultFields(result, fields);
         },
-        async updateMany({ args, query }) {
-          const fields = getEncryptedFields("Instance");
+        async updateMany({ model, args, query }) {
+          const fields = getEncryptedFields(model);
           if (fields.length > 0) {
             args.data = encryptDataFields(args.data as Record<string, unknown>, fields);
           }
           // updateMany returns a count, not records, so no decryption needed
           return query(args);
         },
-        async createMany({ args, query }) {
-          const fields = getEncryptedFields("Instance");
+        async createMany({ model, args, query }) {
+          const fields = getEncryptedFields(model);
           if (fields.length > 0) {
             if (Array.isArray(args.data)) {
               args.data = args.data.map((item) =>
@@ -128,8 +129,8 @@ export function createEncryptionExtension() {
           // createMany returns a count, not records, so no decryption needed
           return query(args);
         },
-        async upsert({ args, query }) {
-          const fields = getEncryptedFields("Instance");
+        async upsert({ model, args, query }) {
+          const fields = getEncryptedFields(model);
           if (fields.length > 0) {
             args.create = encryptDataFields(args.create, fields);
             args.update = encryptDataFields(args.update, fields);
@@ -137,18 +138,18 @@ export function createEncryptionExtension() {
           const result = await query(args);
           return decryptResultFields(result, fields);
         },
-        async findUnique({ args, query }) {
-          const fields = getEncryptedFields("Instance");
+        async findUnique({ model, args, query }) {
+          const fields = getEncryptedFields(model);
           const result = await query(args);
           return decryptResultFields(result, fields);
         },
-        async findFirst({ args, query }) {
-          const fields = getEncryptedFields("Instance");
+        async findFirst({ model, args, query }) {
+          const fields = getEncryptedFields(model);
           const result = await query(args);
           return decryptResultFields(result, fields);
         },
-        async findMany({ args, query }) {
-          const fields = getEncryptedFields("Instance");
+        async findMany({ model, args, query }) {
+          const fields = getEncryptedFields(model);
           const result = await query(args);
           return decryptResultFields(result, fields);
         },
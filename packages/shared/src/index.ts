@@ -32,13 +32,44 @@ export {
   LoginRequestSchema,
   UpdateProfileRequestSchema,
   UpdatePasswordRequestSchema,
+  ForgotPasswordRequestSchema,
+  ResetPasswordRequestSchema,
+  VerifyEmailRequestSchema,
+  TwoFactorLoginRequestSchema,
+  SessionTokensSchema,
   TokenResponseSchema,
+  TwoFactorChallengeSchema,
+  LoginResponseSchema,
+  RefreshTokenRequestSchema,
+  SessionSchema,
+  SessionListSchema,
+  SessionIdParamSchema,
+  AccountDeletionStatusSchema,
+  TwoFactorStatusSchema,
+  TwoFactorSetupSchema,
+  TwoFactorCodeRequestSchema,
+  RecoveryCodesSchema,
   type User,
   type RegisterRequest,
   type LoginRequest,
   type UpdateProfileRequest,
   type UpdatePasswordRequest,
+  type ForgotPasswordRequest,
+  type ResetPasswordRequest,
+  type VerifyEmailRequest,
+  type TwoFactorLoginRequest,
+  type SessionTokens,
   type TokenResponse,
+  type TwoFactorChallenge,
+  type LoginResponse,
+  type RefreshTokenRequest,
+  type Session,
+  type SessionList,
+  type AccountDeletionStatus,
+  type TwoFactorStatus,
+  type TwoFactorSetup,
+  type TwoFactorCodeRequest,
+  type RecoveryCodes,
 } from "./schemas/auth.js";
 
 // Instance schemas
@@ -49,6 +80,19 @@ export {
   CreateInstanceRequestSchema,
   UpdateInstanceRequestSchema,
   InstanceIdParamSchema,
+  InstanceJobTypeSchema,
+  InstanceJobStatusSchema,
+  InstanceJobSchema,
+  InstanceJobListSchema,
+  InstanceEventTypeSchema,
+  InstanceEventActorSchema,
+  InstanceEventSchema,
+  InstanceEventListResponseSchema,
+  InstanceLogLevelSchema,
+  InstanceLogEntrySchema,
+  InstanceLogsQuerySchema,
+  InstanceLogListResponseSchema,
+  InstanceVolumeSchema,
   ValidateTelegramTokenRequestSchema,
   ValidateTelegramTokenResponseSchema,
   type InstanceStatus,
@@ -57,6 +101,19 @@ export {
   type CreateInstanceRequest,
   type UpdateInstanceRequest,
   type InstanceIdParam,
+  type InstanceJobType,
+  type InstanceJobStatus,
+  type InstanceJob,
+  type InstanceJobList,
+  type InstanceEventType,
+  type InstanceEventActor,
+  type InstanceEvent,
+  type InstanceEventListResponse,
+  type InstanceLogLevel,
+  type InstanceLogEntry,
+  type InstanceLogsQuery,
+  type InstanceLogListResponse,
+  type InstanceVolume,
   type ValidateTelegramTokenRequest,
   type ValidateTelegramTokenResponse,
 } from "./schemas/instances.js";
@@ -64,6 +121,10 @@ export {
 // Billing schemas
 export {
   PlanTypeSchema,
+  EntitlementNameSchema,
+  PlanEntitlementsSchema,
+  EntitlementErrorSchema,
+  ForbiddenErrorSchema,
   PlanConfigSchema,
   PlansSchema,
   SubscriptionStatusSchema,
@@ -76,6 +137,10 @@ export {
   InvoiceListSchema,
   WebhookResponseSchema,
   type PlanType,
+  type EntitlementName,
+  type PlanEntitlements,
+  type EntitlementError,
+  type ForbiddenError,
   type PlanConfig,
   type Plans,
   type SubscriptionStatus,
@@ -88,3 +153,147 @@ export {
   type InvoiceList,
   type WebhookResponse,
 } from "./schemas/billing.js";
+
+// AI key schemas
+export {
+  AiKeyProviderSchema,
+  AiKeySourceSchema,
+  AiKeySchema,
+  AiKeyListSchema,
+  AiKeyProviderParamSchema,
+  SaveAiKeyRequestSchema,
+  type AiKeyProvider,
+  type AiKeySource,
+  type AiKey,
+  type AiKeyList,
+  type AiKeyProviderParam,
+  type SaveAiKeyRequest,
+} from "./schemas/ai-keys.js";
+
+// Access token schemas
+export {
+  AccessTokenScopeSchema,
+  AccessTokenSchema,
+  AccessTokenListSchema,
+  CreatedAccessTokenSchema,
+  AccessTokenIdParamSchema,
+  CreateAccessTokenRequestSchema,
+  type AccessTokenScope,
+  type AccessToken,
+  type AccessTokenList,
+  type CreatedAccessToken,
+  type CreateAccessTokenRequest,
+} from "./schemas/access-tokens.js";
+
+// Organization schemas
+export {
+  OrganizationRoleSchema,
+  OrganizationSchema,
+  OrganizationListSchema,
+  OrganizationIdParamSchema,
+  OrganizationHeaderSchema,
+  OrganizationMemberSchema,
+  OrganizationMemberListSchema,
+  OrganizationMemberParamSchema,
+  OrganizationInvitationSchema,
+  OrganizationInvitationListSchema,
+  OrganizationInvitationParamSchema,
+  CreateOrganizationRequestSchema,
+  UpdateOrganizationRequestSchema,
+  UpdateMemberRequestSchema,
+  CreateInvitationRequestSchema,
+  AcceptInvitationRequestSchema,
+  type OrganizationRole,
+  type Organization,
+  type OrganizationList,
+  type OrganizationMember,
+  type OrganizationMemberList,
+  type OrganizationInvitation,
+  type OrganizationInvitationList,
+  type CreateOrganizationRequest,
+  type UpdateOrganizationRequest,
+  type UpdateMemberRequest,
+  type CreateInvitationRequest,
+  type AcceptInvitationRequest,
+} from "./schemas/organizations.js";
+
+// Channel schemas
+export {
+  ChannelTypeSchema,
+  InstanceChannelSchema,
+  InstanceChannelListSchema,
+  InstanceChannelParamSchema,
+  ChannelInputSchema,
+  ValidateChannelResponseSchema,
+  TelegramDmPolicySchema,
+  TelegramGroupPolicySchema,
+  TelegramAccessSchema,
+  UpdateTelegramAccessSchema,
+  type ChannelType,
+  type InstanceChannel,
+  type InstanceChannelList,
+  type InstanceChannelParam,
+  type ChannelInput,
+  type ValidateChannelResponse,
+  type TelegramDmPolicy,
+  type TelegramGroupPolicy,
+  type TelegramAccess,
+  type UpdateTelegramAccess,
+} from "./schemas/channels.js";
+
+// AI model schemas
+export {
+  AiModelSchema,
+  AiModelListSchema,
+  type AiModel,
+  type AiModelList,
+} from "./schemas/models.js";
+
+// Provider schemas
+export {
+  ProviderCapabilitiesSchema,
+  ProviderInfoSchema,
+  ProviderListSchema,
+  type ProviderCapabilities,
+  type ProviderInfo,
+  type ProviderList,
+} from "./schemas/providers.js";
+
+// Admin schemas
+export {
+  ReconcileOrphanActionSchema,
+  ReconcileMissingActionSchema,
+  ReconcileProviderSummarySchema,
+  ReconcileOrphanSchema,
+  ReconcileMissingSchema,
+  ReconcileReportSchema,
+  ImageVersionTagSchema,
+  ImageVersionSchema,
+  ImageVersionListSchema,
+  CreateImageVersionRequestSchema,
+  ImageVersionParamSchema,
+  RolloutStatusSchema,
+  RolloutInstanceStatusSchema,
+  RolloutInstanceSchema,
+  RolloutSchema,
+  RolloutListSchema,
+  CreateRolloutRequestSchema,
+  RolloutIdParamSchema,
+  type ReconcileOrphanAction,
+  type ReconcileMissingAction,
+  type ReconcileProviderSummary,
+  type ReconcileOrphan,
+  type ReconcileMissing,
+  type ReconcileReport,
+  type ImageVersion,
+  type ImageVersionList,
+  type CreateImageVersionRequest,
+  type ImageVersionParam,
+  type RolloutStatus,
+  type RolloutInstanceStatus,
+  type RolloutInstance,
+  type Rollout,
+  type RolloutList,
+  type CreateRolloutRequest,
+  type RolloutIdParam,
+} from "./schemas/admin.js";
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import {
+  AccessTokenScopeSchema,
+  CreatedAccessTokenSchema,
+  CreateAccessTokenRequestSchema,
+} from "./access-tokens.js";
+
+describe("Access Token Schemas", () => {
+  describe("AccessTokenScopeSchema", () => {
+    it("should accept the supported scopes", () => {
+      expect(AccessTokenScopeSchema.safeParse("instances:read").success).toBe(true);
+      expect(AccessTokenScopeSchema.safeParse("instances:write").success).toBe(true);
+      expect(AccessTokenScopeSchema.safeParse("billing:read").success).toBe(true);
+    });
+
+    it("should reject unknown scopes", () => {
+      expect(AccessTokenScopeSchema.safeParse("billing:write").success).toBe(false);
+      expect(AccessTokenScopeSchema.safeParse("*").success).toBe(false);
+    });
+  });
+
+  describe("CreatedAccessTokenSchema", () => {
+    it("should accept a new token", () => {
+      const result = CreatedAccessTokenSchema.safeParse({
+        id: "cjld2cyuq0000t3rmniod1foy",
+        name: "Deploy script",
+        maskedToken: "fcp_AbCdEf...wxyz",
+        scopes: ["instances:read"],
+        expiresAt: null,
+        lastUsedAt: null,
+        createdAt: "2024-01-01T00:00:00.000Z",
+        token: "fcp_AbCdEfGhIjKlMnOpQrStUvWxYz0123456789abcdwxyz",
+      });
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe("CreateAccessTokenRequestSchema", () => {
+    it("should accept a name, scopes and an expiry", () => {
+      const result = CreateAccessTokenRequestSchema.safeParse({
+        name: "  Deploy script  ",
+        scopes: ["instances:read", "instances:write"],
+        expiresInDays: 90,
+      });
+      expect(result.success).toBe(true);
+      expect(result.data?.name).toBe("Deploy script");
+    });
+
+    it("should accept tokens that never expire", () => {
+      const result = CreateAccessTokenRequestSchema.safeParse({
+        name: "CI",
+        scopes: ["billing:read"],
+        expiresInDays: null,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should require at least one scope", () => {
+      const result = CreateAccessTokenRequestSchema.safeParse({
+        name: "CI",
+        scopes: [],
+        expiresInDays: 30,
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject expiries over a year", () => {
+      const result = CreateAccessTokenRequestSchema.safeParse({
+        name: "CI",
+        scopes: ["instances:read"],
+        expiresInDays: 400,
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+});
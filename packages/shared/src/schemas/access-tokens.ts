@@ -0,0 +1,58 @@
+import { z } from "zod";
+import { extendZodWithOpenApi } from "@asteasolutions/zod-to-openapi";
+
+extendZodWithOpenApi(z);
+
+// ============================================================================
+// Access Token Schemas
+// ============================================================================
+
+// What a personal access token may do; session tokens from the web app may do everything
+export const AccessTokenScopeSchema = z
+  .enum(["instances:read", "instances:write", "billing:read"])
+  .openapi("AccessTokenScope");
+
+export const AccessTokenSchema = z
+  .object({
+    id: z.string().cuid(),
+    name: z.string(),
+    maskedToken: z.string(), // Never the full token
+    scopes: z.array(AccessTokenScopeSchema),
+    expiresAt: z.string().datetime().nullable(), // Null for tokens that never expire
+    lastUsedAt: z.string().datetime().nullable(),
+    createdAt: z.string().datetime(),
+  })
+  .openapi("AccessToken");
+
+export const AccessTokenListSchema = z.array(AccessTokenSchema).openapi("AccessTokenList");
+
+// Returned once, when the token is created
+export const CreatedAccessTokenSchema = AccessTokenSchema.extend({
+  token: z.string(),
+}).openapi("CreatedAccessToken");
+
+export const AccessTokenIdParamSchema = z.object({
+  id: z.string().cuid(),
+});
+
+// ============================================================================
+// Access Token Request Schemas
+// ============================================================================
+
+export const CreateAccessTokenRequestSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(100),
+    scopes: z.array(AccessTokenScopeSchema).min(1, "Pick at least one scope"),
+    expiresInDays: z.number().int().min(1).max(365).nullable(), // Null for no expiry
+  })
+  .openapi("CreateAccessTokenRequest");
+
+// ============================================================================
+// Type Exports
+// ============================================================================
+
+export type AccessTokenScope = z.infer<typeof AccessTokenScopeSchema>;
+export type AccessToken = z.infer<typeof AccessTokenSchema>;
+export type AccessTokenList = z.infer<typeof AccessTokenListSchema>;
+export type CreatedAccessToken = z.infer<typeof CreatedAccessTokenSchema>;
+export type CreateAccessTokenRequest = z.infer<typeof CreateAccessTokenRequestSchema>;
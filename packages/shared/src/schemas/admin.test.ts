@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import {
+  ReconcileOrphanSchema,
+  ReconcileMissingSchema,
+  ReconcileReportSchema,
+  CreateImageVersionRequestSchema,
+  CreateRolloutRequestSchema,
+} from "./admin.js";
+
+const validOrphan = {
+  provider: "fly",
+  resourceId: "e784079b449483",
+  name: "openclaw-support-bot-1700000000000",
+  status: "RUNNING",
+  createdAt: "2024-01-15T10:30:00.000Z",
+  action: "destroy",
+  applied: false,
+  error: null,
+};
+
+const validMissing = {
+  instanceId: "cjld2cyuq0000t3rmniod1foz",
+  userId: "cjld2cyuq0000t3rmniod1foy",
+  provider: "docker",
+  providerResourceId: "abc123def456",
+  status: "STOPPED",
+  action: "report",
+  applied: false,
+  error: null,
+};
+
+describe("Admin Schemas", () => {
+  describe("ReconcileOrphanSchema", () => {
+    it("should accept a valid orphan", () => {
+      const result = ReconcileOrphanSchema.safeParse(validOrphan);
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept an orphan without a resource ID or creation time", () => {
+      const result = ReconcileOrphanSchema.safeParse({
+        ...validOrphan,
+        resourceId: null,
+        createdAt: null,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject an unknown action", () => {
+      const result = ReconcileOrphanSchema.safeParse({ ...validOrphan, action: "fail" });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("ReconcileMissingSchema", () => {
+    it("should accept a valid missing instance", () => {
+      const result = ReconcileMissingSchema.safeParse(validMissing);
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject an unknown action", () => {
+      const result = ReconcileMissingSchema.safeParse({ ...validMissing, action: "destroy" });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("ReconcileReportSchema", () => {
+    it("should accept a full report", () => {
+      const result = ReconcileReportSchema.safeParse({
+        dryRun: true,
+        generatedAt: "2024-01-15T10:30:00.000Z",
+        providers: [{ provider: "fly", resources: 3, instances: 2, error: null }],
+        orphans: [validOrphan],
+        missing: [validMissing],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject a provider summary without an error field", () => {
+      const result = ReconcileReportSchema.safeParse({
+        dryRun: true,
+        generatedAt: "2024-01-15T10:30:00.000Z",
+        providers: [{ provider: "fly", resources: 3, instances: 2 }],
+        orphans: [],
+        missing: [],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("CreateImageVersionRequestSchema", () => {
+    it("should accept an image tag and default to not being the default", () => {
+      const result = CreateImageVersionRequestSchema.safeParse({ version: "2026.2.1" });
+      expect(result.success).toBe(true);
+      expect(result.data?.isDefault).toBe(false);
+    });
+
+    it("should reject a full image reference", () => {
+      const result = CreateImageVersionRequestSchema.safeParse({
+        version: "ghcr.io/openclaw/openclaw:2026.2.1",
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("CreateRolloutRequestSchema", () => {
+    it("should default the batch size and tolerate no failures", () => {
+      const result = CreateRolloutRequestSchema.safeParse({ version: "2026.2.1" });
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ batchSize: 5, maxFailures: 0 });
+    });
+
+    it("should reject an empty batch", () => {
+      const result = CreateRolloutRequestSchema.safeParse({ version: "2026.2.1", batchSize: 0 });
+      expect(result.success).toBe(false);
+    });
+  });
+});
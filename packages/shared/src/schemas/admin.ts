@@ -0,0 +1,191 @@
+import { z } from "zod";
+import { extendZodWithOpenApi } from "@asteasolutions/zod-to-openapi";
+import { InstanceStatusSchema } from "./instances.js";
+
+extendZodWithOpenApi(z);
+
+// ============================================================================
+// Reconciliation Schemas
+// ============================================================================
+
+export const ReconcileOrphanActionSchema = z
+  .enum(["report", "destroy"])
+  .openapi("ReconcileOrphanAction");
+
+export const ReconcileMissingActionSchema = z
+  .enum(["report", "fail"])
+  .openapi("ReconcileMissingAction");
+
+export const ReconcileProviderSummarySchema = z
+  .object({
+    provider: z.string(),
+    resources: z.number().int(), // Resources found on the provider
+    instances: z.number().int(), // Live instance rows on this provider
+    error: z.string().nullable(), // Set when the provider could not be listed
+  })
+  .openapi("ReconcileProviderSummary");
+
+// A provider resource no instance row points at
+export const ReconcileOrphanSchema = z
+  .object({
+    provider: z.string(),
+    resourceId: z.string().nullable(), // Null for e.g. a Fly app without machines
+    name: z.string(),
+    status: InstanceStatusSchema,
+    createdAt: z.string().datetime().nullable(),
+    action: ReconcileOrphanActionSchema,
+    applied: z.boolean(), // False in a dry run or when the action failed
+    error: z.string().nullable(),
+  })
+  .openapi("ReconcileOrphan");
+
+// An instance row whose provider resource no longer exists
+export const ReconcileMissingSchema = z
+  .object({
+    instanceId: z.string(),
+    userId: z.string(),
+    provider: z.string(),
+    providerResourceId: z.string(),
+    status: InstanceStatusSchema,
+    action: ReconcileMissingActionSchema,
+    applied: z.boolean(),
+    error: z.string().nullable(),
+  })
+  .openapi("ReconcileMissing");
+
+export const ReconcileReportSchema = z
+  .object({
+    dryRun: z.boolean(),
+    generatedAt: z.string().datetime(),
+    providers: z.array(ReconcileProviderSummarySchema),
+    orphans: z.array(ReconcileOrphanSchema),
+    missing: z.array(ReconcileMissingSchema),
+  })
+  .openapi("ReconcileReport");
+
+// ============================================================================
+// Image Version Schemas
+// ============================================================================
+
+// A Docker image tag, e.g. "2026.2.1"
+export const ImageVersionTagSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_][A-Za-z0-9_.-]{0,127}$/, "Must be a valid image tag");
+
+export const ImageVersionSchema = z
+  .object({
+    version: ImageVersionTagSchema,
+    notes: z.string().nullable(),
+    isDefault: z.boolean(), // New instances get the default version
+    instances: z.number().int(), // Live instances running this version
+    createdBy: z.string(),
+    createdAt: z.string().datetime(),
+  })
+  .openapi("ImageVersion");
+
+export const ImageVersionListSchema = z.array(ImageVersionSchema).openapi("ImageVersionList");
+
+export const CreateImageVersionRequestSchema = z
+  .object({
+    version: ImageVersionTagSchema,
+    notes: z.string().max(500).optional(),
+    isDefault: z.boolean().default(false),
+  })
+  .openapi("CreateImageVersionRequest");
+
+export const ImageVersionParamSchema = z
+  .object({
+    version: ImageVersionTagSchema,
+  })
+  .openapi("ImageVersionParam");
+
+// ============================================================================
+// Rollout Schemas
+// ============================================================================
+
+export const RolloutStatusSchema = z
+  .enum(["RUNNING", "HALTED", "ROLLING_BACK", "COMPLETED", "ROLLED_BACK"])
+  .openapi("RolloutStatus");
+
+export const RolloutInstanceStatusSchema = z
+  .enum([
+    "PENDING",
+    "UPGRADING",
+    "HEALTHY",
+    "FAILED",
+    "SKIPPED", // Stopped or deleted before its batch, or the rollout halted first
+    "ROLLING_BACK",
+    "ROLLED_BACK",
+    "ROLLBACK_FAILED",
+  ])
+  .openapi("RolloutInstanceStatus");
+
+export const RolloutInstanceSchema = z
+  .object({
+    instanceId: z.string(),
+    batch: z.number().int(), // 0-based
+    previousVersion: z.string(),
+    status: RolloutInstanceStatusSchema,
+    error: z.string().nullable(),
+    updatedAt: z.string().datetime(),
+  })
+  .openapi("RolloutInstance");
+
+export const RolloutSchema = z
+  .object({
+    id: z.string(),
+    targetVersion: z.string(),
+    batchSize: z.number().int(),
+    maxFailures: z.number().int(),
+    status: RolloutStatusSchema,
+    currentBatch: z.number().int(), // 0-based
+    batches: z.number().int(),
+    haltReason: z.string().nullable(),
+    createdBy: z.string(),
+    instances: z.array(RolloutInstanceSchema),
+    completedAt: z.string().datetime().nullable(),
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+  })
+  .openapi("Rollout");
+
+export const RolloutListSchema = z.array(RolloutSchema).openapi("RolloutList");
+
+export const CreateRolloutRequestSchema = z
+  .object({
+    version: ImageVersionTagSchema, // Must be approved
+    batchSize: z.number().int().min(1).max(100).default(5),
+    // Failed upgrades tolerated before the rollout halts and rolls back
+    maxFailures: z.number().int().min(0).default(0),
+    provider: z.string().optional(), // Only upgrade instances on this provider
+    fromVersions: z.array(ImageVersionTagSchema).optional(), // Only upgrade instances on these versions
+  })
+  .openapi("CreateRolloutRequest");
+
+export const RolloutIdParamSchema = z
+  .object({
+    id: z.string().cuid(),
+  })
+  .openapi("RolloutIdParam");
+
+// ============================================================================
+// Type Exports
+// ============================================================================
+
+export type ReconcileOrphanAction = z.infer<typeof ReconcileOrphanActionSchema>;
+export type ReconcileMissingAction = z.infer<typeof ReconcileMissingActionSchema>;
+export type ReconcileProviderSummary = z.infer<typeof ReconcileProviderSummarySchema>;
+export type ReconcileOrphan = z.infer<typeof ReconcileOrphanSchema>;
+export type ReconcileMissing = z.infer<typeof ReconcileMissingSchema>;
+export type ReconcileReport = z.infer<typeof ReconcileReportSchema>;
+export type ImageVersion = z.infer<typeof ImageVersionSchema>;
+export type ImageVersionList = z.infer<typeof ImageVersionListSchema>;
+export type CreateImageVersionRequest = z.infer<typeof CreateImageVersionRequestSchema>;
+export type ImageVersionParam = z.infer<typeof ImageVersionParamSchema>;
+export type RolloutStatus = z.infer<typeof RolloutStatusSchema>;
+export type RolloutInstanceStatus = z.infer<typeof RolloutInstanceStatusSchema>;
+export type RolloutInstance = z.infer<typeof RolloutInstanceSchema>;
+export type Rollout = z.infer<typeof RolloutSchema>;
+export type RolloutList = z.infer<typeof RolloutListSchema>;
+export type CreateRolloutRequest = z.infer<typeof CreateRolloutRequestSchema>;
+export type RolloutIdParam = z.infer<typeof RolloutIdParamSchema>;
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import {
+  AiKeyProviderSchema,
+  AiKeySourceSchema,
+  AiKeySchema,
+  SaveAiKeyRequestSchema,
+} from "./ai-keys.js";
+
+describe("AI Key Schemas", () => {
+  describe("AiKeyProviderSchema", () => {
+    it("should accept supported providers", () => {
+      expect(AiKeyProviderSchema.safeParse("openai").success).toBe(true);
+      expect(AiKeyProviderSchema.safeParse("anthropic").success).toBe(true);
+      expect(AiKeyProviderSchema.safeParse("google").success).toBe(true);
+    });
+
+    it("should reject unknown providers", () => {
+      expect(AiKeyProviderSchema.safeParse("mistral").success).toBe(false);
+    });
+  });
+
+  describe("AiKeySourceSchema", () => {
+    it("should accept platform and own", () => {
+      expect(AiKeySourceSchema.safeParse("platform").success).toBe(true);
+      expect(AiKeySourceSchema.safeParse("own").success).toBe(true);
+    });
+
+    it("should reject anything else", () => {
+      expect(AiKeySourceSchema.safeParse("shared").success).toBe(false);
+    });
+  });
+
+  describe("AiKeySchema", () => {
+    it("should accept a masked key", () => {
+      const result = AiKeySchema.safeParse({
+        provider: "anthropic",
+        maskedKey: "sk-ant-api...wxyz",
+        createdAt: "2024-01-01T00:00:00.000Z",
+        updatedAt: "2024-01-01T00:00:00.000Z",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject a missing provider", () => {
+      const result = AiKeySchema.safeParse({
+        maskedKey: "sk-ant-api...wxyz",
+        createdAt: "2024-01-01T00:00:00.000Z",
+        updatedAt: "2024-01-01T00:00:00.000Z",
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("SaveAiKeyRequestSchema", () => {
+    it("should trim the key", () => {
+      const result = SaveAiKeyRequestSchema.safeParse({ apiKey: "  sk-test-123  " });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.apiKey).toBe("sk-test-123");
+      }
+    });
+
+    it("should reject a blank key", () => {
+      const result = SaveAiKeyRequestSchema.safeParse({ apiKey: "   " });
+      expect(result.success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { extendZodWithOpenApi } from "@asteasolutions/zod-to-openapi";
+
+extendZodWithOpenApi(z);
+
+// ============================================================================
+// AI Key Schemas
+// ============================================================================
+
+export const AiKeyProviderSchema = z
+  .enum(["openai", "anthropic", "google"])
+  .openapi("AiKeyProvider");
+
+// Whose key an instance uses: the platform's or the user's own
+export const AiKeySourceSchema = z.enum(["platform", "own"]).openapi("AiKeySource");
+
+export const AiKeySchema = z
+  .object({
+    provider: AiKeyProviderSchema,
+    maskedKey: z.string(), // Never the full key
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+  })
+  .openapi("AiKey");
+
+export const AiKeyListSchema = z.array(AiKeySchema).openapi("AiKeyList");
+
+export const AiKeyProviderParamSchema = z
+  .object({
+    provider: AiKeyProviderSchema,
+  })
+  .openapi("AiKeyProviderParam");
+
+// ============================================================================
+// AI Key Request Schemas
+// ============================================================================
+
+export const SaveAiKeyRequestSchema = z
+  .object({
+    apiKey: z.string().trim().min(1, "API key is required"),
+  })
+  .openapi("SaveAiKeyRequest");
+
+// ============================================================================
+// Type Exports
+// ============================================================================
+
+export type AiKeyProvider = z.infer<typeof AiKeyProviderSchema>;
+export type AiKeySource = z.infer<typeof AiKeySourceSchema>;
+export type AiKey = z.infer<typeof AiKeySchema>;
+export type AiKeyList = z.infer<typeof AiKeyListSchema>;
+export type AiKeyProviderParam = z.infer<typeof AiKeyProviderParamSchema>;
+export type SaveAiKeyRequest = z.infer<typeof SaveAiKeyRequestSchema>;
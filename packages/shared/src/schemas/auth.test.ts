@@ -5,7 +5,11 @@ import {
   LoginRequestSchema,
   UpdateProfileRequestSchema,
   UpdatePasswordRequestSchema,
+  ResetPasswordRequestSchema,
   TokenResponseSchema,
+  LoginResponseSchema,
+  SessionSchema,
+  AccountDeletionStatusSchema,
 } from "./auth.js";
 
 describe("Auth Schemas", () => {
@@ -15,6 +19,7 @@ describe("Auth Schemas", () => {
         id: "clh1234567890abcdefghijkl",
         email: "test@example.com",
         name: "Test User",
+        emailVerified: true,
         createdAt: "2024-01-01T00:00:00.000Z",
         updatedAt: "2024-01-01T00:00:00.000Z",
       });
@@ -26,6 +31,7 @@ describe("Auth Schemas", () => {
         id: "clh1234567890abcdefghijkl",
         email: "test@example.com",
         name: null,
+        emailVerified: true,
         createdAt: "2024-01-01T00:00:00.000Z",
         updatedAt: "2024-01-01T00:00:00.000Z",
       });
@@ -37,6 +43,7 @@ describe("Auth Schemas", () => {
         id: "invalid-id",
         email: "test@example.com",
         name: "Test User",
+        emailVerified: true,
         createdAt: "2024-01-01T00:00:00.000Z",
         updatedAt: "2024-01-01T00:00:00.000Z",
       });
@@ -48,6 +55,7 @@ describe("Auth Schemas", () => {
         id: "clh1234567890abcdefghijkl",
         email: "invalid-email",
         name: "Test User",
+        emailVerified: true,
         createdAt: "2024-01-01T00:00:00.000Z",
         updatedAt: "2024-01-01T00:00:00.000Z",
       });
@@ -59,6 +67,7 @@ describe("Auth Schemas", () => {
         id: "clh1234567890abcdefghijkl",
         email: "test@example.com",
         name: "Test User",
+        emailVerified: true,
         createdAt: "not-a-datetime",
         updatedAt: "2024-01-01T00:00:00.000Z",
       });
@@ -331,14 +340,35 @@ describe("Auth Schemas", () => {
     });
   });
 
+  describe("ResetPasswordRequestSchema", () => {
+    it("should accept a token and a new password", () => {
+      const result = ResetPasswordRequestSchema.safeParse({
+        token: "eyJzdWIiOiJ1c2VyIn0.c2lnbmF0dXJl",
+        newPassword: "newpassword123",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject a short new password", () => {
+      const result = ResetPasswordRequestSchema.safeParse({
+        token: "eyJzdWIiOiJ1c2VyIn0.c2lnbmF0dXJl",
+        newPassword: "short",
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
   describe("TokenResponseSchema", () => {
     it("should accept valid token response", () => {
       const result = TokenResponseSchema.safeParse({
         accessToken: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
+        refreshToken: "cjld2cyuq0000t3rmniod1foy.c2VjcmV0",
+        expiresIn: 900,
         user: {
           id: "clh1234567890abcdefghijkl",
           email: "test@example.com",
           name: "Test User",
+          emailVerified: true,
           createdAt: "2024-01-01T00:00:00.000Z",
           updatedAt: "2024-01-01T00:00:00.000Z",
         },
@@ -349,10 +379,13 @@ describe("Auth Schemas", () => {
     it("should accept token response with null user name", () => {
       const result = TokenResponseSchema.safeParse({
         accessToken: "token123",
+        refreshToken: "refresh123",
+        expiresIn: 900,
         user: {
           id: "clh1234567890abcdefghijkl",
           email: "test@example.com",
           name: null,
+          emailVerified: true,
           createdAt: "2024-01-01T00:00:00.000Z",
           updatedAt: "2024-01-01T00:00:00.000Z",
         },
@@ -363,10 +396,13 @@ describe("Auth Schemas", () => {
     it("should reject empty access token", () => {
       const result = TokenResponseSchema.safeParse({
         accessToken: "",
+        refreshToken: "refresh123",
+        expiresIn: 900,
         user: {
           id: "clh1234567890abcdefghijkl",
           email: "test@example.com",
           name: "Test User",
+          emailVerified: true,
           createdAt: "2024-01-01T00:00:00.000Z",
           updatedAt: "2024-01-01T00:00:00.000Z",
         },
@@ -377,10 +413,13 @@ describe("Auth Schemas", () => {
     it("should reject invalid user object", () => {
       const result = TokenResponseSchema.safeParse({
         accessToken: "token123",
+        refreshToken: "refresh123",
+        expiresIn: 900,
         user: {
           id: "invalid-id",
           email: "invalid-email",
           name: "Test User",
+          emailVerified: true,
           createdAt: "2024-01-01T00:00:00.000Z",
           updatedAt: "2024-01-01T00:00:00.000Z",
         },
@@ -394,6 +433,7 @@ describe("Auth Schemas", () => {
           id: "clh1234567890abcdefghijkl",
           email: "test@example.com",
           name: "Test User",
+          emailVerified: true,
           createdAt: "2024-01-01T00:00:00.000Z",
           updatedAt: "2024-01-01T00:00:00.000Z",
         },
@@ -404,6 +444,85 @@ describe("Auth Schemas", () => {
     it("should reject missing user", () => {
       const result = TokenResponseSchema.safeParse({
         accessToken: "token123",
+        refreshToken: "refresh123",
+        expiresIn: 900,
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject missing refreshToken", () => {
+      const result = TokenResponseSchema.safeParse({
+        accessToken: "token123",
+        expiresIn: 900,
+        user: {
+          id: "clh1234567890abcdefghijkl",
+          email: "test@example.com",
+          name: "Test User",
+          emailVerified: true,
+          createdAt: "2024-01-01T00:00:00.000Z",
+          updatedAt: "2024-01-01T00:00:00.000Z",
+        },
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("SessionSchema", () => {
+    it("should accept a session without device metadata", () => {
+      const result = SessionSchema.safeParse({
+        id: "clh1234567890abcdefghijkl",
+        device: "Unknown device",
+        userAgent: null,
+        ipAddress: null,
+        current: true,
+        lastUsedAt: "2024-01-01T00:00:00.000Z",
+        expiresAt: "2024-01-31T00:00:00.000Z",
+        createdAt: "2024-01-01T00:00:00.000Z",
+      });
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe("LoginResponseSchema", () => {
+    it("should accept a two-factor challenge", () => {
+      const result = LoginResponseSchema.safeParse({
+        twoFactorRequired: true,
+        challengeToken: "eyJzdWIiOiJjbGgxMjM0In0.c2lnbmF0dXJl",
+        expiresIn: 300,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject a challenge without a token", () => {
+      const result = LoginResponseSchema.safeParse({
+        twoFactorRequired: true,
+        expiresIn: 300,
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("AccountDeletionStatusSchema", () => {
+    it("should accept a scheduled deletion", () => {
+      const result = AccountDeletionStatusSchema.safeParse({
+        deletionRequestedAt: "2024-01-01T00:00:00.000Z",
+        deletionScheduledFor: "2024-01-31T00:00:00.000Z",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept an account that is not being deleted", () => {
+      const result = AccountDeletionStatusSchema.safeParse({
+        deletionRequestedAt: null,
+        deletionScheduledFor: null,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject an invalid date", () => {
+      const result = AccountDeletionStatusSchema.safeParse({
+        deletionRequestedAt: "yesterday",
+        deletionScheduledFor: null,
       });
       expect(result.success).toBe(false);
     });
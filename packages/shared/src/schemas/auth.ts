@@ -12,6 +12,7 @@ export const UserSchema = z
     id: z.string().cuid(),
     email: z.string().email(),
     name: z.string().nullable(),
+    emailVerified: z.boolean(),
     createdAt: z.string().datetime(),
     updatedAt: z.string().datetime(),
   })
@@ -49,16 +50,128 @@ export const UpdatePasswordRequestSchema = z
   })
   .openapi("UpdatePasswordRequest");
 
+export const ForgotPasswordRequestSchema = z
+  .object({
+    email: z.string().email(),
+  })
+  .openapi("ForgotPasswordRequest");
+
+export const ResetPasswordRequestSchema = z
+  .object({
+    token: z.string().min(1), // From the link in the reset email
+    newPassword: z.string().min(8, "Password must be at least 8 characters"),
+  })
+  .openapi("ResetPasswordRequest");
+
+export const VerifyEmailRequestSchema = z
+  .object({
+    token: z.string().min(1), // From the link in the verification email
+  })
+  .openapi("VerifyEmailRequest");
+
+export const TwoFactorLoginRequestSchema = z
+  .object({
+    challengeToken: z.string().min(1), // From the login response
+    code: z.string().min(1), // From the authenticator app, or a recovery code
+  })
+  .openapi("TwoFactorLoginRequest");
+
 // ============================================================================
 // Auth Response Schemas
 // ============================================================================
 
-export const TokenResponseSchema = z
+export const SessionTokensSchema = z
+  .object({
+    accessToken: z.string(), // Short-lived JWT for the Authorization header
+    refreshToken: z.string(), // Exchanged at POST /auth/refresh; rotated on every use
+    expiresIn: z.number().int(), // Seconds until the access token expires
+  })
+  .openapi("SessionTokens");
+
+export const TokenResponseSchema = SessionTokensSchema.extend({
+  user: UserSchema,
+}).openapi("TokenResponse");
+
+// Returned by POST /auth/login instead of tokens when the account has two-factor
+// authentication on; the code is sent to POST /auth/login/two-factor
+export const TwoFactorChallengeSchema = z
+  .object({
+    twoFactorRequired: z.literal(true),
+    challengeToken: z.string(),
+    expiresIn: z.number().int(), // Seconds the challenge can be answered for
+  })
+  .openapi("TwoFactorChallenge");
+
+export const LoginResponseSchema = z
+  .union([TokenResponseSchema, TwoFactorChallengeSchema])
+  .openapi("LoginResponse");
+
+export const RefreshTokenRequestSchema = z
+  .object({
+    refreshToken: z.string().min(1),
+  })
+  .openapi("RefreshTokenRequest");
+
+export const AccountDeletionStatusSchema = z
+  .object({
+    deletionRequestedAt: z.string().datetime().nullable(),
+    deletionScheduledFor: z.string().datetime().nullable(), // Purged after this unless restored
+  })
+  .openapi("AccountDeletionStatus");
+
+// ============================================================================
+// Session Schemas
+// ============================================================================
+
+export const SessionSchema = z
+  .object({
+    id: z.string().cuid(),
+    device: z.string(), // e.g. "Chrome on macOS", derived from the user agent
+    userAgent: z.string().nullable(),
+    ipAddress: z.string().nullable(),
+    current: z.boolean(), // The session making the request
+    lastUsedAt: z.string().datetime(),
+    expiresAt: z.string().datetime(),
+    createdAt: z.string().datetime(), // When the device signed in
+  })
+  .openapi("Session");
+
+export const SessionListSchema = z.array(SessionSchema).openapi("SessionList");
+
+export const SessionIdParamSchema = z.object({
+  id: z.string().cuid(),
+});
+
+// ============================================================================
+// Two-Factor Schemas
+// ============================================================================
+
+export const TwoFactorStatusSchema = z
+  .object({
+    enabled: z.boolean(),
+    required: z.boolean(), // An organization the user belongs to requires it; it cannot be turned off
+    recoveryCodesRemaining: z.number().int(),
+  })
+  .openapi("TwoFactorStatus");
+
+export const TwoFactorSetupSchema = z
+  .object({
+    secret: z.string(), // Base32, for entering the key by hand
+    otpauthUri: z.string(), // otpauth://totp/... for the QR code
+  })
+  .openapi("TwoFactorSetup");
+
+export const TwoFactorCodeRequestSchema = z
+  .object({
+    code: z.string().min(1), // From the authenticator app, or a recovery code
+  })
+  .openapi("TwoFactorCodeRequest");
+
+export const RecoveryCodesSchema = z
   .object({
-    accessToken: z.string(),
-    user: UserSchema,
+    recoveryCodes: z.array(z.string()), // Shown once; each works a single time
   })
-  .openapi("TokenResponse");
+  .openapi("RecoveryCodes");
 
 // ============================================================================
 // Type Exports
@@ -69,4 +182,19 @@ export type RegisterRequest = z.infer<typeof RegisterRequestSchema>;
 export type LoginRequest = z.infer<typeof LoginRequestSchema>;
 export type UpdateProfileRequest = z.infer<typeof UpdateProfileRequestSchema>;
 export type UpdatePasswordRequest = z.infer<typeof UpdatePasswordRequestSchema>;
+export type ForgotPasswordRequest = z.infer<typeof ForgotPasswordRequestSchema>;
+export type ResetPasswordRequest = z.infer<typeof ResetPasswordRequestSchema>;
+export type VerifyEmailRequest = z.infer<typeof VerifyEmailRequestSchema>;
+export type TwoFactorLoginRequest = z.infer<typeof TwoFactorLoginRequestSchema>;
+export type SessionTokens = z.infer<typeof SessionTokensSchema>;
 export type TokenResponse = z.infer<typeof TokenResponseSchema>;
+export type TwoFactorChallenge = z.infer<typeof TwoFactorChallengeSchema>;
+export type LoginResponse = z.infer<typeof LoginResponseSchema>;
+export type RefreshTokenRequest = z.infer<typeof RefreshTokenRequestSchema>;
+export type Session = z.infer<typeof SessionSchema>;
+export type SessionList = z.infer<typeof SessionListSchema>;
+export type AccountDeletionStatus = z.infer<typeof AccountDeletionStatusSchema>;
+export type TwoFactorStatus = z.infer<typeof TwoFactorStatusSchema>;
+export type TwoFactorSetup = z.infer<typeof TwoFactorSetupSchema>;
+export type TwoFactorCodeRequest = z.infer<typeof TwoFactorCodeRequestSchema>;
+export type RecoveryCodes = z.infer<typeof RecoveryCodesSchema>;
@@ -1,6 +1,9 @@
 import { describe, it, expect } from "vitest";
 import {
   PlanTypeSchema,
+  PlanEntitlementsSchema,
+  EntitlementErrorSchema,
+  ForbiddenErrorSchema,
   PlanConfigSchema,
   PlansSchema,
   SubscriptionStatusSchema,
@@ -52,6 +55,64 @@ describe("Billing Schemas", () => {
     });
   });
 
+  describe("PlanEntitlementsSchema", () => {
+    const entitlements = {
+      models: ["claude-sonnet-4-0", "gpt-4o-mini"],
+      regions: "all",
+      maxInstances: 2,
+      logRetentionDays: 1,
+      byoKeys: true,
+      customImages: false,
+      volumeSizeGb: 1,
+    };
+
+    it("should accept model and region lists or 'all'", () => {
+      expect(PlanEntitlementsSchema.safeParse(entitlements).success).toBe(true);
+      expect(
+        PlanEntitlementsSchema.safeParse({ ...entitlements, models: "all", regions: ["iad"] })
+          .success
+      ).toBe(true);
+    });
+
+    it("should reject other model wildcards", () => {
+      const result = PlanEntitlementsSchema.safeParse({ ...entitlements, models: "*" });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject a zero log retention", () => {
+      const result = PlanEntitlementsSchema.safeParse({ ...entitlements, logRetentionDays: 0 });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("EntitlementErrorSchema", () => {
+    it("should accept an error naming the entitlement", () => {
+      const result = EntitlementErrorSchema.safeParse({
+        error: "Region syd is not included in the starter plan",
+        entitlement: "regions",
+        plan: "starter",
+        allowed: ["iad", "lax", "lhr"],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject an unknown entitlement", () => {
+      const result = EntitlementErrorSchema.safeParse({
+        error: "Nope",
+        entitlement: "gpus",
+        plan: null,
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("ForbiddenErrorSchema", () => {
+    it("should accept a plain error too", () => {
+      const result = ForbiddenErrorSchema.safeParse({ error: "Active subscription required" });
+      expect(result.success).toBe(true);
+    });
+  });
+
   describe("PlanConfigSchema", () => {
     it("should accept valid plan config", () => {
       const result = PlanConfigSchema.safeParse({
@@ -265,7 +326,7 @@ describe("Billing Schemas", () => {
     it("should accept valid subscription", () => {
       const result = SubscriptionSchema.safeParse({
         id: "clh1234567890abcdefghijkl",
-        userId: "clh9876543210zyxwvutsrqpo",
+        organizationId: "clh9876543210zyxwvutsrqpo",
         stripeCustomerId: "cus_123456789",
         stripeSubscriptionId: "sub_123456789",
         status: "ACTIVE",
@@ -282,7 +343,7 @@ describe("Billing Schemas", () => {
     it("should accept null plan", () => {
       const result = SubscriptionSchema.safeParse({
         id: "clh1234567890abcdefghijkl",
-        userId: "clh9876543210zyxwvutsrqpo",
+        organizationId: "clh9876543210zyxwvutsrqpo",
         stripeCustomerId: "cus_123456789",
         stripeSubscriptionId: "sub_123456789",
         status: "INCOMPLETE",
@@ -299,7 +360,7 @@ describe("Billing Schemas", () => {
     it("should accept null currentPeriodStart", () => {
       const result = SubscriptionSchema.safeParse({
         id: "clh1234567890abcdefghijkl",
-        userId: "clh9876543210zyxwvutsrqpo",
+        organizationId: "clh9876543210zyxwvutsrqpo",
         stripeCustomerId: "cus_123456789",
         stripeSubscriptionId: "sub_123456789",
         status: "TRIALING",
@@ -316,7 +377,7 @@ describe("Billing Schemas", () => {
     it("should accept cancelAtPeriodEnd as true", () => {
       const result = SubscriptionSchema.safeParse({
         id: "clh1234567890abcdefghijkl",
-        userId: "clh9876543210zyxwvutsrqpo",
+        organizationId: "clh9876543210zyxwvutsrqpo",
         stripeCustomerId: "cus_123456789",
         stripeSubscriptionId: "sub_123456789",
         status: "ACTIVE",
@@ -333,7 +394,7 @@ describe("Billing Schemas", () => {
     it("should reject invalid CUID for id", () => {
       const result = SubscriptionSchema.safeParse({
         id: "invalid-id",
-        userId: "clh9876543210zyxwvutsrqpo",
+        organizationId: "clh9876543210zyxwvutsrqpo",
         stripeCustomerId: "cus_123456789",
         stripeSubscriptionId: "sub_123456789",
         status: "ACTIVE",
@@ -350,7 +411,7 @@ describe("Billing Schemas", () => {
     it("should reject invalid datetime", () => {
       const result = SubscriptionSchema.safeParse({
         id: "clh1234567890abcdefghijkl",
-        userId: "clh9876543210zyxwvutsrqpo",
+        organizationId: "clh9876543210zyxwvutsrqpo",
         stripeCustomerId: "cus_123456789",
         stripeSubscriptionId: "sub_123456789",
         status: "ACTIVE",
@@ -476,7 +537,7 @@ describe("Billing Schemas", () => {
       const result = SubscriptionResponseSchema.safeParse({
         subscription: {
           id: "clh1234567890abcdefghijkl",
-          userId: "clh9876543210zyxwvutsrqpo",
+          organizationId: "clh9876543210zyxwvutsrqpo",
           stripeCustomerId: "cus_123456789",
           stripeSubscriptionId: "sub_123456789",
           status: "ACTIVE",
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { extendZodWithOpenApi } from "@asteasolutions/zod-to-openapi";
+import { ApiErrorSchema } from "./common.js";
 
 extendZodWithOpenApi(z);
 
@@ -9,13 +10,52 @@ extendZodWithOpenApi(z);
 
 export const PlanTypeSchema = z.enum(["starter", "pro", "enterprise"]);
 
+// ============================================================================
+// Entitlement Schemas
+// ============================================================================
+
+export const EntitlementNameSchema = z
+  .enum(["models", "regions", "maxInstances", "logRetentionDays", "byoKeys", "customImages"])
+  .openapi("EntitlementName");
+
+export const PlanEntitlementsSchema = z
+  .object({
+    models: z.union([z.literal("all"), z.array(z.string())]), // Model ids from GET /models
+    regions: z.union([z.literal("all"), z.array(z.string())]),
+    maxInstances: z.number().int(), // -1 for unlimited
+    logRetentionDays: z.number().int().positive(), // How far back instance logs can be read
+    byoKeys: z.boolean(), // Instances may use the user's own AI keys
+    customImages: z.boolean(), // Instances may run a custom OpenClaw image
+    volumeSizeGb: z.number().int().positive(), // Persistent volume each instance gets
+  })
+  .openapi("PlanEntitlements");
+
+// 403 for a request the plan does not cover, naming the entitlement that blocked it
+export const EntitlementErrorSchema = z
+  .object({
+    error: z.string(),
+    entitlement: EntitlementNameSchema,
+    plan: PlanTypeSchema.nullable(),
+    allowed: z.array(z.string()).optional(), // For models and regions
+    limit: z.number().int().optional(), // For maxInstances
+  })
+  .openapi("EntitlementError");
+
+export const ForbiddenErrorSchema = z
+  .union([EntitlementErrorSchema, ApiErrorSchema])
+  .openapi("ForbiddenError");
+
 export const PlanConfigSchema = z
   .object({
     name: z.string(),
     priceId: z.string(),
     price: z.number(),
+    // Cheaper variant for users who bring their own AI keys; absent if not offered
+    byoKeyPriceId: z.string().optional(),
+    byoKeyPrice: z.number().optional(),
     instanceLimit: z.number(),
     features: z.array(z.string()),
+    entitlements: PlanEntitlementsSchema.optional(),
   })
   .openapi("PlanConfig");
 
@@ -44,7 +84,7 @@ export const SubscriptionStatusSchema = z.enum([
 export const SubscriptionSchema = z
   .object({
     id: z.string().cuid(),
-    userId: z.string().cuid(),
+    organizationId: z.string().cuid(),
     stripeCustomerId: z.string(),
     stripeSubscriptionId: z.string(),
     status: z.string(),
@@ -53,6 +93,7 @@ export const SubscriptionSchema = z
     currentPeriodStart: z.string().datetime().nullable(),
     currentPeriodEnd: z.string().datetime(),
     cancelAtPeriodEnd: z.boolean(),
+    byoKey: z.boolean().default(false), // Billed at the bring-your-own-key price
     createdAt: z.string().datetime(),
     updatedAt: z.string().datetime(),
   })
@@ -65,6 +106,7 @@ export const SubscriptionSchema = z
 export const CreateCheckoutRequestSchema = z
   .object({
     plan: PlanTypeSchema,
+    byoKey: z.boolean().default(false), // Subscribe at the bring-your-own-key price
   })
   .openapi("CreateCheckoutRequest");
 
@@ -120,6 +162,10 @@ export const WebhookResponseSchema = z
 // ============================================================================
 
 export type PlanType = z.infer<typeof PlanTypeSchema>;
+export type EntitlementName = z.infer<typeof EntitlementNameSchema>;
+export type PlanEntitlements = z.infer<typeof PlanEntitlementsSchema>;
+export type EntitlementError = z.infer<typeof EntitlementErrorSchema>;
+export type ForbiddenError = z.infer<typeof ForbiddenErrorSchema>;
 export type PlanConfig = z.infer<typeof PlanConfigSchema>;
 export type Plans = z.infer<typeof PlansSchema>;
 export type SubscriptionStatus = z.infer<typeof SubscriptionStatusSchema>;
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import {
+  ChannelTypeSchema,
+  ChannelInputSchema,
+  InstanceChannelSchema,
+  ValidateChannelResponseSchema,
+  TelegramAccessSchema,
+  UpdateTelegramAccessSchema,
+} from "./channels.js";
+
+describe("Channel Schemas", () => {
+  describe("ChannelTypeSchema", () => {
+    it("should accept supported channels", () => {
+      expect(ChannelTypeSchema.safeParse("telegram").success).toBe(true);
+      expect(ChannelTypeSchema.safeParse("discord").success).toBe(true);
+      expect(ChannelTypeSchema.safeParse("slack").success).toBe(true);
+    });
+
+    it("should reject unknown channels", () => {
+      expect(ChannelTypeSchema.safeParse("whatsapp").success).toBe(false);
+    });
+  });
+
+  describe("ChannelInputSchema", () => {
+    it("should accept a bot token", () => {
+      const result = ChannelInputSchema.safeParse({ type: "discord", botToken: " MTA.abc " });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.botToken).toBe("MTA.abc");
+      }
+    });
+
+    it("should require an app token for Slack", () => {
+      const result = ChannelInputSchema.safeParse({ type: "slack", botToken: "xoxb-1" });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject an empty bot token", () => {
+      const result = ChannelInputSchema.safeParse({ type: "telegram", botToken: "" });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe("Bot token is required");
+      }
+    });
+  });
+
+  describe("InstanceChannelSchema", () => {
+    it("should accept a channel with a masked token", () => {
+      const result = InstanceChannelSchema.safeParse({
+        id: "clh1234567890abcdefghijk",
+        type: "telegram",
+        maskedToken: "1234...wxyz",
+        createdAt: "2024-01-01T00:00:00.000Z",
+        updatedAt: "2024-01-01T00:00:00.000Z",
+      });
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe("ValidateChannelResponseSchema", () => {
+    it("should accept a failed validation", () => {
+      const result = ValidateChannelResponseSchema.safeParse({
+        valid: false,
+        error: "Discord rejected this bot token",
+      });
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe("TelegramAccessSchema", () => {
+    it("should accept user IDs and usernames", () => {
+      const result = TelegramAccessSchema.safeParse({
+        dmPolicy: "allowlist",
+        allowFrom: ["123456789", "@support_team"],
+        groupPolicy: "disabled",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject a malformed user", () => {
+      const result = TelegramAccessSchema.safeParse({
+        dmPolicy: "allowlist",
+        allowFrom: ["support team"],
+        groupPolicy: "disabled",
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject an unknown DM policy", () => {
+      const result = UpdateTelegramAccessSchema.safeParse({ dmPolicy: "everyone" });
+      expect(result.success).toBe(false);
+    });
+
+    it("should accept a partial update", () => {
+      const result = UpdateTelegramAccessSchema.safeParse({ groupPolicy: "open" });
+      expect(result.success).toBe(true);
+    });
+  });
+});
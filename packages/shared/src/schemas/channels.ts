@@ -0,0 +1,106 @@
+import { z } from "zod";
+import { extendZodWithOpenApi } from "@asteasolutions/zod-to-openapi";
+
+extendZodWithOpenApi(z);
+
+// ============================================================================
+// Channel Schemas
+// ============================================================================
+
+// Chat platforms an instance can answer on
+export const ChannelTypeSchema = z.enum(["telegram", "discord", "slack"]).openapi("ChannelType");
+
+export const InstanceChannelSchema = z
+  .object({
+    id: z.string().cuid(),
+    type: ChannelTypeSchema,
+    maskedToken: z.string(), // The bot token, never in full
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+  })
+  .openapi("InstanceChannel");
+
+export const InstanceChannelListSchema = z
+  .array(InstanceChannelSchema)
+  .openapi("InstanceChannelList");
+
+export const InstanceChannelParamSchema = z
+  .object({
+    id: z.string(),
+    type: ChannelTypeSchema,
+  })
+  .openapi("InstanceChannelParam");
+
+// ============================================================================
+// Channel Request Schemas
+// ============================================================================
+
+const botToken = z.string().trim().min(1, "Bot token is required");
+
+// A channel with its credentials, as attached to an instance or validated
+export const ChannelInputSchema = z
+  .discriminatedUnion("type", [
+    z.object({ type: z.literal("telegram"), botToken }),
+    z.object({ type: z.literal("discord"), botToken }),
+    z.object({
+      type: z.literal("slack"),
+      botToken, // xoxb-...
+      appToken: z.string().trim().min(1, "App token is required"), // xapp-..., for Socket Mode
+    }),
+  ])
+  .openapi("ChannelInput");
+
+export const ValidateChannelResponseSchema = z
+  .object({
+    valid: z.boolean(),
+    botName: z.string().optional(), // The bot's name on the platform
+    error: z.string().optional(),
+  })
+  .openapi("ValidateChannelResponse");
+
+// ============================================================================
+// Telegram Access Schemas
+// ============================================================================
+
+// Who may message the bot directly: "pairing" answers strangers with a code the
+// owner approves, "allowlist" only answers allowFrom, "open" answers anyone
+export const TelegramDmPolicySchema = z
+  .enum(["pairing", "allowlist", "open", "disabled"])
+  .openapi("TelegramDmPolicy");
+
+// Which group chats the bot answers in: "allowlist" only answers allowFrom members
+export const TelegramGroupPolicySchema = z
+  .enum(["allowlist", "open", "disabled"])
+  .openapi("TelegramGroupPolicy");
+
+const telegramUser = z
+  .string()
+  .trim()
+  .regex(/^(\d+|@[A-Za-z0-9_]{5,32})$/, "Use a numeric Telegram user ID or an @username");
+
+export const TelegramAccessSchema = z
+  .object({
+    dmPolicy: TelegramDmPolicySchema,
+    allowFrom: z.array(telegramUser).max(100), // User IDs or @usernames
+    groupPolicy: TelegramGroupPolicySchema,
+  })
+  .openapi("TelegramAccess");
+
+// Fields left out keep their current value
+export const UpdateTelegramAccessSchema =
+  TelegramAccessSchema.partial().openapi("UpdateTelegramAccess");
+
+// ============================================================================
+// Type Exports
+// ============================================================================
+
+export type ChannelType = z.infer<typeof ChannelTypeSchema>;
+export type InstanceChannel = z.infer<typeof InstanceChannelSchema>;
+export type InstanceChannelList = z.infer<typeof InstanceChannelListSchema>;
+export type InstanceChannelParam = z.infer<typeof InstanceChannelParamSchema>;
+export type ChannelInput = z.infer<typeof ChannelInputSchema>;
+export type ValidateChannelResponse = z.infer<typeof ValidateChannelResponseSchema>;
+export type TelegramDmPolicy = z.infer<typeof TelegramDmPolicySchema>;
+export type TelegramGroupPolicy = z.infer<typeof TelegramGroupPolicySchema>;
+export type TelegramAccess = z.infer<typeof TelegramAccessSchema>;
+export type UpdateTelegramAccess = z.infer<typeof UpdateTelegramAccessSchema>;
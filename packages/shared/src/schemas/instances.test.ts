@@ -5,6 +5,9 @@ import {
   InstanceListSchema,
   CreateInstanceRequestSchema,
   InstanceIdParamSchema,
+  InstanceJobSchema,
+  InstanceEventSchema,
+  InstanceLogsQuerySchema,
 } from "./instances.js";
 
 describe("Instance Schemas", () => {
@@ -340,6 +343,17 @@ describe("Instance Schemas", () => {
       expect(result.success).toBe(true);
     });
 
+    it("should accept channels to attach", () => {
+      const result = CreateInstanceRequestSchema.safeParse({
+        name: "My New Instance",
+        channels: [
+          { type: "telegram", botToken: "123456:ABC" },
+          { type: "slack", botToken: "xoxb-1", appToken: "xapp-1" },
+        ],
+      });
+      expect(result.success).toBe(true);
+    });
+
     it("should apply default region when not provided", () => {
       const result = CreateInstanceRequestSchema.safeParse({
         name: "My New Instance",
@@ -499,4 +513,109 @@ describe("Instance Schemas", () => {
       expect(result.success).toBe(true);
     });
   });
+
+  describe("InstanceJobSchema", () => {
+    const validJob = {
+      id: "clh1234567890abcdefghijk",
+      instanceId: "clh0987654321zyxwvutsrqp",
+      type: "CREATE",
+      status: "PENDING",
+      attempts: 0,
+      maxAttempts: 3,
+      lastError: null,
+      runAt: "2024-01-01T00:00:00.000Z",
+      completedAt: null,
+      createdAt: "2024-01-01T00:00:00.000Z",
+      updatedAt: "2024-01-01T00:00:00.000Z",
+    };
+
+    it("should validate a pending job", () => {
+      const result = InstanceJobSchema.safeParse(validJob);
+      expect(result.success).toBe(true);
+    });
+
+    it("should validate a failed job with error and completion time", () => {
+      const result = InstanceJobSchema.safeParse({
+        ...validJob,
+        status: "FAILED",
+        attempts: 3,
+        lastError: "Rate limited by Fly.io, please try again later",
+        completedAt: "2024-01-01T00:05:00.000Z",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject non-integer attempts", () => {
+      const result = InstanceJobSchema.safeParse({ ...validJob, attempts: 1.5 });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("InstanceEventSchema", () => {
+    const validEvent = {
+      id: "clh1234567890abcdefghijk",
+      instanceId: "clh0987654321zyxwvutsrqp",
+      type: "STATUS_CHANGE",
+      actor: "USER",
+      actorId: "clh1111111111aaaaaaaaaaa",
+      fromStatus: "RUNNING",
+      toStatus: "STOPPING",
+      message: null,
+      createdAt: "2024-01-01T00:00:00.000Z",
+    };
+
+    it("should validate a status change event", () => {
+      const result = InstanceEventSchema.safeParse(validEvent);
+      expect(result.success).toBe(true);
+    });
+
+    it("should validate an error event without statuses", () => {
+      const result = InstanceEventSchema.safeParse({
+        ...validEvent,
+        type: "ERROR",
+        actor: "SYSTEM",
+        actorId: null,
+        fromStatus: null,
+        toStatus: null,
+        message: "CREATE attempt 1/3 failed: Rate limited by Fly.io, please try again later",
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject unknown statuses", () => {
+      const result = InstanceEventSchema.safeParse({ ...validEvent, toStatus: "pending" });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject unknown actors", () => {
+      const result = InstanceEventSchema.safeParse({ ...validEvent, actor: "ADMIN" });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("InstanceLogsQuerySchema", () => {
+    it("should default to the last 100 lines without following", () => {
+      const result = InstanceLogsQuerySchema.parse({});
+      expect(result).toEqual({ tail: 100, follow: false });
+    });
+
+    it("should coerce query string values", () => {
+      const result = InstanceLogsQuerySchema.parse({
+        since: "2024-01-01T00:00:00.000Z",
+        tail: "50",
+        follow: "true",
+      });
+      expect(result).toEqual({ since: "2024-01-01T00:00:00.000Z", tail: 50, follow: true });
+    });
+
+    it("should reject tail above 1000", () => {
+      const result = InstanceLogsQuerySchema.safeParse({ tail: "5000" });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject non-boolean follow", () => {
+      const result = InstanceLogsQuerySchema.safeParse({ follow: "yes" });
+      expect(result.success).toBe(false);
+    });
+  });
 });
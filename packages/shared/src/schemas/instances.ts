@@ -1,5 +1,12 @@
 import { z } from "zod";
 import { extendZodWithOpenApi } from "@asteasolutions/zod-to-openapi";
+import { PaginationMetaSchema } from "./common.js";
+import { AiKeySourceSchema } from "./ai-keys.js";
+import {
+  ChannelInputSchema,
+  TelegramAccessSchema,
+  UpdateTelegramAccessSchema,
+} from "./channels.js";
 
 extendZodWithOpenApi(z);
 
@@ -7,17 +14,21 @@ extendZodWithOpenApi(z);
 // Instance Status Enum
 // ============================================================================
 
-export const InstanceStatusSchema = z.enum([
-  "CREATING",
-  "PROVISIONING",
-  "STARTING",
-  "RUNNING",
-  "STOPPING",
-  "STOPPED",
-  "FAILED",
-  "DELETED",
-  "UNKNOWN",
-]);
+// Mirrors the InstanceStatus enum in packages/db/prisma/schema.prisma
+export const InstanceStatusSchema = z
+  .enum([
+    "CREATING",
+    "PROVISIONING",
+    "STARTING",
+    "RUNNING",
+    "STOPPING",
+    "STOPPED",
+    "FAILED",
+    "DELETING",
+    "DELETED",
+    "UNKNOWN",
+  ])
+  .openapi("InstanceStatus");
 
 // ============================================================================
 // Instance Schemas
@@ -26,17 +37,19 @@ export const InstanceStatusSchema = z.enum([
 export const InstanceSchema = z
   .object({
     id: z.string().cuid(),
-    userId: z.string().cuid(),
+    userId: z.string().cuid(), // Who created the instance
+    organizationId: z.string().cuid().nullable().default(null), // Who owns it
     name: z.string(),
-    provider: z.string(), // "fly" or "docker"
-    flyAppName: z.string().nullable(),
-    flyMachineId: z.string().nullable(),
-    dockerContainerId: z.string().nullable(),
-    dockerPort: z.number().nullable(),
-    status: z.string(),
+    provider: z.string(), // "fly", "docker", "kubernetes" or "fake"
+    providerResourceId: z.string().nullable(), // Null until the instance is provisioned
+    providerMeta: z.record(z.string(), z.union([z.string(), z.number(), z.boolean(), z.null()])),
+    status: InstanceStatusSchema,
     region: z.string(),
     aiModel: z.string(),
-    telegramBotToken: z.string().nullable(),
+    aiKeySource: AiKeySourceSchema.default("platform"),
+    imageVersion: z.string(), // OpenClaw image tag the instance runs
+    volumeSizeGb: z.number().int().nullable(), // Null for instances created before volumes
+    telegramAccess: TelegramAccessSchema, // Who may talk to the Telegram bot
     ipAddress: z.string().nullable(),
     createdAt: z.string().datetime(),
     updatedAt: z.string().datetime(),
@@ -52,17 +65,26 @@ export const InstanceListSchema = z.array(InstanceSchema).openapi("InstanceList"
 export const CreateInstanceRequestSchema = z
   .object({
     name: z.string().min(1, "Name is required").max(50, "Name must be 50 characters or less"),
-    telegramBotToken: z.string().min(1, "Telegram bot token is required"),
+    // At least one channel is required; telegramBotToken is shorthand for a Telegram channel
+    channels: z.array(ChannelInputSchema).optional(),
+    telegramBotToken: z.string().min(1, "Telegram bot token is required").optional(),
     region: z.string().default("lax"),
-    aiModel: z.string().default("claude-sonnet-4-0"),
+    aiModel: z.string().default("claude-sonnet-4-0"), // An available id from GET /models
+    aiKeySource: AiKeySourceSchema.default("platform"),
+    // An approved OpenClaw version; defaults to the default version. Pinning
+    // another one needs the customImages entitlement
+    imageVersion: z.string().optional(),
   })
   .openapi("CreateInstanceRequest");
 
 export const UpdateInstanceRequestSchema = z
   .object({
     name: z.string().min(1).max(50).optional(),
-    telegramBotToken: z.string().min(1).optional(),
+    telegramBotToken: z.string().min(1).optional(), // Replaces the Telegram channel's token
     aiModel: z.string().optional(),
+    aiKeySource: AiKeySourceSchema.optional(),
+    telegramAccess: UpdateTelegramAccessSchema.optional(),
+    region: z.string().optional(), // Fixed at creation; only accepted unchanged
   })
   .openapi("UpdateInstanceRequest");
 
@@ -72,6 +94,124 @@ export const InstanceIdParamSchema = z
   })
   .openapi("InstanceIdParam");
 
+// ============================================================================
+// Provisioning Job Schemas
+// ============================================================================
+
+export const InstanceJobTypeSchema = z.enum([
+  "CREATE",
+  "RETRY",
+  "START",
+  "STOP",
+  "DELETE",
+  "RESTART",
+  "RECONFIGURE",
+  "REDEPLOY",
+]);
+
+export const InstanceJobStatusSchema = z.enum([
+  "PENDING",
+  "RUNNING",
+  "SUCCEEDED",
+  "FAILED",
+  "CANCELED",
+]);
+
+export const InstanceJobSchema = z
+  .object({
+    id: z.string().cuid(),
+    instanceId: z.string().cuid(),
+    type: z.string(),
+    status: z.string(),
+    attempts: z.number().int(),
+    maxAttempts: z.number().int(),
+    lastError: z.string().nullable(),
+    runAt: z.string().datetime(),
+    completedAt: z.string().datetime().nullable(),
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+  })
+  .openapi("InstanceJob");
+
+export const InstanceJobListSchema = z.array(InstanceJobSchema).openapi("InstanceJobList");
+
+// ============================================================================
+// Instance Event Schemas
+// ============================================================================
+
+export const InstanceEventTypeSchema = z.enum(["STATUS_CHANGE", "PROVIDER_CALL", "ERROR"]);
+
+export const InstanceEventActorSchema = z.enum(["USER", "SYSTEM", "SYNC", "WEBHOOK"]);
+
+// OpenAPI 3.0 only treats an enum as nullable when null is one of its values
+const NullableInstanceStatusSchema = z
+  .enum(InstanceStatusSchema.options)
+  .nullable()
+  .openapi({ enum: [...InstanceStatusSchema.options, null] });
+
+export const InstanceEventSchema = z
+  .object({
+    id: z.string().cuid(),
+    instanceId: z.string().cuid(),
+    type: InstanceEventTypeSchema,
+    actor: InstanceEventActorSchema,
+    actorId: z.string().nullable(),
+    fromStatus: NullableInstanceStatusSchema,
+    toStatus: NullableInstanceStatusSchema,
+    message: z.string().nullable(),
+    createdAt: z.string().datetime(),
+  })
+  .openapi("InstanceEvent");
+
+export const InstanceEventListResponseSchema = z
+  .object({
+    events: z.array(InstanceEventSchema),
+    pagination: PaginationMetaSchema,
+  })
+  .openapi("InstanceEventListResponse");
+
+// ============================================================================
+// Instance Log Schemas
+// ============================================================================
+
+export const InstanceLogLevelSchema = z.enum(["debug", "info", "warn", "error"]);
+
+export const InstanceLogEntrySchema = z
+  .object({
+    timestamp: z.string().datetime(),
+    level: InstanceLogLevelSchema,
+    message: z.string(),
+  })
+  .openapi("InstanceLogEntry");
+
+export const InstanceLogsQuerySchema = z.object({
+  since: z.string().datetime().optional(),
+  tail: z.coerce.number().int().min(1).max(1000).default(100),
+  follow: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+});
+
+export const InstanceLogListResponseSchema = z
+  .object({
+    logs: z.array(InstanceLogEntrySchema),
+  })
+  .openapi("InstanceLogListResponse");
+
+// ============================================================================
+// Instance Volume Schemas
+// ============================================================================
+
+// The persistent volume holding an instance's memory and workspace
+export const InstanceVolumeSchema = z
+  .object({
+    sizeGb: z.number().int(),
+    usedBytes: z.number().int().nullable(), // Null when the provider cannot tell right now
+    mountPath: z.string(),
+  })
+  .openapi("InstanceVolume");
+
 // ============================================================================
 // Telegram Validation Schemas
 // ============================================================================
@@ -101,5 +241,18 @@ export type InstanceList = z.infer<typeof InstanceListSchema>;
 export type CreateInstanceRequest = z.infer<typeof CreateInstanceRequestSchema>;
 export type UpdateInstanceRequest = z.infer<typeof UpdateInstanceRequestSchema>;
 export type InstanceIdParam = z.infer<typeof InstanceIdParamSchema>;
+export type InstanceJobType = z.infer<typeof InstanceJobTypeSchema>;
+export type InstanceJobStatus = z.infer<typeof InstanceJobStatusSchema>;
+export type InstanceJob = z.infer<typeof InstanceJobSchema>;
+export type InstanceJobList = z.infer<typeof InstanceJobListSchema>;
+export type InstanceEventType = z.infer<typeof InstanceEventTypeSchema>;
+export type InstanceEventActor = z.infer<typeof InstanceEventActorSchema>;
+export type InstanceEvent = z.infer<typeof InstanceEventSchema>;
+export type InstanceEventListResponse = z.infer<typeof InstanceEventListResponseSchema>;
+export type InstanceLogLevel = z.infer<typeof InstanceLogLevelSchema>;
+export type InstanceLogEntry = z.infer<typeof InstanceLogEntrySchema>;
+export type InstanceLogsQuery = z.infer<typeof InstanceLogsQuerySchema>;
+export type InstanceLogListResponse = z.infer<typeof InstanceLogListResponseSchema>;
+export type InstanceVolume = z.infer<typeof InstanceVolumeSchema>;
 export type ValidateTelegramTokenRequest = z.infer<typeof ValidateTelegramTokenRequestSchema>;
 export type ValidateTelegramTokenResponse = z.infer<typeof ValidateTelegramTokenResponseSchema>;
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { AiModelSchema, AiModelListSchema } from "./models.js";
+
+const validModel = {
+  id: "claude-sonnet-4-0",
+  vendor: "anthropic",
+  displayName: "Claude Sonnet 4",
+  contextWindow: 200000,
+  plans: ["starter", "pro", "enterprise"],
+  deprecatedAt: null,
+  available: true,
+};
+
+describe("AI Model Schemas", () => {
+  describe("AiModelSchema", () => {
+    it("should accept a valid model", () => {
+      const result = AiModelSchema.safeParse(validModel);
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept a deprecation date", () => {
+      const result = AiModelSchema.safeParse({
+        ...validModel,
+        deprecatedAt: "2025-10-22T00:00:00.000Z",
+        available: false,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject an unknown vendor", () => {
+      const result = AiModelSchema.safeParse({ ...validModel, vendor: "mistral" });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject an unknown plan", () => {
+      const result = AiModelSchema.safeParse({ ...validModel, plans: ["free"] });
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject a non-positive context window", () => {
+      const result = AiModelSchema.safeParse({ ...validModel, contextWindow: 0 });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("AiModelListSchema", () => {
+    it("should accept a list of models", () => {
+      const result = AiModelListSchema.safeParse([validModel]);
+      expect(result.success).toBe(true);
+    });
+  });
+});
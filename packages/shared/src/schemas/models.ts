@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { extendZodWithOpenApi } from "@asteasolutions/zod-to-openapi";
+import { AiKeyProviderSchema } from "./ai-keys.js";
+import { PlanTypeSchema } from "./billing.js";
+
+extendZodWithOpenApi(z);
+
+// ============================================================================
+// AI Model Schemas
+// ============================================================================
+
+export const AiModelSchema = z
+  .object({
+    id: z.string(), // Passed to OpenClaw as-is, e.g. "claude-sonnet-4-0"
+    vendor: AiKeyProviderSchema,
+    displayName: z.string(),
+    contextWindow: z.number().int().positive(), // In tokens
+    plans: z.array(PlanTypeSchema), // Plans that may use the model
+    deprecatedAt: z.string().datetime().nullable(), // No new instances after this date
+    available: z.boolean(), // Usable for a new instance by the requesting user
+  })
+  .openapi("AiModel");
+
+export const AiModelListSchema = z.array(AiModelSchema).openapi("AiModelList");
+
+// ============================================================================
+// Type Exports
+// ============================================================================
+
+export type AiModel = z.infer<typeof AiModelSchema>;
+export type AiModelList = z.infer<typeof AiModelListSchema>;
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import {
+  OrganizationRoleSchema,
+  OrganizationSchema,
+  UpdateOrganizationRequestSchema,
+  CreateInvitationRequestSchema,
+  AcceptInvitationRequestSchema,
+} from "./organizations.js";
+
+describe("Organization Schemas", () => {
+  describe("OrganizationRoleSchema", () => {
+    it("should accept the supported roles", () => {
+      for (const role of ["owner", "admin", "operator", "viewer"]) {
+        expect(OrganizationRoleSchema.safeParse(role).success).toBe(true);
+      }
+    });
+
+    it("should reject unknown roles", () => {
+      expect(OrganizationRoleSchema.safeParse("member").success).toBe(false);
+      expect(OrganizationRoleSchema.safeParse("OWNER").success).toBe(false);
+    });
+  });
+
+  describe("OrganizationSchema", () => {
+    it("should accept an organization with the caller's role", () => {
+      const result = OrganizationSchema.safeParse({
+        id: "cjld2cyuq0000t3rmniod1foy",
+        name: "Acme",
+        role: "operator",
+        requireTwoFactor: false,
+        createdAt: "2024-01-01T00:00:00.000Z",
+      });
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe("UpdateOrganizationRequestSchema", () => {
+    it("should accept partial updates", () => {
+      expect(UpdateOrganizationRequestSchema.safeParse({ requireTwoFactor: true }).success).toBe(
+        true
+      );
+      expect(UpdateOrganizationRequestSchema.safeParse({}).success).toBe(true);
+    });
+
+    it("should reject an empty name", () => {
+      expect(UpdateOrganizationRequestSchema.safeParse({ name: "   " }).success).toBe(false);
+    });
+  });
+
+  describe("CreateInvitationRequestSchema", () => {
+    it("should normalize the email", () => {
+      const result = CreateInvitationRequestSchema.safeParse({
+        email: "  Jane@Example.COM ",
+        role: "admin",
+      });
+      expect(result.success).toBe(true);
+      expect(result.data?.email).toBe("jane@example.com");
+    });
+
+    it("should reject invalid emails", () => {
+      const result = CreateInvitationRequestSchema.safeParse({ email: "jane", role: "viewer" });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("AcceptInvitationRequestSchema", () => {
+    it("should require a token", () => {
+      expect(AcceptInvitationRequestSchema.safeParse({ token: "" }).success).toBe(false);
+      expect(AcceptInvitationRequestSchema.safeParse({ token: "abc" }).success).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { z } from "zod";
+import { extendZodWithOpenApi } from "@asteasolutions/zod-to-openapi";
+
+extendZodWithOpenApi(z);
+
+// ============================================================================
+// Organization Schemas
+// ============================================================================
+
+// From least to most access: viewers read, operators also start, stop and
+// restart instances, admins also create, change and delete them and manage
+// members, owners also handle billing and the organization itself
+export const OrganizationRoleSchema = z
+  .enum(["viewer", "operator", "admin", "owner"])
+  .openapi("OrganizationRole");
+
+export const OrganizationSchema = z
+  .object({
+    id: z.string().cuid(),
+    name: z.string(),
+    role: OrganizationRoleSchema, // The signed-in user's role
+    requireTwoFactor: z.boolean(), // Members must set up two-factor authentication
+    createdAt: z.string().datetime(),
+  })
+  .openapi("Organization");
+
+export const OrganizationListSchema = z.array(OrganizationSchema).openapi("OrganizationList");
+
+export const OrganizationIdParamSchema = z.object({
+  id: z.string().cuid(),
+});
+
+// Instance and billing routes act on this organization; without it, on the
+// caller's oldest
+export const OrganizationHeaderSchema = z.object({
+  "x-organization-id": z.string().cuid().optional(),
+});
+
+export const OrganizationMemberSchema = z
+  .object({
+    userId: z.string().cuid(),
+    email: z.string().email(),
+    name: z.string().nullable(),
+    role: OrganizationRoleSchema,
+    twoFactorEnabled: z.boolean(),
+    joinedAt: z.string().datetime(),
+  })
+  .openapi("OrganizationMember");
+
+export const OrganizationMemberListSchema = z
+  .array(OrganizationMemberSchema)
+  .openapi("OrganizationMemberList");
+
+export const OrganizationMemberParamSchema = z.object({
+  id: z.string().cuid(),
+  userId: z.string().cuid(),
+});
+
+export const OrganizationInvitationSchema = z
+  .object({
+    id: z.string().cuid(),
+    email: z.string().email(),
+    role: OrganizationRoleSchema,
+    invitedBy: z.string().nullable(), // Name or email of the inviter; null once they are gone
+    expiresAt: z.string().datetime(),
+    createdAt: z.string().datetime(),
+  })
+  .openapi("OrganizationInvitation");
+
+export const OrganizationInvitationListSchema = z
+  .array(OrganizationInvitationSchema)
+  .openapi("OrganizationInvitationList");
+
+export const OrganizationInvitationParamSchema = z.object({
+  id: z.string().cuid(),
+  invitationId: z.string().cuid(),
+});
+
+// ============================================================================
+// Organization Request Schemas
+// ============================================================================
+
+export const CreateOrganizationRequestSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(100),
+  })
+  .openapi("CreateOrganizationRequest");
+
+export const UpdateOrganizationRequestSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(100).optional(),
+    requireTwoFactor: z.boolean().optional(),
+  })
+  .openapi("UpdateOrganizationRequest");
+
+export const UpdateMemberRequestSchema = z
+  .object({
+    role: OrganizationRoleSchema,
+  })
+  .openapi("UpdateMemberRequest");
+
+export const CreateInvitationRequestSchema = z
+  .object({
+    email: z.string().trim().toLowerCase().email(),
+    role: OrganizationRoleSchema,
+  })
+  .openapi("CreateInvitationRequest");
+
+export const AcceptInvitationRequestSchema = z
+  .object({
+    token: z.string().min(1), // From the link in the invitation email
+  })
+  .openapi("AcceptInvitationRequest");
+
+// ============================================================================
+// Type Exports
+// ============================================================================
+
+export type OrganizationRole = z.infer<typeof OrganizationRoleSchema>;
+export type Organization = z.infer<typeof OrganizationSchema>;
+export type OrganizationList = z.infer<typeof OrganizationListSchema>;
+export type OrganizationMember = z.infer<typeof OrganizationMemberSchema>;
+export type OrganizationMemberList = z.infer<typeof OrganizationMemberListSchema>;
+export type OrganizationInvitation = z.infer<typeof OrganizationInvitationSchema>;
+export type OrganizationInvitationList = z.infer<typeof OrganizationInvitationListSchema>;
+export type CreateOrganizationRequest = z.infer<typeof CreateOrganizationRequestSchema>;
+export type UpdateOrganizationRequest = z.infer<typeof UpdateOrganizationRequestSchema>;
+export type UpdateMemberRequest = z.infer<typeof UpdateMemberRequestSchema>;
+export type CreateInvitationRequest = z.infer<typeof CreateInvitationRequestSchema>;
+export type AcceptInvitationRequest = z.infer<typeof AcceptInvitationRequestSchema>;
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { ProviderCapabilitiesSchema, ProviderInfoSchema, ProviderListSchema } from "./providers.js";
+
+const validProvider = {
+  name: "fly",
+  displayName: "Fly.io",
+  capabilities: {
+    logs: true,
+    exec: false,
+    volumes: false,
+    regions: true,
+    suspend: false,
+    metrics: false,
+    redeploy: true,
+  },
+  regions: ["iad", "lhr"],
+  isDefault: true,
+};
+
+describe("Provider Schemas", () => {
+  describe("ProviderCapabilitiesSchema", () => {
+    it("should accept a full capability set", () => {
+      const result = ProviderCapabilitiesSchema.safeParse(validProvider.capabilities);
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject a missing capability", () => {
+      const { metrics: _metrics, ...capabilities } = validProvider.capabilities;
+      const result = ProviderCapabilitiesSchema.safeParse(capabilities);
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("ProviderInfoSchema", () => {
+    it("should accept a valid provider", () => {
+      const result = ProviderInfoSchema.safeParse(validProvider);
+      expect(result.success).toBe(true);
+    });
+
+    it("should accept a provider without regions", () => {
+      const result = ProviderInfoSchema.safeParse({
+        ...validProvider,
+        name: "docker",
+        capabilities: { ...validProvider.capabilities, regions: false },
+        regions: [],
+        isDefault: false,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject non-boolean isDefault", () => {
+      const result = ProviderInfoSchema.safeParse({ ...validProvider, isDefault: "yes" });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("ProviderListSchema", () => {
+    it("should accept an empty list", () => {
+      const result = ProviderListSchema.safeParse([]);
+      expect(result.success).toBe(true);
+    });
+  });
+});
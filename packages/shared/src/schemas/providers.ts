@@ -0,0 +1,40 @@
+import { z } from "zod";
+import { extendZodWithOpenApi } from "@asteasolutions/zod-to-openapi";
+
+extendZodWithOpenApi(z);
+
+// ============================================================================
+// Provider Schemas
+// ============================================================================
+
+export const ProviderCapabilitiesSchema = z
+  .object({
+    logs: z.boolean(),
+    exec: z.boolean(),
+    volumes: z.boolean(),
+    regions: z.boolean(),
+    suspend: z.boolean(),
+    metrics: z.boolean(),
+    redeploy: z.boolean(),
+  })
+  .openapi("ProviderCapabilities");
+
+export const ProviderInfoSchema = z
+  .object({
+    name: z.string(), // Matches Instance.provider
+    displayName: z.string(),
+    capabilities: ProviderCapabilitiesSchema,
+    regions: z.array(z.string()), // Empty unless capabilities.regions
+    isDefault: z.boolean(), // New instances are created on this provider
+  })
+  .openapi("ProviderInfo");
+
+export const ProviderListSchema = z.array(ProviderInfoSchema).openapi("ProviderList");
+
+// ============================================================================
+// Type Exports
+// ============================================================================
+
+export type ProviderCapabilities = z.infer<typeof ProviderCapabilitiesSchema>;
+export type ProviderInfo = z.infer<typeof ProviderInfoSchema>;
+export type ProviderList = z.infer<typeof ProviderListSchema>;